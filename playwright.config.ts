@@ -22,5 +22,7 @@ export default defineConfig({
     url: 'http://localhost:3000',
     reuseExistingServer: !process.env.CI,
     timeout: 120 * 1000,
+    // Use the scripted mock AI provider - no network access during tests
+    env: { AI_OFFLINE: '1' },
   },
 });
@@ -0,0 +1,39 @@
+// Generates the full SRD 5.1 monster and spell set from the 5e-bits SRD database, through
+// the same transforms the dnd5eapi fallback uses:
+//   npm run srd:generate
+//
+// Writes src/lib/rules/data/srd/monsters.json and spells.json - commit them. Until then they
+// are empty and the compendium only has the hand-tuned stat blocks in data/monsters.ts and
+// data/spells.ts, which also win over generated entries of the same name.
+//
+// Needs the network, so it is never part of the build. Set SRD_DATABASE_REF to a release
+// tag to pin the database version.
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import { toMonsterStatBlock, toSpellDefinition } from '../src/lib/rules/srd-api';
+import type { ApiMonster, ApiSpell } from '../src/lib/rules/srd-api';
+import type { MonsterStatBlock } from '../src/lib/engine/types';
+import type { SpellDefinition } from '../src/lib/rules/types';
+
+const SRD_DATABASE_REF = process.env.SRD_DATABASE_REF ?? 'main';
+const SRD_DATABASE_URL = `https://raw.githubusercontent.com/5e-bits/5e-database/${SRD_DATABASE_REF}/src/2014`;
+const OUT_DIR = join(__dirname, '../src/lib/rules/data/srd');
+
+async function generate<T, R>(file: string, out: string, transform: (row: T) => R): Promise<void> {
+  const response = await fetch(`${SRD_DATABASE_URL}/${file}`);
+  if (!response.ok) throw new Error(`${file} returned ${response.status}`);
+  const entries = (await response.json() as T[]).map(transform);
+  writeFileSync(join(OUT_DIR, out), `${JSON.stringify(entries, null, 2)}\n`);
+  console.log(`  ${out}: ${entries.length} entries`);
+}
+
+async function main() {
+  console.log(`Fetching the SRD database at ${SRD_DATABASE_REF}...`);
+  await generate<ApiMonster, MonsterStatBlock>('5e-SRD-Monsters.json', 'monsters.json', toMonsterStatBlock);
+  await generate<ApiSpell, SpellDefinition>('5e-SRD-Spells.json', 'spells.json', toSpellDefinition);
+}
+
+main().catch((error) => {
+  console.error('SRD data generation failed:', error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,181 @@
+// Folds the legacy CampaignLore graph (its cosmology and worldHistory columns, LoreNpc,
+// LoreFaction, LoreLocation, LoreConflict, LoreSecret) into each campaign's WorldSeed graph,
+// the only lore the app reads now.
+//
+// Run it against the old database BEFORE pushing the schema that drops those tables:
+//   npx tsx scripts/migrate-legacy-lore.ts
+//   npx prisma db push --accept-data-loss
+//
+// It runs with the new Prisma client against the old schema, so it only ever reads and writes
+// columns the old World* tables already have: reads select them, writes return just the id,
+// and columns added since (WorldSeed.simulatedDay, WorldSecret.revealProgress, ...) are left
+// to their defaults when the schema push adds them.
+//
+// Safe to run more than once: entities already in the world only get their discovery merged.
+// Only push the schema once this prints "Now run" - on any failure or shortfall it exits
+// non-zero, and dropping the tables then would lose lore for good.
+import { PrismaClient } from '@prisma/client';
+import { checkLegacyLoreFold, planLegacyLoreFold } from '../src/lib/world/legacy-lore';
+import type { ExistingWorld, LegacyLoreGraph, LegacyLoreRow } from '../src/lib/world/legacy-lore';
+
+const prisma = new PrismaClient();
+
+// Writes return only the id, so they never read a column the old schema lacks
+const ID_ONLY = { id: true } as const;
+
+const DO_NOT_DROP = 'Do NOT run `prisma db push --accept-data-loss` - the legacy lore tables are the only copy of what is missing.';
+
+async function tableExists(name: string): Promise<boolean> {
+  const rows = await prisma.$queryRawUnsafe<Array<{ name: string }>>(
+    `SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?`,
+    name
+  );
+  return rows.length > 0;
+}
+
+async function loadLegacyGraph(lore: LegacyLoreRow): Promise<LegacyLoreGraph> {
+  const rows = <T>(table: string) => prisma.$queryRawUnsafe<T[]>(
+    `SELECT * FROM "${table}" WHERE "campaignLoreId" = ?`,
+    lore.id
+  );
+  return {
+    lore,
+    npcs: await rows('LoreNpc'),
+    factions: await rows('LoreFaction'),
+    locations: await rows('LoreLocation'),
+    conflicts: await rows('LoreConflict'),
+    secrets: await rows('LoreSecret'),
+  };
+}
+
+async function loadWorld(campaignId: string): Promise<ExistingWorld | null> {
+  const entitySelect = { select: { id: true, name: true, isDiscovered: true } };
+  const world = await prisma.worldSeed.findUnique({
+    where: { campaignId },
+    select: {
+      id: true,
+      npcs: entitySelect,
+      factions: entitySelect,
+      locations: entitySelect,
+      conflicts: entitySelect,
+      secrets: { select: { id: true, name: true, isRevealed: true } },
+      cosmology: { select: { id: true } },
+      history: { select: { id: true } },
+    },
+  });
+  if (!world) return null;
+
+  const entity = (e: { id: string; name: string; isDiscovered: boolean }) => ({ id: e.id, name: e.name, discovered: e.isDiscovered });
+  return {
+    id: world.id,
+    entities: {
+      npc: world.npcs.map(entity),
+      faction: world.factions.map(entity),
+      location: world.locations.map(entity),
+      conflict: world.conflicts.map(entity),
+      secret: world.secrets.map((s) => ({ id: s.id, name: s.name, discovered: s.isRevealed })),
+    },
+    hasCosmology: world.cosmology !== null,
+    hasHistory: world.history !== null,
+  };
+}
+
+async function migrate() {
+  if (!(await tableExists('LoreNpc'))) {
+    console.log('No legacy lore tables - nothing to migrate.');
+    return;
+  }
+
+  const lores = await prisma.$queryRawUnsafe<LegacyLoreRow[]>(
+    `SELECT "id", "campaignId", "generationStatus", "worldName", "tone", "themes", "cosmology", "worldHistory" FROM "CampaignLore"`
+  );
+
+  let shortfalls = 0;
+  for (const lore of lores) {
+    const legacy = await loadLegacyGraph(lore);
+    const world = await loadWorld(lore.campaignId);
+    const plan = planLegacyLoreFold(legacy, world);
+    const { factions, npcs, locations, conflicts, secrets } = plan.creates;
+
+    await prisma.$transaction(async (tx) => {
+      const worldSeedId = world?.id ?? (await tx.worldSeed.create({
+        data: { campaignId: lore.campaignId, ...plan.createWorld! },
+        select: ID_ONLY,
+      })).id;
+
+      if (plan.createCosmology) {
+        await tx.worldCosmology.create({ data: { ...plan.createCosmology, worldSeedId }, select: ID_ONLY });
+      }
+      if (plan.createHistory) {
+        await tx.worldHistory.create({ data: { ...plan.createHistory, worldSeedId }, select: ID_ONLY });
+      }
+      for (const faction of factions) {
+        await tx.worldFaction.create({ data: { ...faction, worldSeedId }, select: ID_ONLY });
+      }
+      // Parents may come later in the list, so link them once all locations exist
+      for (const location of locations) {
+        await tx.worldLocation.create({ data: { ...location, parentId: null, worldSeedId }, select: ID_ONLY });
+      }
+      for (const location of locations.filter((l) => l.parentId)) {
+        await tx.worldLocation.update({ where: { id: location.id }, data: { parentId: location.parentId }, select: ID_ONLY });
+      }
+      for (const npc of npcs) {
+        await tx.worldNpc.create({ data: { ...npc, worldSeedId }, select: ID_ONLY });
+      }
+      for (const conflict of conflicts) {
+        await tx.worldConflict.create({ data: { ...conflict, worldSeedId }, select: ID_ONLY });
+      }
+      for (const secret of secrets) {
+        await tx.worldSecret.create({ data: { ...secret, worldSeedId }, select: ID_ONLY });
+      }
+
+      for (const { type, id, discoveredAt } of plan.discoveries) {
+        const where = { id };
+        const data = { isDiscovered: true, discoveredAt };
+        switch (type) {
+          case 'npc': await tx.worldNpc.update({ where, data, select: ID_ONLY }); break;
+          case 'faction': await tx.worldFaction.update({ where, data, select: ID_ONLY }); break;
+          case 'location': await tx.worldLocation.update({ where, data, select: ID_ONLY }); break;
+          case 'conflict': await tx.worldConflict.update({ where, data, select: ID_ONLY }); break;
+          case 'secret': await tx.worldSecret.update({ where, data: { isRevealed: true, revealedAt: discoveredAt }, select: ID_ONLY }); break;
+        }
+      }
+    });
+
+    const created = factions.length + locations.length + npcs.length + conflicts.length + secrets.length;
+    console.log(
+      `${lore.worldName ?? lore.campaignId}: ${plan.createWorld ? 'created world, ' : ''}` +
+      `${created} entities added, ${plan.discoveries.length} discoveries merged` +
+      `${plan.createCosmology ? ', cosmology added' : ''}${plan.createHistory ? ', history added' : ''}`
+    );
+
+    // Read the world back and check every legacy row landed
+    const folded = await loadWorld(lore.campaignId);
+    const checks = folded ? checkLegacyLoreFold(legacy, folded) : [];
+    console.log(`  ${checks.map((c) => `${c.type} ${c.folded}/${c.legacy}`).join(', ')}`);
+    checks.filter((c) => c.missing.length > 0).forEach((c) => {
+      shortfalls += c.missing.length;
+      console.error(`  Missing ${c.type}: ${c.missing.join(', ')}`);
+    });
+    if (!folded) {
+      shortfalls++;
+      console.error('  No world found after folding');
+    }
+  }
+
+  if (shortfalls > 0) {
+    console.error(`\n${shortfalls} legacy rows did not fold into their worlds. ${DO_NOT_DROP}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log(`\nFolded ${lores.length} campaign(s), every legacy row accounted for. Now run: npx prisma db push --accept-data-loss`);
+}
+
+migrate()
+  .catch((error) => {
+    console.error(error);
+    console.error(`\nMigration failed. ${DO_NOT_DROP}`);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -31,12 +31,7 @@ export async function cleanupTestData() {
   await prisma.worldGeography.deleteMany({});
   await prisma.worldSeed.deleteMany({});
 
-  // Clean legacy models too
-  await prisma.loreSecret.deleteMany({});
-  await prisma.loreConflict.deleteMany({});
-  await prisma.loreLocation.deleteMany({});
-  await prisma.loreFaction.deleteMany({});
-  await prisma.loreNpc.deleteMany({});
+  // Clean lore generation jobs too
   await prisma.campaignLore.deleteMany({});
 
   // Clean campaign data (delete dependents first)
@@ -2,7 +2,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { z } from 'zod';
 import { orchestrator } from '@/lib/ai/orchestrator';
+import { sessionService } from '@/lib/session';
+import { parseCampaignRuleset } from '@/lib/engine/campaign-rules';
 import type { Character, Combat } from '@/lib/engine/types';
+import type { GameMap } from '@/lib/engine/spatial-types';
 
 const ActionSchema = z.object({
   campaignId: z.string().uuid(),
@@ -56,6 +59,7 @@ export async function POST(request: NextRequest) {
       race: c.race,
       className: c.className,
       level: c.level,
+      experiencePoints: c.experiencePoints,
       abilityScores: {
         strength: c.strength,
         dexterity: c.dexterity,
@@ -98,6 +102,16 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Parse active map if exists
+    let activeMap: GameMap | null = null;
+    if (gameState.activeMap) {
+      try {
+        activeMap = JSON.parse(gameState.activeMap);
+      } catch {
+        activeMap = null;
+      }
+    }
+
     // Build orchestrator context
     const orchestratorContext = {
       campaignId,
@@ -110,15 +124,17 @@ export async function POST(request: NextRequest) {
         gameHour: gameState.gameHour,
         gameMinute: gameState.gameMinute,
         activeCombat,
+        activeMap,
         recentMessages: JSON.parse(gameState.recentMessages || '[]'),
       },
+      ruleset: parseCampaignRuleset(campaign.settings),
     };
 
     // Process through orchestrator
     const result = await orchestrator.processAction(playerInput, orchestratorContext);
 
     // Apply state updates
-    const { characterUpdates, combatUpdate, modeChange } = result.stateUpdates;
+    const { characterUpdates, combatUpdate, mapUpdate, timeUpdate, modeChange } = result.stateUpdates;
 
     // Update characters if needed
     for (const [charId, updates] of Object.entries(characterUpdates)) {
@@ -126,12 +142,16 @@ export async function POST(request: NextRequest) {
       if (updates.currentHp !== undefined) updateData.currentHp = updates.currentHp;
       if (updates.tempHp !== undefined) updateData.tempHp = updates.tempHp;
       if (updates.hitDiceRemaining !== undefined) updateData.hitDiceRemaining = updates.hitDiceRemaining;
+      if (updates.experiencePoints !== undefined) updateData.experiencePoints = updates.experiencePoints;
       if (updates.conditions !== undefined) updateData.conditions = JSON.stringify(updates.conditions);
       if (updates.inventory !== undefined) updateData.inventory = JSON.stringify(updates.inventory);
       if (updates.gold !== undefined) updateData.gold = updates.gold;
       if (updates.spellSlots !== undefined) updateData.spellSlots = JSON.stringify(updates.spellSlots);
       if (updates.classResources !== undefined) updateData.classResources = JSON.stringify(updates.classResources);
       if (updates.equippedItems !== undefined) updateData.equippedItems = JSON.stringify(updates.equippedItems);
+      if (updates.armorClass !== undefined) updateData.armorClass = updates.armorClass;
+      if (updates.deathSaveSuccesses !== undefined) updateData.deathSaveSuccesses = updates.deathSaveSuccesses;
+      if (updates.deathSaveFailures !== undefined) updateData.deathSaveFailures = updates.deathSaveFailures;
       
       if (Object.keys(updateData).length > 0) {
         await prisma.character.update({
@@ -155,6 +175,18 @@ export async function POST(request: NextRequest) {
       gameStateUpdate.activeCombat = combatUpdate ? JSON.stringify(combatUpdate) : null;
     }
 
+    // Persist map changes from spatial functions (area effects, fog of war)
+    if (mapUpdate) {
+      gameStateUpdate.activeMap = JSON.stringify(mapUpdate);
+    }
+
+    // Persist the clock moved by advance_time
+    if (timeUpdate) {
+      gameStateUpdate.gameDay = timeUpdate.day;
+      gameStateUpdate.gameHour = timeUpdate.hour;
+      gameStateUpdate.gameMinute = timeUpdate.minute;
+    }
+
     // Update mode if changed
     if (modeChange) {
       gameStateUpdate.mode = modeChange;
@@ -176,14 +208,16 @@ export async function POST(request: NextRequest) {
       data: gameStateUpdate,
     });
 
+    await sessionService.recordAction(campaignId, playerInput, result.narrative, result.functionResults);
+
     return NextResponse.json({
       narrative: result.narrative,
       diceRolls: result.functionResults.length > 0 ? result.functionResults : undefined,
       gameState: {
         mode: modeChange || gameState.mode,
-        gameDay: gameState.gameDay,
-        gameHour: gameState.gameHour,
-        gameMinute: gameState.gameMinute,
+        gameDay: timeUpdate?.day ?? gameState.gameDay,
+        gameHour: timeUpdate?.hour ?? gameState.gameHour,
+        gameMinute: timeUpdate?.minute ?? gameState.gameMinute,
       },
       warnings: result.warnings.length > 0 ? result.warnings : undefined,
     });
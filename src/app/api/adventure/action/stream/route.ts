@@ -2,7 +2,10 @@ import { NextRequest } from 'next/server';
 import { prisma } from '@/lib/db';
 import { z } from 'zod';
 import { orchestrator } from '@/lib/ai/orchestrator';
+import { sessionService } from '@/lib/session';
+import { parseCampaignRuleset } from '@/lib/engine/campaign-rules';
 import type { Character, Combat } from '@/lib/engine/types';
+import type { GameMap } from '@/lib/engine/spatial-types';
 
 const ActionSchema = z.object({
   campaignId: z.string().uuid(),
@@ -60,6 +63,7 @@ export async function POST(request: NextRequest) {
           race: c.race,
           className: c.className,
           level: c.level,
+          experiencePoints: c.experiencePoints,
           abilityScores: {
             strength: c.strength,
             dexterity: c.dexterity,
@@ -101,6 +105,16 @@ export async function POST(request: NextRequest) {
           }
         }
 
+        // Parse active map if exists
+        let activeMap: GameMap | null = null;
+        if (gameState.activeMap) {
+          try {
+            activeMap = JSON.parse(gameState.activeMap);
+          } catch {
+            activeMap = null;
+          }
+        }
+
         const orchestratorContext = {
           campaignId,
           campaignName: campaign.name,
@@ -112,45 +126,56 @@ export async function POST(request: NextRequest) {
             gameHour: gameState.gameHour,
             gameMinute: gameState.gameMinute,
             activeCombat,
+            activeMap,
             recentMessages: JSON.parse(gameState.recentMessages || '[]'),
           },
+          ruleset: parseCampaignRuleset(campaign.settings),
         };
 
         sendEvent('status', { phase: 'processing', message: 'Rolling dice and resolving mechanics...' });
 
-        const result = await orchestrator.processAction(playerInput, orchestratorContext);
-
-        if (result.functionResults.length > 0) {
-          sendEvent('dice', result.functionResults);
-        }
-
-        sendEvent('status', { phase: 'narrating', message: 'Crafting the narrative...' });
-
-        // Stream the narrative in chunks for better UX
-        const words = result.narrative.split(' ');
-        const chunkSize = 10;
-        for (let i = 0; i < words.length; i += chunkSize) {
-          const chunk = words.slice(i, i + chunkSize).join(' ');
-          sendEvent('chunk', { text: chunk + (i + chunkSize < words.length ? ' ' : '') });
-          await new Promise((r) => setTimeout(r, 50)); // Small delay for streaming effect
-        }
+        // Forward narration and function results as they are produced
+        let narrating = false;
+        const result = await orchestrator.processAction(playerInput, orchestratorContext, (event) => {
+          switch (event.type) {
+            case 'narration':
+              if (!narrating) {
+                narrating = true;
+                sendEvent('status', { phase: 'narrating', message: 'Crafting the narrative...' });
+              }
+              sendEvent('chunk', { text: event.text });
+              break;
+            case 'narration_reset':
+              sendEvent('reset', {});
+              break;
+            case 'function':
+              sendEvent('dice', [event.result]);
+              break;
+          }
+        });
 
+        // The narration streamed so far is provisional - State Guardian has validated
+        // the final narrative, which is saved below and sent with 'complete'
         sendEvent('status', { phase: 'saving', message: 'Updating game state...' });
 
         // Apply state updates
-        const { characterUpdates, combatUpdate, modeChange } = result.stateUpdates;
+        const { characterUpdates, combatUpdate, mapUpdate, timeUpdate, modeChange } = result.stateUpdates;
 
         for (const [charId, updates] of Object.entries(characterUpdates)) {
           const updateData: Record<string, unknown> = {};
           if (updates.currentHp !== undefined) updateData.currentHp = updates.currentHp;
           if (updates.tempHp !== undefined) updateData.tempHp = updates.tempHp;
           if (updates.hitDiceRemaining !== undefined) updateData.hitDiceRemaining = updates.hitDiceRemaining;
+          if (updates.experiencePoints !== undefined) updateData.experiencePoints = updates.experiencePoints;
           if (updates.conditions !== undefined) updateData.conditions = JSON.stringify(updates.conditions);
           if (updates.inventory !== undefined) updateData.inventory = JSON.stringify(updates.inventory);
           if (updates.gold !== undefined) updateData.gold = updates.gold;
           if (updates.spellSlots !== undefined) updateData.spellSlots = JSON.stringify(updates.spellSlots);
           if (updates.classResources !== undefined) updateData.classResources = JSON.stringify(updates.classResources);
           if (updates.equippedItems !== undefined) updateData.equippedItems = JSON.stringify(updates.equippedItems);
+          if (updates.armorClass !== undefined) updateData.armorClass = updates.armorClass;
+          if (updates.deathSaveSuccesses !== undefined) updateData.deathSaveSuccesses = updates.deathSaveSuccesses;
+          if (updates.deathSaveFailures !== undefined) updateData.deathSaveFailures = updates.deathSaveFailures;
 
           if (Object.keys(updateData).length > 0) {
             await prisma.character.update({
@@ -170,6 +195,18 @@ export async function POST(request: NextRequest) {
           gameStateUpdate.activeCombat = combatUpdate ? JSON.stringify(combatUpdate) : null;
         }
 
+        // Persist map changes from spatial functions (area effects, fog of war)
+        if (mapUpdate) {
+          gameStateUpdate.activeMap = JSON.stringify(mapUpdate);
+        }
+
+        // Persist the clock moved by advance_time
+        if (timeUpdate) {
+          gameStateUpdate.gameDay = timeUpdate.day;
+          gameStateUpdate.gameHour = timeUpdate.hour;
+          gameStateUpdate.gameMinute = timeUpdate.minute;
+        }
+
         if (modeChange) {
           gameStateUpdate.mode = modeChange;
         }
@@ -179,13 +216,15 @@ export async function POST(request: NextRequest) {
           data: gameStateUpdate,
         });
 
+        await sessionService.recordAction(campaignId, playerInput, result.narrative, result.functionResults);
+
         sendEvent('complete', {
           narrative: result.narrative,
           gameState: {
             mode: modeChange || gameState.mode,
-            gameDay: gameState.gameDay,
-            gameHour: gameState.gameHour,
-            gameMinute: gameState.gameMinute,
+            gameDay: timeUpdate?.day ?? gameState.gameDay,
+            gameHour: timeUpdate?.hour ?? gameState.gameHour,
+            gameMinute: timeUpdate?.minute ?? gameState.gameMinute,
           },
           warnings: result.warnings.length > 0 ? result.warnings : undefined,
         });
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { z } from 'zod';
 import { orchestrator } from '@/lib/ai/orchestrator';
+import { sessionService } from '@/lib/session';
 import type { Character } from '@/lib/engine/types';
 
 const IntroSchema = z.object({
@@ -52,6 +53,7 @@ export async function POST(request: NextRequest) {
       race: c.race,
       className: c.className,
       level: c.level,
+      experiencePoints: c.experiencePoints,
       abilityScores: {
         strength: c.strength,
         dexterity: c.dexterity,
@@ -121,6 +123,11 @@ export async function POST(request: NextRequest) {
       });
     }
 
+    // The intro opens the first session's transcript
+    await sessionService.record(campaignId, [
+      { role: 'assistant', content: intro, timestamp: new Date().toISOString() },
+    ]);
+
     return NextResponse.json({ intro });
   } catch (error) {
     console.error('Failed to generate intro:', error);
@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/db';
+import { partyKnowledgeService, KNOWLEDGE_ENTITY_TYPES, KNOWLEDGE_KINDS } from '@/lib/world';
+
+const KnowledgeQuerySchema = z.object({
+  entityType: z.enum(KNOWLEDGE_ENTITY_TYPES).optional(),
+  entityId: z.string().min(1).optional(),
+});
+
+const RecordKnowledgeSchema = z.object({
+  entityType: z.enum(KNOWLEDGE_ENTITY_TYPES),
+  entityId: z.string().min(1),
+  content: z.string().min(1),
+  kind: z.enum(KNOWLEDGE_KINDS).optional(),
+  field: z.string().min(1).nullable().optional(),
+  isTrue: z.boolean().optional(),
+  source: z.string().nullable().optional(),
+  learnedDay: z.number().int().min(1).nullable().optional(),
+});
+
+async function campaignExists(id: string): Promise<boolean> {
+  return (await prisma.campaign.findUnique({ where: { id }, select: { id: true } })) !== null;
+}
+
+const notFound = (message: string) => NextResponse.json(
+  { error: { code: 'NOT_FOUND', message } },
+  { status: 404 }
+);
+
+/**
+ * GET - Everything the party has learned, oldest first, with the DM-only isTrue flag.
+ * Filter with ?entityType=, ?entityId=
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const parsed = KnowledgeQuerySchema.safeParse(Object.fromEntries(searchParams));
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: { code: 'VALIDATION_FAILED', message: 'Invalid query', details: parsed.error.flatten() } },
+        { status: 422 }
+      );
+    }
+
+    if (!(await campaignExists(id))) return notFound('Campaign not found');
+
+    const knowledge = await partyKnowledgeService.list(id, parsed.data);
+    return NextResponse.json({ knowledge });
+  } catch (error) {
+    console.error('Failed to fetch party knowledge:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch party knowledge' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Record a fact, rumor or partial reveal the party learned about a world entity
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const parsed = RecordKnowledgeSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: { code: 'VALIDATION_FAILED', message: 'Invalid input', details: parsed.error.flatten() } },
+        { status: 422 }
+      );
+    }
+
+    if (!(await campaignExists(id))) return notFound('Campaign not found');
+
+    const entry = await partyKnowledgeService.record(id, parsed.data);
+    if (!entry) return notFound(`No ${parsed.data.entityType} with that id in this campaign's world`);
+
+    return NextResponse.json({ entry }, { status: 201 });
+  } catch (error) {
+    console.error('Failed to record party knowledge:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to record party knowledge' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE - Forget an entry recorded by mistake (?entryId=)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const entryId = new URL(request.url).searchParams.get('entryId');
+
+    if (!entryId) {
+      return NextResponse.json(
+        { error: { code: 'VALIDATION_FAILED', message: 'entryId required' } },
+        { status: 422 }
+      );
+    }
+
+    if (!(await partyKnowledgeService.remove(id, entryId))) return notFound('Knowledge entry not found');
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to remove party knowledge:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to remove party knowledge' } },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { prisma } from '@/lib/db';
+import { loreRepository, partyKnowledgeService, redactEntity, redactWorldLore, CATEGORY_ENTITY_TYPES } from '@/lib/world';
+import type { WorldLoreKind } from '@/lib/world';
 
 const safeParseArray = (value: unknown) => {
   if (!value || typeof value !== 'string') return [];
@@ -29,50 +30,34 @@ export async function GET(
     const { searchParams } = new URL(request.url);
     const category = searchParams.get('category');
     const worldSeedId = searchParams.get('worldSeedId');
+    const playerView = searchParams.get('view') === 'player';
     
     if (!worldSeedId) {
       return NextResponse.json({ error: 'worldSeedId required' }, { status: 400 });
     }
 
-    let entity = null;
+    let entity: Record<string, unknown> | null = null;
+    // Set for history and cosmology entries, which have their own player view
+    let loreKind: WorldLoreKind | null = null;
+    let lostKnowledge: unknown[] = [];
 
-    switch (category) {
-      case 'factions':
-        entity = await prisma.worldFaction.findFirst({
-          where: { id: params.entityId, worldSeedId },
-        });
-        break;
-
-      case 'people':
-        entity = await prisma.worldNpc.findFirst({
-          where: { id: params.entityId, worldSeedId },
-        });
-        break;
-
-      case 'geography':
-        entity = await prisma.worldLocation.findFirst({
-          where: { id: params.entityId, worldSeedId },
-        });
-        break;
-
-      case 'conflicts':
-        entity = await prisma.worldConflict.findFirst({
-          where: { id: params.entityId, worldSeedId },
-        });
-        break;
+    const entityType = category ? CATEGORY_ENTITY_TYPES[category] : undefined;
+    if (entityType) {
+      entity = await loreRepository.get(worldSeedId, entityType, params.entityId);
 
-      case 'secrets':
-        entity = await prisma.worldSecret.findFirst({
-          where: { id: params.entityId, worldSeedId },
-        });
-        break;
+      // Player view: what the party knows, and nothing at all about what they don't
+      if (entity && playerView) {
+        const knowledge = await partyKnowledgeService.list(params.id, { entityType, entityId: params.entityId });
+        entity = redactEntity(entityType, entity, knowledge);
+      }
+    }
 
+    switch (category) {
       case 'history': {
-        const history = await prisma.worldHistory.findUnique({
-          where: { worldSeedId },
-        });
+        const history = await loreRepository.getHistory(worldSeedId);
 
         if (history) {
+          lostKnowledge = safeParseArray(history.lostKnowledge);
           const [_, recordId, kind, indexPart] = params.entityId.split(':');
           const index = Number.parseInt(indexPart ?? '-1', 10);
 
@@ -81,6 +66,7 @@ export async function GET(
               const eras = safeParseArray(history.eras);
               const era = eras[index] as Record<string, unknown> | undefined;
               if (era) {
+                loreKind = 'era';
                 entity = {
                   ...era,
                   id: params.entityId,
@@ -93,6 +79,7 @@ export async function GET(
               const events = safeParseArray(history.majorEvents);
               const event = events[index] as Record<string, unknown> | undefined;
               if (event) {
+                loreKind = 'event';
                 entity = {
                   ...event,
                   id: params.entityId,
@@ -108,12 +95,11 @@ export async function GET(
       }
 
       case 'cosmology': {
-        const cosmology = await prisma.worldCosmology.findUnique({
-          where: { worldSeedId },
-        });
+        const cosmology = await loreRepository.getCosmology(worldSeedId);
 
         if (cosmology) {
           if (params.entityId.endsWith(':magic')) {
+            loreKind = 'system';
             entity = {
               id: params.entityId,
               type: 'system',
@@ -132,6 +118,7 @@ export async function GET(
               const pantheon = safeParseArray(cosmology.pantheon);
               const deity = pantheon[index] as Record<string, unknown> | undefined;
               if (deity) {
+                loreKind = 'deity';
                 entity = {
                   ...deity,
                   id: params.entityId,
@@ -147,6 +134,11 @@ export async function GET(
       }
     }
 
+    // Player view: common lore, without the parts only the DM knows
+    if (entity && playerView && loreKind) {
+      entity = redactWorldLore(loreKind, entity, lostKnowledge);
+    }
+
     if (!entity) {
       return NextResponse.json({ error: 'Entity not found' }, { status: 404 });
     }
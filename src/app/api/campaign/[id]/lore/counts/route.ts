@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { prisma } from '@/lib/db';
+import { loreRepository } from '@/lib/world';
 
 const safeParseArray = (value: unknown) => {
   if (!value || typeof value !== 'string') return [];
@@ -24,13 +24,13 @@ export async function GET(
     }
 
     const [factions, npcs, locations, conflicts, secrets, history, cosmology] = await Promise.all([
-      prisma.worldFaction.count({ where: { worldSeedId } }),
-      prisma.worldNpc.count({ where: { worldSeedId } }),
-      prisma.worldLocation.count({ where: { worldSeedId } }),
-      prisma.worldConflict.count({ where: { worldSeedId } }),
-      prisma.worldSecret.count({ where: { worldSeedId } }),
-      prisma.worldHistory.findUnique({ where: { worldSeedId } }),
-      prisma.worldCosmology.findUnique({ where: { worldSeedId } }),
+      loreRepository.count(worldSeedId, 'faction'),
+      loreRepository.count(worldSeedId, 'npc'),
+      loreRepository.count(worldSeedId, 'location'),
+      loreRepository.count(worldSeedId, 'conflict'),
+      loreRepository.count(worldSeedId, 'secret'),
+      loreRepository.getHistory(worldSeedId),
+      loreRepository.getCosmology(worldSeedId),
     ]);
 
     const historyEras = history ? safeParseArray(history.eras) : [];
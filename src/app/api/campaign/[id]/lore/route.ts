@@ -1,5 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { prisma } from '@/lib/db';
+import { loreRepository, partyKnowledgeService, redactEntity, redactWorldLore, isDiscovered, CATEGORY_ENTITY_TYPES } from '@/lib/world';
+import type { LoreEntity, NpcRecord } from '@/lib/world';
+
+interface EntityListItem {
+  id: string;
+  name: string;
+  tier: string;
+  type?: string;
+  isDiscovered: boolean;
+}
 
 const safeParseArray = (value: unknown) => {
   if (!value || typeof value !== 'string') return [];
@@ -19,67 +28,48 @@ export async function GET(
     const { searchParams } = new URL(request.url);
     const category = searchParams.get('category');
     const worldSeedId = searchParams.get('worldSeedId');
+    const playerView = searchParams.get('view') === 'player';
     
     if (!worldSeedId) {
       return NextResponse.json({ error: 'worldSeedId required' }, { status: 400 });
     }
 
-    let entities: { id: string; name: string; tier: string; type?: string; isDiscovered: boolean }[] = [];
-
-    switch (category) {
-      case 'factions':
-        const factions = await prisma.worldFaction.findMany({
-          where: { worldSeedId },
-          select: { id: true, name: true, tier: true, type: true, isDiscovered: true },
-          orderBy: [{ tier: 'asc' }, { name: 'asc' }],
-        });
-        entities = factions;
-        break;
-
-      case 'people':
-        const npcs = await prisma.worldNpc.findMany({
-          where: { worldSeedId },
-          select: { id: true, name: true, tier: true, occupation: true, isDiscovered: true },
-          orderBy: [{ tier: 'asc' }, { name: 'asc' }],
-        });
-        entities = npcs.map((n) => ({ ...n, type: n.occupation || undefined }));
-        break;
+    let entities: EntityListItem[] = [];
 
-      case 'geography':
-        const locations = await prisma.worldLocation.findMany({
-          where: { worldSeedId },
-          select: { id: true, name: true, tier: true, type: true, isDiscovered: true },
-          orderBy: [{ tier: 'asc' }, { name: 'asc' }],
-        });
-        entities = locations;
-        break;
+    const entityType = category ? CATEGORY_ENTITY_TYPES[category] : undefined;
+    if (entityType) {
+      let rows: LoreEntity[] = await loreRepository.list(worldSeedId, entityType);
 
-      case 'conflicts':
-        const conflicts = await prisma.worldConflict.findMany({
-          where: { worldSeedId },
-          select: { id: true, name: true, tier: true, type: true, isDiscovered: true },
-          orderBy: [{ tier: 'asc' }, { name: 'asc' }],
+      // Player view: only what the party knows of, and no names for unrevealed secrets
+      if (playerView) {
+        const knowledge = await partyKnowledgeService.list(params.id, { entityType });
+        rows = rows.flatMap((row) => {
+          const view = redactEntity(entityType, row, knowledge);
+          return view ? [{ ...row, name: view.name as string }] : [];
         });
-        entities = conflicts;
-        break;
+      }
 
-      case 'secrets':
-        const secrets = await prisma.worldSecret.findMany({
-          where: { worldSeedId },
-          select: { id: true, name: true, tier: true, type: true, isRevealed: true },
-          orderBy: [{ tier: 'asc' }, { name: 'asc' }],
-        });
-        entities = secrets.map((s) => ({ ...s, isDiscovered: s.isRevealed }));
-        break;
+      entities = rows.map((row) => ({
+        id: row.id,
+        name: row.name,
+        tier: row.tier,
+        type: entityType === 'npc' ? (row as NpcRecord).occupation || undefined : (row as Exclude<LoreEntity, NpcRecord>).type,
+        isDiscovered: isDiscovered(entityType, row),
+      }));
+      return NextResponse.json({ success: true, entities });
+    }
 
+    switch (category) {
       case 'history': {
-        const history = await prisma.worldHistory.findUnique({
-          where: { worldSeedId },
-        });
+        const history = await loreRepository.getHistory(worldSeedId);
 
         if (history) {
           const eras = safeParseArray(history.eras);
           const majorEvents = safeParseArray(history.majorEvents);
+          const lostKnowledge = safeParseArray(history.lostKnowledge);
+          // Player view: leave out history the party can't know (ids keep their index)
+          const shown = (kind: 'era' | 'event', entry: Record<string, unknown>) =>
+            !playerView || redactWorldLore(kind, entry, lostKnowledge) !== null;
 
           const eraEntities = eras.map((era: Record<string, unknown>, index: number) => ({
             id: `history:${history.id}:era:${index}`,
@@ -87,7 +77,7 @@ export async function GET(
             tier: (era.tier as string) || 'major',
             type: 'era',
             isDiscovered: true,
-          }));
+          })).filter((_, index) => shown('era', eras[index]));
 
           const eventEntities = majorEvents.map((evt: Record<string, unknown>, index: number) => ({
             id: `history:${history.id}:event:${index}`,
@@ -95,7 +85,7 @@ export async function GET(
             tier: (evt.tier as string) || 'supporting',
             type: (evt.type as string) || 'event',
             isDiscovered: true,
-          }));
+          })).filter((_, index) => shown('event', majorEvents[index]));
 
           entities = [...eraEntities, ...eventEntities];
         }
@@ -103,9 +93,7 @@ export async function GET(
       }
 
       case 'cosmology': {
-        const cosmology = await prisma.worldCosmology.findUnique({
-          where: { worldSeedId },
-        });
+        const cosmology = await loreRepository.getCosmology(worldSeedId);
 
         if (cosmology) {
           const pantheon = safeParseArray(cosmology.pantheon);
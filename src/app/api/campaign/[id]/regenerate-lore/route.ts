@@ -0,0 +1,96 @@
+// src/app/api/campaign/[id]/regenerate-lore/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { loreGenerationService, GENERATED_ENTITY_TYPES, REGENERABLE_PHASES } from '@/lib/lore';
+import type { RegenerationErrorCode, RegenerationResult } from '@/lib/lore';
+
+const guidance = z.string().max(2000).nullable().optional();
+
+const RegenerateLoreSchema = z.discriminatedUnion('target', [
+  // Rewrite one entity in place
+  z.object({
+    target: z.literal('entity'),
+    entityType: z.enum(GENERATED_ENTITY_TYPES),
+    entityId: z.string().min(1),
+    guidance,
+  }),
+  // Add NPCs, optionally at a location or in a faction
+  z.object({
+    target: z.literal('npcs'),
+    count: z.number().int().min(1).max(10),
+    tier: z.enum(['major', 'supporting', 'minor']).optional(),
+    locationId: z.string().min(1).optional(),
+    factionId: z.string().min(1).optional(),
+    guidance,
+  }),
+  // Add locations inside a location, e.g. a city's districts
+  z.object({
+    target: z.literal('location'),
+    locationId: z.string().min(1),
+    count: z.number().int().min(1).max(8),
+    guidance,
+  }),
+  // Regenerate a whole phase, keeping what the party knows
+  z.object({
+    target: z.literal('phase'),
+    phase: z.enum(REGENERABLE_PHASES),
+    count: z.number().int().min(1).max(15).optional(),
+    guidance,
+  }),
+]);
+
+const ERROR_STATUS: Record<RegenerationErrorCode, number> = {
+  NOT_FOUND: 404,
+  INVALID_STATE: 400,
+  AI_ERROR: 500,
+};
+
+/**
+ * POST - Regenerate or expand part of a campaign's world, with the rest of it as context.
+ * Runs synchronously and returns the names of what was created, rewritten and replaced.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const parsed = RegenerateLoreSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: { code: 'VALIDATION_FAILED', message: 'Invalid input', details: parsed.error.flatten() } },
+        { status: 422 }
+      );
+    }
+
+    const body = parsed.data;
+    let result: RegenerationResult;
+    switch (body.target) {
+      case 'entity':
+        result = await loreGenerationService.regenerateEntity(id, body.entityType, body.entityId, body.guidance);
+        break;
+      case 'npcs':
+        result = await loreGenerationService.addNpcs(id, body);
+        break;
+      case 'location':
+        result = await loreGenerationService.expandLocation(id, body.locationId, body);
+        break;
+      case 'phase':
+        result = await loreGenerationService.regeneratePhase(id, body.phase, body);
+        break;
+    }
+
+    if (!result.success && result.error) {
+      return NextResponse.json({ error: result.error }, { status: ERROR_STATUS[result.error.code] });
+    }
+
+    return NextResponse.json({ created: result.created, updated: result.updated, removed: result.removed });
+  } catch (error) {
+    console.error('Failed to regenerate lore:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to regenerate lore' } },
+      { status: 500 }
+    );
+  }
+}
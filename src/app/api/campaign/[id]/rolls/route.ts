@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/db';
+import { rollLedger } from '@/lib/rolls';
+
+const HistoryQuerySchema = z.object({
+  roller: z.string().min(1).optional(),
+  sessionId: z.string().uuid().optional(),
+  before: z.string().datetime().optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+});
+
+/**
+ * GET - The campaign's roll ledger, newest first. Filter with ?roller=, ?sessionId=,
+ * page with ?before=<timestamp of the oldest roll seen>&limit=
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const parsed = HistoryQuerySchema.safeParse(Object.fromEntries(searchParams));
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: { code: 'VALIDATION_FAILED', message: 'Invalid query', details: parsed.error.flatten() } },
+        { status: 422 }
+      );
+    }
+
+    const campaign = await prisma.campaign.findUnique({ where: { id }, select: { id: true } });
+    if (!campaign) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Campaign not found' } },
+        { status: 404 }
+      );
+    }
+
+    const { before, ...query } = parsed.data;
+    const rolls = await rollLedger.getHistory(id, { ...query, before: before ? new Date(before) : undefined });
+
+    return NextResponse.json({ rolls });
+  } catch (error) {
+    console.error('Failed to fetch roll history:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch roll history' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { rollLedger } from '@/lib/rolls';
+
+/**
+ * GET - d20 distribution, crit and fumble rates for the campaign and each roller (?sessionId= for one session)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const sessionId = new URL(request.url).searchParams.get('sessionId') || undefined;
+
+    const campaign = await prisma.campaign.findUnique({ where: { id }, select: { id: true } });
+    if (!campaign) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Campaign not found' } },
+        { status: 404 }
+      );
+    }
+
+    const stats = await rollLedger.getStats(id, sessionId);
+
+    return NextResponse.json({ stats });
+  } catch (error) {
+    console.error('Failed to fetch roll stats:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch roll stats' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/db';
+import { sessionService } from '@/lib/session';
+
+const TranscriptQuerySchema = z.object({
+  after: z.coerce.number().int().min(0).optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+});
+
+/**
+ * GET - A session's transcript, oldest first. Page with ?after=<nextCursor of the previous page>&limit=
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; sessionId: string }> }
+) {
+  try {
+    const { id, sessionId } = await params;
+    const { searchParams } = new URL(request.url);
+    const parsed = TranscriptQuerySchema.safeParse(Object.fromEntries(searchParams));
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: { code: 'VALIDATION_FAILED', message: 'Invalid query', details: parsed.error.flatten() } },
+        { status: 422 }
+      );
+    }
+
+    const session = await prisma.session.findFirst({ where: { id: sessionId, campaignId: id }, select: { id: true } });
+    if (!session) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Session not found' } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(await sessionService.getTranscript(session.id, parsed.data));
+  } catch (error) {
+    console.error('Failed to fetch session transcript:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch session transcript' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sessionService } from '@/lib/session';
+
+/**
+ * POST - End the open session: writes the AI recap and snapshots the game state and characters
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const session = await sessionService.endSession(id);
+    if (!session) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'No active session for this campaign' } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      id: session.id,
+      sessionNumber: session.sessionNumber,
+      startedAt: session.startedAt.toISOString(),
+      endedAt: session.endedAt?.toISOString() || null,
+      summary: session.summary,
+      hasSnapshot: Boolean(session.stateSnapshot),
+    });
+  } catch (error) {
+    console.error('Failed to end session:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to end session' } },
+      { status: 500 }
+    );
+  }
+}
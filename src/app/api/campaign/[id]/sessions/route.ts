@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
+import { sessionService } from '@/lib/session';
 
 export async function GET(
   request: NextRequest,
@@ -11,6 +12,7 @@ export async function GET(
     const sessions = await prisma.session.findMany({
       where: { campaignId: id },
       orderBy: { sessionNumber: 'desc' },
+      include: { _count: { select: { entries: true } } },
     });
 
     const parsed = sessions.map((session) => ({
@@ -19,7 +21,8 @@ export async function GET(
       startedAt: session.startedAt.toISOString(),
       endedAt: session.endedAt?.toISOString() || null,
       summary: session.summary,
-      transcript: JSON.parse(session.transcript || '[]'),
+      hasSnapshot: Boolean(session.stateSnapshot),
+      entryCount: session._count.entries,
     }));
 
     return NextResponse.json(parsed);
@@ -32,6 +35,10 @@ export async function GET(
   }
 }
 
+/**
+ * POST - Start a session, or resume the one already open. Includes the
+ * "previously on" recap of the last finished session.
+ */
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -39,28 +46,24 @@ export async function POST(
   try {
     const { id } = await params;
 
-    const lastSession = await prisma.session.findFirst({
-      where: { campaignId: id },
-      orderBy: { sessionNumber: 'desc' },
-    });
+    const campaign = await prisma.campaign.findUnique({ where: { id }, select: { id: true } });
+    if (!campaign) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Campaign not found' } },
+        { status: 404 }
+      );
+    }
 
-    const sessionNumber = (lastSession?.sessionNumber || 0) + 1;
-
-    const session = await prisma.session.create({
-      data: {
-        campaignId: id,
-        sessionNumber,
-        transcript: '[]',
-      },
-    });
+    const { session, resumed, previouslyOn } = await sessionService.startSession(id);
 
     return NextResponse.json({
       id: session.id,
       sessionNumber: session.sessionNumber,
       startedAt: session.startedAt.toISOString(),
       endedAt: null,
-      transcript: [],
-    });
+      resumed,
+      previouslyOn,
+    }, { status: resumed ? 200 : 201 });
   } catch (error) {
     console.error('Failed to create session:', error);
     return NextResponse.json(
@@ -1,14 +1,36 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { z } from 'zod';
+import {
+  attuneItem,
+  endAttunement,
+  equipItem,
+  getArmorClass,
+  getCharacterAttacks,
+  unequipItem,
+} from '@/lib/engine/item-catalog';
+import type { GearHolder } from '@/lib/engine/item-catalog';
+import type { EquippedItems, InventoryItem } from '@/lib/engine/types';
 
 const InventoryActionSchema = z.object({
-  action: z.enum(['add', 'remove', 'use', 'equip', 'unequip']),
+  action: z.enum(['add', 'remove', 'use', 'equip', 'unequip', 'attune', 'unattune']),
   itemName: z.string().min(1),
   quantity: z.number().int().positive().optional().default(1),
-  slot: z.string().optional(), // For equip action
+  slot: z.string().optional(), // For equip/unequip: armor, shield, mainHand, offHand
+  baseItem: z.string().optional(),  // For add: the SRD weapon or armor a named item is
+  magicItem: z.string().optional(), // For add: the SRD magic item it is
 });
 
+const ACTION_VERBS: Record<z.infer<typeof InventoryActionSchema>['action'], string> = {
+  add: 'Added',
+  remove: 'Removed',
+  use: 'Used',
+  equip: 'Equipped',
+  unequip: 'Unequipped',
+  attune: 'Attuned to',
+  unattune: 'Ended attunement to',
+};
+
 export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -36,10 +58,25 @@ export async function PUT(
       );
     }
 
-    const { action, itemName, quantity, slot } = parsed.data;
-    const inventory: Array<{ name: string; quantity: number; weight?: number; description?: string }> = 
-      JSON.parse(character.inventory || '[]');
-    const equippedItems: Record<string, string | undefined> = JSON.parse(character.equippedItems || '{}');
+    const { action, itemName, quantity, slot, baseItem, magicItem } = parsed.data;
+    let inventory: InventoryItem[] = JSON.parse(character.inventory || '[]');
+    let equippedItems: EquippedItems = JSON.parse(character.equippedItems || '{}');
+    const gear = (): GearHolder => ({
+      name: character.name,
+      className: character.className,
+      level: character.level,
+      classLevels: JSON.parse(character.classLevels || '[]'),
+      abilityScores: {
+        strength: character.strength,
+        dexterity: character.dexterity,
+        constitution: character.constitution,
+        intelligence: character.intelligence,
+        wisdom: character.wisdom,
+        charisma: character.charisma,
+      },
+      inventory,
+      equippedItems,
+    });
 
     const existingIndex = inventory.findIndex(
       (i) => i.name.toLowerCase() === itemName.toLowerCase()
@@ -50,7 +87,12 @@ export async function PUT(
         if (existingIndex >= 0) {
           inventory[existingIndex].quantity += quantity;
         } else {
-          inventory.push({ name: itemName, quantity });
+          inventory.push({
+            name: itemName,
+            quantity,
+            ...(baseItem ? { baseItem } : {}),
+            ...(magicItem ? { magicItem } : {}),
+          });
         }
         break;
 
@@ -65,25 +107,52 @@ export async function PUT(
         inventory[existingIndex].quantity -= quantity;
         if (inventory[existingIndex].quantity <= 0) {
           inventory.splice(existingIndex, 1);
+          equippedItems = unequipItem(equippedItems, itemName);
         }
         break;
 
-      case 'equip':
-        const equipSlot = slot || 'mainHand';
-        equippedItems[equipSlot] = itemName;
+      case 'equip': {
+        const result = equipItem(gear(), itemName, slot);
+        if (!result.allowed) {
+          return NextResponse.json(
+            { error: { code: 'CANNOT_EQUIP', message: result.reason } },
+            { status: 400 }
+          );
+        }
+        equippedItems = result.equippedItems;
         break;
+      }
 
       case 'unequip':
-        const unequipSlot = slot || 'mainHand';
-        delete equippedItems[unequipSlot];
+        equippedItems = unequipItem(equippedItems, slot || itemName);
+        break;
+
+      case 'attune': {
+        const result = attuneItem(gear(), itemName);
+        if (!result.allowed) {
+          return NextResponse.json(
+            { error: { code: 'CANNOT_ATTUNE', message: result.reason } },
+            { status: 400 }
+          );
+        }
+        inventory = result.inventory;
+        break;
+      }
+
+      case 'unattune':
+        inventory = endAttunement(inventory, itemName);
         break;
     }
 
+    // AC follows the gear: armor, shield and attuned items
+    const { armorClass } = getArmorClass(gear());
+
     await prisma.character.update({
       where: { id },
       data: {
         inventory: JSON.stringify(inventory),
         equippedItems: JSON.stringify(equippedItems),
+        armorClass,
       },
     });
 
@@ -91,7 +160,9 @@ export async function PUT(
       success: true,
       inventory,
       equippedItems,
-      message: `${action === 'add' ? 'Added' : action === 'remove' ? 'Removed' : action === 'use' ? 'Used' : action === 'equip' ? 'Equipped' : 'Unequipped'} ${itemName}`,
+      armorClass,
+      attacks: getCharacterAttacks(gear()),
+      message: `${ACTION_VERBS[action]} ${itemName}`,
     });
   } catch (error) {
     console.error('Inventory action failed:', error);
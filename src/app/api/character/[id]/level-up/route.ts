@@ -0,0 +1,199 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { z } from 'zod';
+import { progressionEngine } from '@/lib/engine/progression-engine';
+import { parseCampaignRuleset } from '@/lib/engine/campaign-rules';
+import { getProficiencyBonus } from '@/lib/engine/types';
+import { rollLedger, buildRollLogEntry } from '@/lib/rolls';
+import type { Character } from '@/lib/engine/types';
+
+const LevelUpSchema = z.object({
+  className: z.string().min(1).max(50).optional(),
+  subclass: z.string().min(1).max(50).optional(),
+  hpMethod: z.enum(['roll', 'average']).default('average'),
+});
+
+async function loadCharacter(id: string) {
+  return prisma.character.findUnique({
+    where: { id },
+    include: { campaign: { select: { settings: true } } },
+  });
+}
+
+function toCharacter(c: NonNullable<Awaited<ReturnType<typeof loadCharacter>>>): Character {
+  return {
+    id: c.id,
+    campaignId: c.campaignId || '',
+    name: c.name,
+    race: c.race,
+    className: c.className,
+    subclass: c.subclass || undefined,
+    level: c.level,
+    classLevels: JSON.parse(c.classLevels || '[]'),
+    experiencePoints: c.experiencePoints,
+    abilityScores: {
+      strength: c.strength,
+      dexterity: c.dexterity,
+      constitution: c.constitution,
+      intelligence: c.intelligence,
+      wisdom: c.wisdom,
+      charisma: c.charisma,
+    },
+    maxHp: c.maxHp,
+    currentHp: c.currentHp,
+    tempHp: c.tempHp,
+    armorClass: c.armorClass,
+    speed: c.speed,
+    hitDiceType: c.hitDiceType,
+    hitDiceRemaining: c.hitDiceRemaining,
+    deathSaveSuccesses: c.deathSaveSuccesses,
+    deathSaveFailures: c.deathSaveFailures,
+    savingThrowProficiencies: JSON.parse(c.savingThrowProficiencies || '[]'),
+    skillProficiencies: JSON.parse(c.skillProficiencies || '[]'),
+    skillExpertise: JSON.parse(c.skillExpertise || '[]'),
+    spellSlots: JSON.parse(c.spellSlots || '{}'),
+    knownSpells: JSON.parse(c.knownSpells || '[]'),
+    preparedSpells: JSON.parse(c.preparedSpells || '[]'),
+    spellcastingAbility: (c.spellcastingAbility || undefined) as Character['spellcastingAbility'],
+    classResources: JSON.parse(c.classResources || '[]'),
+    inventory: JSON.parse(c.inventory || '[]'),
+    equippedItems: JSON.parse(c.equippedItems || '{}'),
+    gold: c.gold,
+    conditions: JSON.parse(c.conditions || '[]'),
+    features: JSON.parse(c.features || '[]'),
+  };
+}
+
+/**
+ * GET - Progression status: XP, next level threshold and whether a level-up is available
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const row = await loadCharacter(id);
+
+    if (!row) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Character not found' } },
+        { status: 404 }
+      );
+    }
+
+    const character = toCharacter(row);
+    const advancement = parseCampaignRuleset(row.campaign?.settings).advancement;
+    const check = progressionEngine.canLevelUp(character, advancement);
+
+    return NextResponse.json({
+      level: character.level,
+      experiencePoints: character.experiencePoints,
+      xpToNextLevel: progressionEngine.getXpToNextLevel(character),
+      proficiencyBonus: getProficiencyBonus(character.level),
+      classLevels: progressionEngine.getClassLevels(character),
+      advancement,
+      canLevelUp: check.allowed,
+      reason: check.reason,
+    });
+  } catch (error) {
+    console.error('Failed to fetch progression:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch progression' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Gain a level, optionally in a new class (multiclassing)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const parsed = LevelUpSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: { code: 'VALIDATION_FAILED', message: 'Invalid input', details: parsed.error.flatten() } },
+        { status: 422 }
+      );
+    }
+
+    const row = await loadCharacter(id);
+
+    if (!row) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Character not found' } },
+        { status: 404 }
+      );
+    }
+
+    const character = toCharacter(row);
+    const advancement = parseCampaignRuleset(row.campaign?.settings).advancement;
+    const check = progressionEngine.canLevelUp(character, advancement, parsed.data.className);
+
+    if (!check.allowed) {
+      return NextResponse.json(
+        { error: { code: 'LEVEL_UP_NOT_ALLOWED', message: check.reason } },
+        { status: 400 }
+      );
+    }
+
+    // A rolled hit die comes from the campaign's dice stream and goes into its ledger
+    const levelUp = () => progressionEngine.levelUp(character, parsed.data);
+    const result = row.campaignId
+      ? (await rollLedger.roll(row.campaignId, levelUp, (levelled, dice, rngState) => buildRollLogEntry({
+          functionName: 'level_up',
+          args: parsed.data,
+          roller: character.name,
+          dice,
+          result: { total: levelled.hpRoll },
+          summary: `❤️ ${character.name} rolled ${levelled.hpRoll} on a d${dice[0].sides} for level ${levelled.newLevel}, gaining ${levelled.hpGained} HP`,
+          rngState,
+        }))).value
+      : levelUp();
+    const { changes } = result;
+
+    const updated = await prisma.character.update({
+      where: { id },
+      data: {
+        level: changes.level,
+        classLevels: JSON.stringify(changes.classLevels),
+        maxHp: changes.maxHp,
+        currentHp: changes.currentHp,
+        hitDiceRemaining: changes.hitDiceRemaining,
+        spellSlots: JSON.stringify(changes.spellSlots),
+        features: JSON.stringify(changes.features),
+        ...(changes.subclass !== undefined && { subclass: changes.subclass }),
+        ...(changes.spellcastingAbility !== undefined && { spellcastingAbility: changes.spellcastingAbility }),
+      },
+    });
+
+    return NextResponse.json({
+      character: updated,
+      levelUp: {
+        className: result.className,
+        classLevel: result.classLevel,
+        newLevel: result.newLevel,
+        multiclassed: result.multiclassed,
+        hpMethod: result.hpMethod,
+        hpRoll: result.hpRoll,
+        hpGained: result.hpGained,
+        proficiencyBonus: result.proficiencyBonus,
+        newFeatures: result.newFeatures,
+      },
+      message: `${character.name} reached level ${result.newLevel} (${result.className} ${result.classLevel}), gaining ${result.hpGained} HP`,
+    });
+  } catch (error) {
+    console.error('Level up failed:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to level up character' } },
+      { status: 500 }
+    );
+  }
+}
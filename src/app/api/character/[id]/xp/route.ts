@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { z } from 'zod';
+import { progressionEngine } from '@/lib/engine/progression-engine';
+import { parseCampaignRuleset } from '@/lib/engine/campaign-rules';
+
+const AwardXpSchema = z.object({
+  amount: z.number().int(),      // Negative amounts correct earlier awards
+  reason: z.string().max(200).optional(),
+});
+
+/**
+ * POST - Award (or deduct) experience points
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const parsed = AwardXpSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: { code: 'VALIDATION_FAILED', message: 'Invalid input', details: parsed.error.flatten() } },
+        { status: 422 }
+      );
+    }
+
+    const character = await prisma.character.findUnique({
+      where: { id },
+      include: { campaign: { select: { settings: true } } },
+    });
+
+    if (!character) {
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: 'Character not found' } },
+        { status: 404 }
+      );
+    }
+
+    const { amount, reason } = parsed.data;
+    const experiencePoints = Math.max(0, character.experiencePoints + amount);
+
+    await prisma.character.update({
+      where: { id },
+      data: { experiencePoints },
+    });
+
+    const advancement = parseCampaignRuleset(character.campaign?.settings).advancement;
+    const levelUpAvailable = advancement === 'xp'
+      && character.level < progressionEngine.getLevelForXp(experiencePoints);
+
+    return NextResponse.json({
+      success: true,
+      experiencePoints,
+      level: character.level,
+      levelUpAvailable,
+      message: `${character.name} ${amount >= 0 ? 'gained' : 'lost'} ${Math.abs(amount)} XP${reason ? ` (${reason})` : ''}`,
+    });
+  } catch (error) {
+    console.error('Award XP failed:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to award XP' } },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { z } from 'zod';
+import { getArmorClass, getStartingEquipment } from '@/lib/engine/item-catalog';
 
 const AbilitySchema = z.enum(['strength', 'dexterity', 'constitution', 'intelligence', 'wisdom', 'charisma']);
 const SkillSchema = z.enum([
@@ -14,6 +15,8 @@ const SkillSchema = z.enum([
 const InventoryItemSchema = z.object({
   name: z.string(),
   quantity: z.number().int().min(1).default(1),
+  baseItem: z.string().optional(),
+  magicItem: z.string().optional(),
 });
 
 const CreateCharacterSchema = z.object({
@@ -33,7 +36,6 @@ const CreateCharacterSchema = z.object({
   charisma: z.number().int().min(1).max(30).default(10),
   maxHp: z.number().int().min(1),
   currentHp: z.number().int().min(0).optional(),
-  armorClass: z.number().int().min(0).max(30).default(10),
   speed: z.number().int().min(0).max(120).default(30),
   hitDiceType: z.union([z.literal(6), z.literal(8), z.literal(10), z.literal(12)]).default(8),
   savingThrowProficiencies: z.array(AbilitySchema).default([]),
@@ -41,6 +43,7 @@ const CreateCharacterSchema = z.object({
   skillExpertise: z.array(SkillSchema).default([]),
   spellcastingAbility: AbilitySchema.optional(),
   inventory: z.array(InventoryItemSchema).default([]),
+  equippedItems: z.record(z.string()).optional(),  // Defaults to the armor, shield and weapon in the inventory
   gold: z.number().int().min(0).default(0),
   backstory: z.string().optional(),
 });
@@ -94,6 +97,25 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // AC comes from the gear the character starts with
+    const { inventory } = parsed.data;
+    const equippedItems = parsed.data.equippedItems ?? getStartingEquipment(inventory);
+    const { armorClass } = getArmorClass({
+      name: parsed.data.name,
+      className: parsed.data.className,
+      level: parsed.data.level,
+      abilityScores: {
+        strength: parsed.data.strength,
+        dexterity: parsed.data.dexterity,
+        constitution: parsed.data.constitution,
+        intelligence: parsed.data.intelligence,
+        wisdom: parsed.data.wisdom,
+        charisma: parsed.data.charisma,
+      },
+      inventory,
+      equippedItems,
+    });
+
     const character = await prisma.character.create({
       data: {
         campaignId: parsed.data.campaignId || null,
@@ -112,7 +134,7 @@ export async function POST(request: NextRequest) {
         charisma: parsed.data.charisma,
         maxHp: parsed.data.maxHp,
         currentHp: parsed.data.currentHp ?? parsed.data.maxHp,
-        armorClass: parsed.data.armorClass,
+        armorClass,
         speed: parsed.data.speed,
         hitDiceType: parsed.data.hitDiceType,
         hitDiceRemaining: parsed.data.level,
@@ -120,7 +142,8 @@ export async function POST(request: NextRequest) {
         skillProficiencies: JSON.stringify(parsed.data.skillProficiencies),
         skillExpertise: JSON.stringify(parsed.data.skillExpertise),
         spellcastingAbility: parsed.data.spellcastingAbility,
-        inventory: JSON.stringify(parsed.data.inventory),
+        inventory: JSON.stringify(inventory),
+        equippedItems: JSON.stringify(equippedItems),
         gold: parsed.data.gold,
         backstory: parsed.data.backstory,
       },
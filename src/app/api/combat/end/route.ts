@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { z } from 'zod';
 import { combatEngine } from '@/lib/engine/combat-engine';
+import { progressionEngine } from '@/lib/engine/progression-engine';
 import type { Combat, CombatOutcome } from '@/lib/engine/types';
 
 const EndCombatSchema = z.object({
@@ -50,10 +51,20 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    // Split the XP between the party
+    const xpShares = progressionEngine.splitCombatXp(combat, xpAwarded);
+    for (const [characterId, share] of Object.entries(xpShares)) {
+      await prisma.character.update({
+        where: { id: characterId },
+        data: { experiencePoints: { increment: share } },
+      });
+    }
+
     return NextResponse.json({
       success: true,
       outcome,
       xpAwarded,
+      xpShares,
       message: `Combat ended: ${outcome}. ${xpAwarded > 0 ? `Party earned ${xpAwarded} XP!` : ''}`,
     });
   } catch (error) {
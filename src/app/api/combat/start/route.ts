@@ -2,15 +2,18 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { z } from 'zod';
 import { combatEngine } from '@/lib/engine/combat-engine';
-import type { MonsterStatBlock } from '@/lib/engine/types';
+import { rollLedger, buildRollLogEntry } from '@/lib/rolls';
+import { parseCampaignRuleset } from '@/lib/engine/campaign-rules';
+import { compendium } from '@/lib/rules';
 
 const StartCombatSchema = z.object({
   campaignId: z.string().uuid(),
   enemies: z.array(z.object({
     name: z.string(),
-    hp: z.number().int().positive(),
-    ac: z.number().int().positive(),
-    dexterity: z.number().int().min(1).max(30).default(10),
+    // Optional for SRD monsters, which use their compendium stat block
+    hp: z.number().int().positive().optional(),
+    ac: z.number().int().positive().optional(),
+    dexterity: z.number().int().min(1).max(30).optional(),
     count: z.number().int().positive().default(1),
   })),
   surprisedIds: z.array(z.string()).optional(),
@@ -30,6 +33,21 @@ export async function POST(request: NextRequest) {
 
     const { campaignId, enemies, surprisedIds } = parsed.data;
 
+    const unknownEnemies = enemies.filter(
+      (e) => (e.hp === undefined || e.ac === undefined) && !compendium.getMonster(e.name)
+    );
+    if (unknownEnemies.length > 0) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_FAILED',
+            message: `Unknown monster(s): ${unknownEnemies.map((e) => e.name).join(', ')}. Provide hp and ac for custom enemies.`,
+          },
+        },
+        { status: 422 }
+      );
+    }
+
     // Load campaign with characters
     const campaign = await prisma.campaign.findUnique({
       where: { id: campaignId },
@@ -85,38 +103,40 @@ export async function POST(request: NextRequest) {
       features: JSON.parse(c.features || '[]'),
     }));
 
-    // Convert enemies to monster stat blocks
+    // Convert enemies to monster stat blocks - explicit stats win, otherwise the SRD entry
     const enemyStatBlocks = enemies.map((e) => ({
-      statBlock: {
-        name: e.name,
-        size: 'Medium',
-        type: 'humanoid',
-        alignment: 'neutral',
-        armorClass: e.ac,
-        hitPoints: e.hp,
-        hitDice: `${Math.ceil(e.hp / 5)}d8`,
-        speed: { walk: 30 },
-        abilityScores: {
-          strength: 10,
+      statBlock: e.hp !== undefined && e.ac !== undefined
+        ? combatEngine.createBasicStatBlock({
+          name: e.name,
+          hp: e.hp,
+          ac: e.ac,
           dexterity: e.dexterity,
-          constitution: 10,
-          intelligence: 10,
-          wisdom: 10,
-          charisma: 10,
-        },
-        challengeRating: 0.25,
-        xp: 50,
-        actions: [],
-      } as MonsterStatBlock,
+        })
+        : compendium.getMonster(e.name)!,
       count: e.count,
     }));
 
-    // Start combat using the engine
-    const combat = combatEngine.startCombat({
-      playerCharacters,
-      enemies: enemyStatBlocks,
-      surprisedIds,
-    });
+    // Start combat using the engine - initiative and monster HP come from the campaign's dice stream
+    const ruleset = parseCampaignRuleset(campaign.settings);
+    const { value: combat } = await rollLedger.roll(
+      campaignId,
+      () => combatEngine.startCombat({
+        playerCharacters,
+        enemies: enemyStatBlocks,
+        surprisedIds,
+        difficulty: ruleset.difficulty,
+        deathRules: ruleset.deathRules,
+      }),
+      (combat, dice, rngState) => buildRollLogEntry({
+        functionName: 'start_combat',
+        args: { enemies: enemies.map((e) => `${e.count}x ${e.name}`) },
+        roller: null,
+        dice,
+        result: null,
+        summary: `⚔️ Initiative: ${combat.initiativeOrder.map((c) => `${c.name} (${c.initiative})`).join(', ')}`,
+        rngState,
+      })
+    );
 
     // Update game state with combat
     await prisma.gameState.update({
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { z } from 'zod';
 import { combatEngine } from '@/lib/engine/combat-engine';
+import { progressionEngine } from '@/lib/engine/progression-engine';
+import { rollLedger, buildRollLogEntry } from '@/lib/rolls';
 import type { Combat } from '@/lib/engine/types';
 
 const NextTurnSchema = z.object({
@@ -44,8 +46,35 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Advance to next turn
-    const updatedCombat = combatEngine.nextTurn(combat);
+    // Advance to next turn - death saves and recharge rolls come from the campaign's dice stream
+    const { value: { combat: updatedCombat, deathSaves, recharges } } = await rollLedger.roll(
+      campaignId,
+      () => combatEngine.advanceTurn(combat),
+      (turn, dice, rngState) => buildRollLogEntry({
+        functionName: 'next_turn',
+        args: {},
+        roller: null,
+        dice,
+        result: null,
+        summary: [
+          ...turn.deathSaves.map((save) => `💀 ${save.name} death save: ${save.roll} - ${save.outcome}`),
+          ...turn.recharges.map((r) => `🔋 ${r.name} ${r.ability}: ${r.roll} - ${r.recharged ? 'recharged' : 'not yet'}`),
+        ].join('\n'),
+        rngState,
+      })
+    );
+
+    for (const save of deathSaves) {
+      const combatant = updatedCombat.initiativeOrder.find((c) => c.id === save.combatantId);
+      await prisma.character.update({
+        where: { id: combatant?.sourceId ?? save.combatantId },
+        data: {
+          currentHp: combatant?.currentHp ?? 0,
+          deathSaveSuccesses: save.successes,
+          deathSaveFailures: save.failures,
+        },
+      });
+    }
 
     // Check if combat should end
     const endCheck = combatEngine.checkCombatEnd(updatedCombat);
@@ -60,10 +89,21 @@ export async function POST(request: NextRequest) {
         },
       });
 
+      // Split the XP between the party
+      const xpShares = progressionEngine.splitCombatXp(updatedCombat, xpAwarded);
+      for (const [characterId, share] of Object.entries(xpShares)) {
+        await prisma.character.update({
+          where: { id: characterId },
+          data: { experiencePoints: { increment: share } },
+        });
+      }
+
       return NextResponse.json({
         combatEnded: true,
         outcome: endCheck.outcome,
         xpAwarded,
+        xpShares,
+        deathSaves,
         message: `Combat ended: ${endCheck.outcome}! ${xpAwarded > 0 ? `Party earned ${xpAwarded} XP.` : ''}`,
       });
     }
@@ -96,7 +136,12 @@ export async function POST(request: NextRequest) {
         hp: c.currentHp,
         maxHp: c.maxHp,
         status: c.status,
+        deathSaves: c.deathSaves,
+        legendaryActions: c.legendaryActions,
+        recharge: c.recharge,
       })),
+      deathSaves,
+      recharges,
       message: `Round ${updatedCombat.round}. ${currentCombatant.name}'s turn.`,
     });
   } catch (error) {
@@ -1,12 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { diceEngine } from '@/lib/engine/dice-engine';
+import { isValidDiceExpression, formatRollBreakdown } from '@/lib/engine/dice-expression';
+import { rollLedger, buildRollLogEntry } from '@/lib/rolls';
+import type { BasicRollResult } from '@/lib/engine/types';
 
 const RollDiceSchema = z.object({
-  notation: z.string().regex(/^\d+d\d+([+-]\d+)?$/i, 'Invalid dice notation'),
+  notation: z.string().max(100).refine(isValidDiceExpression, 'Invalid dice notation'),
   reason: z.string().optional(),
+  campaignId: z.string().uuid().optional(),   // Roll from this campaign's dice stream and log it
+  roller: z.string().max(100).optional(),
 });
 
+function displayRoll(result: BasicRollResult): string {
+  return `🎲 ${result.notation} = ${result.total} [${formatRollBreakdown(result.breakdown)}]`;
+}
+
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
@@ -19,9 +28,28 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const result = diceEngine.roll(parsed.data.notation, parsed.data.reason);
+    const { notation, reason, campaignId, roller } = parsed.data;
+
+    if (!campaignId) {
+      const result = diceEngine.roll(notation, reason);
+      return NextResponse.json({ result, displayText: displayRoll(result) });
+    }
+
+    const { value: result } = await rollLedger.roll(
+      campaignId,
+      () => diceEngine.roll(notation, reason),
+      (result, dice, rngState) => buildRollLogEntry({
+        functionName: 'roll_dice',
+        args: { notation, ...(reason ? { reason } : {}) },
+        roller: roller ?? null,
+        dice,
+        result,
+        summary: displayRoll(result),
+        rngState,
+      })
+    );
 
-    return NextResponse.json({ result });
+    return NextResponse.json({ result, displayText: displayRoll(result) });
   } catch (error) {
     console.error('Failed to roll dice:', error);
     return NextResponse.json(
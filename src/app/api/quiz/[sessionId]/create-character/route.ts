@@ -6,6 +6,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
+import { getArmorClass, getStartingEquipment } from '@/lib/engine/item-catalog';
 
 interface RouteParams {
     params: Promise<{ sessionId: string }>;
@@ -116,28 +117,16 @@ export async function POST(
         // Get saving throw proficiencies
         const savingThrows = CLASS_SAVING_THROWS[className] || [];
 
-        // Calculate AC (base 10 + dex mod, assumes no armor yet)
-        const dexModifier = getModifier(abilities.dexterity);
-        let armorClass = 10 + dexModifier;
-        
-        // Adjust for classes that get armor
-        if (['Fighter', 'Paladin', 'Cleric'].includes(className)) {
-            // Chain mail = AC 16 (no dex bonus)
-            armorClass = 16;
-        } else if (['Ranger', 'Druid'].includes(className)) {
-            // Scale mail = AC 14 + dex (max 2)
-            armorClass = 14 + Math.min(dexModifier, 2);
-        } else if (['Bard', 'Rogue', 'Warlock'].includes(className)) {
-            // Leather armor = AC 11 + dex
-            armorClass = 11 + dexModifier;
-        } else if (className === 'Barbarian') {
-            // Unarmored defense = 10 + dex + con
-            armorClass = 10 + dexModifier + conModifier;
-        } else if (className === 'Monk') {
-            // Unarmored defense = 10 + dex + wis
-            const wisModifier = getModifier(abilities.wisdom);
-            armorClass = 10 + dexModifier + wisModifier;
-        }
+        // AC comes from the armor and shield the class starts with
+        const equippedItems = getStartingEquipment(classEquipment);
+        const { armorClass } = getArmorClass({
+            name: name.trim(),
+            className,
+            level: 1,
+            abilityScores: abilities,
+            inventory: classEquipment,
+            equippedItems,
+        });
 
         // Parse personality traits
         const personalityTraits = result.personalityTraits 
@@ -168,6 +157,7 @@ export async function POST(
                 savingThrowProficiencies: JSON.stringify(savingThrows),
                 skillProficiencies: JSON.stringify([]), // Could be enhanced later
                 inventory: JSON.stringify(classEquipment),
+                equippedItems: JSON.stringify(equippedItems),
                 gold: startingGold,
                 backstory: result.backstory || '',
                 notes: [
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { compendium } from '@/lib/rules';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    const { name } = await params;
+
+    const item = compendium.getMagicItem(name);
+
+    if (!item) {
+      const suggestions = compendium.search({ query: name, kinds: ['magic_item'], limit: 5 }).map((r) => r.name);
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: `Magic item "${name}" not found`, details: { suggestions } } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ item });
+  } catch (error) {
+    console.error('Magic item lookup failed:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to lookup magic item' } },
+      { status: 500 }
+    );
+  }
+}
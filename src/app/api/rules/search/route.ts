@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { compendium, parseChallengeRating } from '@/lib/rules';
+
+const KindSchema = z.enum(['monster', 'spell', 'condition', 'equipment', 'magic_item']);
+const SchoolSchema = z.enum([
+  'abjuration', 'conjuration', 'divination', 'enchantment',
+  'evocation', 'illusion', 'necromancy', 'transmutation',
+]);
+
+// Challenge ratings accept fractions like "1/4"
+const ChallengeRatingSchema = z.string().transform((value, ctx) => {
+  const cr = parseChallengeRating(value);
+  if (cr === null) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid challenge rating' });
+    return z.NEVER;
+  }
+  return cr;
+});
+
+const SearchSchema = z.object({
+  q: z.string().optional(),
+  type: z.string().optional()
+    .transform((value) => value?.split(',').map((kind) => kind.trim()).filter(Boolean))
+    .pipe(z.array(KindSchema).optional()),
+  cr: ChallengeRatingSchema.optional(),
+  minCr: ChallengeRatingSchema.optional(),
+  maxCr: ChallengeRatingSchema.optional(),
+  school: z.string().toLowerCase().pipe(SchoolSchema).optional(),
+  level: z.coerce.number().int().min(0).max(9).optional(),
+  class: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+/**
+ * GET /api/rules/search?q=gob&type=monster&maxCr=1
+ * Search the bundled SRD compendium. Works offline.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const parsed = SearchSchema.safeParse(Object.fromEntries(searchParams));
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: { code: 'VALIDATION_FAILED', message: 'Invalid search parameters', details: parsed.error.flatten() } },
+        { status: 422 }
+      );
+    }
+
+    const { q, type, cr, minCr, maxCr, school, level, limit } = parsed.data;
+
+    const results = compendium.search({
+      query: q,
+      kinds: type,
+      challengeRating: cr,
+      minChallengeRating: minCr,
+      maxChallengeRating: maxCr,
+      school,
+      level,
+      className: parsed.data.class,
+      limit,
+    });
+
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error('Rules search failed:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to search rules' } },
+      { status: 500 }
+    );
+  }
+}
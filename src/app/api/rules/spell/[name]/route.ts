@@ -1,7 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
-
-const DND_API_BASE = 'https://www.dnd5eapi.co/api';
+import { compendium, fetchRemoteSpell, toRulesKey } from '@/lib/rules';
 
 export async function GET(
   _request: NextRequest,
@@ -9,9 +8,18 @@ export async function GET(
 ) {
   try {
     const { name } = await params;
-    const normalizedName = name.toLowerCase().replace(/\s+/g, '-');
+    const normalizedName = toRulesKey(name);
+
+    // Bundled SRD data first - works offline
+    const bundled = compendium.getSpell(normalizedName);
+    if (bundled) {
+      return NextResponse.json({
+        source: 'srd',
+        spell: bundled,
+      });
+    }
 
-    // Check cache first
+    // Then anything previously fetched from the remote API
     const cached = await prisma.spellCache.findUnique({
       where: { id: normalizedName },
     });
@@ -28,50 +36,24 @@ export async function GET(
       }
     }
 
-    // Fetch from D&D 5e API
-    const response = await fetch(`${DND_API_BASE}/spells/${normalizedName}`);
+    // Optional remote fallback
+    const spell = await fetchRemoteSpell(normalizedName);
 
-    if (!response.ok) {
-      if (response.status === 404) {
-        return NextResponse.json(
-          { error: { code: 'NOT_FOUND', message: `Spell "${name}" not found` } },
-          { status: 404 }
-        );
+    if (!spell) {
+      // A stale cache entry beats nothing when offline
+      if (cached) {
+        return NextResponse.json({
+          source: 'cache',
+          spell: JSON.parse(cached.data),
+        });
       }
-      throw new Error(`D&D API error: ${response.status}`);
-    }
 
-    const spellData = await response.json();
-
-    // Transform to our format
-    const spell = {
-      name: spellData.name,
-      level: spellData.level,
-      school: spellData.school?.name,
-      castingTime: spellData.casting_time,
-      range: spellData.range,
-      components: spellData.components,
-      material: spellData.material,
-      duration: spellData.duration,
-      concentration: spellData.concentration,
-      ritual: spellData.ritual,
-      description: spellData.desc?.join('\n\n'),
-      higherLevel: spellData.higher_level?.join('\n\n'),
-      classes: spellData.classes?.map((c: { name: string }) => c.name),
-      damage: spellData.damage ? {
-        type: spellData.damage.damage_type?.name,
-        atSlotLevel: spellData.damage.damage_at_slot_level,
-        atCharacterLevel: spellData.damage.damage_at_character_level,
-      } : undefined,
-      dc: spellData.dc ? {
-        type: spellData.dc.dc_type?.name,
-        success: spellData.dc.dc_success,
-      } : undefined,
-      areaOfEffect: spellData.area_of_effect ? {
-        type: spellData.area_of_effect.type,
-        size: spellData.area_of_effect.size,
-      } : undefined,
-    };
+      const suggestions = compendium.search({ query: name, kinds: ['spell'], limit: 5 }).map((r) => r.name);
+      return NextResponse.json(
+        { error: { code: 'NOT_FOUND', message: `Spell "${name}" not found`, details: { suggestions } } },
+        { status: 404 }
+      );
+    }
 
     // Cache it
     await prisma.spellCache.upsert({
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { z } from 'zod';
+import { AISettingsSchema, parseAISettings } from '@/lib/ai/providers';
+import type { AISettings } from '@/lib/ai/providers';
+
+const UpdateSettingsSchema = z.object({
+  geminiApiKey: z.string().max(500).nullable().optional(),   // null clears the saved key
+  aiSettings: AISettingsSchema.optional(),
+  theme: z.string().max(20).optional(),
+  fontSize: z.enum(['small', 'medium', 'large']).optional(),
+  diceAnimation: z.boolean().optional(),
+  soundEnabled: z.boolean().optional(),
+});
+
+// API keys never leave the server - report whether one is saved instead
+function redact(settings: AISettings) {
+  return {
+    providers: (settings.providers || []).map(({ apiKey, ...config }) => ({
+      ...config,
+      hasApiKey: Boolean(apiKey),
+    })),
+  };
+}
+
+function toResponse(row: Awaited<ReturnType<typeof prisma.userSettings.findFirst>>) {
+  return {
+    geminiApiKeyConfigured: Boolean(row?.geminiApiKey),
+    aiSettings: redact(parseAISettings(row?.aiSettings)),
+    theme: row?.theme ?? 'dark',
+    fontSize: row?.fontSize ?? 'medium',
+    diceAnimation: row?.diceAnimation ?? true,
+    soundEnabled: row?.soundEnabled ?? false,
+  };
+}
+
+/**
+ * GET - Current user settings (keys redacted)
+ */
+export async function GET() {
+  try {
+    const row = await prisma.userSettings.findFirst();
+    return NextResponse.json(toResponse(row));
+  } catch (error) {
+    console.error('Failed to fetch settings:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch settings' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT - Update user settings. Provider entries sent without an apiKey keep
+ * the key already saved for that provider.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const parsed = UpdateSettingsSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: { code: 'VALIDATION_FAILED', message: 'Invalid input', details: parsed.error.flatten() } },
+        { status: 422 }
+      );
+    }
+
+    const { aiSettings, ...rest } = parsed.data;
+    const existing = await prisma.userSettings.findFirst();
+    const data: Record<string, unknown> = { ...rest };
+
+    if (aiSettings) {
+      const saved = parseAISettings(existing?.aiSettings).providers || [];
+      data.aiSettings = JSON.stringify({
+        providers: (aiSettings.providers || []).map((config) => ({
+          ...config,
+          apiKey: config.apiKey || saved.find((s) => s.provider === config.provider)?.apiKey,
+        })),
+      });
+    }
+
+    const row = existing
+      ? await prisma.userSettings.update({ where: { id: existing.id }, data })
+      : await prisma.userSettings.create({ data });
+
+    return NextResponse.json(toResponse(row));
+  } catch (error) {
+    console.error('Failed to update settings:', error);
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to update settings' } },
+      { status: 500 }
+    );
+  }
+}
@@ -2,7 +2,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { z } from 'zod';
 import { SpatialEngine } from '@/lib/engine/spatial-engine';
-import type { GameMap, GridPosition, MapEntity } from '@/lib/engine/spatial-types';
+import { combatEngine } from '@/lib/engine/combat-engine';
+import type { OpportunityAttackOffer } from '@/lib/engine/combat-engine';
+import type { Combat } from '@/lib/engine/types';
+import type { GameMap, GridPosition, MapEntity, MovementResult } from '@/lib/engine/spatial-types';
 
 const CreateMapSchema = z.object({
   campaignId: z.string().uuid(),
@@ -17,6 +20,7 @@ const MoveEntitySchema = z.object({
   entityId: z.string(),
   targetX: z.number().int(),
   targetY: z.number().int(),
+  disengage: z.boolean().optional(),   // Took the Disengage action - no opportunity attacks
 });
 
 const QuerySchema = z.object({
@@ -109,7 +113,7 @@ export async function POST(request: NextRequest) {
           );
         }
 
-        const { campaignId, entityId, targetX, targetY } = parsed.data;
+        const { campaignId, entityId, targetX, targetY, disengage } = parsed.data;
 
         const gameState = await prisma.gameState.findUnique({
           where: { campaignId },
@@ -148,28 +152,41 @@ export async function POST(request: NextRequest) {
           );
         }
 
-        // Execute movement
-        const result = SpatialEngine.executeMovement(
-          { entityId, path: path.slice(1) }, // Skip starting position
-          map
-        );
-
-        // Update entity position
-        if (result.success || result.path.length > 1) {
-          const entityIndex = map.entities.findIndex(e => e.id === entityId);
-          map.entities[entityIndex].position = result.finalPosition;
-          map.entities[entityIndex].movementUsed += result.movementUsed;
+        // Execute movement - in combat, with opportunity attacks for leaving hostile reach
+        const combat: Combat | null = gameState.activeCombat ? JSON.parse(gameState.activeCombat) : null;
+        let result: MovementResult;
+        let opportunityAttacks: OpportunityAttackOffer[] = [];
+        let updatedCombat: Combat | null = null;
+
+        if (combat?.active) {
+          const moved = combatEngine.moveOnMap(combat, map, entity, path.slice(1), { disengage });
+          result = moved.movement;
+          opportunityAttacks = moved.offers;
+          updatedCombat = moved.combat;
+        } else {
+          result = SpatialEngine.executeMovement(
+            { entityId, path: path.slice(1), allowOpportunityAttacks: false }, // Skip starting position
+            map
+          );
+          entity.position = result.finalPosition;
+          entity.movementUsed += result.movementUsed;
+        }
 
+        if (result.path.length > 1) {
           await prisma.gameState.update({
             where: { campaignId },
-            data: { activeMap: JSON.stringify(map) },
+            data: {
+              activeMap: JSON.stringify(map),
+              ...(updatedCombat ? { activeCombat: JSON.stringify(updatedCombat) } : {}),
+            },
           });
         }
 
         return NextResponse.json({
           success: result.success,
           result,
-          updatedEntity: map.entities.find(e => e.id === entityId),
+          opportunityAttacks,
+          updatedEntity: entity,
         });
       }
 
@@ -324,7 +324,6 @@ export default function CharacterCreationWizard() {
           charisma: abilities.charisma,
           maxHp,
           currentHp: maxHp,
-          armorClass: 10 + Math.floor((abilities.dexterity - 10) / 2),
           speed: 30,
           hitDiceType: hitDice,
           hitDiceRemaining: 1,
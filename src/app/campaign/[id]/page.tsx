@@ -86,6 +86,7 @@ export default function AdventurePage() {
   const [diceHistory, setDiceHistory] = useState<DiceRoll[]>([]);
   const [rightPanel, setRightPanel] = useState<'dice' | 'inventory' | 'map' | 'spells' | null>(null);
   const [expandedMessageId, setExpandedMessageId] = useState<string | null>(null);
+  const [endingSession, setEndingSession] = useState(false);
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
@@ -127,6 +128,18 @@ export default function AdventurePage() {
       
       setCampaign(data.campaign);
 
+      // Open (or resume) the play session - a fresh session starts with a recap of the last one
+      let previouslyOn: string | null = null;
+      try {
+        const sessionRes = await fetch(`/api/campaign/${campaignId}/sessions`, { method: 'POST' });
+        if (sessionRes.ok) {
+          const sessionData = await sessionRes.json();
+          previouslyOn = sessionData.resumed ? null : sessionData.previouslyOn;
+        }
+      } catch {
+        previouslyOn = null;
+      }
+
       const hasExistingMessages = data.campaign.gameState?.recentMessages && 
         JSON.parse(data.campaign.gameState.recentMessages).length > 0;
 
@@ -166,12 +179,16 @@ export default function AdventurePage() {
         }
       } else if (hasExistingMessages) {
         const existingMessages = JSON.parse(data.campaign.gameState.recentMessages);
-        setMessages(existingMessages.map((msg: { role: string; content: string; timestamp: number }, i: number) => ({
+        const restored: Message[] = existingMessages.map((msg: { role: string; content: string; timestamp: number }, i: number) => ({
           id: `msg-${i}`,
           role: msg.role as 'user' | 'assistant',
           content: msg.content,
           timestamp: msg.timestamp,
-        })));
+        }));
+        if (previouslyOn) {
+          restored.push({ id: 'previously-on', role: 'assistant', content: previouslyOn, timestamp: Date.now() });
+        }
+        setMessages(restored);
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load campaign');
@@ -215,6 +232,30 @@ export default function AdventurePage() {
     }
   }, [campaign, selectedCharacterId]);
 
+  async function endSession() {
+    if (endingSession || !window.confirm('End this session? The DM will write a recap for next time.')) return;
+
+    setEndingSession(true);
+    try {
+      const res = await fetch(`/api/campaign/${campaignId}/sessions/end`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error?.message || 'Failed to end session');
+      }
+
+      setMessages(prev => [...prev, {
+        id: `session-end-${Date.now()}`,
+        role: 'system',
+        content: `Session ${data.sessionNumber} complete.${data.summary ? `\n\n${data.summary}` : ''}`,
+        timestamp: Date.now(),
+      }]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to end session');
+    } finally {
+      setEndingSession(false);
+    }
+  }
+
   async function sendMessage(e: React.FormEvent) {
     e.preventDefault();
     if (!input.trim() || sending) return;
@@ -285,19 +326,32 @@ export default function AdventurePage() {
                   case 'status':
                     setStreamingStatus(data.message);
                     break;
-                  case 'dice':
-                    newRolls = (data || []).map((roll: { name?: string; displayText?: string }) => ({
+                  case 'dice': {
+                    const rolls: DiceRoll[] = (data || []).map((roll: { name?: string; displayText?: string }) => ({
                       type: roll.name || 'roll',
-                      notation: roll.displayText?.match(/\d+d\d+[+-]?\d*/)?.[0] || '',
+                      notation: roll.displayText?.match(/\d+d[\d%f][^\s=]*|\bd(?:%|f\b)[^\s=]*/i)?.[0] || '',
                       result: parseInt(roll.displayText?.match(/= (\d+)/)?.[1] || '0'),
                       details: roll.displayText || '',
                       success: roll.displayText?.includes('SUCCESS') ? true : roll.displayText?.includes('FAIL') ? false : undefined,
                       timestamp: Date.now(),
                     }));
-                    if (newRolls.length > 0) {
-                      setDiceHistory(prev => [...newRolls, ...prev].slice(0, 50));
+                    if (rolls.length > 0) {
+                      // Function results arrive one at a time while the response streams
+                      newRolls = [...newRolls, ...rolls];
+                      setDiceHistory(prev => [...rolls, ...prev].slice(0, 50));
                     }
                     break;
+                  }
+                  case 'reset':
+                    // The narration is being regenerated - drop what has streamed so far
+                    accumulatedText = '';
+                    setStreamingText('');
+                    setMessages((prev) => prev.map(m =>
+                      m.id === assistantMessageId
+                        ? { ...m, content: '' }
+                        : m
+                    ));
+                    break;
                   case 'chunk':
                     accumulatedText += data.text;
                     setStreamingText(accumulatedText);
@@ -372,7 +426,7 @@ export default function AdventurePage() {
 
         const newRolls: DiceRoll[] = (data.diceRolls || []).map((roll: { name?: string; displayText?: string }) => ({
           type: roll.name || 'roll',
-          notation: roll.displayText?.match(/\d+d\d+[+-]?\d*/)?.[0] || '',
+          notation: roll.displayText?.match(/\d+d[\d%f][^\s=]*|\bd(?:%|f\b)[^\s=]*/i)?.[0] || '',
           result: parseInt(roll.displayText?.match(/= (\d+)/)?.[1] || '0'),
           details: roll.displayText || '',
           success: roll.displayText?.includes('SUCCESS') ? true : roll.displayText?.includes('FAIL') ? false : undefined,
@@ -524,6 +578,17 @@ export default function AdventurePage() {
           >
             ✨
           </button>
+          <button
+            onClick={endSession}
+            disabled={endingSession || sending}
+            className="px-3 py-1.5 rounded border border-gray-700 text-gray-400 hover:text-gray-200 disabled:opacity-50 transition-colors"
+            title="End the session and write a recap"
+          >
+            {endingSession ? 'Ending...' : 'End Session'}
+          </button>
+          <Link href={`/campaign/${campaignId}/sessions`} className="p-1.5 text-gray-500 hover:text-gray-300" title="Session History">
+            📜
+          </Link>
           <Link 
             href={`/campaign/${campaignId}/lore`} 
             className="px-3 py-1.5 rounded border border-amber-700/40 bg-amber-900/30 text-amber-200 hover:bg-amber-900/50 transition-colors" 
@@ -10,7 +10,12 @@ interface Session {
   startedAt: string;
   endedAt: string | null;
   summary: string | null;
-  transcript: Array<{ role: string; content: string; timestamp?: string }>;
+  entryCount: number;
+}
+
+interface Transcript {
+  entries: Array<{ role: 'user' | 'assistant' | 'function'; content: string; name?: string; timestamp?: string }>;
+  nextCursor: number | null;
 }
 
 interface Campaign {
@@ -26,6 +31,8 @@ export default function SessionHistoryPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [expandedSession, setExpandedSession] = useState<string | null>(null);
+  const [transcripts, setTranscripts] = useState<Record<string, Transcript>>({});
+  const [loadingTranscript, setLoadingTranscript] = useState<string | null>(null);
 
   useEffect(() => {
     async function load() {
@@ -38,7 +45,7 @@ export default function SessionHistoryPage() {
         if (!campaignRes.ok) throw new Error('Campaign not found');
         
         const campaignData = await campaignRes.json();
-        setCampaign(campaignData);
+        setCampaign(campaignData.campaign ?? campaignData);
 
         if (sessionsRes.ok) {
           const sessionsData = await sessionsRes.json();
@@ -53,6 +60,36 @@ export default function SessionHistoryPage() {
     load();
   }, [campaignId]);
 
+  // Transcripts load a page at a time, when their session is first opened
+  async function loadTranscript(sessionId: string, after?: number) {
+    setLoadingTranscript(sessionId);
+    try {
+      const query = after !== undefined ? `?after=${after}` : '';
+      const res = await fetch(`/api/campaign/${campaignId}/sessions/${sessionId}/transcript${query}`);
+      if (!res.ok) return;
+
+      const page: Transcript = await res.json();
+      setTranscripts(prev => ({
+        ...prev,
+        [sessionId]: {
+          entries: [...(after !== undefined ? prev[sessionId]?.entries ?? [] : []), ...page.entries],
+          nextCursor: page.nextCursor,
+        },
+      }));
+    } finally {
+      setLoadingTranscript(null);
+    }
+  }
+
+  function toggleSession(sessionId: string) {
+    if (expandedSession === sessionId) {
+      setExpandedSession(null);
+      return;
+    }
+    setExpandedSession(sessionId);
+    if (!transcripts[sessionId]) loadTranscript(sessionId);
+  }
+
   function formatDuration(start: string, end: string | null): string {
     if (!end) return 'In progress';
     const startDate = new Date(start);
@@ -126,9 +163,7 @@ export default function SessionHistoryPage() {
                 className="bg-surface rounded-lg border border-primary/20 overflow-hidden"
               >
                 <button
-                  onClick={() => setExpandedSession(
-                    expandedSession === session.id ? null : session.id
-                  )}
+                  onClick={() => toggleSession(session.id)}
                   className="w-full p-4 flex justify-between items-center hover:bg-surface-light transition-colors"
                 >
                   <div className="text-left">
@@ -169,10 +204,14 @@ export default function SessionHistoryPage() {
                     {/* Transcript */}
                     <div>
                       <h4 className="text-parchment/60 text-sm mb-2">
-                        Transcript ({session.transcript.length} messages)
+                        Transcript ({session.entryCount} messages)
                       </h4>
                       <div className="max-h-96 overflow-y-auto space-y-3 bg-background rounded-lg p-3">
-                        {session.transcript.map((msg, i) => (
+                        {transcripts[session.id]?.entries.map((msg, i) => msg.role === 'function' ? (
+                          <div key={i} className="px-3 py-1 text-xs text-parchment/50 font-mono">
+                            🎲 {msg.content}
+                          </div>
+                        ) : (
                           <div
                             key={i}
                             className={`p-3 rounded-lg ${
@@ -198,6 +237,16 @@ export default function SessionHistoryPage() {
                             </p>
                           </div>
                         ))}
+                        {loadingTranscript === session.id ? (
+                          <div className="text-parchment/50 text-sm text-center">Loading transcript...</div>
+                        ) : transcripts[session.id]?.nextCursor != null && (
+                          <button
+                            onClick={() => loadTranscript(session.id, transcripts[session.id].nextCursor ?? undefined)}
+                            className="w-full py-2 text-sm text-primary hover:text-primary-light"
+                          >
+                            Load more
+                          </button>
+                        )}
                       </div>
                     </div>
                   </div>
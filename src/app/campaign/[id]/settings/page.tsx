@@ -3,6 +3,8 @@
 import { useEffect, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
+import { AIProviderChain } from '@/components/ai-provider-chain';
+import type { AISettings } from '@/lib/ai/providers';
 
 interface Campaign {
   id: string;
@@ -14,6 +16,8 @@ interface Campaign {
     restRules: string;
     encumbrance: boolean;
     criticalHitTables: boolean;
+    advancement: string;
+    ai?: AISettings;
   };
 }
 
@@ -23,6 +27,8 @@ const DEFAULT_SETTINGS = {
   restRules: 'standard',
   encumbrance: false,
   criticalHitTables: false,
+  advancement: 'xp',
+  ai: { providers: [] } as AISettings,
 };
 
 export default function CampaignSettingsPage() {
@@ -46,11 +52,12 @@ export default function CampaignSettingsPage() {
       try {
         const res = await fetch(`/api/campaign/${campaignId}`);
         if (!res.ok) throw new Error('Campaign not found');
-        const data = await res.json();
+        const { campaign: data } = await res.json();
         setCampaign(data);
         setName(data.name);
         setDescription(data.description || '');
-        setSettings({ ...DEFAULT_SETTINGS, ...JSON.parse(data.settings || '{}') });
+        const saved = JSON.parse(data.settings || '{}');
+        setSettings({ ...DEFAULT_SETTINGS, ...saved, deathRules: saved.deathRules === 'gritty' ? 'hardcore' : saved.deathRules ?? DEFAULT_SETTINGS.deathRules });
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load');
       } finally {
@@ -72,7 +79,7 @@ export default function CampaignSettingsPage() {
         body: JSON.stringify({
           name,
           description,
-          settings: JSON.stringify(settings),
+          settings,
         }),
       });
 
@@ -187,10 +194,22 @@ export default function CampaignSettingsPage() {
                 onChange={(e) => setSettings({ ...settings, difficulty: e.target.value })}
                 className="w-full px-4 py-3 bg-background border border-primary/30 rounded-lg text-parchment focus:outline-none focus:border-primary"
               >
-                <option value="easy">Easy - Encounters are less deadly</option>
+                <option value="easy">Easy - Enemies have 25% less HP</option>
                 <option value="standard">Standard - By the book</option>
-                <option value="hard">Hard - Tougher enemies, fewer resources</option>
-                <option value="deadly">Deadly - Unforgiving, high stakes</option>
+                <option value="hard">Hard - Enemies have 25% more HP</option>
+                <option value="deadly">Deadly - Enemies have 50% more HP</option>
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-parchment/70 mb-2">Advancement</label>
+              <select
+                value={settings.advancement}
+                onChange={(e) => setSettings({ ...settings, advancement: e.target.value })}
+                className="w-full px-4 py-3 bg-background border border-primary/30 rounded-lg text-parchment focus:outline-none focus:border-primary"
+              >
+                <option value="xp">Experience Points - Level up at XP thresholds</option>
+                <option value="milestone">Milestone - Level up when the story says so</option>
               </select>
             </div>
 
@@ -201,9 +220,9 @@ export default function CampaignSettingsPage() {
                 onChange={(e) => setSettings({ ...settings, deathRules: e.target.value })}
                 className="w-full px-4 py-3 bg-background border border-primary/30 rounded-lg text-parchment focus:outline-none focus:border-primary"
               >
-                <option value="heroic">Heroic - Stabilize at 0 HP after combat</option>
+                <option value="heroic">Heroic - The fallen get back up with 1 HP after combat</option>
                 <option value="standard">Standard - Death saves as normal</option>
-                <option value="gritty">Gritty - Failed saves don&apos;t reset</option>
+                <option value="hardcore">Hardcore - Failed saves only reset on a long rest</option>
               </select>
             </div>
 
@@ -214,9 +233,9 @@ export default function CampaignSettingsPage() {
                 onChange={(e) => setSettings({ ...settings, restRules: e.target.value })}
                 className="w-full px-4 py-3 bg-background border border-primary/30 rounded-lg text-parchment focus:outline-none focus:border-primary"
               >
-                <option value="epic">Epic Heroism - Short rest 5 min, long rest 1 hour</option>
+                <option value="epic">Epic Heroism - Short rest 5 min, long rest 1 hour, all hit dice back</option>
                 <option value="standard">Standard - Short rest 1 hour, long rest 8 hours</option>
-                <option value="gritty">Gritty Realism - Short rest 8 hours, long rest 7 days</option>
+                <option value="gritty">Gritty Realism - Short rest 8 hours, long rest 7 days, no healing on long rest</option>
               </select>
             </div>
 
@@ -256,6 +275,19 @@ export default function CampaignSettingsPage() {
           </div>
         </section>
 
+        {/* AI Providers */}
+        <section className="bg-surface rounded-lg p-6 border border-primary/20 mb-6">
+          <h2 className="font-medieval text-xl text-primary mb-4">AI Game Master</h2>
+          <p className="text-parchment/70 mb-4 text-sm">
+            Override the providers used for this campaign. API keys come from the main Settings page.
+          </p>
+          <AIProviderChain
+            providers={settings.ai?.providers || []}
+            onChange={(providers) => setSettings({ ...settings, ai: { providers } })}
+            emptyLabel="Using your default providers from Settings."
+          />
+        </section>
+
         {/* Save Button */}
         <div className="flex gap-4 mb-8">
           <button
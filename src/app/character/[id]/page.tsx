@@ -132,6 +132,7 @@ export default function CharacterSheetPage() {
               {character.background && (
                 <p className="text-parchment/50">{character.background}</p>
               )}
+              <p className="text-parchment/50 text-sm">{character.experiencePoints ?? 0} XP</p>
             </div>
             <div className="flex gap-4">
               <div className="text-center">
@@ -1,19 +1,62 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import Link from 'next/link';
+import { AIProviderChain } from '@/components/ai-provider-chain';
+import type { ProviderRow } from '@/components/ai-provider-chain';
 
 export default function SettingsPage() {
   const [apiKey, setApiKey] = useState('');
+  const [apiKeyConfigured, setApiKeyConfigured] = useState(false);
+  const [providers, setProviders] = useState<ProviderRow[]>([]);
   const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [connection, setConnection] = useState<string | null>(null);
 
-  function handleSave() {
-    // In a real app, this would save to the database
-    // For now, we'll just store in localStorage
-    if (apiKey.trim()) {
-      localStorage.setItem('gemini_api_key', apiKey.trim());
+  useEffect(() => {
+    fetch('/api/settings')
+      .then((res) => res.json())
+      .then((data) => {
+        setApiKeyConfigured(Boolean(data.geminiApiKeyConfigured));
+        setProviders(data.aiSettings?.providers || []);
+      })
+      .catch(() => setError('Failed to load settings'));
+  }, []);
+
+  async function handleSave() {
+    setError(null);
+    try {
+      const res = await fetch('/api/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...(apiKey.trim() && { geminiApiKey: apiKey.trim() }),
+          aiSettings: {
+            providers: providers.map(({ hasApiKey: _hasApiKey, ...config }) => config),
+          },
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error?.message || 'Failed to save');
+
+      setApiKey('');
+      setApiKeyConfigured(Boolean(data.geminiApiKeyConfigured));
+      setProviders(data.aiSettings?.providers || []);
       setSaved(true);
       setTimeout(() => setSaved(false), 3000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save');
+    }
+  }
+
+  async function testConnection() {
+    setConnection('Testing...');
+    try {
+      const res = await fetch('/api/ai/test');
+      const data = await res.json();
+      setConnection(data.success ? `Connected via ${data.provider}` : `Failed: ${data.message}`);
+    } catch {
+      setConnection('Failed to reach the server');
     }
   }
 
@@ -31,7 +74,7 @@ export default function SettingsPage() {
             <h2 className="text-2xl font-medieval text-primary mb-4">AI Configuration</h2>
             <p className="text-parchment/70 mb-4">
               Enter your Google Gemini API key to enable AI-powered game mastering.
-              Your key is stored locally and never sent to our servers.
+              Keys are stored in your local game database and never shown again after saving.
             </p>
             <div className="space-y-4">
               <div>
@@ -44,17 +87,40 @@ export default function SettingsPage() {
                   value={apiKey}
                   onChange={(e) => setApiKey(e.target.value)}
                   className="w-full px-4 py-2 bg-background border border-primary/30 rounded-lg text-parchment focus:outline-none focus:border-primary"
-                  placeholder="Enter your API key..."
+                  placeholder={apiKeyConfigured ? 'API key saved - enter a new one to replace it' : 'Enter your API key...'}
                 />
               </div>
-              <button
-                onClick={handleSave}
-                className="px-6 py-2 bg-primary text-background font-semibold rounded-lg hover:bg-primary-light transition-colors"
-              >
-                Save API Key
-              </button>
+              <div>
+                <label className="block text-parchment/80 mb-2">Provider Fallback Order</label>
+                <AIProviderChain
+                  providers={providers}
+                  onChange={setProviders}
+                  showApiKeys
+                  emptyLabel="Using the server defaults (Vertex AI, then OpenRouter). Add providers to use a local model or change the order."
+                />
+              </div>
+              <div className="flex items-center gap-4">
+                <button
+                  onClick={handleSave}
+                  className="px-6 py-2 bg-primary text-background font-semibold rounded-lg hover:bg-primary-light transition-colors"
+                >
+                  Save AI Settings
+                </button>
+                <button
+                  onClick={testConnection}
+                  className="px-6 py-2 border border-primary/30 text-primary rounded-lg hover:bg-primary/10 transition-colors"
+                >
+                  Test Connection
+                </button>
+              </div>
               {saved && (
-                <span className="ml-4 text-forest">API key saved!</span>
+                <span className="text-forest">Settings saved!</span>
+              )}
+              {error && (
+                <span className="text-ember">{error}</span>
+              )}
+              {connection && (
+                <p className="text-parchment/70 text-sm">{connection}</p>
               )}
             </div>
           </section>
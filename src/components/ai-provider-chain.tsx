@@ -0,0 +1,112 @@
+'use client';
+
+import { PROVIDER_LABELS, PROVIDER_NAMES, DEFAULT_MODELS } from '@/lib/ai/providers';
+import type { ProviderConfig, ProviderName } from '@/lib/ai/providers';
+
+export type ProviderRow = ProviderConfig & {
+  hasApiKey?: boolean;   // A key is stored server-side but not sent to the browser
+};
+
+interface AIProviderChainProps {
+  providers: ProviderRow[];
+  onChange: (providers: ProviderRow[]) => void;
+  showApiKeys?: boolean;
+  emptyLabel?: string;
+}
+
+const INPUT_CLASS = 'w-full px-3 py-2 bg-background border border-primary/30 rounded-lg text-parchment focus:outline-none focus:border-primary';
+
+/**
+ * Editable provider fallback chain - the first row is tried first
+ */
+export function AIProviderChain({ providers, onChange, showApiKeys = false, emptyLabel }: AIProviderChainProps) {
+  const update = (index: number, changes: Partial<ProviderRow>) => {
+    onChange(providers.map((p, i) => (i === index ? { ...p, ...changes } : p)));
+  };
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= providers.length) return;
+    const next = [...providers];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      {providers.length === 0 && emptyLabel && (
+        <p className="text-parchment/50 text-sm">{emptyLabel}</p>
+      )}
+
+      {providers.map((row, index) => (
+        <div key={index} className="p-3 bg-background/50 border border-primary/20 rounded-lg space-y-2">
+          <div className="flex gap-2 items-center">
+            <span className="text-parchment/50 text-sm w-6">{index + 1}.</span>
+            <select
+              value={row.provider}
+              onChange={(e) => update(index, { provider: e.target.value as ProviderName, model: undefined, baseUrl: undefined, apiKey: undefined, hasApiKey: false })}
+              className={INPUT_CLASS}
+            >
+              {PROVIDER_NAMES.map((name) => (
+                <option key={name} value={name}>{PROVIDER_LABELS[name]}</option>
+              ))}
+            </select>
+            <button type="button" onClick={() => move(index, -1)} disabled={index === 0} className="px-2 text-parchment/60 disabled:opacity-30" aria-label="Move up">&uarr;</button>
+            <button type="button" onClick={() => move(index, 1)} disabled={index === providers.length - 1} className="px-2 text-parchment/60 disabled:opacity-30" aria-label="Move down">&darr;</button>
+            <button type="button" onClick={() => onChange(providers.filter((_, i) => i !== index))} className="px-2 text-ember" aria-label="Remove provider">&times;</button>
+          </div>
+
+          {row.provider !== 'mock' && (
+            <input
+              type="text"
+              value={row.model || ''}
+              onChange={(e) => update(index, { model: e.target.value || undefined })}
+              placeholder={`Model (default ${DEFAULT_MODELS[row.provider]})`}
+              className={INPUT_CLASS}
+            />
+          )}
+
+          {row.provider === 'openai-compatible' && (
+            <input
+              type="text"
+              value={row.baseUrl || ''}
+              onChange={(e) => update(index, { baseUrl: e.target.value || undefined })}
+              placeholder="Server URL (default http://localhost:11434/v1)"
+              className={INPUT_CLASS}
+            />
+          )}
+
+          {row.provider === 'openai-compatible' && (
+            <label className="flex items-center gap-2 text-sm text-parchment/70">
+              <input
+                type="checkbox"
+                checked={row.tools ?? false}
+                onChange={(e) => update(index, { tools: e.target.checked })}
+                className="accent-primary"
+              />
+              Model supports tool calling
+            </label>
+          )}
+
+          {showApiKeys && row.provider !== 'mock' && (
+            <input
+              type="password"
+              value={row.apiKey || ''}
+              onChange={(e) => update(index, { apiKey: e.target.value || undefined })}
+              placeholder={row.hasApiKey ? 'API key saved - leave blank to keep it' : 'API key (optional)'}
+              className={INPUT_CLASS}
+            />
+          )}
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={() => onChange([...providers, { provider: 'openai-compatible' }])}
+        className="px-4 py-2 border border-primary/30 text-primary rounded-lg hover:bg-primary/10 transition-colors"
+      >
+        + Add Provider
+      </button>
+    </div>
+  );
+}
@@ -91,7 +91,7 @@ export function LoreExplorer({
     
     setLoading(true);
     try {
-      const res = await fetch(`/api/campaign/${campaignId}/lore?category=${selectedCategory}&worldSeedId=${worldSeedId}`);
+      const res = await fetch(`/api/campaign/${campaignId}/lore?category=${selectedCategory}&worldSeedId=${worldSeedId}&view=${mode}`);
       if (res.ok) {
         const data = await res.json();
         setEntities(data.entities || []);
@@ -100,7 +100,7 @@ export function LoreExplorer({
       console.error('Failed to fetch entities:', error);
     }
     setLoading(false);
-  }, [campaignId, selectedCategory, worldSeedId]);
+  }, [campaignId, selectedCategory, worldSeedId, mode]);
 
   const fetchEntityCounts = useCallback(async () => {
     if (!worldSeedId) return;
@@ -121,16 +121,18 @@ export function LoreExplorer({
     
     setLoading(true);
     try {
-      const res = await fetch(`/api/campaign/${campaignId}/lore/${entityId}?category=${selectedCategory}&worldSeedId=${worldSeedId}`);
+      const res = await fetch(`/api/campaign/${campaignId}/lore/${entityId}?category=${selectedCategory}&worldSeedId=${worldSeedId}&view=${mode}`);
       if (res.ok) {
         const data = await res.json();
         setSelectedEntity(data.entity);
+      } else if (res.status === 404) {
+        setSelectedEntity(null);
       }
     } catch (error) {
       console.error('Failed to fetch entity details:', error);
     }
     setLoading(false);
-  }, [campaignId, selectedCategory, worldSeedId]);
+  }, [campaignId, selectedCategory, worldSeedId, mode]);
 
   const fetchMapData = useCallback(async () => {
     if (!worldSeedId) return;
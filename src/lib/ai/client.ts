@@ -1,208 +1,162 @@
-// AI Client - supports both Vertex AI and OpenRouter as fallback
-
-const VERTEX_API_KEY = process.env.VERTEX_AI_API_KEY;
-const OPENROUTER_API_KEY = process.env.OPENROUTER_API_KEY || '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';
-
-// Default models
-const VERTEX_MODEL = 'gemini-2.5-flash';
-const OPENROUTER_MODEL = 'moonshotai/kimi-k2-instruct';
-
-interface ChatMessage {
-  role: 'user' | 'assistant' | 'system';
-  content: string;
-}
-
-interface GenerateOptions {
-  systemInstruction?: string;
-  messages?: ChatMessage[];
-  functions?: Array<{
-    name: string;
-    description: string;
-    parameters: Record<string, unknown>;
-  }>;
+// AI Client - runs prompts against a configurable chain of LLM providers
+// (Vertex AI, OpenRouter, OpenAI-compatible local servers or the offline mock)
+
+import { prisma } from '@/lib/db';
+import {
+  createProvider,
+  parseAISettings,
+  resolveProviderConfigs,
+  PROVIDER_LABELS,
+} from './providers';
+import type { GenerateRequest, GenerateResponse, LLMProvider, ProviderSources, StreamEvent } from './providers';
+
+export interface ClientOptions {
+  campaignId?: string;   // Use this campaign's provider settings
 }
 
-// Generate content using OpenRouter API (OpenAI-compatible)
-async function generateWithOpenRouter(prompt: string, options: GenerateOptions = {}) {
-  const messages: Array<{ role: string; content: string }> = [];
+// Set by tests to bypass configuration entirely
+let providerOverride: LLMProvider[] | null = null;
 
-  if (options.systemInstruction) {
-    messages.push({ role: 'system', content: options.systemInstruction });
-  }
+/**
+ * Replace the configured provider chain (pass null to restore it)
+ */
+export function setProviderOverride(providers: LLMProvider[] | null): void {
+  providerOverride = providers;
+}
 
-  if (options.messages) {
-    for (const msg of options.messages) {
-      messages.push({ role: msg.role, content: msg.content });
+// Load AI settings from UserSettings and the campaign, if any
+async function loadProviderSources(campaignId?: string): Promise<ProviderSources> {
+  try {
+    const [userSettings, campaign] = await Promise.all([
+      prisma.userSettings.findFirst(),
+      campaignId
+        ? prisma.campaign.findUnique({ where: { id: campaignId }, select: { settings: true } })
+        : Promise.resolve(null),
+    ]);
+
+    let campaignAI: unknown;
+    if (campaign?.settings) {
+      try {
+        campaignAI = JSON.parse(campaign.settings).ai;
+      } catch {
+        campaignAI = undefined;
+      }
     }
-  }
-
-  messages.push({ role: 'user', content: prompt });
-
-  const body: Record<string, unknown> = {
-    model: OPENROUTER_MODEL,
-    messages,
-  };
 
-  if (options.functions && options.functions.length > 0) {
-    body.tools = options.functions.map((fn) => ({
-      type: 'function',
-      function: {
-        name: fn.name,
-        description: fn.description,
-        parameters: fn.parameters,
-      },
-    }));
-  }
-
-  const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${OPENROUTER_API_KEY}`,
-      'Content-Type': 'application/json',
-      'HTTP-Referer': 'https://arcane-gamemaster.app',
-      'X-Title': 'Arcane Gamemaster',
-    },
-    body: JSON.stringify(body),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`OpenRouter API error: ${response.status} - ${error}`);
+    return {
+      campaign: parseAISettings(campaignAI),
+      user: userSettings
+        ? { ...parseAISettings(userSettings.aiSettings), geminiApiKey: userSettings.geminiApiKey }
+        : undefined,
+    };
+  } catch (error) {
+    console.warn('Failed to load AI settings, using environment defaults:', error);
+    return {};
   }
-
-  const data = await response.json();
-  return data;
 }
 
-// Generate content using Vertex AI Express Mode
-async function generateWithVertex(prompt: string, options: GenerateOptions = {}) {
-  if (!VERTEX_API_KEY) {
-    throw new Error('Vertex AI API key not configured');
-  }
-
-  const contents: Array<{ role: string; parts: Array<{ text: string }> }> = [];
+/**
+ * The providers to try, in fallback order
+ */
+export async function getProviders(options: ClientOptions = {}): Promise<LLMProvider[]> {
+  if (providerOverride) return providerOverride;
 
-  if (options.messages) {
-    for (const msg of options.messages) {
-      contents.push({
-        role: msg.role === 'assistant' ? 'model' : 'user',
-        parts: [{ text: msg.content }],
-      });
-    }
+  const configs = resolveProviderConfigs(await loadProviderSources(options.campaignId));
+  if (configs.length === 0) {
+    throw new Error('No AI provider configured - set an API key in Settings or AI_PROVIDERS in the environment');
   }
 
-  contents.push({
-    role: 'user',
-    parts: [{ text: prompt }],
-  });
+  return configs.map(createProvider);
+}
 
-  const body: Record<string, unknown> = {
-    contents,
-  };
+// Try each provider in turn until one succeeds
+async function withFallback<T>(providers: LLMProvider[], run: (provider: LLMProvider) => Promise<T>): Promise<T> {
+  let lastError: unknown;
 
-  if (options.systemInstruction) {
-    body.systemInstruction = { parts: [{ text: options.systemInstruction }] };
-  }
-
-  if (options.functions && options.functions.length > 0) {
-    body.tools = [{
-      functionDeclarations: options.functions.map((fn) => ({
-        name: fn.name,
-        description: fn.description,
-        parameters: fn.parameters,
-      })),
-    }];
+  for (const provider of providers) {
+    try {
+      return await run(provider);
+    } catch (error) {
+      lastError = error;
+      console.warn(`${PROVIDER_LABELS[provider.name]} failed, trying next provider:`, error);
+    }
   }
 
-  const url = `https://aiplatform.googleapis.com/v1/publishers/google/models/${VERTEX_MODEL}:generateContent?key=${VERTEX_API_KEY}`;
-
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(body),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Vertex AI error: ${response.status} - ${error}`);
-  }
+  throw lastError instanceof Error ? lastError : new Error('All AI providers failed');
+}
 
-  const data = await response.json();
-  return data;
+// Main generate function - tries each configured provider in order
+export async function generateContent(
+  prompt: string,
+  systemInstruction?: string,
+  options: ClientOptions = {}
+): Promise<string> {
+  const providers = await getProviders(options);
+  const result = await withFallback(providers, (provider) => provider.generate({ prompt, systemInstruction }));
+  return result.text;
 }
 
-// Main generate function - tries Vertex first, falls back to OpenRouter
-export async function generateContent(prompt: string, systemInstruction?: string): Promise<string> {
-  // Try Vertex AI first
-  if (VERTEX_API_KEY) {
+// Stream from each provider in turn. Falls back to the next provider only if
+// one fails before producing anything - partial output cannot be taken back.
+async function* streamWithFallback(providers: LLMProvider[], request: GenerateRequest): AsyncGenerator<StreamEvent> {
+  let lastError: unknown;
+
+  for (const provider of providers) {
+    let started = false;
     try {
-      const result = await generateWithVertex(prompt, { systemInstruction });
-      return result.candidates?.[0]?.content?.parts?.[0]?.text || '';
+      for await (const event of provider.stream(request)) {
+        started = true;
+        yield event;
+      }
+      return;
     } catch (error) {
-      console.warn('Vertex AI failed, falling back to OpenRouter:', error);
+      if (started) throw error;
+      lastError = error;
+      console.warn(`${PROVIDER_LABELS[provider.name]} streaming failed, trying next provider:`, error);
     }
   }
 
-  // Fall back to OpenRouter
-  const result = await generateWithOpenRouter(prompt, { systemInstruction });
-  return result.choices?.[0]?.message?.content || '';
+  throw lastError instanceof Error ? lastError : new Error('All AI providers failed');
 }
 
-// Generate with function calling support
-export async function generateContentWithFunctions(
+// Streaming generate - yields text as it arrives
+export async function* streamContent(
   prompt: string,
-  systemInstruction: string,
-  functions: Array<{
-    name: string;
-    description: string;
-    parameters: Record<string, unknown>;
-  }>,
-  conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>
-) {
-  const messages = conversationHistory?.map((msg) => ({
-    role: msg.role as 'user' | 'assistant' | 'system',
-    content: msg.content,
-  }));
-
-  // Try Vertex AI first
-  if (VERTEX_API_KEY) {
-    try {
-      return await generateWithVertex(prompt, { systemInstruction, messages, functions });
-    } catch (error) {
-      console.warn('Vertex AI failed, falling back to OpenRouter:', error);
-    }
+  systemInstruction?: string,
+  options: ClientOptions = {}
+): AsyncGenerator<string> {
+  const providers = await getProviders(options);
+  for await (const event of streamWithFallback(providers, { prompt, systemInstruction })) {
+    if (event.type === 'text') yield event.text;
   }
+}
 
-  // Fall back to OpenRouter
-  return await generateWithOpenRouter(prompt, { systemInstruction, messages, functions });
+// Generate with native function calling. Providers without tool support
+// ignore request.functions and answer in text.
+export async function generateContentWithFunctions(
+  request: GenerateRequest,
+  options: ClientOptions = {}
+): Promise<GenerateResponse> {
+  const providers = await getProviders(options);
+  return withFallback(providers, (provider) => provider.generate(request));
 }
 
-// Test the connection
-export async function testConnection(): Promise<{ success: boolean; message: string; provider: string }> {
-  // Try Vertex AI first
-  if (VERTEX_API_KEY) {
-    try {
-      const text = await generateContent('Say "Connection successful!" and nothing else.');
-      return {
-        success: true,
-        message: text || 'Connected but no response text',
-        provider: 'Vertex AI',
-      };
-    } catch (error) {
-      console.warn('Vertex AI test failed:', error);
-    }
-  }
+// Streaming generate with native function calling - yields text and function calls as they arrive
+export async function* streamContentWithFunctions(
+  request: GenerateRequest,
+  options: ClientOptions = {}
+): AsyncGenerator<StreamEvent> {
+  const providers = await getProviders(options);
+  yield* streamWithFallback(providers, request);
+}
 
-  // Try OpenRouter
+// Test the connection
+export async function testConnection(
+  options: ClientOptions = {}
+): Promise<{ success: boolean; message: string; provider: string }> {
+  let providers: LLMProvider[];
   try {
-    const text = await generateContent('Say "Connection successful!" and nothing else.');
-    return {
-      success: true,
-      message: text || 'Connected but no response text',
-      provider: 'OpenRouter',
-    };
+    providers = await getProviders(options);
   } catch (error) {
     return {
       success: false,
@@ -210,4 +164,25 @@ export async function testConnection(): Promise<{ success: boolean; message: str
       provider: 'none',
     };
   }
+
+  let lastMessage = 'No AI provider configured';
+  for (const provider of providers) {
+    try {
+      const result = await provider.generate({ prompt: 'Say "Connection successful!" and nothing else.' });
+      return {
+        success: true,
+        message: result.text || 'Connected but no response text',
+        provider: `${PROVIDER_LABELS[provider.name]} (${provider.model})`,
+      };
+    } catch (error) {
+      console.warn(`${PROVIDER_LABELS[provider.name]} test failed:`, error);
+      lastMessage = error instanceof Error ? error.message : 'Unknown error';
+    }
+  }
+
+  return {
+    success: false,
+    message: lastMessage,
+    provider: 'none',
+  };
 }
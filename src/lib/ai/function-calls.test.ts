@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { parseFunctionCalls, stripFunctionCalls, FunctionCallStreamParser } from './function-calls';
+
+describe('function calls', () => {
+  it('should parse known function calls with typed arguments', () => {
+    const calls = parseFunctionCalls('roll_attack(attacker="Thorin", target="goblin_1", advantage=true) then foo(x=1)');
+
+    expect(calls).toEqual([
+      { name: 'roll_attack', arguments: { attacker: 'Thorin', target: 'goblin_1', advantage: true } },
+    ]);
+  });
+
+  it('should strip function calls from narration', () => {
+    expect(stripFunctionCalls('roll_dice(notation="1d20") The door creaks open.')).toBe('The door creaks open.');
+  });
+
+  describe('FunctionCallStreamParser', () => {
+    const run = (deltas: string[]) => {
+      const parser = new FunctionCallStreamParser();
+      const outputs = deltas.map(delta => parser.push(delta));
+      outputs.push(parser.flush());
+      return {
+        outputs,
+        text: outputs.map(o => o.text).join(''),
+        calls: outputs.flatMap(o => o.calls),
+      };
+    };
+
+    it('should release plain narration immediately', () => {
+      const { outputs } = run(['The torch ', 'gutters out.']);
+
+      expect(outputs[0].text).toBe('The torch ');
+      expect(outputs[1].text).toBe('gutters out.');
+    });
+
+    it('should extract a call split across chunks', () => {
+      const { outputs, text, calls } = run(['Steel flashes. roll_at', 'tack(attacker="Thorin", ', 'target="goblin_1") The blade bites.']);
+
+      expect(outputs[0].text).toBe('Steel flashes. ');
+      expect(outputs[1]).toEqual({ text: '', calls: [] });
+      expect(outputs[2].calls).toEqual([
+        { name: 'roll_attack', arguments: { attacker: 'Thorin', target: 'goblin_1' } },
+      ]);
+      expect(text).toBe('Steel flashes. The blade bites.');
+      expect(calls).toHaveLength(1);
+    });
+
+    it('should hold back a function name until the parenthesis arrives', () => {
+      const { outputs } = run(['Roll for it: roll_dice ', '(notation="1d20")']);
+
+      expect(outputs[0].text).toBe('Roll for it: ');
+      expect(outputs[1].calls).toEqual([{ name: 'roll_dice', arguments: { notation: '1d20' } }]);
+    });
+
+    it('should release words that only look like function names once the stream ends', () => {
+      const { text, calls } = run(['You start to roll']);
+
+      expect(text).toBe('You start to roll');
+      expect(calls).toEqual([]);
+    });
+
+    it('should leave an unterminated call as text at the end of the stream', () => {
+      const { text, calls } = run(['Then apply_damage(target="goblin_1"']);
+
+      expect(text).toBe('Then apply_damage(target="goblin_1"');
+      expect(calls).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+// Function Calls - Parses text-based function calls out of AI responses
+
+import { allFunctions } from './function-registry';
+
+export interface FunctionCall {
+  id?: string;     // Tool call ID from native function calling
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+// Function names recognised in text-based function calls
+export const KNOWN_FUNCTIONS = allFunctions.map(f => f.name);
+
+export function parseFunctionCalls(text: string): FunctionCall[] {
+  const calls: FunctionCall[] = [];
+  
+  const functionPattern = /(\w+)\s*\(\s*([^)]*)\s*\)/g;
+
+  let match;
+  while ((match = functionPattern.exec(text)) !== null) {
+    const [, funcName, argsStr] = match;
+    
+    if (KNOWN_FUNCTIONS.includes(funcName)) {
+      const args: Record<string, unknown> = {};
+      
+      const argPattern = /(\w+)\s*=\s*(?:\[([^\]]*)\]|"([^"]*)"|'([^']*)'|(\d+(?:\.\d+)?)|(\w+))/g;
+      let argMatch;
+      while ((argMatch = argPattern.exec(argsStr)) !== null) {
+        const [, key, arrayVal, strVal1, strVal2, numVal, boolOrId] = argMatch;
+        if (arrayVal !== undefined) args[key] = arrayVal.split(',').map(v => v.trim().replace(/^["']|["']$/g, '')).filter(Boolean);
+        else if (strVal1 !== undefined) args[key] = strVal1;
+        else if (strVal2 !== undefined) args[key] = strVal2;
+        else if (numVal !== undefined) args[key] = parseFloat(numVal);
+        else if (boolOrId === 'true') args[key] = true;
+        else if (boolOrId === 'false') args[key] = false;
+        else if (boolOrId !== undefined) args[key] = boolOrId;
+      }
+      
+      calls.push({ name: funcName, arguments: args });
+    }
+  }
+  
+  return calls;
+}
+
+export function stripFunctionCalls(text: string): string {
+  let cleaned = text;
+  for (const func of KNOWN_FUNCTIONS) {
+    const pattern = new RegExp(`${func}\\s*\\([^)]*\\)\\s*`, 'g');
+    cleaned = cleaned.replace(pattern, '');
+  }
+  
+  cleaned = cleaned.replace(/\n{3,}/g, '\n\n').trim();
+  
+  return cleaned;
+}
+
+
+const CALL_START = new RegExp(`\\b(${KNOWN_FUNCTIONS.join('|')})\\s*\\(`);
+
+/**
+ * Incrementally splits a streamed AI response into narration and function calls.
+ *
+ * Text is released as soon as it cannot be part of a function call; anything that
+ * might still turn into one (an unclosed call, or a trailing word that is a prefix
+ * of a known function name) is held back until more text arrives.
+ */
+export class FunctionCallStreamParser {
+  private pending = '';
+
+  push(delta: string): { text: string; calls: FunctionCall[] } {
+    this.pending += delta;
+    return this.drain(false);
+  }
+
+  /** Release everything still buffered once the stream has ended */
+  flush(): { text: string; calls: FunctionCall[] } {
+    return this.drain(true);
+  }
+
+  private drain(final: boolean): { text: string; calls: FunctionCall[] } {
+    let text = '';
+    const calls: FunctionCall[] = [];
+
+    while (this.pending) {
+      const match = CALL_START.exec(this.pending);
+
+      if (!match) {
+        const held = final ? 0 : this.heldBackLength();
+        text += this.pending.slice(0, this.pending.length - held);
+        this.pending = this.pending.slice(this.pending.length - held);
+        break;
+      }
+
+      const close = this.pending.indexOf(')', match.index + match[0].length);
+      if (close === -1) {
+        // Call still being written - an unterminated one at the end is left as text, like stripFunctionCalls
+        text += this.pending.slice(0, final ? this.pending.length : match.index);
+        this.pending = final ? '' : this.pending.slice(match.index);
+        break;
+      }
+
+      text += this.pending.slice(0, match.index);
+      calls.push(...parseFunctionCalls(this.pending.slice(match.index, close + 1)));
+      this.pending = this.pending.slice(close + 1).replace(/^\s+/, '');
+    }
+
+    return { text, calls };
+  }
+
+  // Length of a trailing "name" or "name " that may still become a function call
+  private heldBackLength(): number {
+    const tail = this.pending.match(/\b(\w+)(\s*)$/);
+    if (!tail) return 0;
+
+    const [whole, word, space] = tail;
+    const couldBeCall = space
+      ? KNOWN_FUNCTIONS.includes(word)
+      : KNOWN_FUNCTIONS.some(name => name.startsWith(word));
+
+    return couldBeCall ? whole.length : 0;
+  }
+}
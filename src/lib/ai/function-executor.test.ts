@@ -0,0 +1,142 @@
+import { describe, it, expect, vi } from 'vitest';
+import { executeFunction, getCombatModeChange } from './function-executor';
+import type { ExecutionContext } from './function-executor';
+import { combatEngine } from '@/lib/engine/combat-engine';
+import type { Character, Combat, MonsterStatBlock } from '@/lib/engine/types';
+
+const thorin: Character = {
+  id: 'player1',
+  campaignId: 'camp1',
+  name: 'Thorin',
+  race: 'Dwarf',
+  className: 'Fighter',
+  level: 5,
+  abilityScores: {
+    strength: 16,
+    dexterity: 12,
+    constitution: 16,
+    intelligence: 10,
+    wisdom: 12,
+    charisma: 8,
+  },
+  maxHp: 45,
+  currentHp: 45,
+  tempHp: 0,
+  armorClass: 18,
+  speed: 25,
+  hitDiceType: 10,
+  hitDiceRemaining: 5,
+  deathSaveSuccesses: 0,
+  deathSaveFailures: 0,
+  savingThrowProficiencies: ['strength', 'constitution'],
+  skillProficiencies: ['athletics', 'perception'],
+  skillExpertise: [],
+  spellSlots: {},
+  knownSpells: [],
+  preparedSpells: [],
+  classResources: [],
+  inventory: [],
+  equippedItems: {},
+  gold: 0,
+  conditions: [],
+  features: [],
+};
+
+// The orchestrator keys each character by ID, name and lowercase name
+function makeContext(overrides: Partial<ExecutionContext> = {}): ExecutionContext {
+  return {
+    characters: new Map([[thorin.id, thorin], [thorin.name, thorin], [thorin.name.toLowerCase(), thorin]]),
+    combat: null,
+    updateCharacter: vi.fn(),
+    updateCombat: vi.fn(),
+    updateMap: vi.fn(),
+    ...overrides,
+  };
+}
+
+function startCombat(context: ExecutionContext, enemyIds: unknown) {
+  const result = executeFunction({ name: 'start_combat', arguments: { enemy_ids: enemyIds } }, context);
+  const combat = vi.mocked(context.updateCombat).mock.calls[0]?.[0] ?? null;
+  return { result, combat, enemies: combat?.initiativeOrder.filter((c) => c.type === 'enemy') ?? [] };
+}
+
+describe('executeFunction', () => {
+  describe('start_combat', () => {
+    it('should group numbered references to the same monster', () => {
+      const { result, enemies } = startCombat(makeContext(), ['goblin_1', 'Goblin_2', 'goblin 3']);
+
+      expect(result.success).toBe(true);
+      expect(enemies.map((e) => e.id).sort()).toEqual(['goblin_1', 'goblin_2', 'goblin_3']);
+      expect(enemies.every((e) => e.name === 'Goblin')).toBe(true);
+    });
+
+    it('should use compendium stat blocks for known monsters', () => {
+      const { enemies } = startCombat(makeContext(), ['goblin']);
+
+      expect(enemies).toHaveLength(1);
+      expect(enemies[0]).toMatchObject({ name: 'Goblin', armorClass: 15 });
+      expect(enemies[0].monsterStatBlock?.challengeRating).toBe(0.25);
+    });
+
+    it('should use cached stat blocks for monsters outside the compendium', () => {
+      const bogHag = combatEngine.createBasicStatBlock({ name: 'Bog Hag', hp: 52, ac: 17 });
+      const { enemies } = startCombat(makeContext({ monsters: new Map([['bog-hag', bogHag]]) }), ['Bog_Hag_1']);
+
+      expect(enemies).toHaveLength(1);
+      expect(enemies[0]).toMatchObject({ name: 'Bog Hag', armorClass: 17 });
+    });
+
+    it('should fall back to a basic stat block for unknown monsters', () => {
+      const { result, enemies } = startCombat(makeContext(), 'mud_thing_1, mud_thing_2');
+
+      expect(result.success).toBe(true);
+      expect(enemies.map((e) => e.id).sort()).toEqual(['mud_thing_1', 'mud_thing_2']);
+      expect(enemies[0].monsterStatBlock).toMatchObject<Partial<MonsterStatBlock>>({ name: 'Mud Thing', hitPoints: 10, armorClass: 12 });
+    });
+
+    it('should put each character into the fight once', () => {
+      const { combat } = startCombat(makeContext(), ['goblin']);
+
+      expect(combat?.initiativeOrder.filter((c) => c.type === 'player_character').map((c) => c.name)).toEqual(['Thorin']);
+    });
+
+    it('should hand the new combat to updateCombat and switch to combat mode', () => {
+      const context = makeContext();
+      const { result, combat } = startCombat(context, ['goblin']);
+
+      expect(context.updateCombat).toHaveBeenCalledTimes(1);
+      expect(combat).toMatchObject({ active: true, round: 1 });
+      expect(result.result).toMatchObject({ combatId: combat?.id, round: 1 });
+      expect(getCombatModeChange(combat, 'exploration')).toBe('combat');
+    });
+
+    it('should refuse to start while combat is in progress', () => {
+      const { combat } = startCombat(makeContext(), ['goblin']);
+      const context = makeContext({ combat });
+
+      const result = executeFunction({ name: 'start_combat', arguments: { enemy_ids: ['orc'] } }, context);
+
+      expect(result).toMatchObject({ success: false, displayText: 'Combat is already in progress' });
+      expect(context.updateCombat).not.toHaveBeenCalled();
+    });
+
+    it('should fail without enemies', () => {
+      const context = makeContext();
+
+      const result = executeFunction({ name: 'start_combat', arguments: { enemy_ids: [] } }, context);
+
+      expect(result).toMatchObject({ success: false, displayText: 'No enemies specified for combat' });
+      expect(context.updateCombat).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getCombatModeChange', () => {
+    it('should only change the mode when combat starts or ends', () => {
+      const combat = { active: true } as Combat;
+
+      expect(getCombatModeChange(combat, 'exploration')).toBe('combat');
+      expect(getCombatModeChange(combat, 'combat')).toBeNull();
+      expect(getCombatModeChange(null, 'combat')).toBe('exploration');
+    });
+  });
+});
@@ -2,13 +2,53 @@
 
 import { diceEngine } from '@/lib/engine/dice-engine';
 import { combatEngine } from '@/lib/engine/combat-engine';
+import type { MonsterActionKind, OpportunityAttackOffer } from '@/lib/engine/combat-engine';
+import { findMonsterAction, getLegendaryActionCost } from '@/lib/engine/monster-abilities';
+import { monsterTactics } from '@/lib/engine/monster-tactics';
+import type { MonsterBehavior, TurnPlan } from '@/lib/engine/monster-tactics';
+import { progressionEngine } from '@/lib/engine/progression-engine';
+import { spellEngine, endConcentration } from '@/lib/engine/spell-engine';
+import { SpatialEngine } from '@/lib/engine/spatial-engine';
+import { targetingEngine, getSenses } from '@/lib/engine/targeting-engine';
+import {
+  attuneItem,
+  endAttunement,
+  equipItem,
+  getArmorClass,
+  getCharacterAttacks,
+  getWeaponAttack,
+  unequipItem,
+} from '@/lib/engine/item-catalog';
+import {
+  MAX_EXHAUSTION_LEVEL,
+  adjustExhaustion,
+  getEffectiveConditions,
+  getEffectiveMaxHp,
+  getEffectiveSpeed,
+  getExhaustionLevel,
+  getSavingThrowEffects,
+} from '@/lib/engine/condition-effects';
+import type { TargetingResult } from '@/lib/engine/targeting-engine';
+import { formatRollBreakdown } from '@/lib/engine/dice-expression';
+import {
+  DEFAULT_RULESET,
+  DEATH_RULE_EFFECTS,
+  REST_RULE_EFFECTS,
+  formatRestDuration,
+  getDeathSavesAfterRecovery,
+  getEncumbrance,
+} from '@/lib/engine/campaign-rules';
+import type { CampaignRuleset, EncumbranceStatus } from '@/lib/engine/campaign-rules';
 import { loreContextManager } from '@/lib/lore';
-import type { Character, Combat, ActiveCondition, Ability, Skill, DamageType } from '@/lib/engine/types';
-
-interface FunctionCall {
-  name: string;
-  arguments: Record<string, unknown>;
-}
+import { partyKnowledgeService } from '@/lib/world';
+import type { KnowledgeEntityType, KnowledgeKind } from '@/lib/world';
+import { compendium, toRulesKey, summarizeMonster, summarizeSpell, summarizeCondition } from '@/lib/rules';
+import type { SpellDefinition } from '@/lib/rules';
+import type { Character, Combat, Combatant, ActiveCondition, Ability, Skill, DamageType, MonsterStatBlock, DeathSaveResult, GameTime } from '@/lib/engine/types';
+import { DEATH_SAVES_TO_RESOLVE, advanceGameTime, getAbilityModifier, getProficiencyBonus } from '@/lib/engine/types';
+import type { AreaOfEffect, Direction, GameMap, MapEntity, MovementResult } from '@/lib/engine/spatial-types';
+import { DIRECTION_VECTORS, FEET_PER_SQUARE } from '@/lib/engine/spatial-types';
+import type { FunctionCall } from './function-calls';
 
 interface FunctionResult {
   name: string;
@@ -17,16 +57,201 @@ interface FunctionResult {
   displayText: string;
 }
 
-interface ExecutionContext {
+export interface ExecutionContext {
   characters: Map<string, Character>;
   combat: Combat | null;
   campaignId?: string;  // Added for lore functions
+  monsters?: Map<string, MonsterStatBlock>;  // Known stat blocks keyed by normalized name
+  spells?: Map<string, SpellDefinition>;     // Cached remote spells keyed by normalized name
   updateCharacter: (id: string, updates: Partial<Character>) => void;
   updateCombat: (combat: Combat | null) => void;
+  map?: GameMap | null;  // Active map from GameState.activeMap
+  updateMap: (map: GameMap) => void;
+  ruleset?: CampaignRuleset;  // Campaign house rules (defaults when absent)
+  gameTime?: GameTime;        // Clock from GameState (day, hour, minute)
+  updateGameTime?: (time: GameTime) => void;
+}
+
+/**
+ * The game mode after a combat update, or null if it stays the same
+ */
+export function getCombatModeChange(combat: Combat | null, mode: string): string | null {
+  if (!combat) return 'exploration';
+  return mode !== 'combat' ? 'combat' : null;
+}
+
+// Normalize a monster reference like "Goblin_2" or "dire wolf" to a lookup key
+function normalizeMonsterName(name: string): string {
+  return toRulesKey(name.trim().replace(/[_\s]+\d+$/, ''));
+}
+
+// Find a map entity by its own ID, the linked character/combatant ID, or its name
+function findMapEntity(map: GameMap, ref: string): MapEntity | undefined {
+  const name = ref.trim().toLowerCase();
+  return map.entities.find(e => e.id === ref || e.sourceId === ref || e.name.toLowerCase() === name);
+}
+
+// Find a combatant by ID, source character ID or name
+function findCombatant(combat: Combat, ref: string): Combatant | undefined {
+  const name = ref.trim().toLowerCase();
+  return combat.initiativeOrder.find(c => c.id === ref || c.sourceId === ref || c.name.toLowerCase() === name);
+}
+
+// Cover, light and vision between two creatures, when both have tokens on the active map
+function analyzeTargeting(context: ExecutionContext, attackerRef: string, targetRef: string): TargetingResult | undefined {
+  const map = context.map;
+  const attackerToken = map ? findMapEntity(map, attackerRef) : undefined;
+  const targetToken = map ? findMapEntity(map, targetRef) : undefined;
+  if (!map || !attackerToken || !targetToken) return undefined;
+
+  const sensesOf = (ref: string, token: MapEntity) => {
+    const character = context.characters.get(ref) ?? (token.sourceId ? context.characters.get(token.sourceId) : undefined);
+    const combatant = context.combat ? findCombatant(context.combat, token.sourceId ?? ref) : undefined;
+    return getSenses(character ?? combatant?.monsterStatBlock);
+  };
+
+  return targetingEngine.analyzeAttack(map, attackerToken, targetToken, {
+    attacker: sensesOf(attackerRef, attackerToken),
+    target: sensesOf(targetRef, targetToken),
+  });
+}
+
+// Copy a player combatant's HP and death saves back to their character
+function syncCharacterFromCombatant(context: ExecutionContext, combatant: Combatant | undefined): void {
+  const character = combatant ? context.characters.get(combatant.sourceId ?? combatant.id) : undefined;
+  if (!combatant || !character) return;
+  context.updateCharacter(character.id, {
+    currentHp: combatant.currentHp,
+    ...(combatant.deathSaves
+      ? { deathSaveSuccesses: combatant.deathSaves.successes, deathSaveFailures: combatant.deathSaves.failures }
+      : {}),
+  });
+}
+
+// Display text for a death save rolled at the start of a dying character's turn
+function describeDeathSave(save: DeathSaveResult): string {
+  const tally = `${save.successes}✓ ${save.failures}✗`;
+  switch (save.outcome) {
+    case 'revived': return `💀 ${save.name} death save: natural 20 - back up with 1 HP!`;
+    case 'stable': return `💀 ${save.name} death save: ${save.roll} - STABLE (${tally})`;
+    case 'dead': return `💀 ${save.name} death save: ${save.roll} - DEAD (${tally})`;
+    default: return `💀 ${save.name} death save: ${save.roll}${save.roll === 1 ? ' (two failures)' : ''} - ${save.outcome.toUpperCase()} (${tally})`;
+  }
+}
+
+// Legendary actions, recharge abilities and lair actions a combatant has in play
+function describeMonsterAbilities(c: Combatant): string | null {
+  const parts: string[] = [];
+  if (c.legendaryActions) {
+    parts.push(`legendary actions ${c.legendaryActions.remaining}/${c.legendaryActions.max}`);
+  }
+  Object.entries(c.recharge ?? {}).forEach(([ability, ready]) => parts.push(`${ability} ${ready ? 'ready' : 'recharging'}`));
+  if (c.lair) {
+    const options = c.lair.actions.filter((a) => a.name !== c.lair!.lastUsed).map((a) => a.name);
+    parts.push(`lair actions: ${options.join(', ')}`);
+  }
+  return parts.length > 0 ? `${c.name}: ${parts.join(', ')}` : null;
+}
+
+// One-line summary of a monster's planned turn
+function describeTurnPlan(plan: TurnPlan): string {
+  if (!plan.action) {
+    return `🧠 ${plan.name} (${plan.behavior}): no action - ${plan.reasoning.join('; ')}`;
+  }
+  const extras = [
+    plan.bonusAction ? `bonus action: ${plan.bonusAction}` : null,
+    plan.reaction ? `reaction: ${plan.reaction}` : null,
+  ].filter((part): part is string => part !== null);
+  return `🧠 ${plan.name} (${plan.behavior}): ${plan.reasoning[plan.reasoning.length - 1]}${extras.length > 0 ? ` | ${extras.join(', ')}` : ''}`;
+}
+
+// End a caster's concentration on every character it affects (outside the combat tracker)
+function endCharacterConcentration(context: ExecutionContext, casterId: string): void {
+  const party = new Set(context.characters.values());
+  party.forEach((char) => {
+    const conditions = endConcentration(char.conditions, casterId, char.id);
+    if (conditions.length !== char.conditions.length) {
+      context.updateCharacter(char.id, { conditions });
+    }
+  });
+}
+
+interface SpellTarget {
+  id: string;
+  name: string;
+  armorClass: number;
+  conditions: ActiveCondition[];
+  monsterStatBlock?: MonsterStatBlock;
+  saveModifier: (ability: Ability) => number;
+}
+
+// Resolve a spell target from the combat tracker, falling back to the party
+function findSpellTarget(context: ExecutionContext, ref: string): SpellTarget | undefined {
+  const combatant = context.combat ? findCombatant(context.combat, ref) : undefined;
+  if (combatant) {
+    return {
+      id: combatant.id,
+      name: combatant.name,
+      armorClass: combatant.armorClass,
+      conditions: combatant.conditions,
+      monsterStatBlock: combatant.monsterStatBlock,
+      saveModifier: (ability) => combatEngine.getSaveModifier(combatant, ability),
+    };
+  }
+
+  const character = context.characters.get(ref) ?? context.characters.get(ref.toLowerCase());
+  if (!character) return undefined;
+  return {
+    id: character.id,
+    name: character.name,
+    armorClass: character.armorClass,
+    conditions: character.conditions,
+    saveModifier: (ability) => getAbilityModifier(character.abilityScores[ability]) +
+      (character.savingThrowProficiencies.includes(ability) ? getProficiencyBonus(character.level) : 0),
+  };
+}
+
+// Encumbrance note for inventory display text
+function describeEncumbrance(status: EncumbranceStatus): string {
+  if (status.level === 'unencumbered') return '';
+  const label = status.level === 'encumbered' ? 'Encumbered' : 'Heavily encumbered';
+  return ` | ⚖️ ${label} (${status.carriedWeight}/${status.capacity} lb, speed -${status.speedPenalty} ft)`;
+}
+
+const AREA_SHAPES: AreaOfEffect['shape'][] = ['circle', 'cone', 'line', 'cube', 'sphere', 'cylinder'];
+
+// Group AI-supplied enemy references into stat blocks with counts
+function resolveEnemies(
+  enemyRefs: string[],
+  monsters: Map<string, MonsterStatBlock> | undefined
+): { statBlock: MonsterStatBlock; count: number }[] {
+  const groups = new Map<string, { statBlock: MonsterStatBlock; count: number }>();
+
+  for (const ref of enemyRefs) {
+    const key = normalizeMonsterName(ref);
+    if (!key) continue;
+
+    const existing = groups.get(key);
+    if (existing) {
+      existing.count++;
+      continue;
+    }
+
+    // Bundled SRD first, then cached remote lookups, then an improvised stat block
+    const statBlock = compendium.getMonster(key) ?? monsters?.get(key) ?? combatEngine.createBasicStatBlock({
+      name: key.split('-').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' '),
+      hp: 10,
+      ac: 12,
+    });
+    groups.set(key, { statBlock, count: 1 });
+  }
+
+  return Array.from(groups.values());
 }
 
 export function executeFunction(call: FunctionCall, context: ExecutionContext): FunctionResult {
   const { name, arguments: args } = call;
+  const ruleset = context.ruleset ?? DEFAULT_RULESET;
 
   try {
     switch (name) {
@@ -37,7 +262,7 @@ export function executeFunction(call: FunctionCall, context: ExecutionContext):
           name,
           success: true,
           result: roll,
-          displayText: `🎲 ${notation} = ${roll.total} [${roll.rolls.join(', ')}${roll.modifier ? (roll.modifier > 0 ? ` +${roll.modifier}` : ` ${roll.modifier}`) : ''}]`,
+          displayText: `🎲 ${notation} = ${roll.total} [${formatRollBreakdown(roll.breakdown)}]`,
         };
       }
 
@@ -48,38 +273,74 @@ export function executeFunction(call: FunctionCall, context: ExecutionContext):
         
         const attacker = context.characters.get(attackerId);
         const target = context.characters.get(targetId);
+        const weapon = args.weapon as string || 'weapon';
         
-        // Use strength mod + 2 (proficiency) as default attack bonus
-        const attackBonus = attacker ? Math.floor((attacker.abilityScores.strength - 10) / 2) + 2 : 2;
-        const targetAC = target?.armorClass || 10;
+        // Monsters attack with the bonus from their stat block
+        const attackerCombatant = !attacker && context.combat ? findCombatant(context.combat, attackerId) : undefined;
+        const targetCombatant = !target && context.combat ? findCombatant(context.combat, targetId) : undefined;
+        const monsterAttack = findMonsterAction(attackerCombatant?.monsterStatBlock?.actions, weapon);
+        
+        // Characters attack with their gear; unknown weapons fall back to strength mod + 2 (proficiency)
+        const weaponAttack = attacker ? getWeaponAttack(attacker, weapon) : null;
+        const attackBonus = attacker
+          ? weaponAttack?.attackBonus ?? Math.floor((attacker.abilityScores.strength - 10) / 2) + 2
+          : monsterAttack?.attackBonus ?? 2;
+        const targetAC = target?.armorClass || targetCombatant?.armorClass || 10;
+        
+        // Conditions on either side (poisoned, prone, paralyzed...) apply to the roll
+        const attackerInfo = {
+          id: attackerId,
+          name: attacker?.name || attackerCombatant?.name || attackerId,
+          conditions: attacker?.conditions ?? attackerCombatant?.conditions ?? [],
+          monsterStatBlock: attackerCombatant?.monsterStatBlock,
+        };
+        const targetInfo = {
+          id: targetId,
+          name: target?.name || targetCombatant?.name || targetId,
+          armorClass: targetAC,
+          conditions: target?.conditions ?? targetCombatant?.conditions ?? [],
+          monsterStatBlock: targetCombatant?.monsterStatBlock,
+        };
+        const ranged = args.ranged === true || !!weaponAttack?.ranged || /ranged (weapon|spell) attack/i.test(monsterAttack?.desc ?? '');
         
-        const attackerInfo = { id: attackerId, name: attacker?.name || attackerId };
-        const targetInfo = { id: targetId, name: target?.name || targetId, armorClass: targetAC };
-        const weapon = args.weapon as string || 'weapon';
+        // Cover, light and vision on the map adjust the AC and advantage
+        const targeting = analyzeTargeting(context, attackerId, targetId);
+        if (targeting && !targeting.canTarget) {
+          return { name, success: false, result: targeting, displayText: `🛡️ ${targeting.notes.join('; ')}` };
+        }
         
-        const roll = diceEngine.rollAttack(attackerInfo, targetInfo, weapon, attackBonus, advantage);
+        const circumstances = { ...(targeting ?? { acBonus: 0, advantage: 'normal' as const, notes: [] }), ranged };
+        const roll = diceEngine.rollAttack(attackerInfo, targetInfo, weapon, attackBonus, advantage, circumstances);
+        const notes = roll.notes?.length ? `\n   ${roll.notes.join('; ')}` : '';
         
         return {
           name,
           success: true,
           result: roll,
-          displayText: `🎯 Attack Roll: ${roll.roll}${roll.attackBonus >= 0 ? '+' : ''}${roll.attackBonus} = ${roll.total} vs AC ${targetAC} - ${roll.hits ? (roll.isCriticalHit ? 'CRITICAL HIT!' : 'HIT!') : (roll.isCriticalMiss ? 'CRITICAL MISS!' : 'MISS')}`,
+          displayText: `🎯 Attack Roll: ${roll.roll}${roll.attackBonus >= 0 ? '+' : ''}${roll.attackBonus} = ${roll.total} vs AC ${roll.targetAc} - ${roll.hits ? (roll.isCriticalHit ? 'CRITICAL HIT!' : 'HIT!') : (roll.isCriticalMiss ? 'CRITICAL MISS!' : 'MISS')}${notes}`,
         };
       }
 
       case 'roll_damage': {
         const isCritical = args.is_critical as boolean || false;
-        const damageDice = args.damage_dice as string || '1d8';
-        const modifier = args.damage_modifier as number || 3;
-        const damageType = (args.damage_type as DamageType) || 'slashing';
         
-        const roll = diceEngine.rollDamage(damageDice, damageType, modifier, isCritical);
+        // A character's weapon supplies its own dice, modifier and magic unless told otherwise
+        const attacker = context.characters.get(args.attacker_id as string);
+        const weaponAttack = attacker && !args.damage_dice ? getWeaponAttack(attacker, args.weapon as string | undefined) : null;
+        const damageDice = weaponAttack?.damageDice ?? (args.damage_dice as string || '1d8');
+        const modifier = (args.damage_modifier as number | undefined) ?? weaponAttack?.damageModifier ?? 3;
+        const damageType = (args.damage_type as DamageType) || weaponAttack?.damageType || 'slashing';
+        
+        const roll = diceEngine.rollDamage(damageDice, damageType, modifier, isCritical, weaponAttack?.extraDamage ?? [], ruleset.criticalHitTables);
+        const extra = roll.additionalDamage.length
+          ? ` (${roll.additionalDamage.map(d => `+${d.amount} ${d.type} [${formatRollBreakdown(d.breakdown)}]`).join(', ')})`
+          : '';
         
         return {
           name,
           success: true,
           result: roll,
-          displayText: `💥 Damage: ${isCritical ? '(CRITICAL) ' : ''}${roll.totalDamage} ${damageType}`,
+          displayText: `💥 Damage: ${isCritical ? '(CRITICAL) ' : ''}${roll.totalDamage} ${damageType} [${formatRollBreakdown(roll.breakdown)}]${extra}${roll.criticalEffect ? ` | 🩸 ${roll.criticalEffect.effect}` : ''}`,
         };
       }
 
@@ -136,15 +397,17 @@ export function executeFunction(call: FunctionCall, context: ExecutionContext):
           character = defaultChar;
         }
         
-        const roll = diceEngine.rollAbilityCheck(character, ability, skill, dc, advantage);
+        const sense = args.relies_on as 'sight' | 'hearing' | undefined;
+        const roll = diceEngine.rollAbilityCheck(character, ability, skill, dc, advantage, sense);
         const skillName = skill ? skill.replace('_', ' ') : ability;
         const totalMod = roll.abilityModifier + roll.proficiencyBonus + roll.otherModifiers;
+        const notes = roll.notes?.length ? `\n   ${roll.notes.join('; ')}` : '';
         
         return {
           name,
           success: true,
           result: roll,
-          displayText: `🎲 ${skillName.charAt(0).toUpperCase() + skillName.slice(1)} Check: ${roll.roll}${totalMod >= 0 ? '+' : ''}${totalMod} = ${roll.total} vs DC ${dc} - ${roll.success ? 'SUCCESS!' : 'FAILURE'}`,
+          displayText: `🎲 ${skillName.charAt(0).toUpperCase() + skillName.slice(1)} Check: ${roll.roll}${totalMod >= 0 ? '+' : ''}${totalMod} = ${roll.total} vs DC ${dc} - ${roll.success ? 'SUCCESS!' : roll.autoFailed ? 'AUTOMATIC FAILURE' : 'FAILURE'}${notes}`,
         };
       }
 
@@ -177,12 +440,13 @@ export function executeFunction(call: FunctionCall, context: ExecutionContext):
         
         const roll = diceEngine.rollSavingThrow(character, ability, dc, advantage);
         const totalMod = roll.modifier + roll.proficiencyBonus;
+        const notes = roll.notes?.length ? `\n   ${roll.notes.join('; ')}` : '';
         
         return {
           name,
           success: true,
           result: roll,
-          displayText: `🛡️ ${ability.charAt(0).toUpperCase() + ability.slice(1)} Save: ${roll.roll}${totalMod >= 0 ? '+' : ''}${totalMod} = ${roll.total} vs DC ${dc} - ${roll.success ? 'SAVE!' : 'FAIL'}`,
+          displayText: `🛡️ ${ability.charAt(0).toUpperCase() + ability.slice(1)} Save: ${roll.roll}${totalMod >= 0 ? '+' : ''}${totalMod} = ${roll.total} vs DC ${dc} - ${roll.success ? 'SAVE!' : roll.autoFailed ? 'AUTOMATIC FAIL' : 'FAIL'}${notes}`,
         };
       }
 
@@ -190,6 +454,7 @@ export function executeFunction(call: FunctionCall, context: ExecutionContext):
         const targetId = args.target_id as string;
         const amount = args.amount as number;
         const damageType = args.damage_type as string;
+        const isCritical = args.is_critical === true;
         
         let character: Character | undefined;
         context.characters.forEach((char, key) => {
@@ -197,6 +462,37 @@ export function executeFunction(call: FunctionCall, context: ExecutionContext):
             character = char;
           }
         });
+
+        // In combat, damage goes through the tracker for resistances and concentration saves
+        const combatant = context.combat ? findCombatant(context.combat, character?.id ?? targetId) : undefined;
+        if (context.combat && combatant) {
+          const { combat, result } = combatEngine.applyDamage(context.combat, combatant.id, amount, damageType as DamageType, 'apply_damage', isCritical);
+          context.updateCombat(combat);
+          if (character) {
+            syncCharacterFromCombatant(context, findCombatant(combat, combatant.id));
+          }
+          if (result.concentrationEnded) {
+            endCharacterConcentration(context, combatant.id);
+          }
+
+          const status = result.instantDeath ? ' - KILLED OUTRIGHT!'
+            : result.status === 'dead' && result.wasAlreadyDefeated ? ' - DEAD!'
+            : result.deathSaves && result.wasAlreadyDefeated ? ` - death save failure${isCritical ? 's' : ''} (${result.deathSaves.failures}/${DEATH_SAVES_TO_RESOLVE})`
+            : result.isDefeated && !result.wasAlreadyDefeated
+              ? (combatant.isMonster ? ' - DEFEATED!' : ' - UNCONSCIOUS!')
+              : '';
+          const check = result.concentration;
+          const concentrationText = check
+            ? ` | 🧠 Concentration (${check.spell}): ${check.roll}${check.modifier >= 0 ? '+' : ''}${check.modifier} = ${check.total} vs DC ${check.dc} - ${check.maintained ? 'MAINTAINED' : 'LOST'}`
+            : result.concentrationEnded ? ` | 🧠 Concentration on ${result.concentrationEnded} ends` : '';
+
+          return {
+            name,
+            success: true,
+            result: { oldHp: result.previousHp, newHp: result.currentHp, damage: result.damageDealt, ...result },
+            displayText: `💔 ${result.targetName} takes ${result.damageDealt} ${damageType} damage (HP: ${result.previousHp} → ${result.currentHp})${status}${concentrationText}`,
+          };
+        }
         
         if (!character) {
           return { name, success: false, result: null, displayText: `Target ${targetId} not found` };
@@ -204,15 +500,40 @@ export function executeFunction(call: FunctionCall, context: ExecutionContext):
         
         const oldHp = character.currentHp;
         const newHp = Math.max(0, oldHp - amount);
-        context.updateCharacter(character.id, { currentHp: newHp });
+        const death = newHp === 0 && amount > 0
+          ? combatEngine.getDamageAtZeroHp({
+            currentHp: oldHp,
+            maxHp: character.maxHp,
+            status: combatEngine.getStatusAtHp(oldHp, character.deathSaveSuccesses, character.deathSaveFailures),
+            deathSaves: { successes: character.deathSaveSuccesses, failures: character.deathSaveFailures },
+          }, amount, isCritical)
+          : undefined;
+        context.updateCharacter(character.id, {
+          currentHp: newHp,
+          ...(death ? { deathSaveSuccesses: death.deathSaves.successes, deathSaveFailures: death.deathSaves.failures } : {}),
+        });
+
+        // Damage outside combat still tests concentration
+        const concentration = amount > 0 && newHp > 0 ? spellEngine.rollConcentrationSave(character, amount) : null;
+        const concentrationLost = amount > 0 && character.conditions.some(c => c.condition === 'concentrating') &&
+          (newHp === 0 || concentration?.maintained === false);
+        if (concentrationLost) {
+          endCharacterConcentration(context, character.id);
+        }
         
-        const status = newHp === 0 ? ' - UNCONSCIOUS!' : '';
+        const status = death?.instantDeath ? ' - KILLED OUTRIGHT!'
+          : death?.status === 'dead' ? ' - DEAD!'
+          : oldHp === 0 && death ? ` - death save failure${isCritical ? 's' : ''} (${death.deathSaves.failures}/${DEATH_SAVES_TO_RESOLVE})`
+          : newHp === 0 ? ' - UNCONSCIOUS!' : '';
+        const concentrationText = concentration
+          ? ` | 🧠 Concentration (${concentration.spell}): ${concentration.roll}${concentration.modifier >= 0 ? '+' : ''}${concentration.modifier} = ${concentration.total} vs DC ${concentration.dc} - ${concentration.maintained ? 'MAINTAINED' : 'LOST'}`
+          : concentrationLost ? ' | 🧠 Concentration ends' : '';
         
         return {
           name,
           success: true,
-          result: { oldHp, newHp, damage: amount },
-          displayText: `💔 ${character.name} takes ${amount} ${damageType} damage (HP: ${oldHp} → ${newHp})${status}`,
+          result: { oldHp, newHp, damage: amount, concentration: concentration ?? undefined, ...(death ?? {}) },
+          displayText: `💔 ${character.name} takes ${amount} ${damageType} damage (HP: ${oldHp} → ${newHp})${status}${concentrationText}`,
         };
       }
 
@@ -231,15 +552,88 @@ export function executeFunction(call: FunctionCall, context: ExecutionContext):
           return { name, success: false, result: null, displayText: `Target ${targetId} not found` };
         }
         
+        if (character.currentHp === 0 && character.deathSaveFailures >= DEATH_SAVES_TO_RESOLVE) {
+          return { name, success: false, result: null, displayText: `${character.name} is dead - healing can't help` };
+        }
+        
         const oldHp = character.currentHp;
         const newHp = Math.min(character.maxHp, oldHp + amount);
-        context.updateCharacter(character.id, { currentHp: newHp });
+        // Coming back from 0 HP clears death saves (hardcore rules keep the failures)
+        const deathSaves = oldHp === 0 && newHp > 0 ? getDeathSavesAfterRecovery(character, ruleset.deathRules) : {};
+        context.updateCharacter(character.id, { currentHp: newHp, ...deathSaves });
+
+        const combatant = context.combat ? findCombatant(context.combat, character.id) : undefined;
+        if (context.combat && combatant) {
+          context.updateCombat(combatEngine.applyHealing(context.combat, combatant.id, amount, 'apply_healing').combat);
+        }
         
         return {
           name,
           success: true,
-          result: { oldHp, newHp, healed: newHp - oldHp },
-          displayText: `💚 ${character.name} heals ${newHp - oldHp} HP (HP: ${oldHp} → ${newHp})`,
+          result: { oldHp, newHp, healed: newHp - oldHp, ...deathSaves },
+          displayText: `💚 ${character.name} heals ${newHp - oldHp} HP (HP: ${oldHp} → ${newHp})${oldHp === 0 && newHp > 0 ? ' - conscious again!' : ''}`,
+        };
+      }
+
+      case 'stabilize_character': {
+        const targetId = args.target_id as string;
+        const method = (args.method as 'medicine' | 'healers_kit' | 'spell') || 'medicine';
+        const medicId = args.medic_id as string | undefined;
+
+        let character: Character | undefined;
+        let medic: Character | undefined;
+        context.characters.forEach((char, key) => {
+          if (key === targetId || char.name.toLowerCase() === targetId.toLowerCase()) {
+            character = char;
+          }
+          if (medicId && (key === medicId || char.name.toLowerCase() === medicId.toLowerCase())) {
+            medic = char;
+          }
+        });
+
+        if (!character) {
+          return { name, success: false, result: null, displayText: `Target ${targetId} not found` };
+        }
+
+        const status = combatEngine.getStatusAtHp(character.currentHp, character.deathSaveSuccesses, character.deathSaveFailures);
+        if (status !== 'dying') {
+          return { name, success: false, result: { status }, displayText: `${character.name} is not dying (${status})` };
+        }
+
+        // Without a healer's kit or a spell, stabilizing takes a DC 10 Wisdom (Medicine) check
+        let checkText: string | undefined;
+        let check: ReturnType<typeof diceEngine.rollAbilityCheck> | undefined;
+        if (method === 'medicine') {
+          if (!medic) {
+            return { name, success: false, result: null, displayText: 'A Medicine check needs a medic_id' };
+          }
+          check = diceEngine.rollAbilityCheck(medic, 'wisdom', 'medicine', 10);
+          const bonus = check.total - check.roll;
+          checkText = `🩺 ${medic.name} Medicine: ${check.roll}${bonus >= 0 ? '+' : ''}${bonus} = ${check.total} vs DC 10`;
+          if (!check.success) {
+            return { name, success: true, result: { stabilized: false, check }, displayText: `${checkText} - ${character.name} is still dying` };
+          }
+        }
+
+        // Three successes mark a stable character; hardcore rules keep the failures
+        const deathSaves = {
+          deathSaveSuccesses: DEATH_SAVES_TO_RESOLVE,
+          deathSaveFailures: DEATH_RULE_EFFECTS[ruleset.deathRules].failuresPersist ? character.deathSaveFailures : 0,
+        };
+        context.updateCharacter(character.id, deathSaves);
+
+        const combatant = context.combat ? findCombatant(context.combat, character.id) : undefined;
+        if (context.combat && combatant) {
+          context.updateCombat(combatEngine.stabilize(context.combat, combatant.id));
+        }
+
+        return {
+          name,
+          success: true,
+          result: { stabilized: true, ...deathSaves, ...(check ? { check } : {}) },
+          displayText: checkText
+            ? `${checkText} - ${character.name} is STABLE`
+            : `🩺 ${character.name} is STABLE (${method === 'spell' ? 'spell' : "healer's kit"})`,
         };
       }
 
@@ -255,8 +649,9 @@ export function executeFunction(call: FunctionCall, context: ExecutionContext):
             character = char;
           }
         });
+        const combatant = context.combat ? findCombatant(context.combat, character?.id ?? targetId) : undefined;
         
-        if (!character) {
+        if (!character && !combatant) {
           return { name, success: false, result: null, displayText: `Target ${targetId} not found` };
         }
         
@@ -267,16 +662,43 @@ export function executeFunction(call: FunctionCall, context: ExecutionContext):
           durationValue: durationType === 'rounds' ? duration : undefined,
           saveDc: args.save_dc as number,
           saveAbility: args.save_ability as Ability,
+          ...(condition === 'exhaustion' ? { level: (args.level as number | undefined) ?? 1 } : {}),
         };
+        const targetName = character?.name ?? combatant!.name;
         
-        const conditions = [...character.conditions, newCondition];
-        context.updateCharacter(character.id, { conditions });
+        // Monsters shrug off conditions they are immune to
+        if (combatant && getEffectiveConditions({ ...combatant, conditions: [newCondition] }).length === 0) {
+          return { name, success: true, result: { immune: condition }, displayText: `🛡️ ${targetName} is immune to ${condition}` };
+        }
+        
+        // Exhaustion stacks a level at a time; the sixth level kills
+        const conditions = condition === 'exhaustion'
+          ? adjustExhaustion((character ?? combatant!).conditions, newCondition.level ?? 1, newCondition.source)
+          : [...(character ?? combatant!).conditions, newCondition];
+        const exhaustion = getExhaustionLevel(conditions);
+        
+        if (character) {
+          context.updateCharacter(character.id, {
+            conditions,
+            ...(exhaustion >= MAX_EXHAUSTION_LEVEL ? { currentHp: 0, deathSaveFailures: DEATH_SAVES_TO_RESOLVE } : {}),
+          });
+        }
+        if (context.combat && combatant) {
+          context.updateCombat(combatEngine.addCondition(context.combat, combatant.id, newCondition));
+        }
+        
+        let displayText = `⚠️ ${targetName} is now ${condition}!`;
+        if (condition === 'exhaustion') {
+          displayText = exhaustion >= MAX_EXHAUSTION_LEVEL
+            ? `💀 ${targetName} succumbs to exhaustion and dies!`
+            : `⚠️ ${targetName} now has exhaustion level ${exhaustion}!`;
+        }
         
         return {
           name,
           success: true,
-          result: newCondition,
-          displayText: `⚠️ ${character.name} is now ${condition}!`,
+          result: condition === 'exhaustion' ? { ...newCondition, level: exhaustion } : newCondition,
+          displayText,
         };
       }
 
@@ -306,12 +728,207 @@ export function executeFunction(call: FunctionCall, context: ExecutionContext):
         };
       }
 
+      case 'cast_spell': {
+        const casterId = args.caster_id as string;
+        const spellName = args.spell_name as string;
+
+        let caster: Character | undefined;
+        context.characters.forEach((char, key) => {
+          if (key === casterId || char.name.toLowerCase() === casterId.toLowerCase()) {
+            caster = char;
+          }
+        });
+
+        if (!caster) {
+          return { name, success: false, result: null, displayText: `Caster ${casterId} not found` };
+        }
+
+        const key = toRulesKey(spellName || '');
+        const spell = compendium.getSpell(key) ?? context.spells?.get(key);
+        if (!spell) {
+          const suggestions = compendium.search({ query: spellName, kinds: ['spell'], limit: 3 }).map(r => r.name);
+          return {
+            name,
+            success: false,
+            result: { spell: spellName, suggestions },
+            displayText: `✨ Unknown spell "${spellName}"${suggestions.length ? `. Did you mean: ${suggestions.join(', ')}?` : ''}`,
+          };
+        }
+
+        const options = { slotLevel: args.slot_level as number | undefined, ritual: args.ritual as boolean | undefined };
+        const check = spellEngine.canCastSpell(caster, spell, options);
+        if (!check.allowed) {
+          return { name, success: false, result: { spell: spell.name, reason: check.reason }, displayText: `✨ ${check.reason}` };
+        }
+
+        const cast = spellEngine.castSpell(caster, spell, options);
+        const casterRef = { id: caster.id, name: caster.name };
+        const casterConditions = caster.conditions;
+        if (cast.endedConcentration) {
+          endCharacterConcentration(context, caster.id);
+        }
+        context.updateCharacter(caster.id, cast.changes);
+
+        if (context.combat && (cast.endedConcentration || cast.concentration) && findCombatant(context.combat, caster.id)) {
+          let combat = context.combat;
+          if (cast.endedConcentration) combat = combatEngine.endConcentration(combat, caster.id);
+          if (cast.concentration) combat = combatEngine.addCondition(combat, caster.id, cast.concentration);
+          context.updateCombat(combat);
+        }
+
+        // Area and auto-hit spells roll damage once for every target; spell attacks roll per target
+        const rollSpellDamage = (isCritical = false) => {
+          if (!cast.damage) return undefined;
+          return diceEngine.rollDamage(cast.damage.dice, cast.damage.type, 0, isCritical).totalDamage;
+        };
+        const sharedDamage = cast.attackBonus === undefined ? rollSpellDamage() : undefined;
+        const healing = cast.healing
+          ? diceEngine.roll(cast.healing.dice).total + cast.healing.modifier
+          : undefined;
+
+        const rawTargets = args.target_ids;
+        const targetRefs = Array.isArray(rawTargets) ? rawTargets.map(String) : [];
+        const targets = targetRefs.map((ref) => {
+          const target = findSpellTarget(context, ref);
+          if (!target) {
+            return { ref, found: false as const, line: `${ref}: not found` };
+          }
+
+          if (cast.attackBonus !== undefined) {
+            const targeting = analyzeTargeting(context, casterRef.id, target.id);
+            if (targeting && !targeting.canTarget) {
+              return { id: target.id, name: target.name, found: true as const, line: `${target.name}: 🛡️ ${targeting.notes.join('; ')}` };
+            }
+            const circumstances = { ...(targeting ?? { acBonus: 0, advantage: 'normal' as const, notes: [] }), ranged: spell.attackType !== 'melee' };
+            const attack = diceEngine.rollAttack({ ...casterRef, conditions: casterConditions }, target, spell.name, cast.attackBonus, 'normal', circumstances);
+            const damage = attack.hits ? rollSpellDamage(attack.isCriticalHit) : undefined;
+            const verdict = attack.hits ? (attack.isCriticalHit ? 'CRITICAL HIT!' : 'HIT!') : (attack.isCriticalMiss ? 'CRITICAL MISS!' : 'MISS');
+            return {
+              id: target.id,
+              name: target.name,
+              found: true as const,
+              attack: { roll: attack.roll, total: attack.total, hits: attack.hits, isCritical: attack.isCriticalHit },
+              damage,
+              line: `${target.name}: 🎯 ${attack.roll}+${cast.attackBonus} = ${attack.total} vs AC ${attack.targetAc} - ${verdict}${damage !== undefined ? ` 💥 ${damage} ${cast.damage?.type}` : ''}${attack.notes?.length ? ` (${attack.notes.join('; ')})` : ''}`,
+            };
+          }
+
+          if (cast.saveDc !== undefined && cast.saveAbility) {
+            // Paralyzed or stunned targets fail Strength and Dexterity saves outright
+            const saveEffects = getSavingThrowEffects(target, cast.saveAbility);
+            const roll = diceEngine.rollD20(saveEffects.advantage);
+            const modifier = target.saveModifier(cast.saveAbility);
+            const saved = !saveEffects.autoFail && roll + modifier >= cast.saveDc;
+            const damage = sharedDamage === undefined ? undefined
+              : saved ? (spell.dc?.success === 'half' ? Math.floor(sharedDamage / 2) : 0)
+              : sharedDamage;
+            return {
+              id: target.id,
+              name: target.name,
+              found: true as const,
+              save: { roll, total: roll + modifier, success: saved, autoFailed: saveEffects.autoFail },
+              damage,
+              line: `${target.name}: 🛡️ ${roll}${modifier >= 0 ? '+' : ''}${modifier} = ${roll + modifier} - ${saved ? 'SAVE!' : 'FAIL'}${damage !== undefined ? ` 💥 ${damage} ${cast.damage?.type}` : ''}${saveEffects.reasons.length ? ` (${saveEffects.reasons.join('; ')})` : ''}`,
+            };
+          }
+
+          return {
+            id: target.id,
+            name: target.name,
+            found: true as const,
+            damage: sharedDamage,
+            healing,
+            line: `${target.name}:${sharedDamage !== undefined ? ` 💥 ${sharedDamage} ${cast.damage?.type}` : ''}${healing !== undefined ? ` 💚 ${healing} HP` : ''}`,
+          };
+        });
+
+        const slotText = cast.slotLevel !== undefined
+          ? ` (level ${cast.slotLevel} slot, ${cast.changes.spellSlots?.[cast.slotLevel]?.current ?? 0} left)`
+          : cast.ritual ? ' (ritual)' : '';
+        const details = [
+          cast.attackBonus !== undefined ? `spell attack +${cast.attackBonus}` : null,
+          cast.saveDc !== undefined && cast.saveAbility ? `DC ${cast.saveDc} ${cast.saveAbility.charAt(0).toUpperCase() + cast.saveAbility.slice(1)} save` : null,
+          cast.concentration ? 'concentrating' : null,
+          cast.endedConcentration ? `ends concentration on ${cast.endedConcentration}` : null,
+        ].filter(Boolean);
+
+        return {
+          name,
+          success: true,
+          result: {
+            spell: spell.name,
+            spellLevel: cast.spellLevel,
+            slotLevel: cast.slotLevel,
+            ritual: cast.ritual,
+            attackBonus: cast.attackBonus,
+            saveDc: cast.saveDc,
+            saveAbility: cast.saveAbility,
+            damageType: cast.damage?.type,
+            damage: targets.length === 0 ? sharedDamage : undefined,
+            healing: targets.length === 0 ? healing : undefined,
+            concentration: Boolean(cast.concentration),
+            endedConcentration: cast.endedConcentration,
+            targets: targets.map(({ line: _line, ...target }) => target),
+          },
+          displayText: [
+            `✨ ${caster.name} casts ${spell.name}${slotText}${details.length ? ` - ${details.join(', ')}` : ''}`,
+            ...targets.map(t => `  ${t.line}`),
+            ...(targets.length === 0 && sharedDamage !== undefined ? [`  💥 ${sharedDamage} ${cast.damage?.type}`] : []),
+            ...(targets.length === 0 && healing !== undefined ? [`  💚 ${healing} HP`] : []),
+          ].join('\n'),
+        };
+      }
+
       case 'start_combat': {
+        if (context.combat?.active) {
+          return { name, success: false, result: null, displayText: 'Combat is already in progress' };
+        }
+
+        const rawEnemies = args.enemy_ids;
+        const enemyRefs = Array.isArray(rawEnemies)
+          ? rawEnemies.map(String)
+          : typeof rawEnemies === 'string' ? rawEnemies.split(',') : [];
+        const enemies = resolveEnemies(enemyRefs, context.monsters);
+
+        if (enemies.length === 0) {
+          return { name, success: false, result: null, displayText: 'No enemies specified for combat' };
+        }
+
+        // The character map holds each character under several keys
+        const party = Array.from(new Map(
+          Array.from(context.characters.values()).map((char) => [char.id, char])
+        ).values());
+
+        const surprised = args.surprised_ids;
+        const combat = combatEngine.startCombat({
+          playerCharacters: party,
+          enemies,
+          surprisedIds: Array.isArray(surprised) ? surprised.map(String) : undefined,
+          difficulty: ruleset.difficulty,
+          deathRules: ruleset.deathRules,
+        });
+        context.updateCombat(combat);
+
+        const initiativeOrder = combat.initiativeOrder.map((c) => ({
+          id: c.id,
+          name: c.name,
+          type: c.type,
+          initiative: c.initiative,
+          hp: c.currentHp,
+          maxHp: c.maxHp,
+          ac: c.armorClass,
+        }));
+
         return {
           name,
           success: true,
-          result: { message: 'Combat initialization requested' },
-          displayText: '⚔️ Combat begins! Roll for initiative!',
+          result: {
+            combatId: combat.id,
+            round: combat.round,
+            currentTurn: combat.initiativeOrder[combat.currentTurnIndex]?.name,
+            initiativeOrder,
+          },
+          displayText: `⚔️ Combat begins! Initiative: ${initiativeOrder.map(c => `${c.name} (${c.initiative})`).join(', ')}`,
         };
       }
 
@@ -326,7 +943,11 @@ export function executeFunction(call: FunctionCall, context: ExecutionContext):
         }
 
         const current = context.combat.initiativeOrder[context.combat.currentTurnIndex];
-        const alive = context.combat.initiativeOrder.filter(c => c.status === 'active');
+        const alive = context.combat.initiativeOrder.filter(c => c.status === 'active' && c.type !== 'lair');
+        const bosses = context.combat.initiativeOrder
+          .filter(c => c.status === 'active')
+          .map(describeMonsterAbilities)
+          .filter((line): line is string => line !== null);
         
         return {
           name,
@@ -341,9 +962,22 @@ export function executeFunction(call: FunctionCall, context: ExecutionContext):
               hp: c.currentHp,
               maxHp: c.maxHp,
               status: c.status,
+              ...(c.status === 'dying' || c.status === 'stable' ? { deathSaves: c.deathSaves } : {}),
+              ...(c.legendaryActions ? {
+                legendaryActions: {
+                  ...c.legendaryActions,
+                  options: c.monsterStatBlock?.legendaryActions?.map(a => ({ name: a.name, cost: getLegendaryActionCost(a) })),
+                },
+              } : {}),
+              ...(c.recharge ? { recharge: c.recharge } : {}),
+              ...(c.lair ? { lairActions: c.lair.actions.map(a => a.name), lastLairAction: c.lair.lastUsed } : {}),
             })),
+            isLairTurn: current?.type === 'lair',
           },
-          displayText: `📊 Combat Round ${context.combat.round} - ${current?.name}'s turn. ${alive.length} combatants active.`,
+          displayText: [
+            `📊 Combat Round ${context.combat.round} - ${current?.name}'s turn. ${alive.length} combatants active.`,
+            ...bosses.map(line => `  👑 ${line}`),
+          ].join('\n'),
         };
       }
 
@@ -352,16 +986,92 @@ export function executeFunction(call: FunctionCall, context: ExecutionContext):
           return { name, success: false, result: null, displayText: 'No active combat' };
         }
         
-        const updated = combatEngine.nextTurn(context.combat);
+        const { combat: updated, deathSaves, recharges } = combatEngine.advanceTurn(context.combat);
         context.updateCombat(updated);
+        deathSaves.forEach((save) => syncCharacterFromCombatant(context, findCombatant(updated, save.combatantId)));
         
         const current = updated.initiativeOrder[updated.currentTurnIndex];
         
+        // A new turn brings fresh movement on the map too
+        const token = context.map ? findMapEntity(context.map, current.sourceId ?? current.id) : undefined;
+        if (context.map && token && token.movementUsed > 0) {
+          token.movementUsed = 0;
+          context.updateMap(context.map);
+        }
+        
+        const lairText = current.lair
+          ? ` - choose a lair action: ${current.lair.actions.filter(a => a.name !== current.lair!.lastUsed).map(a => a.name).join(', ')}`
+          : '';
+        
         return {
           name,
           success: true,
-          result: { round: updated.round, currentTurn: current.name },
-          displayText: `⏭️ Round ${updated.round} - ${current.name}'s turn`,
+          result: { round: updated.round, currentTurn: current.name, deathSaves, recharges, isLairTurn: !!current.lair },
+          displayText: [
+            ...deathSaves.map(describeDeathSave),
+            ...recharges.map(r => `🔋 ${r.name} ${r.ability}: ${r.roll} - ${r.recharged ? 'RECHARGED' : 'not yet'}`),
+            `⏭️ Round ${updated.round} - ${current.name}'s turn${lairText}`,
+          ].join('\n'),
+        };
+      }
+
+      case 'use_monster_action': {
+        if (!context.combat) {
+          return { name, success: false, result: null, displayText: 'No active combat' };
+        }
+
+        const monsterId = args.monster_id as string;
+        const kind = (args.kind as MonsterActionKind) || 'action';
+        const monster = findCombatant(context.combat, monsterId);
+        if (!monster) {
+          return { name, success: false, result: null, displayText: `Monster ${monsterId} not found` };
+        }
+
+        const { combat, result } = combatEngine.useMonsterAction(context.combat, monster.id, args.action_name as string, kind);
+        if (!result.success || !result.action) {
+          return { name, success: false, result, displayText: `❌ ${result.reason}` };
+        }
+        context.updateCombat(combat);
+
+        const icon = kind === 'legendary' ? '👑' : kind === 'lair' ? '🏰' : '⚡';
+        const budgetText = result.legendaryActionsRemaining !== undefined
+          ? ` (${result.legendaryActionsRemaining} legendary action${result.legendaryActionsRemaining === 1 ? '' : 's'} left)`
+          : '';
+
+        return {
+          name,
+          success: true,
+          result,
+          displayText: `${icon} ${result.name} uses ${result.action.name}${budgetText}: ${result.action.desc}`,
+        };
+      }
+
+      case 'take_enemy_turn': {
+        if (!context.combat) {
+          return { name, success: false, result: null, displayText: 'No active combat' };
+        }
+
+        const ref = args.combatant_id as string | undefined;
+        const combatant = ref
+          ? findCombatant(context.combat, ref)
+          : context.combat.initiativeOrder[context.combat.currentTurnIndex];
+        if (!combatant) {
+          return { name, success: false, result: null, displayText: `Combatant ${ref} not found` };
+        }
+        if (!combatant.isMonster) {
+          return { name, success: false, result: null, displayText: `${combatant.name} isn't a monster - the player decides their turn` };
+        }
+
+        const plan = monsterTactics.planTurn(context.combat, combatant.id, {
+          map: context.map,
+          behavior: args.behavior as MonsterBehavior | undefined,
+        });
+
+        return {
+          name,
+          success: true,
+          result: plan,
+          displayText: describeTurnPlan(plan),
         };
       }
 
@@ -370,13 +1080,31 @@ export function executeFunction(call: FunctionCall, context: ExecutionContext):
         
         if (context.combat) {
           const { xpAwarded } = combatEngine.endCombat(context.combat, outcome as 'victory' | 'defeat' | 'fled' | 'negotiated');
+          
+          // Split the XP between the party
+          const xpShares = progressionEngine.splitCombatXp(context.combat, xpAwarded);
+          for (const [characterId, share] of Object.entries(xpShares)) {
+            const character = context.characters.get(characterId);
+            if (!character) continue;
+            context.updateCharacter(characterId, { experiencePoints: (character.experiencePoints ?? 0) + share });
+          }
           context.updateCombat(null);
+
+          // Heroic death rules: anyone still standing at the end pulls the fallen back up
+          const stabilized: string[] = [];
+          if (DEATH_RULE_EFFECTS[ruleset.deathRules].stabilizeAfterCombat && outcome !== 'defeat') {
+            new Set(context.characters.values()).forEach((char) => {
+              if (char.currentHp > 0 || char.deathSaveFailures >= DEATH_SAVES_TO_RESOLVE) return;
+              context.updateCharacter(char.id, { currentHp: 1, ...getDeathSavesAfterRecovery(char, ruleset.deathRules) });
+              stabilized.push(char.name);
+            });
+          }
           
           return {
             name,
             success: true,
-            result: { outcome, xpAwarded },
-            displayText: `🏁 Combat ended: ${outcome}${xpAwarded > 0 ? ` (+${xpAwarded} XP)` : ''}`,
+            result: { outcome, xpAwarded, xpShares, stabilized },
+            displayText: `🏁 Combat ended: ${outcome}${xpAwarded > 0 ? ` (+${xpAwarded} XP)` : ''}${stabilized.length > 0 ? ` | ❤️ ${stabilized.join(', ')} back on their feet with 1 HP` : ''}`,
           };
         }
         
@@ -407,7 +1135,7 @@ export function executeFunction(call: FunctionCall, context: ExecutionContext):
 
       case 'modify_inventory': {
         const characterId = args.character_id as string;
-        const action = args.action as 'add' | 'remove' | 'use' | 'equip';
+        const action = args.action as 'add' | 'remove' | 'use' | 'equip' | 'unequip' | 'attune' | 'unattune';
         const itemName = args.item_name as string;
         const quantity = (args.quantity as number) || 1;
         
@@ -426,47 +1154,104 @@ export function executeFunction(call: FunctionCall, context: ExecutionContext):
         const existingIndex = inventory.findIndex(i => i.name.toLowerCase() === itemName.toLowerCase());
         
         switch (action) {
-          case 'add':
+          case 'add': {
             if (existingIndex >= 0) {
-              inventory[existingIndex].quantity += quantity;
+              inventory[existingIndex] = { ...inventory[existingIndex], quantity: inventory[existingIndex].quantity + quantity };
             } else {
               inventory.push({ name: itemName, quantity });
             }
+
+            const encumbrance = ruleset.encumbrance ? getEncumbrance({ ...character, inventory }) : undefined;
+            if (encumbrance?.level === 'over_capacity') {
+              return {
+                name,
+                success: false,
+                result: { action, item: itemName, quantity, encumbrance },
+                displayText: `⚖️ ${character.name} can't carry ${quantity}x ${itemName} (${encumbrance.carriedWeight}/${encumbrance.capacity} lb)`,
+              };
+            }
+
             context.updateCharacter(character.id, { inventory });
             return {
               name,
               success: true,
-              result: { action, item: itemName, quantity },
-              displayText: `📦 ${character.name} gained ${quantity}x ${itemName}`,
+              result: { action, item: itemName, quantity, encumbrance },
+              displayText: `📦 ${character.name} gained ${quantity}x ${itemName}${encumbrance ? describeEncumbrance(encumbrance) : ''}`,
             };
+          }
             
           case 'remove':
-          case 'use':
+          case 'use': {
             if (existingIndex < 0) {
               return { name, success: false, result: null, displayText: `${character.name} doesn't have ${itemName}` };
             }
-            inventory[existingIndex].quantity -= quantity;
+            inventory[existingIndex] = { ...inventory[existingIndex], quantity: inventory[existingIndex].quantity - quantity };
+            let equippedItems = character.equippedItems;
             if (inventory[existingIndex].quantity <= 0) {
               inventory.splice(existingIndex, 1);
+              equippedItems = unequipItem(equippedItems, itemName);
             }
-            context.updateCharacter(character.id, { inventory });
+            context.updateCharacter(character.id, {
+              inventory,
+              ...(equippedItems !== character.equippedItems
+                ? { equippedItems, armorClass: getArmorClass({ ...character, inventory, equippedItems }).armorClass }
+                : {}),
+            });
+            const encumbrance = ruleset.encumbrance ? getEncumbrance({ ...character, inventory }) : undefined;
             return {
               name,
               success: true,
-              result: { action, item: itemName, quantity },
-              displayText: `📦 ${character.name} ${action === 'use' ? 'used' : 'removed'} ${quantity}x ${itemName}`,
+              result: { action, item: itemName, quantity, encumbrance },
+              displayText: `📦 ${character.name} ${action === 'use' ? 'used' : 'removed'} ${quantity}x ${itemName}${encumbrance ? describeEncumbrance(encumbrance) : ''}`,
             };
+          }
             
-          case 'equip':
-            const equippedItems = { ...character.equippedItems };
-            equippedItems.mainHand = itemName;
-            context.updateCharacter(character.id, { equippedItems });
+          case 'equip': {
+            const equipped = equipItem(character, itemName, args.slot as string | undefined);
+            if (!equipped.allowed) {
+              return { name, success: false, result: { action, item: itemName }, displayText: `⚔️ ${equipped.reason}` };
+            }
+            const { equippedItems, slot, unequipped } = equipped;
+            const ac = getArmorClass({ ...character, equippedItems });
+            const attacks = getCharacterAttacks({ ...character, equippedItems });
+            context.updateCharacter(character.id, { equippedItems, armorClass: ac.armorClass });
             return {
               name,
               success: true,
-              result: { action, item: itemName },
-              displayText: `⚔️ ${character.name} equipped ${itemName}`,
+              result: { action, item: itemName, slot, unequipped, armorClass: ac.armorClass, attacks },
+              displayText: `⚔️ ${character.name} equipped ${itemName} (${slot})${unequipped.length ? `, putting away ${unequipped.join(', ')}` : ''} | AC ${ac.armorClass}${ac.armorClass !== character.armorClass ? ` (was ${character.armorClass})` : ''}${ac.notes.length ? ` | ${ac.notes.join('; ')}` : ''}`,
             };
+          }
+
+          case 'unequip': {
+            const equippedItems = unequipItem(character.equippedItems, (args.slot as string | undefined) ?? itemName);
+            const { armorClass } = getArmorClass({ ...character, equippedItems });
+            context.updateCharacter(character.id, { equippedItems, armorClass });
+            return {
+              name,
+              success: true,
+              result: { action, item: itemName, armorClass },
+              displayText: `⚔️ ${character.name} unequipped ${itemName} | AC ${armorClass}`,
+            };
+          }
+
+          case 'attune':
+          case 'unattune': {
+            const attuned = action === 'attune'
+              ? attuneItem(character, itemName)
+              : { allowed: true as const, inventory: endAttunement(character.inventory, itemName) };
+            if (!attuned.allowed) {
+              return { name, success: false, result: { action, item: itemName }, displayText: `✨ ${attuned.reason}` };
+            }
+            const { armorClass } = getArmorClass({ ...character, inventory: attuned.inventory });
+            context.updateCharacter(character.id, { inventory: attuned.inventory, armorClass });
+            return {
+              name,
+              success: true,
+              result: { action, item: itemName, armorClass },
+              displayText: `✨ ${character.name} ${action === 'attune' ? 'attunes to' : 'ends attunement to'} ${itemName} | AC ${armorClass}`,
+            };
+          }
             
           default:
             return { name, success: false, result: null, displayText: `Unknown inventory action: ${action}` };
@@ -557,12 +1342,24 @@ export function executeFunction(call: FunctionCall, context: ExecutionContext):
       case 'advance_time': {
         const hours = (args.hours as number) || 0;
         const minutes = (args.minutes as number) || 0;
-        
+        const displayText = `⏰ Time advanced by ${hours > 0 ? `${hours} hour(s)` : ''}${hours > 0 && minutes > 0 ? ' and ' : ''}${minutes > 0 ? `${minutes} minute(s)` : ''}`;
+
+        if (!context.gameTime) {
+          return { name, success: true, result: { hoursAdvanced: hours, minutesAdvanced: minutes }, displayText };
+        }
+
+        // Days passing are what set the living world in motion
+        const time = advanceGameTime(context.gameTime, hours * 60 + minutes);
+        const daysPassed = time.day - context.gameTime.day;
+        context.gameTime = time;
+        context.updateGameTime?.(time);
+
+        const clock = `${String(time.hour).padStart(2, '0')}:${String(time.minute).padStart(2, '0')}`;
         return {
           name,
           success: true,
-          result: { hoursAdvanced: hours, minutesAdvanced: minutes },
-          displayText: `⏰ Time advanced by ${hours > 0 ? `${hours} hour(s)` : ''}${hours > 0 && minutes > 0 ? ' and ' : ''}${minutes > 0 ? `${minutes} minute(s)` : ''}`,
+          result: { hoursAdvanced: hours, minutesAdvanced: minutes, ...time, daysPassed },
+          displayText: `${displayText} - now day ${time.day}, ${clock}`,
         };
       }
 
@@ -630,11 +1427,12 @@ export function executeFunction(call: FunctionCall, context: ExecutionContext):
           context.updateCharacter(character.id, { classResources: restoredResources });
         }
         
+        const restMinutes = REST_RULE_EFFECTS[ruleset.restRules].shortRestMinutes;
         return {
           name,
           success: true,
-          result: { healed: totalHealing, hitDiceSpent: diceSpent },
-          displayText: `😴 ${character.name} takes a short rest${diceSpent > 0 ? `, spending ${diceSpent} hit di${diceSpent === 1 ? 'e' : 'ce'} to recover ${totalHealing} HP` : ''}`,
+          result: { healed: totalHealing, hitDiceSpent: diceSpent, restMinutes },
+          displayText: `😴 ${character.name} takes a short rest (${formatRestDuration(restMinutes)})${diceSpent > 0 ? `, spending ${diceSpent} hit di${diceSpent === 1 ? 'e' : 'ce'} to recover ${totalHealing} HP` : ''}`,
         };
       }
 
@@ -652,9 +1450,20 @@ export function executeFunction(call: FunctionCall, context: ExecutionContext):
           return { name, success: false, result: null, displayText: `Character ${characterId} not found` };
         }
         
-        const hpRecovered = character.maxHp - character.currentHp;
-        const hitDiceRecovered = Math.max(1, Math.floor(character.level / 2));
-        const newHitDice = Math.min(character.level, character.hitDiceRemaining + hitDiceRecovered);
+        // A long rest removes one level of exhaustion; deeper exhaustion still halves max HP
+        const conditions = adjustExhaustion(character.conditions.filter(c => c.durationType !== 'until_long_rest'), -1);
+        const exhaustion = getExhaustionLevel(conditions);
+        const maxHp = getEffectiveMaxHp(character.maxHp, conditions);
+        
+        // Gritty realism leaves HP to be recovered with hit dice; epic heroism returns every hit die
+        const restRules = REST_RULE_EFFECTS[ruleset.restRules];
+        const newHp = restRules.longRestRestoresHp ? maxHp : Math.min(character.currentHp, maxHp);
+        const hpRecovered = newHp - character.currentHp;
+        const newHitDice = Math.min(
+          character.level,
+          character.hitDiceRemaining + Math.max(1, Math.floor(character.level * restRules.longRestHitDiceFraction))
+        );
+        const hitDiceRecovered = newHitDice - character.hitDiceRemaining;
         
         const restoredSlots: Record<number, { current: number; max: number }> = {};
         Object.entries(character.spellSlots).forEach(([level, slot]) => {
@@ -664,11 +1473,13 @@ export function executeFunction(call: FunctionCall, context: ExecutionContext):
         const restoredResources = character.classResources.map(r => ({ ...r, current: r.max }));
         
         context.updateCharacter(character.id, { 
-          currentHp: character.maxHp,
+          currentHp: newHp,
           hitDiceRemaining: newHitDice,
           spellSlots: restoredSlots,
           classResources: restoredResources,
-          conditions: character.conditions.filter(c => c.durationType !== 'until_long_rest')
+          conditions,
+          deathSaveSuccesses: 0,
+          deathSaveFailures: 0,
         });
         
         return {
@@ -677,43 +1488,92 @@ export function executeFunction(call: FunctionCall, context: ExecutionContext):
           result: { 
             hpRecovered, 
             hitDiceRecovered,
-            fullHeal: true
+            fullHeal: restRules.longRestRestoresHp,
+            restMinutes: restRules.longRestMinutes,
+            exhaustion,
           },
-          displayText: `🌙 ${character.name} completes a long rest! Fully healed, recovered ${hitDiceRecovered} hit di${hitDiceRecovered === 1 ? 'e' : 'ce'}, and all spell slots restored.`,
+          displayText: `🌙 ${character.name} completes a long rest (${formatRestDuration(restRules.longRestMinutes)})! ${restRules.longRestRestoresHp ? 'Fully healed' : 'HP unchanged'}, recovered ${hitDiceRecovered} hit di${hitDiceRecovered === 1 ? 'e' : 'ce'}, and all spell slots restored.${getExhaustionLevel(character.conditions) > exhaustion ? ` Exhaustion ${exhaustion > 0 ? `down to level ${exhaustion}` : 'gone'}.` : ''}`,
         };
       }
 
       case 'lookup_monster': {
         const monsterName = args.monster_name as string;
-        
-        // This would typically fetch from the D&D API or cache
+        const key = normalizeMonsterName(monsterName || '');
+        const monster = compendium.getMonster(key) ?? context.monsters?.get(key);
+
+        if (!monster) {
+          const suggestions = compendium.search({ query: monsterName, kinds: ['monster'], limit: 3 }).map(r => r.name);
+          return {
+            name,
+            success: false,
+            result: { monster: monsterName, suggestions },
+            displayText: `📖 No stat block found for "${monsterName}"${suggestions.length ? `. Did you mean: ${suggestions.join(', ')}?` : ''}`,
+          };
+        }
+
+        const summary = summarizeMonster(monster);
         return {
           name,
           success: true,
-          result: { monster: monsterName, note: 'Use /api/rules/monster/[name] for full stats' },
-          displayText: `📖 Monster lookup: ${monsterName}`,
+          result: {
+            monster: monster.name,
+            armorClass: monster.armorClass,
+            hitPoints: monster.hitPoints,
+            challengeRating: monster.challengeRating,
+            summary,
+          },
+          displayText: `📖 ${summary}`,
         };
       }
 
       case 'lookup_spell': {
         const spellName = args.spell_name as string;
-        
+        const key = toRulesKey(spellName || '');
+        const spell = compendium.getSpell(key) ?? context.spells?.get(key);
+
+        if (!spell) {
+          const suggestions = compendium.search({ query: spellName, kinds: ['spell'], limit: 3 }).map(r => r.name);
+          return {
+            name,
+            success: false,
+            result: { spell: spellName, suggestions },
+            displayText: `📖 No spell found for "${spellName}"${suggestions.length ? `. Did you mean: ${suggestions.join(', ')}?` : ''}`,
+          };
+        }
+
+        const summary = summarizeSpell(spell);
         return {
           name,
           success: true,
-          result: { spell: spellName, note: 'Use /api/rules/spell/[name] for full details' },
-          displayText: `📖 Spell lookup: ${spellName}`,
+          result: {
+            spell: spell.name,
+            level: spell.level,
+            concentration: spell.concentration,
+            summary,
+          },
+          displayText: `📖 ${summary}`,
         };
       }
 
       case 'lookup_condition': {
         const conditionName = args.condition_name as string;
-        
+        const condition = compendium.getCondition(conditionName || '');
+
+        if (!condition) {
+          return {
+            name,
+            success: false,
+            result: { condition: conditionName },
+            displayText: `📖 Unknown condition "${conditionName}"`,
+          };
+        }
+
+        const summary = summarizeCondition(condition);
         return {
           name,
           success: true,
-          result: { condition: conditionName, note: 'Use /api/rules/condition/[name] for effects' },
-          displayText: `📖 Condition lookup: ${conditionName}`,
+          result: { condition: condition.name, summary },
+          displayText: `📖 ${summary}`,
         };
       }
 
@@ -782,6 +1642,31 @@ export function executeFunction(call: FunctionCall, context: ExecutionContext):
         };
       }
 
+      case 'record_party_knowledge': {
+        const entityName = args.entity_name as string;
+
+        if (!context.campaignId) {
+          return { name, success: false, result: null, displayText: 'No campaign context for party knowledge' };
+        }
+
+        return {
+          name,
+          success: true,
+          result: {
+            entityType: args.entity_type as string,
+            entityName,
+            content: args.content as string,
+            kind: (args.kind as string) || 'fact',
+            field: (args.field as string) || null,
+            isTrue: args.is_true !== false,
+            source: (args.source as string) || null,
+            campaignId: context.campaignId,
+            async: true,
+          },
+          displayText: `📜 The party learns about ${entityName}`,
+        };
+      }
+
       // ==================== SPATIAL FUNCTIONS ====================
       
       case 'get_position': {
@@ -800,20 +1685,79 @@ export function executeFunction(call: FunctionCall, context: ExecutionContext):
 
       case 'move_entity': {
         const entityId = args.entity_id as string;
-        const targetX = args.target_x as number;
-        const targetY = args.target_y as number;
-        const entity = context.characters.get(entityId);
+        const target = { x: args.target_x as number, y: args.target_y as number };
+        
+        const map = context.map;
+        if (!map) {
+          return { name, success: false, result: null, displayText: 'No active map' };
+        }
+        
+        const entity = findMapEntity(map, entityId);
+        if (!entity) {
+          return { name, success: false, result: null, displayText: `${entityId} is not on the map` };
+        }
+        
+        // Conditions and exhaustion cut speed; dashing adds another move's worth
+        const dash = args.dash === true;
+        const mover = context.combat ? findCombatant(context.combat, entity.sourceId ?? entity.name) : undefined;
+        const character = context.characters.get(entity.sourceId ?? entity.id);
+        const conditions = mover ? getEffectiveConditions(mover) : character?.conditions ?? [];
+        const speed = getEffectiveSpeed(entity.speed, conditions);
+        const budget = context.combat && mover
+          ? combatEngine.getCombatant(dash ? combatEngine.dash(context.combat, mover.id) : context.combat, mover.id)!.turnResources.movementRemaining
+          : speed * (dash ? 2 : 1) - entity.movementUsed;
+        
+        if (speed === 0) {
+          const reasons = conditions
+            .filter(c => getEffectiveSpeed(entity.speed, [c]) === 0)
+            .map(c => (c.condition === 'exhaustion' ? `exhaustion ${c.level ?? 1}` : c.condition));
+          return {
+            name,
+            success: false,
+            result: { entityId, targetPosition: target, speed },
+            displayText: `🚶 ${entity.name} can't move (${reasons.join(', ')})`,
+          };
+        }
+        
+        const path = SpatialEngine.findPath(entity.position, target, map, entity, budget);
+        if (path.length === 0) {
+          return {
+            name,
+            success: false,
+            result: { entityId, targetPosition: target },
+            displayText: `🚶 ${entity.name} can't reach (${target.x}, ${target.y}) this turn`,
+          };
+        }
+        
+        // In combat, leaving a hostile creature's reach provokes opportunity attacks (unless disengaging)
+        let movement: MovementResult;
+        let offers: OpportunityAttackOffer[] = [];
+        if (context.combat) {
+          const moved = combatEngine.moveOnMap(context.combat, map, entity, path.slice(1), { disengage: args.disengage === true, dash });
+          movement = moved.movement;
+          offers = moved.offers;
+          context.updateCombat(moved.combat);
+        } else {
+          movement = SpatialEngine.executeMovement({ entityId: entity.id, path: path.slice(1), allowOpportunityAttacks: false, maxMovement: budget }, map);
+          entity.position = movement.finalPosition;
+          entity.movementUsed += movement.movementUsed;
+        }
+        context.updateMap(map);
+        
+        const { x, y } = movement.finalPosition;
+        const warnings = [
+          ...offers.map(o => `⚔️ ${o.attackerName} gets an opportunity attack${o.weapon ? ` (${o.weapon})` : ''} - reaction spent`),
+          ...movement.triggeredTraps.map(trap => `🪤 triggers ${trap}`),
+        ];
         
-        // Movement would be validated by SpatialEngine
         return {
           name,
-          success: true,
-          result: { 
-            entityId, 
-            targetPosition: { x: targetX, y: targetY },
-            note: 'Movement validated by spatial engine'
-          },
-          displayText: `🚶 ${entity?.name || entityId} moves to (${targetX}, ${targetY})`,
+          success: movement.success,
+          result: { entityId, targetPosition: target, ...movement, opportunityAttackOffers: offers },
+          displayText: [
+            `🚶 ${entity.name} moves to (${x}, ${y}) - ${movement.movementUsed}ft${movement.success ? '' : ` (stopped: ${movement.reason})`}`,
+            ...warnings.map(w => `  ${w}`),
+          ].join('\n'),
         };
       }
 
@@ -835,15 +1779,30 @@ export function executeFunction(call: FunctionCall, context: ExecutionContext):
       case 'check_line_of_sight': {
         const fromId = args.from_id as string;
         const toId = args.to_id as string;
-        const fromEntity = context.characters.get(fromId);
-        const toEntity = context.characters.get(toId);
         
-        // LoS calculated by SpatialEngine
+        if (!context.map) {
+          return { name, success: false, result: null, displayText: 'No active map - describe sight lines narratively' };
+        }
+        
+        const targeting = analyzeTargeting(context, fromId, toId);
+        if (!targeting) {
+          return { name, success: false, result: null, displayText: `${fromId} or ${toId} is not on the map` };
+        }
+        
+        const fromName = findMapEntity(context.map, fromId)?.name ?? fromId;
+        const toName = findMapEntity(context.map, toId)?.name ?? toId;
+        const sight = !targeting.hasLoS
+          ? `no line of sight (${targeting.coveredBy ?? 'blocked'})`
+          : targeting.attackerCanSee ? 'can see' : `can't see (${targeting.targetLight})`;
+        
         return {
           name,
           success: true,
-          result: { fromId, toId, hasLoS: null, cover: null, note: 'LoS from spatial engine' },
-          displayText: `👁️ Checking line of sight from ${fromEntity?.name || fromId} to ${toEntity?.name || toId}`,
+          result: targeting,
+          displayText: [
+            `👁️ ${fromName} → ${toName}: ${sight}, ${targeting.distance} ft, ${targeting.targetLight} light`,
+            ...targeting.notes.map(note => `   ${note}`),
+          ].join('\n'),
         };
       }
 
@@ -862,45 +1821,116 @@ export function executeFunction(call: FunctionCall, context: ExecutionContext):
       }
 
       case 'create_area_effect': {
-        const shape = args.shape as string;
+        const shape = args.shape as AreaOfEffect['shape'];
         const originX = args.origin_x as number;
         const originY = args.origin_y as number;
         const size = args.size_feet as number;
-        const direction = args.direction as string | undefined;
+        const direction = args.direction as Direction | undefined;
         const label = args.label as string | undefined;
+        const durationRounds = args.duration_rounds as number | undefined;
+        
+        const map = context.map;
+        if (!map) {
+          return { name, success: false, result: null, displayText: 'No active map' };
+        }
+        if (!AREA_SHAPES.includes(shape)) {
+          return { name, success: false, result: null, displayText: `Unknown area shape: ${shape}` };
+        }
+        if ((shape === 'cone' || shape === 'line') && !(direction && direction in DIRECTION_VECTORS)) {
+          return { name, success: false, result: null, displayText: `A ${shape} needs a direction (north, southeast, ...)` };
+        }
+        
+        const origin = { x: originX, y: originY };
+        if (!SpatialEngine.isInBounds(origin, map)) {
+          return { name, success: false, result: null, displayText: `(${originX}, ${originY}) is off the map` };
+        }
+        
+        const { effect, positions, entities } = SpatialEngine.placeAreaEffect(map, {
+          shape,
+          origin,
+          direction,
+          size,
+          label,
+          expiresOnRound: context.combat && durationRounds ? context.combat.round + durationRounds : undefined,
+        });
+        context.updateMap(map);
+        
+        const caught = entities.map(e => ({ id: e.sourceId ?? e.id, name: e.name, entityType: e.entityType, position: e.position }));
         
         return {
           name,
           success: true,
-          result: { shape, origin: { x: originX, y: originY }, size, direction, label },
-          displayText: `✨ Creating ${size}ft ${shape} effect${label ? ` (${label})` : ''} at (${originX}, ${originY})`,
+          result: { effect, affectedSquares: positions.length, entities: caught },
+          displayText: `✨ ${size}ft ${shape}${label ? ` (${label})` : ''} at (${originX}, ${originY}) - ${caught.length > 0 ? `caught: ${caught.map(e => e.name).join(', ')}` : 'no creatures caught'}`,
         };
       }
 
       case 'get_path': {
         const entityId = args.entity_id as string;
-        const targetX = args.target_x as number;
-        const targetY = args.target_y as number;
-        const entity = context.characters.get(entityId);
+        const target = { x: args.target_x as number, y: args.target_y as number };
+        
+        const map = context.map;
+        if (!map) {
+          return { name, success: false, result: null, displayText: 'No active map' };
+        }
+        
+        const entity = findMapEntity(map, entityId);
+        if (!entity) {
+          return { name, success: false, result: null, displayText: `${entityId} is not on the map` };
+        }
+        if (!SpatialEngine.isInBounds(target, map)) {
+          return { name, success: false, result: null, displayText: `(${target.x}, ${target.y}) is off the map` };
+        }
+        
+        const path = SpatialEngine.findPath(entity.position, target, map, entity);
+        if (path.length === 0) {
+          return {
+            name,
+            success: false,
+            result: { entityId, target, path: [] },
+            displayText: `🗺️ No path for ${entity.name} to (${target.x}, ${target.y})`,
+          };
+        }
+        
+        const movementCost = SpatialEngine.calculatePathCost(path, map);
+        const movementRemaining = entity.speed - entity.movementUsed;
+        const canReachThisTurn = movementCost <= movementRemaining;
         
         return {
           name,
           success: true,
-          result: { entityId, target: { x: targetX, y: targetY }, path: [], movementCost: 0 },
-          displayText: `🗺️ Finding path for ${entity?.name || entityId} to (${targetX}, ${targetY})`,
+          result: { entityId, target, path, movementCost, movementRemaining, canReachThisTurn },
+          displayText: `🗺️ ${entity.name} → (${target.x}, ${target.y}): ${path.length - 1} squares, ${movementCost}ft of movement (${movementRemaining}ft left${canReachThisTurn ? '' : ' - too far this turn'})`,
         };
       }
 
       case 'reveal_area': {
-        const centerX = args.center_x as number;
-        const centerY = args.center_y as number;
+        const center = { x: args.center_x as number, y: args.center_y as number };
         const radius = args.radius_feet as number;
         
+        const map = context.map;
+        if (!map) {
+          return { name, success: false, result: null, displayText: 'No active map' };
+        }
+        if (!SpatialEngine.isInBounds(center, map)) {
+          return { name, success: false, result: null, displayText: `(${center.x}, ${center.y}) is off the map` };
+        }
+        
+        const radiusSquares = Math.ceil(radius / FEET_PER_SQUARE);
+        const tilesRevealed = SpatialEngine.revealArea(map, center, radiusSquares);
+        context.updateMap(map);
+        
+        // Creatures now in view inside the revealed area
+        const inView = map.entities
+          .filter(e => e.isVisible && SpatialEngine.euclideanDistance(center, e.position) <= radiusSquares)
+          .filter(e => SpatialEngine.getTile(e.position, map)?.isVisible)
+          .map(e => ({ id: e.sourceId ?? e.id, name: e.name, entityType: e.entityType, position: e.position }));
+        
         return {
           name,
           success: true,
-          result: { center: { x: centerX, y: centerY }, radius },
-          displayText: `💡 Revealing ${radius}ft radius area around (${centerX}, ${centerY})`,
+          result: { center, radius, tilesRevealed, entitiesInView: inView },
+          displayText: `💡 Revealed ${tilesRevealed} new squares within ${radius}ft of (${center.x}, ${center.y})${inView.length > 0 ? ` - in view: ${inView.map(e => e.name).join(', ')}` : ''}`,
         };
       }
 
@@ -922,75 +1952,6 @@ export function executeFunction(call: FunctionCall, context: ExecutionContext):
   }
 }
 
-export function parseFunctionCalls(text: string): FunctionCall[] {
-  const calls: FunctionCall[] = [];
-  
-  const functionPattern = /(\w+)\s*\(\s*([^)]*)\s*\)/g;
-  const knownFunctions = [
-    'roll_dice', 'roll_attack', 'roll_damage', 'roll_ability_check', 'roll_saving_throw',
-    'apply_damage', 'apply_healing', 'add_condition', 'remove_condition',
-    'start_combat', 'next_turn', 'end_combat', 'get_combat_status',
-    'get_character', 'modify_inventory', 'use_resource',
-    'set_flag', 'check_flag', 'advance_time', 'set_location',
-    'short_rest', 'long_rest',
-    'lookup_monster', 'lookup_spell', 'lookup_condition',
-    'get_position', 'move_entity', 'get_distance', 'check_line_of_sight',
-    'get_entities_in_range', 'create_area_effect', 'get_path', 'reveal_area',
-    'recall_lore', 'introduce_npc', 'discover_location', 'reveal_secret',
-  ];
-  
-  let match;
-  while ((match = functionPattern.exec(text)) !== null) {
-    const [, funcName, argsStr] = match;
-    
-    if (knownFunctions.includes(funcName)) {
-      const args: Record<string, unknown> = {};
-      
-      const argPattern = /(\w+)\s*=\s*(?:"([^"]*)"|'([^']*)'|(\d+(?:\.\d+)?)|(\w+))/g;
-      let argMatch;
-      while ((argMatch = argPattern.exec(argsStr)) !== null) {
-        const [, key, strVal1, strVal2, numVal, boolOrId] = argMatch;
-        if (strVal1 !== undefined) args[key] = strVal1;
-        else if (strVal2 !== undefined) args[key] = strVal2;
-        else if (numVal !== undefined) args[key] = parseFloat(numVal);
-        else if (boolOrId === 'true') args[key] = true;
-        else if (boolOrId === 'false') args[key] = false;
-        else if (boolOrId !== undefined) args[key] = boolOrId;
-      }
-      
-      calls.push({ name: funcName, arguments: args });
-    }
-  }
-  
-  return calls;
-}
-
-export function stripFunctionCalls(text: string): string {
-  const knownFunctions = [
-    'roll_dice', 'roll_attack', 'roll_damage', 'roll_ability_check', 'roll_saving_throw',
-    'apply_damage', 'apply_healing', 'add_condition', 'remove_condition',
-    'start_combat', 'next_turn', 'end_combat', 'get_combat_status',
-    'get_character', 'modify_inventory', 'use_resource',
-    'set_flag', 'check_flag', 'advance_time', 'set_location',
-    'short_rest', 'long_rest',
-    'lookup_monster', 'lookup_spell', 'lookup_condition',
-    'get_position', 'move_entity', 'get_distance', 'check_line_of_sight',
-    'get_entities_in_range', 'create_area_effect', 'get_path', 'reveal_area',
-    'recall_lore', 'introduce_npc', 'discover_location', 'reveal_secret',
-  ];
-  
-  let cleaned = text;
-  for (const func of knownFunctions) {
-    const pattern = new RegExp(`${func}\\s*\\([^)]*\\)\\s*`, 'g');
-    cleaned = cleaned.replace(pattern, '');
-  }
-  
-  cleaned = cleaned.replace(/\n{3,}/g, '\n\n').trim();
-  
-  return cleaned;
-}
-
-
 /**
  * Execute async lore functions that require database queries.
  * Call this after executeFunction for any lore function results that have async: true.
@@ -1040,6 +2001,26 @@ export async function executeLoreFunction(
       };
     }
 
+    case 'record_party_knowledge': {
+      const entityName = result.entityName as string;
+      const recorded = await partyKnowledgeService.recordByName(campaignId, entityName, {
+        entityType: result.entityType as KnowledgeEntityType,
+        content: result.content as string,
+        kind: result.kind as KnowledgeKind,
+        field: result.field as string | null,
+        isTrue: result.isTrue as boolean,
+        source: result.source as string | null,
+      });
+      if (!recorded) {
+        return { success: false, data: `No ${result.entityType} named "${entityName}" in world lore.` };
+      }
+      const { entry } = recorded;
+      return {
+        success: true,
+        data: `Recorded ${entry.kind.replace('_', ' ')} about ${recorded.entityName}${entry.isTrue ? '' : ' (false)'}: ${entry.content}`,
+      };
+    }
+
     default:
       return { success: false, data: `Unknown lore function: ${functionName}` };
   }
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { allFunctions, validateFunctionArguments } from './function-registry';
+
+describe('function registry', () => {
+  it('should declare every function the executor handles', () => {
+    const executor = readFileSync(join(__dirname, 'function-executor.ts'), 'utf8');
+    const handled = Array.from(executor.matchAll(/^\s{6}case '(\w+)':/gm), m => m[1]);
+
+    expect(allFunctions.map(f => f.name).sort()).toEqual(Array.from(new Set(handled)).sort());
+  });
+
+  describe('validateFunctionArguments', () => {
+    it('should accept well-formed arguments unchanged', () => {
+      const validation = validateFunctionArguments({
+        name: 'roll_ability_check',
+        arguments: { character_id: 'Thorin', ability: 'strength', skill: 'athletics', dc: 15 },
+      });
+
+      expect(validation).toEqual({
+        valid: true,
+        errors: [],
+        arguments: { character_id: 'Thorin', ability: 'strength', skill: 'athletics', dc: 15 },
+      });
+    });
+
+    it('should coerce loosely typed values', () => {
+      const validation = validateFunctionArguments({
+        name: 'roll_ability_check',
+        arguments: { character_id: 'Thorin', ability: 'Dexterity', skill: 'Sleight of Hand', dc: '12', advantage_status: 'ADVANTAGE' },
+      });
+
+      expect(validation.valid).toBe(true);
+      expect(validation.arguments).toEqual({
+        character_id: 'Thorin',
+        ability: 'dexterity',
+        skill: 'sleight_of_hand',
+        dc: 12,
+        advantage_status: 'advantage',
+      });
+    });
+
+    it('should wrap a single value for array parameters', () => {
+      const validation = validateFunctionArguments({ name: 'start_combat', arguments: { enemy_ids: 'goblin' } });
+
+      expect(validation.valid).toBe(true);
+      expect(validation.arguments.enemy_ids).toEqual(['goblin']);
+    });
+
+    it('should report missing, unknown and mistyped arguments', () => {
+      const validation = validateFunctionArguments({
+        name: 'roll_ability_check',
+        arguments: { character_id: 'Thorin', ability: 'luck', dc: 'hard', mood: 'grim' },
+      });
+
+      expect(validation.valid).toBe(false);
+      expect(validation.errors).toEqual([
+        '"ability" must be one of strength, dexterity, constitution, intelligence, wisdom, charisma',
+        '"dc" must be a number',
+        'Unknown argument "mood"',
+      ]);
+    });
+
+    it('should reject unknown functions', () => {
+      expect(validateFunctionArguments({ name: 'summon_dragon', arguments: {} }).errors)
+        .toEqual(['Unknown function: summon_dragon']);
+    });
+
+    it('should require declared arguments', () => {
+      expect(validateFunctionArguments({ name: 'roll_dice', arguments: {} }).errors)
+        .toEqual(['Missing required argument "notation"']);
+    });
+  });
+});
@@ -1,5 +1,7 @@
 // Function Registry - Defines all available AI functions for Gemini/OpenRouter
 
+import type { FunctionCall } from './function-calls';
+
 export interface FunctionDeclaration {
   name: string;
   description: string;
@@ -18,13 +20,13 @@ export interface FunctionDeclaration {
 // Dice Rolling Functions
 export const rollDiceFunction: FunctionDeclaration = {
   name: 'roll_dice',
-  description: 'Roll dice using standard notation (e.g., 2d6+3). Use for any roll not covered by specific functions.',
+  description: 'Roll a dice expression (e.g., 2d6+3, 4d6kh3, 1d8+1d6+3). Use for any roll not covered by specific functions.',
   parameters: {
     type: 'object',
     properties: {
       notation: {
         type: 'string',
-        description: 'Dice notation like "1d20", "2d6+3", "4d6"',
+        description: 'Dice expression: "1d20", "2d6+3", "4d6kh3" (keep highest 3), "2d20kl1" (keep lowest), "2d6r<3" (reroll below 3 once), "1d6rr1" (reroll 1s until not 1), "3d6!" (exploding), "1d%", "4dF"',
       },
       reason: {
         type: 'string',
@@ -37,7 +39,7 @@ export const rollDiceFunction: FunctionDeclaration = {
 
 export const rollAttackFunction: FunctionDeclaration = {
   name: 'roll_attack',
-  description: 'MANDATORY: Roll an attack. Must be called before narrating any attack hit or miss.',
+  description: 'MANDATORY: Roll an attack. Must be called before narrating any attack hit or miss. Conditions on either creature (poisoned, prone, paralyzed...) and, on the map, cover and darkness adjust the roll automatically; the result notes why.',
   parameters: {
     type: 'object',
     properties: {
@@ -58,6 +60,10 @@ export const rollAttackFunction: FunctionDeclaration = {
         description: 'Whether attack has advantage, disadvantage, or normal',
         enum: ['normal', 'advantage', 'disadvantage'],
       },
+      ranged: {
+        type: 'boolean',
+        description: 'A ranged attack (bow, crossbow, thrown weapon); prone targets are harder to hit from range',
+      },
     },
     required: ['attacker_id', 'target_id', 'weapon'],
   },
@@ -81,6 +87,19 @@ export const rollDamageFunction: FunctionDeclaration = {
         type: 'boolean',
         description: 'Whether this is a critical hit (doubles dice)',
       },
+      damage_dice: {
+        type: 'string',
+        description: 'Damage dice for the weapon or spell, as any dice expression: "1d8", "8d6", "2d6rr1" (Great Weapon Fighting) or "1d8+1d6". Put flat bonuses in damage_modifier',
+      },
+      damage_modifier: {
+        type: 'number',
+        description: 'Flat bonus added to the damage roll',
+      },
+      damage_type: {
+        type: 'string',
+        description: 'Type of damage',
+        enum: ['slashing', 'piercing', 'bludgeoning', 'fire', 'cold', 'lightning', 'thunder', 'acid', 'poison', 'necrotic', 'radiant', 'force', 'psychic'],
+      },
     },
     required: ['attacker_id', 'weapon'],
   },
@@ -88,7 +107,7 @@ export const rollDamageFunction: FunctionDeclaration = {
 
 export const rollAbilityCheckFunction: FunctionDeclaration = {
   name: 'roll_ability_check',
-  description: 'MANDATORY: Roll an ability check or skill check. Call before declaring success/failure.',
+  description: 'MANDATORY: Roll an ability check or skill check. Call before declaring success/failure. Conditions and exhaustion apply automatically.',
   parameters: {
     type: 'object',
     properties: {
@@ -115,6 +134,11 @@ export const rollAbilityCheckFunction: FunctionDeclaration = {
         description: 'Advantage status for the roll',
         enum: ['normal', 'advantage', 'disadvantage'],
       },
+      relies_on: {
+        type: 'string',
+        description: 'Sense the check depends on; blinded characters fail sight checks and deafened ones hearing checks',
+        enum: ['sight', 'hearing'],
+      },
     },
     required: ['character_id', 'ability', 'dc'],
   },
@@ -173,6 +197,10 @@ export const applyDamageFunction: FunctionDeclaration = {
         type: 'string',
         description: 'What caused the damage',
       },
+      is_critical: {
+        type: 'boolean',
+        description: 'Damage came from a critical hit - a character at 0 HP suffers two death save failures',
+      },
     },
     required: ['target_id', 'amount', 'damage_type'],
   },
@@ -201,6 +229,30 @@ export const applyHealingFunction: FunctionDeclaration = {
   },
 };
 
+export const stabilizeCharacterFunction: FunctionDeclaration = {
+  name: 'stabilize_character',
+  description: 'Stabilize a dying character at 0 HP so they stop making death saves. Healing of any amount also ends dying.',
+  parameters: {
+    type: 'object',
+    properties: {
+      target_id: {
+        type: 'string',
+        description: 'ID of the dying character',
+      },
+      method: {
+        type: 'string',
+        description: "medicine (DC 10 Wisdom check by the medic), healers_kit (automatic, uses a kit), or spell (e.g. Spare the Dying)",
+        enum: ['medicine', 'healers_kit', 'spell'],
+      },
+      medic_id: {
+        type: 'string',
+        description: 'ID of the character tending the wounds (required for medicine)',
+      },
+    },
+    required: ['target_id'],
+  },
+};
+
 // Combat Functions
 export const startCombatFunction: FunctionDeclaration = {
   name: 'start_combat',
@@ -210,11 +262,13 @@ export const startCombatFunction: FunctionDeclaration = {
     properties: {
       enemy_ids: {
         type: 'array',
-        description: 'Array of enemy identifiers',
+        description: 'Monster names, one entry per creature (e.g. ["goblin", "goblin", "bugbear"])',
+        items: { type: 'string' },
       },
       surprised_ids: {
         type: 'array',
         description: 'Array of IDs of surprised creatures',
+        items: { type: 'string' },
       },
     },
     required: ['enemy_ids'],
@@ -233,7 +287,7 @@ export const nextTurnFunction: FunctionDeclaration = {
 
 export const getCombatStatusFunction: FunctionDeclaration = {
   name: 'get_combat_status',
-  description: 'Get current combat state including initiative order and HP.',
+  description: 'Get current combat state including initiative order, HP, death saves, legendary action budgets, recharge abilities and lair actions.',
   parameters: {
     type: 'object',
     properties: {},
@@ -241,6 +295,50 @@ export const getCombatStatusFunction: FunctionDeclaration = {
   },
 };
 
+export const useMonsterActionFunction: FunctionDeclaration = {
+  name: 'use_monster_action',
+  description: 'Use a monster\'s recharge ability, legendary action (at the end of another creature\'s turn) or lair action (on the lair\'s initiative 20 turn). Checks availability and spends it; roll the attack, save or damage afterwards.',
+  parameters: {
+    type: 'object',
+    properties: {
+      monster_id: {
+        type: 'string',
+        description: 'ID of the monster (the lair\'s owner for lair actions)',
+      },
+      action_name: {
+        type: 'string',
+        description: 'Name of the action, e.g. "Fire Breath", "Tail Attack", "Magma Eruption"',
+      },
+      kind: {
+        type: 'string',
+        description: 'action (regular or recharge ability), legendary or lair',
+        enum: ['action', 'legendary', 'lair'],
+      },
+    },
+    required: ['monster_id', 'action_name', 'kind'],
+  },
+};
+
+export const takeEnemyTurnFunction: FunctionDeclaration = {
+  name: 'take_enemy_turn',
+  description: 'Play a monster\'s turn with the tactical planner: it picks a target, moves, attacks (including multiattack) and applies damage through the real dice and map functions. Call on every enemy or allied monster turn instead of improvising its actions.',
+  parameters: {
+    type: 'object',
+    properties: {
+      combatant_id: {
+        type: 'string',
+        description: 'ID of the monster (defaults to whoever\'s turn it is)',
+      },
+      behavior: {
+        type: 'string',
+        description: 'How it fights: brute (charges the nearest), skirmisher (hit and run, ranged), caster (keeps its distance), cowardly (flees when hurt). Inferred from the stat block when omitted.',
+        enum: ['brute', 'skirmisher', 'caster', 'cowardly'],
+      },
+    },
+    required: [],
+  },
+};
+
 export const endCombatFunction: FunctionDeclaration = {
   name: 'end_combat',
   description: 'End the current combat encounter.',
@@ -260,7 +358,7 @@ export const endCombatFunction: FunctionDeclaration = {
 // Condition Functions
 export const addConditionFunction: FunctionDeclaration = {
   name: 'add_condition',
-  description: 'Apply a condition to a creature.',
+  description: 'Apply a condition to a creature. Exhaustion stacks by level; at level 6 the creature dies.',
   parameters: {
     type: 'object',
     properties: {
@@ -271,7 +369,11 @@ export const addConditionFunction: FunctionDeclaration = {
       condition: {
         type: 'string',
         description: 'Condition to apply',
-        enum: ['blinded', 'charmed', 'deafened', 'frightened', 'grappled', 'incapacitated', 'invisible', 'paralyzed', 'petrified', 'poisoned', 'prone', 'restrained', 'stunned', 'unconscious'],
+        enum: ['blinded', 'charmed', 'deafened', 'exhaustion', 'frightened', 'grappled', 'incapacitated', 'invisible', 'paralyzed', 'petrified', 'poisoned', 'prone', 'restrained', 'stunned', 'unconscious'],
+      },
+      level: {
+        type: 'number',
+        description: 'Levels of exhaustion to add (default 1)',
       },
       duration_type: {
         type: 'string',
@@ -310,10 +412,43 @@ export const removeConditionFunction: FunctionDeclaration = {
   },
 };
 
+// Spell Functions
+export const castSpellFunction: FunctionDeclaration = {
+  name: 'cast_spell',
+  description: 'MANDATORY: Cast a spell. Spends the slot, rolls spell attacks or target saves and the damage or healing, and starts concentration. Call before narrating any spell.',
+  parameters: {
+    type: 'object',
+    properties: {
+      caster_id: {
+        type: 'string',
+        description: 'ID of the character casting the spell',
+      },
+      spell_name: {
+        type: 'string',
+        description: 'Name of the spell (e.g. "Magic Missile")',
+      },
+      slot_level: {
+        type: 'number',
+        description: 'Spell slot level to use - higher than the spell level to upcast. Defaults to the lowest available slot',
+      },
+      target_ids: {
+        type: 'array',
+        description: 'IDs of the creatures targeted or caught in the area',
+        items: { type: 'string' },
+      },
+      ritual: {
+        type: 'boolean',
+        description: 'Cast as a ritual (no slot spent, ritual spells only)',
+      },
+    },
+    required: ['caster_id', 'spell_name'],
+  },
+};
+
 // Reference Functions
 export const lookupMonsterFunction: FunctionDeclaration = {
   name: 'lookup_monster',
-  description: 'Look up a monster stat block from the D&D 5e rules.',
+  description: 'Look up a monster stat block (AC, HP, attacks, saves, resistances). Use before running a creature you do not have exact numbers for.',
   parameters: {
     type: 'object',
     properties: {
@@ -328,7 +463,7 @@ export const lookupMonsterFunction: FunctionDeclaration = {
 
 export const lookupSpellFunction: FunctionDeclaration = {
   name: 'lookup_spell',
-  description: 'Look up a spell from the D&D 5e rules.',
+  description: 'Look up a spell (level, range, components, save or attack, damage). Use before resolving a spell you do not have exact numbers for.',
   parameters: {
     type: 'object',
     properties: {
@@ -341,6 +476,405 @@ export const lookupSpellFunction: FunctionDeclaration = {
   },
 };
 
+export const lookupConditionFunction: FunctionDeclaration = {
+  name: 'lookup_condition',
+  description: 'Look up the mechanical effects of a condition (e.g. grappled, restrained, exhaustion).',
+  parameters: {
+    type: 'object',
+    properties: {
+      condition_name: {
+        type: 'string',
+        description: 'Name of the condition to look up',
+      },
+    },
+    required: ['condition_name'],
+  },
+};
+
+// Character Functions
+export const getCharacterFunction: FunctionDeclaration = {
+  name: 'get_character',
+  description: 'Get a character summary: level, race, class, HP and AC.',
+  parameters: {
+    type: 'object',
+    properties: {
+      character_id: {
+        type: 'string',
+        description: 'ID or name of the character',
+      },
+    },
+    required: ['character_id'],
+  },
+};
+
+export const modifyInventoryFunction: FunctionDeclaration = {
+  name: 'modify_inventory',
+  description: 'MANDATORY: Change a character\'s inventory whenever they gain, lose, use or equip an item. Equipping armor, a shield or attuning to a magic item recalculates AC; attacks and damage use the equipped weapon.',
+  parameters: {
+    type: 'object',
+    properties: {
+      character_id: {
+        type: 'string',
+        description: 'ID or name of the character',
+      },
+      action: {
+        type: 'string',
+        description: 'What happens to the item',
+        enum: ['add', 'remove', 'use', 'equip', 'unequip', 'attune', 'unattune'],
+      },
+      item_name: {
+        type: 'string',
+        description: 'Name of the item',
+      },
+      slot: {
+        type: 'string',
+        description: 'Hand for equip: mainHand (default) or offHand. Armor and shields find their own slot.',
+        enum: ['mainHand', 'offHand'],
+      },
+      quantity: {
+        type: 'number',
+        description: 'How many (default 1)',
+      },
+    },
+    required: ['character_id', 'action', 'item_name'],
+  },
+};
+
+export const useResourceFunction: FunctionDeclaration = {
+  name: 'use_resource',
+  description: 'Spend a spell slot or class resource (e.g. Rage, Ki Points).',
+  parameters: {
+    type: 'object',
+    properties: {
+      character_id: {
+        type: 'string',
+        description: 'ID or name of the character',
+      },
+      resource_type: {
+        type: 'string',
+        description: '"spell_slot" or the name of a class resource',
+      },
+      amount: {
+        type: 'number',
+        description: 'How much to spend (default 1)',
+      },
+      level: {
+        type: 'number',
+        description: 'Spell slot level, required for spell slots',
+      },
+    },
+    required: ['character_id', 'resource_type'],
+  },
+};
+
+// World Functions
+export const setFlagFunction: FunctionDeclaration = {
+  name: 'set_flag',
+  description: 'Record a story flag (a quest state, a promise, a door left open).',
+  parameters: {
+    type: 'object',
+    properties: {
+      flag_name: {
+        type: 'string',
+        description: 'Name of the flag',
+      },
+      value: {
+        type: 'string',
+        description: 'Value to store',
+      },
+    },
+    required: ['flag_name', 'value'],
+  },
+};
+
+export const checkFlagFunction: FunctionDeclaration = {
+  name: 'check_flag',
+  description: 'Check the value of a story flag.',
+  parameters: {
+    type: 'object',
+    properties: {
+      flag_name: {
+        type: 'string',
+        description: 'Name of the flag',
+      },
+    },
+    required: ['flag_name'],
+  },
+};
+
+export const advanceTimeFunction: FunctionDeclaration = {
+  name: 'advance_time',
+  description: 'Advance the in-game clock (travel, resting, waiting). When days pass the world moves on without the party: the result lists conflicts, factions and territory that changed.',
+  parameters: {
+    type: 'object',
+    properties: {
+      hours: {
+        type: 'number',
+        description: 'Hours to advance',
+      },
+      minutes: {
+        type: 'number',
+        description: 'Minutes to advance',
+      },
+    },
+    required: [],
+  },
+};
+
+export const setLocationFunction: FunctionDeclaration = {
+  name: 'set_location',
+  description: 'MANDATORY: Change the party\'s current location when they travel or enter a new area.',
+  parameters: {
+    type: 'object',
+    properties: {
+      location_name: {
+        type: 'string',
+        description: 'Name of the new location',
+      },
+      location_type: {
+        type: 'string',
+        description: 'Kind of place, e.g. town, dungeon, wilderness, building',
+      },
+      description: {
+        type: 'string',
+        description: 'Short description of the location',
+      },
+    },
+    required: ['location_name'],
+  },
+};
+
+// Rest Functions
+export const shortRestFunction: FunctionDeclaration = {
+  name: 'short_rest',
+  description: 'Take a short rest for one character, optionally spending hit dice to heal.',
+  parameters: {
+    type: 'object',
+    properties: {
+      character_id: {
+        type: 'string',
+        description: 'ID or name of the character',
+      },
+      hit_dice_to_spend: {
+        type: 'number',
+        description: 'Number of hit dice to spend',
+      },
+    },
+    required: ['character_id'],
+  },
+};
+
+export const longRestFunction: FunctionDeclaration = {
+  name: 'long_rest',
+  description: 'Take a long rest for one character: full HP, spell slots and resources.',
+  parameters: {
+    type: 'object',
+    properties: {
+      character_id: {
+        type: 'string',
+        description: 'ID or name of the character',
+      },
+    },
+    required: ['character_id'],
+  },
+};
+
+// Spatial Functions
+export const getPositionFunction: FunctionDeclaration = {
+  name: 'get_position',
+  description: 'Get an entity\'s position on the active map.',
+  parameters: {
+    type: 'object',
+    properties: {
+      entity_id: {
+        type: 'string',
+        description: 'ID of the entity',
+      },
+    },
+    required: ['entity_id'],
+  },
+};
+
+export const moveEntityFunction: FunctionDeclaration = {
+  name: 'move_entity',
+  description: 'Move an entity on the active map. Call whenever a creature moves in combat or on the map. In combat it reports the opportunity attacks the move provokes and spends those creatures\' reactions.',
+  parameters: {
+    type: 'object',
+    properties: {
+      entity_id: {
+        type: 'string',
+        description: 'ID of the entity to move',
+      },
+      target_x: {
+        type: 'number',
+        description: 'Destination column',
+      },
+      target_y: {
+        type: 'number',
+        description: 'Destination row',
+      },
+      disengage: {
+        type: 'boolean',
+        description: 'The creature took the Disengage action this turn, so leaving reach provokes no opportunity attacks',
+      },
+      dash: {
+        type: 'boolean',
+        description: 'The creature took the Dash action this turn, doubling its movement',
+      },
+    },
+    required: ['entity_id', 'target_x', 'target_y'],
+  },
+};
+
+export const getDistanceFunction: FunctionDeclaration = {
+  name: 'get_distance',
+  description: 'Get the distance in feet between two entities.',
+  parameters: {
+    type: 'object',
+    properties: {
+      from_id: {
+        type: 'string',
+        description: 'ID of the first entity',
+      },
+      to_id: {
+        type: 'string',
+        description: 'ID of the second entity',
+      },
+    },
+    required: ['from_id', 'to_id'],
+  },
+};
+
+export const checkLineOfSightFunction: FunctionDeclaration = {
+  name: 'check_line_of_sight',
+  description: 'Check whether one entity can see another on the map: cover, the light each stands in, and darkvision or blindsight.',
+  parameters: {
+    type: 'object',
+    properties: {
+      from_id: {
+        type: 'string',
+        description: 'ID of the observer',
+      },
+      to_id: {
+        type: 'string',
+        description: 'ID of the target',
+      },
+    },
+    required: ['from_id', 'to_id'],
+  },
+};
+
+export const getEntitiesInRangeFunction: FunctionDeclaration = {
+  name: 'get_entities_in_range',
+  description: 'List entities within a range of another entity.',
+  parameters: {
+    type: 'object',
+    properties: {
+      center_id: {
+        type: 'string',
+        description: 'ID of the entity at the center',
+      },
+      range_feet: {
+        type: 'number',
+        description: 'Range in feet',
+      },
+      entity_types: {
+        type: 'array',
+        description: 'Only include these kinds of entity (player, enemy, ally, neutral, object)',
+        items: { type: 'string' },
+      },
+    },
+    required: ['center_id', 'range_feet'],
+  },
+};
+
+export const createAreaEffectFunction: FunctionDeclaration = {
+  name: 'create_area_effect',
+  description: 'Place an area effect (fireball, cone of cold, fog) on the map and list every creature caught in it.',
+  parameters: {
+    type: 'object',
+    properties: {
+      shape: {
+        type: 'string',
+        description: 'Shape of the area',
+        enum: ['circle', 'cone', 'line', 'cube', 'sphere', 'cylinder'],
+      },
+      origin_x: {
+        type: 'number',
+        description: 'Origin column',
+      },
+      origin_y: {
+        type: 'number',
+        description: 'Origin row',
+      },
+      size_feet: {
+        type: 'number',
+        description: 'Radius, length or side in feet',
+      },
+      direction: {
+        type: 'string',
+        description: 'Required for cones and lines',
+        enum: ['north', 'south', 'east', 'west', 'northeast', 'northwest', 'southeast', 'southwest'],
+      },
+      label: {
+        type: 'string',
+        description: 'Name shown on the map, e.g. "Fireball"',
+      },
+      duration_rounds: {
+        type: 'number',
+        description: 'How many rounds the effect lasts in combat',
+      },
+    },
+    required: ['shape', 'origin_x', 'origin_y', 'size_feet'],
+  },
+};
+
+export const getPathFunction: FunctionDeclaration = {
+  name: 'get_path',
+  description: 'Find a route for an entity and its movement cost. Use before long or tricky moves.',
+  parameters: {
+    type: 'object',
+    properties: {
+      entity_id: {
+        type: 'string',
+        description: 'ID of the entity',
+      },
+      target_x: {
+        type: 'number',
+        description: 'Destination column',
+      },
+      target_y: {
+        type: 'number',
+        description: 'Destination row',
+      },
+    },
+    required: ['entity_id', 'target_x', 'target_y'],
+  },
+};
+
+export const revealAreaFunction: FunctionDeclaration = {
+  name: 'reveal_area',
+  description: 'Lift the fog of war around a point when light or scouting uncovers the map.',
+  parameters: {
+    type: 'object',
+    properties: {
+      center_x: {
+        type: 'number',
+        description: 'Center column',
+      },
+      center_y: {
+        type: 'number',
+        description: 'Center row',
+      },
+      radius_feet: {
+        type: 'number',
+        description: 'Radius in feet',
+      },
+    },
+    required: ['center_x', 'center_y', 'radius_feet'],
+  },
+};
+
 // Lore Functions
 export const recallLoreFunction: FunctionDeclaration = {
   name: 'recall_lore',
@@ -407,6 +941,47 @@ export const revealSecretFunction: FunctionDeclaration = {
   },
 };
 
+export const recordPartyKnowledgeFunction: FunctionDeclaration = {
+  name: 'record_party_knowledge',
+  description: 'Record something the players just learned about an NPC, faction, location, conflict or secret: a fact, a rumor (true or false), or part of a secret. Only recorded knowledge shows in the players\' view of the lore.',
+  parameters: {
+    type: 'object',
+    properties: {
+      entity_type: {
+        type: 'string',
+        description: 'What kind of entity it is about',
+        enum: ['npc', 'faction', 'location', 'conflict', 'secret'],
+      },
+      entity_name: {
+        type: 'string',
+        description: 'Name of the NPC, faction, location, conflict or secret',
+      },
+      content: {
+        type: 'string',
+        description: 'What the players were told or found out, in their terms',
+      },
+      kind: {
+        type: 'string',
+        description: 'fact (default), rumor, or partial_reveal (part of a secret)',
+        enum: ['fact', 'rumor', 'partial_reveal'],
+      },
+      field: {
+        type: 'string',
+        description: 'Optional: the lore field it concerns, e.g. hiddenIdentity, privateGoal, trueNature',
+      },
+      is_true: {
+        type: 'boolean',
+        description: 'Whether it is actually true (default true). Players never see this.',
+      },
+      source: {
+        type: 'string',
+        description: 'Optional: how they learned it, e.g. "Overheard at the docks"',
+      },
+    },
+    required: ['entity_type', 'entity_name', 'content'],
+  },
+};
+
 // All functions registry
 export const allFunctions: FunctionDeclaration[] = [
   rollDiceFunction,
@@ -416,24 +991,142 @@ export const allFunctions: FunctionDeclaration[] = [
   rollSavingThrowFunction,
   applyDamageFunction,
   applyHealingFunction,
+  stabilizeCharacterFunction,
   startCombatFunction,
   nextTurnFunction,
   getCombatStatusFunction,
+  useMonsterActionFunction,
+  takeEnemyTurnFunction,
   endCombatFunction,
   addConditionFunction,
   removeConditionFunction,
+  castSpellFunction,
   lookupMonsterFunction,
   lookupSpellFunction,
+  lookupConditionFunction,
   recallLoreFunction,
   introduceNpcFunction,
   discoverLocationFunction,
   revealSecretFunction,
+  recordPartyKnowledgeFunction,
+  getCharacterFunction,
+  modifyInventoryFunction,
+  useResourceFunction,
+  setFlagFunction,
+  checkFlagFunction,
+  advanceTimeFunction,
+  setLocationFunction,
+  shortRestFunction,
+  longRestFunction,
+  getPositionFunction,
+  moveEntityFunction,
+  getDistanceFunction,
+  checkLineOfSightFunction,
+  getEntitiesInRangeFunction,
+  createAreaEffectFunction,
+  getPathFunction,
+  revealAreaFunction,
 ];
 
 // Functions by category
 export const diceFunctions = [rollDiceFunction, rollAttackFunction, rollDamageFunction, rollAbilityCheckFunction, rollSavingThrowFunction];
-export const hpFunctions = [applyDamageFunction, applyHealingFunction];
-export const combatFunctions = [startCombatFunction, nextTurnFunction, getCombatStatusFunction, endCombatFunction];
+export const hpFunctions = [applyDamageFunction, applyHealingFunction, stabilizeCharacterFunction];
+export const combatFunctions = [startCombatFunction, nextTurnFunction, getCombatStatusFunction, useMonsterActionFunction, takeEnemyTurnFunction, endCombatFunction];
 export const conditionFunctions = [addConditionFunction, removeConditionFunction];
-export const referenceFunctions = [lookupMonsterFunction, lookupSpellFunction];
-export const loreFunctions = [recallLoreFunction, introduceNpcFunction, discoverLocationFunction, revealSecretFunction];
+export const spellFunctions = [castSpellFunction];
+export const referenceFunctions = [lookupMonsterFunction, lookupSpellFunction, lookupConditionFunction];
+export const loreFunctions = [recallLoreFunction, introduceNpcFunction, discoverLocationFunction, revealSecretFunction, recordPartyKnowledgeFunction];
+export const characterFunctions = [getCharacterFunction, modifyInventoryFunction, useResourceFunction];
+export const worldFunctions = [setFlagFunction, checkFlagFunction, advanceTimeFunction, setLocationFunction];
+export const restFunctions = [shortRestFunction, longRestFunction];
+export const spatialFunctions = [getPositionFunction, moveEntityFunction, getDistanceFunction, checkLineOfSightFunction, getEntitiesInRangeFunction, createAreaEffectFunction, getPathFunction, revealAreaFunction];
+
+const FUNCTIONS_BY_NAME = new Map(allFunctions.map(f => [f.name, f]));
+
+type ParameterSchema = FunctionDeclaration['parameters']['properties'][string];
+
+export interface ArgumentValidation {
+  valid: boolean;
+  errors: string[];
+  arguments: Record<string, unknown>;   // Coerced to the declared types
+}
+
+// Coerce a value to a declared parameter type, or undefined if it cannot be
+function coerceValue(value: unknown, schema: { type: string; enum?: string[] }): unknown {
+  switch (schema.type) {
+    case 'string': {
+      const text = typeof value === 'string' ? value
+        : typeof value === 'number' || typeof value === 'boolean' ? String(value)
+        : undefined;
+      if (text === undefined || !schema.enum) return text;
+      // Models are loose with enum casing ("Advantage", "Sleight of Hand")
+      const normalized = text.toLowerCase().replace(/[\s-]+/g, '_');
+      return schema.enum.find(option => option === text || option === normalized);
+    }
+    case 'number':
+      if (typeof value === 'number' && Number.isFinite(value)) return value;
+      if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return Number(value);
+      return undefined;
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      if (value === 'true' || value === 'false') return value === 'true';
+      return undefined;
+    default:
+      return value;
+  }
+}
+
+function describeType(schema: ParameterSchema): string {
+  if (schema.enum) return `one of ${schema.enum.join(', ')}`;
+  if (schema.type === 'array') return `an array of ${schema.items?.type ?? 'values'}`;
+  return `a ${schema.type}`;
+}
+
+/**
+ * Check a function call's arguments against its declared parameter schema.
+ * Values are coerced where the intent is clear ("15" → 15, "Advantage" → "advantage",
+ * a single value → a one-element array).
+ */
+export function validateFunctionArguments(call: FunctionCall): ArgumentValidation {
+  const declaration = FUNCTIONS_BY_NAME.get(call.name);
+  if (!declaration) {
+    return { valid: false, errors: [`Unknown function: ${call.name}`], arguments: call.arguments };
+  }
+
+  const { properties, required } = declaration.parameters;
+  const errors: string[] = [];
+  const args: Record<string, unknown> = {};
+
+  for (const key of required) {
+    if (call.arguments[key] === undefined || call.arguments[key] === null) {
+      errors.push(`Missing required argument "${key}"`);
+    }
+  }
+
+  for (const [key, value] of Object.entries(call.arguments)) {
+    const schema = properties[key];
+    if (!schema) {
+      errors.push(`Unknown argument "${key}"`);
+      continue;
+    }
+    if (value === undefined || value === null) continue;
+
+    let coerced: unknown;
+    if (schema.type === 'array') {
+      const items = Array.isArray(value) ? value : [value];
+      const itemSchema = schema.items ?? { type: 'any' };
+      const coercedItems = items.map(item => coerceValue(item, itemSchema));
+      coerced = coercedItems.some(item => item === undefined) ? undefined : coercedItems;
+    } else {
+      coerced = coerceValue(value, schema);
+    }
+
+    if (coerced === undefined) {
+      errors.push(`"${key}" must be ${describeType(schema)}`);
+      continue;
+    }
+    args[key] = coerced;
+  }
+
+  return { valid: errors.length === 0, errors, arguments: args };
+}
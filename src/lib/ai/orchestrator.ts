@@ -8,14 +8,50 @@
  * 4. Retry logic for invalid responses
  */
 
-import { generateContent } from './client';
-import { executeFunction, stripFunctionCalls, parseFunctionCalls, executeLoreFunction } from './function-executor';
+import { generateContent, generateContentWithFunctions, streamContentWithFunctions } from './client';
+import { executeFunction, executeLoreFunction, getCombatModeChange } from './function-executor';
+import { stripFunctionCalls, parseFunctionCalls, FunctionCallStreamParser } from './function-calls';
+import type { FunctionCall } from './function-calls';
+import type { ExecutionContext } from './function-executor';
 import { StateGuardian, ValidationResult } from './state-guardian';
-import { DM_SYSTEM_PROMPT_FULL } from './system-prompt';
-import type { Character, Combat } from '@/lib/engine/types';
+import { DM_SYSTEM_PROMPT_FULL, NATIVE_TOOLS_INSTRUCTION } from './system-prompt';
+import { allFunctions, referenceFunctions, validateFunctionArguments } from './function-registry';
+import type { ChatMessage } from './providers';
+import { prisma } from '@/lib/db';
+import { rollLedger, buildRollLogEntry, findRollerRef } from '@/lib/rolls';
+import type { AttackRollResult, Character, Combat, DamageRollResult, GameTime, MonsterStatBlock } from '@/lib/engine/types';
+import type { TurnPlan } from '@/lib/engine/monster-tactics';
+import type { GameMap } from '@/lib/engine/spatial-types';
+import type { CampaignRuleset } from '@/lib/engine/campaign-rules';
+import type { SpellDefinition } from '@/lib/rules';
+import { secretRevealService, worldSimulationService } from '@/lib/world';
 
 const MAX_FUNCTION_ITERATIONS = 10;
 const MAX_VALIDATION_RETRIES = 3;
+const REFERENCE_FUNCTIONS = referenceFunctions.map(f => f.name);
+const MAX_TOOL_RESULT_LENGTH = 2000;
+
+// What the model is told about a function call it made
+interface ToolOutcome {
+  success: boolean;
+  displayText?: string;
+  result?: unknown;
+  error?: string;        // Set when the arguments failed validation
+}
+
+interface TurnCall {
+  call: FunctionCall;
+  native: boolean;       // Came through the provider's tool interface rather than the reply text
+  outcome: ToolOutcome;
+}
+
+// Serialize a tool result for the model, dropping the raw result if it is too large
+function toolResultContent(outcome: ToolOutcome): string {
+  const content = JSON.stringify(outcome);
+  if (content.length <= MAX_TOOL_RESULT_LENGTH) return content;
+  const { result: _result, ...summary } = outcome;
+  return JSON.stringify(summary).slice(0, MAX_TOOL_RESULT_LENGTH);
+}
 
 export interface OrchestratorContext {
   campaignId: string;
@@ -28,8 +64,10 @@ export interface OrchestratorContext {
     gameHour: number;
     gameMinute: number;
     activeCombat: Combat | null;
+    activeMap?: GameMap | null;
     recentMessages: Array<{ role: string; content: string }>;
   };
+  ruleset?: CampaignRuleset;   // House rules from Campaign.settings
 }
 
 export interface OrchestratorResult {
@@ -38,28 +76,47 @@ export interface OrchestratorResult {
   stateUpdates: {
     characterUpdates: Record<string, Partial<Character>>;
     combatUpdate: Combat | null;
+    mapUpdate: GameMap | null;    // Set when spatial functions changed the active map
+    timeUpdate: GameTime | null;  // Set when advance_time moved the clock
     modeChange: string | null;
   };
   warnings: string[];
 }
 
+/**
+ * Progress reported while a response streams in. Narration deltas are provisional:
+ * `narration_reset` means the text so far is being regenerated (rules lookup,
+ * empty narration or a failed validation), and the final narrative is the one in
+ * the OrchestratorResult.
+ */
+export type OrchestratorEvent =
+  | { type: 'narration'; text: string }
+  | { type: 'narration_reset' }
+  | { type: 'function'; result: OrchestratorResult['functionResults'][number] };
+
 export class AIOrchestrator {
   private stateGuardian: StateGuardian;
+  private cachedRules = { monsters: new Map<string, MonsterStatBlock>(), spells: new Map<string, SpellDefinition>() };
+  private cachedRulesLoadedAt: Date | null = null;
 
   constructor() {
     this.stateGuardian = new StateGuardian();
   }
 
   /**
-   * Process a player action through the full AI loop
+   * Process a player action through the full AI loop.
+   * With onEvent, responses are streamed and function calls run as soon as they are complete.
    */
   async processAction(
     playerInput: string,
-    context: OrchestratorContext
+    context: OrchestratorContext,
+    onEvent?: (event: OrchestratorEvent) => void
   ): Promise<OrchestratorResult> {
     const functionResults: Array<{ name: string; displayText: string; result?: unknown }> = [];
     const characterUpdates: Record<string, Partial<Character>> = {};
     let combatUpdate: Combat | null = context.gameState.activeCombat;
+    let mapUpdate: GameMap | null = null;
+    let timeUpdate: GameTime | null = null;
     let modeChange: string | null = null;
     const warnings: string[] = [];
 
@@ -72,10 +129,11 @@ export class AIOrchestrator {
     }
 
     // Create execution context
-    const executionContext = {
+    const executionContext: ExecutionContext = {
       characters: characterMap,
       combat: combatUpdate,
       campaignId: context.campaignId,  // Add campaignId for lore functions
+      ...await this.loadCachedRules(),
       updateCharacter: (id: string, updates: Partial<Character>) => {
         characterUpdates[id] = { ...characterUpdates[id], ...updates };
         // Also update in map for subsequent calls
@@ -84,19 +142,32 @@ export class AIOrchestrator {
           Object.assign(char, updates);
         }
       },
+      map: context.gameState.activeMap ?? null,
+      ruleset: context.ruleset,
+      updateMap: (map: GameMap) => {
+        mapUpdate = map;
+      },
+      gameTime: { day: context.gameState.gameDay, hour: context.gameState.gameHour, minute: context.gameState.gameMinute },
+      updateGameTime: (time: GameTime) => {
+        timeUpdate = time;
+      },
       updateCombat: (combat: Combat | null) => {
         combatUpdate = combat;
-        if (!combat) {
-          modeChange = 'exploration';
-        }
+        // Keep later calls in the same response in sync with the new combat
+        executionContext.combat = combat;
+        modeChange = getCombatModeChange(combat, context.gameState.mode);
       },
     };
 
     // Generate context injection (includes lore if available)
-    const loreContext = await this.stateGuardian.getLoreContext(context.campaignId);
+    const [loreContext, worldEvents, secrets] = await Promise.all([
+      this.stateGuardian.getLoreContext(context.campaignId),
+      this.stateGuardian.getWorldEventsContext(context.campaignId),
+      this.stateGuardian.getSecretsContext(context.campaignId),
+    ]);
     const contextBlock = this.stateGuardian.generateContextInjection({
       ...context,
-      loreContext
+      loreContext: [loreContext, worldEvents, secrets].filter(Boolean).join('\n') || null
     });
 
     // Build the full prompt
@@ -107,58 +178,251 @@ PLAYER ACTION: "${playerInput}"
 Remember: You MUST use function calls for ANY mechanical action (dice rolls, damage, HP changes). 
 Execute the appropriate functions, then narrate the results naturally without mentioning game mechanics.`;
 
-    let narrative = '';
-    let validationAttempts = 0;
-    let isValid = false;
+    // Generate with this campaign's AI provider settings
+    const clientOptions = { campaignId: context.campaignId };
+    const systemInstruction = `${DM_SYSTEM_PROMPT_FULL}\n${NATIVE_TOOLS_INSTRUCTION}`;
+
+    // Validate and execute a single function call, recording its result
+    const runCall = async (call: FunctionCall): Promise<ToolOutcome> => {
+      const validation = validateFunctionArguments(call);
+      if (!validation.valid) {
+        const error = validation.errors.join('; ');
+        warnings.push(`Rejected ${call.name} call: ${error}`);
+        return { success: false, error };
+      }
 
-    while (!isValid && validationAttempts < MAX_VALIDATION_RETRIES) {
-      validationAttempts++;
+      // Dice come from the campaign's seeded stream and every roll goes into its ledger
+      const { value: result } = await rollLedger.roll(
+        context.campaignId,
+        () => executeFunction({ ...call, arguments: validation.arguments }, executionContext),
+        (result, dice, rngState) => {
+          const rollerRef = findRollerRef(validation.arguments);
+          return buildRollLogEntry({
+            functionName: call.name,
+            args: validation.arguments,
+            roller: rollerRef ? (characterMap.get(rollerRef) ?? characterMap.get(rollerRef.toLowerCase()))?.name ?? rollerRef : null,
+            dice,
+            result: result.result,
+            summary: result.displayText,
+            rngState,
+          });
+        }
+      );
+      let entry: OrchestratorResult['functionResults'][number];
+
+      // Handle async lore functions
+      if (result.success && result.result && typeof result.result === 'object' &&
+          (result.result as Record<string, unknown>).async === true) {
+        const loreResult = await executeLoreFunction(
+          call.name,
+          result.result as Record<string, unknown>
+        );
+        // Update display text with actual lore data
+        entry = {
+          name: result.name,
+          displayText: loreResult.success
+            ? `${result.displayText}\n${loreResult.data}`
+            : result.displayText,
+          result: result.result
+        };
+      } else {
+        entry = { name: result.name, displayText: result.displayText, result: result.result };
+      }
 
-      // Generate AI response
-      let aiResponse = await generateContent(fullPrompt, DM_SYSTEM_PROMPT_FULL);
+      functionResults.push(entry);
+      onEvent?.({ type: 'function', result: entry });
 
-      // Check for function calls in the response (text-based since we're not using native function calling)
-      const functionCalls = parseFunctionCalls(aiResponse);
+      // A planned monster turn is played out straight away; the model narrates the results
+      if (call.name === 'take_enemy_turn' && result.success) {
+        const lines = await runTurnPlan(result.result as TurnPlan);
+        return { success: true, displayText: [entry.displayText, ...lines].join('\n'), result: entry.result };
+      }
 
-      // Execute any function calls found
-      let iterations = 0;
-      while (functionCalls.length > 0 && iterations < MAX_FUNCTION_ITERATIONS) {
-        iterations++;
+      // Days passing move the living world on; only the model sees what changed
+      if (call.name === 'advance_time' && result.success && timeUpdate && ((result.result as { daysPassed?: number }).daysPassed ?? 0) > 0) {
+        const changeLog = await advanceWorld(timeUpdate.day);
+        if (changeLog) {
+          return { success: true, displayText: `${entry.displayText}\nMeanwhile, in the world:\n${changeLog}`, result: entry.result };
+        }
+      }
+      return { success: result.success, displayText: entry.displayText, result: entry.result };
+    };
 
-        for (const call of functionCalls) {
-          const result = executeFunction(call, executionContext);
-          
-          // Handle async lore functions
-          if (result.success && result.result && typeof result.result === 'object' &&
-              (result.result as Record<string, unknown>).async === true) {
-            const loreResult = await executeLoreFunction(
-              call.name,
-              result.result as Record<string, unknown>
-            );
-            // Update display text with actual lore data
-            functionResults.push({
-              name: result.name,
-              displayText: loreResult.success
-                ? `${result.displayText}\n${loreResult.data}`
-                : result.displayText,
-              result: result.result
-            });
-          } else {
-            functionResults.push({ name: result.name, displayText: result.displayText, result: result.result });
+    // Simulate the world up to the new day. A failed tick is logged and skipped -
+    // the next day that passes catches up.
+    const advanceWorld = async (day: number): Promise<string | null> => {
+      try {
+        const tick = await worldSimulationService.advance(context.campaignId, day, { narrate: true });
+        return tick && tick.changes.length > 0 ? tick.changeLog : null;
+      } catch (error) {
+        console.error('World tick failed:', error);
+        warnings.push('The world simulation could not advance');
+        return null;
+      }
+    };
+
+    // Run a monster's turn plan as real move, attack, damage and ability calls.
+    // Damage is only rolled on a hit, and the turn stops early if a move fails
+    // or the target drops before the next attack.
+    const runTurnPlan = async (plan: TurnPlan): Promise<string[]> => {
+      const lines: string[] = [];
+
+      for (const step of plan.steps) {
+        if (step.type !== 'attack') {
+          const outcome = await runCall(step.call);
+          if (outcome.displayText) lines.push(outcome.displayText);
+          if (!outcome.success) break;
+          continue;
+        }
+
+        const target = executionContext.combat?.initiativeOrder.find(c => c.id === step.targetId || c.sourceId === step.targetId);
+        if (target && target.status !== 'active') break;
+
+        const attack = await runCall(step.attack);
+        if (attack.displayText) lines.push(attack.displayText);
+        const roll = attack.result as AttackRollResult | undefined;
+        if (!attack.success || !roll?.hits) continue;
+
+        for (const damageCall of step.damage) {
+          const damage = await runCall({ ...damageCall, arguments: { ...damageCall.arguments, is_critical: roll.isCriticalHit } });
+          const rolled = damage.result as DamageRollResult | undefined;
+          if (damage.displayText) lines.push(damage.displayText);
+          if (!damage.success || !rolled) continue;
+
+          const applied = await runCall({
+            name: 'apply_damage',
+            arguments: {
+              target_id: step.targetId,
+              amount: rolled.totalDamage,
+              damage_type: rolled.damageType,
+              source: step.action,
+              is_critical: roll.isCriticalHit,
+            },
+          });
+          if (applied.displayText) lines.push(applied.displayText);
+        }
+      }
+
+      return lines;
+    };
+
+    // Run one model turn. Native calls and text-style calls (the fallback for
+    // models without tool support) are both executed; when streaming they run
+    // as soon as they are complete.
+    let narrationStreamed = false;
+    const runTurn = async (
+      messages: ChatMessage[],
+      turn: number,
+      withTools: boolean,
+      continuesNarration = false
+    ): Promise<{ text: string; calls: TurnCall[] }> => {
+      const request = { systemInstruction, messages, functions: withTools ? allFunctions : undefined };
+      const calls: TurnCall[] = [];
+      const run = async (call: FunctionCall, native: boolean) => {
+        const withId = native && !call.id ? { ...call, id: `call_${turn}_${calls.length}` } : call;
+        calls.push({ call: withId, native, outcome: await runCall(withId) });
+      };
+
+      if (!onEvent) {
+        const response = await generateContentWithFunctions(request, clientOptions);
+        for (const call of response.functionCalls) await run(call, true);
+        if (withTools) {
+          for (const call of parseFunctionCalls(response.text)) await run(call, false);
+        }
+        return { text: stripFunctionCalls(response.text), calls };
+      }
+
+      const parser = new FunctionCallStreamParser();
+      let text = '';
+      const handle = async (parsed: { text: string; calls: FunctionCall[] }) => {
+        if (parsed.text) {
+          // Separate this turn's narration from the previous turn's on screen
+          const delta = continuesNarration && !text ? `\n\n${parsed.text.trimStart()}` : parsed.text;
+          text += parsed.text;
+          narrationStreamed = true;
+          onEvent({ type: 'narration', text: delta });
+        }
+        if (withTools) {
+          for (const call of parsed.calls) await run(call, false);
+        }
+      };
+
+      for await (const event of streamContentWithFunctions(request, clientOptions)) {
+        if (event.type === 'text') {
+          await handle(parser.push(event.text));
+        } else if (withTools) {
+          await run(event.call, true);
+        }
+      }
+      await handle(parser.flush());
+
+      return { text: text.replace(/\n{3,}/g, '\n\n').trim(), calls };
+    };
+
+    // Streamed narration from an earlier attempt is about to be replaced
+    const resetNarration = () => {
+      if (narrationStreamed) {
+        onEvent?.({ type: 'narration_reset' });
+        narrationStreamed = false;
+      }
+    };
+
+    // Tool loop: feed native call results back to the model until it stops calling functions.
+    // Rules looked up through text-style calls never reach the model that way, so they go back
+    // in one more narration-only turn: everything else it called has already been executed.
+    const respond = async (prompt: string): Promise<string> => {
+      resetNarration();
+      const messages: ChatMessage[] = [{ role: 'user', content: prompt }];
+      const parts: string[] = [];
+      const textLookups: string[] = [];
+
+      for (let turn = 1; turn <= MAX_FUNCTION_ITERATIONS; turn++) {
+        const { text, calls } = await runTurn(messages, turn, true, parts.length > 0);
+        if (text) parts.push(text);
+
+        for (const { call, native, outcome } of calls) {
+          if (!native && outcome.success && REFERENCE_FUNCTIONS.includes(call.name) && outcome.displayText) {
+            textLookups.push(outcome.displayText);
           }
         }
 
-        // Clear the parsed calls
-        functionCalls.length = 0;
+        const nativeCalls = calls.filter(c => c.native);
+        if (nativeCalls.length === 0) {
+          if (text) messages.push({ role: 'assistant', content: text });
+          break;
+        }
 
-        // Strip function calls from response
-        aiResponse = stripFunctionCalls(aiResponse);
+        messages.push({ role: 'assistant', content: text, functionCalls: nativeCalls.map(c => c.call) });
+        for (const { call, outcome } of nativeCalls) {
+          messages.push({ role: 'tool', name: call.name, callId: call.id, content: toolResultContent(outcome) });
+        }
+      }
 
-        // Check for more function calls (shouldn't be any after stripping)
-        const moreCalls = parseFunctionCalls(aiResponse);
-        functionCalls.push(...moreCalls);
+      if (textLookups.length > 0) {
+        messages.push({
+          role: 'user',
+          content: `RULES REFERENCE (results of your lookups):
+${textLookups.join('\n\n')}
+
+Every other function you called has already been executed. Continue the narration from where you left off using these exact numbers - do not call any functions.`,
+        });
+        const { text } = await runTurn(messages, MAX_FUNCTION_ITERATIONS + 1, false, parts.length > 0);
+        if (text) parts.push(text);
       }
 
+      return parts.join('\n\n');
+    };
+
+    let narrative = '';
+    let validationAttempts = 0;
+    let isValid = false;
+
+    while (!isValid && validationAttempts < MAX_VALIDATION_RETRIES) {
+      validationAttempts++;
+
+      // Generate AI response and execute its function calls
+      const aiResponse = await respond(fullPrompt);
+
       // Clean up the narrative
       narrative = this.cleanNarrative(aiResponse);
 
@@ -195,8 +459,9 @@ Write a vivid 2-3 paragraph narrative describing what happened. Rules:
 - Write in present tense, second person for the party ("You see...")
 - End with what the characters perceive or what happens next`;
 
-        const narrativeResponse = await generateContent(narrativePrompt, DM_SYSTEM_PROMPT_FULL);
-        narrative = this.cleanNarrative(stripFunctionCalls(narrativeResponse));
+        resetNarration();
+        const { text } = await runTurn([{ role: 'user', content: narrativePrompt }], 1, false);
+        narrative = this.cleanNarrative(text);
       }
 
       // Final fallback: if still no narrative, create a minimal one
@@ -244,18 +509,55 @@ Write a vivid 2-3 paragraph narrative describing what happened. Rules:
       }
     }
 
+    // Check the campaign's secrets against what this action did; the DM hears about
+    // hints, ripe secrets and reveals in the next context block
+    try {
+      await secretRevealService.evaluate(context.campaignId, functionResults);
+    } catch (error) {
+      console.error('Secret evaluation failed:', error);
+      warnings.push('Secret reveal conditions could not be checked');
+    }
+
     return {
       narrative,
       functionResults,
       stateUpdates: {
         characterUpdates,
         combatUpdate,
+        mapUpdate,
+        timeUpdate,
         modeChange,
       },
       warnings,
     };
   }
 
+  /**
+   * Monsters and spells cached from the remote rules API (bundled SRD entries are resolved
+   * directly from the compendium). Loaded once; later calls only fetch rows cached since.
+   */
+  private async loadCachedRules(): Promise<{ monsters: Map<string, MonsterStatBlock>; spells: Map<string, SpellDefinition> }> {
+    const since = this.cachedRulesLoadedAt;
+    const loadedAt = new Date();
+    try {
+      const where = since ? { fetchedAt: { gt: since } } : undefined;
+      const [cachedMonsters, cachedSpells] = await Promise.all([
+        prisma.monsterCache.findMany({ where }),
+        prisma.spellCache.findMany({ where }),
+      ]);
+      for (const entry of cachedMonsters) {
+        this.cachedRules.monsters.set(entry.id, JSON.parse(entry.data) as MonsterStatBlock);
+      }
+      for (const entry of cachedSpells) {
+        this.cachedRules.spells.set(entry.id, JSON.parse(entry.data) as SpellDefinition);
+      }
+      this.cachedRulesLoadedAt = loadedAt;
+    } catch (error) {
+      console.warn('[Orchestrator] Failed to load rules cache:', error);
+    }
+    return this.cachedRules;
+  }
+
   /**
    * Generate a rich campaign introduction
    */
@@ -355,7 +657,7 @@ NEVER mention:
 
 Write as if this is the opening pages of a beloved fantasy novel.`;
 
-    return await generateContent(introPrompt, introSystemPrompt);
+    return await generateContent(introPrompt, introSystemPrompt, { campaignId: context.campaignId });
   }
 
   /**
@@ -0,0 +1,35 @@
+// Server-sent event parsing shared by the streaming providers
+
+/**
+ * Read the data payloads of a server-sent event stream
+ */
+export async function* readEventStream(response: Response): AsyncGenerator<string> {
+  if (!response.body) {
+    throw new Error('Streaming response has no body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (trimmed.startsWith('data:')) {
+        yield trimmed.slice(5).trim();
+      }
+    }
+  }
+
+  const last = buffer.trim();
+  if (last.startsWith('data:')) {
+    yield last.slice(5).trim();
+  }
+}
@@ -0,0 +1,166 @@
+// LLM Providers - pluggable AI back ends and fallback chain resolution
+
+import { z } from 'zod';
+import { VertexProvider } from './vertex';
+import { OpenAICompatibleProvider } from './openai-compatible';
+import { MockProvider } from './mock';
+import type { AISettings, LLMProvider, ProviderConfig, ProviderName } from './types';
+
+export * from './types';
+export { VertexProvider } from './vertex';
+export { OpenAICompatibleProvider } from './openai-compatible';
+export type { OpenAICompatibleOptions } from './openai-compatible';
+export { MockProvider, DEFAULT_MOCK_NARRATION } from './mock';
+export type { MockResponse } from './mock';
+
+export const PROVIDER_NAMES: ProviderName[] = ['vertex', 'openrouter', 'openai-compatible', 'mock'];
+
+export const DEFAULT_MODELS: Record<ProviderName, string> = {
+  vertex: 'gemini-2.5-flash',
+  openrouter: 'moonshotai/kimi-k2-instruct',
+  'openai-compatible': 'llama3.1',
+  mock: 'scripted',
+};
+
+// Display names for connection tests and the settings UI
+export const PROVIDER_LABELS: Record<ProviderName, string> = {
+  vertex: 'Vertex AI',
+  openrouter: 'OpenRouter',
+  'openai-compatible': 'OpenAI-compatible (local)',
+  mock: 'Mock (offline)',
+};
+
+const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
+const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';   // Ollama
+const DEFAULT_PROVIDER_ORDER: ProviderName[] = ['vertex', 'openrouter'];
+
+export const ProviderConfigSchema = z.object({
+  provider: z.enum(['vertex', 'openrouter', 'openai-compatible', 'mock']),
+  model: z.string().min(1).max(200).optional(),
+  apiKey: z.string().min(1).max(500).optional(),
+  baseUrl: z.string().url().optional(),
+  tools: z.boolean().optional(),
+});
+
+export const AISettingsSchema = z.object({
+  providers: z.array(ProviderConfigSchema).max(8).optional(),
+});
+
+/**
+ * Parse AI settings from a JSON string or object, ignoring anything invalid
+ */
+export function parseAISettings(raw: unknown): AISettings {
+  let value = raw;
+  if (typeof raw === 'string') {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return {};
+    }
+  }
+
+  const parsed = AISettingsSchema.safeParse(value ?? {});
+  return parsed.success ? parsed.data : {};
+}
+
+export interface ProviderSources {
+  campaign?: AISettings;                            // Campaign.settings.ai
+  user?: AISettings & { geminiApiKey?: string | null };  // UserSettings
+  env?: Record<string, string | undefined>;
+}
+
+/**
+ * Resolve the provider fallback chain. The campaign's list wins over the user's,
+ * which wins over AI_PROVIDERS; AI_OFFLINE forces the mock. Keys and models not set on an entry come from
+ * UserSettings, then environment variables. Providers that need a key and have
+ * none are dropped.
+ */
+export function resolveProviderConfigs(sources: ProviderSources): ProviderConfig[] {
+  const env = sources.env ?? process.env;
+
+  // Offline mode (tests, demos) always uses the mock, whatever is configured
+  if (env.AI_OFFLINE === '1' || env.AI_OFFLINE === 'true') {
+    return [{ provider: 'mock', model: DEFAULT_MODELS.mock }];
+  }
+
+  let configs: ProviderConfig[];
+  if (sources.campaign?.providers?.length) {
+    configs = sources.campaign.providers;
+  } else if (sources.user?.providers?.length) {
+    configs = sources.user.providers;
+  } else {
+    const order = env.AI_PROVIDERS
+      ? env.AI_PROVIDERS.split(',').map(p => p.trim()).filter((p): p is ProviderName => PROVIDER_NAMES.includes(p as ProviderName))
+      : DEFAULT_PROVIDER_ORDER;
+    configs = order.map(provider => ({ provider }));
+  }
+
+  const resolved: ProviderConfig[] = [];
+  for (const config of configs) {
+    switch (config.provider) {
+      case 'vertex': {
+        const apiKey = config.apiKey || sources.user?.geminiApiKey || env.VERTEX_AI_API_KEY;
+        if (!apiKey) continue;
+        resolved.push({ provider: 'vertex', apiKey, model: config.model || env.VERTEX_MODEL || DEFAULT_MODELS.vertex });
+        break;
+      }
+      case 'openrouter': {
+        const apiKey = config.apiKey || env.OPENROUTER_API_KEY;
+        if (!apiKey) continue;
+        resolved.push({ provider: 'openrouter', apiKey, model: config.model || env.OPENROUTER_MODEL || DEFAULT_MODELS.openrouter });
+        break;
+      }
+      case 'openai-compatible':
+        resolved.push({
+          provider: 'openai-compatible',
+          apiKey: config.apiKey || env.LOCAL_AI_API_KEY,
+          baseUrl: config.baseUrl || env.LOCAL_AI_BASE_URL || DEFAULT_LOCAL_BASE_URL,
+          model: config.model || env.LOCAL_AI_MODEL || DEFAULT_MODELS['openai-compatible'],
+          tools: config.tools ?? env.LOCAL_AI_TOOLS === 'true',
+        });
+        break;
+      case 'mock':
+        resolved.push({ provider: 'mock', model: config.model || DEFAULT_MODELS.mock });
+        break;
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Build a provider from a resolved config
+ */
+export function createProvider(config: ProviderConfig): LLMProvider {
+  const model = config.model || DEFAULT_MODELS[config.provider];
+
+  switch (config.provider) {
+    case 'vertex':
+      if (!config.apiKey) throw new Error('Vertex AI API key not configured');
+      return new VertexProvider(config.apiKey, model);
+    case 'openrouter':
+      if (!config.apiKey) throw new Error('OpenRouter API key not configured');
+      return new OpenAICompatibleProvider({
+        name: 'openrouter',
+        label: 'OpenRouter API',
+        baseUrl: config.baseUrl || OPENROUTER_BASE_URL,
+        apiKey: config.apiKey,
+        model,
+        headers: {
+          'HTTP-Referer': 'https://arcane-gamemaster.app',
+          'X-Title': 'Arcane Gamemaster',
+        },
+      });
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider({
+        name: 'openai-compatible',
+        label: 'Local AI server',
+        baseUrl: config.baseUrl || DEFAULT_LOCAL_BASE_URL,
+        apiKey: config.apiKey,
+        model,
+        supportsTools: config.tools ?? false,
+      });
+    case 'mock':
+      return new MockProvider([], model);
+  }
+}
@@ -0,0 +1,53 @@
+// Scripted mock provider - deterministic responses with no network access
+
+import type { GenerateRequest, GenerateResponse, LLMProvider, StreamEvent } from './types';
+
+export type MockResponse =
+  | string
+  | GenerateResponse
+  | ((request: GenerateRequest) => string | GenerateResponse);
+
+// Long enough that the orchestrator accepts it as a real narration
+export const DEFAULT_MOCK_NARRATION =
+  'The scene settles around you. For now nothing stirs, and the party is free to decide what to do next.';
+
+/**
+ * Replays scripted responses in order, then falls back to DEFAULT_MOCK_NARRATION.
+ * Every request is recorded so tests can assert on prompts.
+ */
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock' as const;
+  readonly supportsTools = true;
+  readonly requests: GenerateRequest[] = [];
+  private readonly queue: MockResponse[];
+
+  constructor(responses: MockResponse[] = [], readonly model = 'scripted') {
+    this.queue = [...responses];
+  }
+
+  enqueue(...responses: MockResponse[]): void {
+    this.queue.push(...responses);
+  }
+
+  async generate(request: GenerateRequest): Promise<GenerateResponse> {
+    this.requests.push(request);
+
+    const next = this.queue.shift() ?? DEFAULT_MOCK_NARRATION;
+    const response = typeof next === 'function' ? next(request) : next;
+
+    return typeof response === 'string'
+      ? { text: response, functionCalls: [] }
+      : response;
+  }
+
+  // Streams the scripted text word by word, then any function calls
+  async *stream(request: GenerateRequest): AsyncGenerator<StreamEvent> {
+    const { text, functionCalls } = await this.generate(request);
+    for (const word of text.match(/\s*\S+\s*/g) || []) {
+      yield { type: 'text', text: word };
+    }
+    for (const call of functionCalls) {
+      yield { type: 'function_call', call };
+    }
+  }
+}
@@ -0,0 +1,187 @@
+// OpenAI-compatible chat completions provider
+// Covers OpenRouter and local servers such as llama.cpp and Ollama
+
+import { readEventStream } from './event-stream';
+import type { GenerateRequest, GenerateResponse, LLMProvider, ProviderName, StreamEvent } from './types';
+import type { FunctionCall } from '../function-calls';
+
+export interface OpenAICompatibleOptions {
+  name: ProviderName;
+  label: string;                   // Used in error messages
+  baseUrl: string;                 // e.g. https://openrouter.ai/api/v1
+  model: string;
+  apiKey?: string;                 // Local servers usually need none
+  headers?: Record<string, string>;
+  supportsTools?: boolean;         // Default true; many local models cannot call tools
+}
+
+type OpenAIMessage =
+  | { role: string; content: string | null; tool_calls?: OpenAIToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: ProviderName;
+  readonly model: string;
+  readonly supportsTools: boolean;
+
+  constructor(private readonly options: OpenAICompatibleOptions) {
+    this.name = options.name;
+    this.model = options.model;
+    this.supportsTools = options.supportsTools ?? true;
+  }
+
+  async generate(request: GenerateRequest): Promise<GenerateResponse> {
+    const response = await this.post(this.buildBody(request));
+    const data = await response.json();
+    const message = data.choices?.[0]?.message;
+
+    const functionCalls: FunctionCall[] = (message?.tool_calls || [])
+      .filter((call: { function?: unknown }) => call.function)
+      .map((call: { id?: string; function: { name: string; arguments?: string } }) => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: parseArguments(call.function.arguments),
+      }));
+
+    return {
+      text: message?.content || '',
+      functionCalls,
+    };
+  }
+
+  async *stream(request: GenerateRequest): AsyncGenerator<StreamEvent> {
+    const response = await this.post({ ...this.buildBody(request), stream: true });
+
+    // Tool calls stream as fragments keyed by index - assemble them, emit at the end
+    const toolCalls: Array<{ id?: string; name: string; arguments: string }> = [];
+
+    for await (const data of readEventStream(response)) {
+      if (data === '[DONE]') break;
+
+      const chunk = JSON.parse(data);
+      if (chunk.error) {
+        throw new Error(`${this.options.label} error: ${chunk.error.message || 'stream failed'}`);
+      }
+
+      const delta = chunk.choices?.[0]?.delta;
+      if (delta?.content) {
+        yield { type: 'text', text: delta.content };
+      }
+
+      for (const fragment of delta?.tool_calls || []) {
+        const index = fragment.index ?? toolCalls.length;
+        const call = toolCalls[index] ?? (toolCalls[index] = { name: '', arguments: '' });
+        if (fragment.id) call.id = fragment.id;
+        if (fragment.function?.name) call.name += fragment.function.name;
+        if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+      }
+    }
+
+    for (const call of toolCalls) {
+      if (call?.name) {
+        yield { type: 'function_call', call: { id: call.id, name: call.name, arguments: parseArguments(call.arguments) } };
+      }
+    }
+  }
+
+  private buildBody(request: GenerateRequest): Record<string, unknown> {
+    const messages: OpenAIMessage[] = [];
+
+    if (request.systemInstruction) {
+      messages.push({ role: 'system', content: request.systemInstruction });
+    }
+
+    for (const msg of request.messages || []) {
+      messages.push(...this.toOpenAIMessages(msg));
+    }
+
+    if (request.prompt !== undefined) {
+      messages.push({ role: 'user', content: request.prompt });
+    }
+
+    const body: Record<string, unknown> = {
+      model: this.model,
+      messages,
+    };
+
+    if (this.supportsTools && request.functions && request.functions.length > 0) {
+      body.tools = request.functions.map((fn) => ({
+        type: 'function',
+        function: {
+          name: fn.name,
+          description: fn.description,
+          parameters: fn.parameters,
+        },
+      }));
+    }
+
+    return body;
+  }
+
+  // Without tool support, calls and results are replayed as plain text
+  private toOpenAIMessages(msg: NonNullable<GenerateRequest['messages']>[number]): OpenAIMessage[] {
+    if (msg.role === 'tool') {
+      return this.supportsTools && msg.callId
+        ? [{ role: 'tool', tool_call_id: msg.callId, content: msg.content }]
+        : [{ role: 'user', content: `Result of ${msg.name}: ${msg.content}` }];
+    }
+
+    if (msg.role === 'assistant' && msg.functionCalls?.length) {
+      if (!this.supportsTools) {
+        const calls = msg.functionCalls.map(c => `${c.name}(${JSON.stringify(c.arguments)})`).join('\n');
+        return [{ role: 'assistant', content: [msg.content, calls].filter(Boolean).join('\n') }];
+      }
+      return [{
+        role: 'assistant',
+        content: msg.content || null,
+        tool_calls: msg.functionCalls.map((call, i) => ({
+          id: call.id ?? `call_${i}`,
+          type: 'function' as const,
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+        })),
+      }];
+    }
+
+    return [{ role: msg.role, content: msg.content }];
+  }
+
+  private async post(body: Record<string, unknown>): Promise<Response> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...this.options.headers,
+    };
+    if (this.options.apiKey) {
+      headers['Authorization'] = `Bearer ${this.options.apiKey}`;
+    }
+
+    const response = await fetch(`${this.options.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`${this.options.label} error: ${response.status} - ${error}`);
+    }
+
+    return response;
+  }
+}
+
+// Tool call arguments arrive as a JSON string
+function parseArguments(raw: string | undefined): Record<string, unknown> {
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
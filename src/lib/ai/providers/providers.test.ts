@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createProvider,
+  parseAISettings,
+  resolveProviderConfigs,
+  MockProvider,
+  OpenAICompatibleProvider,
+  DEFAULT_MOCK_NARRATION,
+} from './index';
+
+describe('LLM providers', () => {
+  describe('resolveProviderConfigs', () => {
+    it('should use the environment defaults and drop providers without keys', () => {
+      expect(resolveProviderConfigs({ env: {} })).toEqual([]);
+      expect(resolveProviderConfigs({ env: { OPENROUTER_API_KEY: 'or-key' } })).toEqual([
+        { provider: 'openrouter', apiKey: 'or-key', model: 'moonshotai/kimi-k2-instruct' },
+      ]);
+    });
+
+    it('should read the fallback order from AI_PROVIDERS', () => {
+      const configs = resolveProviderConfigs({ env: { AI_PROVIDERS: 'openai-compatible, mock, bogus' } });
+
+      expect(configs.map(c => c.provider)).toEqual(['openai-compatible', 'mock']);
+      expect(configs[0].baseUrl).toBe('http://localhost:11434/v1');
+    });
+
+    it('should prefer campaign settings over user settings', () => {
+      const configs = resolveProviderConfigs({
+        env: {},
+        user: { providers: [{ provider: 'mock' }], geminiApiKey: 'gemini-key' },
+        campaign: { providers: [{ provider: 'vertex', model: 'gemini-2.5-pro' }] },
+      });
+
+      expect(configs).toEqual([{ provider: 'vertex', apiKey: 'gemini-key', model: 'gemini-2.5-pro' }]);
+    });
+
+    it('should use the user chain when the campaign has none', () => {
+      const configs = resolveProviderConfigs({
+        env: {},
+        user: { providers: [{ provider: 'openai-compatible', baseUrl: 'http://gpu-box:8080/v1', model: 'qwen' }] },
+        campaign: {},
+      });
+
+      expect(configs).toEqual([{ provider: 'openai-compatible', baseUrl: 'http://gpu-box:8080/v1', model: 'qwen', apiKey: undefined, tools: false }]);
+    });
+
+    it('should force the mock when offline', () => {
+      const configs = resolveProviderConfigs({
+        env: { AI_OFFLINE: '1', VERTEX_AI_API_KEY: 'key' },
+        campaign: { providers: [{ provider: 'vertex' }] },
+      });
+
+      expect(configs).toEqual([{ provider: 'mock', model: 'scripted' }]);
+    });
+  });
+
+  describe('parseAISettings', () => {
+    it('should parse JSON and ignore invalid settings', () => {
+      expect(parseAISettings('{"providers":[{"provider":"mock"}]}')).toEqual({ providers: [{ provider: 'mock' }] });
+      expect(parseAISettings('{"providers":[{"provider":"skynet"}]}')).toEqual({});
+      expect(parseAISettings('not json')).toEqual({});
+      expect(parseAISettings(null)).toEqual({});
+    });
+  });
+
+  describe('MockProvider', () => {
+    it('should replay scripted responses and record requests', async () => {
+      const mock = new MockProvider([
+        'First reply',
+        { text: '', functionCalls: [{ name: 'roll_dice', arguments: { notation: '1d20' } }] },
+        (request) => `Echo: ${request.prompt}`,
+      ]);
+
+      expect((await mock.generate({ prompt: 'a' })).text).toBe('First reply');
+      expect((await mock.generate({ prompt: 'b' })).functionCalls).toHaveLength(1);
+      expect((await mock.generate({ prompt: 'c' })).text).toBe('Echo: c');
+      expect((await mock.generate({ prompt: 'd' })).text).toBe(DEFAULT_MOCK_NARRATION);
+      expect(mock.requests.map(r => r.prompt)).toEqual(['a', 'b', 'c', 'd']);
+    });
+
+    it('should stream scripted text in pieces, then function calls', async () => {
+      const mock = new MockProvider([{
+        text: 'The goblin flees into the dark.',
+        functionCalls: [{ name: 'end_combat', arguments: { outcome: 'fled' } }],
+      }]);
+      const events = [];
+      for await (const event of mock.stream({ prompt: 'x' })) events.push(event);
+
+      const text = events.flatMap(e => (e.type === 'text' ? [e.text] : []));
+      expect(text.length).toBeGreaterThan(1);
+      expect(text.join('')).toBe('The goblin flees into the dark.');
+      expect(events[events.length - 1]).toEqual({ type: 'function_call', call: { name: 'end_combat', arguments: { outcome: 'fled' } } });
+    });
+
+    it('should be created from a mock config', () => {
+      expect(createProvider({ provider: 'mock' })).toBeInstanceOf(MockProvider);
+    });
+  });
+
+  describe('OpenAICompatibleProvider', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    const provider = new OpenAICompatibleProvider({
+      name: 'openai-compatible',
+      label: 'Local AI server',
+      baseUrl: 'http://localhost:8080/v1/',
+      model: 'llama',
+    });
+
+    it('should parse text and native tool calls', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({
+        choices: [{
+          message: {
+            content: 'You swing.',
+            tool_calls: [{ function: { name: 'roll_attack', arguments: '{"attacker":"Thorin"}' } }],
+          },
+        }],
+      })));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const result = await provider.generate({ prompt: 'attack', systemInstruction: 'Be the DM' });
+
+      expect(result).toEqual({
+        text: 'You swing.',
+        functionCalls: [{ id: undefined, name: 'roll_attack', arguments: { attacker: 'Thorin' } }],
+      });
+      expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:8080/v1/chat/completions');
+      const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+      expect(body.messages[0]).toEqual({ role: 'system', content: 'Be the DM' });
+      expect(fetchMock.mock.calls[0][1].headers.Authorization).toBeUndefined();
+    });
+
+    it('should stream deltas from server-sent events', async () => {
+      const events = [
+        'data: {"choices":[{"delta":{"content":"The "}}]}\n\n',
+        ': keep-alive\n\ndata: {"choices":[{"delta":{"content":"door"}}]}\n',
+        '\ndata: {"choices":[{"delta":{}}]}\n\ndata: [DONE]\n\n',
+      ];
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(new ReadableStream({
+        start(controller) {
+          for (const event of events) controller.enqueue(new TextEncoder().encode(event));
+          controller.close();
+        },
+      }))));
+
+      const received = [];
+      for await (const event of provider.stream({ prompt: 'open' })) received.push(event);
+
+      expect(received).toEqual([{ type: 'text', text: 'The ' }, { type: 'text', text: 'door' }]);
+    });
+
+    it('should assemble streamed tool call fragments', async () => {
+      const events = [
+        'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"id":"call_a","function":{"name":"roll_dice","arguments":"{\\"nota"}}]}}]}\n\n',
+        'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"function":{"arguments":"tion\\":\\"1d20\\"}"}}]}}]}\n\n',
+        'data: [DONE]\n\n',
+      ];
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(new ReadableStream({
+        start(controller) {
+          for (const event of events) controller.enqueue(new TextEncoder().encode(event));
+          controller.close();
+        },
+      }))));
+
+      const received = [];
+      for await (const event of provider.stream({ prompt: 'roll' })) received.push(event);
+
+      expect(received).toEqual([
+        { type: 'function_call', call: { id: 'call_a', name: 'roll_dice', arguments: { notation: '1d20' } } },
+      ]);
+    });
+
+    it('should send tool results with their call IDs', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({ choices: [{ message: { content: 'Done.' } }] })));
+      vi.stubGlobal('fetch', fetchMock);
+
+      await provider.generate({
+        messages: [
+          { role: 'user', content: 'roll' },
+          { role: 'assistant', content: '', functionCalls: [{ id: 'call_a', name: 'roll_dice', arguments: { notation: '1d20' } }] },
+          { role: 'tool', name: 'roll_dice', callId: 'call_a', content: '17' },
+        ],
+        functions: [{ name: 'roll_dice', description: 'Roll dice', parameters: { type: 'object', properties: {} } }],
+      });
+
+      const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+      expect(body.messages[1].tool_calls[0]).toEqual({ id: 'call_a', type: 'function', function: { name: 'roll_dice', arguments: '{"notation":"1d20"}' } });
+      expect(body.messages[2]).toEqual({ role: 'tool', tool_call_id: 'call_a', content: '17' });
+      expect(body.tools).toHaveLength(1);
+    });
+
+    it('should surface HTTP errors', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('model not loaded', { status: 503 })));
+
+      await expect(provider.generate({ prompt: 'x' })).rejects.toThrow('Local AI server error: 503 - model not loaded');
+    });
+  });
+});
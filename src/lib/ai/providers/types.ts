@@ -0,0 +1,57 @@
+// LLM Provider types - the interface every AI back end implements
+
+import type { FunctionCall } from '../function-calls';
+
+export type ProviderName = 'vertex' | 'openrouter' | 'openai-compatible' | 'mock';
+
+export type ChatMessage =
+  | { role: 'user' | 'system'; content: string }
+  | { role: 'assistant'; content: string; functionCalls?: FunctionCall[] }
+  | { role: 'tool'; name: string; callId?: string; content: string };   // Result of a function call
+
+export interface FunctionDeclaration {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface GenerateRequest {
+  prompt?: string;               // Sent as the final user turn, after messages
+  systemInstruction?: string;
+  messages?: ChatMessage[];      // Conversation turns, oldest first
+  functions?: FunctionDeclaration[];   // Offered as native tools when the provider supports them
+}
+
+export interface GenerateResponse {
+  text: string;
+  functionCalls: FunctionCall[];  // Native tool calls, empty when the model answered in text
+}
+
+export type StreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'function_call'; call: FunctionCall };
+
+export interface LLMProvider {
+  readonly name: ProviderName;
+  readonly model: string;
+  readonly supportsTools: boolean;   // False means functions are ignored and calls come back as text
+  generate(request: GenerateRequest): Promise<GenerateResponse>;
+  stream(request: GenerateRequest): AsyncGenerator<StreamEvent>;
+}
+
+/**
+ * One entry in a provider fallback chain. Missing fields are filled from
+ * UserSettings and environment defaults when the chain is resolved.
+ */
+export interface ProviderConfig {
+  provider: ProviderName;
+  model?: string;
+  apiKey?: string;
+  baseUrl?: string;   // OpenAI-compatible servers only
+  tools?: boolean;    // OpenAI-compatible servers only: the model supports native tool calls
+}
+
+/** AI settings stored in UserSettings.aiSettings and Campaign.settings.ai */
+export interface AISettings {
+  providers?: ProviderConfig[];   // Fallback order, first is tried first
+}
@@ -0,0 +1,130 @@
+// Vertex AI Express Mode provider (Gemini models)
+
+import { readEventStream } from './event-stream';
+import type { GenerateRequest, GenerateResponse, LLMProvider, StreamEvent } from './types';
+import type { FunctionCall } from '../function-calls';
+
+interface VertexPart {
+  text?: string;
+  functionCall?: { name: string; args?: Record<string, unknown> };
+  functionResponse?: { name: string; response: Record<string, unknown> };
+}
+
+interface VertexContent {
+  role: 'user' | 'model';
+  parts: VertexPart[];
+}
+
+export class VertexProvider implements LLMProvider {
+  readonly name = 'vertex' as const;
+  readonly supportsTools = true;
+
+  constructor(
+    private readonly apiKey: string,
+    readonly model: string
+  ) {}
+
+  async generate(request: GenerateRequest): Promise<GenerateResponse> {
+    const response = await this.post('generateContent', this.buildBody(request));
+    const data = await response.json();
+    const parts: VertexPart[] = data.candidates?.[0]?.content?.parts || [];
+
+    const functionCalls: FunctionCall[] = parts
+      .filter(p => p.functionCall)
+      .map(p => ({ name: p.functionCall!.name, arguments: p.functionCall!.args || {} }));
+
+    return {
+      text: parts.map(p => p.text || '').join(''),
+      functionCalls,
+    };
+  }
+
+  async *stream(request: GenerateRequest): AsyncGenerator<StreamEvent> {
+    const response = await this.post('streamGenerateContent', this.buildBody(request), '&alt=sse');
+
+    for await (const data of readEventStream(response)) {
+      const chunk = JSON.parse(data);
+      const parts: VertexPart[] = chunk.candidates?.[0]?.content?.parts || [];
+
+      // Gemini sends each function call whole, never split across chunks
+      for (const part of parts) {
+        if (part.text) {
+          yield { type: 'text', text: part.text };
+        } else if (part.functionCall) {
+          yield { type: 'function_call', call: { name: part.functionCall.name, arguments: part.functionCall.args || {} } };
+        }
+      }
+    }
+  }
+
+  private buildBody(request: GenerateRequest): Record<string, unknown> {
+    const contents: VertexContent[] = [];
+
+    for (const msg of request.messages || []) {
+      if (msg.role === 'assistant') {
+        const parts: VertexPart[] = msg.content ? [{ text: msg.content }] : [];
+        for (const call of msg.functionCalls || []) {
+          parts.push({ functionCall: { name: call.name, args: call.arguments } });
+        }
+        contents.push({ role: 'model', parts });
+      } else if (msg.role === 'tool') {
+        // Results of one turn's calls go back together in a single content
+        const part = { functionResponse: { name: msg.name, response: { content: msg.content } } };
+        const last = contents[contents.length - 1];
+        if (last?.role === 'user' && last.parts.every(p => p.functionResponse)) {
+          last.parts.push(part);
+        } else {
+          contents.push({ role: 'user', parts: [part] });
+        }
+      } else {
+        contents.push({ role: 'user', parts: [{ text: msg.content }] });
+      }
+    }
+
+    if (request.prompt !== undefined) {
+      contents.push({
+        role: 'user',
+        parts: [{ text: request.prompt }],
+      });
+    }
+
+    const body: Record<string, unknown> = {
+      contents,
+    };
+
+    if (request.systemInstruction) {
+      body.systemInstruction = { parts: [{ text: request.systemInstruction }] };
+    }
+
+    if (request.functions && request.functions.length > 0) {
+      body.tools = [{
+        functionDeclarations: request.functions.map((fn) => ({
+          name: fn.name,
+          description: fn.description,
+          parameters: fn.parameters,
+        })),
+      }];
+    }
+
+    return body;
+  }
+
+  private async post(method: string, body: Record<string, unknown>, query = ''): Promise<Response> {
+    const url = `https://aiplatform.googleapis.com/v1/publishers/google/models/${this.model}:${method}?key=${this.apiKey}${query}`;
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Vertex AI error: ${response.status} - ${error}`);
+    }
+
+    return response;
+  }
+}
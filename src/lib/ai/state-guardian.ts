@@ -8,8 +8,12 @@
  */
 
 import type { Character, Combat } from '@/lib/engine/types';
+import { DEATH_SAVES_TO_RESOLVE } from '@/lib/engine/types';
 import type { GameMap, MapEntity } from '@/lib/engine/spatial-types';
+import { describeRuleset } from '@/lib/engine/campaign-rules';
+import type { CampaignRuleset } from '@/lib/engine/campaign-rules';
 import { loreContextManager } from '@/lib/lore';
+import { secretRevealService, worldSimulationService } from '@/lib/world';
 
 export interface ValidationIssue {
   ruleId: string;
@@ -130,6 +134,40 @@ ${loreContext.tier2 ? `═══ LOCAL CONTEXT ═══\n${loreContext.tier2}`
     }
   }
 
+  /**
+   * What has changed in the living world lately (call this before generateContextInjection)
+   */
+  async getWorldEventsContext(campaignId: string): Promise<string | null> {
+    try {
+      const changeLog = await worldSimulationService.getRecentChangeLog(campaignId);
+      if (!changeLog) return null;
+
+      return `
+═══ WORLD EVENTS (happened while time passed - weave into rumors and NPC talk) ═══
+${changeLog}`;
+    } catch (error) {
+      console.error('Error fetching world events:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Secrets the party is closing in on or has just uncovered (call this before generateContextInjection)
+   */
+  async getSecretsContext(campaignId: string): Promise<string | null> {
+    try {
+      const secrets = await secretRevealService.getSecretsContext(campaignId);
+      if (!secrets) return null;
+
+      return `
+═══ SECRETS (DM only - never state them outright; use reveal_secret when one comes out) ═══
+${secrets}`;
+    } catch (error) {
+      console.error('Error fetching secrets context:', error);
+      return null;
+    }
+  }
+
   /**
    * Generate context injection for the AI prompt
    */
@@ -148,6 +186,7 @@ ${loreContext.tier2 ? `═══ LOCAL CONTEXT ═══\n${loreContext.tier2}`
       currentLocationId?: string | null;
     };
     loreContext?: string | null; // Pre-fetched lore context
+    ruleset?: CampaignRuleset;
   }): string {
     const sections: string[] = [];
 
@@ -162,10 +201,11 @@ ${loreContext.tier2 ? `═══ LOCAL CONTEXT ═══\n${loreContext.tier2}`
     const currentLocation = context.gameState.currentLocationId 
       ? `Location: ${context.gameState.currentLocationId}\n(Explicitly tracked location)`
       : this.inferCurrentLocation(context.gameState.recentMessages, context.campaignDescription);
+    const houseRules = context.ruleset ? describeRuleset(context.ruleset) : null;
     sections.push(`
 CAMPAIGN: ${context.campaignName}
 MODE: ${context.gameState.mode.toUpperCase()}
-TIME: Day ${context.gameState.gameDay}, ${this.getTimeOfDay(context.gameState.gameHour)}
+TIME: Day ${context.gameState.gameDay}, ${this.getTimeOfDay(context.gameState.gameHour)}${houseRules ? `\nHOUSE RULES: ${houseRules}` : ''}
 
 ⚠️ CURRENT LOCATION & SURROUNDINGS:
 ${currentLocation}
@@ -315,7 +355,12 @@ Remember: You determine what checks are needed, execute the functions, then narr
         ? `\n  Conditions: ${c.conditions.map(cond => cond.condition).join(', ')}`
         : '';
 
-      return `${c.name} (${c.className} ${c.level}): ${hpIndicator} ${c.currentHp}${tempHpStr}/${c.maxHp} HP, AC ${c.armorClass}${conditionStr}`;
+      const deathStr = c.currentHp > 0 ? ''
+        : c.deathSaveFailures >= DEATH_SAVES_TO_RESOLVE ? ' - DEAD'
+        : c.deathSaveSuccesses >= DEATH_SAVES_TO_RESOLVE ? ' - unconscious, stable'
+        : ` - DYING (death saves ${c.deathSaveSuccesses}✓ ${c.deathSaveFailures}✗)`;
+
+      return `${c.name} (${c.className} ${c.level}): ${hpIndicator} ${c.currentHp}${tempHpStr}/${c.maxHp} HP, AC ${c.armorClass}${deathStr}${conditionStr}`;
     }).join('\n');
   }
 
@@ -325,13 +370,24 @@ Remember: You determine what checks are needed, execute the functions, then narr
     const initiativeList = combat.initiativeOrder.map((c, i) => {
       const isCurrent = i === combat.currentTurnIndex;
       const marker = isCurrent ? '▶' : ' ';
-      const hpDisplay = c.status === 'defeated' 
-        ? '[Defeated]' 
+      if (c.lair) {
+        const options = c.lair.actions.filter((a) => a.name !== c.lair!.lastUsed).map((a) => a.name);
+        return `${marker} ${c.initiative} | 🏰 ${c.name} [Lair actions: ${options.join(', ')}]`;
+      }
+
+      const hpDisplay = c.status === 'defeated' ? '[Defeated]'
+        : c.status === 'dead' ? '[Dead]'
+        : c.status === 'stable' ? '[Unconscious, stable]'
+        : c.status === 'dying' ? `[Dying - death saves ${c.deathSaves?.successes ?? 0}✓ ${c.deathSaves?.failures ?? 0}✗]`
         : `(${c.currentHp}/${c.maxHp} HP)`;
       const bloodied = c.currentHp > 0 && c.currentHp <= c.maxHp / 2 ? ' [Bloodied]' : '';
       const typeIcon = c.type === 'player_character' ? '🛡️' : c.type === 'enemy' ? '👹' : '👤';
+      const legendary = c.legendaryActions ? ` [Legendary ${c.legendaryActions.remaining}/${c.legendaryActions.max}]` : '';
+      const recharge = Object.entries(c.recharge ?? {})
+        .map(([ability, ready]) => ` [${ability}: ${ready ? 'ready' : 'recharging'}]`)
+        .join('');
 
-      return `${marker} ${c.initiative} | ${typeIcon} ${c.name} ${hpDisplay}${bloodied}`;
+      return `${marker} ${c.initiative} | ${typeIcon} ${c.name} ${hpDisplay}${bloodied}${legendary}${recharge}`;
     }).join('\n');
 
     return `
@@ -372,7 +428,8 @@ ${initiativeList}
       c.conditions.some(cond => cond.condition === 'concentrating')
     );
     for (const char of concentrating) {
-      reminders.push(`⚠️ ${char.name} is concentrating. Taking damage requires a CON save.`);
+      const spell = char.conditions.find(cond => cond.condition === 'concentrating')?.source;
+      reminders.push(`⚠️ ${char.name} is concentrating${spell ? ` on ${spell}` : ''}. apply_damage rolls the CON save automatically.`);
     }
 
     // Low HP warnings
@@ -465,7 +522,10 @@ Light: ${map.ambientLight}`);
   Use move_entity(entity_id, target_x, target_y) to move characters
   Use get_distance(from_id, to_id) to calculate exact distance
   Use check_line_of_sight(from_id, to_id) for cover/visibility
-  Use get_entities_in_range(center_id, range_feet) for area queries`);
+  Use get_entities_in_range(center_id, range_feet) for area queries
+  Use get_path(entity_id, target_x, target_y) for routes and movement cost
+  Use create_area_effect(shape, origin_x, origin_y, size_feet) to place spell areas
+  Use reveal_area(center_x, center_y, radius_feet) to lift fog of war`);
 
     return lines.join('\n');
   }
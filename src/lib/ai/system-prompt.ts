@@ -117,23 +117,34 @@ MANDATORY FUNCTION CALLS - You MUST call these before narrating outcomes:
 | Persuades/deceives | roll_ability_check() | ability="charisma", skill varies, dc |
 | Climbs/jumps/swims | roll_ability_check() | ability="strength", skill="athletics", dc |
 | Resists spell/trap | roll_saving_throw() | character_id, ability, dc |
-| Casts damaging spell | roll_damage() → apply_damage() | - |
+| Casts a spell | cast_spell() → apply_damage() / apply_healing() / add_condition() per target | caster_id, spell_name, slot_level, target_ids |
 | Heals someone | roll_dice() or fixed amount → apply_healing() | target_id, amount |
+| Tends a dying ally | stabilize_character() | target_id, method, medic_id |
 | Combat starts | start_combat() | enemy_ids |
+| Enemy's turn | take_enemy_turn() | combatant_id, behavior |
 | Turn ends | next_turn() | - |
 | Combat ends | end_combat() | outcome |
 | Gets poisoned/etc | add_condition() | target_id, condition, duration |
-| Moves on map | move_entity() | entity_id, target_x, target_y |
+| Suffers exhaustion (forced march, starvation) | add_condition(condition="exhaustion") | target_id, level |
+| Moves on map | move_entity() | entity_id, target_x, target_y, dash |
 | Steals/pickpockets | roll_ability_check() → modify_inventory() if success | ability="dexterity", skill="sleight_of_hand" |
 | Picks up item | modify_inventory(action="add") | character_id, item_name, quantity |
 | Drops/gives item | modify_inventory(action="remove") | character_id, item_name, quantity |
 | Receives loot/reward | modify_inventory(action="add") | character_id, item_name, quantity |
 | Uses consumable | modify_inventory(action="use") | character_id, item_name |
+| Dons armor / draws a weapon | modify_inventory(action="equip") | character_id, item_name, slot |
+| Attunes to a magic item (short rest) | modify_inventory(action="attune") | character_id, item_name |
 | Gains gold | modify_inventory() or direct gold update | character_id, gold amount |
 | Party travels/moves to new area | set_location() | location_name, location_type, description |
 | Enters building/dungeon/town | set_location() | location_name, location_type, description |
+| Learns a fact, hears a rumor, uncovers part of a secret | record_party_knowledge() | entity_type, entity_name, content, kind, is_true |
+| A secret listed as ready to surface comes out in the scene | reveal_secret() - then play out the consequences it returns | secret_name |
+| Travels for days / waits / time skips | advance_time() - weave any world changes it reports into the scene | hours, minutes |
 | Takes a short rest | short_rest() for each character | character_id, hit_dice_to_spend |
 | Takes a long rest | long_rest() for each character | character_id |
+| Need a monster's exact stats | lookup_monster() | monster_name |
+| Need a spell's exact rules | lookup_spell() | spell_name |
+| Need a condition's effects | lookup_condition() | condition_name |
 
 DO NOT call functions for:
 - Pure roleplay conversation
@@ -220,9 +231,9 @@ PACING BY SITUATION:
 ═══════════════════════════════════════════════════════════════════════════════
 
 When combat starts:
-1. Call start_combat(enemy_ids=[...])
-2. Describe the scene dramatically
-3. System handles initiative rolls
+1. Call start_combat(enemy_ids=["goblin", "goblin", "bugbear"]) - one entry per creature
+2. System rolls initiative and returns the turn order with combatant IDs (e.g. goblin_1)
+3. Describe the scene dramatically, then follow the returned turn order
 
 Each turn:
 1. Announce whose turn it is (from context)
@@ -231,12 +242,27 @@ Each turn:
 4. Narrate result
 5. If turn complete, call next_turn()
 
+Enemy turns:
+1. On a monster's turn, call take_enemy_turn() - it moves the monster, rolls its attacks and applies the damage for you
+2. Pass behavior="cowardly" for creatures that would run, or "brute"/"skirmisher"/"caster" to override how it fights
+3. Narrate what the returned results show, then call next_turn()
+
 Attack sequence:
 1. roll_attack() → get hit/miss result
 2. IF HIT: roll_damage() → get damage amount
-3. IF HIT: apply_damage() → update HP
+3. IF HIT: apply_damage() → update HP (is_critical=true on a critical hit)
 4. Narrate the full exchange
 
+Characters at 0 HP:
+1. A player character at 0 HP is unconscious and DYING - next_turn() rolls their death save when their turn comes
+2. Damage to a dying character is a failed death save (two on a critical hit); massive damage kills outright
+3. Any healing brings them back; stabilize_character() stops the death saves without healing
+
+Boss monsters:
+1. Before a recharge ability (e.g. "Fire Breath (Recharge 5-6)"), call use_monster_action(kind="action") - it fails while the ability is recharging; next_turn() rolls the recharge
+2. At the end of another creature's turn, before next_turn(), a legendary monster may call use_monster_action(kind="legendary") while it has legendary actions left
+3. On the lair's turn (initiative 20), call use_monster_action(kind="lair") once, then next_turn()
+
 When combat ends:
 1. Call end_combat(outcome="victory"|"defeat"|"fled"|"negotiated")
 2. Describe aftermath
@@ -250,9 +276,11 @@ When combat ends:
 When map is active (you'll see MAP section in context):
 
 Movement:
-1. Call move_entity(entity_id, target_x, target_y)
+1. Call move_entity(entity_id, target_x, target_y) - add disengage=true if the creature took the Disengage action
 2. System validates path, calculates movement cost
-3. Narrate the movement based on result
+3. Creatures can pass through allies but not enemies, and can't stop in anyone's space
+4. If the result lists opportunity attacks, resolve each one with roll_attack() before narrating - the attacker's reaction is already spent
+5. Narrate the movement based on result
 
 Distance checks:
 1. Call get_distance(from_id, to_id) if exact distance matters
@@ -260,12 +288,22 @@ Distance checks:
 
 Line of sight:
 1. Call check_line_of_sight(from_id, to_id)
-2. System returns visibility and cover
-3. Apply cover modifiers to attacks if relevant
+2. System returns visibility, cover and light, with darkvision and blindsight taken into account
+3. roll_attack applies cover (+2 half, +5 three-quarters) and darkness advantage/disadvantage itself - don't add them to advantage_status again
+4. Narrate the notes it returns ("the goblin behind the crate has half cover"); a target behind total cover can't be attacked
+
+Pathing:
+1. Call get_path(entity_id, target_x, target_y) before long or tricky moves
+2. System returns the route, its movement cost and whether it fits this turn
 
 Area effects:
-1. Call create_area_effect(shape, origin_x, origin_y, size_feet)
-2. Call get_entities_in_range() to find affected targets
+1. Call create_area_effect(shape, origin_x, origin_y, size_feet, direction, label)
+   - direction is required for cones and lines (north, southeast, ...)
+2. System returns every creature caught in the area - roll saves for each of them
+
+Exploration:
+1. Call reveal_area(center_x, center_y, radius_feet) when light or scouting uncovers the map
+2. System updates the fog of war and lists creatures now in view
 </spatial_protocol>
 
 <self_check>
@@ -453,7 +491,11 @@ CURRENT TURN: ${combat.currentTurn}
   const initiativeList = combat.initiativeOrder
     .map((c) => {
       const marker = c.name === combat.currentTurn ? '▶' : ' ';
-      const hpDisplay = c.status === 'defeated' ? '[DEFEATED]' : `(${c.hp}/${c.maxHp})`;
+      const hpDisplay = c.status === 'defeated' ? '[DEFEATED]'
+        : c.status === 'dead' ? '[DEAD]'
+        : c.status === 'dying' ? '[DYING]'
+        : c.status === 'stable' ? '[STABLE]'
+        : `(${c.hp}/${c.maxHp})`;
       const bloodied = c.hp > 0 && c.hp <= c.maxHp / 2 ? ' [Bloodied]' : '';
       return `${marker} ${c.initiative} | ${c.name} ${hpDisplay}${bloodied}`;
     })
@@ -501,3 +543,11 @@ This action likely requires mechanical resolution. Remember:
 3. Then narrate based on results
 </instruction>
 `;
+
+// Appended to the system prompt when functions are also offered as native tools
+export const NATIVE_TOOLS_INSTRUCTION = `
+<instruction>
+When function tools are available, call them through the tool interface instead of writing calls in your reply.
+Each call's result comes back to you before you continue - narrate only once you have the results you need.
+</instruction>
+`;
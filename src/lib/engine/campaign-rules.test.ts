@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_RULESET,
+  parseCampaignRuleset,
+  describeRuleset,
+  scaleMonsterHp,
+  getDeathSavesAfterRecovery,
+  formatRestDuration,
+  getEncumbrance,
+  getItemWeight,
+  getCriticalHitEffect,
+  CRITICAL_HIT_TABLE,
+} from './campaign-rules';
+import { DiceEngine } from './dice-engine';
+
+describe('campaign rules', () => {
+  describe('parseCampaignRuleset', () => {
+    it('should default everything for missing or bad settings', () => {
+      expect(parseCampaignRuleset(null)).toEqual(DEFAULT_RULESET);
+      expect(parseCampaignRuleset('not json')).toEqual(DEFAULT_RULESET);
+      expect(parseCampaignRuleset('{}')).toEqual(DEFAULT_RULESET);
+    });
+
+    it('should read the saved rules', () => {
+      const ruleset = parseCampaignRuleset(JSON.stringify({
+        difficulty: 'deadly',
+        deathRules: 'heroic',
+        restRules: 'gritty',
+        encumbrance: true,
+        criticalHitTables: true,
+        advancement: 'milestone',
+        ai: { providers: [] },
+      }));
+
+      expect(ruleset).toEqual({
+        difficulty: 'deadly',
+        deathRules: 'heroic',
+        restRules: 'gritty',
+        encumbrance: true,
+        criticalHitTables: true,
+        advancement: 'milestone',
+      });
+    });
+
+    it('should default invalid fields one at a time', () => {
+      const ruleset = parseCampaignRuleset({ difficulty: 'nightmare', encumbrance: 'yes', restRules: 'epic' });
+
+      expect(ruleset.difficulty).toBe('standard');
+      expect(ruleset.encumbrance).toBe(false);
+      expect(ruleset.restRules).toBe('epic');
+    });
+
+    it('should read the old gritty death rules as hardcore', () => {
+      expect(parseCampaignRuleset({ deathRules: 'gritty' }).deathRules).toBe('hardcore');
+    });
+  });
+
+  describe('describeRuleset', () => {
+    it('should only mention rules that differ from the defaults', () => {
+      expect(describeRuleset(DEFAULT_RULESET)).toBeNull();
+      expect(describeRuleset({ ...DEFAULT_RULESET, difficulty: 'hard', encumbrance: true }))
+        .toBe('hard difficulty, encumbrance');
+    });
+  });
+
+  describe('scaleMonsterHp', () => {
+    it('should scale by difficulty and never drop below 1', () => {
+      expect(scaleMonsterHp(20, 'standard')).toBe(20);
+      expect(scaleMonsterHp(20, 'easy')).toBe(15);
+      expect(scaleMonsterHp(20, 'hard')).toBe(25);
+      expect(scaleMonsterHp(20, 'deadly')).toBe(30);
+      expect(scaleMonsterHp(1, 'easy')).toBe(1);
+    });
+  });
+
+  describe('getDeathSavesAfterRecovery', () => {
+    it('should clear both counters under standard rules', () => {
+      expect(getDeathSavesAfterRecovery({ deathSaveFailures: 2 }, 'standard'))
+        .toEqual({ deathSaveSuccesses: 0, deathSaveFailures: 0 });
+    });
+
+    it('should keep failures under hardcore rules', () => {
+      expect(getDeathSavesAfterRecovery({ deathSaveFailures: 2 }, 'hardcore'))
+        .toEqual({ deathSaveSuccesses: 0, deathSaveFailures: 2 });
+    });
+  });
+
+  describe('formatRestDuration', () => {
+    it('should pick the largest whole unit', () => {
+      expect(formatRestDuration(5)).toBe('5 minutes');
+      expect(formatRestDuration(60)).toBe('1 hour');
+      expect(formatRestDuration(480)).toBe('8 hours');
+      expect(formatRestDuration(7 * 24 * 60)).toBe('7 days');
+    });
+  });
+
+  describe('getEncumbrance', () => {
+    const carrier = (items: { name: string; quantity: number; weight?: number }[], gold = 0) => ({
+      abilityScores: { strength: 10, dexterity: 10, constitution: 10, intelligence: 10, wisdom: 10, charisma: 10 },
+      inventory: items,
+      gold,
+    });
+
+    it('should fall back to the SRD weight for known gear', () => {
+      expect(getItemWeight({ name: 'Longsword', quantity: 1 })).toBe(3);
+      expect(getItemWeight({ name: 'Strange Idol', quantity: 1 })).toBe(0);
+      expect(getItemWeight({ name: 'Longsword', quantity: 1, weight: 4 })).toBe(4);
+    });
+
+    it('should count items and coins against multiples of Strength', () => {
+      expect(getEncumbrance(carrier([{ name: 'Rock', quantity: 5, weight: 10 }])).level).toBe('unencumbered');
+      expect(getEncumbrance(carrier([{ name: 'Rock', quantity: 5, weight: 10 }], 100))).toMatchObject({
+        carriedWeight: 52,
+        capacity: 150,
+        level: 'encumbered',
+        speedPenalty: 10,
+      });
+      expect(getEncumbrance(carrier([{ name: 'Rock', quantity: 11, weight: 10 }])).level).toBe('heavily_encumbered');
+      expect(getEncumbrance(carrier([{ name: 'Rock', quantity: 16, weight: 10 }])).level).toBe('over_capacity');
+    });
+  });
+
+  describe('critical hit tables', () => {
+    it('should cover every d20 roll', () => {
+      for (let roll = 1; roll <= 20; roll++) {
+        expect(CRITICAL_HIT_TABLE.some((e) => roll >= e.min && roll <= e.max)).toBe(true);
+      }
+      expect(getCriticalHitEffect(20)).toContain('stunned');
+    });
+
+    it('should only roll on the table for critical hits when enabled', () => {
+      const dice = new DiceEngine(() => 0.99);
+
+      expect(dice.rollDamage('1d8', 'slashing', 3, true).criticalEffect).toBeUndefined();
+      expect(dice.rollDamage('1d8', 'slashing', 3, false, [], true).criticalEffect).toBeUndefined();
+      expect(dice.rollDamage('1d8', 'slashing', 3, true, [], true).criticalEffect).toEqual({
+        roll: 20,
+        effect: getCriticalHitEffect(20),
+      });
+    });
+  });
+});
@@ -0,0 +1,218 @@
+// Campaign Rules - the house rules saved in Campaign.settings, typed, and the mechanics they change
+
+import { z } from 'zod';
+import type { AdvancementMode, Character, InventoryItem } from './types';
+import { compendium, RulesCompendium } from '@/lib/rules';
+
+export const DIFFICULTIES = ['easy', 'standard', 'hard', 'deadly'] as const;
+export const DEATH_RULES = ['heroic', 'standard', 'hardcore'] as const;
+export const REST_RULES = ['epic', 'standard', 'gritty'] as const;
+
+export type Difficulty = typeof DIFFICULTIES[number];
+export type DeathRules = typeof DEATH_RULES[number];
+export type RestRules = typeof REST_RULES[number];
+
+export interface CampaignRuleset {
+  difficulty: Difficulty;
+  deathRules: DeathRules;
+  restRules: RestRules;
+  encumbrance: boolean;          // Variant encumbrance: carried weight slows characters down
+  criticalHitTables: boolean;    // Critical hits roll on CRITICAL_HIT_TABLE
+  advancement: AdvancementMode;
+}
+
+export const DEFAULT_RULESET: CampaignRuleset = {
+  difficulty: 'standard',
+  deathRules: 'standard',
+  restRules: 'standard',
+  encumbrance: false,
+  criticalHitTables: false,
+  advancement: 'xp',
+};
+
+// Each field falls back to its default on its own, so one bad value doesn't reset the rest.
+// Older campaigns saved the hardcore death rules as 'gritty'.
+const RulesetSchema = z.object({
+  difficulty: z.enum(DIFFICULTIES).catch(DEFAULT_RULESET.difficulty),
+  deathRules: z.preprocess((v) => (v === 'gritty' ? 'hardcore' : v), z.enum(DEATH_RULES)).catch(DEFAULT_RULESET.deathRules),
+  restRules: z.enum(REST_RULES).catch(DEFAULT_RULESET.restRules),
+  encumbrance: z.boolean().catch(DEFAULT_RULESET.encumbrance),
+  criticalHitTables: z.boolean().catch(DEFAULT_RULESET.criticalHitTables),
+  advancement: z.enum(['xp', 'milestone']).catch(DEFAULT_RULESET.advancement),
+});
+
+/**
+ * Read the ruleset from a campaign's settings (JSON string or object), defaulting anything missing
+ */
+export function parseCampaignRuleset(settings: unknown): CampaignRuleset {
+  let value = settings;
+  if (typeof settings === 'string') {
+    try {
+      value = JSON.parse(settings);
+    } catch {
+      return { ...DEFAULT_RULESET };
+    }
+  }
+
+  if (!value || typeof value !== 'object') return { ...DEFAULT_RULESET };
+  return RulesetSchema.parse(value);
+}
+
+/**
+ * One-line summary of the house rules that differ from the defaults, for the DM prompt
+ */
+export function describeRuleset(ruleset: CampaignRuleset): string | null {
+  const rules: string[] = [];
+  if (ruleset.difficulty !== 'standard') rules.push(`${ruleset.difficulty} difficulty`);
+  if (ruleset.deathRules !== 'standard') rules.push(`${ruleset.deathRules} death rules`);
+  if (ruleset.restRules === 'gritty') rules.push('gritty realism rests');
+  if (ruleset.restRules === 'epic') rules.push('epic heroism rests');
+  if (ruleset.encumbrance) rules.push('encumbrance');
+  if (ruleset.criticalHitTables) rules.push('critical hit tables');
+  if (ruleset.advancement === 'milestone') rules.push('milestone advancement');
+  return rules.length > 0 ? rules.join(', ') : null;
+}
+
+// ===== Encounter difficulty =====
+
+export const DIFFICULTY_HP_MULTIPLIERS: Record<Difficulty, number> = {
+  easy: 0.75,
+  standard: 1,
+  hard: 1.25,
+  deadly: 1.5,
+};
+
+/**
+ * Scale a monster's rolled HP for the campaign difficulty
+ */
+export function scaleMonsterHp(hp: number, difficulty: Difficulty): number {
+  return Math.max(1, Math.round(hp * DIFFICULTY_HP_MULTIPLIERS[difficulty]));
+}
+
+// ===== Death and dying =====
+
+export interface DeathRuleEffects {
+  stabilizeAfterCombat: boolean;   // Downed characters get back up with 1 HP when the fight ends
+  failuresPersist: boolean;        // Failed death saves only clear on a long rest
+}
+
+export const DEATH_RULE_EFFECTS: Record<DeathRules, DeathRuleEffects> = {
+  heroic: { stabilizeAfterCombat: true, failuresPersist: false },
+  standard: { stabilizeAfterCombat: false, failuresPersist: false },
+  hardcore: { stabilizeAfterCombat: false, failuresPersist: true },
+};
+
+/**
+ * Death save counters once a character at 0 HP regains hit points
+ */
+export function getDeathSavesAfterRecovery(
+  character: Pick<Character, 'deathSaveFailures'>,
+  deathRules: DeathRules
+): Pick<Character, 'deathSaveSuccesses' | 'deathSaveFailures'> {
+  return {
+    deathSaveSuccesses: 0,
+    deathSaveFailures: DEATH_RULE_EFFECTS[deathRules].failuresPersist ? character.deathSaveFailures : 0,
+  };
+}
+
+// ===== Resting =====
+
+export interface RestRuleEffects {
+  shortRestMinutes: number;
+  longRestMinutes: number;
+  longRestRestoresHp: boolean;       // Gritty realism: HP only comes back by spending hit dice
+  longRestHitDiceFraction: number;   // Share of total hit dice regained on a long rest
+}
+
+export const REST_RULE_EFFECTS: Record<RestRules, RestRuleEffects> = {
+  epic: { shortRestMinutes: 5, longRestMinutes: 60, longRestRestoresHp: true, longRestHitDiceFraction: 1 },
+  standard: { shortRestMinutes: 60, longRestMinutes: 8 * 60, longRestRestoresHp: true, longRestHitDiceFraction: 0.5 },
+  gritty: { shortRestMinutes: 8 * 60, longRestMinutes: 7 * 24 * 60, longRestRestoresHp: false, longRestHitDiceFraction: 0.5 },
+};
+
+/**
+ * Human-readable rest length, e.g. "5 minutes", "8 hours", "7 days"
+ */
+export function formatRestDuration(minutes: number): string {
+  if (minutes % (24 * 60) === 0) {
+    const days = minutes / (24 * 60);
+    return `${days} day${days === 1 ? '' : 's'}`;
+  }
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return `${hours} hour${hours === 1 ? '' : 's'}`;
+  }
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+// ===== Encumbrance =====
+
+export type EncumbranceLevel = 'unencumbered' | 'encumbered' | 'heavily_encumbered' | 'over_capacity';
+
+export interface EncumbranceStatus {
+  carriedWeight: number;   // Pounds, including coins
+  capacity: number;        // 15 x Strength
+  level: EncumbranceLevel;
+  speedPenalty: number;    // Feet
+}
+
+const COINS_PER_POUND = 50;
+
+/**
+ * Weight of one unit of an item - its own weight, else the SRD equipment entry
+ */
+export function getItemWeight(item: InventoryItem, rules: RulesCompendium = compendium): number {
+  return item.weight ?? rules.getEquipment(item.name)?.weight ?? 0;
+}
+
+/**
+ * Variant encumbrance: over 5 x STR is encumbered (-10 ft), over 10 x STR heavily
+ * encumbered (-20 ft), and nobody can carry more than 15 x STR
+ */
+export function getEncumbrance(
+  character: Pick<Character, 'abilityScores' | 'inventory' | 'gold'>,
+  rules: RulesCompendium = compendium
+): EncumbranceStatus {
+  const strength = character.abilityScores.strength;
+  const itemWeight = character.inventory.reduce((sum, item) => sum + getItemWeight(item, rules) * item.quantity, 0);
+  const carriedWeight = Math.round((itemWeight + Math.floor(character.gold / COINS_PER_POUND)) * 100) / 100;
+  const capacity = strength * 15;
+
+  if (carriedWeight > capacity) {
+    return { carriedWeight, capacity, level: 'over_capacity', speedPenalty: 20 };
+  }
+  if (carriedWeight > strength * 10) {
+    return { carriedWeight, capacity, level: 'heavily_encumbered', speedPenalty: 20 };
+  }
+  if (carriedWeight > strength * 5) {
+    return { carriedWeight, capacity, level: 'encumbered', speedPenalty: 10 };
+  }
+  return { carriedWeight, capacity, level: 'unencumbered', speedPenalty: 0 };
+}
+
+// ===== Critical hit tables =====
+
+export interface CriticalHitEffect {
+  min: number;
+  max: number;
+  effect: string;
+}
+
+// Rolled on a d20 after the damage of a critical hit
+export const CRITICAL_HIT_TABLE: CriticalHitEffect[] = [
+  { min: 1, max: 4, effect: 'Staggering blow - the target has disadvantage on its next attack roll' },
+  { min: 5, max: 8, effect: 'Off balance - the target\'s speed is halved until the end of its next turn' },
+  { min: 9, max: 12, effect: 'Bleeding wound - the target takes 1d4 damage at the start of each of its turns until it is healed' },
+  { min: 13, max: 15, effect: 'Knocked down - the target falls prone' },
+  { min: 16, max: 17, effect: 'Rattled - the target can\'t take reactions until the start of its next turn' },
+  { min: 18, max: 19, effect: 'Disarmed - the target drops one item it is holding' },
+  { min: 20, max: 20, effect: 'Devastating blow - the target is stunned until the end of its next turn' },
+];
+
+/**
+ * Look up a d20 roll on the critical hit table
+ */
+export function getCriticalHitEffect(roll: number): string {
+  const entry = CRITICAL_HIT_TABLE.find((e) => roll >= e.min && roll <= e.max);
+  return (entry ?? CRITICAL_HIT_TABLE[0]).effect;
+}
@@ -1,7 +1,9 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { CombatEngine } from './combat-engine';
 import { DiceEngine } from './dice-engine';
-import type { Character, MonsterStatBlock } from './types';
+import { SpatialEngine } from './spatial-engine';
+import type { Character, Combat, MonsterStatBlock } from './types';
+import type { GameMap } from './spatial-types';
 
 describe('CombatEngine', () => {
   let engine: CombatEngine;
@@ -174,6 +176,44 @@ describe('CombatEngine', () => {
 
       expect(combat.environmentalEffects).toContain('Darkness spell at E4');
     });
+
+    it('should scale enemy HP for the campaign difficulty', () => {
+      const fixedEngine = new CombatEngine(new DiceEngine(() => 0.5));
+      const enemyHp = (difficulty?: 'easy' | 'deadly') => fixedEngine.startCombat({
+        playerCharacters: [mockCharacter],
+        enemies: [{ statBlock: mockGoblin }],
+        difficulty,
+      }).initiativeOrder.find((c) => c.type === 'enemy')!;
+
+      expect(enemyHp().maxHp).toBe(8);
+      expect(enemyHp('easy').maxHp).toBe(6);
+      expect(enemyHp('deadly')).toMatchObject({ currentHp: 12, maxHp: 12 });
+    });
+  });
+
+  describe('createBasicStatBlock', () => {
+    it('should build a usable stat block from minimal stats', () => {
+      const statBlock = engine.createBasicStatBlock({ name: 'Bandit', hp: 11, ac: 12, dexterity: 14 });
+
+      expect(statBlock.name).toBe('Bandit');
+      expect(statBlock.hitPoints).toBe(11);
+      expect(statBlock.armorClass).toBe(12);
+      expect(statBlock.abilityScores.dexterity).toBe(14);
+      expect(statBlock.xp).toBe(50);
+    });
+
+    it('should start combat with a basic stat block', () => {
+      const statBlock = engine.createBasicStatBlock({ name: 'Bandit', hp: 11, ac: 12 });
+      const combat = engine.startCombat({
+        playerCharacters: [mockCharacter],
+        enemies: [{ statBlock, count: 2 }],
+      });
+
+      const enemies = combat.initiativeOrder.filter((c) => c.type === 'enemy');
+      expect(enemies).toHaveLength(2);
+      expect(enemies[0].armorClass).toBe(12);
+      expect(enemies[0].maxHp).toBeGreaterThan(0);
+    });
   });
 
   describe('getCurrentCombatant', () => {
@@ -401,8 +441,8 @@ describe('CombatEngine', () => {
 
       const player = combat.initiativeOrder.find((c) => c.type === 'player_character')!;
 
-      // Defeat the player
-      const damageResult = engine.applyDamage(combat, player.id, 100, 'slashing', 'lethal');
+      // Drop the player to exactly 0 HP
+      const damageResult = engine.applyDamage(combat, player.id, 45, 'slashing', 'lethal');
       combat = damageResult.combat;
 
       // Heal them
@@ -415,6 +455,222 @@ describe('CombatEngine', () => {
     });
   });
 
+  describe('death saves', () => {
+    const downedCombat = (dice: DiceEngine = seededDice) => {
+      const fixedEngine = new CombatEngine(dice);
+      const combat = engine.startCombat({
+        playerCharacters: [mockCharacter],
+        enemies: [{ statBlock: mockGoblin }],
+      });
+      return { fixedEngine, combat: fixedEngine.applyDamage(combat, 'player1', 50, 'slashing', 'ogre').combat };
+    };
+
+    const thorin = (combat: ReturnType<CombatEngine['startCombat']>) =>
+      combat.initiativeOrder.find((c) => c.id === 'player1')!;
+
+    it('should leave a player character dying and unconscious at 0 HP', () => {
+      const { combat } = downedCombat();
+
+      expect(thorin(combat).status).toBe('dying');
+      expect(thorin(combat).deathSaves).toEqual({ successes: 0, failures: 0 });
+      expect(thorin(combat).conditions.map((c) => c.condition)).toContain('unconscious');
+    });
+
+    it('should kill outright when the damage left over reaches max HP', () => {
+      const combat = engine.startCombat({ playerCharacters: [mockCharacter], enemies: [{ statBlock: mockGoblin }] });
+      const { combat: updated, result } = engine.applyDamage(combat, 'player1', 90, 'bludgeoning', 'giant');
+
+      expect(result.instantDeath).toBe(true);
+      expect(thorin(updated).status).toBe('dead');
+    });
+
+    it('should add a failure for damage at 0 HP and two for a critical hit', () => {
+      const { combat } = downedCombat();
+      const hit = engine.applyDamage(combat, 'player1', 3, 'piercing', 'arrow');
+      expect(thorin(hit.combat).deathSaves).toEqual({ successes: 0, failures: 1 });
+
+      const crit = engine.applyDamage(hit.combat, 'player1', 3, 'piercing', 'arrow', true);
+      expect(crit.result.status).toBe('dead');
+      expect(thorin(crit.combat).deathSaves?.failures).toBe(3);
+    });
+
+    it('should roll a death save at the start of a dying character\'s turn and move on', () => {
+      const { fixedEngine, combat } = downedCombat(new DiceEngine(() => 0.6)); // 13 on the d20
+      const playerIndex = combat.initiativeOrder.findIndex((c) => c.id === 'player1');
+      const before = { ...combat, currentTurnIndex: (playerIndex + combat.initiativeOrder.length - 1) % combat.initiativeOrder.length };
+
+      const { combat: updated, deathSaves } = fixedEngine.advanceTurn(before);
+
+      expect(deathSaves).toEqual([{ combatantId: 'player1', name: 'Thorin', roll: 13, outcome: 'success', successes: 1, failures: 0 }]);
+      expect(updated.initiativeOrder[updated.currentTurnIndex].id).not.toBe('player1');
+    });
+
+    it('should stabilize after three successes and die after three failures', () => {
+      const succeed = downedCombat(new DiceEngine(() => 0.6));
+      let combat = succeed.combat;
+      for (let i = 0; i < 3; i++) combat = succeed.fixedEngine.rollDeathSave(combat, 'player1').combat;
+      expect(thorin(combat).status).toBe('stable');
+
+      const fail = downedCombat(new DiceEngine(() => 0)); // natural 1s count twice
+      const first = fail.fixedEngine.rollDeathSave(fail.combat, 'player1');
+      const second = fail.fixedEngine.rollDeathSave(first.combat, 'player1');
+      expect(first.result).toMatchObject({ roll: 1, outcome: 'failure', failures: 2 });
+      expect(second.result.outcome).toBe('dead');
+    });
+
+    it('should bring the character back with 1 HP on a natural 20', () => {
+      const { fixedEngine, combat } = downedCombat(new DiceEngine(() => 0.99));
+      const { combat: updated, result } = fixedEngine.rollDeathSave(combat, 'player1');
+
+      expect(result.outcome).toBe('revived');
+      expect(thorin(updated)).toMatchObject({ status: 'active', currentHp: 1, deathSaves: { successes: 0, failures: 0 } });
+      expect(thorin(updated).conditions.map((c) => c.condition)).not.toContain('unconscious');
+    });
+
+    it('should stop death saves when stabilized, and start again if a stable character is hurt', () => {
+      const { combat } = downedCombat();
+      const stable = engine.stabilize(combat, 'player1');
+      expect(thorin(stable).status).toBe('stable');
+
+      const hurt = engine.applyDamage(stable, 'player1', 2, 'fire', 'embers');
+      expect(thorin(hurt.combat)).toMatchObject({ status: 'dying', deathSaves: { successes: 0, failures: 1 } });
+    });
+
+    it('should not heal the dead', () => {
+      const combat = engine.startCombat({ playerCharacters: [mockCharacter], enemies: [{ statBlock: mockGoblin }] });
+      const dead = engine.applyDamage(combat, 'player1', 200, 'necrotic', 'disintegrate').combat;
+
+      expect(engine.applyHealing(dead, 'player1', 10, 'cure wounds').result.healingApplied).toBe(0);
+    });
+
+    it('should keep failures through recovery under hardcore death rules', () => {
+      const hardcore = engine.startCombat({ playerCharacters: [mockCharacter], enemies: [{ statBlock: mockGoblin }], deathRules: 'hardcore' });
+      let combat = engine.applyDamage(hardcore, 'player1', 50, 'slashing', 'ogre').combat;
+      combat = engine.applyDamage(combat, 'player1', 1, 'slashing', 'ogre').combat;
+      combat = engine.applyHealing(combat, 'player1', 5, 'healing word').combat;
+
+      expect(thorin(combat).deathSaves).toEqual({ successes: 0, failures: 1 });
+    });
+
+    it('should not end in defeat while a dying character can still be saved', () => {
+      const { combat } = downedCombat();
+      const goblin = combat.initiativeOrder.find((c) => c.type === 'enemy')!;
+      const won = engine.applyDamage(combat, goblin.id, 100, 'slashing', 'ally').combat;
+
+      expect(engine.checkCombatEnd(combat)).toEqual({ shouldEnd: true, outcome: 'defeat' });
+      expect(engine.checkCombatEnd(won)).toEqual({ shouldEnd: true, outcome: 'victory' });
+    });
+
+    it('should start combat with a character already at 0 HP dying', () => {
+      const combat = engine.startCombat({
+        playerCharacters: [{ ...mockCharacter, currentHp: 0, deathSaveFailures: 1 }],
+        enemies: [{ statBlock: mockGoblin }],
+      });
+
+      expect(thorin(combat)).toMatchObject({ status: 'dying', deathSaves: { successes: 0, failures: 1 } });
+    });
+  });
+
+  describe('legendary, lair and recharge abilities', () => {
+    const mockBoss: MonsterStatBlock = {
+      ...mockGoblin,
+      name: 'Goblin Boss',
+      actions: [
+        ...mockGoblin.actions,
+        { name: 'Fire Breath (Recharge 5-6)', desc: 'A gout of fire.', damage: [{ dice: '4d6', type: 'fire' }] },
+      ],
+      legendaryActions: [
+        { name: 'Dodge', desc: 'The boss ducks.' },
+        { name: 'Sweep (Costs 2 Actions)', desc: 'The boss swings wide.' },
+      ],
+      lairActions: [
+        { name: 'Collapse', desc: 'Rocks fall.' },
+        { name: 'Smoke', desc: 'Smoke fills the cave.' },
+      ],
+    };
+
+    const bossFight = (dice: DiceEngine = seededDice) => {
+      const fixedEngine = new CombatEngine(dice);
+      const combat = fixedEngine.startCombat({ playerCharacters: [mockCharacter], enemies: [{ statBlock: mockBoss, id: 'boss' }] });
+      return { fixedEngine, combat };
+    };
+
+    const turnOf = (combat: ReturnType<CombatEngine['startCombat']>, id: string) =>
+      ({ ...combat, currentTurnIndex: combat.initiativeOrder.findIndex((c) => c.id === id) });
+
+    it('should give the monster its legendary actions, ready recharges and a lair step on 20', () => {
+      const { combat } = bossFight();
+      const boss = combat.initiativeOrder.find((c) => c.id === 'boss')!;
+      const lair = combat.initiativeOrder.find((c) => c.type === 'lair')!;
+
+      expect(boss.legendaryActions).toEqual({ max: 3, remaining: 3 });
+      expect(boss.recharge).toEqual({ 'Fire Breath': true });
+      expect(lair).toMatchObject({ id: 'boss_lair', initiative: 20, lair: { ownerId: 'boss' } });
+    });
+
+    it('should put the lair after anyone else on initiative 20', () => {
+      const { combat } = bossFight(new DiceEngine(() => 0.99)); // Everyone rolls a natural 20
+      const order = combat.initiativeOrder.filter((c) => c.initiative === 20 || c.type === 'lair').map((c) => c.type);
+
+      expect(order[order.length - 1]).toBe('lair');
+    });
+
+    it('should spend legendary actions only at the end of another creature\'s turn', () => {
+      const { fixedEngine, combat } = bossFight();
+
+      const ownTurn = fixedEngine.useMonsterAction(turnOf(combat, 'boss'), 'boss', 'Dodge', 'legendary');
+      expect(ownTurn.result.success).toBe(false);
+
+      const sweep = fixedEngine.useMonsterAction(turnOf(combat, 'player1'), 'boss', 'sweep', 'legendary');
+      expect(sweep.result).toMatchObject({ success: true, cost: 2, legendaryActionsRemaining: 1 });
+
+      const again = fixedEngine.useMonsterAction(sweep.combat, 'boss', 'Sweep', 'legendary');
+      expect(again.result.success).toBe(false);
+    });
+
+    it('should refresh legendary actions and roll recharge at the start of the monster\'s turn', () => {
+      const { fixedEngine, combat } = bossFight(new DiceEngine(() => 0.7)); // 5 on a d6
+      let fight = fixedEngine.useMonsterAction(turnOf(combat, 'boss'), 'boss', 'Fire Breath', 'action').combat;
+      fight = fixedEngine.useMonsterAction(turnOf(fight, 'player1'), 'boss', 'Dodge', 'legendary').combat;
+
+      const spent = fight.initiativeOrder.find((c) => c.id === 'boss')!;
+      expect(spent.recharge).toEqual({ 'Fire Breath': false });
+      expect(fixedEngine.useMonsterAction(fight, 'boss', 'Fire Breath', 'action').result.reason).toMatch(/recharged/);
+
+      const { combat: started, recharges } = fixedEngine.startMonsterTurn(fight, 'boss');
+      const boss = started.initiativeOrder.find((c) => c.id === 'boss')!;
+      expect(recharges).toEqual([{ combatantId: 'boss', name: 'Goblin Boss', ability: 'Fire Breath', roll: 5, recharged: true }]);
+      expect(boss.legendaryActions?.remaining).toBe(3);
+      expect(boss.recharge).toEqual({ 'Fire Breath': true });
+    });
+
+    it('should allow one lair action a round on the lair\'s turn, never the same twice running', () => {
+      const { fixedEngine, combat } = bossFight();
+      const lairTurn = turnOf(combat, 'boss_lair');
+
+      expect(fixedEngine.useMonsterAction(turnOf(combat, 'player1'), 'boss', 'Collapse', 'lair').result.success).toBe(false);
+
+      const collapse = fixedEngine.useMonsterAction(lairTurn, 'boss', 'Collapse', 'lair');
+      expect(collapse.result.success).toBe(true);
+      expect(fixedEngine.useMonsterAction(collapse.combat, 'boss', 'Smoke', 'lair').result.success).toBe(false);
+
+      const nextRound = { ...collapse.combat, round: collapse.combat.round + 1 };
+      expect(fixedEngine.useMonsterAction(nextRound, 'boss', 'Collapse', 'lair').result.success).toBe(false);
+      expect(fixedEngine.useMonsterAction(nextRound, 'boss', 'Smoke', 'lair').result.success).toBe(true);
+    });
+
+    it('should skip the lair once its owner is defeated', () => {
+      const { fixedEngine, combat } = bossFight();
+      const defeated = fixedEngine.applyDamage(combat, 'boss', 100, 'slashing', 'sword').combat;
+      const lairIndex = defeated.initiativeOrder.findIndex((c) => c.type === 'lair');
+      const before = { ...defeated, currentTurnIndex: (lairIndex + defeated.initiativeOrder.length - 1) % defeated.initiativeOrder.length };
+
+      const { combat: after } = fixedEngine.advanceTurn(before);
+      expect(after.initiativeOrder[after.currentTurnIndex].type).not.toBe('lair');
+      expect(fixedEngine.checkCombatEnd(after).outcome).toBe('victory');
+    });
+  });
+
   describe('addCondition', () => {
     it('should add condition to combatant', () => {
       const combat = engine.startCombat({
@@ -482,6 +738,39 @@ describe('CombatEngine', () => {
       const updatedElemental = updatedCombat.initiativeOrder.find((c) => c.id === elemental.id)!;
       expect(updatedElemental.conditions).toHaveLength(0); // Immune to poisoned
     });
+
+    it('should take away the movement left when grappled', () => {
+      const combat = engine.startCombat({
+        playerCharacters: [mockCharacter],
+        enemies: [{ statBlock: mockGoblin }],
+      });
+
+      const thorin = combat.initiativeOrder.find((c) => c.type === 'player_character')!;
+      const updated = engine.addCondition(combat, thorin.id, { condition: 'grappled', source: 'Goblin', durationType: 'until_dispelled' });
+
+      expect(engine.getCombatant(updated, thorin.id)!.turnResources.movementRemaining).toBe(0);
+    });
+
+    it('should stack exhaustion and kill at level 6', () => {
+      let combat = engine.startCombat({
+        playerCharacters: [mockCharacter],
+        enemies: [{ statBlock: mockGoblin }],
+      });
+      const thorin = combat.initiativeOrder.find((c) => c.type === 'player_character')!;
+      const exhaustion = { condition: 'exhaustion' as const, source: 'Forced march', durationType: 'until_dispelled' as const };
+
+      combat = engine.addCondition(combat, thorin.id, exhaustion);
+      combat = engine.addCondition(combat, thorin.id, { ...exhaustion, level: 2 });
+
+      let updated = engine.getCombatant(combat, thorin.id)!;
+      expect(updated.conditions).toEqual([{ ...exhaustion, level: 3 }]);
+      expect(updated.turnResources.movementRemaining).toBe(12); // Half of 25
+
+      combat = engine.addCondition(combat, thorin.id, { ...exhaustion, level: 3 });
+      updated = engine.getCombatant(combat, thorin.id)!;
+      expect(updated.status).toBe('dead');
+      expect(updated.currentHp).toBe(0);
+    });
   });
 
   describe('removeCondition', () => {
@@ -666,6 +955,28 @@ describe('CombatEngine', () => {
       expect(current.turnResources.hasBonusAction).toBe(true);
       expect(current.turnResources.movementRemaining).toBe(current.speed);
     });
+
+    it('should start a turn with no movement while restrained', () => {
+      expect(engine.createFreshTurnResources(30).movementRemaining).toBe(30);
+      expect(engine.createFreshTurnResources(30, [
+        { condition: 'restrained', source: 'Web', durationType: 'until_save' },
+      ]).movementRemaining).toBe(0);
+    });
+
+    it('should add a second move when dashing, once per turn', () => {
+      let combat = engine.startCombat({
+        playerCharacters: [mockCharacter],
+        enemies: [{ statBlock: mockGoblin }],
+      });
+      const thorin = combat.initiativeOrder.find((c) => c.type === 'player_character')!;
+
+      combat = engine.dash(combat, thorin.id);
+      combat = engine.dash(combat, thorin.id);
+
+      const updated = engine.getCombatant(combat, thorin.id)!;
+      expect(updated.turnResources.movementRemaining).toBe(50);
+      expect(updated.turnResources.dashed).toBe(true);
+    });
   });
 
   describe('position and distance', () => {
@@ -711,4 +1022,150 @@ describe('CombatEngine', () => {
       expect(distance).toBeNull();
     });
   });
+
+  describe('opportunity attacks', () => {
+    let combat: Combat;
+    let map: GameMap;
+    let playerId: string;
+    let goblinId: string;
+
+    const tokenFor = (combatantId: string) => map.entities.find((e) => e.sourceId === combatantId)!;
+
+    beforeEach(() => {
+      combat = engine.startCombat({
+        playerCharacters: [mockCharacter],
+        enemies: [{ statBlock: mockGoblin }],
+      });
+      playerId = combat.initiativeOrder.find((c) => c.type === 'player_character')!.id;
+      goblinId = combat.initiativeOrder.find((c) => c.type === 'enemy')!.id;
+
+      map = SpatialEngine.createEmptyMap(10, 10, 'Arena');
+      const token = { size: 'medium' as const, speed: 30, movementUsed: 0, conditions: [], isVisible: true };
+      SpatialEngine.placeEntity(map, { ...token, entityType: 'player', name: 'Thorin', position: { x: 1, y: 0 }, sourceId: playerId });
+      SpatialEngine.placeEntity(map, { ...token, entityType: 'enemy', name: 'Goblin', position: { x: 1, y: 1 }, sourceId: goblinId });
+    });
+
+    it('should offer an attack and spend the reaction when leaving reach', () => {
+      const result = engine.moveOnMap(combat, map, tokenFor(playerId), [{ x: 2, y: 0 }, { x: 3, y: 0 }]);
+
+      expect(result.offers).toEqual([{ attackerId: goblinId, attackerName: 'Goblin', weapon: 'Scimitar' }]);
+      expect(engine.getCombatant(result.combat, goblinId)!.turnResources.hasReaction).toBe(false);
+
+      const player = engine.getCombatant(result.combat, playerId)!;
+      expect(player.position).toEqual({ x: 3, y: 0 });
+      expect(player.turnResources.movementRemaining).toBe(15);
+      expect(tokenFor(playerId).position).toEqual({ x: 3, y: 0 });
+    });
+
+    it('should not provoke after disengaging', () => {
+      const result = engine.moveOnMap(combat, map, tokenFor(playerId), [{ x: 2, y: 0 }, { x: 3, y: 0 }], { disengage: true });
+
+      expect(result.offers).toEqual([]);
+      expect(engine.getCombatant(result.combat, playerId)!.turnResources.disengaged).toBe(true);
+      expect(engine.getCombatant(result.combat, goblinId)!.turnResources.hasReaction).toBe(true);
+    });
+
+    it('should skip attackers that cannot react', () => {
+      const spent = engine.useReaction(combat, goblinId);
+      expect(engine.offerOpportunityAttacks(spent, [goblinId]).offers).toEqual([]);
+
+      const stunned = engine.addCondition(combat, goblinId, { condition: 'stunned', source: 'Stunning Strike', durationType: 'rounds', durationValue: 1 });
+      expect(engine.offerOpportunityAttacks(stunned, [goblinId]).offers).toEqual([]);
+    });
+
+    it('should use the longest melee reach from a stat block', () => {
+      const troll: MonsterStatBlock = {
+        ...mockGoblin,
+        name: 'Troll',
+        actions: [{
+          name: 'Claw',
+          desc: 'Melee Weapon Attack: +7 to hit, reach 10 ft., one target.',
+          attackBonus: 7,
+          damage: [{ dice: '2d6+4', type: 'slashing' }],
+        }],
+      };
+      const trollCombat = engine.startCombat({ playerCharacters: [], enemies: [{ statBlock: troll }] });
+
+      expect(engine.getReach(trollCombat.initiativeOrder[0])).toBe(10);
+      expect(engine.getReach(engine.getCombatant(combat, playerId)!)).toBe(5);
+    });
+
+    it('should give characters the reach of their equipped weapon', () => {
+      const halberdier = { ...mockCharacter, inventory: [{ name: 'Halberd', quantity: 1 }], equippedItems: { mainHand: 'Halberd' } };
+      const reachCombat = engine.startCombat({ playerCharacters: [halberdier], enemies: [] });
+
+      expect(engine.getReach(reachCombat.initiativeOrder[0])).toBe(10);
+    });
+  });
+
+  describe('concentration', () => {
+    // Thorin concentrating on a spell that holds the goblin
+    const concentratingCombat = (dice: DiceEngine) => {
+      const fixedEngine = new CombatEngine(dice);
+      let combat = engine.startCombat({
+        playerCharacters: [mockCharacter],
+        enemies: [{ statBlock: mockGoblin }],
+      });
+      const goblin = combat.initiativeOrder.find((c) => c.type === 'enemy')!;
+      combat = engine.addCondition(combat, 'player1', {
+        condition: 'concentrating', source: 'Hold Person', casterId: 'player1', durationType: 'rounds', durationValue: 10,
+      });
+      combat = engine.addCondition(combat, goblin.id, {
+        condition: 'paralyzed', source: 'Hold Person', casterId: 'player1', durationType: 'rounds', durationValue: 10,
+      });
+      return { fixedEngine, combat, goblin };
+    };
+
+    const conditionsOf = (combat: ReturnType<CombatEngine['startCombat']>, id: string) =>
+      combat.initiativeOrder.find((c) => c.id === id)!.conditions.map((c) => c.condition);
+
+    it('should give player combatants their saving throw modifiers', () => {
+      const combat = engine.startCombat({ playerCharacters: [mockCharacter], enemies: [{ statBlock: mockGoblin }] });
+      const player = combat.initiativeOrder.find((c) => c.id === 'player1')!;
+
+      // +3 CON, +3 proficiency at level 5
+      expect(engine.getSaveModifier(player, 'constitution')).toBe(6);
+      expect(engine.getSaveModifier(player, 'charisma')).toBe(-1);
+    });
+
+    it('should keep concentration on a successful CON save', () => {
+      const { fixedEngine, combat, goblin } = concentratingCombat(new DiceEngine(() => 0.99));
+      const { combat: updated, result } = fixedEngine.applyDamage(combat, 'player1', 24, 'slashing', 'goblin');
+
+      expect(result.concentration).toEqual({ spell: 'Hold Person', dc: 12, roll: 20, modifier: 6, total: 26, maintained: true });
+      expect(result.concentrationEnded).toBeUndefined();
+      expect(conditionsOf(updated, goblin.id)).toEqual(['paralyzed']);
+    });
+
+    it('should end concentration and its effects on a failed save', () => {
+      const { fixedEngine, combat, goblin } = concentratingCombat(new DiceEngine(() => 0));
+      const { combat: updated, result } = fixedEngine.applyDamage(combat, 'player1', 30, 'slashing', 'goblin');
+
+      expect(result.concentration?.maintained).toBe(false);
+      expect(result.concentrationEnded).toBe('Hold Person');
+      expect(conditionsOf(updated, 'player1')).toEqual([]);
+      expect(conditionsOf(updated, goblin.id)).toEqual([]);
+    });
+
+    it('should end concentration without a save when dropped to 0 HP', () => {
+      const { fixedEngine, combat } = concentratingCombat(new DiceEngine(() => 0.99));
+      const { result } = fixedEngine.applyDamage(combat, 'player1', 100, 'slashing', 'goblin');
+
+      expect(result.concentration).toBeUndefined();
+      expect(result.concentrationEnded).toBe('Hold Person');
+    });
+
+    it('should expire sustained effects when the concentration runs out', () => {
+      const { combat, goblin } = concentratingCombat(seededDice);
+      const order = combat.initiativeOrder.map((c) => ({
+        ...c,
+        // Concentration has one round left; the hold itself was given longer
+        conditions: c.conditions.map((cond) => cond.condition === 'concentrating' ? { ...cond, durationValue: 1 } : cond),
+      }));
+
+      const updated = engine.processRoundEndConditions(order);
+      expect(updated.find((c) => c.id === 'player1')!.conditions).toEqual([]);
+      expect(updated.find((c) => c.id === goblin.id)!.conditions).toEqual([]);
+    });
+  });
 });
@@ -13,9 +13,49 @@ import type {
   TurnResources,
   InitiativeRollResult,
   DamageType,
+  Ability,
+  ConcentrationCheckResult,
+  DeathSaves,
+  DeathSaveResult,
+  MonsterAction,
+  RechargeRollResult,
+} from './types';
+import {
+  ABILITIES,
+  DEATH_SAVES_TO_RESOLVE,
+  getAbilityModifier,
+  getProficiencyBonus,
+  getConcentrationDc,
+  clampHp,
+  isMassiveDamage,
 } from './types';
-import { getAbilityModifier, clampHp } from './types';
 import { DiceEngine, diceEngine } from './dice-engine';
+import { endConcentration } from './spell-engine';
+import { DEATH_RULE_EFFECTS, scaleMonsterHp } from './campaign-rules';
+import {
+  LAIR_INITIATIVE,
+  findMonsterAction,
+  getBaseActionName,
+  getLegendaryActionBudget,
+  getLegendaryActionCost,
+  getRechargeThreshold,
+} from './monster-abilities';
+import type { DeathRules, Difficulty } from './campaign-rules';
+import {
+  INCAPACITATING_CONDITIONS,
+  MAX_EXHAUSTION_LEVEL,
+  adjustExhaustion,
+  getEffectiveConditions,
+  getExhaustionLevel,
+  getEffectiveMaxHp,
+  getEffectiveSpeed,
+  getSavingThrowEffects,
+} from './condition-effects';
+import { getCharacterAttacks } from './item-catalog';
+import { getAttackOptions } from './monster-tactics';
+import { SpatialEngine } from './spatial-engine';
+import { DEFAULT_REACH } from './spatial-types';
+import type { GameMap, GridPosition, MapEntity, MovementResult } from './spatial-types';
 
 export interface CombatStartParams {
   playerCharacters: Character[];
@@ -23,6 +63,17 @@ export interface CombatStartParams {
   allies?: { statBlock: MonsterStatBlock; count?: number; id?: string }[];
   surprisedIds?: string[];
   environmentalEffects?: string[];
+  difficulty?: Difficulty;   // Scales enemy HP (campaign ruleset)
+  deathRules?: DeathRules;   // Whether failed death saves outlast recovery (campaign ruleset)
+}
+
+export interface BasicStatBlockParams {
+  name: string;
+  hp: number;
+  ac: number;
+  dexterity?: number;
+  challengeRating?: number;
+  xp?: number;
 }
 
 export interface DamageApplicationResult {
@@ -36,6 +87,56 @@ export interface DamageApplicationResult {
   resistanceApplied?: DamageType;
   immunityApplied?: DamageType;
   vulnerabilityApplied?: DamageType;
+  concentration?: ConcentrationCheckResult;   // Save rolled because the target was concentrating
+  concentrationEnded?: string;                // Spell the target lost concentration on
+  deathSaves?: DeathSaves;                    // Player character at 0 HP after the damage
+  status?: CombatantStatus;                   // Target's status after the damage
+  instantDeath?: boolean;                     // Massive damage killed the target outright
+}
+
+// Unconsciousness applied to a player character who drops to 0 HP
+const UNCONSCIOUS_AT_ZERO_HP: ActiveCondition = { condition: 'unconscious', source: '0 HP', durationType: 'until_dispelled' };
+
+const NO_DEATH_SAVES: DeathSaves = { successes: 0, failures: 0 };
+
+// Whether damage and healing follow the player character rules (dying instead of defeated)
+function makesDeathSaves(combatant: Combatant): boolean {
+  return combatant.type === 'player_character' && !combatant.isMonster;
+}
+
+function withoutUnconscious(conditions: ActiveCondition[]): ActiveCondition[] {
+  return conditions.filter((c) => !(c.condition === 'unconscious' && c.source === UNCONSCIOUS_AT_ZERO_HP.source));
+}
+
+export type MonsterActionKind = 'action' | 'legendary' | 'lair';
+
+export interface MonsterActionUseResult {
+  success: boolean;
+  reason?: string;
+  combatantId: string;
+  name: string;
+  kind: MonsterActionKind;
+  action?: MonsterAction;
+  cost?: number;                        // Legendary action points spent
+  legendaryActionsRemaining?: number;
+}
+
+export interface OpportunityAttackOffer {
+  attackerId: string;
+  attackerName: string;
+  weapon?: string;        // A monster's best melee attack
+}
+
+export interface CombatMovementResult {
+  combat: Combat;
+  movement: MovementResult;
+  offers: OpportunityAttackOffer[];   // Provoked opportunity attacks - the attackers' reactions are already spent
+}
+
+export interface TurnAdvanceResult {
+  combat: Combat;
+  deathSaves: DeathSaveResult[];        // Rolled by dying characters whose turns came up
+  recharges: RechargeRollResult[];      // Rolled by monsters at the start of their turn
 }
 
 export interface HealingApplicationResult {
@@ -59,6 +160,10 @@ export class CombatEngine {
    * Create a combatant from a player character
    */
   createCombatantFromCharacter(character: Character, initiative: InitiativeRollResult['combatants'][0]): Combatant {
+    const conditions = character.currentHp > 0
+      ? [...character.conditions]
+      : [...withoutUnconscious(character.conditions), UNCONSCIOUS_AT_ZERO_HP];
+
     return {
       id: character.id,
       name: character.name,
@@ -70,10 +175,17 @@ export class CombatEngine {
       maxHp: character.maxHp,
       armorClass: character.armorClass,
       speed: character.speed,
-      conditions: [...character.conditions],
-      status: character.currentHp > 0 ? 'active' : 'defeated',
-      turnResources: this.createFreshTurnResources(character.speed),
+      conditions,
+      status: this.getStatusAtHp(character.currentHp, character.deathSaveSuccesses, character.deathSaveFailures),
+      deathSaves: { successes: character.deathSaveSuccesses, failures: character.deathSaveFailures },
+      turnResources: this.createFreshTurnResources(character.speed, conditions),
       sourceId: character.id,
+      reach: Math.max(DEFAULT_REACH, ...getCharacterAttacks(character).filter((a) => !a.ranged).map((a) => a.reach)),
+      saveModifiers: Object.fromEntries(ABILITIES.map((ability) => [
+        ability,
+        getAbilityModifier(character.abilityScores[ability]) +
+          (character.savingThrowProficiencies.includes(ability) ? getProficiencyBonus(character.level) : 0),
+      ])),
       isMonster: false,
     };
   }
@@ -104,6 +216,86 @@ export class CombatEngine {
       turnResources: this.createFreshTurnResources(statBlock.speed.walk ?? 30),
       isMonster: true,
       monsterStatBlock: statBlock,
+      ...this.createMonsterAbilityState(statBlock),
+    };
+  }
+
+  /**
+   * Legendary action budget and recharge abilities (all ready) for a monster joining combat
+   */
+  createMonsterAbilityState(statBlock: MonsterStatBlock): Pick<Combatant, 'legendaryActions' | 'recharge'> {
+    const state: Pick<Combatant, 'legendaryActions' | 'recharge'> = {};
+
+    const budget = getLegendaryActionBudget(statBlock);
+    if (budget > 0) {
+      state.legendaryActions = { max: budget, remaining: budget };
+    }
+
+    const rechargeable = statBlock.actions.filter((a) => getRechargeThreshold(a) !== null);
+    if (rechargeable.length > 0) {
+      state.recharge = Object.fromEntries(rechargeable.map((a) => [getBaseActionName(a.name), true]));
+    }
+
+    return state;
+  }
+
+  /**
+   * The lair action step for a monster fighting in its lair
+   */
+  createLairCombatant(owner: Combatant, actions: MonsterAction[]): Combatant {
+    return {
+      id: `${owner.id}_lair`,
+      name: `${owner.name}'s Lair`,
+      type: 'lair',
+      initiative: LAIR_INITIATIVE,
+      initiativeModifier: 0,
+      initiativeRoll: LAIR_INITIATIVE,
+      currentHp: 0,
+      maxHp: 0,
+      armorClass: 0,
+      speed: 0,
+      conditions: [],
+      status: 'active',
+      turnResources: this.createFreshTurnResources(0),
+      isMonster: true,
+      lair: { ownerId: owner.id, actions },
+    };
+  }
+
+  /**
+   * A player character's status from their HP and death saves - three successes at 0 HP means stable
+   */
+  getStatusAtHp(currentHp: number, successes: number, failures: number): CombatantStatus {
+    if (currentHp > 0) return 'active';
+    if (failures >= DEATH_SAVES_TO_RESOLVE) return 'dead';
+    if (successes >= DEATH_SAVES_TO_RESOLVE) return 'stable';
+    return 'dying';
+  }
+
+  /**
+   * Build a minimal stat block for an enemy with no rules entry
+   */
+  createBasicStatBlock(params: BasicStatBlockParams): MonsterStatBlock {
+    return {
+      name: params.name,
+      size: 'Medium',
+      type: 'humanoid',
+      alignment: 'neutral',
+      armorClass: params.ac,
+      hitPoints: params.hp,
+      hitDice: `${Math.ceil(params.hp / 5)}d8`,
+      speed: { walk: 30 },
+      abilityScores: {
+        strength: 10,
+        dexterity: params.dexterity ?? 10,
+        constitution: 10,
+        intelligence: 10,
+        wisdom: 10,
+        charisma: 10,
+      },
+      challengeRating: params.challengeRating ?? 0.25,
+      xp: params.xp ?? 50,
+      actions: [],
     };
   }
 
@@ -121,14 +313,15 @@ export class CombatEngine {
   }
 
   /**
-   * Create fresh turn resources
+   * Create fresh turn resources. Conditions can take away movement (grappled,
+   * restrained, exhaustion).
    */
-  createFreshTurnResources(speed: number): TurnResources {
+  createFreshTurnResources(speed: number, conditions: ActiveCondition[] = []): TurnResources {
     return {
       hasAction: true,
       hasBonusAction: true,
       hasReaction: true,
-      movementRemaining: speed,
+      movementRemaining: getEffectiveSpeed(speed, conditions),
     };
   }
 
@@ -197,7 +390,9 @@ export class CombatEngine {
       for (let i = 0; i < count; i++) {
         const instanceId = enemy.id ?? `${enemy.statBlock.name.toLowerCase().replace(/\s+/g, '_')}_${i + 1}`;
         const init = initiativeMap.get(instanceId)!;
-        combatants.push(this.createCombatantFromMonster(enemy.statBlock, 'enemy', init, instanceId));
+        const combatant = this.createCombatantFromMonster(enemy.statBlock, 'enemy', init, instanceId);
+        const hp = scaleMonsterHp(combatant.maxHp, params.difficulty ?? 'standard');
+        combatants.push({ ...combatant, currentHp: hp, maxHp: hp });
       }
     }
 
@@ -213,9 +408,16 @@ export class CombatEngine {
       }
     }
 
-    // Sort by initiative (already sorted from dice.rollInitiative)
+    // The first enemy with lair actions fights in its lair
+    const lairOwner = combatants.find((c) => c.type === 'enemy' && c.monsterStatBlock?.lairActions?.length);
+    if (lairOwner) {
+      combatants.push(this.createLairCombatant(lairOwner, lairOwner.monsterStatBlock!.lairActions!));
+    }
+
+    // Sort by initiative (already sorted from dice.rollInitiative); the lair loses ties
     combatants.sort((a, b) => {
       if (b.initiative !== a.initiative) return b.initiative - a.initiative;
+      if ((a.type === 'lair') !== (b.type === 'lair')) return a.type === 'lair' ? 1 : -1;
       return b.initiativeModifier - a.initiativeModifier;
     });
 
@@ -227,6 +429,7 @@ export class CombatEngine {
       surprisedCombatants: params.surprisedIds ?? [],
       environmentalEffects: params.environmentalEffects ?? [],
       active: true,
+      deathSaveFailuresPersist: DEATH_RULE_EFFECTS[params.deathRules ?? 'standard'].failuresPersist,
     };
   }
 
@@ -244,77 +447,295 @@ export class CombatEngine {
    * Advance to the next turn
    */
   nextTurn(combat: Combat): Combat {
+    return this.advanceTurn(combat).combat;
+  }
+
+  /**
+   * Advance to the next combatant who can act. A dying player character's turn is
+   * their death save, rolled as the turn starts; unless a natural 20 brings them
+   * back, play moves on to the next combatant. A monster starting its turn regains
+   * its legendary actions and rolls to recharge spent abilities. The lair step is
+   * skipped once its owner is down.
+   */
+  advanceTurn(combat: Combat): TurnAdvanceResult {
     if (!combat.active) {
-      return combat;
+      return { combat, deathSaves: [], recharges: [] };
     }
 
-    const activeCombatants = combat.initiativeOrder.filter((c) => c.status === 'active');
-    if (activeCombatants.length === 0) {
-      return { ...combat, active: false };
+    const takesTurns = (c: Combatant) => c.type !== 'lair' && (c.status === 'active' || c.status === 'dying');
+    if (!combat.initiativeOrder.some(takesTurns)) {
+      return { combat: { ...combat, active: false }, deathSaves: [], recharges: [] };
     }
 
     // Reset current combatant's turn resources for next round
     const currentCombatant = combat.initiativeOrder[combat.currentTurnIndex];
     if (currentCombatant) {
-      currentCombatant.turnResources = this.createFreshTurnResources(currentCombatant.speed);
+      currentCombatant.turnResources = this.createFreshTurnResources(currentCombatant.speed, getEffectiveConditions(currentCombatant));
     }
 
-    // Find next active combatant
+    const deathSaves: DeathSaveResult[] = [];
+    const recharges: RechargeRollResult[] = [];
+    let updated: Combat = combat;
     let nextIndex = combat.currentTurnIndex;
-    let roundIncrement = 0;
-    let iterations = 0;
-    const maxIterations = combat.initiativeOrder.length + 1;
 
-    do {
+    for (let step = 0; step < combat.initiativeOrder.length; step++) {
       nextIndex = (nextIndex + 1) % combat.initiativeOrder.length;
+
+      // Process round change effects
       if (nextIndex === 0) {
-        roundIncrement = 1;
+        updated = {
+          ...updated,
+          round: updated.round + 1,
+          initiativeOrder: this.processRoundEndConditions(updated.initiativeOrder),
+          // Clear surprised status after round 1
+          surprisedCombatants: updated.round === 1 ? [] : updated.surprisedCombatants,
+        };
       }
-      iterations++;
-      if (iterations > maxIterations) {
-        // Safety: prevent infinite loop
-        return { ...combat, active: false };
+
+      const next = updated.initiativeOrder[nextIndex];
+      if (next.status === 'dying') {
+        const save = this.rollDeathSave(updated, next.id);
+        updated = save.combat;
+        deathSaves.push(save.result);
       }
-    } while (combat.initiativeOrder[nextIndex].status !== 'active');
-
-    // Process round change effects
-    const newRound = combat.round + roundIncrement;
-    let updatedOrder = combat.initiativeOrder;
-
-    if (roundIncrement > 0) {
-      // Process condition durations at round end
-      updatedOrder = this.processRoundEndConditions(combat.initiativeOrder);
-
-      // Clear surprised status after round 1
-      if (combat.round === 1) {
-        return {
-          ...combat,
-          round: newRound,
-          currentTurnIndex: nextIndex,
-          initiativeOrder: updatedOrder,
-          surprisedCombatants: [],
-        };
+
+      if (next.lair && this.getCombatant(updated, next.lair.ownerId)?.status !== 'active') {
+        continue;
+      }
+
+      if (next.isMonster && next.status === 'active' && !next.lair) {
+        const started = this.startMonsterTurn(updated, next.id);
+        updated = started.combat;
+        recharges.push(...started.recharges);
+      }
+
+      if (updated.initiativeOrder[nextIndex].status === 'active') {
+        return { combat: { ...updated, currentTurnIndex: nextIndex }, deathSaves, recharges };
       }
     }
 
-    return {
+    // Safety: nobody left who can act
+    return { combat: { ...updated, active: false }, deathSaves, recharges };
+  }
+
+  /**
+   * Start of a monster's turn: legendary actions come back and each spent
+   * recharge ability rolls a d6 to return
+   */
+  startMonsterTurn(combat: Combat, monsterId: string): { combat: Combat; recharges: RechargeRollResult[] } {
+    const recharges: RechargeRollResult[] = [];
+
+    const initiativeOrder = combat.initiativeOrder.map((c) => {
+      if (c.id !== monsterId) return c;
+
+      const recharge = c.recharge ? { ...c.recharge } : undefined;
+      if (recharge) {
+        Object.keys(recharge).forEach((ability) => {
+          if (recharge[ability]) return;
+          const action = findMonsterAction(c.monsterStatBlock?.actions, ability);
+          const threshold = action ? getRechargeThreshold(action) : null;
+          if (threshold === null) return;
+
+          const roll = this.dice.rollDie(6);
+          recharge[ability] = roll >= threshold;
+          recharges.push({ combatantId: c.id, name: c.name, ability, roll, recharged: roll >= threshold });
+        });
+      }
+
+      return {
+        ...c,
+        ...(c.legendaryActions ? { legendaryActions: { ...c.legendaryActions, remaining: c.legendaryActions.max } } : {}),
+        ...(recharge ? { recharge } : {}),
+      };
+    });
+
+    return { combat: { ...combat, initiativeOrder }, recharges };
+  }
+
+  /**
+   * Use one of a monster's actions. Legendary actions spend points and only happen at the
+   * end of another creature's turn; lair actions happen on the lair's step, once a round and
+   * never the same one twice running; recharge abilities must be ready and are spent.
+   */
+  useMonsterAction(
+    combat: Combat,
+    monsterId: string,
+    actionName: string,
+    kind: MonsterActionKind
+  ): { combat: Combat; result: MonsterActionUseResult } {
+    const monster = this.getCombatant(combat, monsterId);
+    if (!monster) {
+      throw new Error(`Combatant with id ${monsterId} not found`);
+    }
+
+    const fail = (reason: string) => ({
+      combat,
+      result: { success: false, reason, combatantId: monster.id, name: monster.name, kind },
+    });
+    const current = this.getCurrentCombatant(combat);
+    const update = (changes: Partial<Combatant>, id = monster.id): Combat => ({
       ...combat,
-      round: newRound,
-      currentTurnIndex: nextIndex,
-      initiativeOrder: updatedOrder,
+      initiativeOrder: combat.initiativeOrder.map((c) => (c.id === id ? { ...c, ...changes } : c)),
+    });
+
+    if (kind === 'lair') {
+      const lairStep = monster.lair ? monster : combat.initiativeOrder.find((c) => c.lair?.ownerId === monster.id);
+      if (!lairStep?.lair) return fail(`${monster.name} has no lair actions`);
+      if (current?.id !== lairStep.id) return fail('Lair actions happen on initiative count 20');
+      if (lairStep.lair.usedRound === combat.round) return fail('The lair has already acted this round');
+
+      const action = findMonsterAction(lairStep.lair.actions, actionName);
+      if (!action) return fail(`Unknown lair action: ${actionName}`);
+      if (lairStep.lair.lastUsed === action.name) return fail(`${action.name} can't be used two rounds in a row`);
+
+      return {
+        combat: update({ lair: { ...lairStep.lair, lastUsed: action.name, usedRound: combat.round } }, lairStep.id),
+        result: { success: true, combatantId: lairStep.id, name: lairStep.name, kind, action },
+      };
+    }
+
+    if (monster.status !== 'active') return fail(`${monster.name} is ${monster.status}`);
+
+    if (kind === 'legendary') {
+      const budget = monster.legendaryActions;
+      const action = findMonsterAction(monster.monsterStatBlock?.legendaryActions, actionName);
+      if (!budget || !action) return fail(`${monster.name} has no legendary action called ${actionName}`);
+      if (current?.id === monster.id) return fail('Legendary actions are taken at the end of another creature\'s turn');
+      if (monster.conditions.some((c) => INCAPACITATING_CONDITIONS.includes(c.condition))) {
+        return fail(`${monster.name} is incapacitated`);
+      }
+
+      const cost = getLegendaryActionCost(action);
+      if (cost > budget.remaining) return fail(`${action.name} costs ${cost}; ${budget.remaining} legendary action(s) left`);
+
+      const remaining = budget.remaining - cost;
+      return {
+        combat: update({ legendaryActions: { ...budget, remaining } }),
+        result: { success: true, combatantId: monster.id, name: monster.name, kind, action, cost, legendaryActionsRemaining: remaining },
+      };
+    }
+
+    const action = findMonsterAction(monster.monsterStatBlock?.actions, actionName);
+    if (!action) return fail(`${monster.name} has no action called ${actionName}`);
+
+    const ability = getBaseActionName(action.name);
+    if (monster.recharge?.[ability] === undefined) {
+      return { combat, result: { success: true, combatantId: monster.id, name: monster.name, kind, action } };
+    }
+    if (!monster.recharge[ability]) return fail(`${ability} hasn't recharged`);
+
+    return {
+      combat: update({ recharge: { ...monster.recharge, [ability]: false } }),
+      result: { success: true, combatantId: monster.id, name: monster.name, kind, action },
+    };
+  }
+
+  /**
+   * Roll a dying combatant's death save. A natural 20 brings them back with 1 HP,
+   * a natural 1 counts as two failures; three successes stabilize, three failures kill.
+   */
+  rollDeathSave(combat: Combat, targetId: string): { combat: Combat; result: DeathSaveResult } {
+    const targetIndex = combat.initiativeOrder.findIndex((c) => c.id === targetId);
+    if (targetIndex === -1) {
+      throw new Error(`Combatant with id ${targetId} not found`);
+    }
+
+    const target = combat.initiativeOrder[targetIndex];
+    if (target.status !== 'dying') {
+      throw new Error(`${target.name} is not dying`);
+    }
+
+    const save = this.dice.rollDeathSave();
+    const saves = target.deathSaves ?? NO_DEATH_SAVES;
+    let updatedTarget: Combatant;
+    let outcome: DeathSaveResult['outcome'];
+
+    if (save.isStabilized) {
+      outcome = 'revived';
+      updatedTarget = {
+        ...target,
+        currentHp: 1,
+        status: 'active',
+        conditions: withoutUnconscious(target.conditions),
+        deathSaves: this.getDeathSavesAfterRecovery(combat, saves),
+      };
+    } else {
+      const successes = saves.successes + (save.isSuccess ? 1 : 0);
+      const failures = Math.min(DEATH_SAVES_TO_RESOLVE, saves.failures + (save.isSuccess ? 0 : save.roll === 1 ? 2 : 1));
+      const status = this.getStatusAtHp(0, successes, failures);
+      outcome = status === 'dead' ? 'dead' : status === 'stable' ? 'stable' : save.isSuccess ? 'success' : 'failure';
+      updatedTarget = {
+        ...target,
+        status,
+        deathSaves: status === 'stable' ? this.getStableDeathSaves(combat, saves) : { successes, failures },
+      };
+    }
+
+    const updatedOrder = [...combat.initiativeOrder];
+    updatedOrder[targetIndex] = updatedTarget;
+
+    return {
+      combat: { ...combat, initiativeOrder: updatedOrder },
+      result: {
+        combatantId: target.id,
+        name: target.name,
+        roll: save.roll,
+        outcome,
+        successes: updatedTarget.deathSaves!.successes,
+        failures: updatedTarget.deathSaves!.failures,
+      },
+    };
+  }
+
+  /**
+   * Stabilize a dying combatant (a successful DC 10 Medicine check, a healer's kit or
+   * Spare the Dying). They stay unconscious at 0 HP but stop making death saves.
+   */
+  stabilize(combat: Combat, targetId: string): Combat {
+    const targetIndex = combat.initiativeOrder.findIndex((c) => c.id === targetId);
+    if (targetIndex === -1) {
+      throw new Error(`Combatant with id ${targetId} not found`);
+    }
+
+    const target = combat.initiativeOrder[targetIndex];
+    if (target.status !== 'dying') {
+      return combat;
+    }
+
+    const updatedOrder = [...combat.initiativeOrder];
+    updatedOrder[targetIndex] = {
+      ...target,
+      status: 'stable',
+      deathSaves: this.getStableDeathSaves(combat, target.deathSaves ?? NO_DEATH_SAVES),
     };
+
+    return { ...combat, initiativeOrder: updatedOrder };
+  }
+
+  // Death saves once a character regains hit points
+  private getDeathSavesAfterRecovery(combat: Combat, saves: DeathSaves): DeathSaves {
+    return { successes: 0, failures: combat.deathSaveFailuresPersist ? saves.failures : 0 };
+  }
+
+  // Death saves once a character is stable - the three successes mark it
+  private getStableDeathSaves(combat: Combat, saves: DeathSaves): DeathSaves {
+    return { successes: DEATH_SAVES_TO_RESOLVE, failures: combat.deathSaveFailuresPersist ? saves.failures : 0 };
   }
 
   /**
-   * Process condition durations at round end
+   * Process condition durations at round end. When a concentration spell runs
+   * out, the effects it sustains on other combatants end with it.
    */
   processRoundEndConditions(combatants: Combatant[]): Combatant[] {
-    return combatants.map((c) => {
+    const expiredConcentration: string[] = [];
+
+    const updated = combatants.map((c) => {
       const updatedConditions = c.conditions
         .map((cond) => {
           if (cond.durationType === 'rounds' && cond.durationValue !== undefined) {
             const newDuration = cond.durationValue - 1;
             if (newDuration <= 0) {
+              if (cond.condition === 'concentrating') expiredConcentration.push(c.id);
               return null; // Remove expired condition
             }
             return { ...cond, durationValue: newDuration };
@@ -325,6 +746,36 @@ export class CombatEngine {
 
       return { ...c, conditions: updatedConditions };
     });
+
+    return expiredConcentration.reduce(
+      (order, casterId) => order.map((c) => ({ ...c, conditions: endConcentration(c.conditions, casterId, c.id) })),
+      updated
+    );
+  }
+
+  /**
+   * A combatant's saving throw modifier for an ability
+   */
+  getSaveModifier(combatant: Combatant, ability: Ability): number {
+    if (combatant.saveModifiers?.[ability] !== undefined) {
+      return combatant.saveModifiers[ability]!;
+    }
+    const statBlock = combatant.monsterStatBlock;
+    if (!statBlock) return 0;
+    return statBlock.savingThrows?.[ability] ?? getAbilityModifier(statBlock.abilityScores[ability]);
+  }
+
+  /**
+   * End a combatant's concentration, removing the effects it sustains from everyone
+   */
+  endConcentration(combat: Combat, casterId: string): Combat {
+    return {
+      ...combat,
+      initiativeOrder: combat.initiativeOrder.map((c) => ({
+        ...c,
+        conditions: endConcentration(c.conditions, casterId, c.id),
+      })),
+    };
   }
 
   /**
@@ -335,7 +786,8 @@ export class CombatEngine {
     targetId: string,
     amount: number,
     damageType: DamageType,
-    _source: string
+    _source: string,
+    isCritical = false
   ): { combat: Combat; result: DamageApplicationResult } {
     const targetIndex = combat.initiativeOrder.findIndex((c) => c.id === targetId);
     if (targetIndex === -1) {
@@ -343,7 +795,7 @@ export class CombatEngine {
     }
 
     const target = combat.initiativeOrder[targetIndex];
-    const wasAlreadyDefeated = target.status === 'defeated';
+    const wasAlreadyDefeated = target.currentHp <= 0 && target.status !== 'active';
 
     let actualDamage = amount;
 
@@ -363,14 +815,26 @@ export class CombatEngine {
     const newHp = clampHp(previousHp - actualDamage, target.maxHp);
     const isDefeated = newHp <= 0;
 
-    const updatedTarget: Combatant = {
+    let updatedTarget: Combatant = {
       ...target,
       currentHp: newHp,
       status: isDefeated ? 'defeated' : target.status,
     };
 
+    // Player characters fall unconscious and start dying instead of being defeated
+    const death = makesDeathSaves(target) && isDefeated ? this.getDamageAtZeroHp(target, actualDamage, isCritical) : undefined;
+    if (death) {
+      updatedTarget = {
+        ...updatedTarget,
+        status: death.status,
+        deathSaves: death.deathSaves,
+        conditions: [...withoutUnconscious(target.conditions), UNCONSCIOUS_AT_ZERO_HP],
+      };
+    }
+
     const updatedOrder = [...combat.initiativeOrder];
     updatedOrder[targetIndex] = updatedTarget;
+    let updatedCombat: Combat = { ...combat, initiativeOrder: updatedOrder };
 
     const result: DamageApplicationResult = {
       targetId,
@@ -382,6 +846,12 @@ export class CombatEngine {
       wasAlreadyDefeated,
     };
 
+    if (death) {
+      result.status = death.status;
+      result.deathSaves = death.deathSaves;
+      if (death.instantDeath) result.instantDeath = true;
+    }
+
     if (actualDamage === 0 && target.isMonster && target.monsterStatBlock?.damageImmunities?.includes(damageType)) {
       result.immunityApplied = damageType;
     } else if (actualDamage < amount && target.isMonster && target.monsterStatBlock?.damageResistances?.includes(damageType)) {
@@ -390,12 +860,64 @@ export class CombatEngine {
       result.vulnerabilityApplied = damageType;
     }
 
+    // Damage forces a Constitution save to keep concentrating; dropping to 0 HP ends it outright
+    const concentrating = target.conditions.find((c) => c.condition === 'concentrating');
+    if (concentrating && actualDamage > 0 && !wasAlreadyDefeated) {
+      if (!isDefeated) {
+        const dc = getConcentrationDc(actualDamage);
+        const roll = this.dice.rollD20(getSavingThrowEffects(target, 'constitution').advantage);
+        const modifier = this.getSaveModifier(target, 'constitution');
+        result.concentration = {
+          spell: concentrating.source,
+          dc,
+          roll,
+          modifier,
+          total: roll + modifier,
+          maintained: roll + modifier >= dc,
+        };
+      }
+      if (isDefeated || !result.concentration?.maintained) {
+        result.concentrationEnded = concentrating.source;
+        updatedCombat = this.endConcentration(updatedCombat, targetId);
+      }
+    }
+
     return {
-      combat: { ...combat, initiativeOrder: updatedOrder },
+      combat: updatedCombat,
       result,
     };
   }
 
+  /**
+   * Where a player character stands after damage leaves them at 0 HP. Massive damage
+   * kills outright; damage while already down is a failed death save (two on a critical hit).
+   */
+  getDamageAtZeroHp(
+    target: Pick<Combatant, 'currentHp' | 'maxHp' | 'status' | 'deathSaves'>,
+    damage: number,
+    isCritical: boolean
+  ): { status: CombatantStatus; deathSaves: DeathSaves; instantDeath: boolean } {
+    const saves = target.deathSaves ?? NO_DEATH_SAVES;
+
+    if (target.status === 'dead') {
+      return { status: 'dead', deathSaves: saves, instantDeath: false };
+    }
+    if (isMassiveDamage(target.currentHp, damage, target.maxHp)) {
+      return { status: 'dead', deathSaves: { ...saves, failures: DEATH_SAVES_TO_RESOLVE }, instantDeath: true };
+    }
+    if (target.currentHp > 0) {
+      return { status: 'dying', deathSaves: { successes: 0, failures: saves.failures }, instantDeath: false };
+    }
+    if (damage <= 0) {
+      return { status: target.status, deathSaves: saves, instantDeath: false };
+    }
+
+    // A stable character who takes damage starts dying again
+    const successes = target.status === 'stable' ? 0 : saves.successes;
+    const failures = Math.min(DEATH_SAVES_TO_RESOLVE, saves.failures + (isCritical ? 2 : 1));
+    return { status: this.getStatusAtHp(0, successes, failures), deathSaves: { successes, failures }, instantDeath: false };
+  }
+
   /**
    * Apply healing to a combatant
    */
@@ -413,15 +935,26 @@ export class CombatEngine {
     const target = combat.initiativeOrder[targetIndex];
     const previousHp = target.currentHp;
     const wasAtZero = previousHp === 0;
-    const newHp = clampHp(previousHp + amount, target.maxHp);
+    // The dead stay dead - healing can't bring them back
+    const maxHp = getEffectiveMaxHp(target.maxHp, target.conditions);
+    const newHp = target.status === 'dead' ? previousHp : clampHp(previousHp + amount, maxHp);
     const actualHealing = newHp - previousHp;
 
-    const updatedTarget: Combatant = {
+    let updatedTarget: Combatant = {
       ...target,
       currentHp: newHp,
       status: newHp > 0 ? 'active' : target.status,
     };
 
+    // Any healing brings a dying or stable character back to consciousness
+    if (makesDeathSaves(target) && wasAtZero && newHp > 0) {
+      updatedTarget = {
+        ...updatedTarget,
+        conditions: withoutUnconscious(target.conditions),
+        deathSaves: this.getDeathSavesAfterRecovery(combat, target.deathSaves ?? NO_DEATH_SAVES),
+      };
+    }
+
     const updatedOrder = [...combat.initiativeOrder];
     updatedOrder[targetIndex] = updatedTarget;
 
@@ -455,14 +988,27 @@ export class CombatEngine {
       return combat; // Immune, no effect
     }
 
-    // Remove existing instance of same condition
-    const filteredConditions = target.conditions.filter((c) => c.condition !== condition.condition);
+    // Exhaustion stacks; any other condition replaces its existing instance
+    const conditions = condition.condition === 'exhaustion'
+      ? adjustExhaustion(target.conditions, condition.level ?? 1, condition.source)
+      : [...target.conditions.filter((c) => c.condition !== condition.condition), condition];
 
     const updatedTarget: Combatant = {
       ...target,
-      conditions: [...filteredConditions, condition],
+      conditions,
+      // Being grappled or restrained mid-turn takes away the movement left
+      turnResources: {
+        ...target.turnResources,
+        movementRemaining: Math.min(target.turnResources.movementRemaining, getEffectiveSpeed(target.speed, conditions)),
+      },
     };
 
+    // The sixth level of exhaustion kills
+    if (getExhaustionLevel(conditions) >= MAX_EXHAUSTION_LEVEL) {
+      updatedTarget.currentHp = 0;
+      updatedTarget.status = 'dead';
+    }
+
     const updatedOrder = [...combat.initiativeOrder];
     updatedOrder[targetIndex] = updatedTarget;
 
@@ -499,11 +1045,15 @@ export class CombatEngine {
     const activePlayers = combat.initiativeOrder.filter(
       (c) => c.type === 'player_character' && c.status === 'active'
     );
+    // Dying and stable characters can't fight, but the party hasn't lost them yet
+    const livingPlayers = combat.initiativeOrder.filter(
+      (c) => c.type === 'player_character' && (c.status === 'active' || c.status === 'dying' || c.status === 'stable')
+    );
     const activeEnemies = combat.initiativeOrder.filter(
       (c) => c.type === 'enemy' && c.status === 'active'
     );
 
-    if (activeEnemies.length === 0 && activePlayers.length > 0) {
+    if (activeEnemies.length === 0 && livingPlayers.length > 0) {
       return { shouldEnd: true, outcome: 'victory' };
     }
 
@@ -654,6 +1204,149 @@ export class CombatEngine {
 
     return { ...combat, initiativeOrder: updatedOrder };
   }
+
+  /**
+   * Mark a combatant as having taken the Disengage action this turn
+   */
+  disengage(combat: Combat, combatantId: string): Combat {
+    const targetIndex = combat.initiativeOrder.findIndex((c) => c.id === combatantId);
+    if (targetIndex === -1) {
+      throw new Error(`Combatant with id ${combatantId} not found`);
+    }
+
+    const target = combat.initiativeOrder[targetIndex];
+    const updatedOrder = [...combat.initiativeOrder];
+    updatedOrder[targetIndex] = { ...target, turnResources: { ...target.turnResources, disengaged: true } };
+
+    return { ...combat, initiativeOrder: updatedOrder };
+  }
+
+  /**
+   * Take the Dash action: extra movement equal to the combatant's speed, once a turn
+   */
+  dash(combat: Combat, combatantId: string): Combat {
+    const targetIndex = combat.initiativeOrder.findIndex((c) => c.id === combatantId);
+    if (targetIndex === -1) {
+      throw new Error(`Combatant with id ${combatantId} not found`);
+    }
+
+    const target = combat.initiativeOrder[targetIndex];
+    if (target.turnResources.dashed) return combat;
+
+    const updatedOrder = [...combat.initiativeOrder];
+    updatedOrder[targetIndex] = {
+      ...target,
+      turnResources: {
+        ...target.turnResources,
+        movementRemaining: target.turnResources.movementRemaining + getEffectiveSpeed(target.speed, getEffectiveConditions(target)),
+        dashed: true,
+      },
+    };
+
+    return { ...combat, initiativeOrder: updatedOrder };
+  }
+
+  /**
+   * A combatant's melee reach in feet: a monster's longest melee attack, a character's
+   * equipped weapon (10 ft with a reach weapon), 5 ft otherwise
+   */
+  getReach(combatant: Combatant): number {
+    const melee = combatant.monsterStatBlock
+      ? getAttackOptions(combatant.monsterStatBlock).filter((a) => !a.ranged)
+      : [];
+    return Math.max(combatant.reach ?? DEFAULT_REACH, ...melee.map((a) => a.range));
+  }
+
+  /**
+   * Offer opportunity attacks to the creatures a mover provoked. Each one that can
+   * still react - active, not incapacitated, reaction unused - is offered an
+   * attack and spends its reaction.
+   */
+  offerOpportunityAttacks(combat: Combat, attackerIds: string[]): { combat: Combat; offers: OpportunityAttackOffer[] } {
+    let updated = combat;
+    const offers: OpportunityAttackOffer[] = [];
+
+    for (const attackerId of attackerIds) {
+      const attacker = this.getCombatant(updated, attackerId);
+      if (!attacker || attacker.status !== 'active' || !attacker.turnResources.hasReaction) continue;
+      if (attacker.conditions.some((c) => INCAPACITATING_CONDITIONS.includes(c.condition))) continue;
+
+      const weapon = attacker.monsterStatBlock
+        ? getAttackOptions(attacker.monsterStatBlock, attacker.recharge)
+          .filter((a) => !a.ranged)
+          .sort((a, b) => b.averageDamage - a.averageDamage)[0]
+        : undefined;
+      offers.push({ attackerId: attacker.id, attackerName: attacker.name, weapon: weapon?.action.name });
+      updated = this.useReaction(updated, attacker.id);
+    }
+
+    return { combat: updated, offers };
+  }
+
+  /**
+   * Move a combatant's map token along a path under the combat movement rules:
+   * reach from stat blocks, Disengage, and an opportunity attack offered to each
+   * creature it provokes. Dash adds the combatant's speed first. The token is
+   * updated in place.
+   */
+  moveOnMap(
+    combat: Combat,
+    map: GameMap,
+    entity: MapEntity,
+    path: GridPosition[],
+    options: { disengage?: boolean; dash?: boolean } = {}
+  ): CombatMovementResult {
+    const combatantFor = (e: MapEntity) => combat.initiativeOrder.find((c) =>
+      c.id === e.sourceId || c.id === e.id || (!!c.sourceId && c.sourceId === e.sourceId)
+    );
+
+    let updated = combat;
+    const mover = combatantFor(entity);
+    if (mover && options.disengage) {
+      updated = this.disengage(updated, mover.id);
+    }
+    if (mover && options.dash) {
+      updated = this.dash(updated, mover.id);
+    }
+    const disengaged = !!options.disengage || !!mover?.turnResources.disengaged;
+
+    const reaches: Record<string, number> = {};
+    map.entities.forEach((e) => {
+      const combatant = combatantFor(e);
+      if (combatant) reaches[e.id] = this.getReach(combatant);
+    });
+
+    const movement = SpatialEngine.executeMovement(
+      {
+        entityId: entity.id,
+        path,
+        allowOpportunityAttacks: !disengaged,
+        reaches,
+        maxMovement: mover ? this.getCombatant(updated, mover.id)?.turnResources.movementRemaining : undefined,
+      },
+      map
+    );
+    entity.position = movement.finalPosition;
+    entity.movementUsed += movement.movementUsed;
+
+    if (mover) {
+      updated = this.setPosition(updated, mover.id, movement.finalPosition.x, movement.finalPosition.y);
+      updated = {
+        ...updated,
+        initiativeOrder: updated.initiativeOrder.map((c) => (c.id === mover.id
+          ? { ...c, turnResources: { ...c.turnResources, movementRemaining: Math.max(0, c.turnResources.movementRemaining - movement.movementUsed) } }
+          : c)),
+      };
+    }
+
+    const attackerIds = movement.opportunityAttacks
+      .map((attack) => map.entities.find((e) => e.id === attack.attackerId))
+      .map((e) => (e ? combatantFor(e)?.id : undefined))
+      .filter((id): id is string => !!id);
+    const { combat: afterOffers, offers } = this.offerOpportunityAttacks(updated, attackerIds);
+
+    return { combat: afterOffers, movement, offers };
+  }
 }
 
 // Default singleton instance
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  adjustExhaustion,
+  getAbilityCheckEffects,
+  getAttackEffects,
+  getEffectiveMaxHp,
+  getEffectiveSpeed,
+  getExhaustionLevel,
+  getSavingThrowEffects,
+} from './condition-effects';
+import type { ActiveCondition, Condition } from './types';
+
+function condition(name: Condition, level?: number): ActiveCondition {
+  return { condition: name, source: 'Test', durationType: 'until_dispelled', ...(level ? { level } : {}) };
+}
+
+function creature(name: string, ...conditions: ActiveCondition[]) {
+  return { name, conditions };
+}
+
+describe('condition effects', () => {
+  describe('exhaustion', () => {
+    it('should stack levels and clear at 0', () => {
+      let conditions = adjustExhaustion([condition('poisoned')], 1, 'Forced march');
+      expect(getExhaustionLevel(conditions)).toBe(1);
+      expect(conditions[1]).toEqual({ condition: 'exhaustion', source: 'Forced march', durationType: 'until_dispelled', level: 1 });
+
+      conditions = adjustExhaustion(conditions, 9);
+      expect(getExhaustionLevel(conditions)).toBe(6);
+
+      conditions = adjustExhaustion(adjustExhaustion(conditions, -5), -1);
+      expect(conditions).toEqual([condition('poisoned')]);
+    });
+
+    it('should halve speed and max HP at the listed levels', () => {
+      expect(getEffectiveSpeed(30, [condition('exhaustion', 1)])).toBe(30);
+      expect(getEffectiveSpeed(30, [condition('exhaustion', 2)])).toBe(15);
+      expect(getEffectiveSpeed(30, [condition('exhaustion', 5)])).toBe(0);
+      expect(getEffectiveMaxHp(45, [condition('exhaustion', 3)])).toBe(45);
+      expect(getEffectiveMaxHp(45, [condition('exhaustion', 4)])).toBe(22);
+    });
+  });
+
+  it('should stop movement while grappled or restrained', () => {
+    expect(getEffectiveSpeed(30, [condition('grappled')])).toBe(0);
+    expect(getEffectiveSpeed(30, [condition('restrained')])).toBe(0);
+    expect(getEffectiveSpeed(30, [condition('prone')])).toBe(30);
+  });
+
+  describe('getAttackEffects', () => {
+    it('should cancel advantage and disadvantage', () => {
+      const effects = getAttackEffects(creature('Rogue', condition('invisible')), creature('Orc', condition('invisible')));
+      expect(effects.advantage).toBe('normal');
+      expect(effects.reasons).toEqual(['Rogue is invisible (advantage)', 'Orc is invisible (disadvantage)']);
+    });
+
+    it('should treat prone targets by distance', () => {
+      const prone = creature('Orc', condition('prone'));
+      expect(getAttackEffects(creature('Fighter'), prone).advantage).toBe('advantage');
+      expect(getAttackEffects(creature('Archer'), prone, { ranged: true }).advantage).toBe('disadvantage');
+      expect(getAttackEffects(creature('Fighter'), prone, { distance: 10 }).advantage).toBe('disadvantage');
+    });
+
+    it('should ignore conditions a monster is immune to', () => {
+      const golem = { ...creature('Golem', condition('paralyzed')), monsterStatBlock: { conditionImmunities: ['paralyzed' as Condition] } };
+      const effects = getAttackEffects(creature('Fighter'), golem);
+      expect(effects).toEqual({ advantage: 'normal', autoFail: false, autoCrit: false, reasons: [] });
+    });
+
+    it('should give disadvantage from exhaustion 3', () => {
+      expect(getAttackEffects(creature('Fighter', condition('exhaustion', 2)), creature('Orc')).advantage).toBe('normal');
+      expect(getAttackEffects(creature('Fighter', condition('exhaustion', 3)), creature('Orc')).advantage).toBe('disadvantage');
+    });
+  });
+
+  it('should give disadvantage on checks while frightened', () => {
+    const effects = getAbilityCheckEffects(creature('Bard', condition('frightened')), { ability: 'charisma', skill: 'persuasion' });
+    expect(effects).toEqual({ advantage: 'disadvantage', autoFail: false, reasons: ['Bard is frightened (disadvantage)'] });
+  });
+
+  it('should fail hearing checks while deafened', () => {
+    const deaf = creature('Bard', condition('deafened'));
+    expect(getAbilityCheckEffects(deaf, { ability: 'wisdom', skill: 'perception', sense: 'hearing' }).autoFail).toBe(true);
+    expect(getAbilityCheckEffects(deaf, { ability: 'wisdom', skill: 'perception', sense: 'sight' }).autoFail).toBe(false);
+  });
+
+  it('should only auto-fail Strength and Dexterity saves', () => {
+    const paralyzed = creature('Cleric', condition('paralyzed'));
+    expect(getSavingThrowEffects(paralyzed, 'strength').autoFail).toBe(true);
+    expect(getSavingThrowEffects(paralyzed, 'wisdom').autoFail).toBe(false);
+    expect(getSavingThrowEffects(creature('Cleric', condition('exhaustion', 3)), 'wisdom').advantage).toBe('disadvantage');
+  });
+});
@@ -0,0 +1,210 @@
+// Condition Effects - what conditions and exhaustion do to rolls, speed and hit points (SRD 5.1)
+
+import type { Ability, ActiveCondition, AdvantageStatus, Condition, Skill } from './types';
+import { combineAdvantage } from './types';
+
+// Exhaustion stacks up to level 6, which kills
+export const MAX_EXHAUSTION_LEVEL = 6;
+
+// Conditions that stop a creature taking actions or reactions
+export const INCAPACITATING_CONDITIONS: Condition[] = ['incapacitated', 'paralyzed', 'petrified', 'stunned', 'unconscious'];
+
+// Conditions that drop a creature's speed to 0
+const IMMOBILIZING_CONDITIONS: Condition[] = ['grappled', 'restrained', 'paralyzed', 'petrified', 'stunned', 'unconscious'];
+
+// Attack rolls against a creature with one of these have advantage
+const GRANTS_ADVANTAGE_CONDITIONS: Condition[] = ['blinded', 'paralyzed', 'petrified', 'restrained', 'stunned', 'unconscious'];
+
+// A creature with one of these has disadvantage on its attack rolls
+const ATTACK_DISADVANTAGE_CONDITIONS: Condition[] = ['blinded', 'frightened', 'poisoned', 'prone', 'restrained'];
+
+// A creature with one of these has disadvantage on ability checks
+const CHECK_DISADVANTAGE_CONDITIONS: Condition[] = ['frightened', 'poisoned'];
+
+// A creature with one of these automatically fails Strength and Dexterity saves
+const FAILS_STR_DEX_SAVES_CONDITIONS: Condition[] = ['paralyzed', 'petrified', 'stunned', 'unconscious'];
+
+// A hit from within 5 feet on a creature with one of these is a critical hit
+const AUTO_CRIT_CONDITIONS: Condition[] = ['paralyzed', 'unconscious'];
+
+// A creature whose conditions the rules layer reads; monsters ignore what they are immune to
+export interface ConditionHolder {
+  name: string;
+  conditions: ActiveCondition[];
+  monsterStatBlock?: { conditionImmunities?: Condition[] };
+}
+
+export interface RollEffects {
+  advantage: AdvantageStatus;   // From conditions alone
+  autoFail: boolean;
+  reasons: string[];            // "Goblin is poisoned (disadvantage)"
+}
+
+export interface AttackEffects extends RollEffects {
+  autoCrit: boolean;            // A hit is a critical hit
+}
+
+/**
+ * A creature's conditions, less any its stat block makes it immune to
+ */
+export function getEffectiveConditions(creature: ConditionHolder): ActiveCondition[] {
+  const immunities = creature.monsterStatBlock?.conditionImmunities ?? [];
+  return creature.conditions.filter((c) => !immunities.includes(c.condition));
+}
+
+/**
+ * Exhaustion level, 0 when not exhausted
+ */
+export function getExhaustionLevel(conditions: ActiveCondition[]): number {
+  const levels = conditions.filter((c) => c.condition === 'exhaustion').map((c) => c.level ?? 1);
+  return Math.min(MAX_EXHAUSTION_LEVEL, Math.max(0, ...levels));
+}
+
+/**
+ * Conditions with `levels` more exhaustion (fewer when negative); no entry at level 0.
+ * Exhaustion lasts until removed - a long rest takes off one level.
+ */
+export function adjustExhaustion(conditions: ActiveCondition[], levels: number, source = 'Exhaustion'): ActiveCondition[] {
+  const existing = conditions.find((c) => c.condition === 'exhaustion');
+  const level = Math.min(MAX_EXHAUSTION_LEVEL, Math.max(0, getExhaustionLevel(conditions) + levels));
+  const others = conditions.filter((c) => c.condition !== 'exhaustion');
+  if (level === 0) return others;
+
+  return [
+    ...others,
+    existing
+      ? { ...existing, level }
+      : { condition: 'exhaustion', source, durationType: 'until_dispelled', level },
+  ];
+}
+
+export function isIncapacitated(conditions: ActiveCondition[]): boolean {
+  return conditions.some((c) => INCAPACITATING_CONDITIONS.includes(c.condition));
+}
+
+/**
+ * Speed after conditions: 0 while grappled, restrained, paralyzed and the like;
+ * halved at exhaustion 2, 0 at exhaustion 5
+ */
+export function getEffectiveSpeed(baseSpeed: number, conditions: ActiveCondition[]): number {
+  const exhaustion = getExhaustionLevel(conditions);
+  if (exhaustion >= 5 || conditions.some((c) => IMMOBILIZING_CONDITIONS.includes(c.condition))) return 0;
+  return exhaustion >= 2 ? Math.floor(baseSpeed / 2) : baseSpeed;
+}
+
+/**
+ * Hit point maximum after exhaustion (halved from level 4)
+ */
+export function getEffectiveMaxHp(maxHp: number, conditions: ActiveCondition[]): number {
+  return getExhaustionLevel(conditions) >= 4 ? Math.floor(maxHp / 2) : maxHp;
+}
+
+function resolve(advantages: string[], disadvantages: string[]): AdvantageStatus {
+  return combineAdvantage(
+    advantages.length > 0 ? 'advantage' : 'normal',
+    disadvantages.length > 0 ? 'disadvantage' : 'normal'
+  );
+}
+
+/**
+ * How the attacker's and target's conditions affect an attack. Without a distance,
+ * melee attacks are taken to be within 5 feet and ranged ones beyond it.
+ */
+export function getAttackEffects(
+  attacker: ConditionHolder,
+  target: ConditionHolder,
+  situation: { ranged?: boolean; distance?: number } = {}
+): AttackEffects {
+  const attackerConditions = getEffectiveConditions(attacker).map((c) => c.condition);
+  const targetConditions = getEffectiveConditions(target).map((c) => c.condition);
+  const exhaustion = getExhaustionLevel(getEffectiveConditions(attacker));
+  const withinFiveFeet = situation.distance !== undefined ? situation.distance <= 5 : !situation.ranged;
+
+  const advantages: string[] = [];
+  const disadvantages: string[] = [];
+
+  attackerConditions.forEach((c) => {
+    if (ATTACK_DISADVANTAGE_CONDITIONS.includes(c)) disadvantages.push(`${attacker.name} is ${c}`);
+    if (c === 'invisible') advantages.push(`${attacker.name} is invisible`);
+  });
+  if (exhaustion >= 3) disadvantages.push(`${attacker.name} has exhaustion ${exhaustion}`);
+
+  targetConditions.forEach((c) => {
+    if (GRANTS_ADVANTAGE_CONDITIONS.includes(c)) advantages.push(`${target.name} is ${c}`);
+    if (c === 'invisible') disadvantages.push(`${target.name} is invisible`);
+    if (c === 'prone') {
+      (withinFiveFeet ? advantages : disadvantages).push(`${target.name} is prone${withinFiveFeet ? '' : ' and out of reach'}`);
+    }
+  });
+
+  const autoFail = isIncapacitated(getEffectiveConditions(attacker));
+  const autoCrit = withinFiveFeet && targetConditions.some((c) => AUTO_CRIT_CONDITIONS.includes(c));
+
+  return {
+    advantage: resolve(advantages, disadvantages),
+    autoFail,
+    autoCrit,
+    reasons: [
+      ...advantages.map((r) => `${r} (advantage)`),
+      ...disadvantages.map((r) => `${r} (disadvantage)`),
+      ...(autoFail ? [`${attacker.name} is incapacitated and can't attack`] : []),
+      ...(autoCrit ? [`a hit on ${target.name} from within 5 feet is a critical hit`] : []),
+    ],
+  };
+}
+
+/**
+ * How conditions affect an ability check. `sense` is what the check relies on:
+ * blinded creatures fail checks that need sight, deafened ones checks that need hearing.
+ */
+export function getAbilityCheckEffects(
+  creature: ConditionHolder,
+  check: { ability: Ability; skill?: Skill; sense?: 'sight' | 'hearing' }
+): RollEffects {
+  const conditions = getEffectiveConditions(creature);
+  const names = conditions.map((c) => c.condition);
+  const exhaustion = getExhaustionLevel(conditions);
+
+  const disadvantages = names
+    .filter((c) => CHECK_DISADVANTAGE_CONDITIONS.includes(c))
+    .map((c) => `${creature.name} is ${c}`);
+  if (exhaustion >= 1) disadvantages.push(`${creature.name} has exhaustion ${exhaustion}`);
+
+  const failsOn = check.sense === 'sight' ? 'blinded' : check.sense === 'hearing' ? 'deafened' : null;
+  const autoFail = !!failsOn && names.includes(failsOn);
+
+  return {
+    advantage: resolve([], disadvantages),
+    autoFail,
+    reasons: [
+      ...disadvantages.map((r) => `${r} (disadvantage)`),
+      ...(autoFail ? [`${creature.name} is ${failsOn} and automatically fails`] : []),
+    ],
+  };
+}
+
+/**
+ * How conditions affect a saving throw
+ */
+export function getSavingThrowEffects(creature: ConditionHolder, ability: Ability): RollEffects {
+  const conditions = getEffectiveConditions(creature);
+  const names = conditions.map((c) => c.condition);
+  const exhaustion = getExhaustionLevel(conditions);
+
+  const disadvantages: string[] = [];
+  if (ability === 'dexterity' && names.includes('restrained')) disadvantages.push(`${creature.name} is restrained`);
+  if (exhaustion >= 3) disadvantages.push(`${creature.name} has exhaustion ${exhaustion}`);
+
+  const failing = (ability === 'strength' || ability === 'dexterity')
+    ? names.find((c) => FAILS_STR_DEX_SAVES_CONDITIONS.includes(c))
+    : undefined;
+
+  return {
+    advantage: resolve([], disadvantages),
+    autoFail: !!failing,
+    reasons: [
+      ...disadvantages.map((r) => `${r} (disadvantage)`),
+      ...(failing ? [`${creature.name} is ${failing} and automatically fails`] : []),
+    ],
+  };
+}
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { DiceEngine } from './dice-engine';
+import { SeededRandom } from './seeded-random';
 import type { Character, Ability, Skill } from './types';
 
 describe('DiceEngine', () => {
@@ -170,6 +171,50 @@ describe('DiceEngine', () => {
       expect(result.total).toBe(14);
       expect(result.hits).toBe(false); // 14 < AC 15
     });
+
+    it('should apply cover and combine advantage from circumstances', () => {
+      const fixedEngine = new DiceEngine(() => 0.45); // 10 on every d20
+      const result = fixedEngine.rollAttack(attacker, target, 'Longsword', 5, 'advantage', {
+        acBonus: 2,
+        advantage: 'disadvantage',
+        notes: ['Goblin has half cover from Crate (+2 AC)'],
+      });
+
+      expect(result.targetAc).toBe(17);
+      expect(result.coverBonus).toBe(2);
+      expect(result.hits).toBe(false); // 15 < AC 17
+      expect(result.advantageUsed).toBe('normal');
+      expect(result.notes).toEqual(['Goblin has half cover from Crate (+2 AC)']);
+    });
+
+    it('should apply conditions on both sides', () => {
+      const fixedEngine = new DiceEngine(() => 0.45);
+      const poisoned = { ...attacker, conditions: [{ condition: 'poisoned' as const, source: 'Poison', durationType: 'rounds' as const, durationValue: 1 }] };
+
+      const result = fixedEngine.rollAttack(poisoned, target, 'Longsword', 5);
+
+      expect(result.advantageUsed).toBe('disadvantage');
+      expect(result.notes).toEqual(['Warrior is poisoned (disadvantage)']);
+    });
+
+    it('should turn a hit on a paralyzed target within 5 feet into a critical hit', () => {
+      const fixedEngine = new DiceEngine(() => 0.45);
+      const paralyzed = { ...target, conditions: [{ condition: 'paralyzed' as const, source: 'Hold Person', durationType: 'until_save' as const }] };
+
+      const melee = fixedEngine.rollAttack(attacker, paralyzed, 'Longsword', 5, 'normal', { acBonus: 0, advantage: 'normal', notes: [], distance: 5 });
+      expect(melee.advantageUsed).toBe('advantage');
+      expect(melee.isCriticalHit).toBe(true);
+
+      const ranged = fixedEngine.rollAttack(attacker, paralyzed, 'Longbow', 5, 'normal', { acBonus: 0, advantage: 'normal', notes: [], distance: 30, ranged: true });
+      expect(ranged.hits).toBe(true);
+      expect(ranged.isCriticalHit).toBe(false);
+    });
+
+    it('should miss when the attacker is incapacitated', () => {
+      const stunned = { ...attacker, conditions: [{ condition: 'stunned' as const, source: 'Stunning Strike', durationType: 'rounds' as const, durationValue: 1 }] };
+      const result = engine.rollAttack(stunned, target, 'Longsword', 100);
+      expect(result.hits).toBe(false);
+    });
   });
 
   describe('rollDamage', () => {
@@ -197,6 +242,29 @@ describe('DiceEngine', () => {
       expect(result.additionalDamage[0].source).toBe('Flaming Weapon');
     });
 
+    it('should roll any dice expression, rerolls and mixed dice included', () => {
+      // 1, then the reroll's 6; then 3 and 4, then the flat 2 from the expression
+      const faces = [1, 6, 3, 4];
+      const fixedEngine = new DiceEngine(() => (faces.shift()! - 0.5) / 6);
+      const gwf = fixedEngine.rollDamage('2d6rr1', 'slashing', 3);
+      expect(gwf.rolls).toEqual([{ dice: '2d6rr1', results: [6, 3], total: 9 }]);
+      expect(gwf.baseDamage).toBe(12);
+
+      const mixed = new DiceEngine(() => 0.5).rollDamage('1d8+1d6+2', 'piercing', 3);
+      expect(mixed.rolls.map((r) => r.dice)).toEqual(['1d8', '1d6']);
+      expect(mixed.modifier).toBe(5);
+      expect(mixed.totalDamage).toBe(5 + 4 + 5);
+      expect(mixed.breakdown.map((t) => t.total)).toEqual([5, 4, 2, 3]);
+    });
+
+    it('should double every die on a critical hit, keep counts included', () => {
+      const fixedEngine = new DiceEngine(() => 0.5);
+      expect(fixedEngine.rollDamage('2d6rr1+1d4', 'slashing', 0, true).rolls.map((r) => r.dice)).toEqual(['4d6rr1', '2d4']);
+      expect(fixedEngine.rollDamage('4d6kh3', 'fire', 0, true).rolls[0].dice).toBe('8d6kh6');
+      expect(fixedEngine.rollDamage('1d8', 'slashing', 0, true, [{ dice: '1d6+1', type: 'fire', source: 'Flame Tongue' }])
+        .additionalDamage[0]).toMatchObject({ amount: 4 + 4 + 1, type: 'fire' });
+    });
+
     it('should not return negative damage', () => {
       const lowEngine = new DiceEngine(() => 0.001);
       const result = lowEngine.rollDamage('1d4', 'bludgeoning', -10);
@@ -269,6 +337,26 @@ describe('DiceEngine', () => {
       expect(result.hasExpertise).toBe(true);
       expect(result.proficiencyBonus).toBe(6); // Level 5 = +3 * 2 = 6
     });
+
+    it('should apply disadvantage from conditions and exhaustion', () => {
+      const exhausted = {
+        ...mockCharacter,
+        conditions: [{ condition: 'exhaustion' as const, source: 'Forced march', durationType: 'until_dispelled' as const, level: 1 }],
+      };
+      const result = engine.rollAbilityCheck(exhausted, 'strength', 'athletics', 15);
+      expect(result.advantageUsed).toBe('disadvantage');
+      expect(result.notes).toEqual(['Tester has exhaustion 1 (disadvantage)']);
+    });
+
+    it('should fail a sight check while blinded', () => {
+      const blinded = { ...mockCharacter, conditions: [{ condition: 'blinded' as const, source: 'Darkness', durationType: 'rounds' as const, durationValue: 10 }] };
+      const sight = engine.rollAbilityCheck(blinded, 'wisdom', 'perception', 1, 'normal', 'sight');
+      expect(sight.success).toBe(false);
+      expect(sight.autoFailed).toBe(true);
+
+      const hearing = engine.rollAbilityCheck(blinded, 'wisdom', 'perception', 1, 'normal', 'hearing');
+      expect(hearing.success).toBe(true);
+    });
   });
 
   describe('rollSavingThrow', () => {
@@ -321,6 +409,23 @@ describe('DiceEngine', () => {
       expect(result.isProficient).toBe(false);
       expect(result.proficiencyBonus).toBe(0);
     });
+
+    it('should fail Strength and Dexterity saves while stunned', () => {
+      const stunned = { ...mockCharacter, conditions: [{ condition: 'stunned' as const, source: 'Stunning Strike', durationType: 'rounds' as const, durationValue: 1 }] };
+
+      const dex = engine.rollSavingThrow(stunned, 'dexterity', 1);
+      expect(dex.success).toBe(false);
+      expect(dex.autoFailed).toBe(true);
+      expect(dex.notes).toEqual(['Tester is stunned and automatically fails']);
+
+      expect(engine.rollSavingThrow(stunned, 'constitution', 1).success).toBe(true);
+    });
+
+    it('should give disadvantage on Dexterity saves while restrained', () => {
+      const restrained = { ...mockCharacter, conditions: [{ condition: 'restrained' as const, source: 'Web', durationType: 'until_save' as const }] };
+      expect(engine.rollSavingThrow(restrained, 'dexterity', 10).advantageUsed).toBe('disadvantage');
+      expect(engine.rollSavingThrow(restrained, 'wisdom', 10).advantageUsed).toBe('normal');
+    });
   });
 
   describe('rollInitiative', () => {
@@ -361,4 +466,22 @@ describe('DiceEngine', () => {
       expect(result.isSuccess).toBe(false);
     });
   });
+
+  describe('capture', () => {
+    it('should roll from the given stream and record every die', () => {
+      const { value, dice } = engine.capture(new SeededRandom(42).next, () => engine.roll('2d6+1d20'));
+      const replay = new DiceEngine(new SeededRandom(42).next);
+
+      expect(dice.map((d) => d.sides)).toEqual([6, 6, 20]);
+      expect(dice.map((d) => d.value)).toEqual([replay.rollDie(6), replay.rollDie(6), replay.rollDie(20)]);
+      expect(value.rolls).toEqual(dice.map((d) => d.value));
+    });
+
+    it('should restore the engine afterwards, even on error', () => {
+      const fixed = new DiceEngine(() => 0.5);
+
+      expect(() => fixed.capture(() => 0, () => { throw new Error('boom'); })).toThrow('boom');
+      expect(fixed.rollDie(20)).toBe(11);
+    });
+  });
 });
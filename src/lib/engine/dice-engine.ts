@@ -15,8 +15,15 @@ import type {
   Combatant,
   CombatantType,
   DamageSource,
+  RollTermResult,
+  DieRoll,
+  AttackCircumstances,
 } from './types';
-import { getAbilityModifier, getProficiencyBonus, SKILL_ABILITIES } from './types';
+import { combineAdvantage, getAbilityModifier, getProficiencyBonus, SKILL_ABILITIES } from './types';
+import { getCriticalHitEffect } from './campaign-rules';
+import { parseDiceExpression, evaluateDiceExpression, doubleDice } from './dice-expression';
+import { getAbilityCheckEffects, getAttackEffects, getSavingThrowEffects } from './condition-effects';
+import type { ConditionHolder } from './condition-effects';
 
 export interface DiceNotation {
   count: number;
@@ -26,6 +33,7 @@ export interface DiceNotation {
 
 export class DiceEngine {
   private randomFn: () => number;
+  private captured: DieRoll[] | null = null;
 
   constructor(randomFn?: () => number) {
     this.randomFn = randomFn ?? Math.random;
@@ -35,7 +43,28 @@ export class DiceEngine {
    * Roll a single die with given number of sides
    */
   rollDie(sides: number): number {
-    return Math.floor(this.randomFn() * sides) + 1;
+    const value = Math.floor(this.randomFn() * sides) + 1;
+    this.captured?.push({ sides, value });
+    return value;
+  }
+
+  /**
+   * Run fn with dice drawn from randomFn instead, returning every die it rolled.
+   * fn must be synchronous - the engine's own random source is restored when it returns.
+   */
+  capture<T>(randomFn: () => number, fn: () => T): { value: T; dice: DieRoll[] } {
+    const previousRandom = this.randomFn;
+    const previousCaptured = this.captured;
+    const dice: DieRoll[] = [];
+
+    this.randomFn = randomFn;
+    this.captured = dice;
+    try {
+      return { value: fn(), dice };
+    } finally {
+      this.randomFn = previousRandom;
+      this.captured = previousCaptured;
+    }
   }
 
   /**
@@ -68,19 +97,27 @@ export class DiceEngine {
   }
 
   /**
-   * Roll dice from notation string
+   * Roll a dice expression (see dice-expression.ts), returning every die behind the total
+   */
+  rollExpression(expression: string): RollTermResult[] {
+    return evaluateDiceExpression(parseDiceExpression(expression), (sides) => this.rollDie(sides));
+  }
+
+  /**
+   * Roll dice from a notation string - anything from "2d6+3" to "4d6kh3+1d8!"
    */
   roll(notation: string, reason?: string): BasicRollResult {
-    const parsed = this.parseNotation(notation);
-    const rolls = this.rollDice(parsed.count, parsed.sides);
-    const total = rolls.reduce((sum, r) => sum + r, 0) + parsed.modifier;
+    const breakdown = this.rollExpression(notation);
 
     return {
       notation,
-      rolls,
-      modifier: parsed.modifier,
-      total,
+      rolls: breakdown.flatMap((term) =>
+        term.type === 'dice' ? term.dice.filter((d) => !d.rerolled && !d.dropped).map((d) => d.value) : []
+      ),
+      modifier: breakdown.reduce((sum, term) => sum + (term.type === 'constant' ? term.total : 0), 0),
+      total: breakdown.reduce((sum, term) => sum + term.total, 0),
       reason,
+      breakdown,
     };
   }
 
@@ -117,20 +154,34 @@ export class DiceEngine {
   }
 
   /**
-   * Roll an attack
+   * Roll an attack. Circumstances from the map (cover, light, vision) raise the
+   * target's AC and combine with the given advantage status, as do the attacker's
+   * and target's conditions when given: an incapacitated attacker misses, and a
+   * hit on a paralyzed or unconscious target from within 5 feet is a critical hit.
    */
   rollAttack(
-    attacker: { id: string; name: string },
-    target: { id: string; name: string; armorClass: number },
+    attacker: { id: string; name: string } & Partial<ConditionHolder>,
+    target: { id: string; name: string; armorClass: number } & Partial<ConditionHolder>,
     weapon: string,
     attackBonus: number,
-    advantage: AdvantageStatus = 'normal'
+    advantage: AdvantageStatus = 'normal',
+    circumstances?: AttackCircumstances
   ): AttackRollResult {
-    const roll = this.rollD20(advantage);
+    const effects = attacker.conditions || target.conditions
+      ? getAttackEffects(
+        { ...attacker, conditions: attacker.conditions ?? [] },
+        { ...target, conditions: target.conditions ?? [] },
+        { ranged: circumstances?.ranged, distance: circumstances?.distance }
+      )
+      : undefined;
+    const advantageUsed = combineAdvantage(advantage, circumstances?.advantage ?? 'normal', effects?.advantage ?? 'normal');
+    const targetAc = target.armorClass + (circumstances?.acBonus ?? 0);
+    const roll = this.rollD20(advantageUsed);
     const total = roll + attackBonus;
-    const isCriticalHit = roll === 20;
     const isCriticalMiss = roll === 1;
-    const hits = isCriticalHit || (!isCriticalMiss && total >= target.armorClass);
+    const hits = !effects?.autoFail && (roll === 20 || (!isCriticalMiss && total >= targetAc));
+    const isCriticalHit = hits && (roll === 20 || !!effects?.autoCrit);
+    const notes = [...(circumstances?.notes ?? []), ...(effects?.reasons ?? [])];
 
     return {
       attackerId: attacker.id,
@@ -141,11 +192,13 @@ export class DiceEngine {
       roll,
       attackBonus,
       total,
-      targetAc: target.armorClass,
+      targetAc,
       hits,
       isCriticalHit,
       isCriticalMiss,
-      advantageUsed: advantage,
+      advantageUsed,
+      ...(circumstances ? { coverBonus: circumstances.acBonus } : {}),
+      ...(circumstances || effects ? { notes } : {}),
     };
   }
 
@@ -175,57 +228,77 @@ export class DiceEngine {
   }
 
   /**
-   * Roll damage
+   * Roll damage. The dice are any dice expression - "2d6rr1", "1d8+1d6+2" - and a critical
+   * hit doubles every die in them. With criticalHitTable, a critical hit also rolls a d20
+   * on the critical hit table.
    */
   rollDamage(
     damageDice: string,
     damageType: DamageType,
     modifier: number = 0,
     isCritical: boolean = false,
-    additionalDamage: DamageSource[] = []
+    additionalDamage: DamageSource[] = [],
+    criticalHitTable: boolean = false
   ): DamageRollResult {
-    const parsed = this.parseNotation(damageDice);
-    const diceCount = isCritical ? parsed.count * 2 : parsed.count;
-
-    const mainRolls = this.rollDice(diceCount, parsed.sides);
-    const baseDamage = mainRolls.reduce((sum, r) => sum + r, 0) + modifier;
-
-    const additionalRolls: { amount: number; type: DamageType; source: string }[] = [];
-    let additionalTotal = 0;
-
-    for (const source of additionalDamage) {
-      const sourceParsed = this.parseNotation(source.dice);
-      const sourceDiceCount = isCritical ? sourceParsed.count * 2 : sourceParsed.count;
-      const sourceRolls = this.rollDice(sourceDiceCount, sourceParsed.sides);
-      const sourceTotal = sourceRolls.reduce((sum, r) => sum + r, 0) + sourceParsed.modifier;
-      additionalRolls.push({ amount: sourceTotal, type: source.type, source: source.source });
-      additionalTotal += sourceTotal;
-    }
-
-    return {
-      rolls: [
-        { dice: isCritical ? `${diceCount}d${parsed.sides}` : damageDice, results: mainRolls, total: mainRolls.reduce((s, r) => s + r, 0) },
-      ],
-      modifier,
+    const rollTerms = (dice: string) => {
+      const terms = parseDiceExpression(dice);
+      return evaluateDiceExpression(isCritical ? doubleDice(terms) : terms, (sides) => this.rollDie(sides));
+    };
+    const sum = (terms: RollTermResult[]) => terms.reduce((total, term) => total + term.total, 0);
+
+    const rolled = rollTerms(damageDice);
+    const flatBonus = rolled.reduce((total, term) => total + (term.type === 'constant' ? term.total : 0), 0);
+    const breakdown: RollTermResult[] = modifier === 0 ? rolled : [
+      ...rolled,
+      { type: 'constant', sign: modifier < 0 ? -1 : 1, value: Math.abs(modifier), total: modifier },
+    ];
+    const baseDamage = sum(breakdown);
+
+    const additionalRolls = additionalDamage.map((source) => {
+      const sourceBreakdown = rollTerms(source.dice);
+      return { amount: sum(sourceBreakdown), type: source.type, source: source.source, breakdown: sourceBreakdown };
+    });
+    const additionalTotal = additionalRolls.reduce((total, r) => total + r.amount, 0);
+
+    const result: DamageRollResult = {
+      rolls: rolled.flatMap((term) => term.type === 'dice' ? [{
+        dice: term.notation,
+        results: term.dice.filter((d) => !d.rerolled && !d.dropped).map((d) => d.value),
+        total: term.total,
+      }] : []),
+      modifier: modifier + flatBonus,
       baseDamage,
       damageType,
+      breakdown,
       additionalDamage: additionalRolls,
       totalDamage: Math.max(0, baseDamage + additionalTotal),
       isCritical,
     };
+
+    if (isCritical && criticalHitTable) {
+      const roll = this.rollDie(20);
+      result.criticalEffect = { roll, effect: getCriticalHitEffect(roll) };
+    }
+
+    return result;
   }
 
   /**
-   * Roll an ability check
+   * Roll an ability check. Conditions and exhaustion can impose disadvantage;
+   * `sense` marks a check that needs sight or hearing, which a blinded or deafened
+   * character fails outright.
    */
   rollAbilityCheck(
     character: Character,
     ability: Ability,
     skill: Skill | undefined,
     dc: number,
-    advantage: AdvantageStatus = 'normal'
+    advantage: AdvantageStatus = 'normal',
+    sense?: 'sight' | 'hearing'
   ): AbilityCheckResult {
-    const roll = this.rollD20(advantage);
+    const effects = getAbilityCheckEffects(character, { ability, skill, sense });
+    const advantageUsed = combineAdvantage(advantage, effects.advantage);
+    const roll = this.rollD20(advantageUsed);
     const abilityMod = getAbilityModifier(character.abilityScores[ability]);
 
     let isProficient = false;
@@ -260,15 +333,17 @@ export class DiceEngine {
       otherModifiers: 0,
       total,
       dc,
-      success: total >= dc,
+      success: !effects.autoFail && total >= dc,
       isCriticalSuccess,
       isCriticalFailure,
-      advantageUsed: advantage,
+      advantageUsed,
+      ...(effects.autoFail ? { autoFailed: true } : {}),
+      ...(effects.reasons.length > 0 ? { notes: effects.reasons } : {}),
     };
   }
 
   /**
-   * Roll a saving throw
+   * Roll a saving throw, with disadvantage or an automatic failure from conditions
    */
   rollSavingThrow(
     character: Character,
@@ -276,7 +351,9 @@ export class DiceEngine {
     dc: number,
     advantage: AdvantageStatus = 'normal'
   ): SavingThrowResult {
-    const roll = this.rollD20(advantage);
+    const effects = getSavingThrowEffects(character, ability);
+    const advantageUsed = combineAdvantage(advantage, effects.advantage);
+    const roll = this.rollD20(advantageUsed);
     const abilityMod = getAbilityModifier(character.abilityScores[ability]);
     const isProficient = character.savingThrowProficiencies.includes(ability);
     const profBonus = isProficient ? getProficiencyBonus(character.level) : 0;
@@ -292,10 +369,12 @@ export class DiceEngine {
       isProficient,
       total,
       dc,
-      success: total >= dc,
+      success: !effects.autoFail && total >= dc,
       isCriticalSuccess: roll === 20,
       isCriticalFailure: roll === 1,
-      advantageUsed: advantage,
+      advantageUsed,
+      ...(effects.autoFail ? { autoFailed: true } : {}),
+      ...(effects.reasons.length > 0 ? { notes: effects.reasons } : {}),
     };
   }
 
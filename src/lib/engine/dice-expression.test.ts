@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseDiceExpression,
+  isValidDiceExpression,
+  evaluateDiceExpression,
+  formatRollBreakdown,
+} from './dice-expression';
+import { DiceEngine } from './dice-engine';
+
+// Die roller that returns the given faces in order
+function sequence(...faces: number[]) {
+  let i = 0;
+  return () => {
+    if (i >= faces.length) throw new Error('Ran out of scripted rolls');
+    return faces[i++];
+  };
+}
+
+function roll(expression: string, ...faces: number[]) {
+  return evaluateDiceExpression(parseDiceExpression(expression), sequence(...faces));
+}
+
+const total = (terms: ReturnType<typeof roll>) => terms.reduce((sum, t) => sum + t.total, 0);
+
+describe('dice expressions', () => {
+  describe('parseDiceExpression', () => {
+    it('should parse simple notation', () => {
+      expect(parseDiceExpression('2d6+3')).toEqual([
+        { type: 'dice', sign: 1, notation: '2d6', count: 2, sides: 6, fudge: false, modifiers: [] },
+        { type: 'constant', sign: 1, value: 3 },
+      ]);
+    });
+
+    it('should parse multiple dice terms and signs', () => {
+      const terms = parseDiceExpression('-1d4 + 1D8 - 2');
+
+      expect(terms.map((t) => t.sign)).toEqual([-1, 1, -1]);
+      expect(terms[1]).toMatchObject({ notation: '1d8', sides: 8 });
+    });
+
+    it('should parse modifiers', () => {
+      const [term] = parseDiceExpression('4d6kh3rr1!>=6');
+
+      expect(term).toMatchObject({
+        notation: '4d6kh3rr1!>=6',
+        modifiers: [
+          { type: 'keep', highest: true, count: 3 },
+          { type: 'reroll', recursive: true, when: { op: '=', value: 1 } },
+          { type: 'explode', when: { op: '>=', value: 6 } },
+        ],
+      });
+    });
+
+    it('should parse percentile and fudge dice without a count', () => {
+      expect(parseDiceExpression('d%')[0]).toMatchObject({ count: 1, sides: 100, fudge: false });
+      expect(parseDiceExpression('4dF')[0]).toMatchObject({ count: 4, sides: 3, fudge: true });
+    });
+
+    it('should reject bad notation', () => {
+      for (const bad of ['', 'invalid', 'd20', '2d', '2d6+', '1d20 * 2', '0d6', '101d6', '2d6kh3', '1d6rr<7', '1d1!', '2d6r']) {
+        expect(isValidDiceExpression(bad), bad).toBe(false);
+      }
+    });
+  });
+
+  describe('evaluateDiceExpression', () => {
+    it('should keep the highest dice', () => {
+      const terms = roll('4d6kh3', 6, 2, 5, 4);
+
+      expect(total(terms)).toBe(15);
+      expect(terms[0].type === 'dice' && terms[0].dice.filter((d) => d.dropped).map((d) => d.value)).toEqual([2]);
+    });
+
+    it('should keep the lowest die for disadvantage', () => {
+      expect(total(roll('2d20kl1', 17, 4))).toBe(4);
+    });
+
+    it('should drop dice', () => {
+      expect(total(roll('4d6dl1', 1, 3, 3, 3))).toBe(9);
+      expect(total(roll('3d6dh1', 6, 3, 2))).toBe(5);
+    });
+
+    it('should add several dice terms and constants', () => {
+      const terms = roll('1d8+1d6+3', 5, 2);
+
+      expect(total(terms)).toBe(10);
+      expect(terms.map((t) => t.total)).toEqual([5, 2, 3]);
+    });
+
+    it('should subtract negative terms', () => {
+      expect(total(roll('1d20-1d4-1', 15, 3))).toBe(11);
+    });
+
+    it('should reroll once for Great Weapon Fighting', () => {
+      const terms = roll('2d6r<3', 1, 1, 5);
+      const dice = terms[0].type === 'dice' ? terms[0].dice : [];
+
+      // The first die rerolls once and keeps its second 1; the second die is fine
+      expect(dice).toEqual([{ value: 1, rerolled: true }, { value: 1 }, { value: 5 }]);
+      expect(total(terms)).toBe(6);
+    });
+
+    it('should reroll recursively', () => {
+      expect(total(roll('1d6rr1', 1, 1, 1, 4))).toBe(4);
+    });
+
+    it('should explode on the highest face', () => {
+      const terms = roll('2d6!', 6, 6, 2, 3);
+      const dice = terms[0].type === 'dice' ? terms[0].dice : [];
+
+      expect(dice.filter((d) => d.exploded)).toHaveLength(2);
+      expect(total(terms)).toBe(17);
+    });
+
+    it('should roll percentile and fudge dice', () => {
+      expect(total(roll('1d%', 73))).toBe(73);
+      // Fudge faces are a d3 shifted to -1..+1
+      expect(total(roll('4dF', 1, 2, 3, 3))).toBe(1);
+    });
+  });
+
+  describe('formatRollBreakdown', () => {
+    it('should show every die and strike out the discarded ones', () => {
+      expect(formatRollBreakdown(roll('4d6kh3+1d4!-2', 6, 2, 5, 4, 4, 1))).toBe('(6, ~~2~~, 5, 4) + (4!, 1) - 2');
+      expect(formatRollBreakdown(roll('1d6r1', 1, 3))).toBe('(~~1~~, 3)');
+    });
+  });
+
+  describe('DiceEngine.roll', () => {
+    it('should total expressions and report the counted dice', () => {
+      const dice = new DiceEngine(sequence(0.99, 0.1, 0.5, 0.7));
+      const result = dice.roll('4d6kh3+2');
+
+      expect(result.rolls).toEqual([6, 4, 5]);
+      expect(result.modifier).toBe(2);
+      expect(result.total).toBe(17);
+      expect(result.breakdown).toHaveLength(2);
+    });
+  });
+});
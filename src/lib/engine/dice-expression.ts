@@ -0,0 +1,294 @@
+// Dice Expressions - parse and evaluate notation such as "4d6kh3", "1d8+1d6+3",
+// "2d6r<3" (Great Weapon Fighting), "3d6!", "1d%" and "4dF"
+//
+// Grammar (case and whitespace are ignored):
+//   expression := ['+' | '-'] term (('+' | '-') term)*
+//   term       := integer | dice
+//   dice       := count 'd' sides modifier*  |  [count] 'd%'  |  [count] 'dF'
+//   modifier   := ('kh' | 'kl' | 'k' | 'dh' | 'dl') [integer]   keep / drop highest or lowest
+//               | ('r' | 'ro') compare                           reroll once
+//               | 'rr' compare                                   reroll until it no longer matches
+//               | '!' [compare]                                  explode (default: on the highest face)
+//   compare    := ['=' | '<' | '<=' | '>' | '>='] integer
+//
+// Numbered dice need an explicit count ("1d20", not "d20"); d% and dF may leave it out.
+
+import type { DieResult, RollTermResult } from './types';
+
+const MAX_TERMS = 20;
+const MAX_DICE_PER_TERM = 100;
+const MAX_SIDES = 1000;
+const MAX_EXTRA_ROLLS = 100;   // Rerolls and explosions per term
+
+export type CompareOp = '=' | '<' | '<=' | '>' | '>=';
+
+export interface ComparePoint {
+  op: CompareOp;
+  value: number;
+}
+
+export type DiceModifier =
+  | { type: 'keep' | 'drop'; highest: boolean; count: number }
+  | { type: 'reroll'; recursive: boolean; when: ComparePoint }
+  | { type: 'explode'; when: ComparePoint | null };   // null explodes on the highest face
+
+export interface DiceTerm {
+  type: 'dice';
+  sign: 1 | -1;
+  notation: string;       // This term as written, e.g. "4d6kh3"
+  count: number;
+  sides: number;          // 3 for fudge dice
+  fudge: boolean;         // dF: faces -1, 0, +1
+  modifiers: DiceModifier[];
+}
+
+export interface ConstantTerm {
+  type: 'constant';
+  sign: 1 | -1;
+  value: number;
+}
+
+export type ExpressionTerm = DiceTerm | ConstantTerm;
+
+function matches(value: number, point: ComparePoint): boolean {
+  switch (point.op) {
+    case '<': return value < point.value;
+    case '<=': return value <= point.value;
+    case '>': return value > point.value;
+    case '>=': return value >= point.value;
+    default: return value === point.value;
+  }
+}
+
+function faces(term: DiceTerm): number[] {
+  return term.fudge ? [-1, 0, 1] : Array.from({ length: term.sides }, (_, i) => i + 1);
+}
+
+/**
+ * Parse a dice expression into signed terms. Throws on anything it can't read.
+ */
+export function parseDiceExpression(expression: string): ExpressionTerm[] {
+  const source = expression.toLowerCase().replace(/\s/g, '');
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    throw new Error(`Invalid dice notation "${expression}": ${message}`);
+  };
+  const peek = (text: string) => source.startsWith(text, pos);
+  const readInt = (): number | null => {
+    const match = /^\d+/.exec(source.slice(pos));
+    if (!match) return null;
+    pos += match[0].length;
+    return parseInt(match[0], 10);
+  };
+  const readCompare = (): ComparePoint | null => {
+    const match = /^(<=|>=|<|>|=)?(\d+)/.exec(source.slice(pos));
+    if (!match) return null;
+    pos += match[0].length;
+    return { op: (match[1] as CompareOp | undefined) ?? '=', value: parseInt(match[2], 10) };
+  };
+
+  const readModifiers = (term: DiceTerm) => {
+    for (;;) {
+      const keepDrop = /^(kh|kl|k|dh|dl)/.exec(source.slice(pos));
+      if (keepDrop) {
+        pos += keepDrop[0].length;
+        const count = readInt() ?? 1;
+        if (count > term.count) fail(`can't ${keepDrop[0].startsWith('k') ? 'keep' : 'drop'} ${count} of ${term.count} dice`);
+        term.modifiers.push({
+          type: keepDrop[0].startsWith('k') ? 'keep' : 'drop',
+          highest: keepDrop[0] === 'k' || keepDrop[0].endsWith('h'),
+          count,
+        });
+      } else if (peek('r')) {
+        const recursive = peek('rr');
+        pos += recursive || peek('ro') ? 2 : 1;
+        const when = readCompare() ?? fail('reroll needs a value, e.g. r1 or r<3');
+        if (recursive && faces(term).every((face) => matches(face, when))) fail('reroll would never stop');
+        term.modifiers.push({ type: 'reroll', recursive, when });
+      } else if (peek('!')) {
+        pos++;
+        const when = readCompare();
+        if (faces(term).every((face) => (when ? matches(face, when) : face === Math.max(...faces(term))))) {
+          fail('dice would explode forever');
+        }
+        term.modifiers.push({ type: 'explode', when });
+      } else {
+        return;
+      }
+    }
+  };
+
+  const readTerm = (sign: 1 | -1): ExpressionTerm => {
+    const start = pos;
+    const count = readInt();
+
+    if (!peek('d')) {
+      return count === null ? fail(`expected a number or dice at "${source.slice(pos) || 'end'}"`) : { type: 'constant', sign, value: count };
+    }
+    pos++;
+
+    let sides: number;
+    let fudge = false;
+    if (peek('%')) {
+      pos++;
+      sides = 100;
+    } else if (peek('f')) {
+      pos++;
+      sides = 3;
+      fudge = true;
+    } else {
+      sides = readInt() ?? fail('missing die size');
+      if (count === null) fail(`dice need a count, e.g. 1d${sides}`);
+    }
+
+    const term: DiceTerm = { type: 'dice', sign, notation: '', count: count ?? 1, sides, fudge, modifiers: [] };
+    if (term.count < 1 || term.count > MAX_DICE_PER_TERM) fail(`dice count must be 1-${MAX_DICE_PER_TERM}`);
+    if (sides < 1 || sides > MAX_SIDES) fail(`die size must be 1-${MAX_SIDES}`);
+
+    readModifiers(term);
+    term.notation = source.slice(start, pos);
+    return term;
+  };
+
+  if (!source) fail('empty');
+
+  const terms: ExpressionTerm[] = [];
+  let sign: 1 | -1 = 1;
+  if (peek('+') || peek('-')) {
+    sign = peek('-') ? -1 : 1;
+    pos++;
+  }
+  terms.push(readTerm(sign));
+
+  while (pos < source.length) {
+    if (!peek('+') && !peek('-')) fail(`unexpected "${source.slice(pos)}"`);
+    sign = peek('-') ? -1 : 1;
+    pos++;
+    terms.push(readTerm(sign));
+    if (terms.length > MAX_TERMS) fail(`more than ${MAX_TERMS} terms`);
+  }
+
+  return terms;
+}
+
+/**
+ * Whether an expression parses
+ */
+export function isValidDiceExpression(expression: string): boolean {
+  try {
+    parseDiceExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function formatCompare(point: ComparePoint): string {
+  return `${point.op === '=' ? '' : point.op}${point.value}`;
+}
+
+// Write a dice term back out as notation, e.g. "4d6kh3" or "2d6rr1"
+function formatDiceTerm(term: DiceTerm): string {
+  const modifiers = term.modifiers.map((m) => {
+    switch (m.type) {
+      case 'keep': return `k${m.highest ? 'h' : 'l'}${m.count}`;
+      case 'drop': return `d${m.highest ? 'h' : 'l'}${m.count}`;
+      case 'reroll': return `${m.recursive ? 'rr' : 'r'}${formatCompare(m.when)}`;
+      case 'explode': return `!${m.when ? formatCompare(m.when) : ''}`;
+    }
+  });
+  return `${term.count}d${term.fudge ? 'f' : term.sides}${modifiers.join('')}`;
+}
+
+/**
+ * The terms with every die doubled, as for a critical hit: "2d6rr1+3" becomes "4d6rr1+3"
+ * and "4d6kh3" becomes "8d6kh6". Constants stay as they are.
+ */
+export function doubleDice(terms: ExpressionTerm[]): ExpressionTerm[] {
+  return terms.map((term) => {
+    if (term.type === 'constant') return term;
+    const doubled: DiceTerm = {
+      ...term,
+      count: term.count * 2,
+      modifiers: term.modifiers.map((m) => (m.type === 'keep' || m.type === 'drop' ? { ...m, count: m.count * 2 } : m)),
+    };
+    return { ...doubled, notation: formatDiceTerm(doubled) };
+  });
+}
+
+// Roll one dice term, keeping rerolled and dropped dice in the result
+function rollDiceTerm(term: DiceTerm, rollDie: (sides: number) => number): DieResult[] {
+  const reroll = term.modifiers.find((m): m is Extract<DiceModifier, { type: 'reroll' }> => m.type === 'reroll');
+  const explode = term.modifiers.find((m): m is Extract<DiceModifier, { type: 'explode' }> => m.type === 'explode');
+  const highestFace = term.fudge ? 1 : term.sides;
+  const dice: DieResult[] = [];
+  let extraRolls = 0;
+
+  const rollFace = () => (term.fudge ? rollDie(3) - 2 : rollDie(term.sides));
+  const rollWithRerolls = () => {
+    let value = rollFace();
+    while (reroll && matches(value, reroll.when) && extraRolls < MAX_EXTRA_ROLLS) {
+      dice.push({ value, rerolled: true });
+      extraRolls++;
+      value = rollFace();
+      if (!reroll.recursive) break;
+    }
+    return value;
+  };
+  const explodes = (value: number) =>
+    Boolean(explode) && (explode!.when ? matches(value, explode!.when) : value === highestFace);
+
+  for (let i = 0; i < term.count; i++) {
+    let value = rollWithRerolls();
+    while (explodes(value) && extraRolls < MAX_EXTRA_ROLLS) {
+      dice.push({ value, exploded: true });
+      extraRolls++;
+      value = rollWithRerolls();
+    }
+    dice.push({ value });
+  }
+
+  // Keep/drop apply in order, each to the dice still kept
+  for (const modifier of term.modifiers) {
+    if (modifier.type !== 'keep' && modifier.type !== 'drop') continue;
+
+    const kept = dice.filter((d) => !d.rerolled && !d.dropped);
+    const ordered = [...kept].sort((a, b) => (modifier.highest ? b.value - a.value : a.value - b.value));
+    const toDrop = modifier.type === 'keep' ? ordered.slice(modifier.count) : ordered.slice(0, modifier.count);
+    toDrop.forEach((die) => {
+      die.dropped = true;
+    });
+  }
+
+  return dice;
+}
+
+/**
+ * Roll parsed terms. Each result's total carries its sign.
+ */
+export function evaluateDiceExpression(terms: ExpressionTerm[], rollDie: (sides: number) => number): RollTermResult[] {
+  return terms.map((term): RollTermResult => {
+    if (term.type === 'constant') {
+      return { type: 'constant', sign: term.sign, value: term.value, total: term.sign * term.value };
+    }
+
+    const dice = rollDiceTerm(term, rollDie);
+    const sum = dice.filter((d) => !d.rerolled && !d.dropped).reduce((s, d) => s + d.value, 0);
+    return { type: 'dice', sign: term.sign, notation: term.notation, dice, total: term.sign * sum };
+  });
+}
+
+/**
+ * Show how a total was built: "(6, 5, ~~2~~, 4) + (3) + 3". Discarded dice are struck
+ * through and dice that exploded are marked with "!".
+ */
+export function formatRollBreakdown(terms: RollTermResult[]): string {
+  return terms.map((term, i) => {
+    const text = term.type === 'constant'
+      ? String(term.value)
+      : `(${term.dice.map((d) => (d.rerolled || d.dropped ? `~~${d.value}~~` : d.exploded ? `${d.value}!` : String(d.value))).join(', ')})`;
+    if (i === 0) return term.sign < 0 ? `-${text}` : text;
+    return `${term.sign < 0 ? '-' : '+'} ${text}`;
+  }).join(' ');
+}
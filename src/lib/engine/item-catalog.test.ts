@@ -0,0 +1,194 @@
+import { describe, it, expect } from 'vitest';
+import {
+  attuneItem,
+  endAttunement,
+  equipItem,
+  getArmorClass,
+  getCharacterAttacks,
+  getStartingEquipment,
+  getWeaponAttack,
+  resolveItem,
+  unequipItem,
+} from './item-catalog';
+import type { GearHolder } from './item-catalog';
+import type { InventoryItem } from './types';
+
+function hero(overrides: Partial<GearHolder> = {}): GearHolder {
+  return {
+    name: 'Vex',
+    className: 'Fighter',
+    level: 5,
+    abilityScores: { strength: 16, dexterity: 14, constitution: 14, intelligence: 10, wisdom: 12, charisma: 8 },
+    inventory: [],
+    equippedItems: {},
+    ...overrides,
+  };
+}
+
+function items(...names: string[]): InventoryItem[] {
+  return names.map((name) => ({ name, quantity: 1 }));
+}
+
+describe('item catalog', () => {
+  describe('resolveItem', () => {
+    it('should read +N weapons and armor from their names', () => {
+      const sword = resolveItem('+1 Longsword');
+      expect(sword.equipment?.name).toBe('Longsword');
+      expect(sword.magic?.bonuses).toEqual({ attack: 1, damage: 1 });
+
+      const plate = resolveItem('Plate Armor +2');
+      expect(plate.equipment?.name).toBe('Plate Armor');
+      expect(plate.magic).toMatchObject({ name: 'Armor, +2', rarity: 'very rare', bonuses: { armorClass: 2 } });
+    });
+
+    it('should find the base item of named magic items and variants', () => {
+      expect(resolveItem('Flame Tongue').equipment?.name).toBe('Longsword');
+      expect(resolveItem({ name: 'Dawnbringer', quantity: 1, baseItem: 'Scimitar', magicItem: 'Weapon, +2' }).magic?.bonuses?.attack).toBe(2);
+      expect(resolveItem('Wooden Shield').equipment?.armor?.category).toBe('shield');
+    });
+
+    it('should only activate attunement items while attuned', () => {
+      expect(resolveItem('Ring of Protection').active).toBe(false);
+      expect(resolveItem({ name: 'Ring of Protection', quantity: 1, attuned: true }).active).toBe(true);
+    });
+  });
+
+  describe('getArmorClass', () => {
+    it('should cap Dexterity for medium armor and ignore it for heavy armor', () => {
+      const nimble = { ...hero().abilityScores, dexterity: 18 };
+      expect(getArmorClass(hero({ abilityScores: nimble, inventory: items('Breastplate'), equippedItems: { armor: 'Breastplate' } }))).toEqual({
+        armorClass: 16,
+        sources: ['Breastplate 14', 'Dex +2 (max)'],
+        notes: [],
+      });
+
+      const plate = getArmorClass(hero({ inventory: items('Plate Armor'), equippedItems: { armor: 'Plate Armor' } }));
+      expect(plate.armorClass).toBe(18);
+      expect(plate.notes).toEqual(['Plate Armor gives disadvantage on Stealth checks']);
+    });
+
+    it('should add shields, magic armor and attuned items', () => {
+      const inventory: InventoryItem[] = [
+        ...items('Chain Mail +1', 'Shield'),
+        { name: 'Cloak of Protection', quantity: 1, attuned: true },
+        { name: 'Ring of Protection', quantity: 1 },
+      ];
+      const result = getArmorClass(hero({ inventory, equippedItems: { armor: 'Chain Mail +1', shield: 'Shield' } }));
+
+      expect(result.armorClass).toBe(16 + 2 + 1 + 1);
+      expect(result.sources).toEqual(['Chain Mail 16', 'Shield +2', 'Chain Mail +1 +1', 'Cloak of Protection +1']);
+    });
+
+    it('should use Unarmored Defense', () => {
+      const scores = { strength: 10, dexterity: 16, constitution: 16, intelligence: 10, wisdom: 14, charisma: 10 };
+      expect(getArmorClass(hero({ className: 'Barbarian', abilityScores: scores })).armorClass).toBe(16);
+      expect(getArmorClass(hero({ className: 'Monk', abilityScores: scores })).armorClass).toBe(15);
+      expect(getArmorClass(hero({ className: 'Wizard', abilityScores: scores })).armorClass).toBe(13);
+    });
+
+    it('should warn when armor is too heavy', () => {
+      const weak = { ...hero().abilityScores, strength: 10 };
+      expect(getArmorClass(hero({ abilityScores: weak, inventory: items('Splint Armor'), equippedItems: { armor: 'Splint Armor' } })).notes)
+        .toContain('Splint Armor needs Strength 15 (speed -10 ft)');
+    });
+  });
+
+  describe('getWeaponAttack', () => {
+    it('should wield a free versatile weapon in two hands', () => {
+      const attack = getWeaponAttack(hero({ inventory: items('Longsword'), equippedItems: { mainHand: 'Longsword' } }))!;
+
+      expect(attack).toMatchObject({ weapon: 'Longsword', ability: 'strength', attackBonus: 6, damageDice: '1d10', damageModifier: 3, twoHanded: true });
+      expect(getWeaponAttack(hero({ inventory: items('Longsword', 'Shield'), equippedItems: { mainHand: 'Longsword', shield: 'Shield' } }))!.damageDice).toBe('1d8');
+    });
+
+    it('should use the better ability for finesse weapons and Dexterity for ranged ones', () => {
+      const agile = hero({ abilityScores: { ...hero().abilityScores, strength: 8, dexterity: 18 } });
+      expect(getWeaponAttack(agile, 'Rapier')!.ability).toBe('dexterity');
+      expect(getWeaponAttack(agile, 'Greataxe')!.ability).toBe('strength');
+
+      const bow = getWeaponAttack(agile, 'Longbow')!;
+      expect(bow).toMatchObject({ ability: 'dexterity', ranged: true, range: { normal: 150, long: 600 } });
+    });
+
+    it('should apply reach, proficiency and magic', () => {
+      expect(getWeaponAttack(hero(), 'Glaive')!.reach).toBe(10);
+      expect(getWeaponAttack(hero({ className: 'Wizard' }), 'Longsword')!.proficient).toBe(false);
+
+      const flame = getWeaponAttack(hero({ inventory: [{ name: 'Flame Tongue', quantity: 1, attuned: true }] }), 'Flame Tongue')!;
+      expect(flame.extraDamage).toEqual([{ dice: '2d6', type: 'fire', source: 'Flame Tongue' }]);
+      expect(getWeaponAttack(hero(), '+2 Shortsword')).toMatchObject({ attackBonus: 3 + 3 + 2, damageModifier: 3 + 2 });
+    });
+
+    it('should not add a positive modifier to off-hand damage', () => {
+      const dual = hero({ inventory: [{ name: 'Shortsword', quantity: 2 }], equippedItems: { mainHand: 'Shortsword', offHand: 'Shortsword' } });
+      const [main, off] = getCharacterAttacks(dual);
+
+      expect(main.damageModifier).toBe(3);
+      expect(off.damageModifier).toBe(0);
+    });
+
+    it('should return null for things that are not weapons', () => {
+      expect(getWeaponAttack(hero(), 'Torch')).toBeNull();
+      expect(getWeaponAttack(hero())).toBeNull();
+    });
+  });
+
+  describe('equipItem', () => {
+    it('should put armor and shields in their own slots', () => {
+      const result = equipItem(hero({ inventory: items('Chain Mail', 'Shield') }), 'chain mail', 'mainHand');
+      expect(result).toEqual({ allowed: true, equippedItems: { armor: 'Chain Mail' }, slot: 'armor', unequipped: [] });
+    });
+
+    it('should free the other hand for a two-handed weapon', () => {
+      const character = hero({
+        inventory: items('Greatsword', 'Longsword', 'Shield'),
+        equippedItems: { mainHand: 'Longsword', shield: 'Shield' },
+      });
+
+      const result = equipItem(character, 'Greatsword');
+      expect(result.allowed && result.equippedItems).toEqual({ mainHand: 'Greatsword' });
+      expect(result.allowed && result.unequipped).toEqual(['Shield', 'Longsword']);
+
+      expect(equipItem(character, 'Greatsword', 'offHand')).toEqual({ allowed: false, reason: 'Greatsword needs both hands' });
+    });
+
+    it('should refuse items the character does not carry', () => {
+      expect(equipItem(hero(), 'Vorpal Sword')).toEqual({ allowed: false, reason: "Vex doesn't have Vorpal Sword" });
+    });
+
+    it('should unequip by slot or item name', () => {
+      expect(unequipItem({ armor: 'Leather Armor', mainHand: 'Dagger' }, 'dagger')).toEqual({ armor: 'Leather Armor' });
+      expect(unequipItem({ armor: 'Leather Armor', mainHand: 'Dagger' }, 'armor')).toEqual({ mainHand: 'Dagger' });
+    });
+  });
+
+  describe('attunement', () => {
+    it('should limit attunement to three items', () => {
+      const inventory: InventoryItem[] = [
+        ...['Cloak of Protection', 'Ring of Protection', 'Amulet of Health'].map((name) => ({ name, quantity: 1, attuned: true })),
+        ...items('Gauntlets of Ogre Power', 'Bag of Holding'),
+      ];
+      const character = hero({ inventory });
+
+      expect(attuneItem(character, 'Gauntlets of Ogre Power')).toEqual({
+        allowed: false,
+        reason: 'Vex is already attuned to 3 items (Cloak of Protection, Ring of Protection, Amulet of Health)',
+      });
+      expect(attuneItem(character, 'Bag of Holding')).toEqual({ allowed: false, reason: "Bag of Holding doesn't require attunement" });
+
+      const freed = endAttunement(inventory, 'Ring of Protection');
+      const result = attuneItem(hero({ inventory: freed }), 'Gauntlets of Ogre Power');
+      expect(result.allowed && result.inventory.filter((i) => i.attuned).map((i) => i.name))
+        .toEqual(['Cloak of Protection', 'Amulet of Health', 'Gauntlets of Ogre Power']);
+    });
+  });
+
+  it('should equip starting armor, shield and a one-handed weapon', () => {
+    expect(getStartingEquipment(items('Chain Mail', 'Greataxe', 'Longsword', 'Shield', 'Light Crossbow'))).toEqual({
+      armor: 'Chain Mail',
+      shield: 'Shield',
+      mainHand: 'Longsword',
+    });
+    expect(getStartingEquipment(items('Spellbook', 'Light Crossbow'))).toEqual({ mainHand: 'Light Crossbow' });
+  });
+});
@@ -0,0 +1,421 @@
+// Item Catalog - weapons, armor and magic items, and the AC and attacks a character's equipped gear gives them
+
+import { compendium } from '@/lib/rules';
+import type { RulesCompendium, EquipmentDefinition, MagicItemDefinition, MagicItemRarity, WeaponProperty } from '@/lib/rules';
+import type { Ability, Character, DamageType, EquippedItems, InventoryItem } from './types';
+import { getAbilityModifier, getProficiencyBonus } from './types';
+
+// A creature can be attuned to no more than three magic items at once
+export const MAX_ATTUNED_ITEMS = 3;
+
+// Weapon proficiencies by class (SRD): whole categories plus individual weapons
+const WEAPON_PROFICIENCIES: Record<string, { categories: ('simple' | 'martial')[]; weapons: string[] }> = {
+  barbarian: { categories: ['simple', 'martial'], weapons: [] },
+  fighter: { categories: ['simple', 'martial'], weapons: [] },
+  paladin: { categories: ['simple', 'martial'], weapons: [] },
+  ranger: { categories: ['simple', 'martial'], weapons: [] },
+  bard: { categories: ['simple'], weapons: ['Hand Crossbow', 'Longsword', 'Rapier', 'Shortsword'] },
+  rogue: { categories: ['simple'], weapons: ['Hand Crossbow', 'Longsword', 'Rapier', 'Shortsword'] },
+  monk: { categories: ['simple'], weapons: ['Shortsword'] },
+  cleric: { categories: ['simple'], weapons: [] },
+  warlock: { categories: ['simple'], weapons: [] },
+  druid: { categories: [], weapons: ['Club', 'Dagger', 'Dart', 'Javelin', 'Mace', 'Quarterstaff', 'Scimitar', 'Sickle', 'Sling', 'Spear'] },
+  sorcerer: { categories: [], weapons: ['Dagger', 'Dart', 'Sling', 'Quarterstaff', 'Light Crossbow'] },
+  wizard: { categories: [], weapons: ['Dagger', 'Dart', 'Sling', 'Quarterstaff', 'Light Crossbow'] },
+};
+
+const MAGIC_RARITIES: MagicItemRarity[] = ['uncommon', 'rare', 'very rare', 'legendary'];
+
+// "+1 Longsword", "Longsword +1", "Chain Mail, +2"
+const PLUS_PREFIX = /^\+(\d)\s+(.+)$/;
+const PLUS_SUFFIX = /^(.+?),?\s+\+(\d)$/;
+
+// What a character needs for their gear to be worked out
+export type GearHolder = Pick<Character, 'name' | 'abilityScores' | 'className' | 'level' | 'inventory' | 'equippedItems'>
+  & Partial<Pick<Character, 'classLevels'>>;
+
+export interface ResolvedItem {
+  name: string;
+  equipment?: EquipmentDefinition;  // The weapon or armor underneath
+  magic?: MagicItemDefinition;
+  attuned: boolean;
+  active: boolean;                  // Its magic works: no attunement needed, or attuned
+}
+
+export interface WeaponAttack {
+  weapon: string;
+  ability: Ability;
+  attackBonus: number;
+  damageDice: string;
+  damageModifier: number;
+  damageType: DamageType;
+  extraDamage: { dice: string; type: DamageType; source: string }[];
+  properties: WeaponProperty[];
+  ranged: boolean;                  // Ranged weapon; thrown melee weapons count as melee
+  reach: number;                    // Feet
+  range?: { normal: number; long: number };
+  proficient: boolean;
+  twoHanded: boolean;               // Versatile weapon wielded in both hands
+}
+
+export interface ArmorClassResult {
+  armorClass: number;
+  sources: string[];                // "Chain Mail 16", "Shield +2"
+  notes: string[];                  // Strength requirements, stealth disadvantage
+}
+
+export type EquipResult =
+  | { allowed: true; equippedItems: EquippedItems; slot: string; unequipped: string[] }
+  | { allowed: false; reason: string };
+
+export type AttuneResult =
+  | { allowed: true; inventory: InventoryItem[] }
+  | { allowed: false; reason: string };
+
+function formatBonus(value: number): string {
+  return value >= 0 ? `+${value}` : `${value}`;
+}
+
+/**
+ * SRD weapon or armor by name, or the one a longer name ends with ("Wooden Shield" -> Shield)
+ */
+function findEquipment(name: string, rules: RulesCompendium): EquipmentDefinition | null {
+  const words = name.trim().split(/\s+/);
+  for (let i = 0; i < words.length; i++) {
+    const found = rules.getEquipment(words.slice(i).join(' '));
+    if (found && (i === 0 || found.weapon || found.armor)) return found;
+  }
+  return null;
+}
+
+/**
+ * The +N magic item for a weapon, armor or shield, from the compendium when it has one
+ */
+function getPlusItem(equipment: EquipmentDefinition, bonus: number, rules: RulesCompendium): MagicItemDefinition {
+  const kind = equipment.armor?.category === 'shield' ? 'Shield' : equipment.armor ? 'Armor' : 'Weapon';
+  const name = `${kind}, +${bonus}`;
+  return rules.getMagicItem(name) ?? {
+    name,
+    type: kind === 'Weapon' ? 'weapon' : 'armor',
+    rarity: MAGIC_RARITIES[Math.min(MAGIC_RARITIES.length - 1, bonus - (kind === 'Armor' ? 0 : 1))],
+    requiresAttunement: false,
+    description: kind === 'Weapon'
+      ? `You have a +${bonus} bonus to attack and damage rolls made with this magic weapon.`
+      : `You have a +${bonus} bonus to AC while ${kind === 'Shield' ? 'holding this shield' : 'wearing this armor'}.`,
+    bonuses: kind === 'Weapon' ? { attack: bonus, damage: bonus } : { armorClass: bonus },
+  };
+}
+
+/**
+ * What an inventory item is: the SRD weapon or armor underneath and any magic item
+ */
+export function resolveItem(item: InventoryItem | string, rules: RulesCompendium = compendium): ResolvedItem {
+  const entry: InventoryItem = typeof item === 'string' ? { name: item, quantity: 1 } : item;
+  const name = entry.name.trim();
+  const prefixed = name.match(PLUS_PREFIX);
+  const suffixed = name.match(PLUS_SUFFIX);
+  const plus = prefixed
+    ? { base: prefixed[2], bonus: parseInt(prefixed[1]) }
+    : suffixed ? { base: suffixed[1], bonus: parseInt(suffixed[2]) } : null;
+
+  let magic = rules.getMagicItem(entry.magicItem ?? name);
+  const baseName = entry.baseItem ?? magic?.baseItem ?? (magic ? undefined : plus?.base ?? name);
+  const equipment = baseName ? findEquipment(baseName, rules) : null;
+  if (!magic && plus && equipment) {
+    magic = getPlusItem(equipment, plus.bonus, rules);
+  }
+
+  const attuned = !!entry.attuned;
+  return {
+    name: entry.name,
+    equipment: equipment ?? undefined,
+    magic: magic ?? undefined,
+    attuned,
+    active: !magic?.requiresAttunement || attuned,
+  };
+}
+
+function findInventoryItem(character: Pick<Character, 'inventory'>, name: string): InventoryItem | undefined {
+  const wanted = name.trim().toLowerCase();
+  return character.inventory.find((i) => i.name.toLowerCase() === wanted);
+}
+
+/**
+ * The item in an equipment slot, with its inventory details when carried
+ */
+function getEquipped(character: GearHolder, slot: string, rules: RulesCompendium): ResolvedItem | undefined {
+  const name = character.equippedItems[slot];
+  if (!name) return undefined;
+  return resolveItem(findInventoryItem(character, name) ?? name, rules);
+}
+
+function getClassNames(character: GearHolder): string[] {
+  return (character.classLevels?.length ? character.classLevels.map((c) => c.className) : [character.className])
+    .map((name) => name.toLowerCase());
+}
+
+export function isProficientWith(character: GearHolder, weapon: EquipmentDefinition): boolean {
+  if (!weapon.weapon) return false;
+  return getClassNames(character).some((className) => {
+    const proficiencies = WEAPON_PROFICIENCIES[className] ?? { categories: ['simple'], weapons: [] };
+    return proficiencies.categories.includes(weapon.weapon!.category) || proficiencies.weapons.includes(weapon.name);
+  });
+}
+
+/**
+ * Armor class from worn armor, shield, Unarmored Defense and magic items
+ */
+export function getArmorClass(character: GearHolder, rules: RulesCompendium = compendium): ArmorClassResult {
+  const scores = character.abilityScores;
+  const dex = getAbilityModifier(scores.dexterity);
+  const classes = getClassNames(character);
+  const sources: string[] = [];
+  const notes: string[] = [];
+
+  const armor = getEquipped(character, 'armor', rules);
+  const shield = getEquipped(character, 'shield', rules);
+  const bodyArmor = armor?.equipment?.armor && armor.equipment.armor.category !== 'shield' ? armor : undefined;
+  const heldShield = shield?.equipment?.armor?.category === 'shield' ? shield : undefined;
+
+  let armorClass: number;
+  if (bodyArmor) {
+    const stats = bodyArmor.equipment!.armor!;
+    const dexBonus = !stats.dexBonus ? 0 : Math.min(dex, stats.maxDexBonus ?? dex);
+    armorClass = stats.baseAc + dexBonus;
+    sources.push(`${bodyArmor.equipment!.name} ${stats.baseAc}`);
+    if (stats.dexBonus) sources.push(`Dex ${formatBonus(dexBonus)}${stats.maxDexBonus !== undefined && dex > stats.maxDexBonus ? ' (max)' : ''}`);
+    if (stats.strengthMinimum && scores.strength < stats.strengthMinimum) {
+      notes.push(`${bodyArmor.name} needs Strength ${stats.strengthMinimum} (speed -10 ft)`);
+    }
+    if (stats.stealthDisadvantage) notes.push(`${bodyArmor.name} gives disadvantage on Stealth checks`);
+  } else {
+    // Unarmored Defense: barbarians add Constitution, monks without a shield Wisdom
+    const options = [{ value: 10 + dex, label: [`Unarmored 10`, `Dex ${formatBonus(dex)}`] }];
+    if (classes.includes('barbarian')) {
+      const con = getAbilityModifier(scores.constitution);
+      options.push({ value: 10 + dex + con, label: ['Unarmored Defense 10', `Dex ${formatBonus(dex)}`, `Con ${formatBonus(con)}`] });
+    }
+    if (classes.includes('monk') && !heldShield) {
+      const wis = getAbilityModifier(scores.wisdom);
+      options.push({ value: 10 + dex + wis, label: ['Unarmored Defense 10', `Dex ${formatBonus(dex)}`, `Wis ${formatBonus(wis)}`] });
+    }
+    const best = options.reduce((a, b) => (b.value > a.value ? b : a));
+    armorClass = best.value;
+    sources.push(...best.label);
+  }
+
+  if (heldShield) {
+    armorClass += heldShield.equipment!.armor!.baseAc;
+    sources.push(`${heldShield.name} +${heldShield.equipment!.armor!.baseAc}`);
+  }
+
+  // Magic armor and shields while worn; rings, cloaks and the like while attuned
+  const magicSources = [bodyArmor, heldShield].filter((item): item is ResolvedItem => !!item?.magic && item.active);
+  character.inventory.forEach((entry) => {
+    if (!entry.attuned) return;
+    const item = resolveItem(entry, rules);
+    if (item.magic && item.magic.type !== 'armor' && item.magic.type !== 'weapon') magicSources.push(item);
+  });
+  magicSources.forEach((item) => {
+    const bonus = item.magic!.bonuses?.armorClass ?? 0;
+    if (bonus === 0) return;
+    armorClass += bonus;
+    sources.push(`${item.name} ${formatBonus(bonus)}`);
+  });
+
+  return { armorClass, sources, notes };
+}
+
+/**
+ * Attack and damage for a weapon: the one named (equipped or carried), else the
+ * main-hand weapon. Null when it isn't a weapon the catalog knows.
+ */
+export function getWeaponAttack(
+  character: GearHolder,
+  weaponName?: string,
+  rules: RulesCompendium = compendium
+): WeaponAttack | null {
+  const wanted = weaponName?.trim().toLowerCase();
+  const equipped = character.equippedItems;
+  const slot = !wanted || wanted === 'weapon' ? (equipped.mainHand ? 'mainHand' : undefined)
+    : equipped.mainHand?.toLowerCase() === wanted ? 'mainHand'
+    : equipped.offHand?.toLowerCase() === wanted ? 'offHand'
+    : undefined;
+
+  const item = slot
+    ? getEquipped(character, slot, rules)
+    : weaponName ? resolveItem(findInventoryItem(character, weaponName) ?? weaponName, rules) : undefined;
+  return item ? getAttackWith(character, item, slot) : null;
+}
+
+function getAttackWith(character: GearHolder, item: ResolvedItem, slot?: 'mainHand' | 'offHand'): WeaponAttack | null {
+  const weapon = item.equipment?.weapon;
+  if (!weapon) return null;
+
+  const equipped = character.equippedItems;
+  const scores = character.abilityScores;
+  const str = getAbilityModifier(scores.strength);
+  const dex = getAbilityModifier(scores.dexterity);
+  const ability: Ability = weapon.range === 'ranged' ? 'dexterity'
+    : weapon.properties.includes('finesse') && dex > str ? 'dexterity'
+    : 'strength';
+  const modifier = ability === 'dexterity' ? dex : str;
+  const proficient = isProficientWith(character, item.equipment!);
+  const magic = item.magic && item.active ? item.magic.bonuses : undefined;
+
+  // A versatile weapon is wielded two-handed when the other hand is free
+  const twoHanded = weapon.properties.includes('versatile') && !!weapon.versatileDamage
+    && slot !== 'offHand' && !equipped.offHand && !equipped.shield;
+  // Off-hand attacks don't add a positive ability modifier to damage
+  const damageModifier = (slot === 'offHand' ? Math.min(0, modifier) : modifier) + (magic?.damage ?? 0);
+
+  return {
+    weapon: item.name,
+    ability,
+    attackBonus: modifier + (proficient ? getProficiencyBonus(character.level) : 0) + (magic?.attack ?? 0),
+    damageDice: twoHanded ? weapon.versatileDamage! : weapon.damage.dice,
+    damageModifier,
+    damageType: weapon.damage.type,
+    extraDamage: magic?.extraDamage ? [{ ...magic.extraDamage, source: item.magic!.name }] : [],
+    properties: weapon.properties,
+    ranged: weapon.range === 'ranged',
+    reach: weapon.properties.includes('reach') ? 10 : 5,
+    range: weapon.normalRange ? { normal: weapon.normalRange, long: weapon.longRange ?? weapon.normalRange } : undefined,
+    proficient,
+    twoHanded,
+  };
+}
+
+/**
+ * Attacks with the weapons in hand
+ */
+export function getCharacterAttacks(character: GearHolder, rules: RulesCompendium = compendium): WeaponAttack[] {
+  return (['mainHand', 'offHand'] as const)
+    .map((slot) => (character.equippedItems[slot] ? getAttackWith(character, getEquipped(character, slot, rules)!, slot) : null))
+    .filter((attack): attack is WeaponAttack => attack !== null);
+}
+
+/**
+ * Equip a carried item. Armor and shields go to their own slots, anything else to
+ * a hand (main hand by default). Two-handed weapons free the other hand, and a
+ * shield and an off-hand item can't be held together.
+ */
+export function equipItem(
+  character: GearHolder,
+  itemName: string,
+  slot?: string,
+  rules: RulesCompendium = compendium
+): EquipResult {
+  const entry = findInventoryItem(character, itemName);
+  if (!entry) {
+    return { allowed: false, reason: `${character.name} doesn't have ${itemName}` };
+  }
+
+  const item = resolveItem(entry, rules);
+  const armorCategory = item.equipment?.armor?.category;
+  const target = armorCategory === 'shield' ? 'shield' : armorCategory ? 'armor' : slot ?? 'mainHand';
+  const equippedItems: EquippedItems = { ...character.equippedItems };
+  const unequipped: string[] = [];
+  const free = (s: string) => {
+    const held = equippedItems[s];
+    if (held && held !== entry.name) unequipped.push(held);
+    delete equippedItems[s];
+  };
+
+  const isTwoHanded = (name?: string) => !!name && !!resolveItem(findInventoryItem(character, name) ?? name, rules)
+    .equipment?.weapon?.properties.includes('two-handed');
+
+  if (target === 'offHand' && isTwoHanded(entry.name)) {
+    return { allowed: false, reason: `${entry.name} needs both hands` };
+  }
+  if (target === 'mainHand' && isTwoHanded(entry.name)) {
+    free('offHand');
+    free('shield');
+  }
+  if ((target === 'offHand' || target === 'shield') && isTwoHanded(equippedItems.mainHand)) {
+    free('mainHand');
+  }
+  if (target === 'shield') free('offHand');
+  if (target === 'offHand') free('shield');
+
+  // Holding one item in both hands needs two of it
+  const otherHand = target === 'mainHand' ? 'offHand' : target === 'offHand' ? 'mainHand' : null;
+  if (otherHand && equippedItems[otherHand]?.toLowerCase() === entry.name.toLowerCase() && entry.quantity < 2) {
+    delete equippedItems[otherHand];
+  }
+
+  if (equippedItems[target] && equippedItems[target] !== entry.name) unequipped.push(equippedItems[target]!);
+  equippedItems[target] = entry.name;
+
+  return { allowed: true, equippedItems, slot: target, unequipped };
+}
+
+/**
+ * Take an item out of its slot, by slot name or by item name
+ */
+export function unequipItem(equippedItems: EquippedItems, slotOrItem: string): EquippedItems {
+  const updated: EquippedItems = { ...equippedItems };
+  const wanted = slotOrItem.trim().toLowerCase();
+  Object.keys(updated).forEach((slot) => {
+    if (slot.toLowerCase() === wanted || updated[slot]?.toLowerCase() === wanted) delete updated[slot];
+  });
+  return updated;
+}
+
+/**
+ * Attune to a carried magic item that requires it, up to three at once
+ */
+export function attuneItem(character: GearHolder, itemName: string, rules: RulesCompendium = compendium): AttuneResult {
+  const entry = findInventoryItem(character, itemName);
+  if (!entry) {
+    return { allowed: false, reason: `${character.name} doesn't have ${itemName}` };
+  }
+  if (!resolveItem(entry, rules).magic?.requiresAttunement) {
+    return { allowed: false, reason: `${entry.name} doesn't require attunement` };
+  }
+  if (entry.attuned) {
+    return { allowed: false, reason: `${character.name} is already attuned to ${entry.name}` };
+  }
+
+  const attuned = character.inventory.filter((i) => i.attuned).map((i) => i.name);
+  if (attuned.length >= MAX_ATTUNED_ITEMS) {
+    return { allowed: false, reason: `${character.name} is already attuned to ${MAX_ATTUNED_ITEMS} items (${attuned.join(', ')})` };
+  }
+
+  return {
+    allowed: true,
+    inventory: character.inventory.map((i) => (i === entry ? { ...i, attuned: true } : i)),
+  };
+}
+
+/**
+ * End attunement to an item
+ */
+export function endAttunement(inventory: InventoryItem[], itemName: string): InventoryItem[] {
+  const wanted = itemName.trim().toLowerCase();
+  return inventory.map((i) => {
+    if (i.name.toLowerCase() !== wanted) return i;
+    const { attuned: _attuned, ...rest } = i;
+    return rest;
+  });
+}
+
+/**
+ * Gear a new character starts wearing and wielding: their first body armor and
+ * shield, and a melee weapon (one-handed when they carry a shield)
+ */
+export function getStartingEquipment(inventory: InventoryItem[], rules: RulesCompendium = compendium): EquippedItems {
+  const items = inventory.map((i) => resolveItem(i, rules));
+  const armor = items.find((i) => i.equipment?.armor && i.equipment.armor.category !== 'shield');
+  const shield = items.find((i) => i.equipment?.armor?.category === 'shield');
+  const weapons = items.filter((i) => i.equipment?.weapon);
+  const melee = weapons.filter((i) => i.equipment!.weapon!.range === 'melee');
+  const mainHand = (shield ? melee.filter((i) => !i.equipment!.weapon!.properties.includes('two-handed')) : melee)[0]
+    ?? (shield ? undefined : weapons[0]);
+
+  const equipped: EquippedItems = {};
+  if (armor) equipped.armor = armor.name;
+  if (shield) equipped.shield = shield.name;
+  if (mainHand) equipped.mainHand = mainHand.name;
+  return equipped;
+}
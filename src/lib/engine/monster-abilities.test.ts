@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getRechargeThreshold,
+  getLegendaryActionCost,
+  getLegendaryActionBudget,
+  findMonsterAction,
+} from './monster-abilities';
+import { compendium } from '@/lib/rules';
+
+describe('monster abilities', () => {
+  it('should read recharge thresholds from action names', () => {
+    expect(getRechargeThreshold({ name: 'Fire Breath (Recharge 5-6)' })).toBe(5);
+    expect(getRechargeThreshold({ name: 'Web (Recharge 6)' })).toBe(6);
+    expect(getRechargeThreshold({ name: 'Bite' })).toBeNull();
+  });
+
+  it('should read legendary action costs', () => {
+    expect(getLegendaryActionCost({ name: 'Wing Attack (Costs 2 Actions)' })).toBe(2);
+    expect(getLegendaryActionCost({ name: 'Tail Attack' })).toBe(1);
+  });
+
+  it('should give legendary monsters three actions a round unless told otherwise', () => {
+    const dragon = compendium.getMonster('adult red dragon')!;
+
+    expect(getLegendaryActionBudget(dragon)).toBe(3);
+    expect(getLegendaryActionBudget({ ...dragon, legendaryActionCount: 5 })).toBe(5);
+    expect(getLegendaryActionBudget({ ...dragon, legendaryActions: undefined })).toBe(0);
+  });
+
+  it('should find actions with or without their parenthetical note', () => {
+    const dragon = compendium.getMonster('adult red dragon')!;
+
+    expect(findMonsterAction(dragon.actions, 'fire breath')?.name).toBe('Fire Breath (Recharge 5-6)');
+    expect(findMonsterAction(dragon.legendaryActions, 'Wing Attack (Costs 2 Actions)')?.name).toBe('Wing Attack (Costs 2 Actions)');
+    expect(findMonsterAction(dragon.actions, 'Tail Swipe')).toBeUndefined();
+  });
+});
@@ -0,0 +1,53 @@
+// Monster Abilities - legendary actions, lair actions and recharge abilities read from stat blocks
+
+import type { MonsterAction, MonsterStatBlock } from './types';
+
+export const DEFAULT_LEGENDARY_ACTIONS = 3;
+
+// Lair actions happen on initiative count 20, losing all ties
+export const LAIR_INITIATIVE = 20;
+
+// "Fire Breath (Recharge 5-6)", "Web (Recharge 6)"
+const RECHARGE_PATTERN = /\(Recharge (\d)(?:\s*[-–]\s*\d)?\)/i;
+
+// "Wing Attack (Costs 2 Actions)"
+const COST_PATTERN = /\(Costs (\d+) Actions?\)/i;
+
+/**
+ * Lowest d6 roll that recharges an ability, or null if it doesn't recharge each round
+ */
+export function getRechargeThreshold(action: Pick<MonsterAction, 'name'>): number | null {
+  const match = action.name.match(RECHARGE_PATTERN);
+  return match ? parseInt(match[1]) : null;
+}
+
+/**
+ * Legendary action points an action costs
+ */
+export function getLegendaryActionCost(action: Pick<MonsterAction, 'name'>): number {
+  const match = action.name.match(COST_PATTERN);
+  return match ? parseInt(match[1]) : 1;
+}
+
+/**
+ * Legendary actions the monster can take each round (0 for ordinary monsters)
+ */
+export function getLegendaryActionBudget(statBlock: MonsterStatBlock): number {
+  if (!statBlock.legendaryActions?.length) return 0;
+  return statBlock.legendaryActionCount ?? DEFAULT_LEGENDARY_ACTIONS;
+}
+
+/**
+ * An action's name without its "(Recharge 5-6)" or "(Costs 2 Actions)" note
+ */
+export function getBaseActionName(name: string): string {
+  return name.replace(/\s*\([^)]*\)\s*$/, '').trim();
+}
+
+/**
+ * Find an action by name, with or without its parenthetical note
+ */
+export function findMonsterAction(actions: MonsterAction[] | undefined, name: string): MonsterAction | undefined {
+  const wanted = getBaseActionName(name).toLowerCase();
+  return actions?.find((a) => getBaseActionName(a.name).toLowerCase() === wanted);
+}
@@ -0,0 +1,227 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MonsterTactics, getAttackOptions, inferBehavior, parseMultiattack, splitDamageDice } from './monster-tactics';
+import { SpatialEngine } from './spatial-engine';
+import type { Combat, Combatant, MonsterStatBlock } from './types';
+import type { GameMap, GridPosition } from './spatial-types';
+import { compendium } from '@/lib/rules';
+
+function monster(name: string): MonsterStatBlock {
+  return compendium.getMonster(name)!;
+}
+
+function combatant(id: string, overrides: Partial<Combatant> = {}): Combatant {
+  const statBlock = overrides.monsterStatBlock;
+  return {
+    id,
+    name: statBlock?.name ?? id,
+    type: statBlock ? 'enemy' : 'player_character',
+    initiative: 10,
+    initiativeModifier: 0,
+    initiativeRoll: 10,
+    currentHp: statBlock?.hitPoints ?? 20,
+    maxHp: statBlock?.hitPoints ?? 20,
+    armorClass: statBlock?.armorClass ?? 15,
+    speed: statBlock?.speed.walk ?? 30,
+    conditions: [],
+    status: 'active',
+    turnResources: { hasAction: true, hasBonusAction: true, hasReaction: true, movementRemaining: statBlock?.speed.walk ?? 30 },
+    sourceId: statBlock ? undefined : id,
+    isMonster: !!statBlock,
+    ...overrides,
+  };
+}
+
+function combatOf(...combatants: Combatant[]): Combat {
+  return {
+    id: 'combat1',
+    round: 1,
+    initiativeOrder: combatants,
+    currentTurnIndex: 0,
+    surprisedCombatants: [],
+    environmentalEffects: [],
+    active: true,
+  };
+}
+
+function place(map: GameMap, c: Combatant, position: GridPosition): void {
+  SpatialEngine.placeEntity(map, {
+    entityType: c.type === 'enemy' ? 'enemy' : 'player',
+    name: c.name,
+    position,
+    size: 'medium',
+    speed: c.speed,
+    movementUsed: 0,
+    conditions: [],
+    isVisible: true,
+    sourceId: c.id,
+  });
+}
+
+describe('MonsterTactics', () => {
+  let tactics: MonsterTactics;
+  let map: GameMap;
+
+  beforeEach(() => {
+    tactics = new MonsterTactics();
+    map = SpatialEngine.createEmptyMap(20, 20, 'Arena');
+  });
+
+  describe('stat block reading', () => {
+    it('should split damage dice from their modifier', () => {
+      expect(splitDamageDice('2d6+3')).toEqual({ dice: '2d6', modifier: 3 });
+      expect(splitDamageDice('1d10')).toEqual({ dice: '1d10', modifier: 0 });
+      expect(splitDamageDice('1d4 - 1')).toEqual({ dice: '1d4', modifier: -1 });
+    });
+
+    it('should read reach and range from attack descriptions', () => {
+      const [scimitar, shortbow] = getAttackOptions(monster('goblin'));
+
+      expect(scimitar).toMatchObject({ ranged: false, range: 5, attackBonus: 4 });
+      expect(shortbow).toMatchObject({ ranged: true, range: 80 });
+    });
+
+    it('should parse multiattacks', () => {
+      expect(parseMultiattack(monster('brown bear'))).toEqual(['Bite', 'Claws']);
+      expect(parseMultiattack(monster('bandit captain'))).toEqual(['Scimitar', 'Scimitar', 'Dagger']);
+      expect(parseMultiattack(monster('veteran'))).toEqual(['Longsword', 'Longsword']);
+      expect(parseMultiattack(monster('thug'))).toEqual(['Mace', 'Mace']);
+      expect(parseMultiattack(monster('goblin'))).toEqual([]);
+    });
+
+    it('should infer a behavior from the stat block', () => {
+      expect(inferBehavior(monster('orc'))).toBe('brute');
+      expect(inferBehavior(monster('goblin'))).toBe('skirmisher');
+      expect(inferBehavior(monster('mage'))).toBe('caster');
+    });
+  });
+
+  describe('planTurn', () => {
+    it('should close to melee and multiattack the nearest enemy', () => {
+      const bear = combatant('bear_1', { monsterStatBlock: monster('brown bear') });
+      const near = combatant('near', { currentHp: 30 });
+      const far = combatant('far', { currentHp: 5 });
+      place(map, bear, { x: 0, y: 0 });
+      place(map, near, { x: 5, y: 0 });
+      place(map, far, { x: 15, y: 15 });
+
+      const plan = tactics.planTurn(combatOf(bear, near, far), 'bear_1', { map });
+
+      expect(plan.behavior).toBe('brute');
+      expect(plan.targetId).toBe('near');
+      expect(plan.action).toBe('Multiattack');
+      expect(plan.steps.map((s) => s.type)).toEqual(['move', 'attack', 'attack']);
+
+      const move = plan.steps[0];
+      expect(move.type === 'move' && SpatialEngine.isAdjacent(move.path[move.path.length - 1], { x: 5, y: 0 })).toBe(true);
+
+      const bite = plan.steps[1];
+      expect(bite.type === 'attack' && bite.attack.arguments).toMatchObject({ attacker_id: 'bear_1', target_id: 'near', weapon: 'Bite' });
+      expect(bite.type === 'attack' && bite.damage[0].arguments).toMatchObject({ damage_dice: '1d8', damage_modifier: 4, damage_type: 'piercing' });
+    });
+
+    it('should stay put when already in reach', () => {
+      const orc = combatant('orc_1', { monsterStatBlock: monster('orc') });
+      const hero = combatant('hero');
+      place(map, orc, { x: 3, y: 3 });
+      place(map, hero, { x: 4, y: 3 });
+
+      const plan = tactics.planTurn(combatOf(orc, hero), 'orc_1', { map });
+
+      expect(plan.steps.map((s) => s.type)).toEqual(['attack']);
+      expect(plan.action).toBe('Greataxe');
+    });
+
+    it('should let a skirmisher disengage and shoot the weakest enemy', () => {
+      const goblin = combatant('goblin_1', { monsterStatBlock: monster('goblin') });
+      const fighter = combatant('fighter', { currentHp: 40 });
+      const wizard = combatant('wizard', { currentHp: 8 });
+      place(map, goblin, { x: 5, y: 5 });
+      place(map, fighter, { x: 6, y: 5 });
+      place(map, wizard, { x: 12, y: 5 });
+
+      const plan = tactics.planTurn(combatOf(goblin, fighter, wizard), 'goblin_1', { map });
+
+      expect(plan.behavior).toBe('skirmisher');
+      expect(plan.bonusAction).toBe('Disengage (Nimble Escape)');
+      expect(plan.targetId).toBe('wizard');
+      expect(plan.action).toBe('Shortbow');
+
+      const move = plan.steps[0];
+      const end = move.type === 'move' ? move.path[move.path.length - 1] : { x: 5, y: 5 };
+      expect(SpatialEngine.isAdjacent(end, { x: 6, y: 5 })).toBe(false);
+      expect(move.type === 'move' && move.call.arguments.disengage).toBe(true);
+      expect(plan.steps[1].type === 'attack' && plan.steps[1].attack.arguments.advantage_status).toBe('normal');
+    });
+
+    it('should dash toward a target out of reach', () => {
+      const bear = combatant('bear_1', { monsterStatBlock: monster('brown bear') });
+      const hero = combatant('hero');
+      place(map, bear, { x: 0, y: 0 });
+      place(map, hero, { x: 19, y: 0 });
+
+      const plan = tactics.planTurn(combatOf(bear, hero), 'bear_1', { map });
+
+      expect(plan.action).toBe('Dash');
+      expect(plan.steps).toHaveLength(1);
+      expect(plan.steps[0].type === 'move' && plan.steps[0].feet).toBe(80);
+    });
+
+    it('should flee when a cowardly monster is badly hurt', () => {
+      const goblin = combatant('goblin_1', { monsterStatBlock: monster('goblin'), currentHp: 2 });
+      const hero = combatant('hero');
+      place(map, goblin, { x: 5, y: 5 });
+      place(map, hero, { x: 6, y: 5 });
+
+      const plan = tactics.planTurn(combatOf(goblin, hero), 'goblin_1', { map, behavior: 'cowardly' });
+
+      expect(plan.action).toBe('Dash');
+      expect(plan.bonusAction).toBe('Disengage (Nimble Escape)');
+      expect(plan.steps.some((s) => s.type === 'attack')).toBe(false);
+      const move = plan.steps[0];
+      expect(move.type === 'move' && move.path[move.path.length - 1].x).toBeLessThan(5);
+    });
+
+    it('should use a recharge ability while it is ready', () => {
+      const dragonBlock = monster('adult red dragon');
+      const breath = dragonBlock.actions.find((a) => a.name.startsWith('Fire Breath'))!.name;
+      const dragon = combatant('dragon', { monsterStatBlock: dragonBlock, recharge: { [breath]: true } });
+      const hero = combatant('hero');
+
+      const ready = tactics.planTurn(combatOf(dragon, hero), 'dragon');
+      expect(ready.steps).toEqual([{
+        type: 'ability',
+        action: breath,
+        call: { name: 'use_monster_action', arguments: { monster_id: 'dragon', action_name: breath, kind: 'action' } },
+      }]);
+
+      const spent = tactics.planTurn(combatOf({ ...dragon, recharge: { [breath]: false } }, hero), 'dragon');
+      expect(spent.action).toBe('Multiattack');
+    });
+
+    it('should attack with advantage against a paralyzed target', () => {
+      const orc = combatant('orc_1', { monsterStatBlock: monster('orc') });
+      const hero = combatant('hero', {
+        conditions: [{ condition: 'paralyzed', source: 'Hold Person', durationType: 'until_save' }],
+      });
+
+      const plan = tactics.planTurn(combatOf(orc, hero), 'orc_1');
+
+      expect(plan.steps[0].type === 'attack' && plan.steps[0].attack.arguments.advantage_status).toBe('advantage');
+    });
+
+    it('should not act while incapacitated or when no enemies remain', () => {
+      const orc = combatant('orc_1', {
+        monsterStatBlock: monster('orc'),
+        conditions: [{ condition: 'stunned', source: 'Stunning Strike', durationType: 'rounds', durationValue: 1 }],
+      });
+      const hero = combatant('hero');
+
+      expect(tactics.planTurn(combatOf(orc, hero), 'orc_1').action).toBeNull();
+      expect(tactics.planTurn(combatOf({ ...orc, conditions: [] }, { ...hero, status: 'dying' }), 'orc_1').steps).toEqual([]);
+    });
+
+    it('should throw for an unknown combatant', () => {
+      expect(() => tactics.planTurn(combatOf(), 'nobody')).toThrow('Combatant with id nobody not found');
+    });
+  });
+});
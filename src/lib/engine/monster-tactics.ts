@@ -0,0 +1,577 @@
+// Monster Tactics - deterministic enemy turn plans from the stat block, HP, conditions and map positions
+
+import type { AdvantageStatus, Combat, Combatant, Condition, MonsterAction, MonsterStatBlock } from './types';
+import { combineAdvantage } from './types';
+import { findMonsterAction, getBaseActionName } from './monster-abilities';
+import { INCAPACITATING_CONDITIONS, getAttackEffects } from './condition-effects';
+import { SpatialEngine } from './spatial-engine';
+import type { CreatureSize, GameMap, GridPosition, MapEntity } from './spatial-types';
+
+export type MonsterBehavior = 'brute' | 'skirmisher' | 'caster' | 'cowardly';
+
+export const MONSTER_BEHAVIORS: MonsterBehavior[] = ['brute', 'skirmisher', 'caster', 'cowardly'];
+
+// Share of max HP at or below which a monster breaks off and runs
+const FLEE_THRESHOLD: Record<MonsterBehavior, number> = {
+  brute: 0,
+  skirmisher: 0.25,
+  caster: 0.25,
+  cowardly: 0.5,
+};
+
+const NUMBER_WORDS: Record<string, number> = { one: 1, two: 2, three: 3, four: 4, five: 5, six: 6 };
+
+// A function call for the orchestrator to run - the same shape as an AI function call
+export interface PlannedCall {
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export type TurnPlanStep =
+  | { type: 'move'; call: PlannedCall; path: GridPosition[]; feet: number }
+  | { type: 'attack'; action: string; targetId: string; attack: PlannedCall; damage: PlannedCall[] }   // Damage only on a hit
+  | { type: 'ability'; action: string; call: PlannedCall };
+
+export interface TurnPlan {
+  combatantId: string;
+  name: string;
+  behavior: MonsterBehavior;
+  targetId: string | null;
+  action: string | null;        // "Multiattack", "Scimitar", "Dash", "Disengage" - null when it can't act
+  bonusAction: string | null;
+  reaction: string | null;      // What it holds its reaction for
+  steps: TurnPlanStep[];        // In the order they happen
+  reasoning: string[];
+}
+
+export interface PlanTurnOptions {
+  map?: GameMap | null;
+  behavior?: MonsterBehavior;   // Inferred from the stat block when not given
+}
+
+// An attack read from a stat block
+export interface MonsterAttackOption {
+  action: MonsterAction;
+  ranged: boolean;
+  range: number;          // Reach for melee attacks, normal range for ranged ones (feet)
+  attackBonus: number;
+  averageDamage: number;
+}
+
+// A square the monster can reach this turn, and how
+interface ReachableSquare {
+  position: GridPosition;
+  cost: number;
+  path: GridPosition[];
+}
+
+// Average damage for dice like "2d6+3"
+function averageDice(dice: string): number {
+  const match = dice.replace(/\s+/g, '').match(/^(\d+)d(\d+)([+-]\d+)?$/);
+  if (!match) return 0;
+  return parseInt(match[1]) * (parseInt(match[2]) + 1) / 2 + (match[3] ? parseInt(match[3]) : 0);
+}
+
+/**
+ * Split stat block damage like "2d6+3" into dice and a flat modifier
+ */
+export function splitDamageDice(dice: string): { dice: string; modifier: number } {
+  const match = dice.replace(/\s+/g, '').match(/^(\d+d\d+)([+-]\d+)?$/);
+  if (!match) return { dice, modifier: 0 };
+  return { dice: match[1], modifier: match[2] ? parseInt(match[2]) : 0 };
+}
+
+/**
+ * Attacks a monster can make, with recharge abilities that aren't ready left out
+ */
+export function getAttackOptions(statBlock: MonsterStatBlock, recharge?: Record<string, boolean>): MonsterAttackOption[] {
+  return statBlock.actions
+    .filter((action) => action.attackBonus !== undefined && action.damage?.length)
+    .filter((action) => recharge?.[action.name] !== false)
+    .map((action) => {
+      const ranged = /ranged (weapon|spell) attack/i.test(action.desc);
+      const range = ranged
+        ? parseInt(action.desc.match(/range (\d+)/i)?.[1] ?? '30')
+        : parseInt(action.desc.match(/reach (\d+)/i)?.[1] ?? '5');
+      return {
+        action,
+        ranged,
+        range,
+        attackBonus: action.attackBonus!,
+        averageDamage: action.damage!.reduce((sum, d) => sum + averageDice(d.dice), 0),
+      };
+    });
+}
+
+/**
+ * The attacks a Multiattack makes, by action name. Reads descriptions like
+ * "makes two attacks: one with its bite and one with its claws" or
+ * "makes two longsword attacks"; generic ones ("two melee attacks") repeat
+ * the strongest attack. Empty when the monster has no Multiattack.
+ */
+export function parseMultiattack(statBlock: MonsterStatBlock): string[] {
+  const multiattack = findMonsterAction(statBlock.actions, 'Multiattack');
+  if (!multiattack) return [];
+
+  // Only the first option of "... Or the captain makes two ranged attacks"
+  const desc = multiattack.desc.split(/\.\s+Or\b/i)[0].toLowerCase();
+  const attacks = getAttackOptions(statBlock);
+  const byName = (word: string) => attacks.find((a) => {
+    const name = getBaseActionName(a.action.name).toLowerCase();
+    return name === word || `${name}s` === word || name === `${word}s` || name.endsWith(` ${word}`);
+  });
+
+  // "one with its bite and two with its claws"
+  const named: string[] = [];
+  for (const match of Array.from(desc.matchAll(/(one|two|three|four) with its (\w+)/g))) {
+    const attack = byName(match[2]);
+    if (attack) named.push(...new Array<string>(NUMBER_WORDS[match[1]]).fill(attack.action.name));
+  }
+  if (named.length > 0) return named;
+
+  const counted = desc.match(/makes (one|two|three|four|five|six) (\w+)?\s*attacks/);
+  if (!counted) return [];
+  const count = NUMBER_WORDS[counted[1]];
+
+  // "two longsword attacks"
+  const weapon = counted[2] ? byName(counted[2]) : undefined;
+  if (weapon) return new Array<string>(count).fill(weapon.action.name);
+
+  // "two melee attacks", optionally "each one with a different weapon"
+  const pool = attacks
+    .filter((a) => counted[2] !== 'melee' || !a.ranged)
+    .filter((a) => counted[2] !== 'ranged' || a.ranged)
+    .sort((a, b) => b.averageDamage - a.averageDamage);
+  if (pool.length === 0) return [];
+  if (/different weapon/.test(desc)) return pool.slice(0, count).map((a) => a.action.name);
+  return new Array<string>(count).fill(pool[0].action.name);
+}
+
+/**
+ * Default behavior for a stat block: spellcasters hang back, nimble or ranged
+ * fighters skirmish, everything else wades in
+ */
+export function inferBehavior(statBlock: MonsterStatBlock): MonsterBehavior {
+  const traits = statBlock.traits ?? [];
+  if (traits.some((t) => /spellcasting/i.test(t.name))) return 'caster';
+  if (traits.some((t) => /nimble escape/i.test(t.name))) return 'skirmisher';
+
+  const attacks = getAttackOptions(statBlock);
+  const best = attacks.slice().sort((a, b) => b.averageDamage - a.averageDamage)[0];
+  if (best?.ranged) return 'skirmisher';
+  return 'brute';
+}
+
+function hasCondition(combatant: Combatant, conditions: Condition[]): boolean {
+  return combatant.conditions.some((c) => conditions.includes(c.condition));
+}
+
+function isHostile(a: Combatant, b: Combatant): boolean {
+  const side = (c: Combatant) => (c.type === 'enemy' ? 'enemy' : c.type === 'player_character' || c.type === 'ally' ? 'party' : null);
+  return side(a) !== null && side(b) !== null && side(a) !== side(b);
+}
+
+// The map token for a combatant
+function findEntity(map: GameMap, combatant: Combatant): MapEntity | undefined {
+  return map.entities.find((e) =>
+    e.id === combatant.id || e.sourceId === combatant.id || (!!combatant.sourceId && e.sourceId === combatant.sourceId)
+  );
+}
+
+function feetBetween(a: GridPosition, b: GridPosition): number {
+  return SpatialEngine.calculateDistance(a, b).feet;
+}
+
+function samePosition(a: GridPosition, b: GridPosition): boolean {
+  return a.x === b.x && a.y === b.y;
+}
+
+/**
+ * MonsterTactics plans enemy turns so they play out quickly and by the rules.
+ * Plans are deterministic - the same state always gives the same plan - and
+ * only describe function calls; nothing is rolled or changed here.
+ */
+export class MonsterTactics {
+  /**
+   * Plan a monster's turn: where it moves, who it attacks with what, and what
+   * it does with its bonus action and reaction
+   */
+  planTurn(combat: Combat, combatantId: string, options: PlanTurnOptions = {}): TurnPlan {
+    const combatant = combat.initiativeOrder.find((c) => c.id === combatantId);
+    if (!combatant) {
+      throw new Error(`Combatant with id ${combatantId} not found`);
+    }
+
+    const statBlock = combatant.monsterStatBlock;
+    const behavior = options.behavior ?? (statBlock ? inferBehavior(statBlock) : 'brute');
+    const plan: TurnPlan = {
+      combatantId: combatant.id,
+      name: combatant.name,
+      behavior,
+      targetId: null,
+      action: null,
+      bonusAction: null,
+      reaction: null,
+      steps: [],
+      reasoning: [],
+    };
+
+    if (combatant.status !== 'active') {
+      plan.reasoning.push(`${combatant.name} is ${combatant.status}`);
+      return plan;
+    }
+    if (hasCondition(combatant, INCAPACITATING_CONDITIONS)) {
+      plan.reasoning.push(`${combatant.name} is incapacitated and can't act`);
+      return plan;
+    }
+
+    const hostiles = combat.initiativeOrder.filter((c) => c.status === 'active' && isHostile(combatant, c));
+    if (hostiles.length === 0) {
+      plan.reasoning.push('No hostile creatures left to fight');
+      return plan;
+    }
+
+    const attacks = statBlock ? getAttackOptions(statBlock, combatant.recharge) : [];
+    const traits = statBlock?.traits ?? [];
+    const nimbleEscape = traits.some((t) => /nimble escape/i.test(t.name));
+    const aggressive = traits.some((t) => /^aggressive$/i.test(t.name));
+    plan.reaction = statBlock?.reactions?.[0]?.name
+      ?? (attacks.some((a) => !a.ranged) ? 'Opportunity Attack' : null);
+
+    // Positions come from the map when there is one
+    const map = options.map ?? null;
+    const self = map ? findEntity(map, combatant) : undefined;
+    const positionOf = (c: Combatant): GridPosition | undefined => (map ? findEntity(map, c)?.position : undefined) ?? c.position;
+    const sizeOf = (c: Combatant): CreatureSize => (map ? findEntity(map, c)?.size : undefined) ?? 'medium';
+    const start = self?.position ?? combatant.position;
+    const tracked = hostiles.filter((h) => positionOf(h));
+    const useMap = !!(map && self && start && tracked.length > 0);
+
+    let budget = combatant.turnResources.movementRemaining;
+    if (self) budget = Math.min(budget, self.speed - self.movementUsed);
+    let prone = hasCondition(combatant, ['prone']);
+    if (hasCondition(combatant, ['grappled', 'restrained'])) {
+      budget = 0;
+      plan.reasoning.push(`${combatant.name} can't move while held`);
+    } else if (prone && budget >= combatant.speed / 2) {
+      budget -= combatant.speed / 2;
+      prone = false;
+      plan.reasoning.push(`${combatant.name} stands up`);
+    }
+
+    const adjacentHostiles = (pos: GridPosition | undefined) => (pos
+      ? tracked.filter((h) => SpatialEngine.isAdjacent(pos, positionOf(h)!)).length
+      : 0);
+    const startsInMelee = adjacentHostiles(start) > 0;
+
+    // Badly hurt monsters that aren't brutes run for it
+    if (combatant.currentHp <= combatant.maxHp * FLEE_THRESHOLD[behavior]) {
+      plan.reasoning.push(`${combatant.name} is badly hurt (${combatant.currentHp}/${combatant.maxHp} HP) and flees`);
+      if (startsInMelee && nimbleEscape) {
+        plan.bonusAction = 'Disengage (Nimble Escape)';
+        plan.action = 'Dash';
+      } else {
+        plan.action = startsInMelee ? 'Disengage' : 'Dash';
+      }
+      const fleeBudget = plan.action === 'Dash' ? budget + combatant.speed : budget;
+      if (useMap) {
+        const squares = this.getReachableSquares(map!, self!, fleeBudget);
+        const safest = squares.slice().sort((a, b) =>
+          this.nearestHostileFeet(b.position, tracked, positionOf) - this.nearestHostileFeet(a.position, tracked, positionOf) ||
+          a.cost - b.cost
+        )[0];
+        if (safest && !samePosition(safest.position, start!)) this.addMove(plan, self!, safest);
+      }
+      return plan;
+    }
+
+    // Recharge abilities are the biggest thing a monster can do - use them while they're up
+    const readyAbility = statBlock?.actions.find((a) => combatant.recharge?.[a.name] === true);
+    if (readyAbility && behavior !== 'cowardly') {
+      const target = this.chooseTarget(behavior, hostiles, (h) => (useMap ? feetBetween(start!, positionOf(h)!) : 0));
+      plan.targetId = target.sourceId ?? target.id;
+      plan.action = readyAbility.name;
+      plan.steps.push({
+        type: 'ability',
+        action: readyAbility.name,
+        call: { name: 'use_monster_action', arguments: { monster_id: combatant.id, action_name: readyAbility.name, kind: 'action' } },
+      });
+      plan.reasoning.push(`${readyAbility.name} is ready - aimed at ${target.name}; roll its saves and damage for everyone caught`);
+      return plan;
+    }
+
+    if (attacks.length === 0) {
+      const target = this.chooseTarget(behavior, hostiles, () => 0);
+      plan.targetId = target.sourceId ?? target.id;
+      plan.reasoning.push(`${combatant.name} has no attacks in its stat block - narrate its action against ${target.name}`);
+      return plan;
+    }
+
+    // Skirmishers and casters shoot if they can, unless stuck in melee without a way out
+    const melee = attacks.filter((a) => !a.ranged);
+    const ranged = attacks.filter((a) => a.ranged);
+    const wantsRange = (behavior === 'skirmisher' || behavior === 'caster' || behavior === 'cowardly') && ranged.length > 0;
+    const pinned = startsInMelee && !nimbleEscape && melee.length > 0;
+    let mode = (wantsRange && !pinned) || melee.length === 0 ? ranged : melee;
+    const reachOf = (options: MonsterAttackOption[]) => Math.max(...options.map((a) => a.range));
+
+    let target: Combatant;
+    let destination: ReachableSquare | null = null;
+
+    if (useMap) {
+      let squares = this.getReachableSquares(map!, self!, budget);
+      let candidates = this.findAttackPositions(self!, hostiles, squares, reachOf(mode), mode[0].ranged, map!, positionOf, sizeOf);
+
+      // Orcs close the distance with Aggressive when nobody is in reach
+      if (candidates.length === 0 && aggressive) {
+        squares = this.getReachableSquares(map!, self!, budget + combatant.speed);
+        candidates = this.findAttackPositions(self!, hostiles, squares, reachOf(mode), mode[0].ranged, map!, positionOf, sizeOf);
+        if (candidates.length > 0) plan.bonusAction = 'Aggressive';
+      }
+
+      // Out of reach in melee - fall back to a ranged attack if it has one
+      if (candidates.length === 0 && mode === melee && ranged.length > 0) {
+        candidates = this.findAttackPositions(self!, hostiles, squares, reachOf(ranged), true, map!, positionOf, sizeOf);
+        if (candidates.length > 0) mode = ranged;
+      }
+
+      if (candidates.length === 0) {
+        // Nobody in reach this turn - Dash toward the best target
+        target = this.chooseTarget(behavior, tracked, (h) => feetBetween(start!, positionOf(h)!));
+        const targetPos = positionOf(target)!;
+        const dashSquares = this.getReachableSquares(map!, self!, budget + combatant.speed);
+        const closest = dashSquares.slice().sort((a, b) =>
+          feetBetween(a.position, targetPos) - feetBetween(b.position, targetPos) || a.cost - b.cost
+        )[0];
+        plan.targetId = target.sourceId ?? target.id;
+        plan.action = 'Dash';
+        if (closest && !samePosition(closest.position, start!)) this.addMove(plan, self!, closest);
+        plan.reasoning.push(`No one is in reach - ${combatant.name} dashes toward ${target.name}`);
+        return plan;
+      }
+
+      const reachable = candidates.map((c) => c.target);
+      target = this.chooseTarget(behavior, reachable, (h) => feetBetween(start!, positionOf(h)!));
+      const spots = candidates.filter((c) => c.target.id === target.id).map((c) => c.square);
+      destination = this.chooseAttackPosition(spots, behavior, mode[0].ranged, tracked, positionOf);
+
+      if (!samePosition(destination.position, start!)) {
+        if (startsInMelee && adjacentHostiles(destination.position) === 0 && nimbleEscape && !plan.bonusAction) {
+          plan.bonusAction = 'Disengage (Nimble Escape)';
+        }
+        this.addMove(plan, self!, destination);
+      }
+    } else {
+      target = this.chooseTarget(behavior, hostiles, () => 0);
+      plan.reasoning.push(`No map positions - assuming ${target.name} is within ${mode[0].ranged ? 'range' : 'reach'}`);
+    }
+
+    plan.targetId = target.sourceId ?? target.id;
+
+    // Multiattack when every attack in it fits how the monster is fighting
+    const multiattack = statBlock ? parseMultiattack(statBlock) : [];
+    const useMultiattack = multiattack.length > 0 && multiattack.every((name) => mode.some((a) => a.action.name === name));
+    const best = mode.slice().sort((a, b) => b.averageDamage - a.averageDamage)[0];
+    const chosen = useMultiattack
+      ? multiattack.map((name) => mode.find((a) => a.action.name === name)!)
+      : [best];
+    plan.action = useMultiattack ? 'Multiattack' : best.action.name;
+
+    const finalPosition = destination?.position ?? start;
+    const inMeleeWhenAttacking = useMap ? adjacentHostiles(finalPosition) > 0 : false;
+    const targetPos = positionOf(target);
+    const advantage = this.getAdvantage(combatant, target, {
+      ranged: mode[0].ranged,
+      prone,
+      inMelee: inMeleeWhenAttacking,
+      withinFiveFeet: !!(finalPosition && targetPos && SpatialEngine.isAdjacent(finalPosition, targetPos)),
+    });
+
+    for (const attack of chosen) {
+      plan.steps.push({
+        type: 'attack',
+        action: attack.action.name,
+        targetId: plan.targetId,
+        attack: {
+          name: 'roll_attack',
+          arguments: {
+            attacker_id: combatant.id,
+            target_id: plan.targetId,
+            weapon: attack.action.name,
+            advantage_status: advantage,
+          },
+        },
+        damage: attack.action.damage!.map((d) => {
+          const { dice, modifier } = splitDamageDice(d.dice);
+          return {
+            name: 'roll_damage',
+            arguments: {
+              attacker_id: combatant.id,
+              weapon: attack.action.name,
+              damage_dice: dice,
+              damage_modifier: modifier,
+              damage_type: d.type,
+            },
+          };
+        }),
+      });
+    }
+
+    plan.reasoning.push(`${behavior} - ${plan.action} against ${target.name}${advantage !== 'normal' ? ` with ${advantage}` : ''}`);
+    return plan;
+  }
+
+  /**
+   * Every square the entity can end its move on within the movement budget,
+   * with the cheapest path there (the starting square included)
+   */
+  getReachableSquares(map: GameMap, entity: MapEntity, budget: number): ReachableSquare[] {
+    const key = (p: GridPosition) => `${p.x},${p.y}`;
+    const best = new Map<string, ReachableSquare & { diagonals: number }>();
+    const start = { position: entity.position, cost: 0, path: [entity.position], diagonals: 0 };
+    best.set(key(entity.position), start);
+
+    const queue = [start];
+    while (queue.length > 0) {
+      queue.sort((a, b) => a.cost - b.cost);
+      const current = queue.shift()!;
+      if (current.cost > (best.get(key(current.position))?.cost ?? Infinity)) continue;
+
+      for (const next of SpatialEngine.getNeighbors(current.position, map)) {
+        const tile = SpatialEngine.getTile(next, map);
+        if (!SpatialEngine.isSpacePassable(next, map, entity)) continue;
+        if (SpatialEngine.findBlockingCreature(next, map, entity)) continue;
+
+        const diagonal = SpatialEngine.isDiagonalMove(current.position, next);
+        const cost = current.cost + SpatialEngine.getMovementCost(tile, diagonal, current.diagonals);
+        if (cost > budget || cost >= (best.get(key(next))?.cost ?? Infinity)) continue;
+
+        const square = {
+          position: next,
+          cost,
+          path: [...current.path, next],
+          diagonals: current.diagonals + (diagonal ? 1 : 0),
+        };
+        best.set(key(next), square);
+        queue.push(square);
+      }
+    }
+
+    // Allies can be passed through but not stopped on
+    return Array.from(best.values())
+      .filter((square) => square.cost === 0 || SpatialEngine.getCreaturesInSpace(square.position, map, entity).length === 0)
+      .map(({ position, cost, path }) => ({ position, cost, path }));
+  }
+
+  // Squares from which each hostile can be attacked
+  private findAttackPositions(
+    mover: MapEntity,
+    hostiles: Combatant[],
+    squares: ReachableSquare[],
+    reach: number,
+    ranged: boolean,
+    map: GameMap,
+    positionOf: (c: Combatant) => GridPosition | undefined,
+    sizeOf: (c: Combatant) => CreatureSize
+  ): { target: Combatant; square: ReachableSquare }[] {
+    const positions: { target: Combatant; square: ReachableSquare }[] = [];
+    for (const hostile of hostiles) {
+      const pos = positionOf(hostile);
+      if (!pos) continue;
+      for (const square of squares) {
+        const distance = SpatialEngine.getDistanceBetweenSpaces(square.position, mover.size, pos, sizeOf(hostile));
+        if (distance > reach) continue;
+        if (ranged && !SpatialEngine.checkLineOfSight(square.position, pos, map).hasLoS) continue;
+        positions.push({ target: hostile, square });
+      }
+    }
+    return positions;
+  }
+
+  // Melee: the cheapest spot. Ranged: a spot out of melee, as far back as a skirmisher can get
+  private chooseAttackPosition(
+    spots: ReachableSquare[],
+    behavior: MonsterBehavior,
+    ranged: boolean,
+    hostiles: Combatant[],
+    positionOf: (c: Combatant) => GridPosition | undefined
+  ): ReachableSquare {
+    if (!ranged) return spots.slice().sort((a, b) => a.cost - b.cost)[0];
+
+    const safety = (s: ReachableSquare) => this.nearestHostileFeet(s.position, hostiles, positionOf);
+    return spots.slice().sort((a, b) => {
+      const aClear = safety(a) > 5 ? 1 : 0;
+      const bClear = safety(b) > 5 ? 1 : 0;
+      if (aClear !== bClear) return bClear - aClear;
+      if (behavior === 'skirmisher' && safety(a) !== safety(b)) return safety(b) - safety(a);
+      return a.cost - b.cost;
+    })[0];
+  }
+
+  private nearestHostileFeet(position: GridPosition, hostiles: Combatant[], positionOf: (c: Combatant) => GridPosition | undefined): number {
+    return Math.min(...hostiles.map((h) => {
+      const pos = positionOf(h);
+      return pos ? feetBetween(position, pos) : Infinity;
+    }));
+  }
+
+  /**
+   * Who a behavior goes after: brutes the nearest, skirmishers and cowards the
+   * weakest, casters the least armored. Ties break on initiative order.
+   */
+  private chooseTarget(behavior: MonsterBehavior, hostiles: Combatant[], distance: (c: Combatant) => number): Combatant {
+    const ranked = hostiles.map((hostile, order) => ({ hostile, order, distance: distance(hostile) }));
+    ranked.sort((a, b) => {
+      switch (behavior) {
+        case 'brute':
+          return a.distance - b.distance || a.hostile.currentHp - b.hostile.currentHp || a.order - b.order;
+        case 'caster':
+          return a.hostile.armorClass - b.hostile.armorClass || a.distance - b.distance || a.order - b.order;
+        default:
+          return a.hostile.currentHp - b.hostile.currentHp || a.distance - b.distance || a.order - b.order;
+      }
+    });
+    return ranked[0].hostile;
+  }
+
+  /**
+   * Advantage for the monster's attacks from its own conditions and the target's
+   */
+  getAdvantage(
+    attacker: Combatant,
+    target: Combatant,
+    situation: { ranged: boolean; prone: boolean; inMelee: boolean; withinFiveFeet: boolean }
+  ): AdvantageStatus {
+    // A monster that stands up first attacks without the prone penalty
+    const effects = getAttackEffects(
+      { ...attacker, conditions: attacker.conditions.filter((c) => c.condition !== 'prone' || situation.prone) },
+      target,
+      { ranged: situation.ranged, distance: situation.withinFiveFeet ? 5 : undefined }
+    );
+
+    return combineAdvantage(effects.advantage, situation.ranged && situation.inMelee ? 'disadvantage' : 'normal');
+  }
+
+  private addMove(plan: TurnPlan, entity: MapEntity, square: ReachableSquare): void {
+    const disengage = plan.action === 'Disengage' || !!plan.bonusAction?.startsWith('Disengage');
+    const dash = plan.action === 'Dash' || !!plan.bonusAction?.startsWith('Dash');
+    plan.steps.push({
+      type: 'move',
+      call: {
+        name: 'move_entity',
+        arguments: {
+          entity_id: entity.id,
+          target_x: square.position.x,
+          target_y: square.position.y,
+          ...(disengage ? { disengage: true } : {}),
+          ...(dash ? { dash: true } : {}),
+        },
+      },
+      path: square.path,
+      feet: square.cost,
+    });
+  }
+}
+
+// Default singleton instance
+export const monsterTactics = new MonsterTactics();
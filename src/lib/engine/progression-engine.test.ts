@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ProgressionEngine } from './progression-engine';
+import { DiceEngine } from './dice-engine';
+import type { Character, Combat } from './types';
+
+describe('ProgressionEngine', () => {
+  let engine: ProgressionEngine;
+
+  const mockFighter: Character = {
+    id: 'player1',
+    campaignId: 'camp1',
+    name: 'Thorin',
+    race: 'Dwarf',
+    className: 'Fighter',
+    level: 4,
+    experiencePoints: 2700,
+    abilityScores: {
+      strength: 16,
+      dexterity: 12,
+      constitution: 16,
+      intelligence: 10,
+      wisdom: 12,
+      charisma: 14,
+    },
+    maxHp: 44,
+    currentHp: 30,
+    tempHp: 0,
+    armorClass: 18,
+    speed: 25,
+    hitDiceType: 10,
+    hitDiceRemaining: 2,
+    deathSaveSuccesses: 0,
+    deathSaveFailures: 0,
+    savingThrowProficiencies: ['strength', 'constitution'],
+    skillProficiencies: ['athletics'],
+    skillExpertise: [],
+    spellSlots: {},
+    knownSpells: [],
+    preparedSpells: [],
+    classResources: [],
+    inventory: [],
+    equippedItems: {},
+    gold: 0,
+    conditions: [],
+    features: ['Fighting Style', 'Second Wind'],
+  };
+
+  const mockWizard: Character = {
+    ...mockFighter,
+    id: 'player2',
+    name: 'Elara',
+    className: 'Wizard',
+    level: 2,
+    experiencePoints: 900,
+    hitDiceType: 6,
+    hitDiceRemaining: 2,
+    maxHp: 12,
+    currentHp: 12,
+    spellSlots: { 1: { max: 3, current: 1 } },
+    features: [],
+  };
+
+  beforeEach(() => {
+    // Always roll the maximum on the hit die
+    engine = new ProgressionEngine(new DiceEngine(() => 0.999));
+  });
+
+  describe('experience points', () => {
+    it('should map XP totals to levels', () => {
+      expect(engine.getLevelForXp(0)).toBe(1);
+      expect(engine.getLevelForXp(299)).toBe(1);
+      expect(engine.getLevelForXp(300)).toBe(2);
+      expect(engine.getLevelForXp(6500)).toBe(5);
+      expect(engine.getLevelForXp(1_000_000)).toBe(20);
+    });
+
+    it('should report XP needed for the next level', () => {
+      expect(engine.getXpToNextLevel(mockFighter)).toBe(3800);
+      expect(engine.getXpToNextLevel({ ...mockFighter, level: 20 })).toBeNull();
+    });
+
+    it('should split combat XP between player characters', () => {
+      const combat = {
+        initiativeOrder: [
+          { id: 'player1', type: 'player_character', sourceId: 'player1' },
+          { id: 'player2', type: 'player_character', sourceId: 'player2' },
+          { id: 'goblin_1', type: 'enemy' },
+        ],
+      } as unknown as Combat;
+
+      expect(engine.splitCombatXp(combat, 101)).toEqual({ player1: 50, player2: 50 });
+      expect(engine.splitCombatXp(combat, 0)).toEqual({});
+    });
+  });
+
+  describe('canLevelUp', () => {
+    it('should require the XP threshold in XP mode', () => {
+      expect(engine.canLevelUp(mockFighter, 'xp').allowed).toBe(false);
+      expect(engine.canLevelUp({ ...mockFighter, experiencePoints: 6500 }, 'xp').allowed).toBe(true);
+    });
+
+    it('should ignore XP in milestone mode', () => {
+      expect(engine.canLevelUp(mockFighter, 'milestone').allowed).toBe(true);
+    });
+
+    it('should stop at level 20', () => {
+      const check = engine.canLevelUp({ ...mockFighter, level: 20 }, 'milestone');
+      expect(check.allowed).toBe(false);
+      expect(check.reason).toContain('level 20');
+    });
+
+    it('should enforce multiclass prerequisites', () => {
+      expect(engine.canLevelUp(mockFighter, 'milestone', 'Paladin').allowed).toBe(true);
+
+      const check = engine.canLevelUp(mockFighter, 'milestone', 'Wizard');
+      expect(check.allowed).toBe(false);
+      expect(check.reason).toContain('intelligence 13');
+
+      expect(engine.canLevelUp(mockFighter, 'milestone', 'Artificer').allowed).toBe(false);
+    });
+  });
+
+  describe('levelUp', () => {
+    it('should add the average hit die plus CON by default', () => {
+      const result = engine.levelUp(mockFighter);
+
+      expect(result.newLevel).toBe(5);
+      expect(result.hpGained).toBe(9); // 6 + 3
+      expect(result.changes.maxHp).toBe(53);
+      expect(result.changes.currentHp).toBe(39);
+      expect(result.changes.hitDiceRemaining).toBe(3);
+      expect(result.proficiencyBonus).toBe(3);
+    });
+
+    it('should roll the hit die when asked', () => {
+      const result = engine.levelUp(mockFighter, { hpMethod: 'roll' });
+
+      expect(result.hpRoll).toBe(10);
+      expect(result.hpGained).toBe(13);
+    });
+
+    it('should grant class features for the new level', () => {
+      const result = engine.levelUp(mockFighter);
+
+      expect(result.newFeatures).toEqual(['Extra Attack']);
+      expect(result.changes.features).toEqual(['Fighting Style', 'Second Wind', 'Extra Attack']);
+    });
+
+    it('should record a subclass at the subclass level', () => {
+      const result = engine.levelUp({ ...mockFighter, level: 2 }, { subclass: 'Champion' });
+
+      expect(result.changes.subclass).toBe('Champion');
+      expect(result.changes.classLevels?.[0]).toMatchObject({ className: 'Fighter', level: 3, subclass: 'Champion' });
+    });
+
+    it('should update spell slots from the class table and keep spent slots spent', () => {
+      const result = engine.levelUp(mockWizard);
+
+      expect(result.changes.spellSlots).toEqual({
+        1: { max: 4, current: 2 },
+        2: { max: 2, current: 2 },
+      });
+    });
+
+    it('should multiclass into a new class', () => {
+      const result = engine.levelUp(mockFighter, { className: 'paladin' });
+
+      expect(result.multiclassed).toBe(true);
+      expect(result.className).toBe('Paladin');
+      expect(result.classLevel).toBe(1);
+      expect(result.newFeatures).toEqual(['Divine Sense', 'Lay on Hands']);
+      expect(result.changes.spellcastingAbility).toBe('charisma');
+      expect(result.changes.classLevels).toEqual([
+        { className: 'Fighter', level: 4, hitDiceType: 10 },
+        { className: 'Paladin', level: 1, hitDiceType: 10 },
+      ]);
+    });
+
+    it('should throw at level 20', () => {
+      expect(() => engine.levelUp({ ...mockFighter, level: 20 })).toThrow('level 20');
+    });
+  });
+
+  describe('calculateSpellSlots', () => {
+    it('should round up for a single half caster', () => {
+      expect(engine.calculateSpellSlots([{ className: 'Paladin', level: 1, hitDiceType: 10 }])).toEqual({});
+      expect(engine.calculateSpellSlots([{ className: 'Paladin', level: 5, hitDiceType: 10 }])).toEqual({
+        1: { max: 4, current: 4 },
+        2: { max: 2, current: 2 },
+      });
+    });
+
+    it('should combine caster levels for multiclass spellcasters', () => {
+      const slots = engine.calculateSpellSlots([
+        { className: 'Wizard', level: 3, hitDiceType: 6 },
+        { className: 'Paladin', level: 4, hitDiceType: 10 },
+      ]);
+
+      // Caster level 3 + 2 = 5
+      expect(slots).toEqual({
+        1: { max: 4, current: 4 },
+        2: { max: 3, current: 3 },
+        3: { max: 2, current: 2 },
+      });
+    });
+
+    it('should add warlock pact slots', () => {
+      expect(engine.calculateSpellSlots([{ className: 'Warlock', level: 5, hitDiceType: 8 }])).toEqual({
+        3: { max: 2, current: 2 },
+      });
+    });
+  });
+});
@@ -0,0 +1,304 @@
+// ProgressionEngine - Experience points, level-ups and multiclassing
+
+import type {
+  AdvancementMode,
+  Character,
+  ClassLevel,
+  Combat,
+  SpellSlots,
+} from './types';
+import { getAbilityModifier, getProficiencyBonus } from './types';
+import { DiceEngine, diceEngine } from './dice-engine';
+import {
+  compendium,
+  RulesCompendium,
+  SPELL_SLOTS_BY_CASTER_LEVEL,
+  getPactMagicSlots,
+  getCasterLevelContribution,
+} from '@/lib/rules';
+import type { ClassDefinition } from '@/lib/rules';
+
+export const MAX_LEVEL = 20;
+const MULTICLASS_ABILITY_MINIMUM = 13;
+
+// Total XP required to reach each level (index 0 = level 1)
+export const XP_THRESHOLDS = [
+  0, 300, 900, 2700, 6500, 14000, 23000, 34000, 48000, 64000,
+  85000, 100000, 120000, 140000, 165000, 195000, 225000, 265000, 305000, 355000,
+];
+
+export type HpMethod = 'roll' | 'average';
+
+export interface LevelUpOptions {
+  className?: string;            // Defaults to the character's primary class
+  subclass?: string;             // Chosen when the class reaches its subclass level
+  hpMethod?: HpMethod;           // Defaults to 'average'
+}
+
+export interface LevelUpCheck {
+  allowed: boolean;
+  reason?: string;
+}
+
+export interface LevelUpResult {
+  characterId: string;
+  className: string;
+  classLevel: number;
+  newLevel: number;
+  multiclassed: boolean;
+  hpMethod: HpMethod;
+  hpRoll?: number;
+  hpGained: number;
+  proficiencyBonus: number;
+  newFeatures: string[];
+  changes: Partial<Character>;
+}
+
+export class ProgressionEngine {
+  private dice: DiceEngine;
+  private rules: RulesCompendium;
+
+  constructor(diceEngine?: DiceEngine, rules?: RulesCompendium) {
+    this.dice = diceEngine ?? new DiceEngine();
+    this.rules = rules ?? compendium;
+  }
+
+  /**
+   * Highest level reachable with the given XP total
+   */
+  getLevelForXp(xp: number): number {
+    let level = 1;
+    while (level < MAX_LEVEL && xp >= XP_THRESHOLDS[level]) {
+      level++;
+    }
+    return level;
+  }
+
+  /**
+   * Total XP needed to reach a level
+   */
+  getXpForLevel(level: number): number {
+    return XP_THRESHOLDS[Math.min(MAX_LEVEL, Math.max(1, level)) - 1];
+  }
+
+  /**
+   * XP still needed for the character's next level, or null at level 20
+   */
+  getXpToNextLevel(character: Character): number | null {
+    if (character.level >= MAX_LEVEL) return null;
+    return Math.max(0, this.getXpForLevel(character.level + 1) - (character.experiencePoints ?? 0));
+  }
+
+  /**
+   * Split an XP award evenly between recipients (remainder is dropped, per the rules)
+   */
+  splitXp(totalXp: number, recipientIds: string[]): Record<string, number> {
+    const shares: Record<string, number> = {};
+    if (recipientIds.length === 0 || totalXp <= 0) return shares;
+
+    const share = Math.floor(totalXp / recipientIds.length);
+    for (const id of recipientIds) {
+      shares[id] = share;
+    }
+    return shares;
+  }
+
+  /**
+   * Split the XP from an ended combat between the player characters who took part
+   */
+  splitCombatXp(combat: Combat, xpAwarded: number): Record<string, number> {
+    const partyIds = combat.initiativeOrder
+      .filter((c) => c.type === 'player_character')
+      .map((c) => c.sourceId ?? c.id);
+    return this.splitXp(xpAwarded, partyIds);
+  }
+
+  /**
+   * Class breakdown for a character; single-class characters are derived from their base fields
+   */
+  getClassLevels(character: Character): ClassLevel[] {
+    if (character.classLevels?.length) {
+      return character.classLevels.map((entry) => ({ ...entry }));
+    }
+    return [{
+      className: character.className,
+      subclass: character.subclass,
+      level: character.level,
+      hitDiceType: character.hitDiceType,
+    }];
+  }
+
+  /**
+   * Check whether a character may gain a level (in the given class)
+   */
+  canLevelUp(character: Character, mode: AdvancementMode, className?: string): LevelUpCheck {
+    if (character.level >= MAX_LEVEL) {
+      return { allowed: false, reason: `${character.name} is already level ${MAX_LEVEL}` };
+    }
+
+    if (mode === 'xp') {
+      const required = this.getXpForLevel(character.level + 1);
+      const current = character.experiencePoints ?? 0;
+      if (current < required) {
+        return {
+          allowed: false,
+          reason: `${character.name} needs ${required} XP to reach level ${character.level + 1} (has ${current})`,
+        };
+      }
+    }
+
+    if (!className) return { allowed: true };
+
+    const classLevels = this.getClassLevels(character);
+    if (classLevels.some((entry) => this.isSameClass(entry.className, className))) {
+      return { allowed: true };
+    }
+
+    const definition = this.rules.getClass(className);
+    if (!definition) {
+      return { allowed: false, reason: `Unknown class "${className}"` };
+    }
+
+    // Multiclassing requires the prerequisites of both the new class and every current class
+    for (const entry of [...classLevels, { className: definition.name }]) {
+      const current = this.rules.getClass(entry.className);
+      if (current && !this.meetsPrerequisites(character, current)) {
+        const { abilities, any } = current.multiclassPrerequisites;
+        return {
+          allowed: false,
+          reason: `Multiclassing into ${definition.name} requires ${current.name} prerequisites: `
+            + `${abilities.join(any ? ' or ' : ' and ')} ${MULTICLASS_ABILITY_MINIMUM}`,
+        };
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Advance a character one level. Call canLevelUp first - this only enforces the level cap
+   * and class existence. Returns the field changes to persist.
+   */
+  levelUp(character: Character, options: LevelUpOptions = {}): LevelUpResult {
+    if (character.level >= MAX_LEVEL) {
+      throw new Error(`${character.name} is already level ${MAX_LEVEL}`);
+    }
+
+    const classLevels = this.getClassLevels(character);
+    const targetName = options.className ?? classLevels[0].className;
+    let entry = classLevels.find((e) => this.isSameClass(e.className, targetName));
+    const definition = this.rules.getClass(entry?.className ?? targetName);
+    const multiclassed = !entry;
+
+    if (!entry) {
+      if (!definition) {
+        throw new Error(`Unknown class "${targetName}"`);
+      }
+      entry = { className: definition.name, level: 0, hitDiceType: definition.hitDie };
+      classLevels.push(entry);
+    }
+
+    entry.level++;
+    const newLevel = character.level + 1;
+
+    // Hit points: roll the class hit die or take the fixed average, plus CON
+    const hpMethod = options.hpMethod ?? 'average';
+    const hpRoll = hpMethod === 'roll' ? this.dice.rollDie(entry.hitDiceType) : undefined;
+    const base = hpRoll ?? Math.floor(entry.hitDiceType / 2) + 1;
+    const hpGained = Math.max(1, base + getAbilityModifier(character.abilityScores.constitution));
+
+    if (options.subclass && definition && !entry.subclass && entry.level >= definition.subclassLevel) {
+      entry.subclass = options.subclass;
+    }
+
+    const newFeatures = definition?.features[entry.level] ?? [];
+    const changes: Partial<Character> = {
+      level: newLevel,
+      classLevels,
+      maxHp: character.maxHp + hpGained,
+      currentHp: character.currentHp + hpGained,
+      hitDiceRemaining: Math.min(newLevel, character.hitDiceRemaining + 1),
+      spellSlots: this.calculateSpellSlots(classLevels, character.spellSlots),
+      features: [...character.features, ...newFeatures],
+    };
+
+    if (entry === classLevels[0] && entry.subclass && entry.subclass !== character.subclass) {
+      changes.subclass = entry.subclass;
+    }
+    if (!character.spellcastingAbility && definition?.spellcastingAbility) {
+      changes.spellcastingAbility = definition.spellcastingAbility;
+    }
+
+    return {
+      characterId: character.id,
+      className: entry.className,
+      classLevel: entry.level,
+      newLevel,
+      multiclassed,
+      hpMethod,
+      hpRoll,
+      hpGained,
+      proficiencyBonus: getProficiencyBonus(newLevel),
+      newFeatures,
+      changes,
+    };
+  }
+
+  /**
+   * Spell slots for a class breakdown, using the multiclass spellcaster table and
+   * Pact Magic for warlocks. Slots already spent stay spent.
+   */
+  calculateSpellSlots(classLevels: ClassLevel[], previous: SpellSlots = {}): SpellSlots {
+    const casters = classLevels
+      .map((entry) => ({ entry, definition: this.rules.getClass(entry.className) }))
+      .filter((c): c is { entry: ClassLevel; definition: ClassDefinition } => c.definition !== null);
+
+    const slotCasters = casters.filter((c) => c.definition.spellcasting === 'full' || c.definition.spellcasting === 'half');
+    let casterLevel = 0;
+    if (slotCasters.length === 1) {
+      // A single half caster rounds up (a 5th-level paladin casts like a 3rd-level wizard)
+      const { entry, definition } = slotCasters[0];
+      casterLevel = definition.spellcasting === 'half'
+        ? (entry.level >= 2 ? Math.ceil(entry.level / 2) : 0)
+        : entry.level;
+    } else {
+      casterLevel = slotCasters.reduce(
+        (total, c) => total + getCasterLevelContribution(c.definition.spellcasting, c.entry.level),
+        0
+      );
+    }
+
+    const maxSlots: Record<number, number> = {};
+    SPELL_SLOTS_BY_CASTER_LEVEL[Math.min(MAX_LEVEL, casterLevel)].forEach((count, index) => {
+      maxSlots[index + 1] = count;
+    });
+
+    const warlock = casters.find((c) => c.definition.spellcasting === 'pact');
+    const pact = warlock ? getPactMagicSlots(warlock.entry.level) : null;
+    if (pact) {
+      maxSlots[pact.slotLevel] = (maxSlots[pact.slotLevel] ?? 0) + pact.slots;
+    }
+
+    const slots: SpellSlots = {};
+    for (const [level, max] of Object.entries(maxSlots)) {
+      const prior = previous[Number(level)];
+      const spent = prior ? Math.max(0, prior.max - prior.current) : 0;
+      slots[Number(level)] = { max, current: Math.max(0, max - spent) };
+    }
+    return slots;
+  }
+
+  private meetsPrerequisites(character: Character, definition: ClassDefinition): boolean {
+    const { abilities, any } = definition.multiclassPrerequisites;
+    const meets = (ability: (typeof abilities)[number]) =>
+      character.abilityScores[ability] >= MULTICLASS_ABILITY_MINIMUM;
+    return any ? abilities.some(meets) : abilities.every(meets);
+  }
+
+  private isSameClass(a: string, b: string): boolean {
+    return a.trim().toLowerCase() === b.trim().toLowerCase();
+  }
+}
+
+// Default singleton instance
+export const progressionEngine = new ProgressionEngine(diceEngine);
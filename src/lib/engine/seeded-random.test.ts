@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { SeededRandom, createSeed } from './seeded-random';
+
+describe('SeededRandom', () => {
+  it('should produce the same sequence from the same seed', () => {
+    const a = new SeededRandom(1234);
+    const b = new SeededRandom(1234);
+
+    const first = Array.from({ length: 10 }, a.next);
+    expect(Array.from({ length: 10 }, b.next)).toEqual(first);
+    expect(first.every((n) => n >= 0 && n < 1)).toBe(true);
+  });
+
+  it('should continue the sequence when resumed from a saved state', () => {
+    const original = new SeededRandom(-99);
+    original.next();
+    original.next();
+
+    const resumed = new SeededRandom(original.getState());
+    expect(resumed.next()).toBe(original.next());
+  });
+
+  it('should save its state as a signed 32-bit integer', () => {
+    const seed = createSeed();
+    const state = new SeededRandom(seed).getState();
+
+    expect(Number.isInteger(state)).toBe(true);
+    expect(state).toBeGreaterThanOrEqual(-2147483648);
+    expect(state).toBeLessThanOrEqual(2147483647);
+  });
+});
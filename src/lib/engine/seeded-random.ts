@@ -0,0 +1,35 @@
+// SeededRandom - reproducible random streams (mulberry32). The whole stream
+// position is one 32-bit integer, so it can be saved and resumed between requests.
+
+export class SeededRandom {
+  private state: number;
+
+  constructor(state: number) {
+    this.state = state >>> 0;
+  }
+
+  /**
+   * Next number in [0, 1) - pass as a DiceEngine randomFn
+   */
+  next = (): number => {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  /**
+   * Current stream position as a signed 32-bit integer (fits a database Int)
+   */
+  getState(): number {
+    return this.state | 0;
+  }
+}
+
+/**
+ * A fresh seed for a new stream
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * 4294967296) | 0;
+}
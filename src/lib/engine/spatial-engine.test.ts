@@ -198,6 +198,35 @@ describe('SpatialEngine', () => {
       const result = SpatialEngine.checkLineOfSight({ x: 0, y: 0 }, { x: 5, y: 0 }, testMap);
       expect(result.hasLoS).toBe(true);
       expect(result.cover).toBe('half');
+      expect(result.coveredBy).toBe('Blocker');
+    });
+
+    it('uses only the most protective cover', () => {
+      testMap.tiles[0][2].objects.push({ id: 'crate', name: 'Crate', type: 'furniture', blocksMovement: true, blocksLoS: false });
+      testMap.tiles[0][3].objects.push({ id: 'wall', name: 'Arrow slit', type: 'furniture', blocksMovement: true, blocksLoS: false, cover: 'three_quarters' });
+      testMap.tiles[0][4].objects.push({ id: 'table', name: 'Table', type: 'furniture', blocksMovement: true, blocksLoS: false });
+
+      const result = SpatialEngine.checkLineOfSight({ x: 0, y: 0 }, { x: 5, y: 0 }, testMap);
+      expect(result.cover).toBe('three_quarters');
+      expect(result.coveredBy).toBe('Arrow slit');
+    });
+
+    it('reports the light at the target', () => {
+      testMap.ambientLight = 'dark';
+      testMap.lightSources.push({ id: 'torch', position: { x: 5, y: 0 }, brightRadius: 4, dimRadius: 8, isActive: true });
+
+      expect(SpatialEngine.checkLineOfSight({ x: 0, y: 0 }, { x: 5, y: 0 }, testMap).lightLevel).toBe('bright');
+      expect(SpatialEngine.getLightLevel({ x: 0, y: 0 }, testMap)).toBe('dim');
+      expect(SpatialEngine.getLightLevel({ x: 5, y: 9 }, testMap)).toBe('dark');
+    });
+
+    it('does not light through walls', () => {
+      testMap.ambientLight = 'dim';
+      testMap.lightSources.push({ id: 'torch', position: { x: 0, y: 0 }, brightRadius: 4, dimRadius: 8, isActive: true });
+      testMap.tiles[0][1].terrain = 'wall';
+
+      expect(SpatialEngine.getLightLevel({ x: 2, y: 0 }, testMap)).toBe('dim');
+      expect(SpatialEngine.getLightLevel({ x: 0, y: 2 }, testMap)).toBe('bright');
     });
   });
 
@@ -226,6 +255,18 @@ describe('SpatialEngine', () => {
   describe('executeMovement', () => {
     let entity: MapEntity;
 
+    const goblinAt = (position: GridPosition): MapEntity => ({
+      id: 'enemy',
+      entityType: 'enemy',
+      name: 'Goblin',
+      position,
+      size: 'small',
+      speed: 30,
+      movementUsed: 0,
+      conditions: [],
+      isVisible: true,
+    });
+
     beforeEach(() => {
       entity = {
         id: 'test-entity',
@@ -288,6 +329,101 @@ describe('SpatialEngine', () => {
       expect(result.opportunityAttacks[0].attackerName).toBe('Goblin');
     });
 
+    it('does not report opportunity attacks when disengaging', () => {
+      testMap.entities.push({ ...goblinAt({ x: 1, y: 1 }) });
+
+      const result = SpatialEngine.executeMovement(
+        { entityId: 'test-entity', path: [{ x: 1, y: 0 }, { x: 2, y: 0 }, { x: 3, y: 0 }], allowOpportunityAttacks: false },
+        testMap
+      );
+
+      expect(result.opportunityAttacks).toEqual([]);
+    });
+
+    it('uses reach when deciding who gets an opportunity attack', () => {
+      testMap.entities.push({ ...goblinAt({ x: 1, y: 1 }), reach: 10 });
+
+      const result = SpatialEngine.executeMovement(
+        { entityId: 'test-entity', path: [{ x: 1, y: 0 }, { x: 2, y: 0 }, { x: 3, y: 0 }, { x: 4, y: 0 }] },
+        testMap
+      );
+
+      // Still within 10 ft at (3, 0); leaves reach stepping to (4, 0)
+      expect(result.opportunityAttacks).toEqual([{ attackerId: 'enemy', attackerName: 'Goblin', from: { x: 3, y: 0 } }]);
+      expect(SpatialEngine.executeMovement(
+        { entityId: 'test-entity', path: [{ x: 1, y: 0 }], reaches: { enemy: 5 } },
+        testMap
+      ).opportunityAttacks).toEqual([]);
+    });
+
+    it('measures reach from every square of a large creature', () => {
+      testMap.entities.push({ ...goblinAt({ x: 2, y: 1 }), name: 'Ogre', size: 'large' });
+
+      // The ogre covers (2..3, 1..2); (4, 0) is still diagonally next to it, (5, 0) isn't
+      const result = SpatialEngine.executeMovement(
+        { entityId: 'test-entity', path: [{ x: 1, y: 0 }, { x: 2, y: 0 }, { x: 3, y: 0 }, { x: 4, y: 0 }, { x: 5, y: 0 }] },
+        testMap
+      );
+
+      expect(result.opportunityAttacks.map(a => a.from)).toEqual([{ x: 4, y: 0 }]);
+    });
+
+    it('does not let allies make opportunity attacks', () => {
+      testMap.entities.push({ ...goblinAt({ x: 1, y: 1 }), entityType: 'ally', name: 'Squire' });
+
+      const result = SpatialEngine.executeMovement(
+        { entityId: 'test-entity', path: [{ x: 1, y: 0 }, { x: 2, y: 0 }, { x: 3, y: 0 }] },
+        testMap
+      );
+
+      expect(result.opportunityAttacks).toEqual([]);
+    });
+
+    it('moves through allies but not through enemies', () => {
+      testMap.entities.push({ ...goblinAt({ x: 1, y: 0 }), id: 'ally', entityType: 'ally', name: 'Squire', size: 'medium' });
+      const throughAlly = SpatialEngine.executeMovement(
+        { entityId: 'test-entity', path: [{ x: 1, y: 0 }, { x: 2, y: 0 }] },
+        testMap
+      );
+      expect(throughAlly.finalPosition).toEqual({ x: 2, y: 0 });
+
+      entity.position = { x: 0, y: 0 };
+      testMap.entities.push({ ...goblinAt({ x: 3, y: 0 }), size: 'medium' });
+      const intoEnemy = SpatialEngine.executeMovement(
+        { entityId: 'test-entity', path: [{ x: 1, y: 0 }, { x: 2, y: 0 }, { x: 3, y: 0 }] },
+        testMap
+      );
+      expect(intoEnemy.success).toBe(false);
+      expect(intoEnemy.reason).toBe('Space occupied by Goblin');
+      expect(intoEnemy.finalPosition).toEqual({ x: 2, y: 0 });
+    });
+
+    it('lets a creature pass a hostile two sizes different', () => {
+      testMap.entities.push({ ...goblinAt({ x: 1, y: 0 }), size: 'tiny', name: 'Rat' });
+
+      const result = SpatialEngine.executeMovement(
+        { entityId: 'test-entity', path: [{ x: 1, y: 0 }, { x: 2, y: 0 }] },
+        testMap
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.finalPosition).toEqual({ x: 2, y: 0 });
+    });
+
+    it('does not end movement in another creature\'s space', () => {
+      testMap.entities.push({ ...goblinAt({ x: 2, y: 0 }), entityType: 'ally', name: 'Squire' });
+
+      const result = SpatialEngine.executeMovement(
+        { entityId: 'test-entity', path: [{ x: 1, y: 0 }, { x: 2, y: 0 }] },
+        testMap
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.reason).toBe("Can't end movement in Squire's space");
+      expect(result.finalPosition).toEqual({ x: 1, y: 0 });
+      expect(result.movementUsed).toBe(5);
+    });
+
     it('stops when movement exhausted', () => {
       entity.movementUsed = 25; // Only 5 feet left
 
@@ -406,6 +542,87 @@ describe('SpatialEngine', () => {
     });
   });
 
+  describe('calculatePathCost', () => {
+    it('costs 5 feet per straight square', () => {
+      const path = SpatialEngine.findPath({ x: 0, y: 0 }, { x: 3, y: 0 }, testMap);
+      expect(SpatialEngine.calculatePathCost(path, testMap)).toBe(15);
+    });
+
+    it('alternates diagonal costs and doubles difficult terrain', () => {
+      const diagonal = [{ x: 0, y: 0 }, { x: 1, y: 1 }, { x: 2, y: 2 }];
+      expect(SpatialEngine.calculatePathCost(diagonal, testMap)).toBe(15);
+
+      testMap.tiles[0][1].terrain = 'difficult';
+      expect(SpatialEngine.calculatePathCost([{ x: 0, y: 0 }, { x: 1, y: 0 }], testMap)).toBe(10);
+    });
+  });
+
+  describe('area effects', () => {
+    const place = (name: string, position: GridPosition, size: MapEntity['size'] = 'medium') =>
+      SpatialEngine.placeEntity(testMap, {
+        entityType: 'enemy',
+        name,
+        position,
+        size,
+        speed: 30,
+        movementUsed: 0,
+        conditions: [],
+        isVisible: true,
+      });
+
+    it('finds entities inside a sphere', () => {
+      place('Inside', { x: 5, y: 6 });
+      place('Outside', { x: 9, y: 9 });
+
+      const entities = SpatialEngine.getEntitiesInArea(
+        { id: 'aoe', shape: 'sphere', origin: { x: 5, y: 5 }, size: 10 },
+        testMap
+      );
+      expect(entities.map(e => e.name)).toEqual(['Inside']);
+    });
+
+    it('catches large creatures whose footprint overlaps the area', () => {
+      place('Ogre', { x: 2, y: 4 }, 'large'); // Occupies (2-3, 4-5)
+
+      const entities = SpatialEngine.getEntitiesInArea(
+        { id: 'aoe', shape: 'line', origin: { x: 3, y: 0 }, direction: 'south', size: 25 },
+        testMap
+      );
+      expect(entities.map(e => e.name)).toEqual(['Ogre']);
+    });
+
+    it('adds placed effects to the map', () => {
+      place('Goblin', { x: 1, y: 0 });
+
+      const { effect, positions, entities } = SpatialEngine.placeAreaEffect(testMap, {
+        shape: 'cone',
+        origin: { x: 0, y: 0 },
+        direction: 'east',
+        size: 15,
+        label: 'Burning Hands',
+      });
+
+      expect(effect.id).toBeDefined();
+      expect(testMap.activeEffects).toContainEqual(effect);
+      expect(positions.length).toBeGreaterThan(0);
+      expect(entities.map(e => e.name)).toEqual(['Goblin']);
+    });
+  });
+
+  describe('revealArea', () => {
+    it('reveals tiles in line of sight and counts new ones', () => {
+      const revealed = SpatialEngine.revealArea(testMap, { x: 5, y: 5 }, 2);
+
+      expect(revealed).toBeGreaterThan(0);
+      expect(testMap.tiles[5][5].isRevealed).toBe(true);
+      expect(testMap.tiles[5][7].isRevealed).toBe(true);
+      expect(testMap.tiles[0][0].isRevealed).toBe(false);
+
+      // Revealing the same area again finds nothing new
+      expect(SpatialEngine.revealArea(testMap, { x: 5, y: 5 }, 2)).toBe(0);
+    });
+  });
+
   describe('getDirection', () => {
     it('returns correct cardinal directions', () => {
       expect(SpatialEngine.getDirection({ x: 0, y: 0 }, { x: 0, y: -1 })).toBe('north');
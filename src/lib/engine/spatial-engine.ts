@@ -24,13 +24,21 @@ import {
   MovementResult,
   DistanceResult,
   LineOfSightResult,
+  CoverLevel,
+  LightLevel,
   SpatialQuery,
   SpatialQueryResult,
   FEET_PER_SQUARE,
+  DEFAULT_REACH,
   DIRECTION_VECTORS,
+  SIZE_ORDER,
   SIZE_TO_SQUARES,
 } from './spatial-types';
 
+// Degrees of cover and light, least to most
+const COVER_ORDER: CoverLevel[] = ['none', 'half', 'three_quarters', 'full'];
+const LIGHT_ORDER: LightLevel[] = ['dark', 'dim', 'bright'];
+
 // Priority queue for A* pathfinding
 class PriorityQueue<T> {
   private items: { item: T; priority: number }[] = [];
@@ -210,18 +218,17 @@ export class SpatialEngine {
         const neighborKey = posKey(neighbor);
         const tile = this.getTile(neighbor, map);
         
-        // Check if tile is passable
-        if (!this.isTilePassable(tile, entity)) {
+        // Check the creature's whole space is passable
+        if (!this.isSpacePassable(neighbor, map, entity)) {
           continue;
         }
         
-        // Check for entity blocking (except goal)
+        // Check for creatures in the way (except at the goal). Without a mover every creature blocks;
+        // with one, only hostile creatures it can't squeeze past do
         if (neighbor.x !== goal.x || neighbor.y !== goal.y) {
-          const blockingEntity = map.entities.find(e => 
-            e.id !== entity?.id &&
-            e.position.x === neighbor.x && 
-            e.position.y === neighbor.y
-          );
+          const blockingEntity = entity
+            ? this.findBlockingCreature(neighbor, map, entity)
+            : map.entities.find(e => e.position.x === neighbor.x && e.position.y === neighbor.y);
           if (blockingEntity) continue;
         }
         
@@ -255,7 +262,9 @@ export class SpatialEngine {
   }
 
   /**
-   * Calculate line of sight using Bresenham's line algorithm
+   * Calculate line of sight using Bresenham's line algorithm. Creatures and
+   * objects along the line give the target cover; only the most protective
+   * degree counts. Creatures standing at either end never cover themselves.
    */
   static checkLineOfSight(
     from: GridPosition,
@@ -263,84 +272,98 @@ export class SpatialEngine {
     map: GameMap
   ): LineOfSightResult {
     const points = this.bresenhamLine(from, to);
-    
-    let cover: LineOfSightResult['cover'] = 'none';
-    let blockedBy: string | undefined;
-    let lightLevel: LineOfSightResult['lightLevel'] = map.ambientLight;
+    const distance = this.calculateDistance(from, to).feet;
+    const lightLevel = this.getLightLevel(to, map);
+    const occupies = (e: MapEntity, pos: GridPosition) =>
+      this.getFootprint(e.position, e.size).some(p => p.x === pos.x && p.y === pos.y);
+    const endpoints = map.entities.filter(e => occupies(e, from) || occupies(e, to));
+    
+    let cover: CoverLevel = 'none';
+    let coveredBy: string | undefined;
+    const addCover = (level: CoverLevel, source: string) => {
+      if (COVER_ORDER.indexOf(level) > COVER_ORDER.indexOf(cover)) {
+        cover = level;
+        coveredBy = source;
+      }
+    };
+    const blocked = (blockedBy: string): LineOfSightResult => ({
+      hasLoS: false,
+      distance,
+      cover: 'full',
+      blockedBy,
+      lightLevel,
+    });
     
     // Skip the starting position
     for (let i = 1; i < points.length; i++) {
       const point = points[i];
+      const isTarget = point.x === to.x && point.y === to.y;
       const tile = this.getTile(point, map);
       
-      if (!tile) {
-        return {
-          hasLoS: false,
-          distance: this.calculateDistance(from, to).feet,
-          cover: 'full',
-          blockedBy: 'map edge',
-          lightLevel,
-        };
-      }
+      if (!tile) return blocked('map edge');
       
       // Check for walls and LoS-blocking terrain
       if (tile.terrain === 'wall') {
         // If it's the target tile, we can see it but have full cover
-        if (point.x === to.x && point.y === to.y) {
-          cover = 'full';
-        } else {
-          return {
-            hasLoS: false,
-            distance: this.calculateDistance(from, to).feet,
-            cover: 'full',
-            blockedBy: 'wall',
-            lightLevel,
-          };
-        }
+        if (!isTarget) return blocked('wall');
+        addCover('full', 'wall');
       }
       
       // Check for LoS-blocking objects
       const blockingObject = tile.objects.find(obj => obj.blocksLoS);
-      if (blockingObject && !(point.x === to.x && point.y === to.y)) {
-        return {
-          hasLoS: false,
-          distance: this.calculateDistance(from, to).feet,
-          cover: 'full',
-          blockedBy: blockingObject.name,
-          lightLevel,
-        };
-      }
+      if (blockingObject && !isTarget) return blocked(blockingObject.name);
       
-      // Check for entities providing cover (not at target position)
-      if (!(point.x === to.x && point.y === to.y)) {
-        const entityAtPoint = map.entities.find(e => 
-          e.position.x === point.x && e.position.y === point.y
+      // Creatures in the way provide half cover
+      if (!isTarget) {
+        const entityAtPoint = map.entities.find(e =>
+          !endpoints.includes(e) && e.size !== 'tiny' && occupies(e, point)
         );
-        if (entityAtPoint && entityAtPoint.size !== 'tiny') {
-          // Creatures provide half cover
-          if (cover === 'none') cover = 'half';
-        }
+        if (entityAtPoint) addCover('half', entityAtPoint.name);
       }
       
       // Check for partial cover from objects
-      const partialCoverObject = tile.objects.find(obj => 
-        !obj.blocksLoS && obj.blocksMovement
-      );
-      if (partialCoverObject) {
-        if (cover === 'none') cover = 'half';
-        else if (cover === 'half') cover = 'three_quarters';
-      }
+      tile.objects.forEach(obj => {
+        if (obj.cover) addCover(obj.cover, obj.name);
+        else if (!obj.blocksLoS && obj.blocksMovement) addCover('half', obj.name);
+      });
     }
     
     return {
       hasLoS: true,
-      distance: this.calculateDistance(from, to).feet,
+      distance,
       cover,
-      blockedBy,
+      coveredBy,
       lightLevel,
     };
   }
 
+  /**
+   * Light at a position: the map's ambient light, raised by any active light
+   * source in range whose light isn't walled off
+   */
+  static getLightLevel(position: GridPosition, map: GameMap): LightLevel {
+    let level = LIGHT_ORDER.indexOf(map.ambientLight);
+    
+    (map.lightSources ?? []).forEach(light => {
+      if (!light.isActive) return;
+      const distance = this.euclideanDistance(light.position, position);
+      const lit = distance <= light.brightRadius ? 2 : distance <= light.dimRadius ? 1 : 0;
+      if (lit > level && this.isLineClear(light.position, position, map)) level = lit;
+    });
+    
+    return LIGHT_ORDER[level];
+  }
+
+  /**
+   * Nothing between two positions blocks sight (the endpoints themselves may)
+   */
+  private static isLineClear(from: GridPosition, to: GridPosition, map: GameMap): boolean {
+    return this.bresenhamLine(from, to).slice(1, -1).every(point => {
+      const tile = this.getTile(point, map);
+      return !!tile && tile.terrain !== 'wall' && !tile.objects.some(obj => obj.blocksLoS);
+    });
+  }
+
   /**
    * Bresenham's line algorithm for grid-based line drawing
    */
@@ -378,7 +401,84 @@ export class SpatialEngine {
   }
 
   /**
-   * Execute a movement request
+   * Squares a creature covers with its top-left corner at `position`
+   */
+  static getFootprint(position: GridPosition, size: MapEntity['size']): GridPosition[] {
+    const squares = SIZE_TO_SQUARES[size] ?? 1;
+    const footprint: GridPosition[] = [];
+    for (let dy = 0; dy < squares; dy++) {
+      for (let dx = 0; dx < squares; dx++) {
+        footprint.push({ x: position.x + dx, y: position.y + dy });
+      }
+    }
+    return footprint;
+  }
+
+  /**
+   * Gap in feet between two creatures' spaces: 5 when adjacent, 0 when they overlap.
+   * Reach is measured square by square, so a 10 ft reach covers two squares diagonally too.
+   */
+  static getDistanceBetweenSpaces(
+    aPos: GridPosition,
+    aSize: MapEntity['size'],
+    bPos: GridPosition,
+    bSize: MapEntity['size']
+  ): number {
+    const aSquares = SIZE_TO_SQUARES[aSize] ?? 1;
+    const bSquares = SIZE_TO_SQUARES[bSize] ?? 1;
+    const dx = Math.max(0, bPos.x - (aPos.x + aSquares - 1), aPos.x - (bPos.x + bSquares - 1));
+    const dy = Math.max(0, bPos.y - (aPos.y + aSquares - 1), aPos.y - (bPos.y + bSquares - 1));
+    return Math.max(dx, dy) * FEET_PER_SQUARE;
+  }
+
+  /**
+   * Whether two entities are on opposing sides (the party and its allies against enemies)
+   */
+  static areHostile(a: MapEntity, b: MapEntity): boolean {
+    const side = (e: MapEntity) => (e.entityType === 'enemy' ? 'enemy' : e.entityType === 'player' || e.entityType === 'ally' ? 'party' : null);
+    return side(a) !== null && side(b) !== null && side(a) !== side(b);
+  }
+
+  /**
+   * A creature can move through a friendly creature's space, or a hostile one's
+   * that is at least two sizes larger or smaller than it
+   */
+  static canMoveThrough(mover: MapEntity, other: MapEntity): boolean {
+    if (!this.areHostile(mover, other)) return true;
+    return Math.abs(SIZE_ORDER.indexOf(mover.size) - SIZE_ORDER.indexOf(other.size)) >= 2;
+  }
+
+  /**
+   * Whether every square of the creature's space at `position` is on the map and passable
+   */
+  static isSpacePassable(position: GridPosition, map: GameMap, entity?: MapEntity): boolean {
+    return this.getFootprint(position, entity?.size ?? 'medium')
+      .every(square => this.isTilePassable(this.getTile(square, map), entity));
+  }
+
+  /**
+   * Other creatures whose space overlaps the entity's space at `position`
+   */
+  static getCreaturesInSpace(position: GridPosition, map: GameMap, entity: MapEntity): MapEntity[] {
+    return map.entities.filter(other =>
+      other.id !== entity.id &&
+      other.entityType !== 'object' &&
+      this.getDistanceBetweenSpaces(position, entity.size, other.position, other.size) === 0
+    );
+  }
+
+  /**
+   * A creature whose space the entity can't enter at `position`, if any
+   */
+  static findBlockingCreature(position: GridPosition, map: GameMap, entity: MapEntity): MapEntity | undefined {
+    return this.getCreaturesInSpace(position, map, entity).find(other => !this.canMoveThrough(entity, other));
+  }
+
+  /**
+   * Execute a movement request.
+   * Creatures may pass through friendly spaces but not end there, and can't pass
+   * hostile ones (unless two sizes apart). Leaving a hostile creature's reach
+   * provokes an opportunity attack, once per creature, unless the mover disengaged.
    */
   static executeMovement(
     request: MovementRequest,
@@ -406,9 +506,13 @@ export class SpatialEngine {
       triggeredTraps: [],
     };
     
-    const availableMovement = entity.speed - entity.movementUsed;
+    const availableMovement = request.maxMovement ?? entity.speed - entity.movementUsed;
     let currentPos = { ...entity.position };
     let diagonalCount = 0;
+    const reachOf = (e: MapEntity) => request.reaches?.[e.id] ?? e.reach ?? DEFAULT_REACH;
+    
+    // The last square the mover could stop on, to fall back to if it ends in someone's space
+    let lastStop = { position: currentPos, movementUsed: 0, pathLength: 1, attacks: 0, traps: 0 };
     
     for (const targetPos of request.path) {
       // Skip if same position
@@ -426,22 +530,18 @@ export class SpatialEngine {
         break;
       }
       
-      // Get tile and check passability
-      const tile = this.getTile(targetPos, map);
-      if (!this.isTilePassable(tile, entity)) {
+      // Get tiles under the creature's whole space and check passability
+      const tiles = this.getFootprint(targetPos, entity.size).map(square => this.getTile(square, map));
+      const blockedTile = tiles.findIndex(tile => !this.isTilePassable(tile, entity));
+      if (blockedTile !== -1) {
         result.success = false;
         result.blockedAt = targetPos;
-        result.reason = `Blocked by ${tile?.terrain || 'impassable terrain'}`;
+        result.reason = `Blocked by ${tiles[blockedTile]?.terrain || 'impassable terrain'}`;
         break;
       }
       
-      // Check for blocking entities
-      const blockingEntity = map.entities.find(e =>
-        e.id !== entity.id &&
-        e.position.x === targetPos.x &&
-        e.position.y === targetPos.y &&
-        e.entityType !== 'object'
-      );
+      // Check for creatures that won't let it through
+      const blockingEntity = this.findBlockingCreature(targetPos, map, entity);
       if (blockingEntity) {
         result.success = false;
         result.blockedAt = targetPos;
@@ -449,9 +549,9 @@ export class SpatialEngine {
         break;
       }
       
-      // Calculate movement cost
+      // Calculate movement cost (the roughest ground under its space)
       const isDiagonal = this.isDiagonalMove(currentPos, targetPos);
-      const moveCost = this.getMovementCost(tile, isDiagonal, diagonalCount);
+      const moveCost = Math.max(...tiles.map(tile => this.getMovementCost(tile, isDiagonal, diagonalCount)));
       if (isDiagonal) diagonalCount++;
       
       // Check if enough movement
@@ -462,27 +562,27 @@ export class SpatialEngine {
         break;
       }
       
-      // Check for opportunity attacks (leaving threatened squares)
+      // Check for opportunity attacks (leaving a hostile creature's reach)
       if (request.allowOpportunityAttacks !== false) {
-        const hostiles = map.entities.filter(e =>
-          e.id !== entity.id &&
-          e.entityType === 'enemy' &&
-          this.isAdjacent(currentPos, e.position)
-        );
-        
-        for (const hostile of hostiles) {
-          // If moving away from hostile (not still adjacent after move)
-          if (!this.isAdjacent(targetPos, hostile.position)) {
+        for (const hostile of map.entities) {
+          if (hostile.id === entity.id || !this.areHostile(entity, hostile)) continue;
+          if (result.opportunityAttacks.some(attack => attack.attackerId === hostile.id)) continue;
+          
+          const reach = reachOf(hostile);
+          const wasInReach = this.getDistanceBetweenSpaces(hostile.position, hostile.size, currentPos, entity.size) <= reach;
+          const staysInReach = this.getDistanceBetweenSpaces(hostile.position, hostile.size, targetPos, entity.size) <= reach;
+          if (wasInReach && !staysInReach) {
             result.opportunityAttacks.push({
               attackerId: hostile.id,
               attackerName: hostile.name,
+              from: currentPos,
             });
           }
         }
       }
       
       // Check for traps
-      const trap = tile?.objects.find(obj => obj.type === 'trap');
+      const trap = tiles.flatMap(tile => tile?.objects ?? []).find(obj => obj.type === 'trap');
       if (trap) {
         result.triggeredTraps.push(trap.name);
       }
@@ -491,6 +591,29 @@ export class SpatialEngine {
       currentPos = targetPos;
       result.movementUsed += moveCost;
       result.path.push(targetPos);
+      
+      if (this.getCreaturesInSpace(currentPos, map, entity).length === 0) {
+        lastStop = {
+          position: currentPos,
+          movementUsed: result.movementUsed,
+          pathLength: result.path.length,
+          attacks: result.opportunityAttacks.length,
+          traps: result.triggeredTraps.length,
+        };
+      }
+    }
+    
+    // It can't end its move in another creature's space - back up to the last free square
+    if (lastStop.position !== currentPos) {
+      const occupant = this.getCreaturesInSpace(currentPos, map, entity)[0];
+      result.success = false;
+      result.blockedAt = currentPos;
+      result.reason = `Can't end movement in ${occupant.name}'s space`;
+      currentPos = lastStop.position;
+      result.movementUsed = lastStop.movementUsed;
+      result.path = result.path.slice(0, lastStop.pathLength);
+      result.opportunityAttacks = result.opportunityAttacks.slice(0, lastStop.attacks);
+      result.triggeredTraps = result.triggeredTraps.slice(0, lastStop.traps);
     }
     
     result.finalPosition = currentPos;
@@ -588,6 +711,59 @@ export class SpatialEngine {
     return positions;
   }
 
+  /**
+   * Get every entity with any part of its space inside an area of effect
+   */
+  static getEntitiesInArea(aoe: AreaOfEffect, map: GameMap): MapEntity[] {
+    const affected = new Set(this.getAffectedPositions(aoe, map).map(p => `${p.x},${p.y}`));
+    
+    return map.entities.filter(entity => {
+      const squares = SIZE_TO_SQUARES[entity.size] ?? 1;
+      for (let dy = 0; dy < squares; dy++) {
+        for (let dx = 0; dx < squares; dx++) {
+          if (affected.has(`${entity.position.x + dx},${entity.position.y + dy}`)) {
+            return true;
+          }
+        }
+      }
+      return false;
+    });
+  }
+
+  /**
+   * Add an area of effect to the map
+   * Returns the placed effect, the squares it covers and the entities caught in it
+   */
+  static placeAreaEffect(
+    map: GameMap,
+    effect: Omit<AreaOfEffect, 'id'>
+  ): { effect: AreaOfEffect; positions: GridPosition[]; entities: MapEntity[] } {
+    const placed: AreaOfEffect = { ...effect, id: crypto.randomUUID() };
+    map.activeEffects.push(placed);
+    
+    return {
+      effect: placed,
+      positions: this.getAffectedPositions(placed, map),
+      entities: this.getEntitiesInArea(placed, map),
+    };
+  }
+
+  /**
+   * Total movement cost in feet of walking a path (the first position is the start)
+   */
+  static calculatePathCost(path: GridPosition[], map: GameMap): number {
+    let cost = 0;
+    let diagonalCount = 0;
+    
+    for (let i = 1; i < path.length; i++) {
+      const isDiagonal = this.isDiagonalMove(path[i - 1], path[i]);
+      cost += this.getMovementCost(this.getTile(path[i], map), isDiagonal, diagonalCount);
+      if (isDiagonal) diagonalCount++;
+    }
+    
+    return cost;
+  }
+
   /**
    * Query entities and tiles within an area
    */
@@ -758,8 +934,10 @@ export class SpatialEngine {
 
   /**
    * Reveal tiles around a position (fog of war)
+   * Returns the number of tiles revealed for the first time
    */
-  static revealArea(map: GameMap, center: GridPosition, radius: number): void {
+  static revealArea(map: GameMap, center: GridPosition, radius: number): number {
+    let newlyRevealed = 0;
     for (let y = center.y - radius; y <= center.y + radius; y++) {
       for (let x = center.x - radius; x <= center.x + radius; x++) {
         const pos = { x, y };
@@ -772,11 +950,13 @@ export class SpatialEngine {
         const los = this.checkLineOfSight(center, pos, map);
         if (los.hasLoS) {
           const tile = map.tiles[y][x];
+          if (!tile.isRevealed) newlyRevealed++;
           tile.isRevealed = true;
           tile.isVisible = true;
         }
       }
     }
+    return newlyRevealed;
   }
 
   /**
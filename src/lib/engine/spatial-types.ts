@@ -35,6 +35,15 @@ export const SIZE_TO_SQUARES: Record<CreatureSize, number> = {
   gargantuan: 4 // 20 ft
 };
 
+// Size categories from smallest to largest
+export const SIZE_ORDER: CreatureSize[] = ['tiny', 'small', 'medium', 'large', 'huge', 'gargantuan'];
+
+// Light at a position; dim light lightly obscures, darkness heavily obscures
+export type LightLevel = 'bright' | 'dim' | 'dark';
+
+// Degree of cover between an attacker and its target
+export type CoverLevel = 'none' | 'half' | 'three_quarters' | 'full';
+
 // Tile terrain types
 export type TerrainType = 
   | 'normal'           // Standard movement
@@ -80,6 +89,7 @@ export interface TileObject {
   type: 'furniture' | 'item' | 'trap' | 'hazard' | 'interactable';
   blocksMovement: boolean;
   blocksLoS: boolean;
+  cover?: Exclude<CoverLevel, 'none' | 'full'>;  // Cover it gives; objects that only block movement give half
   description?: string;
   interactionDC?: number;  // DC to interact (open, disarm, etc.)
 }
@@ -98,6 +108,7 @@ export interface MapEntity {
   isVisible: boolean;      // Is entity visible to players?
   tokenColor?: string;     // Color for map token
   sourceId?: string;       // Link to Character or Combatant ID
+  reach?: number;          // Melee reach in feet (5 when not set)
 }
 
 // Light source on the map
@@ -105,7 +116,7 @@ export interface LightSource {
   id: string;
   position: GridPosition;
   brightRadius: number;    // Bright light radius in squares
-  dimRadius: number;       // Dim light radius in squares
+  dimRadius: number;       // Dim light radius in squares, measured from the source (beyond brightRadius)
   color?: string;          // Light color for rendering
   isActive: boolean;
 }
@@ -132,7 +143,7 @@ export interface GameMap {
   entities: MapEntity[];
   lightSources: LightSource[];
   activeEffects: AreaOfEffect[];
-  ambientLight: 'bright' | 'dim' | 'dark';
+  ambientLight: LightLevel;
   defaultTerrain: TerrainType;
   defaultVisual: TileVisual;
 }
@@ -153,7 +164,9 @@ export interface Location {
 export interface MovementRequest {
   entityId: string;
   path: GridPosition[];    // Sequence of positions to move through
-  allowOpportunityAttacks?: boolean;
+  allowOpportunityAttacks?: boolean;  // false when the mover took the Disengage action
+  reaches?: Record<string, number>;   // Melee reach in feet by entity ID, overriding MapEntity.reach
+  maxMovement?: number;               // Feet available (e.g. after Dash or conditions), instead of speed less movement used
 }
 
 export interface MovementResult {
@@ -161,7 +174,7 @@ export interface MovementResult {
   finalPosition: GridPosition;
   movementUsed: number;    // Total feet of movement consumed
   path: GridPosition[];    // Actual path taken (may differ if blocked)
-  opportunityAttacks: { attackerId: string; attackerName: string }[];
+  opportunityAttacks: { attackerId: string; attackerName: string; from: GridPosition }[];  // `from` is the square the mover left the attacker's reach from
   triggeredTraps: string[];
   blockedAt?: GridPosition; // Where movement was blocked
   reason?: string;         // Reason if movement failed/blocked
@@ -180,9 +193,10 @@ export interface DistanceResult {
 export interface LineOfSightResult {
   hasLoS: boolean;
   distance: number;
-  cover: 'none' | 'half' | 'three_quarters' | 'full';
+  cover: CoverLevel;
   blockedBy?: string;      // What's blocking LoS
-  lightLevel: 'bright' | 'dim' | 'dark';
+  coveredBy?: string;      // What gives the target its cover
+  lightLevel: LightLevel;  // At the target's position
 }
 
 // Spatial query for finding entities/tiles
@@ -204,6 +218,7 @@ export interface SpatialQueryResult {
 
 // Constants
 export const FEET_PER_SQUARE = 5;
+export const DEFAULT_REACH = 5;
 export const DIAGONAL_COST_ODD = 5;   // First diagonal
 export const DIAGONAL_COST_EVEN = 10; // Second diagonal
 
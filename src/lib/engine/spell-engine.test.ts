@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SpellEngine, parseSpellDuration, endConcentration } from './spell-engine';
+import { DiceEngine } from './dice-engine';
+import { compendium } from '@/lib/rules';
+import type { SpellDefinition } from '@/lib/rules';
+import type { Character } from './types';
+
+describe('SpellEngine', () => {
+  let engine: SpellEngine;
+
+  const spell = (name: string): SpellDefinition => compendium.getSpell(name)!;
+
+  const mockWizard: Character = {
+    id: 'wizard1',
+    campaignId: 'camp1',
+    name: 'Elara',
+    race: 'Elf',
+    className: 'Wizard',
+    level: 5,
+    abilityScores: {
+      strength: 8,
+      dexterity: 14,
+      constitution: 14,
+      intelligence: 18,
+      wisdom: 12,
+      charisma: 10,
+    },
+    maxHp: 32,
+    currentHp: 32,
+    tempHp: 0,
+    armorClass: 12,
+    speed: 30,
+    hitDiceType: 6,
+    hitDiceRemaining: 5,
+    deathSaveSuccesses: 0,
+    deathSaveFailures: 0,
+    savingThrowProficiencies: ['intelligence', 'wisdom'],
+    skillProficiencies: ['arcana'],
+    skillExpertise: [],
+    spellSlots: {
+      1: { max: 4, current: 4 },
+      2: { max: 3, current: 0 },
+      3: { max: 2, current: 2 },
+    },
+    knownSpells: ['Fire Bolt', 'Magic Missile', 'Fireball', 'Hold Person', 'Detect Magic', 'Shield'],
+    preparedSpells: ['Magic Missile', 'Fireball', 'Hold Person'],
+    classResources: [],
+    inventory: [],
+    equippedItems: {},
+    gold: 0,
+    conditions: [],
+    features: [],
+  };
+
+  beforeEach(() => {
+    let seed = 12345;
+    engine = new SpellEngine(new DiceEngine(() => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed / 2147483648;
+    }));
+  });
+
+  describe('spellcasting numbers', () => {
+    it('should use the class spellcasting ability when none is set', () => {
+      expect(engine.getSpellcastingAbility(mockWizard)).toBe('intelligence');
+    });
+
+    it('should calculate spell attack bonus and save DC', () => {
+      // +4 INT, +3 proficiency at level 5
+      expect(engine.getSpellAttackBonus(mockWizard)).toBe(7);
+      expect(engine.getSpellSaveDc(mockWizard)).toBe(15);
+    });
+  });
+
+  describe('canCastSpell', () => {
+    it('should require prepared casters to prepare leveled spells', () => {
+      const check = engine.canCastSpell(mockWizard, spell('Shield'));
+      expect(check.allowed).toBe(false);
+      expect(check.reason).toContain('not prepared');
+    });
+
+    it('should allow known cantrips without a slot', () => {
+      expect(engine.canCastSpell(mockWizard, spell('Fire Bolt'))).toEqual({ allowed: true });
+    });
+
+    it('should let known-spell casters cast anything they know', () => {
+      const sorcerer = { ...mockWizard, className: 'Sorcerer', preparedSpells: [] };
+      expect(engine.canCastSpell(sorcerer, spell('Shield')).allowed).toBe(true);
+    });
+
+    it('should skip empty slot levels when picking a slot', () => {
+      // No 2nd-level slots left, so Hold Person goes up to 3rd
+      expect(engine.canCastSpell(mockWizard, spell('Hold Person')).slotLevel).toBe(3);
+    });
+
+    it('should reject a slot below the spell level or one that is spent', () => {
+      expect(engine.canCastSpell(mockWizard, spell('Fireball'), { slotLevel: 2 }).allowed).toBe(false);
+      expect(engine.canCastSpell(mockWizard, spell('Hold Person'), { slotLevel: 2 }).reason).toContain('no level 2 spell slots');
+    });
+
+    it('should only allow ritual casting for ritual spells', () => {
+      const wizard = { ...mockWizard, preparedSpells: [...mockWizard.preparedSpells, 'Detect Magic'] };
+      expect(engine.canCastSpell(wizard, spell('Detect Magic'), { ritual: true }).allowed).toBe(true);
+      expect(engine.canCastSpell(wizard, spell('Fireball'), { ritual: true }).allowed).toBe(false);
+    });
+  });
+
+  describe('castSpell', () => {
+    it('should spend the slot and report save DC and damage', () => {
+      const cast = engine.castSpell(mockWizard, spell('Fireball'));
+
+      expect(cast.slotLevel).toBe(3);
+      expect(cast.changes.spellSlots?.[3]).toEqual({ max: 2, current: 1 });
+      expect(cast.saveDc).toBe(15);
+      expect(cast.saveAbility).toBe('dexterity');
+      expect(cast.damage).toEqual({ dice: '8d6', type: 'fire' });
+      expect(cast.concentration).toBeUndefined();
+    });
+
+    it('should scale damage when upcast', () => {
+      const cast = engine.castSpell(mockWizard, spell('Magic Missile'), { slotLevel: 3 });
+      expect(cast.damage?.dice).toBe('5d4+5');
+    });
+
+    it('should scale cantrips with character level and spend nothing', () => {
+      const cast = engine.castSpell(mockWizard, spell('Fire Bolt'));
+
+      expect(cast.slotLevel).toBeUndefined();
+      expect(cast.changes.spellSlots).toBeUndefined();
+      expect(cast.attackBonus).toBe(7);
+      expect(cast.damage?.dice).toBe('2d10');
+    });
+
+    it('should start concentration and replace an earlier concentration spell', () => {
+      const wizard: Character = {
+        ...mockWizard,
+        conditions: [{ condition: 'concentrating', source: 'Bless', casterId: 'wizard1', durationType: 'rounds', durationValue: 4 }],
+      };
+      const cast = engine.castSpell(wizard, spell('Hold Person'));
+
+      expect(cast.endedConcentration).toBe('Bless');
+      expect(cast.concentration).toEqual({
+        condition: 'concentrating',
+        source: 'Hold Person',
+        casterId: 'wizard1',
+        durationType: 'rounds',
+        durationValue: 10,
+      });
+      expect(cast.changes.conditions).toEqual([cast.concentration]);
+    });
+
+    it('should throw when the spell cannot be cast', () => {
+      expect(() => engine.castSpell(mockWizard, spell('Shield'))).toThrow('not prepared');
+    });
+  });
+
+  describe('concentration', () => {
+    it('should roll a CON save against half the damage, minimum DC 10', () => {
+      const wizard: Character = {
+        ...mockWizard,
+        conditions: [{ condition: 'concentrating', source: 'Hold Person', casterId: 'wizard1', durationType: 'rounds', durationValue: 10 }],
+      };
+
+      const check = engine.rollConcentrationSave(wizard, 30)!;
+      expect(check.spell).toBe('Hold Person');
+      expect(check.dc).toBe(15);
+      expect(check.modifier).toBe(2);
+      expect(check.maintained).toBe(check.total >= 15);
+
+      expect(engine.rollConcentrationSave(wizard, 4)!.dc).toBe(10);
+    });
+
+    it('should return null when not concentrating', () => {
+      expect(engine.rollConcentrationSave(mockWizard, 10)).toBeNull();
+    });
+
+    it('should remove the caster\'s concentration and the effects it sustains', () => {
+      const conditions = [
+        { condition: 'paralyzed' as const, source: 'Hold Person', casterId: 'wizard1', durationType: 'rounds' as const, durationValue: 10 },
+        { condition: 'poisoned' as const, source: 'Poison Spray', durationType: 'rounds' as const, durationValue: 2 },
+        { condition: 'concentrating' as const, source: 'Bless', casterId: 'cleric1', durationType: 'rounds' as const, durationValue: 10 },
+      ];
+
+      // On another creature only the linked effect goes - its own concentration stays
+      expect(endConcentration(conditions, 'wizard1', 'goblin1').map(c => c.condition)).toEqual(['poisoned', 'concentrating']);
+    });
+  });
+
+  describe('parseSpellDuration', () => {
+    it('should convert durations to rounds', () => {
+      expect(parseSpellDuration('Instantaneous')).toBeNull();
+      expect(parseSpellDuration('1 round')).toEqual({ durationType: 'rounds', durationValue: 1 });
+      expect(parseSpellDuration('Up to 1 minute')).toEqual({ durationType: 'rounds', durationValue: 10 });
+      expect(parseSpellDuration('8 hours')).toEqual({ durationType: 'rounds', durationValue: 4800 });
+      expect(parseSpellDuration('Until dispelled')).toEqual({ durationType: 'until_dispelled' });
+    });
+  });
+});
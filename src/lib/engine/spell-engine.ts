@@ -0,0 +1,256 @@
+// SpellEngine - Spellcasting: prepared spells, slots, attack bonus, save DC and concentration
+
+import type {
+  Ability,
+  ActiveCondition,
+  Character,
+  ConcentrationCheckResult,
+  DamageType,
+  SpellSlots,
+} from './types';
+import { getAbilityModifier, getConcentrationDc, getProficiencyBonus } from './types';
+import { DiceEngine, diceEngine } from './dice-engine';
+import { compendium, RulesCompendium, toRulesKey } from '@/lib/rules';
+import type { ClassDefinition, SpellDefinition } from '@/lib/rules';
+
+const MAX_SPELL_LEVEL = 9;
+const ROUNDS_PER_UNIT: Record<string, number> = { round: 1, minute: 10, hour: 600, day: 14400 };
+
+export type SpellDuration = Pick<ActiveCondition, 'durationType' | 'durationValue'>;
+
+export interface CastSpellOptions {
+  slotLevel?: number;            // Defaults to the lowest available slot the spell fits in
+  ritual?: boolean;              // Cast as a ritual - no slot spent
+}
+
+export interface SpellCastCheck {
+  allowed: boolean;
+  reason?: string;
+  slotLevel?: number;            // The slot that would be spent
+}
+
+export interface CastSpellResult {
+  casterId: string;
+  spellName: string;
+  spellLevel: number;
+  slotLevel?: number;            // Absent for cantrips and rituals
+  ritual: boolean;
+  attackBonus?: number;          // Spell attacks
+  saveDc?: number;               // Spells that call for a saving throw
+  saveAbility?: Ability;
+  damage?: { dice: string; type: DamageType };
+  healing?: { dice: string; modifier: number };
+  duration: SpellDuration | null;          // null = instantaneous
+  concentration?: ActiveCondition;         // Added to the caster for concentration spells
+  endedConcentration?: string;             // Spell the caster stopped concentrating on
+  changes: Partial<Character>;
+}
+
+/**
+ * Convert a spell's duration text ("Up to 1 minute", "8 hours") into a condition duration
+ */
+export function parseSpellDuration(duration: string): SpellDuration | null {
+  const text = duration.toLowerCase();
+  if (text.includes('instantaneous')) return null;
+
+  const match = text.match(/(\d+)\s*(round|minute|hour|day)/);
+  if (!match) return { durationType: 'until_dispelled' };
+  return { durationType: 'rounds', durationValue: Number(match[1]) * ROUNDS_PER_UNIT[match[2]] };
+}
+
+/**
+ * Drop a caster's concentration and every effect that depends on it from
+ * the conditions of `ownerId` (the caster or anyone affected by the spell)
+ */
+export function endConcentration(conditions: ActiveCondition[], casterId: string, ownerId: string): ActiveCondition[] {
+  return conditions.filter((c) =>
+    c.casterId !== casterId && !(ownerId === casterId && c.condition === 'concentrating')
+  );
+}
+
+// Pick the dice for the highest listed level at or below `level`
+function scaledDice(table: Record<string, string> | undefined, level: number): string | undefined {
+  if (!table) return undefined;
+  const levels = Object.keys(table).map(Number).filter((l) => l <= level).sort((a, b) => b - a);
+  return levels.length > 0 ? table[String(levels[0])] : undefined;
+}
+
+export class SpellEngine {
+  private dice: DiceEngine;
+  private rules: RulesCompendium;
+
+  constructor(diceEngine?: DiceEngine, rules?: RulesCompendium) {
+    this.dice = diceEngine ?? new DiceEngine();
+    this.rules = rules ?? compendium;
+  }
+
+  /**
+   * The character's spellcasting ability, falling back to their first spellcasting class
+   */
+  getSpellcastingAbility(character: Character): Ability | undefined {
+    return character.spellcastingAbility
+      ?? this.getCasterClasses(character).find((c) => c.spellcastingAbility)?.spellcastingAbility;
+  }
+
+  getSpellAttackBonus(character: Character): number {
+    const ability = this.getSpellcastingAbility(character);
+    const abilityMod = ability ? getAbilityModifier(character.abilityScores[ability]) : 0;
+    return abilityMod + getProficiencyBonus(character.level);
+  }
+
+  getSpellSaveDc(character: Character): number {
+    return 8 + this.getSpellAttackBonus(character);
+  }
+
+  /**
+   * Whether the spell is ready to cast: prepared, or known for cantrips and
+   * for classes that cast from their known spells
+   */
+  isSpellReady(character: Character, spell: SpellDefinition): boolean {
+    const key = toRulesKey(spell.name);
+    const has = (list: string[]) => list.some((name) => toRulesKey(name) === key);
+
+    if (has(character.preparedSpells)) return true;
+    if (!has(character.knownSpells)) return false;
+    if (spell.level === 0) return true;
+
+    const casters = this.getCasterClasses(character);
+    return casters.length === 0 || casters.some((c) => !c.preparesSpells);
+  }
+
+  /**
+   * Check a spell can be cast and find the slot it would use
+   */
+  canCastSpell(character: Character, spell: SpellDefinition, options: CastSpellOptions = {}): SpellCastCheck {
+    if (!this.isSpellReady(character, spell)) {
+      return { allowed: false, reason: `${character.name} has not prepared ${spell.name}` };
+    }
+
+    if (spell.level === 0) return { allowed: true };
+
+    if (options.ritual) {
+      return spell.ritual
+        ? { allowed: true }
+        : { allowed: false, reason: `${spell.name} cannot be cast as a ritual` };
+    }
+
+    if (options.slotLevel !== undefined) {
+      if (options.slotLevel < spell.level || options.slotLevel > MAX_SPELL_LEVEL) {
+        return { allowed: false, reason: `${spell.name} cannot be cast with a level ${options.slotLevel} slot` };
+      }
+      if ((character.spellSlots[options.slotLevel]?.current ?? 0) <= 0) {
+        return { allowed: false, reason: `${character.name} has no level ${options.slotLevel} spell slots left` };
+      }
+      return { allowed: true, slotLevel: options.slotLevel };
+    }
+
+    const slotLevel = this.findAvailableSlot(character.spellSlots, spell.level);
+    return slotLevel !== undefined
+      ? { allowed: true, slotLevel }
+      : { allowed: false, reason: `${character.name} has no spell slots of level ${spell.level} or higher left` };
+  }
+
+  /**
+   * Cast a spell: spend the slot, work out attack bonus / save DC and scaled dice,
+   * and start concentrating if the spell needs it. Call canCastSpell first.
+   * Returns the field changes to persist.
+   */
+  castSpell(character: Character, spell: SpellDefinition, options: CastSpellOptions = {}): CastSpellResult {
+    const check = this.canCastSpell(character, spell, options);
+    if (!check.allowed) {
+      throw new Error(check.reason);
+    }
+
+    const changes: Partial<Character> = {};
+    const { slotLevel } = check;
+    if (slotLevel !== undefined) {
+      const slot = character.spellSlots[slotLevel];
+      changes.spellSlots = { ...character.spellSlots, [slotLevel]: { ...slot, current: slot.current - 1 } };
+    }
+
+    // Cantrips scale with character level, everything else with the slot
+    const castLevel = slotLevel ?? spell.level;
+    const damageDice = spell.level === 0
+      ? scaledDice(spell.damage?.atCharacterLevel, character.level)
+      : scaledDice(spell.damage?.atSlotLevel, castLevel);
+    const healingDice = scaledDice(spell.heal?.atSlotLevel, castLevel);
+    const ability = this.getSpellcastingAbility(character);
+
+    const duration = parseSpellDuration(spell.duration);
+    const result: CastSpellResult = {
+      casterId: character.id,
+      spellName: spell.name,
+      spellLevel: spell.level,
+      slotLevel,
+      ritual: Boolean(options.ritual) && spell.level > 0,
+      duration,
+      changes,
+    };
+
+    if (spell.attackType) result.attackBonus = this.getSpellAttackBonus(character);
+    if (spell.dc) {
+      result.saveDc = this.getSpellSaveDc(character);
+      result.saveAbility = spell.dc.type;
+    }
+    if (damageDice && spell.damage) result.damage = { dice: damageDice, type: spell.damage.type };
+    if (healingDice) {
+      result.healing = { dice: healingDice, modifier: ability ? getAbilityModifier(character.abilityScores[ability]) : 0 };
+    }
+
+    if (spell.concentration) {
+      // Concentrating on a new spell ends the previous one
+      const previous = character.conditions.find((c) => c.condition === 'concentrating');
+      if (previous) result.endedConcentration = previous.source;
+
+      result.concentration = {
+        condition: 'concentrating',
+        source: spell.name,
+        casterId: character.id,
+        ...(duration ?? { durationType: 'until_dispelled' }),
+      };
+      changes.conditions = [
+        ...endConcentration(character.conditions, character.id, character.id),
+        result.concentration,
+      ];
+    }
+
+    return result;
+  }
+
+  /**
+   * Roll the Constitution save a concentrating character makes after taking damage.
+   * Returns null if the character is not concentrating.
+   */
+  rollConcentrationSave(character: Character, damage: number): ConcentrationCheckResult | null {
+    const concentrating = character.conditions.find((c) => c.condition === 'concentrating');
+    if (!concentrating) return null;
+
+    const dc = getConcentrationDc(damage);
+    const save = this.dice.rollSavingThrow(character, 'constitution', dc);
+    return {
+      spell: concentrating.source,
+      dc,
+      roll: save.roll,
+      modifier: save.modifier + save.proficiencyBonus,
+      total: save.total,
+      maintained: save.success,
+    };
+  }
+
+  private findAvailableSlot(slots: SpellSlots, minLevel: number): number | undefined {
+    for (let level = Math.max(1, minLevel); level <= MAX_SPELL_LEVEL; level++) {
+      if ((slots[level]?.current ?? 0) > 0) return level;
+    }
+    return undefined;
+  }
+
+  private getCasterClasses(character: Character): ClassDefinition[] {
+    const classNames = character.classLevels?.map((c) => c.className) ?? [character.className];
+    return classNames
+      .map((name) => this.rules.getClass(name))
+      .filter((c): c is ClassDefinition => c !== null && c.spellcasting !== 'none');
+  }
+}
+
+// Default singleton instance
+export const spellEngine = new SpellEngine(diceEngine);
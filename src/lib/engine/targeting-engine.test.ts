@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TargetingEngine, getSenses, NO_SENSES } from './targeting-engine';
+import { SpatialEngine } from './spatial-engine';
+import type { GameMap, GridPosition, MapEntity } from './spatial-types';
+import { compendium } from '@/lib/rules';
+
+describe('TargetingEngine', () => {
+  let targeting: TargetingEngine;
+  let map: GameMap;
+  let fighter: MapEntity;
+  let goblin: MapEntity;
+
+  const token = (name: string, position: GridPosition, overrides: Partial<MapEntity> = {}): MapEntity =>
+    SpatialEngine.placeEntity(map, {
+      entityType: 'enemy',
+      name,
+      position,
+      size: 'medium',
+      speed: 30,
+      movementUsed: 0,
+      conditions: [],
+      isVisible: true,
+      ...overrides,
+    })!;
+
+  beforeEach(() => {
+    targeting = new TargetingEngine();
+    map = SpatialEngine.createEmptyMap(12, 12, 'Cellar');
+    fighter = token('Fighter', { x: 0, y: 0 }, { entityType: 'player' });
+    goblin = token('Goblin', { x: 6, y: 0 }, { size: 'small' });
+  });
+
+  describe('getSenses', () => {
+    it('should read senses from a stat block', () => {
+      expect(getSenses(compendium.getMonster('goblin')!)).toEqual({ darkvision: 60, blindsight: 0, truesight: 0 });
+      expect(getSenses({ senses: ['blindsight 30 ft.', 'darkvision: 120 ft.'] })).toEqual({ darkvision: 120, blindsight: 30, truesight: 0 });
+    });
+
+    it('should give darkvision by race and feature', () => {
+      expect(getSenses({ race: 'Hill Dwarf', features: [] }).darkvision).toBe(60);
+      expect(getSenses({ race: 'Human', features: [] }).darkvision).toBe(0);
+      expect(getSenses({ race: 'Elf (Drow)', features: [] }).darkvision).toBe(120);
+      expect(getSenses({ race: 'Human', features: ['Eyes of the Dark: Darkvision 60 ft'] }).darkvision).toBe(60);
+      expect(getSenses(undefined)).toEqual(NO_SENSES);
+    });
+  });
+
+  describe('cover', () => {
+    it('should give half cover behind a crate', () => {
+      map.tiles[0][5].objects.push({ id: 'crate', name: 'Crate', type: 'furniture', blocksMovement: true, blocksLoS: false });
+
+      const result = targeting.analyzeAttack(map, fighter, goblin);
+
+      expect(result.cover).toBe('half');
+      expect(result.acBonus).toBe(2);
+      expect(result.canTarget).toBe(true);
+      expect(result.notes).toEqual(['Goblin has half cover from Crate (+2 AC)']);
+    });
+
+    it('should not let a target behind total cover be attacked', () => {
+      for (let y = 0; y < 12; y++) map.tiles[y][3].terrain = 'wall';
+
+      const result = targeting.analyzeAttack(map, fighter, goblin);
+
+      expect(result.canTarget).toBe(false);
+      expect(result.cover).toBe('full');
+      expect(result.acBonus).toBe(0);
+      expect(result.notes).toEqual(["Goblin has total cover from wall and can't be targeted"]);
+    });
+
+    it('should pick the clearest line to a large creature', () => {
+      const ogre = token('Ogre', { x: 6, y: 4 }, { size: 'large' });
+      // Blocks the line to the ogre's top-left square only
+      map.tiles[4][5].objects.push({ id: 'crate', name: 'Crate', type: 'furniture', blocksMovement: true, blocksLoS: false });
+
+      const from = token('Archer', { x: 0, y: 4 }, { entityType: 'player' });
+      expect(targeting.analyzeAttack(map, from, ogre).cover).toBe('none');
+    });
+  });
+
+  describe('light and vision', () => {
+    beforeEach(() => {
+      map.ambientLight = 'dark';
+    });
+
+    it('should give disadvantage when the attacker cannot see into the dark', () => {
+      const result = targeting.analyzeAttack(map, fighter, goblin, {
+        target: { darkvision: 60, blindsight: 0, truesight: 0 },
+      });
+
+      expect(result.attackerCanSee).toBe(false);
+      expect(result.targetCanSee).toBe(true);
+      expect(result.advantage).toBe('disadvantage');
+      expect(result.notes).toEqual(["Fighter can't see Goblin in the darkness (disadvantage)"]);
+    });
+
+    it('should give advantage to a darkvision attacker the target cannot see', () => {
+      const result = targeting.analyzeAttack(map, goblin, fighter, {
+        attacker: { darkvision: 60, blindsight: 0, truesight: 0 },
+      });
+
+      expect(result.advantage).toBe('advantage');
+      expect(result.notes).toEqual([
+        'Goblin sees Fighter in the dark with darkvision',
+        "Fighter can't see Goblin in the darkness (advantage)",
+      ]);
+    });
+
+    it('should cancel out when neither side can see', () => {
+      expect(targeting.analyzeAttack(map, fighter, goblin).advantage).toBe('normal');
+    });
+
+    it('should limit darkvision and blindsight to their range', () => {
+      const short = { darkvision: 0, blindsight: 10, truesight: 0 };
+      expect(targeting.analyzeAttack(map, fighter, goblin, { attacker: short }).attackerCanSee).toBe(false);
+
+      const close = token('Rat', { x: 1, y: 1 }, { size: 'tiny' });
+      const result = targeting.analyzeAttack(map, fighter, close, { attacker: short });
+      expect(result.attackerCanSee).toBe(true);
+      expect(result.notes[0]).toBe('Fighter senses Rat with blindsight');
+    });
+
+    it('should let light sources reveal the target', () => {
+      map.lightSources.push({ id: 'brazier', position: { x: 6, y: 1 }, brightRadius: 1, dimRadius: 3, isActive: true });
+
+      const result = targeting.analyzeAttack(map, fighter, goblin);
+
+      expect(result.targetLight).toBe('bright');
+      expect(result.attackerLight).toBe('dark');
+      expect(result.attackerCanSee).toBe(true);
+      expect(result.advantage).toBe('advantage');
+    });
+
+    it('should only note dim light', () => {
+      map.ambientLight = 'dim';
+
+      const result = targeting.analyzeAttack(map, fighter, goblin);
+
+      expect(result.advantage).toBe('normal');
+      expect(result.notes).toEqual(['Goblin is in dim light']);
+    });
+  });
+});
@@ -0,0 +1,192 @@
+// TargetingEngine - Cover, light and vision between an attacker and its target on the map
+
+import { SpatialEngine } from './spatial-engine';
+import type { AttackCircumstances, AdvantageStatus } from './types';
+import type { CoverLevel, GameMap, LightLevel, LineOfSightResult, MapEntity } from './spatial-types';
+
+// Special senses in feet; 0 when the creature doesn't have the sense
+export interface Senses {
+  darkvision: number;
+  blindsight: number;
+  truesight: number;
+}
+
+export interface TargetingResult extends AttackCircumstances {
+  attackerId: string;       // Map entity IDs
+  targetId: string;
+  distance: number;         // Feet between the two spaces
+  hasLoS: boolean;
+  cover: CoverLevel;
+  coveredBy?: string;       // What the cover is, for narration
+  canTarget: boolean;       // False behind total cover
+  attackerLight: LightLevel;
+  targetLight: LightLevel;
+  attackerCanSee: boolean;  // Attacker can see the target
+  targetCanSee: boolean;    // Target can see the attacker
+}
+
+export const NO_SENSES: Senses = { darkvision: 0, blindsight: 0, truesight: 0 };
+
+// AC bonus for each degree of cover; total cover can't be targeted at all
+export const COVER_AC_BONUS: Record<CoverLevel, number> = {
+  none: 0,
+  half: 2,
+  three_quarters: 5,
+  full: 0,
+};
+
+// Darkvision range by race, matched against the character's race name
+const RACIAL_DARKVISION: Record<string, number> = {
+  dwarf: 60,
+  elf: 60,
+  gnome: 60,
+  'half-orc': 60,
+  tiefling: 60,
+  drow: 120,
+  duergar: 120,
+  'deep gnome': 120,
+};
+
+const COVER_RANK: CoverLevel[] = ['none', 'half', 'three_quarters', 'full'];
+
+/**
+ * A creature's special senses, from a monster's `senses` ("darkvision 60 ft."),
+ * a character's race, or a feature such as "Superior Darkvision (120 ft)"
+ */
+export function getSenses(creature?: { race?: string; features?: string[]; senses?: string[] }): Senses {
+  const senses: Senses = { ...NO_SENSES };
+  if (!creature) return senses;
+
+  const race = creature.race?.toLowerCase() ?? '';
+  Object.entries(RACIAL_DARKVISION).forEach(([name, range]) => {
+    if (race.includes(name)) senses.darkvision = Math.max(senses.darkvision, range);
+  });
+
+  [...(creature.senses ?? []), ...(creature.features ?? [])].forEach((entry) => {
+    const match = entry.match(/(darkvision|blindsight|truesight)\D*(\d+)/i);
+    if (!match) return;
+    const sense = match[1].toLowerCase() as keyof Senses;
+    senses[sense] = Math.max(senses[sense], parseInt(match[2]));
+  });
+
+  return senses;
+}
+
+function formatCover(cover: CoverLevel): string {
+  return cover === 'three_quarters' ? 'three-quarters' : cover;
+}
+
+/**
+ * TargetingEngine works out how the battlefield affects an attack: cover from
+ * creatures and objects in the way, the light each creature stands in, and
+ * whether darkvision or blindsight lets them see each other
+ */
+export class TargetingEngine {
+  /**
+   * Cover, light and vision for an attack, as circumstances `rollAttack` applies
+   * and notes the DM can narrate ("Goblin has half cover from Crate (+2 AC)")
+   */
+  analyzeAttack(
+    map: GameMap,
+    attacker: MapEntity,
+    target: MapEntity,
+    senses: { attacker?: Senses; target?: Senses } = {}
+  ): TargetingResult {
+    const attackerSenses = senses.attacker ?? NO_SENSES;
+    const targetSenses = senses.target ?? NO_SENSES;
+    const distance = SpatialEngine.getDistanceBetweenSpaces(attacker.position, attacker.size, target.position, target.size);
+    const los = this.findBestLine(map, attacker, target);
+
+    const attackerLight = SpatialEngine.getLightLevel(attacker.position, map);
+    const targetLight = los.lightLevel;
+    const attackerCanSee = los.hasLoS && this.canSee(attackerSenses, targetLight, distance);
+    const targetCanSee = los.hasLoS && this.canSee(targetSenses, attackerLight, distance);
+
+    const canTarget = los.hasLoS && los.cover !== 'full';
+    const notes: string[] = [];
+
+    if (!canTarget) {
+      notes.push(`${target.name} has total cover from ${los.coveredBy ?? los.blockedBy ?? 'an obstacle'} and can't be targeted`);
+    } else if (los.cover !== 'none') {
+      notes.push(`${target.name} has ${formatCover(los.cover)} cover from ${los.coveredBy} (+${COVER_AC_BONUS[los.cover]} AC)`);
+    }
+
+    if (canTarget) {
+      notes.push(...this.describeSight(attacker, target, attackerSenses, targetLight, distance, attackerCanSee));
+      if (!targetCanSee) {
+        notes.push(`${target.name} can't see ${attacker.name} in the darkness (advantage)`);
+      }
+    }
+
+    let advantage: AdvantageStatus = 'normal';
+    if (!attackerCanSee && targetCanSee) advantage = 'disadvantage';
+    if (attackerCanSee && !targetCanSee) advantage = 'advantage';
+
+    return {
+      attackerId: attacker.id,
+      targetId: target.id,
+      distance,
+      hasLoS: los.hasLoS,
+      cover: canTarget ? los.cover : 'full',
+      coveredBy: los.coveredBy ?? los.blockedBy,
+      canTarget,
+      attackerLight,
+      targetLight,
+      attackerCanSee,
+      targetCanSee,
+      acBonus: canTarget ? COVER_AC_BONUS[los.cover] : 0,
+      advantage,
+      notes,
+    };
+  }
+
+  /**
+   * Whether a creature with these senses can see something standing in this light
+   * (line of sight aside). Dim light only lightly obscures, darkness needs
+   * darkvision, blindsight or truesight within range.
+   */
+  canSee(senses: Senses, light: LightLevel, distance: number): boolean {
+    if (Math.max(senses.blindsight, senses.truesight) >= distance) return true;
+    if (light !== 'dark') return true;
+    return senses.darkvision >= distance;
+  }
+
+  /**
+   * The attacker picks the line with the least cover between any square of its
+   * space and any square of the target's
+   */
+  private findBestLine(map: GameMap, attacker: MapEntity, target: MapEntity): LineOfSightResult {
+    let best: LineOfSightResult | null = null;
+    const rank = (result: LineOfSightResult) => (result.hasLoS ? COVER_RANK.indexOf(result.cover) : COVER_RANK.length);
+
+    const from = SpatialEngine.getFootprint(attacker.position, attacker.size);
+    const to = SpatialEngine.getFootprint(target.position, target.size);
+    for (const a of from) {
+      for (const b of to) {
+        const result = SpatialEngine.checkLineOfSight(a, b, map);
+        if (!best || rank(result) < rank(best)) best = result;
+        if (rank(best) === 0) return best;
+      }
+    }
+
+    return best ?? SpatialEngine.checkLineOfSight(attacker.position, target.position, map);
+  }
+
+  private describeSight(
+    attacker: MapEntity,
+    target: MapEntity,
+    senses: Senses,
+    light: LightLevel,
+    distance: number,
+    canSee: boolean
+  ): string[] {
+    if (!canSee) return [`${attacker.name} can't see ${target.name} in the darkness (disadvantage)`];
+    if (light !== 'dark') return light === 'dim' ? [`${target.name} is in dim light`] : [];
+    if (senses.blindsight >= distance) return [`${attacker.name} senses ${target.name} with blindsight`];
+    if (senses.truesight >= distance) return [`${attacker.name} sees ${target.name} with truesight`];
+    return [`${attacker.name} sees ${target.name} in the dark with darkvision`];
+  }
+}
+
+// Default singleton instance
+export const targetingEngine = new TargetingEngine();
@@ -2,6 +2,8 @@
 
 export type Ability = 'strength' | 'dexterity' | 'constitution' | 'intelligence' | 'wisdom' | 'charisma';
 
+export const ABILITIES: Ability[] = ['strength', 'dexterity', 'constitution', 'intelligence', 'wisdom', 'charisma'];
+
 export type Skill =
   | 'acrobatics' | 'animal_handling' | 'arcana' | 'athletics'
   | 'deception' | 'history' | 'insight' | 'intimidation'
@@ -51,25 +53,48 @@ export interface ActiveCondition {
   durationValue?: number;
   saveDc?: number;
   saveAbility?: Ability;
+  casterId?: string;     // Set on effects that last only while the caster concentrates on `source`
+  level?: number;        // Exhaustion level, 1-6 (1 when not given)
 }
 
 export type AdvantageStatus = 'normal' | 'advantage' | 'disadvantage';
 
 export type GameMode = 'exploration' | 'combat' | 'social' | 'rest';
 
-export type CombatantType = 'player_character' | 'enemy' | 'ally' | 'neutral';
+// 'lair' is the lair action step a legendary monster's lair takes on initiative count 20
+export type CombatantType = 'player_character' | 'enemy' | 'ally' | 'neutral' | 'lair';
 
-export type CombatantStatus = 'active' | 'defeated' | 'fled';
+// Player characters at 0 HP are dying, stable or dead; monsters are simply defeated
+export type CombatantStatus = 'active' | 'dying' | 'stable' | 'dead' | 'defeated' | 'fled';
 
 export type CombatOutcome = 'victory' | 'defeat' | 'fled' | 'negotiated';
 
 // Dice Roll Results
+// A single die as it came off the random stream
+export interface DieRoll {
+  sides: number;
+  value: number;
+}
+
+// One die in a dice expression result
+export interface DieResult {
+  value: number;
+  rerolled?: boolean;   // Replaced by a reroll - not counted
+  dropped?: boolean;    // Dropped by keep/drop - not counted
+  exploded?: boolean;   // Counted, and triggered another die
+}
+
+export type RollTermResult =
+  | { type: 'dice'; sign: 1 | -1; notation: string; dice: DieResult[]; total: number }
+  | { type: 'constant'; sign: 1 | -1; value: number; total: number };
+
 export interface BasicRollResult {
   notation: string;
-  rolls: number[];
-  modifier: number;
+  rolls: number[];              // Counted dice
+  modifier: number;             // Sum of the constant terms
   total: number;
   reason?: string;
+  breakdown: RollTermResult[];  // Every die behind the total, term by term
 }
 
 export interface AbilityCheckResult {
@@ -89,6 +114,8 @@ export interface AbilityCheckResult {
   isCriticalSuccess: boolean;
   isCriticalFailure: boolean;
   advantageUsed: AdvantageStatus;
+  autoFailed?: boolean;     // A condition made the check fail regardless of the roll
+  notes?: string[];
 }
 
 export interface AttackRollResult {
@@ -100,11 +127,31 @@ export interface AttackRollResult {
   roll: number;
   attackBonus: number;
   total: number;
-  targetAc: number;
+  targetAc: number;         // Includes any cover bonus
   hits: boolean;
   isCriticalHit: boolean;
   isCriticalMiss: boolean;
   advantageUsed: AdvantageStatus;
+  coverBonus?: number;
+  notes?: string[];         // Why the AC or advantage changed, for narration
+}
+
+// How the battlefield affects an attack - cover, light and vision (see TargetingEngine)
+export interface AttackCircumstances {
+  acBonus: number;              // Added to the target's AC
+  advantage: AdvantageStatus;   // Combined with the attack's own advantage status
+  notes: string[];
+  distance?: number;            // Feet between the two, when known (prone and paralyzed targets care)
+  ranged?: boolean;
+}
+
+export interface ConcentrationCheckResult {
+  spell: string;
+  dc: number;
+  roll: number;
+  modifier: number;
+  total: number;
+  maintained: boolean;
 }
 
 export interface DamageSource {
@@ -114,13 +161,15 @@ export interface DamageSource {
 }
 
 export interface DamageRollResult {
-  rolls: { dice: string; results: number[]; total: number }[];
-  modifier: number;
+  rolls: { dice: string; results: number[]; total: number }[];   // Counted dice, term by term
+  modifier: number;             // Flat bonus, including constants in the damage dice
   baseDamage: number;
   damageType: DamageType;
-  additionalDamage: { amount: number; type: DamageType; source: string }[];
+  breakdown: RollTermResult[];  // Every die behind baseDamage, then the modifier
+  additionalDamage: { amount: number; type: DamageType; source: string; breakdown: RollTermResult[] }[];
   totalDamage: number;
   isCritical: boolean;
+  criticalEffect?: { roll: number; effect: string };   // Critical hit table result, when the campaign uses one
 }
 
 export interface SavingThrowResult {
@@ -137,6 +186,8 @@ export interface SavingThrowResult {
   isCriticalSuccess: boolean;
   isCriticalFailure: boolean;
   advantageUsed: AdvantageStatus;
+  autoFailed?: boolean;     // A condition made the save fail regardless of the roll
+  notes?: string[];
 }
 
 export interface InitiativeRollResult {
@@ -176,6 +227,9 @@ export interface InventoryItem {
   quantity: number;
   weight?: number;
   description?: string;
+  baseItem?: string;   // SRD weapon or armor it is, when the name doesn't say ("Longsword" for "Sun Blade")
+  magicItem?: string;  // SRD magic item it is ("Weapon, +1"); names like "Longsword +1" need neither
+  attuned?: boolean;
 }
 
 export interface EquippedItems {
@@ -186,6 +240,16 @@ export interface EquippedItems {
   [slot: string]: string | undefined;
 }
 
+export type AdvancementMode = 'xp' | 'milestone';
+
+// One entry per class for multiclass characters
+export interface ClassLevel {
+  className: string;
+  subclass?: string;
+  level: number;
+  hitDiceType: number;
+}
+
 export interface Character {
   id: string;
   campaignId: string;
@@ -193,7 +257,9 @@ export interface Character {
   race: string;
   className: string;
   subclass?: string;
-  level: number;
+  level: number;                 // Total character level across all classes
+  classLevels?: ClassLevel[];    // Absent = single class at `level`
+  experiencePoints?: number;
   background?: string;
   alignment?: string;
   abilityScores: CharacterAbilityScores;
@@ -229,6 +295,8 @@ export interface TurnResources {
   hasBonusAction: boolean;
   hasReaction: boolean;
   movementRemaining: number;
+  disengaged?: boolean;   // Took the Disengage action - moving provokes no opportunity attacks this turn
+  dashed?: boolean;       // Took the Dash action - movementRemaining already includes the extra speed
 }
 
 export interface Combatant {
@@ -247,8 +315,50 @@ export interface Combatant {
   position?: { x: number; y: number };
   turnResources: TurnResources;
   sourceId?: string;
+  saveModifiers?: Partial<Record<Ability, number>>;  // Player characters; monsters use their stat block
+  deathSaves?: DeathSaves;                            // Player characters
+  reach?: number;                                     // Player characters: melee reach of their equipped weapon
   isMonster: boolean;
   monsterStatBlock?: MonsterStatBlock;
+  legendaryActions?: LegendaryActionBudget;           // Monsters with legendary actions
+  recharge?: Record<string, boolean>;                 // Recharge abilities by name - true when ready
+  lair?: LairState;                                   // The lair action step (type 'lair')
+}
+
+export interface LegendaryActionBudget {
+  max: number;
+  remaining: number;   // Regained at the start of the monster's turn
+}
+
+export interface LairState {
+  ownerId: string;          // Combatant whose lair this is - no lair actions once it falls
+  actions: MonsterAction[];
+  lastUsed?: string;        // The same lair action can't be used two rounds running
+  usedRound?: number;       // One lair action per round
+}
+
+export interface RechargeRollResult {
+  combatantId: string;
+  name: string;
+  ability: string;
+  roll: number;
+  recharged: boolean;
+}
+
+export interface DeathSaves {
+  successes: number;
+  failures: number;
+}
+
+export type DeathSaveOutcome = 'success' | 'failure' | 'stable' | 'revived' | 'dead';
+
+export interface DeathSaveResult {
+  combatantId: string;
+  name: string;
+  roll: number;
+  outcome: DeathSaveOutcome;
+  successes: number;
+  failures: number;
 }
 
 export interface Combat {
@@ -259,6 +369,7 @@ export interface Combat {
   surprisedCombatants: string[];
   environmentalEffects: string[];
   active: boolean;
+  deathSaveFailuresPersist?: boolean;   // Hardcore death rules: failures stay when a character recovers
 }
 
 // Monster Types
@@ -292,6 +403,8 @@ export interface MonsterStatBlock {
   traits?: { name: string; desc: string }[];
   actions: MonsterAction[];
   legendaryActions?: MonsterAction[];
+  legendaryActionCount?: number;   // Legendary actions per round (3 when not given)
+  lairActions?: MonsterAction[];   // Taken on initiative count 20 while fighting in the lair
   reactions?: MonsterAction[];
 }
 
@@ -368,6 +481,8 @@ export interface DBCharacter {
   className: string;
   subclass: string | null;
   level: number;
+  classLevels: string;
+  experiencePoints: number;
   background: string | null;
   alignment: string | null;
   // Flat ability scores (not nested)
@@ -458,3 +573,34 @@ export function getProficiencyBonus(level: number): number {
 export function clampHp(hp: number, maxHp: number): number {
   return Math.max(0, Math.min(maxHp, hp));
 }
+
+// Any advantage and any disadvantage cancel out, however many sources of each
+export function combineAdvantage(...statuses: AdvantageStatus[]): AdvantageStatus {
+  const advantage = statuses.includes('advantage');
+  const disadvantage = statuses.includes('disadvantage');
+  if (advantage === disadvantage) return 'normal';
+  return advantage ? 'advantage' : 'disadvantage';
+}
+
+// Three death save successes stabilize a character at 0 HP; three failures kill them
+export const DEATH_SAVES_TO_RESOLVE = 3;
+
+// Damage left over after dropping to 0 HP that is at least the character's max HP kills outright
+export function isMassiveDamage(previousHp: number, damage: number, maxHp: number): boolean {
+  return damage - previousHp >= maxHp;
+}
+
+// Constitution save DC to keep concentrating after taking damage
+export function getConcentrationDc(damage: number): number {
+  return Math.max(10, Math.floor(damage / 2));
+}
+
+// The clock after `minutes` more minutes; hours roll over into days
+export function advanceGameTime(time: GameTime, minutes: number): GameTime {
+  const total = time.hour * 60 + time.minute + Math.max(0, Math.round(minutes));
+  return {
+    day: time.day + Math.floor(total / 1440),
+    hour: Math.floor(total / 60) % 24,
+    minute: total % 60,
+  };
+}
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { entityRefs, toEntityData, toNpcData } from './generated-entities';
+
+describe('generated entities', () => {
+  const refs = entityRefs([{ id: 'f-1', name: 'Salt Guild' }], [{ id: 'l-1', name: 'Brinemouth' }]);
+
+  it('should only take the known fields from what the AI generated', () => {
+    const data = toNpcData({
+      name: 'Marta Vell',
+      occupation: 'harbormaster',
+      personality: { traits: ['stern'] },
+      factionAffiliation: 'salt guild',
+      worldSeedId: 'someone-elses-world',
+      isDiscovered: true,
+      id: 'n-1',
+    }, refs);
+
+    expect(data).toMatchObject({ name: 'Marta Vell', occupation: 'harbormaster', factionId: 'f-1', personality: '{"traits":["stern"]}' });
+    expect(data).not.toHaveProperty('worldSeedId');
+    expect(data).not.toHaveProperty('isDiscovered');
+    expect(data).not.toHaveProperty('id');
+  });
+
+  it('should fall back to defaults for missing or mistyped fields', () => {
+    const { type, data } = toEntityData('faction', { name: 'Salt Guild', type: 7, influence: '9', philosophy: ['free trade'] }, refs);
+
+    expect(type).toBe('faction');
+    expect(data).toMatchObject({ type: 'guild', tier: 'supporting', influence: 5, philosophy: null, resources: '[]' });
+  });
+});
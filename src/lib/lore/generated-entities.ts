@@ -0,0 +1,271 @@
+// Generated Entities - the JSON shape the AI is asked for, per world entity type, and how a
+// generated entity becomes a WorldSeed row. Shared by full lore generation and regeneration.
+
+import type { Prisma } from '@prisma/client';
+
+export const GENERATED_ENTITY_TYPES = ['faction', 'npc', 'location', 'conflict', 'secret'] as const;
+export type GeneratedEntityType = (typeof GENERATED_ENTITY_TYPES)[number];
+
+// The response key each type is generated under, e.g. {"npcs": [...]}
+export const ENTITY_LIST_KEYS: Record<GeneratedEntityType, string> = {
+  faction: 'factions',
+  npc: 'npcs',
+  location: 'locations',
+  conflict: 'conflicts',
+  secret: 'secrets',
+};
+
+// One array element of each response, indented to sit inside the list
+export const ENTITY_SHAPES: Record<GeneratedEntityType, string> = {
+  faction: `    {
+      "name": "faction name",
+      "type": "guild|religion|government|criminal|military|merchant|academic|secret_society",
+      "tier": "major|supporting|minor",
+      "philosophy": "core belief that drives them",
+      "tensionStances": [
+        {"tensionName": "name of tension", "stance": "their position", "isPublic": true}
+      ],
+      "publicImage": "how public perceives them",
+      "symbol": "visual identifier",
+      "motto": "faction motto",
+      "influence": 7,
+      "resources": ["resource1", "resource2"],
+      "relationships": [
+        {"factionName": "other faction", "type": "ally|enemy|rival|neutral", "reason": "why"}
+      ]
+    }`,
+  npc: `    {
+      "name": "full name",
+      "race": "Human, Elf, etc.",
+      "occupation": "their role",
+      "tier": "major|supporting|minor",
+      "appearance": "brief physical description",
+      "personality": {
+        "traits": ["trait1", "trait2"],
+        "ideals": ["ideal"],
+        "bonds": ["bond"],
+        "flaws": ["flaw"]
+      },
+      "speakingStyle": "how they talk",
+      "publicGoal": "what they appear to want",
+      "privateGoal": "what they actually want",
+      "fears": ["fear1"],
+      "tensionRole": [
+        {"tensionName": "tension name", "role": "champion|moderate|opposed|neutral", "commitment": "defining|strong|moderate|weak"}
+      ],
+      "factionAffiliation": "faction name or null",
+      "factionRank": "rank in faction",
+      "knowledgeScope": {
+        "knows": ["what they know"],
+        "suspects": ["what they suspect"],
+        "ignorantOf": ["what they don't know"]
+      }
+    }`,
+  location: `    {
+      "name": "location name",
+      "type": "continent|nation|region|city|town|landmark|dungeon|ruins",
+      "tier": "major|supporting|minor",
+      "description": "general description",
+      "atmosphere": "mood/feel",
+      "terrain": "geographic type",
+      "climate": "weather patterns",
+      "mapCoordinates": {"x": 0, "y": 0},
+      "controllingFaction": "faction name or null",
+      "contestedBy": ["other factions contesting control"],
+      "sensoryDetails": {"sights": "...", "sounds": "...", "smells": "..."},
+      "population": {"size": "large/medium/small", "demographics": "who lives here"},
+      "landmarks": ["notable features"],
+      "currentEvents": ["what's happening now"],
+      "rumors": ["local rumors"]
+    }`,
+  conflict: `    {
+      "name": "conflict name",
+      "type": "war|political|economic|religious|personal|ideological",
+      "tier": "major|supporting|minor",
+      "scope": "local|regional|continental",
+      "status": "brewing|active|climax",
+      "rootTension": "which core tension this manifests",
+      "triggerEvent": "what started or will start this",
+      "sides": [
+        {"name": "side name", "factions": ["faction names"], "npcs": ["npc names"], "goals": "what they want"}
+      ],
+      "stakes": "what's at risk",
+      "publicNarrative": "what people think is happening",
+      "trueNature": "what's actually happening",
+      "possibleOutcomes": ["outcome1", "outcome2"]
+    }`,
+  secret: `    {
+      "name": "internal reference name",
+      "type": "identity|history|prophecy|location|betrayal|conspiracy",
+      "tier": "major|supporting|minor",
+      "content": "the actual secret",
+      "implications": "why this matters",
+      "tensionImpact": [
+        {"tensionName": "which tension", "howItChanges": "how revealing this would shift the balance"}
+      ],
+      "knownBy": [
+        {"entityType": "npc|faction", "entityName": "who knows", "wouldTell": false}
+      ],
+      "hints": [
+        {"hint": "clue that points to this", "whereFound": "location or npc", "obviousness": "subtle|moderate|obvious"}
+      ],
+      "discoveryConditions": [
+        {"type": "location_visited|npc_met|flag_set|check_succeeded|narrative", "target": "location or NPC name, flag name, or skill", "dc": 15, "location": "where a check must be made (optional)", "description": "the lead, in words"}
+      ],
+      "revealTriggers": [
+        {"type": "location_visited|npc_met|flag_set|check_succeeded|narrative", "target": "...", "description": "an event that exposes it outright"}
+      ],
+      "onReveal": {
+        "narrative": "what happens story-wise",
+        "effects": ["mechanical effects"],
+        "relationshipChanges": [
+          {"source": "NPC or faction name", "target": "NPC or faction name", "type": "ally|enemy|rival|servant|patron|family|trade_partner|neutral", "strengthDelta": -3, "description": "how it shifts"}
+        ],
+        "escalateConflicts": ["conflict names this inflames"]
+      }
+    }`,
+};
+
+// Resolves names the AI used to existing world ids
+export interface EntityRefs {
+  factionId(name: unknown): string | null;
+  locationId(name: unknown): string | null;
+}
+
+export function entityRefs(
+  factions: Array<{ id: string; name: string }>,
+  locations: Array<{ id: string; name: string }> = []
+): EntityRefs {
+  const find = (entities: Array<{ id: string; name: string }>, name: unknown) =>
+    typeof name === 'string' && name
+      ? entities.find((e) => e.name.toLowerCase() === name.toLowerCase())?.id ?? null
+      : null;
+  return {
+    factionId: (name) => find(factions, name),
+    locationId: (name) => find(locations, name),
+  };
+}
+
+// The row a generated entity becomes, without its worldSeedId. Only these fields are ever
+// taken from the AI's output; anything else it sends is dropped.
+type EntityRow<T> = Omit<T, 'worldSeedId'>;
+export type FactionData = EntityRow<Prisma.WorldFactionUncheckedCreateInput>;
+export type NpcData = EntityRow<Prisma.WorldNpcUncheckedCreateInput>;
+export type LocationData = EntityRow<Prisma.WorldLocationUncheckedCreateInput>;
+export type ConflictData = EntityRow<Prisma.WorldConflictUncheckedCreateInput>;
+export type SecretData = EntityRow<Prisma.WorldSecretUncheckedCreateInput>;
+
+export type GeneratedEntityData =
+  | { type: 'faction'; data: FactionData }
+  | { type: 'npc'; data: NpcData }
+  | { type: 'location'; data: LocationData }
+  | { type: 'conflict'; data: ConflictData }
+  | { type: 'secret'; data: SecretData };
+
+function text(value: unknown): string | null {
+  return typeof value === 'string' && value ? value : null;
+}
+
+function json(value: unknown, fallback: '[]' | '{}'): string {
+  return value ? JSON.stringify(value) : fallback;
+}
+
+export function toFactionData(faction: Record<string, unknown>): FactionData {
+  return {
+    name: String(faction.name),
+    type: text(faction.type) ?? 'guild',
+    tier: text(faction.tier) ?? 'supporting',
+    philosophy: text(faction.philosophy),
+    tensionStances: json(faction.tensionStances, '[]'),
+    publicImage: text(faction.publicImage),
+    symbol: text(faction.symbol),
+    motto: text(faction.motto),
+    influence: typeof faction.influence === 'number' && faction.influence ? Math.round(faction.influence) : 5,
+    resources: json(faction.resources, '[]'),
+  };
+}
+
+export function toNpcData(npc: Record<string, unknown>, refs: EntityRefs): NpcData {
+  return {
+    name: String(npc.name),
+    race: text(npc.race),
+    occupation: text(npc.occupation),
+    tier: text(npc.tier) ?? 'minor',
+    appearance: text(npc.appearance),
+    personality: json(npc.personality, '{}'),
+    speakingStyle: text(npc.speakingStyle),
+    publicGoal: text(npc.publicGoal),
+    privateGoal: text(npc.privateGoal),
+    fears: json(npc.fears, '[]'),
+    tensionRole: json(npc.tensionRole, '[]'),
+    factionId: refs.factionId(npc.factionAffiliation),
+    factionRank: text(npc.factionRank),
+    knowledgeScope: json(npc.knowledgeScope, '{}'),
+  };
+}
+
+export function toLocationData(loc: Record<string, unknown>, refs: EntityRefs): LocationData {
+  return {
+    name: String(loc.name),
+    type: text(loc.type) ?? 'city',
+    tier: text(loc.tier) ?? 'minor',
+    description: text(loc.description),
+    atmosphere: text(loc.atmosphere),
+    terrain: text(loc.terrain),
+    climate: text(loc.climate),
+    mapCoordinates: json(loc.mapCoordinates, '{}'),
+    controllingFactionId: refs.factionId(loc.controllingFaction),
+    contestedBy: json(loc.contestedBy, '[]'),
+    sensoryDetails: json(loc.sensoryDetails, '{}'),
+    population: json(loc.population, '{}'),
+    landmarks: json(loc.landmarks, '[]'),
+    currentEvents: json(loc.currentEvents, '[]'),
+    rumors: json(loc.rumors, '[]'),
+  };
+}
+
+export function toConflictData(conflict: Record<string, unknown>): ConflictData {
+  return {
+    name: String(conflict.name),
+    type: text(conflict.type) ?? 'political',
+    tier: text(conflict.tier) ?? 'supporting',
+    scope: text(conflict.scope) ?? 'regional',
+    status: text(conflict.status) ?? 'brewing',
+    rootTension: text(conflict.rootTension),
+    triggerEvent: text(conflict.triggerEvent),
+    sides: json(conflict.sides, '[]'),
+    stakes: text(conflict.stakes),
+    publicNarrative: text(conflict.publicNarrative),
+    trueNature: text(conflict.trueNature),
+    possibleOutcomes: json(conflict.possibleOutcomes, '[]'),
+  };
+}
+
+export function toSecretData(secret: Record<string, unknown>): SecretData {
+  return {
+    name: String(secret.name),
+    type: text(secret.type) ?? 'conspiracy',
+    tier: text(secret.tier) ?? 'supporting',
+    content: String(secret.content ?? ''),
+    implications: text(secret.implications),
+    tensionImpact: json(secret.tensionImpact, '[]'),
+    knownBy: json(secret.knownBy, '[]'),
+    hints: json(secret.hints, '[]'),
+    discoveryConditions: json(secret.discoveryConditions, '[]'),
+    revealTriggers: json(secret.revealTriggers, '[]'),
+    onReveal: json(secret.onReveal, '{}'),
+  };
+}
+
+/**
+ * Turn a generated entity of any type into its row
+ */
+export function toEntityData(type: GeneratedEntityType, entity: Record<string, unknown>, refs: EntityRefs): GeneratedEntityData {
+  switch (type) {
+    case 'faction': return { type, data: toFactionData(entity) };
+    case 'npc': return { type, data: toNpcData(entity, refs) };
+    case 'location': return { type, data: toLocationData(entity, refs) };
+    case 'conflict': return { type, data: toConflictData(entity) };
+    case 'secret': return { type, data: toSecretData(entity) };
+  }
+}
@@ -1,4 +1,13 @@
 // src/lib/lore/index.ts
 export { loreGenerationQueue, type LoreGenerationJob } from './lore-generation-queue';
-export { loreGenerationService } from './lore-generation-service';
+export { loreGenerationService, REGENERABLE_PHASES } from './lore-generation-service';
+export type {
+  RegenerablePhase,
+  RegenerationResult,
+  RegenerationErrorCode,
+  AddNpcsOptions,
+  ExpandLocationOptions,
+  RegeneratePhaseOptions,
+} from './lore-generation-service';
+export { GENERATED_ENTITY_TYPES, type GeneratedEntityType } from './generated-entities';
 export { loreContextManager } from './lore-context-manager';
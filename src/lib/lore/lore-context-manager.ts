@@ -1,5 +1,6 @@
 // src/lib/lore/lore-context-manager.ts
-import { prisma } from '@/lib/db';
+import { loreRepository, secretRevealService } from '@/lib/world';
+import type { LoreEntityMap, LoreEntityType } from '@/lib/world';
 
 interface LoreContext {
   tier1: string;  // Always included (~100-150 tokens)
@@ -15,7 +16,8 @@ interface RelevanceFactors {
 
 /**
  * LoreContextManager handles intelligent lore injection into AI prompts.
- * Uses tiered approach to manage token budget.
+ * Uses tiered approach to manage token budget. Reads and writes the
+ * campaign's world through the lore repository.
  */
 export class LoreContextManager {
   private static readonly TIER1_TOKEN_BUDGET = 150;
@@ -28,25 +30,23 @@ export class LoreContextManager {
     campaignId: string,
     factors: RelevanceFactors = {}
   ): Promise<LoreContext | null> {
-    const lore = await prisma.campaignLore.findUnique({
-      where: { campaignId },
-      include: {
-        npcs: true,
-        factions: true,
-        locations: true,
-        conflicts: true
-      }
-    });
+    const world = await loreRepository.getWorld(campaignId);
 
-    if (!lore || lore.generationStatus !== 'completed') {
+    if (!world || world.generationStatus !== 'completed') {
       return null;
     }
 
+    const [npcs, locations, conflicts] = await Promise.all([
+      loreRepository.list(world.id, 'npc'),
+      loreRepository.list(world.id, 'location'),
+      loreRepository.list(world.id, 'conflict'),
+    ]);
+
     // Build Tier 1: Always included essentials
-    const tier1 = this.buildTier1Context(lore, factors);
+    const tier1 = this.buildTier1Context(world, factors);
     
     // Build Tier 2: Situational context
-    const tier2 = this.buildTier2Context(lore, factors);
+    const tier2 = this.buildTier2Context({ npcs, locations, conflicts }, factors);
 
     const totalTokens = this.estimateTokens(tier1) + this.estimateTokens(tier2);
 
@@ -54,8 +54,8 @@ export class LoreContextManager {
   }
 
   private buildTier1Context(
-    lore: {
-      worldName: string | null;
+    world: {
+      name: string | null;
       tone: string | null;
       themes: string;
     },
@@ -63,15 +63,15 @@ export class LoreContextManager {
   ): string {
     const parts: string[] = [];
 
-    if (lore.worldName) {
-      parts.push(`WORLD: ${lore.worldName}`);
+    if (world.name) {
+      parts.push(`WORLD: ${world.name}`);
     }
 
-    if (lore.tone) {
-      parts.push(`TONE: ${lore.tone}`);
+    if (world.tone) {
+      parts.push(`TONE: ${world.tone}`);
     }
 
-    const themes = JSON.parse(lore.themes || '[]');
+    const themes = JSON.parse(world.themes || '[]');
     if (themes.length > 0) {
       parts.push(`THEMES: ${themes.slice(0, 3).join(', ')}`);
     }
@@ -87,46 +87,41 @@ export class LoreContextManager {
     lore: {
       npcs: Array<{
         name: string;
-        role: string;
-        importance: string;
-        primaryLocation: string | null;
-        isRevealed: boolean;
+        occupation: string | null;
+        tier: string;
+        primaryLocationId: string | null;
+        isDiscovered: boolean;
         personality: string;
       }>;
-      factions: Array<{
-        name: string;
-        type: string;
-        importance: string;
-        publicImage: string | null;
-        playerStanding: string | null;
-      }>;
       locations: Array<{
+        id: string;
         name: string;
-        importance: string;
         atmosphere: string | null;
-        isDiscovered: boolean;
       }>;
       conflicts: Array<{
         name: string;
-        importance: string;
-        currentState: string;
-        isRevealed: boolean;
+        tier: string;
+        status: string;
+        isDiscovered: boolean;
         stakes: string | null;
       }>;
     },
     factors: RelevanceFactors
   ): string {
     const parts: string[] = [];
+    const currentLoc = factors.currentLocation
+      ? lore.locations.find(l => l.name.toLowerCase() === factors.currentLocation!.toLowerCase())
+      : undefined;
 
     // NPCs at current location or recently mentioned
     const relevantNpcs = lore.npcs
       .filter(npc => {
-        if (npc.isRevealed) return true;
-        if (factors.currentLocation && npc.primaryLocation === factors.currentLocation) return true;
+        if (npc.isDiscovered) return true;
+        if (currentLoc && npc.primaryLocationId === currentLoc.id) return true;
         if (factors.recentMentions?.includes(npc.name)) return true;
         return false;
       })
-      .sort((a, b) => this.importanceScore(b.importance) - this.importanceScore(a.importance))
+      .sort((a, b) => this.importanceScore(b.tier) - this.importanceScore(a.tier))
       .slice(0, 5);
 
     if (relevantNpcs.length > 0) {
@@ -134,14 +129,14 @@ export class LoreContextManager {
       for (const npc of relevantNpcs) {
         const personality = JSON.parse(npc.personality || '{}');
         const traits = personality.traits?.slice(0, 2).join(', ') || '';
-        parts.push(`- ${npc.name} (${npc.role}): ${traits}`);
+        parts.push(`- ${npc.name} (${npc.occupation || 'unknown'}): ${traits}`);
       }
     }
 
     // Active conflicts
     const activeConflicts = lore.conflicts
-      .filter(c => c.isRevealed && c.currentState !== 'resolved')
-      .sort((a, b) => this.importanceScore(b.importance) - this.importanceScore(a.importance))
+      .filter(c => c.isDiscovered && c.status !== 'resolved')
+      .sort((a, b) => this.importanceScore(b.tier) - this.importanceScore(a.tier))
       .slice(0, 3);
 
     if (activeConflicts.length > 0) {
@@ -152,11 +147,8 @@ export class LoreContextManager {
     }
 
     // Discovered locations near current
-    if (factors.currentLocation) {
-      const currentLoc = lore.locations.find(l => l.name === factors.currentLocation);
-      if (currentLoc?.atmosphere) {
-        parts.push(`ATMOSPHERE: ${currentLoc.atmosphere}`);
-      }
+    if (currentLoc?.atmosphere) {
+      parts.push(`ATMOSPHERE: ${currentLoc.atmosphere}`);
     }
 
     return parts.join('\n');
@@ -182,41 +174,28 @@ export class LoreContextManager {
   async queryLore(
     campaignId: string,
     topic: string,
-    type?: 'npc' | 'faction' | 'location' | 'conflict' | 'secret'
+    type?: LoreEntityType
   ): Promise<string> {
-    const lore = await prisma.campaignLore.findUnique({
-      where: { campaignId },
-      include: {
-        npcs: true,
-        factions: true,
-        locations: true,
-        conflicts: true,
-        secrets: { where: { isRevealed: true } }
-      }
-    });
+    const world = await loreRepository.getWorld(campaignId);
 
-    if (!lore) return 'No world lore available.';
+    if (!world) return 'No world lore available.';
 
     const topicLower = topic.toLowerCase();
+    const matches = (...fields: Array<string | null>) =>
+      fields.some(field => field?.toLowerCase().includes(topicLower));
     const results: string[] = [];
 
     // Search NPCs
     if (!type || type === 'npc') {
-      const matchingNpcs = lore.npcs.filter(n => 
-        n.name.toLowerCase().includes(topicLower) ||
-        n.role.toLowerCase().includes(topicLower)
-      );
+      const matchingNpcs = (await loreRepository.list(world.id, 'npc')).filter(n => matches(n.name, n.occupation));
       for (const npc of matchingNpcs.slice(0, 3)) {
-        results.push(`NPC: ${npc.name} - ${npc.role}. ${npc.publicGoal || ''}`);
+        results.push(`NPC: ${npc.name} - ${npc.occupation || 'unknown'}. ${npc.publicGoal || ''}`);
       }
     }
 
     // Search Factions
     if (!type || type === 'faction') {
-      const matchingFactions = lore.factions.filter(f =>
-        f.name.toLowerCase().includes(topicLower) ||
-        f.type.toLowerCase().includes(topicLower)
-      );
+      const matchingFactions = (await loreRepository.list(world.id, 'faction')).filter(f => matches(f.name, f.type));
       for (const faction of matchingFactions.slice(0, 3)) {
         results.push(`FACTION: ${faction.name} - ${faction.publicImage || faction.type}`);
       }
@@ -224,10 +203,7 @@ export class LoreContextManager {
 
     // Search Locations
     if (!type || type === 'location') {
-      const matchingLocations = lore.locations.filter(l =>
-        l.name.toLowerCase().includes(topicLower) ||
-        (l.region?.toLowerCase().includes(topicLower))
-      );
+      const matchingLocations = (await loreRepository.list(world.id, 'location')).filter(l => matches(l.name, l.type));
       for (const loc of matchingLocations.slice(0, 3)) {
         results.push(`LOCATION: ${loc.name} - ${loc.description?.slice(0, 100) || loc.atmosphere || ''}`);
       }
@@ -235,12 +211,17 @@ export class LoreContextManager {
 
     // Search Conflicts
     if (!type || type === 'conflict') {
-      const matchingConflicts = lore.conflicts.filter(c =>
-        c.name.toLowerCase().includes(topicLower) ||
-        c.type.toLowerCase().includes(topicLower)
-      );
+      const matchingConflicts = (await loreRepository.list(world.id, 'conflict')).filter(c => matches(c.name, c.type));
       for (const conflict of matchingConflicts.slice(0, 2)) {
-        results.push(`CONFLICT: ${conflict.name} - ${conflict.publicKnowledge || conflict.stakes || ''}`);
+        results.push(`CONFLICT: ${conflict.name} - ${conflict.publicNarrative || conflict.stakes || ''}`);
+      }
+    }
+
+    // Search revealed Secrets
+    if (!type || type === 'secret') {
+      const matchingSecrets = (await loreRepository.list(world.id, 'secret')).filter(s => s.isRevealed && matches(s.name, s.type));
+      for (const secret of matchingSecrets.slice(0, 2)) {
+        results.push(`SECRET: ${secret.name} - ${secret.content}`);
       }
     }
 
@@ -250,79 +231,46 @@ export class LoreContextManager {
   }
 
   /**
-   * Mark an NPC as revealed (for introduce_npc AI function).
+   * Mark an NPC as discovered (for introduce_npc AI function).
    */
   async revealNpc(campaignId: string, npcName: string): Promise<string | null> {
-    const lore = await prisma.campaignLore.findUnique({
-      where: { campaignId },
-      include: { npcs: true }
-    });
-
-    if (!lore) return null;
-
-    const npc = lore.npcs.find(n => 
-      n.name.toLowerCase() === npcName.toLowerCase()
-    );
-
+    const npc = await this.discover(campaignId, 'npc', npcName);
     if (!npc) return null;
 
-    await prisma.loreNpc.update({
-      where: { id: npc.id },
-      data: { isRevealed: true }
-    });
-
     const personality = JSON.parse(npc.personality || '{}');
-    return `${npc.name} (${npc.race} ${npc.role}): ${personality.traits?.join(', ') || 'Unknown demeanor'}. ${npc.speakingStyle ? `Speaks ${npc.speakingStyle}.` : ''}`;
+    return `${npc.name} (${npc.race} ${npc.occupation || 'unknown'}): ${personality.traits?.join(', ') || 'Unknown demeanor'}. ${npc.speakingStyle ? `Speaks ${npc.speakingStyle}.` : ''}`;
   }
 
   /**
    * Mark a location as discovered.
    */
   async discoverLocation(campaignId: string, locationName: string): Promise<string | null> {
-    const lore = await prisma.campaignLore.findUnique({
-      where: { campaignId },
-      include: { locations: true }
-    });
-
-    if (!lore) return null;
-
-    const location = lore.locations.find(l =>
-      l.name.toLowerCase() === locationName.toLowerCase()
-    );
-
+    const location = await this.discover(campaignId, 'location', locationName);
     if (!location) return null;
 
-    await prisma.loreLocation.update({
-      where: { id: location.id },
-      data: { isDiscovered: true }
-    });
-
     return `${location.name}: ${location.description || location.atmosphere || 'A notable location.'}`;
   }
 
   /**
-   * Reveal a secret.
+   * Reveal a secret, applying its onReveal consequences the first time.
    */
   async revealSecret(campaignId: string, secretName: string): Promise<string | null> {
-    const lore = await prisma.campaignLore.findUnique({
-      where: { campaignId },
-      include: { secrets: true }
-    });
-
-    if (!lore) return null;
-
-    const secret = lore.secrets.find(s =>
-      s.name.toLowerCase() === secretName.toLowerCase()
-    );
+    const outcome = await secretRevealService.revealByName(campaignId, secretName);
+    if (!outcome) return null;
 
-    if (!secret) return null;
-
-    await prisma.loreSecret.update({
-      where: { id: secret.id },
-      data: { isRevealed: true }
-    });
+    return [outcome.secret.content, ...outcome.consequences].join('\n');
+  }
 
-    return secret.content;
+  private async discover<T extends LoreEntityType>(
+    campaignId: string,
+    type: T,
+    name: string
+  ): Promise<LoreEntityMap[T] | null> {
+    const world = await loreRepository.getWorld(campaignId);
+    if (!world) return null;
+
+    const entity = await loreRepository.findByName(world.id, type, name);
+    return entity ? loreRepository.markDiscovered(world.id, type, entity.id) : null;
   }
 }
 
@@ -2,7 +2,23 @@ import { prisma } from '@/lib/db';
 import { generateContent } from '@/lib/ai/client';
 import { loreGenerationQueue } from './lore-generation-queue';
 import { tensionExtractor, CoreTension } from '@/lib/world';
+import type { FactionRecord, LocationRecord } from '@/lib/world';
 import { coherenceChecker } from '@/lib/world/coherence-checker';
+import { isDiscovered } from '@/lib/world/party-knowledge';
+import {
+  ENTITY_LIST_KEYS,
+  ENTITY_SHAPES,
+  entityRefs,
+  toConflictData,
+  toFactionData,
+  toLocationData,
+  toNpcData,
+  toSecretData,
+  toEntityData,
+} from './generated-entities';
+import type { GeneratedEntityData, GeneratedEntityType } from './generated-entities';
+import { buildGenerationPrompt, buildWorldBible, formatTensions, partitionForRegeneration } from './world-bible';
+import type { WorldBibleInput } from './world-bible';
 
 interface GenerationContext {
   campaignId: string;
@@ -13,6 +29,61 @@ interface GenerationContext {
   coreTensions?: CoreTension[];
 }
 
+// Phases that can be regenerated on their own; tensions underpin everything else
+export const REGENERABLE_PHASES = ['cosmology', 'factions', 'npcs', 'conflicts', 'locations', 'secrets'] as const;
+export type RegenerablePhase = (typeof REGENERABLE_PHASES)[number];
+
+const PHASE_ENTITY_TYPES: Record<Exclude<RegenerablePhase, 'cosmology'>, GeneratedEntityType> = {
+  factions: 'faction',
+  npcs: 'npc',
+  conflicts: 'conflict',
+  locations: 'location',
+  secrets: 'secret',
+};
+
+export type RegenerationErrorCode = 'NOT_FOUND' | 'INVALID_STATE' | 'AI_ERROR';
+
+export interface RegenerationResult {
+  success: boolean;
+  error?: { code: RegenerationErrorCode; message: string };
+  created: string[];  // Names of the entities added
+  updated: string[];  // Names of the entities rewritten in place
+  removed: string[];  // Names of the entities replaced
+}
+
+export interface AddNpcsOptions {
+  count: number;
+  tier?: 'major' | 'supporting' | 'minor';  // minor when not given
+  locationId?: string;                      // Where they live or work
+  factionId?: string;                       // Who they belong to
+  guidance?: string | null;
+}
+
+export interface ExpandLocationOptions {
+  count: number;
+  guidance?: string | null;
+}
+
+export interface RegeneratePhaseOptions {
+  count?: number;     // How many to generate; as many as are replaced when not given
+  guidance?: string | null;
+}
+
+interface PromptRegeneration {
+  bible: string;
+  guidance?: string | null;
+}
+
+type WorldWithEntities = NonNullable<Awaited<ReturnType<LoreGenerationService['loadWorld']>>>;
+
+function emptyResult(): RegenerationResult {
+  return { success: true, created: [], updated: [], removed: [] };
+}
+
+function failed(code: RegenerationErrorCode, message: string): RegenerationResult {
+  return { ...emptyResult(), success: false, error: { code, message } };
+}
+
 // Safe JSON parse helper to prevent crashes on corrupted data
 function safeJsonParse<T>(json: string | null | undefined, fallback: T): T {
   if (!json) return fallback;
@@ -93,7 +164,7 @@ export class LoreGenerationService {
     const logId = await this.logPhaseStart(campaignId, phase, prompt);
 
     try {
-      const response = await generateContent(prompt);
+      const response = await generateContent(prompt, undefined, { campaignId });
       const parsed = this.parseJsonFromResponse(response);
       const durationMs = Date.now() - startTime;
 
@@ -108,8 +179,8 @@ export class LoreGenerationService {
 
   async generateLore(campaignId: string): Promise<{ success: boolean; error?: string }> {
     try {
-      // Note: Status is now tracked via WorldSeed.generationStatus and loreGenerationQueue
-      // The legacy CampaignLore table is synced at the end via syncToLegacyLore()
+      // Note: Status is tracked via WorldSeed.generationStatus and loreGenerationQueue.
+      // The WorldSeed graph is the campaign's only lore; read it through loreRepository
 
       const campaign = await prisma.campaign.findUnique({
         where: { id: campaignId },
@@ -117,7 +188,6 @@ export class LoreGenerationService {
           characters: {
             select: { backstory: true, name: true, className: true, race: true }
           },
-          lore: true,
           worldSeed: true,
         }
       });
@@ -175,8 +245,6 @@ export class LoreGenerationService {
         this.phase7CoherenceCheck(context)
       );
 
-      await this.syncToLegacyLore(campaignId);
-      
       await loreGenerationQueue.markCompleted(campaignId);
       return { success: true };
 
@@ -187,6 +255,315 @@ export class LoreGenerationService {
     }
   }
 
+  /**
+   * Rewrite one entity in place, with the rest of the world as context. It keeps its id,
+   * tier, discovery state and place in the world; a discovered entity also keeps its name.
+   */
+  async regenerateEntity(
+    campaignId: string,
+    type: GeneratedEntityType,
+    entityId: string,
+    guidance?: string | null
+  ): Promise<RegenerationResult> {
+    return this.withWorld(campaignId, async (world) => {
+      const entity = this.entitiesOf(world, type).find((e) => e.id === entityId);
+      if (!entity) return failed('NOT_FOUND', `No ${type} with id ${entityId} in this world`);
+
+      const discovered = isDiscovered(type, entity);
+      const prompt = buildGenerationPrompt({
+        bible: buildWorldBible(this.toBibleInput(world), [entity.id]),
+        type,
+        count: 1,
+        task: `${type} to replace "${entity.name}", a ${entity.tier} ${type} - keep its place in the world (the factions, locations and conflicts it is tied to) and rewrite the rest`,
+        guidance,
+        rules: [
+          `Keep the tier "${entity.tier}"`,
+          ...(discovered ? [`Keep the name "${entity.name}" - the party already knows it`] : []),
+        ],
+      });
+
+      const [generated] = await this.generateEntities(campaignId, type, prompt);
+      if (!generated) return failed('AI_ERROR', `The AI returned no ${type}`);
+
+      const row = toEntityData(type, generated, entityRefs(world.factions, world.locations));
+      const { data } = row;
+      data.tier = entity.tier;
+      if (discovered) data.name = entity.name;
+      // Keep links the AI dropped
+      if ('factionId' in data && !data.factionId) data.factionId = (entity as { factionId?: string | null }).factionId ?? null;
+      if ('controllingFactionId' in data && !data.controllingFactionId) {
+        data.controllingFactionId = (entity as { controllingFactionId?: string | null }).controllingFactionId ?? null;
+      }
+
+      await this.updateEntity(row, entity.id);
+      return { ...emptyResult(), updated: [data.name] };
+    });
+  }
+
+  /**
+   * Add NPCs to the world, optionally living at a location and belonging to a faction
+   */
+  async addNpcs(campaignId: string, options: AddNpcsOptions): Promise<RegenerationResult> {
+    return this.withWorld(campaignId, async (world) => {
+      const location = options.locationId ? world.locations.find((l: LocationRecord) => l.id === options.locationId) : null;
+      if (options.locationId && !location) return failed('NOT_FOUND', `No location with id ${options.locationId} in this world`);
+      const faction = options.factionId ? world.factions.find((f: FactionRecord) => f.id === options.factionId) : null;
+      if (options.factionId && !faction) return failed('NOT_FOUND', `No faction with id ${options.factionId} in this world`);
+
+      const tier = options.tier ?? 'minor';
+      const ties = [
+        location ? `who live or work in ${location.name} (${location.type})` : '',
+        faction ? `who belong to ${faction.name}` : '',
+      ].filter(Boolean);
+      const prompt = buildGenerationPrompt({
+        bible: buildWorldBible(this.toBibleInput(world)),
+        type: 'npc',
+        count: options.count,
+        task: `new ${tier} NPCs${ties.length > 0 ? ` ${ties.join(' and ')}` : ''}`,
+        guidance: options.guidance,
+        rules: [
+          `Every NPC is ${tier} tier`,
+          ...(location ? [`Give each a reason to be in ${location.name} that ties into its current events or factions`] : []),
+        ],
+      });
+
+      const generated = await this.generateEntities(campaignId, 'npc', prompt);
+      const refs = entityRefs(world.factions, world.locations);
+      const created: string[] = [];
+      for (const npc of generated.slice(0, options.count)) {
+        const data = toNpcData(npc, refs);
+        await prisma.worldNpc.create({
+          data: {
+            worldSeedId: world.id,
+            ...data,
+            tier,
+            factionId: faction?.id ?? data.factionId,
+            primaryLocationId: location?.id ?? null,
+          },
+        });
+        created.push(data.name);
+      }
+      return { ...emptyResult(), created };
+    });
+  }
+
+  /**
+   * Add locations inside an existing one, e.g. a city's districts
+   */
+  async expandLocation(campaignId: string, locationId: string, options: ExpandLocationOptions): Promise<RegenerationResult> {
+    return this.withWorld(campaignId, async (world) => {
+      const location = world.locations.find((l: LocationRecord) => l.id === locationId);
+      if (!location) return failed('NOT_FOUND', `No location with id ${locationId} in this world`);
+
+      const prompt = buildGenerationPrompt({
+        bible: buildWorldBible(this.toBibleInput(world)),
+        type: 'location',
+        count: options.count,
+        task: `new locations inside ${location.name}, a ${location.type} - its districts, quarters or notable sites`,
+        guidance: options.guidance,
+        rules: [
+          `Each one is part of ${location.name} and smaller than it (a city has districts, a district has streets and buildings)`,
+          ...(location.description ? [`Stay true to ${location.name}: ${location.description}`] : []),
+        ],
+      });
+
+      const generated = await this.generateEntities(campaignId, 'location', prompt);
+      const refs = entityRefs(world.factions, world.locations);
+      const created: string[] = [];
+      for (const loc of generated.slice(0, options.count)) {
+        const data = toLocationData(loc, refs);
+        await prisma.worldLocation.create({
+          data: { worldSeedId: world.id, ...data, parentId: location.id },
+        });
+        created.push(data.name);
+      }
+      return { ...emptyResult(), created };
+    });
+  }
+
+  /**
+   * Regenerate one phase and keep everything else. Entities the party has discovered or
+   * learned about are kept; the rest of the phase is replaced by new ones that fit the world.
+   */
+  async regeneratePhase(
+    campaignId: string,
+    phase: RegenerablePhase,
+    options: RegeneratePhaseOptions = {}
+  ): Promise<RegenerationResult> {
+    return this.withWorld(campaignId, async (world) => {
+      const context: GenerationContext = { campaignId, campaignName: '', campaignDescription: '', characterBackstories: [], worldSeedId: world.id };
+
+      if (phase === 'cosmology') {
+        await this.phase1GenerateFoundations(context, {
+          bible: buildWorldBible({ ...this.toBibleInput(world), cosmology: null }),
+          guidance: options.guidance,
+        });
+        return { ...emptyResult(), updated: ['cosmology'] };
+      }
+
+      const type = PHASE_ENTITY_TYPES[phase];
+      const knowledge = await prisma.partyKnowledge.findMany({
+        where: { campaignId, entityType: type },
+        select: { entityId: true },
+      });
+      const { keep, replace } = partitionForRegeneration(
+        type,
+        this.entitiesOf(world, type),
+        knowledge.map((k: { entityId: string }) => k.entityId)
+      );
+
+      const count = options.count ?? replace.length;
+      if (count === 0) {
+        return failed('INVALID_STATE', `Every ${type} is known to the party - regenerate them one at a time instead`);
+      }
+
+      const prompt = buildGenerationPrompt({
+        bible: buildWorldBible(this.toBibleInput(world), replace.map((e) => e.id)),
+        type,
+        count,
+        task: `${phase} for this world`,
+        guidance: options.guidance,
+        rules: keep.length > 0
+          ? [`The ${keep.length} ${phase} in the world bible stay; these complete the set alongside them`]
+          : [],
+      });
+
+      // Generate before touching the world, so a failed call leaves it as it was
+      const generated = (await this.generateEntities(campaignId, type, prompt)).slice(0, count);
+      const refs = entityRefs(world.factions, world.locations);
+      const rows = generated.map((entity) => toEntityData(type, entity, refs));
+
+      await prisma.$transaction([
+        ...this.removalOperations(world.id, type, replace.map((e) => e.id)),
+        ...rows.map((row) => this.createEntity(world.id, row)),
+      ]);
+
+      return {
+        ...emptyResult(),
+        created: rows.map((r) => r.data.name),
+        removed: replace.map((e) => e.name),
+      };
+    });
+  }
+
+  // Load the campaign's finished world and run a regeneration against it
+  private async withWorld(
+    campaignId: string,
+    regenerate: (world: WorldWithEntities) => Promise<RegenerationResult>
+  ): Promise<RegenerationResult> {
+    const world = await this.loadWorld(campaignId);
+    if (!world) return failed('NOT_FOUND', 'This campaign has no world lore');
+    if (world.generationStatus !== 'completed') {
+      return failed('INVALID_STATE', 'Lore generation has not finished for this campaign');
+    }
+
+    try {
+      return await regenerate(world);
+    } catch (error) {
+      return failed('AI_ERROR', error instanceof Error ? error.message : 'Unknown regeneration error');
+    }
+  }
+
+  private async loadWorld(campaignId: string) {
+    return prisma.worldSeed.findUnique({
+      where: { campaignId },
+      include: { cosmology: true, factions: true, npcs: true, locations: true, conflicts: true, secrets: true },
+    });
+  }
+
+  private entitiesOf(world: WorldWithEntities, type: GeneratedEntityType): Array<{ id: string; name: string; tier: string }> {
+    switch (type) {
+      case 'faction': return world.factions;
+      case 'npc': return world.npcs;
+      case 'location': return world.locations;
+      case 'conflict': return world.conflicts;
+      case 'secret': return world.secrets;
+    }
+  }
+
+  private createEntity(worldSeedId: string, row: GeneratedEntityData) {
+    switch (row.type) {
+      case 'faction': return prisma.worldFaction.create({ data: { ...row.data, worldSeedId } });
+      case 'npc': return prisma.worldNpc.create({ data: { ...row.data, worldSeedId } });
+      case 'location': return prisma.worldLocation.create({ data: { ...row.data, worldSeedId } });
+      case 'conflict': return prisma.worldConflict.create({ data: { ...row.data, worldSeedId } });
+      case 'secret': return prisma.worldSecret.create({ data: { ...row.data, worldSeedId } });
+    }
+  }
+
+  // Rewrite an entity in place
+  private updateEntity(row: GeneratedEntityData, id: string) {
+    const where = { id };
+    switch (row.type) {
+      case 'faction': return prisma.worldFaction.update({ where, data: row.data });
+      case 'npc': return prisma.worldNpc.update({ where, data: row.data });
+      case 'location': return prisma.worldLocation.update({ where, data: row.data });
+      case 'conflict': return prisma.worldConflict.update({ where, data: row.data });
+      case 'secret': return prisma.worldSecret.update({ where, data: row.data });
+    }
+  }
+
+  private toBibleInput(world: WorldWithEntities): WorldBibleInput {
+    const magic = safeJsonParse<{ source?: string }>(world.cosmology?.magicSystem, {});
+    return {
+      name: world.name,
+      tone: world.tone,
+      scale: world.scale,
+      coreTensions: safeJsonParse<CoreTension[]>(world.coreTensions, []),
+      cosmology: world.cosmology
+        ? { pantheon: safeJsonParse(world.cosmology.pantheon, []), magicSource: magic.source ?? null }
+        : null,
+      factions: world.factions,
+      npcs: world.npcs,
+      locations: world.locations,
+      conflicts: world.conflicts,
+      secrets: world.secrets,
+    };
+  }
+
+  private async generateEntities(campaignId: string, type: GeneratedEntityType, prompt: string): Promise<Array<Record<string, unknown>>> {
+    const { parsed } = await this.generateWithLogging(campaignId, `regenerate-${type}`, prompt);
+    const entities = parsed[ENTITY_LIST_KEYS[type]];
+    if (!Array.isArray(entities)) {
+      throw new Error(`Failed to parse ${ENTITY_LIST_KEYS[type]} from AI response`);
+    }
+    return entities.filter((e): e is Record<string, unknown> =>
+      Boolean(e) && typeof e === 'object' && typeof (e as Record<string, unknown>).name === 'string'
+    );
+  }
+
+  // Deleting entities: unlink whatever points at them, then drop them and their relationships
+  private removalOperations(worldSeedId: string, type: GeneratedEntityType, ids: string[]) {
+    if (ids.length === 0) return [];
+    const relationships = prisma.worldRelationship.deleteMany({
+      where: { worldSeedId, OR: [{ sourceId: { in: ids } }, { targetId: { in: ids } }] },
+    });
+    const where = { worldSeedId, id: { in: ids } };
+
+    switch (type) {
+      case 'faction':
+        return [
+          relationships,
+          prisma.worldNpc.updateMany({ where: { worldSeedId, factionId: { in: ids } }, data: { factionId: null } }),
+          prisma.worldLocation.updateMany({ where: { worldSeedId, controllingFactionId: { in: ids } }, data: { controllingFactionId: null } }),
+          prisma.worldFaction.deleteMany({ where }),
+        ];
+      case 'npc':
+        return [relationships, prisma.worldNpc.deleteMany({ where })];
+      case 'location':
+        return [
+          relationships,
+          prisma.worldNpc.updateMany({ where: { worldSeedId, primaryLocationId: { in: ids } }, data: { primaryLocationId: null } }),
+          prisma.worldLocation.updateMany({ where: { worldSeedId, parentId: { in: ids } }, data: { parentId: null } }),
+          prisma.worldLocation.deleteMany({ where }),
+        ];
+      case 'conflict':
+        return [prisma.worldConflict.deleteMany({ where })];
+      case 'secret':
+        return [prisma.worldSecret.deleteMany({ where })];
+    }
+  }
+
   private async executePhase(
     campaignId: string,
     phaseName: string,
@@ -261,11 +638,6 @@ export class LoreGenerationService {
     }
   }
 
-  private formatTensionsForPrompt(tensions: CoreTension[]): string {
-    return tensions.map(t => 
-      `- ${t.name}: ${t.description}\n  Sides: ${t.sides.map(s => `${s.name} (${s.stance})`).join(' vs ')}`
-    ).join('\n');
-  }
 
   private async phase0ExtractTensions(context: GenerationContext): Promise<void> {
     const existing = await prisma.worldSeed.findUnique({
@@ -280,14 +652,18 @@ export class LoreGenerationService {
     await tensionExtractor.extractAndSave(context.campaignId);
   }
 
-  private async phase1GenerateFoundations(context: GenerationContext): Promise<void> {
+  private async phase1GenerateFoundations(context: GenerationContext, regeneration?: PromptRegeneration): Promise<void> {
     const worldSeed = await prisma.worldSeed.findUnique({
       where: { campaignId: context.campaignId }
     });
     if (!worldSeed) throw new Error('WorldSeed not found');
 
     const tensions = safeJsonParse<CoreTension[]>(worldSeed.coreTensions, []);
-    const tensionText = this.formatTensionsForPrompt(tensions);
+    const tensionText = formatTensions(tensions);
+    const regenerationText = regeneration
+      ? `\n\nTHE REST OF THE WORLD ALREADY EXISTS - the gods, magic and myths must fit it:\n${regeneration.bible}` +
+        (regeneration.guidance ? `\n\nGM DIRECTION (follow this):\n${regeneration.guidance}` : '')
+      : '';
 
     const prompt = `Generate cosmology and world foundations for this world.
 
@@ -324,9 +700,9 @@ Generate in JSON format:
   ]
 }
 
-IMPORTANT: Gods MUST take sides on the core tensions. The creation story MUST explain why these tensions exist.`;
+IMPORTANT: Gods MUST take sides on the core tensions. The creation story MUST explain why these tensions exist.${regenerationText}`;
 
-    const { parsed } = await this.generateWithLogging(context.campaignId, 'cosmology', prompt);
+    const { parsed } = await this.generateWithLogging(context.campaignId, regeneration ? 'regenerate-cosmology' : 'cosmology', prompt);
 
     await prisma.worldCosmology.upsert({
       where: { worldSeedId: worldSeed.id },
@@ -346,6 +722,7 @@ IMPORTANT: Gods MUST take sides on the core tensions. The creation story MUST ex
         prophecies: JSON.stringify(parsed.prophecies || []),
       },
     });
+    if (regeneration) return;
 
     await prisma.worldSeed.update({
       where: { id: worldSeed.id },
@@ -360,7 +737,7 @@ IMPORTANT: Gods MUST take sides on the core tensions. The creation story MUST ex
     if (!worldSeed) throw new Error('WorldSeed not found');
 
     const tensions = safeJsonParse<CoreTension[]>(worldSeed.coreTensions, []);
-    const tensionText = this.formatTensionsForPrompt(tensions);
+    const tensionText = formatTensions(tensions);
 
     const prompt = `Generate 5-8 factions for this world.
 
@@ -374,23 +751,7 @@ ${tensionText}
 Generate in JSON format:
 {
   "factions": [
-    {
-      "name": "faction name",
-      "type": "guild|religion|government|criminal|military|merchant|academic|secret_society",
-      "tier": "major|supporting|minor",
-      "philosophy": "core belief that drives them",
-      "tensionStances": [
-        {"tensionName": "name of tension", "stance": "their position", "isPublic": true}
-      ],
-      "publicImage": "how public perceives them",
-      "symbol": "visual identifier",
-      "motto": "faction motto",
-      "influence": 7,
-      "resources": ["resource1", "resource2"],
-      "relationships": [
-        {"factionName": "other faction", "type": "ally|enemy|rival|neutral", "reason": "why"}
-      ]
-    }
+${ENTITY_SHAPES.faction}
   ]
 }
 
@@ -410,19 +771,7 @@ RULES:
 
     for (const faction of factions) {
       await prisma.worldFaction.create({
-        data: {
-          worldSeedId: worldSeed.id,
-          name: faction.name as string,
-          type: (faction.type as string) || 'guild',
-          tier: (faction.tier as string) || 'supporting',
-          philosophy: faction.philosophy as string,
-          tensionStances: JSON.stringify(faction.tensionStances || []),
-          publicImage: faction.publicImage as string,
-          symbol: faction.symbol as string,
-          motto: faction.motto as string,
-          influence: (faction.influence as number) || 5,
-          resources: JSON.stringify(faction.resources || []),
-        }
+        data: { worldSeedId: worldSeed.id, ...toFactionData(faction) },
       });
     }
 
@@ -440,7 +789,7 @@ RULES:
     if (!worldSeed) throw new Error('WorldSeed not found');
 
     const tensions = safeJsonParse<CoreTension[]>(worldSeed.coreTensions, []);
-    const tensionText = this.formatTensionsForPrompt(tensions);
+    const tensionText = formatTensions(tensions);
     const factionList = worldSeed.factions.map(f => `${f.name} (${f.type}, ${f.tier})`).join(', ');
 
     const prompt = `Generate 10-15 NPCs for this world.
@@ -456,33 +805,7 @@ EXISTING FACTIONS: ${factionList}
 Generate in JSON format:
 {
   "npcs": [
-    {
-      "name": "full name",
-      "race": "Human, Elf, etc.",
-      "occupation": "their role",
-      "tier": "major|supporting|minor",
-      "appearance": "brief physical description",
-      "personality": {
-        "traits": ["trait1", "trait2"],
-        "ideals": ["ideal"],
-        "bonds": ["bond"],
-        "flaws": ["flaw"]
-      },
-      "speakingStyle": "how they talk",
-      "publicGoal": "what they appear to want",
-      "privateGoal": "what they actually want",
-      "fears": ["fear1"],
-      "tensionRole": [
-        {"tensionName": "tension name", "role": "champion|moderate|opposed|neutral", "commitment": "defining|strong|moderate|weak"}
-      ],
-      "factionAffiliation": "faction name or null",
-      "factionRank": "rank in faction",
-      "knowledgeScope": {
-        "knows": ["what they know"],
-        "suspects": ["what they suspect"],
-        "ignorantOf": ["what they don't know"]
-      }
-    }
+${ENTITY_SHAPES.npc}
   ]
 }
 
@@ -501,35 +824,10 @@ RULES:
       throw new Error('Failed to parse NPCs from AI response');
     }
 
+    const refs = entityRefs(worldSeed.factions);
     for (const npc of npcs) {
-      const factionName = npc.factionAffiliation as string;
-      let factionId: string | null = null;
-      
-      if (factionName) {
-        const faction = worldSeed.factions.find(f => 
-          f.name.toLowerCase() === factionName.toLowerCase()
-        );
-        if (faction) factionId = faction.id;
-      }
-
       await prisma.worldNpc.create({
-        data: {
-          worldSeedId: worldSeed.id,
-          name: npc.name as string,
-          race: npc.race as string,
-          occupation: npc.occupation as string,
-          tier: (npc.tier as string) || 'minor',
-          appearance: npc.appearance as string,
-          personality: JSON.stringify(npc.personality || {}),
-          speakingStyle: npc.speakingStyle as string,
-          publicGoal: npc.publicGoal as string,
-          privateGoal: npc.privateGoal as string,
-          fears: JSON.stringify(npc.fears || []),
-          tensionRole: JSON.stringify(npc.tensionRole || []),
-          factionId,
-          factionRank: npc.factionRank as string,
-          knowledgeScope: JSON.stringify(npc.knowledgeScope || {}),
-        }
+        data: { worldSeedId: worldSeed.id, ...toNpcData(npc, refs) },
       });
     }
 
@@ -547,7 +845,7 @@ RULES:
     if (!worldSeed) throw new Error('WorldSeed not found');
 
     const tensions = safeJsonParse<CoreTension[]>(worldSeed.coreTensions, []);
-    const tensionText = this.formatTensionsForPrompt(tensions);
+    const tensionText = formatTensions(tensions);
     const factionList = worldSeed.factions.map(f => f.name).join(', ');
     const npcList = worldSeed.npcs.map(n => `${n.name} (${n.occupation})`).join(', ');
 
@@ -565,22 +863,7 @@ KEY NPCS: ${npcList}
 Generate in JSON format:
 {
   "conflicts": [
-    {
-      "name": "conflict name",
-      "type": "war|political|economic|religious|personal|ideological",
-      "tier": "major|supporting|minor",
-      "scope": "local|regional|continental",
-      "status": "brewing|active|climax",
-      "rootTension": "which core tension this manifests",
-      "triggerEvent": "what started or will start this",
-      "sides": [
-        {"name": "side name", "factions": ["faction names"], "npcs": ["npc names"], "goals": "what they want"}
-      ],
-      "stakes": "what's at risk",
-      "publicNarrative": "what people think is happening",
-      "trueNature": "what's actually happening",
-      "possibleOutcomes": ["outcome1", "outcome2"]
-    }
+${ENTITY_SHAPES.conflict}
   ]
 }
 
@@ -601,21 +884,7 @@ RULES:
 
     for (const conflict of conflicts) {
       await prisma.worldConflict.create({
-        data: {
-          worldSeedId: worldSeed.id,
-          name: conflict.name as string,
-          type: (conflict.type as string) || 'political',
-          tier: (conflict.tier as string) || 'supporting',
-          scope: (conflict.scope as string) || 'regional',
-          status: (conflict.status as string) || 'brewing',
-          rootTension: conflict.rootTension as string,
-          triggerEvent: conflict.triggerEvent as string,
-          sides: JSON.stringify(conflict.sides || []),
-          stakes: conflict.stakes as string,
-          publicNarrative: conflict.publicNarrative as string,
-          trueNature: conflict.trueNature as string,
-          possibleOutcomes: JSON.stringify(conflict.possibleOutcomes || []),
-        }
+        data: { worldSeedId: worldSeed.id, ...toConflictData(conflict) },
       });
     }
 
@@ -633,7 +902,7 @@ RULES:
     if (!worldSeed) throw new Error('WorldSeed not found');
 
     const tensions = safeJsonParse<CoreTension[]>(worldSeed.coreTensions, []);
-    const tensionText = this.formatTensionsForPrompt(tensions);
+    const tensionText = formatTensions(tensions);
     const factionList = worldSeed.factions.map(f => `${f.name} (influence: ${f.influence})`).join(', ');
     const conflictList = worldSeed.conflicts.map(c => c.name).join(', ');
 
@@ -652,23 +921,7 @@ CONFLICTS: ${conflictList}
 Generate in JSON format:
 {
   "locations": [
-    {
-      "name": "location name",
-      "type": "continent|nation|region|city|town|landmark|dungeon|ruins",
-      "tier": "major|supporting|minor",
-      "description": "general description",
-      "atmosphere": "mood/feel",
-      "terrain": "geographic type",
-      "climate": "weather patterns",
-      "mapCoordinates": {"x": 0, "y": 0},
-      "controllingFaction": "faction name or null",
-      "contestedBy": ["other factions contesting control"],
-      "sensoryDetails": {"sights": "...", "sounds": "...", "smells": "..."},
-      "population": {"size": "large/medium/small", "demographics": "who lives here"},
-      "landmarks": ["notable features"],
-      "currentEvents": ["what's happening now"],
-      "rumors": ["local rumors"]
-    }
+${ENTITY_SHAPES.location}
   ]
 }
 
@@ -687,36 +940,10 @@ RULES:
       throw new Error('Failed to parse locations from AI response');
     }
 
+    const refs = entityRefs(worldSeed.factions);
     for (const loc of locations) {
-      const controllingFactionName = loc.controllingFaction as string;
-      let controllingFactionId: string | null = null;
-      
-      if (controllingFactionName) {
-        const faction = worldSeed.factions.find(f => 
-          f.name.toLowerCase() === controllingFactionName.toLowerCase()
-        );
-        if (faction) controllingFactionId = faction.id;
-      }
-
       await prisma.worldLocation.create({
-        data: {
-          worldSeedId: worldSeed.id,
-          name: loc.name as string,
-          type: (loc.type as string) || 'city',
-          tier: (loc.tier as string) || 'minor',
-          description: loc.description as string,
-          atmosphere: loc.atmosphere as string,
-          terrain: loc.terrain as string,
-          climate: loc.climate as string,
-          mapCoordinates: JSON.stringify(loc.mapCoordinates || {}),
-          controllingFactionId,
-          contestedBy: JSON.stringify(loc.contestedBy || []),
-          sensoryDetails: JSON.stringify(loc.sensoryDetails || {}),
-          population: JSON.stringify(loc.population || {}),
-          landmarks: JSON.stringify(loc.landmarks || []),
-          currentEvents: JSON.stringify(loc.currentEvents || []),
-          rumors: JSON.stringify(loc.rumors || []),
-        }
+        data: { worldSeedId: worldSeed.id, ...toLocationData(loc, refs) },
       });
     }
 
@@ -734,7 +961,7 @@ RULES:
     if (!worldSeed) throw new Error('WorldSeed not found');
 
     const tensions = safeJsonParse<CoreTension[]>(worldSeed.coreTensions, []);
-    const tensionText = this.formatTensionsForPrompt(tensions);
+    const tensionText = formatTensions(tensions);
 
     const prompt = `Generate 8-12 secrets for this world.
 
@@ -752,29 +979,7 @@ CONFLICTS: ${worldSeed.conflicts.map(c => c.name).join(', ')}
 Generate in JSON format:
 {
   "secrets": [
-    {
-      "name": "internal reference name",
-      "type": "identity|history|prophecy|location|betrayal|conspiracy",
-      "tier": "major|supporting|minor",
-      "content": "the actual secret",
-      "implications": "why this matters",
-      "tensionImpact": [
-        {"tensionName": "which tension", "howItChanges": "how revealing this would shift the balance"}
-      ],
-      "knownBy": [
-        {"entityType": "npc|faction", "entityName": "who knows", "wouldTell": false}
-      ],
-      "hints": [
-        {"hint": "clue that points to this", "whereFound": "location or npc", "obviousness": "subtle|moderate|obvious"}
-      ],
-      "discoveryConditions": ["what would reveal this"],
-      "revealTriggers": ["events that could expose this"],
-      "onReveal": {
-        "narrative": "what happens story-wise",
-        "effects": ["mechanical effects"],
-        "relationshipChanges": ["how relationships shift"]
-      }
-    }
+${ENTITY_SHAPES.secret}
   ]
 }
 
@@ -784,7 +989,10 @@ RULES:
 - Include 2-3 MINOR secrets
 - Secrets MUST have tensionImpact showing how they relate to core conflicts
 - Secrets MUST connect multiple entities (NPCs, factions, locations)
-- Each secret should have at least 2 hints scattered across the world`;
+- Each secret should have at least 2 hints scattered across the world
+- Give 2-4 discoveryConditions per secret; each one met hands the party the next hint, subtle first
+- Prefer checkable conditions (location_visited, npc_met, flag_set, check_succeeded) naming the exact entities above
+- revealTriggers are rarer than discoveryConditions - most secrets should surface through the DM once every lead is found`;
 
     const { parsed } = await this.generateWithLogging(context.campaignId, 'secrets', prompt);
     const secrets = parsed.secrets as Array<Record<string, unknown>>;
@@ -795,20 +1003,7 @@ RULES:
 
     for (const secret of secrets) {
       await prisma.worldSecret.create({
-        data: {
-          worldSeedId: worldSeed.id,
-          name: secret.name as string,
-          type: (secret.type as string) || 'conspiracy',
-          tier: (secret.tier as string) || 'supporting',
-          content: secret.content as string,
-          implications: secret.implications as string,
-          tensionImpact: JSON.stringify(secret.tensionImpact || []),
-          knownBy: JSON.stringify(secret.knownBy || []),
-          hints: JSON.stringify(secret.hints || []),
-          discoveryConditions: JSON.stringify(secret.discoveryConditions || []),
-          revealTriggers: JSON.stringify(secret.revealTriggers || []),
-          onReveal: JSON.stringify(secret.onReveal || {}),
-        }
+        data: { worldSeedId: worldSeed.id, ...toSecretData(secret) },
       });
     }
 
@@ -840,201 +1035,6 @@ RULES:
       },
     });
   }
-
-  private async syncToLegacyLore(campaignId: string): Promise<void> {
-    const worldSeed = await prisma.worldSeed.findUnique({
-      where: { campaignId },
-      include: {
-        cosmology: true,
-        factions: true,
-        npcs: true,
-        locations: true,
-        conflicts: true,
-        secrets: true,
-      }
-    });
-    if (!worldSeed) return;
-
-    let lore = await prisma.campaignLore.findUnique({
-      where: { campaignId }
-    });
-
-    if (!lore) {
-      lore = await prisma.campaignLore.create({
-        data: {
-          campaignId,
-          generationStatus: 'completed',
-          worldName: worldSeed.name,
-          tone: worldSeed.tone,
-          themes: worldSeed.themes,
-          cosmology: worldSeed.cosmology ? JSON.stringify({
-            gods: JSON.parse(worldSeed.cosmology.pantheon),
-            magicSystem: JSON.parse(worldSeed.cosmology.magicSystem),
-          }) : '{}',
-        }
-      });
-    } else {
-      await prisma.campaignLore.update({
-        where: { id: lore.id },
-        data: {
-          generationStatus: 'completed',
-          worldName: worldSeed.name,
-          tone: worldSeed.tone,
-          themes: worldSeed.themes,
-          cosmology: worldSeed.cosmology ? JSON.stringify({
-            gods: JSON.parse(worldSeed.cosmology.pantheon),
-            magicSystem: JSON.parse(worldSeed.cosmology.magicSystem),
-          }) : '{}',
-        }
-      });
-    }
-
-    for (const faction of worldSeed.factions) {
-      await prisma.loreFaction.upsert({
-        where: { id: faction.id },
-        create: {
-          id: faction.id,
-          campaignLoreId: lore.id,
-          name: faction.name,
-          type: faction.type,
-          importance: faction.tier === 'major' ? 'major' : faction.tier === 'supporting' ? 'supporting' : 'minor',
-          tier: faction.tier,
-          publicImage: faction.publicImage,
-          philosophy: faction.philosophy,
-          tensionStances: faction.tensionStances,
-          symbol: faction.symbol,
-          motto: faction.motto,
-          influence: faction.influence,
-          resources: faction.resources,
-          isDiscovered: faction.isDiscovered,
-          discoveredAt: faction.discoveredAt,
-        },
-        update: {
-          name: faction.name,
-          type: faction.type,
-          tier: faction.tier,
-          tensionStances: faction.tensionStances,
-        },
-      });
-    }
-
-    for (const npc of worldSeed.npcs) {
-      await prisma.loreNpc.upsert({
-        where: { id: npc.id },
-        create: {
-          id: npc.id,
-          campaignLoreId: lore.id,
-          name: npc.name,
-          role: npc.occupation || 'unknown',
-          importance: npc.tier === 'major' ? 'major' : npc.tier === 'supporting' ? 'supporting' : 'minor',
-          tier: npc.tier,
-          personality: npc.personality,
-          speakingStyle: npc.speakingStyle,
-          publicGoal: npc.publicGoal,
-          secretGoal: npc.privateGoal,
-          fears: npc.fears,
-          tensionStances: '[]',
-          tensionRole: npc.tensionRole,
-          race: npc.race,
-          appearance: npc.appearance,
-          isDiscovered: npc.isDiscovered,
-          discoveredAt: npc.discoveredAt,
-        },
-        update: {
-          name: npc.name,
-          tier: npc.tier,
-          tensionRole: npc.tensionRole,
-        },
-      });
-    }
-
-    for (const loc of worldSeed.locations) {
-      await prisma.loreLocation.upsert({
-        where: { id: loc.id },
-        create: {
-          id: loc.id,
-          campaignLoreId: lore.id,
-          name: loc.name,
-          locationType: loc.type,
-          importance: loc.tier === 'major' ? 'major' : loc.tier === 'supporting' ? 'supporting' : 'minor',
-          tier: loc.tier,
-          description: loc.description,
-          atmosphere: loc.atmosphere,
-          terrain: loc.terrain,
-          climate: loc.climate,
-          mapCoordinates: loc.mapCoordinates,
-          sensoryDetails: loc.sensoryDetails,
-          currentEvents: loc.currentEvents,
-          isDiscovered: loc.isDiscovered,
-          discoveredAt: loc.discoveredAt,
-          explorationLevel: loc.explorationLevel,
-        },
-        update: {
-          name: loc.name,
-          tier: loc.tier,
-          mapCoordinates: loc.mapCoordinates,
-          explorationLevel: loc.explorationLevel,
-        },
-      });
-    }
-
-    for (const conflict of worldSeed.conflicts) {
-      await prisma.loreConflict.upsert({
-        where: { id: conflict.id },
-        create: {
-          id: conflict.id,
-          campaignLoreId: lore.id,
-          name: conflict.name,
-          type: conflict.type,
-          scope: conflict.scope,
-          importance: conflict.tier === 'major' ? 'major' : conflict.tier === 'supporting' ? 'supporting' : 'minor',
-          tier: conflict.tier,
-          rootTension: conflict.rootTension,
-          participants: conflict.sides,
-          stakes: conflict.stakes,
-          publicKnowledge: conflict.publicNarrative,
-          trueNature: conflict.trueNature,
-          currentState: conflict.status,
-          possibleOutcomes: conflict.possibleOutcomes,
-          isDiscovered: conflict.isDiscovered,
-          discoveredAt: conflict.discoveredAt,
-        },
-        update: {
-          name: conflict.name,
-          tier: conflict.tier,
-          rootTension: conflict.rootTension,
-        },
-      });
-    }
-
-    for (const secret of worldSeed.secrets) {
-      await prisma.loreSecret.upsert({
-        where: { id: secret.id },
-        create: {
-          id: secret.id,
-          campaignLoreId: lore.id,
-          name: secret.name,
-          type: secret.type,
-          importance: secret.tier === 'major' ? 'major' : secret.tier === 'supporting' ? 'supporting' : 'minor',
-          tier: secret.tier,
-          content: secret.content,
-          implications: secret.implications,
-          tensionImpact: secret.tensionImpact,
-          hints: secret.hints,
-          discoveryConditions: secret.discoveryConditions,
-          revealImpact: JSON.stringify(JSON.parse(secret.onReveal || '{}')),
-          isRevealed: secret.isRevealed,
-          isDiscovered: false,
-          discoveredAt: secret.revealedAt,
-        },
-        update: {
-          name: secret.name,
-          tier: secret.tier,
-          tensionImpact: secret.tensionImpact,
-        },
-      });
-    }
-  }
 }
 
 export const loreGenerationService = new LoreGenerationService();
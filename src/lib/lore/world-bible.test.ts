@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { buildGenerationPrompt, buildWorldBible, partitionForRegeneration } from './world-bible';
+import type { WorldBibleInput } from './world-bible';
+
+function saltreach(): WorldBibleInput {
+  return {
+    name: 'Saltreach',
+    tone: 'gritty',
+    scale: 'regional',
+    coreTensions: [{
+      name: 'Salt and Crown',
+      description: 'Who owns the salt',
+      sides: [{ name: 'Guild', stance: 'free trade' }, { name: 'Crown', stance: 'royal monopoly' }],
+    }] as WorldBibleInput['coreTensions'],
+    cosmology: { pantheon: [{ name: 'Thalassa', domain: 'the sea' }, { domain: 'nameless' }], magicSource: 'Brine' },
+    factions: [{ id: 'f-1', name: 'Salt Guild', type: 'guild', tier: 'major', philosophy: 'Salt is freedom' }],
+    locations: [
+      { id: 'l-1', name: 'Brinemouth', type: 'city', tier: 'major', parentId: null, controllingFactionId: 'f-1' },
+      { id: 'l-2', name: 'The Old Pier', type: 'district', tier: 'minor', parentId: 'l-1' },
+    ],
+    npcs: [
+      { id: 'n-1', name: 'Marta Vell', tier: 'major', race: 'human', occupation: 'harbormaster', factionId: 'f-1', primaryLocationId: 'l-1' },
+      { id: 'n-2', name: 'Old Tobin', tier: 'minor' },
+    ],
+    conflicts: [{ id: 'c-1', name: 'The Salt War', type: 'economic', tier: 'major', status: 'brewing', rootTension: 'Salt and Crown' }],
+    secrets: [{ id: 's-1', name: 'The Drowned Ledger', tier: 'major', content: 'The Crown forged the charters' }],
+  };
+}
+
+describe('world bible', () => {
+  it('should summarize every entity with the names it connects to', () => {
+    const bible = buildWorldBible(saltreach());
+
+    expect(bible).toContain('WORLD: Saltreach\n\nTONE: gritty\nSCALE: regional');
+    expect(bible).toContain('- Salt and Crown: Who owns the salt\n  Sides: Guild (free trade) vs Crown (royal monopoly)');
+    expect(bible).toContain('COSMOLOGY:\nGods: Thalassa (the sea)\nMagic comes from: Brine');
+    expect(bible).toContain('- Salt Guild (guild, major): Salt is freedom');
+    expect(bible).toContain('- Brinemouth (city, major), held by Salt Guild');
+    expect(bible).toContain('- The Old Pier (district, minor) in Brinemouth');
+    expect(bible).toContain('- Marta Vell (major, human harbormaster) - Salt Guild, at Brinemouth');
+    expect(bible).toContain('- Old Tobin (minor)\n');
+    expect(bible).toContain('- The Salt War (economic, major, brewing): Salt and Crown');
+    expect(bible).toContain('- The Drowned Ledger (major): The Crown forged the charters');
+  });
+
+  it('should leave out the entities being replaced', () => {
+    const bible = buildWorldBible(saltreach(), ['n-1', 'l-2']);
+
+    expect(bible).not.toContain('Marta Vell');
+    expect(bible).not.toContain('The Old Pier');
+    // Still named where other entities point at it
+    expect(bible).toContain('- Brinemouth (city, major), held by Salt Guild');
+  });
+
+  it('should ask for entities in the full generation shape, with the GM\'s direction', () => {
+    const prompt = buildGenerationPrompt({
+      bible: 'WORLD: Saltreach',
+      type: 'npc',
+      count: 5,
+      task: 'new minor NPCs who live or work in Brinemouth (city)',
+      guidance: 'More smugglers',
+      rules: ['Every NPC is minor tier'],
+    });
+
+    expect(prompt).toMatch(/^Generate 5 new minor NPCs who live or work in Brinemouth \(city\)\./);
+    expect(prompt).toContain('WORLD BIBLE:\nWORLD: Saltreach\n\nGM DIRECTION (follow this):\nMore smugglers\n');
+    expect(prompt).toContain('  "npcs": [\n    {\n      "name": "full name",');
+    expect(prompt).toContain('- Do not reuse any name from the world bible\n- Every NPC is minor tier');
+  });
+
+  it('should keep what the party has discovered or learned about', () => {
+    const npcs = [
+      { id: 'n-1', name: 'Marta Vell', isDiscovered: true },
+      { id: 'n-2', name: 'Old Tobin', isDiscovered: false },
+      { id: 'n-3', name: 'Sela', isDiscovered: false },
+    ];
+    const { keep, replace } = partitionForRegeneration('npc', npcs, ['n-3']);
+    expect(keep.map((n) => n.id)).toEqual(['n-1', 'n-3']);
+    expect(replace.map((n) => n.id)).toEqual(['n-2']);
+
+    // A secret counts once revealed, not when merely discovered
+    const secrets = [{ id: 's-1', name: 'Ledger', isDiscovered: true, isRevealed: false }];
+    expect(partitionForRegeneration('secret', secrets, []).replace).toHaveLength(1);
+  });
+});
@@ -0,0 +1,153 @@
+// World Bible - a compact summary of everything a campaign's world already has, sent with
+// every regeneration prompt so new content stays consistent with it, plus the rules for
+// what a regeneration may replace. Pure functions; LoreGenerationService does the I/O.
+
+import type { CoreTension } from '@/lib/world';
+import { isDiscovered } from '@/lib/world/party-knowledge';
+import { ENTITY_LIST_KEYS, ENTITY_SHAPES } from './generated-entities';
+import type { GeneratedEntityType } from './generated-entities';
+
+export interface WorldBibleInput {
+  name: string | null;
+  tone: string;
+  scale?: string | null;
+  coreTensions: CoreTension[];
+  cosmology?: {
+    pantheon: Array<{ name?: string; domain?: string }>;
+    magicSource?: string | null;
+  } | null;
+  factions: Array<{ id: string; name: string; type: string; tier: string; philosophy?: string | null }>;
+  npcs: Array<{
+    id: string;
+    name: string;
+    tier: string;
+    race?: string | null;
+    occupation?: string | null;
+    factionId?: string | null;
+    primaryLocationId?: string | null;
+  }>;
+  locations: Array<{ id: string; name: string; type: string; tier: string; parentId?: string | null; controllingFactionId?: string | null }>;
+  conflicts: Array<{ id: string; name: string; type: string; tier: string; status: string; rootTension?: string | null }>;
+  secrets: Array<{ id: string; name: string; tier: string; content: string }>;
+}
+
+export interface GenerationPromptParams {
+  bible: string;
+  type: GeneratedEntityType;
+  count: number;
+  task: string;               // What to generate, e.g. "new minor NPCs who work in Brinemouth"
+  guidance?: string | null;   // The GM's direction
+  rules?: string[];
+}
+
+// What a regeneration keeps and what it may throw away
+export interface RegenerationPartition<T> {
+  keep: T[];
+  replace: T[];
+}
+
+export function formatTensions(tensions: CoreTension[]): string {
+  return tensions.map(t =>
+    `- ${t.name}: ${t.description}\n  Sides: ${t.sides.map(s => `${s.name} (${s.stance})`).join(' vs ')}`
+  ).join('\n');
+}
+
+/**
+ * Summarize the world for a prompt: tone, tensions, and one line per entity with the
+ * names it connects to. Entities in `omit` (ids) are left out, e.g. the one being rewritten.
+ */
+export function buildWorldBible(world: WorldBibleInput, omit: string[] = []): string {
+  const names = new Map<string, string>();
+  [...world.factions, ...world.locations].forEach((e) => names.set(e.id, e.name));
+  const nameOf = (id: string | null | undefined) => (id ? names.get(id) ?? null : null);
+  const keep = <T extends { id: string }>(entities: T[]) => entities.filter((e) => !omit.includes(e.id));
+
+  const sections = [
+    `WORLD: ${world.name ?? 'Unnamed'}`,
+    `TONE: ${world.tone}${world.scale ? `\nSCALE: ${world.scale}` : ''}`,
+  ];
+
+  if (world.coreTensions.length > 0) {
+    sections.push(`CORE TENSIONS:\n${formatTensions(world.coreTensions)}`);
+  }
+
+  if (world.cosmology) {
+    const gods = world.cosmology.pantheon
+      .filter((g) => g.name)
+      .map((g) => (g.domain ? `${g.name} (${g.domain})` : g.name));
+    const lines = [
+      gods.length > 0 ? `Gods: ${gods.join(', ')}` : '',
+      world.cosmology.magicSource ? `Magic comes from: ${world.cosmology.magicSource}` : '',
+    ].filter(Boolean);
+    if (lines.length > 0) sections.push(`COSMOLOGY:\n${lines.join('\n')}`);
+  }
+
+  const list = (title: string, lines: string[]) => {
+    if (lines.length > 0) sections.push(`${title}:\n${lines.map((l) => `- ${l}`).join('\n')}`);
+  };
+
+  list('FACTIONS', keep(world.factions).map((f) =>
+    `${f.name} (${f.type}, ${f.tier})${f.philosophy ? `: ${f.philosophy}` : ''}`
+  ));
+  list('LOCATIONS', keep(world.locations).map((l) => {
+    const parent = nameOf(l.parentId);
+    const ruler = nameOf(l.controllingFactionId);
+    return `${l.name} (${l.type}, ${l.tier})${parent ? ` in ${parent}` : ''}${ruler ? `, held by ${ruler}` : ''}`;
+  }));
+  list('NPCS', keep(world.npcs).map((n) => {
+    const who = [n.race, n.occupation].filter(Boolean).join(' ');
+    const ties = [nameOf(n.factionId), nameOf(n.primaryLocationId) && `at ${nameOf(n.primaryLocationId)}`].filter(Boolean);
+    return `${n.name} (${n.tier}${who ? `, ${who}` : ''})${ties.length > 0 ? ` - ${ties.join(', ')}` : ''}`;
+  }));
+  list('CONFLICTS', keep(world.conflicts).map((c) =>
+    `${c.name} (${c.type}, ${c.tier}, ${c.status})${c.rootTension ? `: ${c.rootTension}` : ''}`
+  ));
+  list('SECRETS', keep(world.secrets).map((s) => `${s.name} (${s.tier}): ${s.content}`));
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Prompt for `count` new entities of one type, in the same JSON shape full generation uses
+ */
+export function buildGenerationPrompt(params: GenerationPromptParams): string {
+  const key = ENTITY_LIST_KEYS[params.type];
+  const rules = [
+    'Everything in the world bible already exists - new content must fit it and must not contradict it',
+    'Refer to existing factions, NPCs and locations by their exact names',
+    'Do not reuse any name from the world bible',
+    ...(params.rules ?? []),
+  ];
+
+  return `Generate ${params.count} ${params.task}.
+
+WORLD BIBLE:
+${params.bible}
+${params.guidance ? `\nGM DIRECTION (follow this):\n${params.guidance}\n` : ''}
+Generate in JSON format:
+{
+  "${key}": [
+${ENTITY_SHAPES[params.type]}
+  ]
+}
+
+RULES:
+${rules.map((r) => `- ${r}`).join('\n')}`;
+}
+
+/**
+ * Split a phase's entities into those a regeneration must keep - anything the party has
+ * discovered or learned something about (`knownIds`) - and those it may replace
+ */
+export function partitionForRegeneration<T extends { id: string }>(
+  type: GeneratedEntityType,
+  entities: T[],
+  knownIds: string[]
+): RegenerationPartition<T> {
+  const partition: RegenerationPartition<T> = { keep: [], replace: [] };
+  entities.forEach((entity) => {
+    const known = isDiscovered(type, entity as Record<string, unknown>) || knownIds.includes(entity.id);
+    (known ? partition.keep : partition.replace).push(entity);
+  });
+  return partition;
+}
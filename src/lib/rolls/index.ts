@@ -0,0 +1,13 @@
+// src/lib/rolls/index.ts
+export { rollLedger, RollLedger, type LedgerRoll, type RollHistoryQuery, type RollHistoryEntry } from './roll-ledger';
+export {
+  buildRollLogEntry,
+  computeRollStats,
+  describeRollReason,
+  findRollerRef,
+  verifyRollLogEntry,
+  DM_ROLLER,
+  type RollLogEntry,
+  type RollStats,
+  type D20Stats,
+} from './roll-log';
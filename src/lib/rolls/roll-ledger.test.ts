@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { RollLedger } from './roll-ledger';
+import { buildRollLogEntry, verifyRollLogEntry } from './roll-log';
+import type { RollLogEntry } from './roll-log';
+import { diceEngine, DiceEngine } from '@/lib/engine/dice-engine';
+import { SeededRandom } from '@/lib/engine/seeded-random';
+import type { DieRoll } from '@/lib/engine/types';
+
+// In-memory stand-in for the game state and roll log. Every query yields first, so
+// overlapping rolls interleave the way they would against the database.
+const db = vi.hoisted(() => {
+  const gameState = { id: 'state-1', campaignId: 'campaign-1', rngSeed: 0, rngState: 0 as number | null };
+  const rollLogs: Array<{ sessionId: string | null; dice: string; rngState: number | null }> = [];
+  const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  const prisma = {
+    gameState: {
+      async findUnique({ where }: { where: { campaignId: string } }) {
+        await tick();
+        return where.campaignId === gameState.campaignId ? { ...gameState } : null;
+      },
+      async update({ data }: { data: Partial<typeof gameState> }) {
+        await tick();
+        return Object.assign(gameState, data);
+      },
+    },
+    rollLog: {
+      async create({ data }: { data: (typeof rollLogs)[number] }) {
+        await tick();
+        rollLogs.push(data);
+        return data;
+      },
+    },
+    $transaction: (operations: Promise<unknown>[]) => Promise.all(operations),
+  };
+
+  return { prisma, gameState, rollLogs };
+});
+
+vi.mock('@/lib/db', () => ({ prisma: db.prisma }));
+vi.mock('@/lib/session', () => ({
+  sessionService: { getActiveSession: async () => ({ id: 'session-1' }) },
+}));
+
+const CAMPAIGN = 'campaign-1';
+const SEED = 20260301;
+
+function describeRoll(value: number[], dice: DieRoll[], rngState: number): RollLogEntry {
+  return buildRollLogEntry({
+    functionName: 'roll_dice',
+    args: { notation: `${dice.length}d20` },
+    roller: 'Marta',
+    dice,
+    result: { total: value.reduce((sum, die) => sum + die, 0) },
+    summary: `Rolled ${value.join(', ')}`,
+    rngState,
+  });
+}
+
+// The d20s the campaign's stream produces from its seed, in order
+function streamD20s(count: number): { values: number[]; state: number } {
+  const stream = new SeededRandom(SEED);
+  const values = new DiceEngine(stream.next).rollDice(count, 20);
+  return { values, state: stream.getState() };
+}
+
+describe('RollLedger', () => {
+  let ledger: RollLedger;
+
+  beforeEach(() => {
+    Object.assign(db.gameState, { rngSeed: SEED, rngState: SEED });
+    db.rollLogs.length = 0;
+    ledger = new RollLedger();
+  });
+
+  it('should give overlapping rolls distinct dice in stream order', async () => {
+    const rolls = await Promise.all([
+      ledger.roll(CAMPAIGN, () => diceEngine.rollDice(2, 20), describeRoll),
+      ledger.roll(CAMPAIGN, () => diceEngine.rollDice(2, 20), describeRoll),
+      ledger.roll(CAMPAIGN, () => diceEngine.rollDice(2, 20), describeRoll),
+    ]);
+
+    const expected = streamD20s(6);
+    expect(rolls.map((roll) => roll.value)).toEqual([
+      expected.values.slice(0, 2),
+      expected.values.slice(2, 4),
+      expected.values.slice(4, 6),
+    ]);
+    expect(db.gameState.rngState).toBe(expected.state);
+  });
+
+  it('should log each roll with the stream position it started from', async () => {
+    await Promise.all([
+      ledger.roll(CAMPAIGN, () => diceEngine.rollDice(1, 20), describeRoll),
+      ledger.roll(CAMPAIGN, () => diceEngine.rollDice(3, 20), describeRoll),
+    ]);
+
+    const logged = db.rollLogs.map((row) => ({ dice: JSON.parse(row.dice) as DieRoll[], rngState: row.rngState }));
+    expect(logged.map((entry) => entry.dice.length)).toEqual([1, 3]);
+    expect(logged[0].rngState).toBe(SEED);
+    expect(logged.every(verifyRollLogEntry)).toBe(true);
+    expect(db.rollLogs.every((row) => row.sessionId === 'session-1')).toBe(true);
+  });
+
+  it('should keep rolling after a roll fails', async () => {
+    const failing = ledger.roll(CAMPAIGN, () => {
+      diceEngine.rollDie(20);
+      throw new Error('Invalid dice notation');
+    }, describeRoll);
+    const next = ledger.roll(CAMPAIGN, () => diceEngine.rollDice(1, 20), describeRoll);
+
+    await expect(failing).rejects.toThrow('Invalid dice notation');
+    // The failed roll saved nothing, so the next one draws from the same position
+    const expected = streamD20s(1);
+    expect((await next).value).toEqual(expected.values);
+    expect(db.gameState.rngState).toBe(expected.state);
+    expect(db.rollLogs).toHaveLength(1);
+  });
+});
@@ -0,0 +1,190 @@
+// src/lib/rolls/roll-ledger.ts
+import { prisma } from '@/lib/db';
+import { sessionService } from '@/lib/session';
+import { diceEngine } from '@/lib/engine/dice-engine';
+import { SeededRandom, createSeed } from '@/lib/engine/seeded-random';
+import type { DieRoll } from '@/lib/engine/types';
+import { computeRollStats, verifyRollLogEntry } from './roll-log';
+import type { RollLogEntry, RollStats } from './roll-log';
+
+type RollLogRow = NonNullable<Awaited<ReturnType<typeof prisma.rollLog.findFirst>>>;
+
+export interface RollHistoryQuery {
+  roller?: string;
+  sessionId?: string;
+  before?: Date;    // Page backwards from here
+  limit?: number;
+}
+
+export interface RollHistoryEntry extends RollLogEntry {
+  id: string;
+  sessionId: string | null;
+  verified: boolean;   // Replaying the stream reproduces these dice
+}
+
+const DEFAULT_HISTORY_LIMIT = 50;
+const MAX_HISTORY_LIMIT = 500;
+
+function parseJson<T>(raw: string | null, fallback: T): T {
+  if (!raw) return fallback;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+function toHistoryEntry(row: RollLogRow): RollHistoryEntry {
+  const entry: RollLogEntry = {
+    roller: row.roller,
+    reason: row.reason,
+    functionName: row.functionName,
+    functionArgs: parseJson<Record<string, unknown> | null>(row.functionArgs, null),
+    dice: parseJson<DieRoll[]>(row.dice, []),
+    total: row.total,
+    summary: row.summary,
+    rngState: row.rngState,
+    timestamp: row.createdAt.toISOString(),
+  };
+
+  return { ...entry, id: row.id, sessionId: row.sessionId, verified: verifyRollLogEntry(entry) };
+}
+
+export interface LedgerRoll<T> {
+  value: T;
+  dice: DieRoll[];   // In the order rolled
+}
+
+/**
+ * RollLedger gives each campaign its own seeded dice stream and keeps an audit
+ * trail of every roll made from it.
+ */
+export class RollLedger {
+  // The last roll queued for each campaign; the next one waits for it to finish
+  private queues = new Map<string, Promise<unknown>>();
+
+  /**
+   * Roll from the campaign's dice stream and record it, one roll at a time per campaign.
+   * Each roll reads the stream's position, runs `fn` (synchronously) with its dice and saves
+   * the new position with the ledger entry before the next roll starts, so overlapping
+   * requests never draw the same dice or overwrite each other's position. `describe`
+   * builds the entry from what was rolled; a roll that drew no dice saves nothing.
+   */
+  async roll<T>(
+    campaignId: string,
+    fn: () => T,
+    describe: (value: T, dice: DieRoll[], rngState: number) => RollLogEntry
+  ): Promise<LedgerRoll<T>> {
+    return this.serialize(campaignId, async () => {
+      const stream = await this.openStream(campaignId);
+      const rngState = stream.getState();
+      const { value, dice } = diceEngine.capture(stream.next, fn);
+      if (dice.length > 0) {
+        await this.record(campaignId, describe(value, dice, rngState), stream);
+      }
+      return { value, dice };
+    });
+  }
+
+  private serialize<T>(campaignId: string, task: () => Promise<T>): Promise<T> {
+    const run = (this.queues.get(campaignId) ?? Promise.resolve()).then(task);
+    const settled = run.catch(() => undefined);
+    this.queues.set(campaignId, settled);
+    void settled.then(() => {
+      if (this.queues.get(campaignId) === settled) this.queues.delete(campaignId);
+    });
+    return run;
+  }
+
+  /**
+   * Resume the campaign's dice stream, seeding it on first use. Falls back to an
+   * unsaved stream if the game state can't be read.
+   */
+  private async openStream(campaignId: string): Promise<SeededRandom> {
+    try {
+      const gameState = await prisma.gameState.findUnique({ where: { campaignId } });
+      if (!gameState) return new SeededRandom(createSeed());
+      if (gameState.rngState !== null) return new SeededRandom(gameState.rngState);
+
+      const seed = createSeed();
+      await prisma.gameState.update({
+        where: { id: gameState.id },
+        data: { rngSeed: seed, rngState: seed },
+      });
+      return new SeededRandom(seed);
+    } catch (error) {
+      console.error('Failed to open dice stream:', error);
+      return new SeededRandom(createSeed());
+    }
+  }
+
+  /**
+   * Save a roll to the ledger, tagged with the open session, and the stream's new position.
+   * Failures are logged rather than thrown - the roll has already happened.
+   */
+  private async record(campaignId: string, entry: RollLogEntry, stream: SeededRandom): Promise<void> {
+    try {
+      const session = await sessionService.getActiveSession(campaignId);
+
+      await prisma.$transaction([
+        prisma.rollLog.create({
+          data: {
+            campaignId,
+            sessionId: session?.id ?? null,
+            roller: entry.roller,
+            reason: entry.reason,
+            functionName: entry.functionName,
+            functionArgs: entry.functionArgs ? JSON.stringify(entry.functionArgs) : null,
+            dice: JSON.stringify(entry.dice),
+            total: entry.total,
+            summary: entry.summary,
+            rngState: entry.rngState,
+            createdAt: new Date(entry.timestamp),
+          },
+        }),
+        prisma.gameState.update({
+          where: { campaignId },
+          data: { rngState: stream.getState() },
+        }),
+      ]);
+    } catch (error) {
+      console.error('Failed to record roll:', error);
+    }
+  }
+
+  /**
+   * A campaign's rolls, newest first
+   */
+  async getHistory(campaignId: string, query: RollHistoryQuery = {}): Promise<RollHistoryEntry[]> {
+    const rows = await prisma.rollLog.findMany({
+      where: {
+        campaignId,
+        ...(query.roller ? { roller: query.roller } : {}),
+        ...(query.sessionId ? { sessionId: query.sessionId } : {}),
+        ...(query.before ? { createdAt: { lt: query.before } } : {}),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: Math.min(query.limit ?? DEFAULT_HISTORY_LIMIT, MAX_HISTORY_LIMIT),
+    });
+
+    return rows.map(toHistoryEntry);
+  }
+
+  /**
+   * d20 statistics over a campaign's whole ledger (or one session)
+   */
+  async getStats(campaignId: string, sessionId?: string): Promise<RollStats> {
+    const rows = await prisma.rollLog.findMany({
+      where: { campaignId, ...(sessionId ? { sessionId } : {}) },
+      select: { roller: true, dice: true },
+    });
+
+    return computeRollStats(rows.map((row: Pick<RollLogRow, 'roller' | 'dice'>) => ({
+      roller: row.roller,
+      dice: parseJson<DieRoll[]>(row.dice, []),
+    })));
+  }
+}
+
+// Default singleton instance
+export const rollLedger = new RollLedger();
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findRollerRef,
+  describeRollReason,
+  buildRollLogEntry,
+  verifyRollLogEntry,
+  computeRollStats,
+  DM_ROLLER,
+} from './roll-log';
+import { DiceEngine } from '@/lib/engine/dice-engine';
+import { SeededRandom } from '@/lib/engine/seeded-random';
+
+describe('roll log', () => {
+  describe('findRollerRef', () => {
+    it('should prefer the attacker, then the caster, then the character', () => {
+      expect(findRollerRef({ attacker_id: 'Thorin', character_id: 'Goblin' })).toBe('Thorin');
+      expect(findRollerRef({ caster_id: 'Elara' })).toBe('Elara');
+      expect(findRollerRef({ character_id: 'Pip' })).toBe('Pip');
+      expect(findRollerRef({ notation: '1d20' })).toBeNull();
+    });
+  });
+
+  describe('describeRollReason', () => {
+    it('should use the most descriptive argument', () => {
+      expect(describeRollReason('roll_dice', { notation: '1d20', reason: 'Luck' })).toBe('Luck');
+      expect(describeRollReason('roll_check', { skill: 'stealth' })).toBe('roll_check: stealth');
+      expect(describeRollReason('roll_initiative', {})).toBe('roll_initiative');
+    });
+  });
+
+  describe('buildRollLogEntry', () => {
+    it('should take the total from the result when there is one', () => {
+      const now = new Date('2026-01-01T00:00:00Z');
+      const entry = buildRollLogEntry({
+        functionName: 'roll_dice',
+        args: { notation: '1d20' },
+        roller: 'Thorin',
+        dice: [{ sides: 20, value: 14 }],
+        result: { total: 14 },
+        summary: '🎲 1d20 = 14',
+        rngState: 7,
+        now,
+      });
+
+      expect(entry).toMatchObject({ roller: 'Thorin', reason: 'roll_dice', total: 14, timestamp: now.toISOString() });
+      expect(buildRollLogEntry({ ...entry, functionName: 'roll_attack', args: {}, result: { hit: true } }).total).toBeNull();
+    });
+  });
+
+  describe('verifyRollLogEntry', () => {
+    it('should accept dice that replay from the stream and reject altered ones', () => {
+      const stream = new SeededRandom(2024);
+      const rngState = stream.getState();
+      const engine = new DiceEngine(stream.next);
+      const dice = [{ sides: 20, value: engine.rollDie(20) }, { sides: 8, value: engine.rollDie(8) }];
+
+      expect(verifyRollLogEntry({ dice, rngState })).toBe(true);
+      expect(verifyRollLogEntry({ dice: [{ ...dice[0], value: dice[0].value % 20 + 1 }, dice[1]], rngState })).toBe(false);
+      expect(verifyRollLogEntry({ dice, rngState: null })).toBe(false);
+    });
+  });
+
+  describe('computeRollStats', () => {
+    it('should count d20 faces, crits and fumbles overall and per roller', () => {
+      const stats = computeRollStats([
+        { roller: 'Thorin', dice: [{ sides: 20, value: 20 }, { sides: 8, value: 5 }] },
+        { roller: 'Thorin', dice: [{ sides: 20, value: 1 }] },
+        { roller: null, dice: [{ sides: 20, value: 12 }, { sides: 20, value: 20 }] },
+      ]);
+
+      expect(stats.totalRolls).toBe(3);
+      expect(stats.d20).toMatchObject({ rolls: 4, crits: 2, fumbles: 1, critRate: 0.5, fumbleRate: 0.25, average: 13.25 });
+      expect(stats.d20.distribution[11]).toBe(1);
+      expect(stats.byRoller.Thorin).toMatchObject({ totalRolls: 2, d20: { rolls: 2, average: 10.5 } });
+      expect(stats.byRoller[DM_ROLLER].d20.crits).toBe(1);
+    });
+
+    it('should report zero rates with no d20s', () => {
+      expect(computeRollStats([]).d20).toMatchObject({ rolls: 0, average: 0, critRate: 0, fumbleRate: 0 });
+    });
+  });
+});
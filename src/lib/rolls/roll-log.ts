@@ -0,0 +1,156 @@
+// src/lib/rolls/roll-log.ts
+// Roll ledger entries, replay checks and statistics - no database access, so it can be unit tested
+
+import { DiceEngine } from '@/lib/engine/dice-engine';
+import { SeededRandom } from '@/lib/engine/seeded-random';
+import type { DieRoll } from '@/lib/engine/types';
+
+export interface RollLogEntry {
+  roller: string | null;                          // Character or combatant who rolled
+  reason: string | null;
+  functionName: string | null;                    // AI function call that made the roll
+  functionArgs: Record<string, unknown> | null;
+  dice: DieRoll[];                                // In the order rolled
+  total: number | null;
+  summary: string;                                // Display text shown to the players
+  rngState: number | null;                        // Stream position before the first die
+  timestamp: string;                              // ISO 8601
+}
+
+export interface D20Stats {
+  rolls: number;
+  distribution: number[];   // Count of each face, index 0 = natural 1
+  average: number;
+  crits: number;            // Natural 20s
+  fumbles: number;          // Natural 1s
+  critRate: number;
+  fumbleRate: number;
+}
+
+export interface RollStats {
+  totalRolls: number;
+  d20: D20Stats;
+  byRoller: Record<string, { totalRolls: number; d20: D20Stats }>;
+}
+
+// The argument naming who is rolling, in order of preference
+const ROLLER_ARGS = ['attacker_id', 'caster_id', 'medic_id', 'character_id'];
+
+// The argument that best says what a roll was for
+const REASON_ARGS = ['reason', 'skill', 'ability', 'weapon', 'spell_name', 'damage_type', 'outcome'];
+
+// Rolls nobody in particular made (damage, initiative, the DM's own dice)
+export const DM_ROLLER = 'DM';
+
+/**
+ * Who made the rolls in a function call, as the AI referred to them
+ */
+export function findRollerRef(args: Record<string, unknown>): string | null {
+  for (const key of ROLLER_ARGS) {
+    if (typeof args[key] === 'string' && args[key]) return args[key] as string;
+  }
+  return null;
+}
+
+/**
+ * What the rolls in a function call were for, e.g. "stealth" or "roll_damage"
+ */
+export function describeRollReason(functionName: string, args: Record<string, unknown>): string {
+  for (const key of REASON_ARGS) {
+    if (typeof args[key] === 'string' && args[key]) {
+      return key === 'reason' ? (args[key] as string) : `${functionName}: ${args[key]}`;
+    }
+  }
+  return functionName;
+}
+
+/**
+ * A ledger entry for a function call that rolled dice
+ */
+export function buildRollLogEntry(params: {
+  functionName: string;
+  args: Record<string, unknown>;
+  roller: string | null;
+  dice: DieRoll[];
+  result: unknown;
+  summary: string;
+  rngState: number | null;
+  now?: Date;
+}): RollLogEntry {
+  const total = params.result && typeof params.result === 'object' && typeof (params.result as { total?: unknown }).total === 'number'
+    ? (params.result as { total: number }).total
+    : null;
+
+  return {
+    roller: params.roller,
+    reason: describeRollReason(params.functionName, params.args),
+    functionName: params.functionName,
+    functionArgs: params.args,
+    dice: params.dice,
+    total,
+    summary: params.summary,
+    rngState: params.rngState,
+    timestamp: (params.now ?? new Date()).toISOString(),
+  };
+}
+
+/**
+ * Replay an entry's dice from its recorded stream position. False means the
+ * dice don't match what the stream produces - the roll was altered.
+ */
+export function verifyRollLogEntry(entry: Pick<RollLogEntry, 'dice' | 'rngState'>): boolean {
+  if (entry.rngState === null) return false;
+
+  const replay = new DiceEngine(new SeededRandom(entry.rngState).next);
+  return entry.dice.every((die) => replay.rollDie(die.sides) === die.value);
+}
+
+function d20Stats(dice: DieRoll[]): D20Stats {
+  const distribution = new Array<number>(20).fill(0);
+  let sum = 0;
+  let rolls = 0;
+
+  for (const die of dice) {
+    if (die.sides !== 20) continue;
+    distribution[die.value - 1]++;
+    sum += die.value;
+    rolls++;
+  }
+
+  const rate = (count: number) => (rolls > 0 ? Math.round((count / rolls) * 1000) / 1000 : 0);
+  return {
+    rolls,
+    distribution,
+    average: rolls > 0 ? Math.round((sum / rolls) * 100) / 100 : 0,
+    crits: distribution[19],
+    fumbles: distribution[0],
+    critRate: rate(distribution[19]),
+    fumbleRate: rate(distribution[0]),
+  };
+}
+
+/**
+ * d20 statistics for the whole ledger and for each roller
+ */
+export function computeRollStats(entries: Pick<RollLogEntry, 'roller' | 'dice'>[]): RollStats {
+  const byRollerDice = new Map<string, { totalRolls: number; dice: DieRoll[] }>();
+
+  for (const entry of entries) {
+    const roller = entry.roller ?? DM_ROLLER;
+    const group = byRollerDice.get(roller) ?? { totalRolls: 0, dice: [] };
+    group.totalRolls++;
+    group.dice.push(...entry.dice);
+    byRollerDice.set(roller, group);
+  }
+
+  const byRoller: RollStats['byRoller'] = {};
+  byRollerDice.forEach((group, roller) => {
+    byRoller[roller] = { totalRolls: group.totalRolls, d20: d20Stats(group.dice) };
+  });
+
+  return {
+    totalRolls: entries.length,
+    d20: d20Stats(entries.flatMap((e) => e.dice)),
+    byRoller,
+  };
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { RulesCompendium, compendium, toRulesKey, parseChallengeRating, formatChallengeRating } from './compendium';
+import { loadSrdData } from './data';
+
+describe('RulesCompendium', () => {
+  describe('toRulesKey', () => {
+    it('should normalize names to hyphenated keys', () => {
+      expect(toRulesKey('Dire Wolf')).toBe('dire-wolf');
+      expect(toRulesKey("Hunter's Mark")).toBe('hunters-mark');
+      expect(toRulesKey('  Potion of Healing ')).toBe('potion-of-healing');
+      expect(toRulesKey('Weapon, +1')).toBe('weapon-1');
+    });
+  });
+
+  describe('challenge ratings', () => {
+    it('should parse fractional and numeric CRs', () => {
+      expect(parseChallengeRating('1/4')).toBe(0.25);
+      expect(parseChallengeRating('0.5')).toBe(0.5);
+      expect(parseChallengeRating('5')).toBe(5);
+      expect(parseChallengeRating(2)).toBe(2);
+      expect(parseChallengeRating('abc')).toBeNull();
+    });
+
+    it('should format fractional CRs', () => {
+      expect(formatChallengeRating(0.125)).toBe('1/8');
+      expect(formatChallengeRating(0.25)).toBe('1/4');
+      expect(formatChallengeRating(3)).toBe('3');
+    });
+  });
+
+  describe('bundled data', () => {
+    it('should have unique names within each category', () => {
+      const data = loadSrdData();
+      for (const entries of [data.monsters, data.spells, data.conditions, data.equipment, data.magicItems, data.classes]) {
+        const keys = entries.map((e) => toRulesKey(e.name));
+        expect(new Set(keys).size).toBe(keys.length);
+      }
+    });
+
+    it('should have parseable hit dice for every monster', () => {
+      for (const monster of loadSrdData().monsters) {
+        expect(monster.hitDice).toMatch(/^\d+d\d+([+-]\d+)?$/);
+      }
+    });
+  });
+
+  describe('lookups', () => {
+    it('should find entries by name regardless of formatting', () => {
+      expect(compendium.getMonster('Goblin')?.armorClass).toBe(15);
+      expect(compendium.getMonster('dire wolf')?.hitPoints).toBe(37);
+      expect(compendium.getSpell('fireball')?.level).toBe(3);
+      expect(compendium.getSpell("hunter's mark")?.concentration).toBe(true);
+      expect(compendium.getCondition('Poisoned')?.name).toBe('Poisoned');
+      expect(compendium.getEquipment('longsword')?.weapon?.versatileDamage).toBe('1d10');
+      expect(compendium.getMagicItem('Bag of Holding')?.rarity).toBe('uncommon');
+      expect(compendium.getClass('wizard')?.hitDie).toBe(6);
+    });
+
+    it('should return null for unknown entries', () => {
+      expect(compendium.getMonster('tarrasque-prime')).toBeNull();
+      expect(compendium.getSpell('')).toBeNull();
+    });
+  });
+
+  describe('search', () => {
+    it('should rank exact and prefix matches first', () => {
+      const results = compendium.search({ query: 'gob' });
+      expect(results[0].name).toBe('Goblin');
+      expect(results[0].kind).toBe('monster');
+    });
+
+    it('should tolerate typos', () => {
+      const results = compendium.search({ query: 'fireblal', kinds: ['spell'] });
+      expect(results[0]?.name).toBe('Fireball');
+    });
+
+    it('should filter monsters by challenge rating', () => {
+      const results = compendium.search({ challengeRating: 0.25, limit: 100 });
+      expect(results.length).toBeGreaterThan(0);
+      for (const result of results) {
+        expect(result.kind).toBe('monster');
+        expect(compendium.getMonster(result.key)?.challengeRating).toBe(0.25);
+      }
+    });
+
+    it('should filter monsters by CR range', () => {
+      const results = compendium.search({ minChallengeRating: 5, maxChallengeRating: 10, limit: 100 });
+      const names = results.map((r) => r.name);
+      expect(names).toContain('Troll');
+      expect(names).toContain('Young Red Dragon');
+      expect(names).not.toContain('Goblin');
+    });
+
+    it('should combine spell filters', () => {
+      const results = compendium.search({ school: 'evocation', level: 3, className: 'wizard', limit: 100 });
+      const names = results.map((r) => r.name);
+      expect(names).toContain('Fireball');
+      expect(names).toContain('Lightning Bolt');
+      expect(names).not.toContain('Spirit Guardians');
+      expect(results.every((r) => r.kind === 'spell')).toBe(true);
+    });
+
+    it('should respect the result limit', () => {
+      expect(compendium.search({ limit: 3 })).toHaveLength(3);
+    });
+
+    it('should search injected data', () => {
+      const custom = new RulesCompendium({
+        monsters: [],
+        spells: [],
+        conditions: [{ name: 'Bewildered', description: 'Custom condition', effects: [] }],
+        equipment: [],
+        magicItems: [],
+        classes: [],
+      });
+      expect(custom.getCondition('bewildered')?.description).toBe('Custom condition');
+      expect(custom.getMonster('goblin')).toBeNull();
+    });
+  });
+});
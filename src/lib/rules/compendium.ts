@@ -0,0 +1,328 @@
+/**
+ * Rules Compendium
+ *
+ * Indexed, in-memory access to the bundled SRD data. Lookups are synchronous
+ * so the function executor and combat setup can use them without a network.
+ */
+
+import type { MonsterStatBlock } from '@/lib/engine/types';
+import { loadSrdData } from './data';
+import type {
+  ClassDefinition,
+  CompendiumData,
+  CompendiumKind,
+  CompendiumSearchQuery,
+  CompendiumSearchResult,
+  ConditionDefinition,
+  EquipmentDefinition,
+  MagicItemDefinition,
+  SpellDefinition,
+} from './types';
+
+const ALL_KINDS: CompendiumKind[] = ['monster', 'spell', 'condition', 'equipment', 'magic_item'];
+const MIN_FUZZY_SCORE = 0.4;
+const DEFAULT_SEARCH_LIMIT = 20;
+
+/**
+ * Normalize a name to the compendium key format ("Hunter's Mark" -> "hunters-mark")
+ */
+export function toRulesKey(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Parse a challenge rating like "1/4", "0.25" or 2
+ */
+export function parseChallengeRating(value: string | number): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  const fraction = value.trim().match(/^(\d+)\s*\/\s*(\d+)$/);
+  if (fraction) return parseInt(fraction[1]) / parseInt(fraction[2]);
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+export function formatChallengeRating(cr: number): string {
+  if (cr === 0.125) return '1/8';
+  if (cr === 0.25) return '1/4';
+  if (cr === 0.5) return '1/2';
+  return String(cr);
+}
+
+function ordinal(level: number): string {
+  if (level === 1) return '1st';
+  if (level === 2) return '2nd';
+  if (level === 3) return '3rd';
+  return `${level}th`;
+}
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Score how well a query matches an entry key (0 = no match, 1 = exact)
+ */
+function fuzzyScore(queryKey: string, entryKey: string): number {
+  if (!queryKey) return 1;
+  if (queryKey === entryKey) return 1;
+  if (entryKey.startsWith(queryKey)) return 0.9;
+
+  const words = entryKey.split('-');
+  if (words.some(word => word.startsWith(queryKey))) return 0.8;
+  if (entryKey.includes(queryKey)) return 0.7;
+
+  // Typo tolerance against the whole key and each word
+  const candidates = [entryKey, ...words];
+  let best = 0;
+  for (const candidate of candidates) {
+    const distance = levenshtein(queryKey, candidate);
+    const similarity = 1 - distance / Math.max(queryKey.length, candidate.length);
+    best = Math.max(best, similarity);
+  }
+  return best >= 0.6 ? best * 0.7 : 0;
+}
+
+interface CompendiumIndex {
+  monsters: Map<string, MonsterStatBlock>;
+  spells: Map<string, SpellDefinition>;
+  conditions: Map<string, ConditionDefinition>;
+  equipment: Map<string, EquipmentDefinition>;
+  magicItems: Map<string, MagicItemDefinition>;
+  classes: Map<string, ClassDefinition>;
+  monstersByCr: Map<number, string[]>;
+  spellsByLevel: Map<number, string[]>;
+  spellsBySchool: Map<string, string[]>;
+  spellsByClass: Map<string, string[]>;
+}
+
+function addToBucket<K>(buckets: Map<K, string[]>, bucket: K, key: string): void {
+  const existing = buckets.get(bucket);
+  if (existing) {
+    existing.push(key);
+  } else {
+    buckets.set(bucket, [key]);
+  }
+}
+
+export class RulesCompendium {
+  private data: CompendiumData;
+  private index: CompendiumIndex | null = null;
+
+  constructor(data?: CompendiumData) {
+    this.data = data ?? loadSrdData();
+  }
+
+  /**
+   * Build the lookup indexes on first use
+   */
+  private load(): CompendiumIndex {
+    if (this.index) return this.index;
+
+    const index: CompendiumIndex = {
+      monsters: new Map(),
+      spells: new Map(),
+      conditions: new Map(),
+      equipment: new Map(),
+      magicItems: new Map(),
+      classes: new Map(),
+      monstersByCr: new Map(),
+      spellsByLevel: new Map(),
+      spellsBySchool: new Map(),
+      spellsByClass: new Map(),
+    };
+
+    for (const monster of this.data.monsters) {
+      const key = toRulesKey(monster.name);
+      index.monsters.set(key, monster);
+      addToBucket(index.monstersByCr, monster.challengeRating, key);
+    }
+
+    for (const spell of this.data.spells) {
+      const key = toRulesKey(spell.name);
+      index.spells.set(key, spell);
+      addToBucket(index.spellsByLevel, spell.level, key);
+      addToBucket(index.spellsBySchool, spell.school, key);
+      for (const className of spell.classes) {
+        addToBucket(index.spellsByClass, className.toLowerCase(), key);
+      }
+    }
+
+    for (const condition of this.data.conditions) {
+      index.conditions.set(toRulesKey(condition.name), condition);
+    }
+    for (const item of this.data.equipment) {
+      index.equipment.set(toRulesKey(item.name), item);
+    }
+    for (const item of this.data.magicItems) {
+      index.magicItems.set(toRulesKey(item.name), item);
+    }
+    for (const definition of this.data.classes) {
+      index.classes.set(toRulesKey(definition.name), definition);
+    }
+
+    this.index = index;
+    return index;
+  }
+
+  getMonster(name: string): MonsterStatBlock | null {
+    return this.load().monsters.get(toRulesKey(name)) ?? null;
+  }
+
+  getSpell(name: string): SpellDefinition | null {
+    return this.load().spells.get(toRulesKey(name)) ?? null;
+  }
+
+  getCondition(name: string): ConditionDefinition | null {
+    return this.load().conditions.get(toRulesKey(name)) ?? null;
+  }
+
+  getEquipment(name: string): EquipmentDefinition | null {
+    return this.load().equipment.get(toRulesKey(name)) ?? null;
+  }
+
+  getMagicItem(name: string): MagicItemDefinition | null {
+    return this.load().magicItems.get(toRulesKey(name)) ?? null;
+  }
+
+  getClass(name: string): ClassDefinition | null {
+    return this.load().classes.get(toRulesKey(name)) ?? null;
+  }
+
+  /**
+   * Search across the compendium with fuzzy name matching and filters.
+   * Monster filters (CR) and spell filters (school, level, class) restrict
+   * results to that kind.
+   */
+  search(query: CompendiumSearchQuery = {}): CompendiumSearchResult[] {
+    const index = this.load();
+    const queryKey = query.query ? toRulesKey(query.query) : '';
+    const hasMonsterFilter = query.challengeRating !== undefined
+      || query.minChallengeRating !== undefined
+      || query.maxChallengeRating !== undefined;
+    const hasSpellFilter = query.school !== undefined
+      || query.level !== undefined
+      || query.className !== undefined;
+
+    let kinds = query.kinds?.length ? query.kinds : ALL_KINDS;
+    if (hasMonsterFilter) kinds = kinds.filter(kind => kind === 'monster');
+    if (hasSpellFilter) kinds = kinds.filter(kind => kind === 'spell');
+
+    const results: CompendiumSearchResult[] = [];
+    const consider = (kind: CompendiumKind, key: string, name: string, summary: string) => {
+      const score = fuzzyScore(queryKey, key);
+      if (score >= MIN_FUZZY_SCORE) {
+        results.push({ kind, key, name, score: Math.round(score * 100) / 100, summary });
+      }
+    };
+
+    for (const kind of kinds) {
+      switch (kind) {
+        case 'monster':
+          for (const key of this.filterMonsterKeys(index, query)) {
+            const monster = index.monsters.get(key)!;
+            consider(kind, key, monster.name, this.summarizeMonster(monster));
+          }
+          break;
+        case 'spell':
+          for (const key of this.filterSpellKeys(index, query)) {
+            const spell = index.spells.get(key)!;
+            consider(kind, key, spell.name, this.summarizeSpell(spell));
+          }
+          break;
+        case 'condition':
+          for (const [key, condition] of Array.from(index.conditions)) {
+            consider(kind, key, condition.name, condition.description);
+          }
+          break;
+        case 'equipment':
+          for (const [key, item] of Array.from(index.equipment)) {
+            consider(kind, key, item.name, this.summarizeEquipment(item));
+          }
+          break;
+        case 'magic_item':
+          for (const [key, item] of Array.from(index.magicItems)) {
+            consider(kind, key, item.name, this.summarizeMagicItem(item));
+          }
+          break;
+      }
+    }
+
+    results.sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+    return results.slice(0, query.limit ?? DEFAULT_SEARCH_LIMIT);
+  }
+
+  private filterMonsterKeys(index: CompendiumIndex, query: CompendiumSearchQuery): string[] {
+    if (query.challengeRating !== undefined) {
+      return index.monstersByCr.get(query.challengeRating) ?? [];
+    }
+
+    const min = query.minChallengeRating ?? -Infinity;
+    const max = query.maxChallengeRating ?? Infinity;
+    const keys: string[] = [];
+    for (const [cr, bucket] of Array.from(index.monstersByCr)) {
+      if (cr >= min && cr <= max) keys.push(...bucket);
+    }
+    return keys;
+  }
+
+  private filterSpellKeys(index: CompendiumIndex, query: CompendiumSearchQuery): string[] {
+    const buckets: string[][] = [];
+    if (query.level !== undefined) buckets.push(index.spellsByLevel.get(query.level) ?? []);
+    if (query.school !== undefined) buckets.push(index.spellsBySchool.get(query.school) ?? []);
+    if (query.className !== undefined) buckets.push(index.spellsByClass.get(query.className.toLowerCase()) ?? []);
+
+    if (buckets.length === 0) return Array.from(index.spells.keys());
+
+    // Intersect the filter buckets
+    const [first, ...rest] = buckets;
+    return first.filter(key => rest.every(bucket => bucket.includes(key)));
+  }
+
+  private summarizeMonster(monster: MonsterStatBlock): string {
+    return `CR ${formatChallengeRating(monster.challengeRating)} ${monster.size} ${monster.type}, AC ${monster.armorClass}, HP ${monster.hitPoints}`;
+  }
+
+  private summarizeSpell(spell: SpellDefinition): string {
+    const school = spell.school.charAt(0).toUpperCase() + spell.school.slice(1);
+    const level = spell.level === 0 ? `${school} cantrip` : `${ordinal(spell.level)}-level ${spell.school}`;
+    return `${level} (${spell.classes.join(', ')})`;
+  }
+
+  private summarizeEquipment(item: EquipmentDefinition): string {
+    if (item.weapon) {
+      const { category, range, damage } = item.weapon;
+      return `${category.charAt(0).toUpperCase() + category.slice(1)} ${range} weapon, ${damage.dice} ${damage.type}`;
+    }
+    if (item.armor) {
+      if (item.armor.category === 'shield') return `Shield, +${item.armor.baseAc} AC`;
+      return `${item.armor.category.charAt(0).toUpperCase() + item.armor.category.slice(1)} armor, AC ${item.armor.baseAc}`;
+    }
+    return item.description ?? (item.category === 'tool' ? 'Tool' : 'Adventuring gear');
+  }
+
+  private summarizeMagicItem(item: MagicItemDefinition): string {
+    const rarity = item.rarity.charAt(0).toUpperCase() + item.rarity.slice(1);
+    return `${rarity} ${item.type}${item.requiresAttunement ? ' (requires attunement)' : ''}`;
+  }
+}
+
+// Default singleton instance backed by the bundled SRD data
+export const compendium = new RulesCompendium();
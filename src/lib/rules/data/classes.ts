@@ -0,0 +1,345 @@
+/**
+ * SRD Classes
+ *
+ * Class progression tables from the 5e SRD: hit dice, spellcasting type,
+ * multiclass prerequisites and the features gained at each level.
+ */
+
+import type { ClassDefinition, SpellcastingProgression } from '../types';
+
+const ASI = 'Ability Score Improvement';
+
+export const SRD_CLASSES: ClassDefinition[] = [
+  {
+    name: 'Barbarian', hitDie: 12, savingThrows: ['strength', 'constitution'],
+    spellcasting: 'none', subclassLevel: 3,
+    multiclassPrerequisites: { abilities: ['strength'] },
+    features: {
+      1: ['Rage', 'Unarmored Defense'],
+      2: ['Reckless Attack', 'Danger Sense'],
+      3: ['Primal Path'],
+      4: [ASI],
+      5: ['Extra Attack', 'Fast Movement'],
+      6: ['Path Feature'],
+      7: ['Feral Instinct'],
+      8: [ASI],
+      9: ['Brutal Critical (1 die)'],
+      10: ['Path Feature'],
+      11: ['Relentless Rage'],
+      12: [ASI],
+      13: ['Brutal Critical (2 dice)'],
+      14: ['Path Feature'],
+      15: ['Persistent Rage'],
+      16: [ASI],
+      17: ['Brutal Critical (3 dice)'],
+      18: ['Indomitable Might'],
+      19: [ASI],
+      20: ['Primal Champion'],
+    },
+  },
+  {
+    name: 'Bard', hitDie: 8, savingThrows: ['dexterity', 'charisma'],
+    spellcasting: 'full', spellcastingAbility: 'charisma', subclassLevel: 3,
+    multiclassPrerequisites: { abilities: ['charisma'] },
+    features: {
+      1: ['Spellcasting', 'Bardic Inspiration (d6)'],
+      2: ['Jack of All Trades', 'Song of Rest (d6)'],
+      3: ['Bard College', 'Expertise'],
+      4: [ASI],
+      5: ['Bardic Inspiration (d8)', 'Font of Inspiration'],
+      6: ['Countercharm', 'Bard College Feature'],
+      8: [ASI],
+      9: ['Song of Rest (d8)'],
+      10: ['Bardic Inspiration (d10)', 'Expertise', 'Magical Secrets'],
+      12: [ASI],
+      13: ['Song of Rest (d10)'],
+      14: ['Magical Secrets', 'Bard College Feature'],
+      15: ['Bardic Inspiration (d12)'],
+      16: [ASI],
+      17: ['Song of Rest (d12)'],
+      18: ['Magical Secrets'],
+      19: [ASI],
+      20: ['Superior Inspiration'],
+    },
+  },
+  {
+    name: 'Cleric', hitDie: 8, savingThrows: ['wisdom', 'charisma'],
+    spellcasting: 'full', spellcastingAbility: 'wisdom', preparesSpells: true, subclassLevel: 1,
+    multiclassPrerequisites: { abilities: ['wisdom'] },
+    features: {
+      1: ['Spellcasting', 'Divine Domain'],
+      2: ['Channel Divinity (1/rest)', 'Divine Domain Feature'],
+      4: [ASI],
+      5: ['Destroy Undead (CR 1/2)'],
+      6: ['Channel Divinity (2/rest)', 'Divine Domain Feature'],
+      8: [ASI, 'Destroy Undead (CR 1)', 'Divine Domain Feature'],
+      10: ['Divine Intervention'],
+      11: ['Destroy Undead (CR 2)'],
+      12: [ASI],
+      14: ['Destroy Undead (CR 3)'],
+      16: [ASI],
+      17: ['Destroy Undead (CR 4)', 'Divine Domain Feature'],
+      18: ['Channel Divinity (3/rest)'],
+      19: [ASI],
+      20: ['Divine Intervention Improvement'],
+    },
+  },
+  {
+    name: 'Druid', hitDie: 8, savingThrows: ['intelligence', 'wisdom'],
+    spellcasting: 'full', spellcastingAbility: 'wisdom', preparesSpells: true, subclassLevel: 2,
+    multiclassPrerequisites: { abilities: ['wisdom'] },
+    features: {
+      1: ['Druidic', 'Spellcasting'],
+      2: ['Wild Shape', 'Druid Circle'],
+      4: ['Wild Shape Improvement', ASI],
+      6: ['Druid Circle Feature'],
+      8: ['Wild Shape Improvement', ASI],
+      10: ['Druid Circle Feature'],
+      12: [ASI],
+      14: ['Druid Circle Feature'],
+      16: [ASI],
+      18: ['Timeless Body', 'Beast Spells'],
+      19: [ASI],
+      20: ['Archdruid'],
+    },
+  },
+  {
+    name: 'Fighter', hitDie: 10, savingThrows: ['strength', 'constitution'],
+    spellcasting: 'none', subclassLevel: 3,
+    multiclassPrerequisites: { abilities: ['strength', 'dexterity'], any: true },
+    features: {
+      1: ['Fighting Style', 'Second Wind'],
+      2: ['Action Surge (one use)'],
+      3: ['Martial Archetype'],
+      4: [ASI],
+      5: ['Extra Attack'],
+      6: [ASI],
+      7: ['Martial Archetype Feature'],
+      8: [ASI],
+      9: ['Indomitable (one use)'],
+      10: ['Martial Archetype Feature'],
+      11: ['Extra Attack (2)'],
+      12: [ASI],
+      13: ['Indomitable (two uses)'],
+      14: [ASI],
+      15: ['Martial Archetype Feature'],
+      16: [ASI],
+      17: ['Action Surge (two uses)', 'Indomitable (three uses)'],
+      18: ['Martial Archetype Feature'],
+      19: [ASI],
+      20: ['Extra Attack (3)'],
+    },
+  },
+  {
+    name: 'Monk', hitDie: 8, savingThrows: ['strength', 'dexterity'],
+    spellcasting: 'none', subclassLevel: 3,
+    multiclassPrerequisites: { abilities: ['dexterity', 'wisdom'] },
+    features: {
+      1: ['Unarmored Defense', 'Martial Arts'],
+      2: ['Ki', 'Unarmored Movement'],
+      3: ['Monastic Tradition', 'Deflect Missiles'],
+      4: [ASI, 'Slow Fall'],
+      5: ['Extra Attack', 'Stunning Strike'],
+      6: ['Ki-Empowered Strikes', 'Monastic Tradition Feature'],
+      7: ['Evasion', 'Stillness of Mind'],
+      8: [ASI],
+      9: ['Unarmored Movement Improvement'],
+      10: ['Purity of Body'],
+      11: ['Monastic Tradition Feature'],
+      12: [ASI],
+      13: ['Tongue of the Sun and Moon'],
+      14: ['Diamond Soul'],
+      15: ['Timeless Body'],
+      16: [ASI],
+      17: ['Monastic Tradition Feature'],
+      18: ['Empty Body'],
+      19: [ASI],
+      20: ['Perfect Self'],
+    },
+  },
+  {
+    name: 'Paladin', hitDie: 10, savingThrows: ['wisdom', 'charisma'],
+    spellcasting: 'half', spellcastingAbility: 'charisma', preparesSpells: true, subclassLevel: 3,
+    multiclassPrerequisites: { abilities: ['strength', 'charisma'] },
+    features: {
+      1: ['Divine Sense', 'Lay on Hands'],
+      2: ['Fighting Style', 'Spellcasting', 'Divine Smite'],
+      3: ['Divine Health', 'Sacred Oath'],
+      4: [ASI],
+      5: ['Extra Attack'],
+      6: ['Aura of Protection'],
+      7: ['Sacred Oath Feature'],
+      8: [ASI],
+      10: ['Aura of Courage'],
+      11: ['Improved Divine Smite'],
+      12: [ASI],
+      14: ['Cleansing Touch'],
+      15: ['Sacred Oath Feature'],
+      16: [ASI],
+      18: ['Aura Improvements'],
+      19: [ASI],
+      20: ['Sacred Oath Feature'],
+    },
+  },
+  {
+    name: 'Ranger', hitDie: 10, savingThrows: ['strength', 'dexterity'],
+    spellcasting: 'half', spellcastingAbility: 'wisdom', subclassLevel: 3,
+    multiclassPrerequisites: { abilities: ['dexterity', 'wisdom'] },
+    features: {
+      1: ['Favored Enemy', 'Natural Explorer'],
+      2: ['Fighting Style', 'Spellcasting'],
+      3: ['Ranger Archetype', 'Primeval Awareness'],
+      4: [ASI],
+      5: ['Extra Attack'],
+      6: ['Favored Enemy Improvement', 'Natural Explorer Improvement'],
+      7: ['Ranger Archetype Feature'],
+      8: [ASI, "Land's Stride"],
+      10: ['Natural Explorer Improvement', 'Hide in Plain Sight'],
+      11: ['Ranger Archetype Feature'],
+      12: [ASI],
+      14: ['Favored Enemy Improvement', 'Vanish'],
+      15: ['Ranger Archetype Feature'],
+      16: [ASI],
+      18: ['Feral Senses'],
+      19: [ASI],
+      20: ['Foe Slayer'],
+    },
+  },
+  {
+    name: 'Rogue', hitDie: 8, savingThrows: ['dexterity', 'intelligence'],
+    spellcasting: 'none', subclassLevel: 3,
+    multiclassPrerequisites: { abilities: ['dexterity'] },
+    features: {
+      1: ['Expertise', 'Sneak Attack', "Thieves' Cant"],
+      2: ['Cunning Action'],
+      3: ['Roguish Archetype'],
+      4: [ASI],
+      5: ['Uncanny Dodge'],
+      6: ['Expertise'],
+      7: ['Evasion'],
+      8: [ASI],
+      9: ['Roguish Archetype Feature'],
+      10: [ASI],
+      11: ['Reliable Talent'],
+      12: [ASI],
+      13: ['Roguish Archetype Feature'],
+      14: ['Blindsense'],
+      15: ['Slippery Mind'],
+      16: [ASI],
+      17: ['Roguish Archetype Feature'],
+      18: ['Elusive'],
+      19: [ASI],
+      20: ['Stroke of Luck'],
+    },
+  },
+  {
+    name: 'Sorcerer', hitDie: 6, savingThrows: ['constitution', 'charisma'],
+    spellcasting: 'full', spellcastingAbility: 'charisma', subclassLevel: 1,
+    multiclassPrerequisites: { abilities: ['charisma'] },
+    features: {
+      1: ['Spellcasting', 'Sorcerous Origin'],
+      2: ['Font of Magic'],
+      3: ['Metamagic'],
+      4: [ASI],
+      6: ['Sorcerous Origin Feature'],
+      8: [ASI],
+      10: ['Metamagic'],
+      12: [ASI],
+      14: ['Sorcerous Origin Feature'],
+      16: [ASI],
+      17: ['Metamagic'],
+      18: ['Sorcerous Origin Feature'],
+      19: [ASI],
+      20: ['Sorcerous Restoration'],
+    },
+  },
+  {
+    name: 'Warlock', hitDie: 8, savingThrows: ['wisdom', 'charisma'],
+    spellcasting: 'pact', spellcastingAbility: 'charisma', subclassLevel: 1,
+    multiclassPrerequisites: { abilities: ['charisma'] },
+    features: {
+      1: ['Otherworldly Patron', 'Pact Magic'],
+      2: ['Eldritch Invocations'],
+      3: ['Pact Boon'],
+      4: [ASI],
+      6: ['Otherworldly Patron Feature'],
+      8: [ASI],
+      10: ['Otherworldly Patron Feature'],
+      11: ['Mystic Arcanum (6th level)'],
+      12: [ASI],
+      13: ['Mystic Arcanum (7th level)'],
+      14: ['Otherworldly Patron Feature'],
+      15: ['Mystic Arcanum (8th level)'],
+      16: [ASI],
+      17: ['Mystic Arcanum (9th level)'],
+      19: [ASI],
+      20: ['Eldritch Master'],
+    },
+  },
+  {
+    name: 'Wizard', hitDie: 6, savingThrows: ['intelligence', 'wisdom'],
+    spellcasting: 'full', spellcastingAbility: 'intelligence', preparesSpells: true, subclassLevel: 2,
+    multiclassPrerequisites: { abilities: ['intelligence'] },
+    features: {
+      1: ['Spellcasting', 'Arcane Recovery'],
+      2: ['Arcane Tradition'],
+      4: [ASI],
+      6: ['Arcane Tradition Feature'],
+      8: [ASI],
+      10: ['Arcane Tradition Feature'],
+      12: [ASI],
+      14: ['Arcane Tradition Feature'],
+      16: [ASI],
+      18: ['Spell Mastery'],
+      19: [ASI],
+      20: ['Signature Spells'],
+    },
+  },
+];
+
+/**
+ * Spell slots per spell level (index 0 = 1st level) by caster level,
+ * from the full-caster / multiclass spellcaster table.
+ */
+export const SPELL_SLOTS_BY_CASTER_LEVEL: number[][] = [
+  [],
+  [2],
+  [3],
+  [4, 2],
+  [4, 3],
+  [4, 3, 2],
+  [4, 3, 3],
+  [4, 3, 3, 1],
+  [4, 3, 3, 2],
+  [4, 3, 3, 3, 1],
+  [4, 3, 3, 3, 2],
+  [4, 3, 3, 3, 2, 1],
+  [4, 3, 3, 3, 2, 1],
+  [4, 3, 3, 3, 2, 1, 1],
+  [4, 3, 3, 3, 2, 1, 1],
+  [4, 3, 3, 3, 2, 1, 1, 1],
+  [4, 3, 3, 3, 2, 1, 1, 1],
+  [4, 3, 3, 3, 2, 1, 1, 1, 1],
+  [4, 3, 3, 3, 3, 1, 1, 1, 1],
+  [4, 3, 3, 3, 3, 2, 1, 1, 1],
+  [4, 3, 3, 3, 3, 2, 2, 1, 1],
+];
+
+/**
+ * Warlock Pact Magic slots by warlock level
+ */
+export function getPactMagicSlots(warlockLevel: number): { slots: number; slotLevel: number } | null {
+  if (warlockLevel < 1) return null;
+  const slots = warlockLevel === 1 ? 1 : warlockLevel < 11 ? 2 : warlockLevel < 17 ? 3 : 4;
+  const slotLevel = Math.min(5, Math.ceil(warlockLevel / 2));
+  return { slots, slotLevel };
+}
+
+/**
+ * Contribution of a class's levels to the multiclass caster level
+ */
+export function getCasterLevelContribution(progression: SpellcastingProgression, classLevel: number): number {
+  if (progression === 'full') return classLevel;
+  if (progression === 'half') return Math.floor(classLevel / 2);
+  return 0;
+}
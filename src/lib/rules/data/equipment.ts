@@ -0,0 +1,164 @@
+/**
+ * SRD Equipment
+ *
+ * Weapons, armor, and common adventuring gear from the 5e SRD.
+ */
+
+import type { DamageType } from '@/lib/engine/types';
+import type { EquipmentDefinition, WeaponProperty } from '../types';
+
+type Cost = EquipmentDefinition['cost'];
+
+function gp(quantity: number): Cost { return { quantity, unit: 'gp' }; }
+function sp(quantity: number): Cost { return { quantity, unit: 'sp' }; }
+function cp(quantity: number): Cost { return { quantity, unit: 'cp' }; }
+
+// Helper to create weapons more concisely
+function weapon(
+  name: string,
+  category: 'simple' | 'martial',
+  range: 'melee' | 'ranged',
+  cost: Cost,
+  weight: number,
+  dice: string,
+  type: DamageType,
+  properties: WeaponProperty[] = [],
+  extra: { versatileDamage?: string; normalRange?: number; longRange?: number } = {}
+): EquipmentDefinition {
+  return {
+    name,
+    category: 'weapon',
+    cost,
+    weight,
+    weapon: { category, range, damage: { dice, type }, properties, ...extra },
+  };
+}
+
+function armor(
+  name: string,
+  category: 'light' | 'medium' | 'heavy' | 'shield',
+  cost: Cost,
+  weight: number,
+  baseAc: number,
+  options: { strengthMinimum?: number; stealthDisadvantage?: boolean } = {}
+): EquipmentDefinition {
+  return {
+    name,
+    category: 'armor',
+    cost,
+    weight,
+    armor: {
+      category,
+      baseAc,
+      dexBonus: category === 'light' || category === 'medium',
+      maxDexBonus: category === 'medium' ? 2 : undefined,
+      strengthMinimum: options.strengthMinimum,
+      stealthDisadvantage: options.stealthDisadvantage ?? false,
+    },
+  };
+}
+
+function gear(name: string, cost: Cost, weight: number, description?: string, category: 'gear' | 'tool' = 'gear'): EquipmentDefinition {
+  return { name, category, cost, weight, description };
+}
+
+// ==========================================
+// WEAPONS
+// ==========================================
+
+const WEAPONS: EquipmentDefinition[] = [
+  // Simple melee
+  weapon('Club', 'simple', 'melee', sp(1), 2, '1d4', 'bludgeoning', ['light']),
+  weapon('Dagger', 'simple', 'melee', gp(2), 1, '1d4', 'piercing', ['finesse', 'light', 'thrown'], { normalRange: 20, longRange: 60 }),
+  weapon('Greatclub', 'simple', 'melee', sp(2), 10, '1d8', 'bludgeoning', ['two-handed']),
+  weapon('Handaxe', 'simple', 'melee', gp(5), 2, '1d6', 'slashing', ['light', 'thrown'], { normalRange: 20, longRange: 60 }),
+  weapon('Javelin', 'simple', 'melee', sp(5), 2, '1d6', 'piercing', ['thrown'], { normalRange: 30, longRange: 120 }),
+  weapon('Light Hammer', 'simple', 'melee', gp(2), 2, '1d4', 'bludgeoning', ['light', 'thrown'], { normalRange: 20, longRange: 60 }),
+  weapon('Mace', 'simple', 'melee', gp(5), 4, '1d6', 'bludgeoning'),
+  weapon('Quarterstaff', 'simple', 'melee', sp(2), 4, '1d6', 'bludgeoning', ['versatile'], { versatileDamage: '1d8' }),
+  weapon('Sickle', 'simple', 'melee', gp(1), 2, '1d4', 'slashing', ['light']),
+  weapon('Spear', 'simple', 'melee', gp(1), 3, '1d6', 'piercing', ['thrown', 'versatile'], { versatileDamage: '1d8', normalRange: 20, longRange: 60 }),
+
+  // Simple ranged
+  weapon('Light Crossbow', 'simple', 'ranged', gp(25), 5, '1d8', 'piercing', ['ammunition', 'loading', 'two-handed'], { normalRange: 80, longRange: 320 }),
+  weapon('Dart', 'simple', 'ranged', cp(5), 0.25, '1d4', 'piercing', ['finesse', 'thrown'], { normalRange: 20, longRange: 60 }),
+  weapon('Shortbow', 'simple', 'ranged', gp(25), 2, '1d6', 'piercing', ['ammunition', 'two-handed'], { normalRange: 80, longRange: 320 }),
+  weapon('Sling', 'simple', 'ranged', sp(1), 0, '1d4', 'bludgeoning', ['ammunition'], { normalRange: 30, longRange: 120 }),
+
+  // Martial melee
+  weapon('Battleaxe', 'martial', 'melee', gp(10), 4, '1d8', 'slashing', ['versatile'], { versatileDamage: '1d10' }),
+  weapon('Flail', 'martial', 'melee', gp(10), 2, '1d8', 'bludgeoning'),
+  weapon('Glaive', 'martial', 'melee', gp(20), 6, '1d10', 'slashing', ['heavy', 'reach', 'two-handed']),
+  weapon('Greataxe', 'martial', 'melee', gp(30), 7, '1d12', 'slashing', ['heavy', 'two-handed']),
+  weapon('Greatsword', 'martial', 'melee', gp(50), 6, '2d6', 'slashing', ['heavy', 'two-handed']),
+  weapon('Halberd', 'martial', 'melee', gp(20), 6, '1d10', 'slashing', ['heavy', 'reach', 'two-handed']),
+  weapon('Lance', 'martial', 'melee', gp(10), 6, '1d12', 'piercing', ['reach', 'special']),
+  weapon('Longsword', 'martial', 'melee', gp(15), 3, '1d8', 'slashing', ['versatile'], { versatileDamage: '1d10' }),
+  weapon('Maul', 'martial', 'melee', gp(10), 10, '2d6', 'bludgeoning', ['heavy', 'two-handed']),
+  weapon('Morningstar', 'martial', 'melee', gp(15), 4, '1d8', 'piercing'),
+  weapon('Pike', 'martial', 'melee', gp(5), 18, '1d10', 'piercing', ['heavy', 'reach', 'two-handed']),
+  weapon('Rapier', 'martial', 'melee', gp(25), 2, '1d8', 'piercing', ['finesse']),
+  weapon('Scimitar', 'martial', 'melee', gp(25), 3, '1d6', 'slashing', ['finesse', 'light']),
+  weapon('Shortsword', 'martial', 'melee', gp(10), 2, '1d6', 'piercing', ['finesse', 'light']),
+  weapon('Trident', 'martial', 'melee', gp(5), 4, '1d6', 'piercing', ['thrown', 'versatile'], { versatileDamage: '1d8', normalRange: 20, longRange: 60 }),
+  weapon('War Pick', 'martial', 'melee', gp(5), 2, '1d8', 'piercing'),
+  weapon('Warhammer', 'martial', 'melee', gp(15), 2, '1d8', 'bludgeoning', ['versatile'], { versatileDamage: '1d10' }),
+  weapon('Whip', 'martial', 'melee', gp(2), 3, '1d4', 'slashing', ['finesse', 'reach']),
+
+  // Martial ranged
+  weapon('Hand Crossbow', 'martial', 'ranged', gp(75), 3, '1d6', 'piercing', ['ammunition', 'light', 'loading'], { normalRange: 30, longRange: 120 }),
+  weapon('Heavy Crossbow', 'martial', 'ranged', gp(50), 18, '1d10', 'piercing', ['ammunition', 'heavy', 'loading', 'two-handed'], { normalRange: 100, longRange: 400 }),
+  weapon('Longbow', 'martial', 'ranged', gp(50), 2, '1d8', 'piercing', ['ammunition', 'heavy', 'two-handed'], { normalRange: 150, longRange: 600 }),
+];
+
+// ==========================================
+// ARMOR
+// ==========================================
+
+const ARMOR: EquipmentDefinition[] = [
+  armor('Padded Armor', 'light', gp(5), 8, 11, { stealthDisadvantage: true }),
+  armor('Leather Armor', 'light', gp(10), 10, 11),
+  armor('Studded Leather Armor', 'light', gp(45), 13, 12),
+  armor('Hide Armor', 'medium', gp(10), 12, 12),
+  armor('Chain Shirt', 'medium', gp(50), 20, 13),
+  armor('Scale Mail', 'medium', gp(50), 45, 14, { stealthDisadvantage: true }),
+  armor('Breastplate', 'medium', gp(400), 20, 14),
+  armor('Half Plate', 'medium', gp(750), 40, 15, { stealthDisadvantage: true }),
+  armor('Ring Mail', 'heavy', gp(30), 40, 14, { stealthDisadvantage: true }),
+  armor('Chain Mail', 'heavy', gp(75), 55, 16, { strengthMinimum: 13, stealthDisadvantage: true }),
+  armor('Splint Armor', 'heavy', gp(200), 60, 17, { strengthMinimum: 15, stealthDisadvantage: true }),
+  armor('Plate Armor', 'heavy', gp(1500), 65, 18, { strengthMinimum: 15, stealthDisadvantage: true }),
+  armor('Shield', 'shield', gp(10), 6, 2),
+];
+
+// ==========================================
+// ADVENTURING GEAR & TOOLS
+// ==========================================
+
+const GEAR: EquipmentDefinition[] = [
+  gear('Arrows (20)', gp(1), 1),
+  gear('Crossbow Bolts (20)', gp(1), 1.5),
+  gear('Backpack', gp(2), 5),
+  gear('Bedroll', gp(1), 7),
+  gear('Caltrops (bag of 20)', gp(1), 2, 'As an action, you can spread caltrops to cover a 5-foot-square area. A creature that enters the area must succeed on a DC 15 Dexterity saving throw or stop moving and take 1 piercing damage.'),
+  gear('Component Pouch', gp(25), 2, 'A small, watertight leather belt pouch holding the material components for your spells.'),
+  gear('Crowbar', gp(2), 5, 'Using a crowbar grants advantage to Strength checks where the crowbar\'s leverage can be applied.'),
+  gear('Healer\'s Kit', gp(5), 3, 'This kit has ten uses. As an action, you can expend one use of the kit to stabilize a creature that has 0 hit points, without needing to make a Wisdom (Medicine) check.'),
+  gear('Holy Water (flask)', gp(25), 1, 'As an action, you can splash the contents of this flask onto a creature within 5 feet or throw it up to 20 feet. If the target is a fiend or undead, it takes 2d6 radiant damage.'),
+  gear('Lantern, Hooded', gp(5), 2, 'A hooded lantern casts bright light in a 30-foot radius and dim light for an additional 30 feet. Once lit, it burns for 6 hours on a flask of oil.'),
+  gear('Oil (flask)', sp(1), 1, 'You can splash oil onto a creature within 5 feet or throw it up to 20 feet. If the target takes fire damage before the oil dries, it takes an additional 5 fire damage.'),
+  gear('Rations (1 day)', sp(5), 2),
+  gear('Rope, Hempen (50 feet)', gp(1), 10),
+  gear('Tinderbox', sp(5), 1),
+  gear('Torch', cp(1), 1, 'A torch burns for 1 hour, providing bright light in a 20-foot radius and dim light for an additional 20 feet.'),
+  gear('Waterskin', sp(2), 5),
+  gear('Disguise Kit', gp(25), 3, 'Proficiency with this kit lets you add your proficiency bonus to any ability checks you make to create a visual disguise.', 'tool'),
+  gear('Herbalism Kit', gp(5), 3, 'Proficiency with this kit lets you add your proficiency bonus to any ability checks you make to identify or apply herbs. Required to create antitoxin and potions of healing.', 'tool'),
+  gear('Thieves\' Tools', gp(25), 1, 'Proficiency with these tools lets you add your proficiency bonus to any ability checks you make to disarm traps or open locks.', 'tool'),
+];
+
+export const SRD_EQUIPMENT: EquipmentDefinition[] = [
+  ...WEAPONS,
+  ...ARMOR,
+  ...GEAR,
+];
@@ -0,0 +1,35 @@
+import type { MonsterStatBlock } from '@/lib/engine/types';
+import type { CompendiumData, SpellDefinition } from '../types';
+import { SRD_MONSTERS } from './monsters';
+import { SRD_SPELLS } from './spells';
+import GENERATED_MONSTERS from './srd/monsters.json';
+import GENERATED_SPELLS from './srd/spells.json';
+import { SRD_CONDITIONS } from './conditions';
+import { SRD_EQUIPMENT } from './equipment';
+import { SRD_MAGIC_ITEMS } from './magic-items';
+import { SRD_CLASSES } from './classes';
+
+// Whatever `npm run srd:generate` has written (nothing until it is run), with the hand-tuned
+// entries in place of generated ones of the same name
+function withHandTuned<T extends { name: string }>(generated: T[], handTuned: T[]): T[] {
+  const byKey = new Map<string, T>();
+  [...generated, ...handTuned].forEach((entry) => byKey.set(entry.name.toLowerCase(), entry));
+  return Array.from(byKey.values());
+}
+
+/**
+ * Load the bundled SRD dataset. Everything ships with the app, so this works offline.
+ * Monsters and spells are the hand-tuned subset plus any generated SRD set.
+ */
+export function loadSrdData(): CompendiumData {
+  return {
+    monsters: withHandTuned(GENERATED_MONSTERS as MonsterStatBlock[], SRD_MONSTERS),
+    spells: withHandTuned(GENERATED_SPELLS as SpellDefinition[], SRD_SPELLS),
+    conditions: Object.values(SRD_CONDITIONS),
+    equipment: SRD_EQUIPMENT,
+    magicItems: SRD_MAGIC_ITEMS,
+    classes: SRD_CLASSES,
+  };
+}
+
+export { SPELL_SLOTS_BY_CASTER_LEVEL, getPactMagicSlots, getCasterLevelContribution } from './classes';
@@ -0,0 +1,111 @@
+/**
+ * SRD Magic Items
+ *
+ * A bundled selection of common treasure from the 5e SRD.
+ */
+
+import type { MagicItemDefinition } from '../types';
+
+export const SRD_MAGIC_ITEMS: MagicItemDefinition[] = [
+  // Potions
+  {
+    name: 'Potion of Healing', type: 'potion', rarity: 'common', requiresAttunement: false,
+    description: 'You regain 2d4 + 2 hit points when you drink this potion.',
+  },
+  {
+    name: 'Potion of Greater Healing', type: 'potion', rarity: 'uncommon', requiresAttunement: false,
+    description: 'You regain 4d4 + 4 hit points when you drink this potion.',
+  },
+  {
+    name: 'Potion of Superior Healing', type: 'potion', rarity: 'rare', requiresAttunement: false,
+    description: 'You regain 8d4 + 8 hit points when you drink this potion.',
+  },
+  {
+    name: 'Potion of Invisibility', type: 'potion', rarity: 'very rare', requiresAttunement: false,
+    description: 'When you drink it, you become invisible for 1 hour. Anything you wear or carry is invisible with you. The effect ends early if you attack or cast a spell.',
+  },
+
+  // Weapons & armor
+  {
+    name: 'Weapon, +1', type: 'weapon', rarity: 'uncommon', requiresAttunement: false,
+    description: 'You have a +1 bonus to attack and damage rolls made with this magic weapon.',
+    bonuses: { attack: 1, damage: 1 },
+  },
+  {
+    name: 'Weapon, +2', type: 'weapon', rarity: 'rare', requiresAttunement: false,
+    description: 'You have a +2 bonus to attack and damage rolls made with this magic weapon.',
+    bonuses: { attack: 2, damage: 2 },
+  },
+  {
+    name: 'Weapon, +3', type: 'weapon', rarity: 'very rare', requiresAttunement: false,
+    description: 'You have a +3 bonus to attack and damage rolls made with this magic weapon.',
+    bonuses: { attack: 3, damage: 3 },
+  },
+  {
+    name: 'Flame Tongue', type: 'weapon', rarity: 'rare', requiresAttunement: true,
+    description: 'You can use a bonus action to speak this magic sword\'s command word, causing flames to erupt from the blade. While the sword is ablaze, it deals an extra 2d6 fire damage to any target it hits and sheds bright light in a 40-foot radius.',
+    baseItem: 'Longsword',
+    bonuses: { extraDamage: { dice: '2d6', type: 'fire' } },
+  },
+  {
+    name: 'Armor, +1', type: 'armor', rarity: 'rare', requiresAttunement: false,
+    description: 'You have a +1 bonus to AC while wearing this armor.',
+    bonuses: { armorClass: 1 },
+  },
+  {
+    name: 'Shield, +1', type: 'armor', rarity: 'uncommon', requiresAttunement: false,
+    description: 'While holding this shield, you have a +1 bonus to AC in addition to the shield\'s normal bonus to AC.',
+    baseItem: 'Shield',
+    bonuses: { armorClass: 1 },
+  },
+
+  // Rings, wands, rods, staffs
+  {
+    name: 'Ring of Protection', type: 'ring', rarity: 'rare', requiresAttunement: true,
+    description: 'You gain a +1 bonus to AC and saving throws while wearing this ring.',
+    bonuses: { armorClass: 1, savingThrows: 1 },
+  },
+  {
+    name: 'Wand of Magic Missiles', type: 'wand', rarity: 'uncommon', requiresAttunement: false,
+    description: 'This wand has 7 charges. While holding it, you can use an action to expend 1 or more of its charges to cast the magic missile spell from it, increasing the spell\'s slot level by one for each additional charge. The wand regains 1d6 + 1 expended charges daily at dawn.',
+  },
+  {
+    name: 'Immovable Rod', type: 'rod', rarity: 'uncommon', requiresAttunement: false,
+    description: 'This flat iron rod has a button on one end. You can use an action to press the button, which causes the rod to become magically fixed in place. It can hold up to 8,000 pounds of weight.',
+  },
+  {
+    name: 'Staff of Healing', type: 'staff', rarity: 'rare', requiresAttunement: true,
+    description: 'This staff has 10 charges. While holding it, you can use an action to expend charges to cast cure wounds (1 charge per spell level, up to 4th), lesser restoration (2 charges), or mass cure wounds (5 charges). It regains 1d6 + 4 charges daily at dawn.',
+  },
+
+  // Wondrous items
+  {
+    name: 'Bag of Holding', type: 'wondrous item', rarity: 'uncommon', requiresAttunement: false,
+    description: 'This bag has an interior space considerably larger than its outside dimensions. The bag can hold up to 500 pounds, not exceeding a volume of 64 cubic feet, and always weighs 15 pounds.',
+  },
+  {
+    name: 'Cloak of Protection', type: 'wondrous item', rarity: 'uncommon', requiresAttunement: true,
+    description: 'You gain a +1 bonus to AC and saving throws while you wear this cloak.',
+    bonuses: { armorClass: 1, savingThrows: 1 },
+  },
+  {
+    name: 'Cloak of Elvenkind', type: 'wondrous item', rarity: 'uncommon', requiresAttunement: true,
+    description: 'While you wear this cloak with its hood up, Wisdom (Perception) checks made to see you have disadvantage, and you have advantage on Dexterity (Stealth) checks made to hide.',
+  },
+  {
+    name: 'Boots of Elvenkind', type: 'wondrous item', rarity: 'uncommon', requiresAttunement: false,
+    description: 'While you wear these boots, your steps make no sound, regardless of the surface you are moving across. You also have advantage on Dexterity (Stealth) checks that rely on moving silently.',
+  },
+  {
+    name: 'Gauntlets of Ogre Power', type: 'wondrous item', rarity: 'uncommon', requiresAttunement: true,
+    description: 'Your Strength score is 19 while you wear these gauntlets. They have no effect on you if your Strength is already 19 or higher.',
+  },
+  {
+    name: 'Amulet of Health', type: 'wondrous item', rarity: 'rare', requiresAttunement: true,
+    description: 'Your Constitution score is 19 while you wear this amulet. It has no effect on you if your Constitution is already 19 or higher.',
+  },
+  {
+    name: 'Rope of Climbing', type: 'wondrous item', rarity: 'uncommon', requiresAttunement: false,
+    description: 'This 60-foot length of silk rope can hold up to 3,000 pounds. If you hold one end and use an action to speak the command word, the rope animates and moves toward a destination you choose, fastening itself securely.',
+  },
+];
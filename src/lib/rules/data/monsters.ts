@@ -0,0 +1,635 @@
+/**
+ * SRD Monsters
+ *
+ * Hand-tuned 5e SRD stat blocks covering the common encounter range (CR 0-17).
+ * These replace the generated entries in srd/monsters.json of the same name.
+ */
+
+import type { DamageType, MonsterAction, MonsterStatBlock } from '@/lib/engine/types';
+
+// Average damage for a dice expression like "2d6+3"
+function average(dice: string): number {
+  const match = dice.match(/^(\d+)d(\d+)(?:\s*([+-])\s*(\d+))?$/);
+  if (!match) return 0;
+  const [, count, sides, sign, mod] = match;
+  const modifier = mod ? parseInt(mod) * (sign === '-' ? -1 : 1) : 0;
+  return Math.floor(parseInt(count) * (parseInt(sides) + 1) / 2) + modifier;
+}
+
+function formatDice(dice: string): string {
+  return dice.replace(/([+-])/, ' $1 ');
+}
+
+// Helper to create weapon attacks with SRD-style descriptions
+function melee(name: string, attackBonus: number, dice: string, type: DamageType, extra = '', reach = 5): MonsterAction {
+  return {
+    name,
+    desc: `Melee Weapon Attack: +${attackBonus} to hit, reach ${reach} ft., one target. Hit: ${average(dice)} (${formatDice(dice)}) ${type} damage${extra || '.'}`,
+    attackBonus,
+    damage: [{ dice, type }],
+  };
+}
+
+function ranged(name: string, attackBonus: number, dice: string, type: DamageType, range: string, extra = ''): MonsterAction {
+  return {
+    name,
+    desc: `Ranged Weapon Attack: +${attackBonus} to hit, range ${range} ft., one target. Hit: ${average(dice)} (${formatDice(dice)}) ${type} damage${extra || '.'}`,
+    attackBonus,
+    damage: [{ dice, type }],
+  };
+}
+
+function scores(strength: number, dexterity: number, constitution: number, intelligence: number, wisdom: number, charisma: number) {
+  return { strength, dexterity, constitution, intelligence, wisdom, charisma };
+}
+
+// ==========================================
+// HUMANOIDS
+// ==========================================
+
+const HUMANOIDS: MonsterStatBlock[] = [
+  {
+    name: 'Commoner',
+    size: 'Medium', type: 'humanoid', alignment: 'any alignment',
+    armorClass: 10, hitPoints: 4, hitDice: '1d8', speed: { walk: 30 },
+    abilityScores: scores(10, 10, 10, 10, 10, 10),
+    senses: ['passive Perception 10'], languages: ['Common'],
+    challengeRating: 0, xp: 10,
+    actions: [melee('Club', 2, '1d4', 'bludgeoning')],
+  },
+  {
+    name: 'Bandit',
+    size: 'Medium', type: 'humanoid', alignment: 'any non-lawful alignment',
+    armorClass: 12, hitPoints: 11, hitDice: '2d8+2', speed: { walk: 30 },
+    abilityScores: scores(11, 12, 12, 10, 10, 10),
+    senses: ['passive Perception 10'], languages: ['Common'],
+    challengeRating: 0.125, xp: 25,
+    actions: [
+      melee('Scimitar', 3, '1d6+1', 'slashing'),
+      ranged('Light Crossbow', 3, '1d8+1', 'piercing', '80/320'),
+    ],
+  },
+  {
+    name: 'Cultist',
+    size: 'Medium', type: 'humanoid', alignment: 'any non-good alignment',
+    armorClass: 12, hitPoints: 9, hitDice: '2d8', speed: { walk: 30 },
+    abilityScores: scores(11, 12, 10, 10, 11, 10),
+    skills: { deception: 2, religion: 2 },
+    senses: ['passive Perception 10'], languages: ['Common'],
+    challengeRating: 0.125, xp: 25,
+    traits: [{ name: 'Dark Devotion', desc: 'The cultist has advantage on saving throws against being charmed or frightened.' }],
+    actions: [melee('Scimitar', 3, '1d6+1', 'slashing')],
+  },
+  {
+    name: 'Guard',
+    size: 'Medium', type: 'humanoid', alignment: 'any alignment',
+    armorClass: 16, hitPoints: 11, hitDice: '2d8+2', speed: { walk: 30 },
+    abilityScores: scores(13, 12, 12, 10, 11, 10),
+    skills: { perception: 2 },
+    senses: ['passive Perception 12'], languages: ['Common'],
+    challengeRating: 0.125, xp: 25,
+    actions: [melee('Spear', 3, '1d6+1', 'piercing', ', or 5 (1d8 + 1) piercing damage if used with two hands to make a melee attack.')],
+  },
+  {
+    name: 'Kobold',
+    size: 'Small', type: 'humanoid', alignment: 'lawful evil',
+    armorClass: 12, hitPoints: 5, hitDice: '2d6-2', speed: { walk: 30 },
+    abilityScores: scores(7, 15, 9, 8, 7, 8),
+    senses: ['darkvision 60 ft.', 'passive Perception 8'], languages: ['Common', 'Draconic'],
+    challengeRating: 0.125, xp: 25,
+    traits: [
+      { name: 'Sunlight Sensitivity', desc: 'While in sunlight, the kobold has disadvantage on attack rolls, as well as on Wisdom (Perception) checks that rely on sight.' },
+      { name: 'Pack Tactics', desc: 'The kobold has advantage on an attack roll against a creature if at least one of the kobold\'s allies is within 5 feet of the creature and the ally isn\'t incapacitated.' },
+    ],
+    actions: [
+      melee('Dagger', 4, '1d4+2', 'piercing'),
+      ranged('Sling', 4, '1d4+2', 'bludgeoning', '30/120'),
+    ],
+  },
+  {
+    name: 'Goblin',
+    size: 'Small', type: 'humanoid', alignment: 'neutral evil',
+    armorClass: 15, hitPoints: 7, hitDice: '2d6', speed: { walk: 30 },
+    abilityScores: scores(8, 14, 10, 10, 8, 8),
+    skills: { stealth: 6 },
+    senses: ['darkvision 60 ft.', 'passive Perception 9'], languages: ['Common', 'Goblin'],
+    challengeRating: 0.25, xp: 50,
+    traits: [{ name: 'Nimble Escape', desc: 'The goblin can take the Disengage or Hide action as a bonus action on each of its turns.' }],
+    actions: [
+      melee('Scimitar', 4, '1d6+2', 'slashing'),
+      ranged('Shortbow', 4, '1d6+2', 'piercing', '80/320'),
+    ],
+  },
+  {
+    name: 'Hobgoblin',
+    size: 'Medium', type: 'humanoid', alignment: 'lawful evil',
+    armorClass: 18, hitPoints: 11, hitDice: '2d8+2', speed: { walk: 30 },
+    abilityScores: scores(13, 12, 12, 10, 10, 9),
+    senses: ['darkvision 60 ft.', 'passive Perception 10'], languages: ['Common', 'Goblin'],
+    challengeRating: 0.5, xp: 100,
+    traits: [{ name: 'Martial Advantage', desc: 'Once per turn, the hobgoblin can deal an extra 7 (2d6) damage to a creature it hits with a weapon attack if that creature is within 5 feet of an ally of the hobgoblin that isn\'t incapacitated.' }],
+    actions: [
+      melee('Longsword', 3, '1d8+1', 'slashing', ', or 6 (1d10 + 1) slashing damage if used with two hands.'),
+      ranged('Longbow', 3, '1d8+1', 'piercing', '150/600'),
+    ],
+  },
+  {
+    name: 'Orc',
+    size: 'Medium', type: 'humanoid', alignment: 'chaotic evil',
+    armorClass: 13, hitPoints: 15, hitDice: '2d8+6', speed: { walk: 30 },
+    abilityScores: scores(16, 12, 16, 7, 11, 10),
+    skills: { intimidation: 2 },
+    senses: ['darkvision 60 ft.', 'passive Perception 10'], languages: ['Common', 'Orc'],
+    challengeRating: 0.5, xp: 100,
+    traits: [{ name: 'Aggressive', desc: 'As a bonus action, the orc can move up to its speed toward a hostile creature that it can see.' }],
+    actions: [
+      melee('Greataxe', 5, '1d12+3', 'slashing'),
+      ranged('Javelin', 5, '1d6+3', 'piercing', '30/120'),
+    ],
+  },
+  {
+    name: 'Gnoll',
+    size: 'Medium', type: 'humanoid', alignment: 'chaotic evil',
+    armorClass: 15, hitPoints: 22, hitDice: '5d8', speed: { walk: 30 },
+    abilityScores: scores(14, 12, 11, 6, 10, 7),
+    senses: ['darkvision 60 ft.', 'passive Perception 10'], languages: ['Gnoll'],
+    challengeRating: 0.5, xp: 100,
+    traits: [{ name: 'Rampage', desc: 'When the gnoll reduces a creature to 0 hit points with a melee attack on its turn, the gnoll can take a bonus action to move up to half its speed and make a bite attack.' }],
+    actions: [
+      melee('Bite', 4, '1d4+2', 'piercing'),
+      melee('Spear', 4, '1d6+2', 'piercing'),
+      ranged('Longbow', 3, '1d8+1', 'piercing', '150/600'),
+    ],
+  },
+  {
+    name: 'Lizardfolk',
+    size: 'Medium', type: 'humanoid', alignment: 'neutral',
+    armorClass: 15, hitPoints: 22, hitDice: '4d8+4', speed: { walk: 30, swim: 30 },
+    abilityScores: scores(15, 10, 13, 7, 12, 7),
+    skills: { perception: 3, stealth: 4, survival: 5 },
+    senses: ['passive Perception 13'], languages: ['Draconic'],
+    challengeRating: 0.5, xp: 100,
+    traits: [{ name: 'Hold Breath', desc: 'The lizardfolk can hold its breath for 15 minutes.' }],
+    actions: [
+      { name: 'Multiattack', desc: 'The lizardfolk makes two melee attacks, each one with a different weapon.' },
+      melee('Bite', 4, '1d6+2', 'piercing'),
+      melee('Heavy Club', 4, '1d6+2', 'bludgeoning'),
+      melee('Javelin', 4, '1d6+2', 'piercing'),
+      melee('Spiked Shield', 4, '1d6+2', 'piercing'),
+    ],
+  },
+  {
+    name: 'Thug',
+    size: 'Medium', type: 'humanoid', alignment: 'any non-good alignment',
+    armorClass: 11, hitPoints: 32, hitDice: '5d8+10', speed: { walk: 30 },
+    abilityScores: scores(15, 11, 14, 10, 10, 11),
+    skills: { intimidation: 2 },
+    senses: ['passive Perception 10'], languages: ['Common'],
+    challengeRating: 0.5, xp: 100,
+    traits: [{ name: 'Pack Tactics', desc: 'The thug has advantage on an attack roll against a creature if at least one of the thug\'s allies is within 5 feet of the creature and the ally isn\'t incapacitated.' }],
+    actions: [
+      { name: 'Multiattack', desc: 'The thug makes two melee attacks.' },
+      melee('Mace', 4, '1d6+2', 'bludgeoning'),
+      ranged('Heavy Crossbow', 2, '1d10', 'piercing', '100/400'),
+    ],
+  },
+  {
+    name: 'Bugbear',
+    size: 'Medium', type: 'humanoid', alignment: 'chaotic evil',
+    armorClass: 16, hitPoints: 27, hitDice: '5d8+5', speed: { walk: 30 },
+    abilityScores: scores(15, 14, 13, 8, 11, 9),
+    skills: { stealth: 6, survival: 2 },
+    senses: ['darkvision 60 ft.', 'passive Perception 10'], languages: ['Common', 'Goblin'],
+    challengeRating: 1, xp: 200,
+    traits: [
+      { name: 'Brute', desc: 'A melee weapon deals one extra die of its damage when the bugbear hits with it (included in the attack).' },
+      { name: 'Surprise Attack', desc: 'If the bugbear surprises a creature and hits it with an attack during the first round of combat, the target takes an extra 7 (2d6) damage from the attack.' },
+    ],
+    actions: [
+      melee('Morningstar', 4, '2d8+2', 'piercing'),
+      melee('Javelin', 4, '2d6+2', 'piercing', ' in melee or 5 (1d6 + 2) piercing damage at range (30/120 ft.).'),
+    ],
+  },
+  {
+    name: 'Priest',
+    size: 'Medium', type: 'humanoid', alignment: 'any alignment',
+    armorClass: 13, hitPoints: 27, hitDice: '5d8+5', speed: { walk: 25 },
+    abilityScores: scores(10, 10, 12, 13, 16, 13),
+    skills: { medicine: 7, persuasion: 3, religion: 4 },
+    senses: ['passive Perception 13'], languages: ['Common'],
+    challengeRating: 2, xp: 450,
+    traits: [
+      { name: 'Divine Eminence', desc: 'As a bonus action, the priest can expend a spell slot to cause its melee weapon attacks to magically deal an extra 10 (3d6) radiant damage to a target on a hit.' },
+      { name: 'Spellcasting', desc: 'The priest is a 5th-level spellcaster (spell save DC 13, +5 to hit). Cantrips: light, sacred flame, thaumaturgy. 1st level (4 slots): cure wounds, guiding bolt, sanctuary. 2nd level (3 slots): lesser restoration, spiritual weapon. 3rd level (2 slots): dispel magic, spirit guardians.' },
+    ],
+    actions: [melee('Mace', 2, '1d6', 'bludgeoning')],
+  },
+  {
+    name: 'Bandit Captain',
+    size: 'Medium', type: 'humanoid', alignment: 'any non-lawful alignment',
+    armorClass: 15, hitPoints: 65, hitDice: '10d8+20', speed: { walk: 30 },
+    abilityScores: scores(15, 16, 14, 14, 11, 14),
+    savingThrows: { strength: 4, dexterity: 5, wisdom: 2 },
+    skills: { athletics: 4, deception: 4 },
+    senses: ['passive Perception 10'], languages: ['Common', 'Thieves\' cant'],
+    challengeRating: 2, xp: 450,
+    actions: [
+      { name: 'Multiattack', desc: 'The captain makes three melee attacks: two with its scimitar and one with its dagger. Or the captain makes two ranged attacks with its daggers.' },
+      melee('Scimitar', 5, '1d6+3', 'slashing'),
+      melee('Dagger', 5, '1d4+3', 'piercing', ' (thrown, range 20/60 ft.).'),
+    ],
+    reactions: [{ name: 'Parry', desc: 'The captain adds 2 to its AC against one melee attack that would hit it. To do so, the captain must see the attacker and be wielding a melee weapon.' }],
+  },
+  {
+    name: 'Veteran',
+    size: 'Medium', type: 'humanoid', alignment: 'any alignment',
+    armorClass: 17, hitPoints: 58, hitDice: '9d8+18', speed: { walk: 30 },
+    abilityScores: scores(16, 13, 14, 10, 11, 10),
+    skills: { athletics: 5, perception: 2 },
+    senses: ['passive Perception 12'], languages: ['Common'],
+    challengeRating: 3, xp: 700,
+    actions: [
+      { name: 'Multiattack', desc: 'The veteran makes two longsword attacks. If it has a shortsword drawn, it can also make a shortsword attack.' },
+      melee('Longsword', 5, '1d8+3', 'slashing', ', or 8 (1d10 + 3) slashing damage if used with two hands.'),
+      melee('Shortsword', 5, '1d6+3', 'piercing'),
+      ranged('Heavy Crossbow', 3, '1d10+1', 'piercing', '100/400'),
+    ],
+  },
+  {
+    name: 'Mage',
+    size: 'Medium', type: 'humanoid', alignment: 'any alignment',
+    armorClass: 12, hitPoints: 40, hitDice: '9d8', speed: { walk: 30 },
+    abilityScores: scores(9, 14, 11, 17, 12, 11),
+    savingThrows: { intelligence: 6, wisdom: 4 },
+    skills: { arcana: 6, history: 6 },
+    senses: ['passive Perception 11'], languages: ['Common', 'Draconic', 'Elvish', 'Dwarvish'],
+    challengeRating: 6, xp: 2300,
+    traits: [{ name: 'Spellcasting', desc: 'The mage is a 9th-level spellcaster (spell save DC 14, +6 to hit). Cantrips: fire bolt, light, mage hand, prestidigitation. 1st level (4 slots): detect magic, mage armor, magic missile, shield. 2nd level (3 slots): misty step, suggestion. 3rd level (3 slots): counterspell, fireball, fly. 4th level (3 slots): greater invisibility, ice storm. 5th level (1 slot): cone of cold.' }],
+    actions: [melee('Dagger', 5, '1d4+2', 'piercing', ' (thrown, range 20/60 ft.).')],
+  },
+];
+
+// ==========================================
+// BEASTS & MONSTROSITIES
+// ==========================================
+
+const BEASTS: MonsterStatBlock[] = [
+  {
+    name: 'Giant Rat',
+    size: 'Small', type: 'beast', alignment: 'unaligned',
+    armorClass: 12, hitPoints: 7, hitDice: '2d6', speed: { walk: 30 },
+    abilityScores: scores(7, 15, 11, 2, 10, 4),
+    senses: ['darkvision 60 ft.', 'passive Perception 10'],
+    challengeRating: 0.125, xp: 25,
+    traits: [
+      { name: 'Keen Smell', desc: 'The rat has advantage on Wisdom (Perception) checks that rely on smell.' },
+      { name: 'Pack Tactics', desc: 'The rat has advantage on an attack roll against a creature if at least one of the rat\'s allies is within 5 feet of the creature and the ally isn\'t incapacitated.' },
+    ],
+    actions: [melee('Bite', 4, '1d4+2', 'piercing')],
+  },
+  {
+    name: 'Stirge',
+    size: 'Tiny', type: 'beast', alignment: 'unaligned',
+    armorClass: 14, hitPoints: 2, hitDice: '1d4', speed: { walk: 10, fly: 40 },
+    abilityScores: scores(4, 16, 11, 2, 8, 6),
+    senses: ['darkvision 60 ft.', 'passive Perception 9'],
+    challengeRating: 0.125, xp: 25,
+    actions: [melee('Blood Drain', 5, '1d4+3', 'piercing', ', and the stirge attaches to the target. While attached, the stirge doesn\'t attack. Instead, at the start of each of the stirge\'s turns, the target loses 5 (1d4 + 3) hit points due to blood loss.')],
+  },
+  {
+    name: 'Wolf',
+    size: 'Medium', type: 'beast', alignment: 'unaligned',
+    armorClass: 13, hitPoints: 11, hitDice: '2d8+2', speed: { walk: 40 },
+    abilityScores: scores(12, 15, 12, 3, 12, 6),
+    skills: { perception: 3, stealth: 4 },
+    senses: ['passive Perception 13'],
+    challengeRating: 0.25, xp: 50,
+    traits: [
+      { name: 'Keen Hearing and Smell', desc: 'The wolf has advantage on Wisdom (Perception) checks that rely on hearing or smell.' },
+      { name: 'Pack Tactics', desc: 'The wolf has advantage on an attack roll against a creature if at least one of the wolf\'s allies is within 5 feet of the creature and the ally isn\'t incapacitated.' },
+    ],
+    actions: [melee('Bite', 4, '2d4+2', 'piercing', '. If the target is a creature, it must succeed on a DC 11 Strength saving throw or be knocked prone.')],
+  },
+  {
+    name: 'Black Bear',
+    size: 'Medium', type: 'beast', alignment: 'unaligned',
+    armorClass: 11, hitPoints: 19, hitDice: '3d8+6', speed: { walk: 40, climb: 30 },
+    abilityScores: scores(15, 10, 14, 2, 12, 7),
+    skills: { perception: 3 },
+    senses: ['passive Perception 13'],
+    challengeRating: 0.5, xp: 100,
+    traits: [{ name: 'Keen Smell', desc: 'The bear has advantage on Wisdom (Perception) checks that rely on smell.' }],
+    actions: [
+      { name: 'Multiattack', desc: 'The bear makes two attacks: one with its bite and one with its claws.' },
+      melee('Bite', 3, '1d6+2', 'piercing'),
+      melee('Claws', 3, '2d4+2', 'slashing'),
+    ],
+  },
+  {
+    name: 'Brown Bear',
+    size: 'Large', type: 'beast', alignment: 'unaligned',
+    armorClass: 11, hitPoints: 34, hitDice: '4d10+12', speed: { walk: 40, climb: 30 },
+    abilityScores: scores(19, 10, 16, 2, 13, 7),
+    skills: { perception: 3 },
+    senses: ['passive Perception 13'],
+    challengeRating: 1, xp: 200,
+    traits: [{ name: 'Keen Smell', desc: 'The bear has advantage on Wisdom (Perception) checks that rely on smell.' }],
+    actions: [
+      { name: 'Multiattack', desc: 'The bear makes two attacks: one with its bite and one with its claws.' },
+      melee('Bite', 6, '1d8+4', 'piercing'),
+      melee('Claws', 6, '2d6+4', 'slashing'),
+    ],
+  },
+  {
+    name: 'Dire Wolf',
+    size: 'Large', type: 'beast', alignment: 'unaligned',
+    armorClass: 14, hitPoints: 37, hitDice: '5d10+10', speed: { walk: 50 },
+    abilityScores: scores(17, 15, 15, 3, 12, 7),
+    skills: { perception: 3, stealth: 4 },
+    senses: ['passive Perception 13'],
+    challengeRating: 1, xp: 200,
+    traits: [
+      { name: 'Keen Hearing and Smell', desc: 'The wolf has advantage on Wisdom (Perception) checks that rely on hearing or smell.' },
+      { name: 'Pack Tactics', desc: 'The wolf has advantage on an attack roll against a creature if at least one of the wolf\'s allies is within 5 feet of the creature and the ally isn\'t incapacitated.' },
+    ],
+    actions: [melee('Bite', 5, '2d6+3', 'piercing', '. If the target is a creature, it must succeed on a DC 13 Strength saving throw or be knocked prone.')],
+  },
+  {
+    name: 'Giant Spider',
+    size: 'Large', type: 'beast', alignment: 'unaligned',
+    armorClass: 14, hitPoints: 26, hitDice: '4d10+4', speed: { walk: 30, climb: 30 },
+    abilityScores: scores(14, 16, 12, 2, 11, 4),
+    skills: { stealth: 7 },
+    senses: ['blindsight 10 ft.', 'darkvision 60 ft.', 'passive Perception 10'],
+    challengeRating: 1, xp: 200,
+    traits: [
+      { name: 'Spider Climb', desc: 'The spider can climb difficult surfaces, including upside down on ceilings, without needing to make an ability check.' },
+      { name: 'Web Sense', desc: 'While in contact with a web, the spider knows the exact location of any other creature in contact with the same web.' },
+      { name: 'Web Walker', desc: 'The spider ignores movement restrictions caused by webbing.' },
+    ],
+    actions: [
+      {
+        name: 'Bite',
+        desc: 'Melee Weapon Attack: +5 to hit, reach 5 ft., one creature. Hit: 7 (1d8 + 3) piercing damage, and the target must make a DC 11 Constitution saving throw, taking 9 (2d8) poison damage on a failed save, or half as much damage on a successful one.',
+        attackBonus: 5,
+        damage: [{ dice: '1d8+3', type: 'piercing' }, { dice: '2d8', type: 'poison' }],
+      },
+      { name: 'Web (Recharge 5-6)', desc: 'Ranged Weapon Attack: +5 to hit, range 30/60 ft., one creature. Hit: The target is restrained by webbing. As an action, the restrained target can make a DC 12 Strength check, bursting the webbing on a success.', attackBonus: 5 },
+    ],
+  },
+  {
+    name: 'Harpy',
+    size: 'Medium', type: 'monstrosity', alignment: 'chaotic evil',
+    armorClass: 11, hitPoints: 38, hitDice: '7d8+7', speed: { walk: 20, fly: 40 },
+    abilityScores: scores(12, 13, 12, 7, 10, 13),
+    senses: ['passive Perception 10'], languages: ['Common'],
+    challengeRating: 1, xp: 200,
+    actions: [
+      { name: 'Multiattack', desc: 'The harpy makes two attacks: one with its claws and one with its club.' },
+      melee('Claws', 3, '2d4+1', 'slashing'),
+      melee('Club', 3, '1d4+1', 'bludgeoning'),
+      { name: 'Luring Song', desc: 'The harpy sings a magical melody. Every humanoid and giant within 300 feet of the harpy that can hear the song must succeed on a DC 11 Wisdom saving throw or be charmed until the song ends.' },
+    ],
+  },
+  {
+    name: 'Basilisk',
+    size: 'Medium', type: 'monstrosity', alignment: 'unaligned',
+    armorClass: 15, hitPoints: 52, hitDice: '8d8+16', speed: { walk: 20 },
+    abilityScores: scores(16, 8, 15, 2, 8, 7),
+    senses: ['darkvision 60 ft.', 'passive Perception 9'],
+    challengeRating: 3, xp: 700,
+    traits: [{ name: 'Petrifying Gaze', desc: 'If a creature starts its turn within 30 feet of the basilisk and the two of them can see each other, the basilisk can force the creature to make a DC 12 Constitution saving throw if the basilisk isn\'t incapacitated. On a failed save, the creature magically begins to turn to stone and is restrained.' }],
+    actions: [
+      {
+        name: 'Bite',
+        desc: 'Melee Weapon Attack: +5 to hit, reach 5 ft., one target. Hit: 10 (2d6 + 3) piercing damage plus 7 (2d6) poison damage.',
+        attackBonus: 5,
+        damage: [{ dice: '2d6+3', type: 'piercing' }, { dice: '2d6', type: 'poison' }],
+      },
+    ],
+  },
+  {
+    name: 'Owlbear',
+    size: 'Large', type: 'monstrosity', alignment: 'unaligned',
+    armorClass: 13, hitPoints: 59, hitDice: '7d10+21', speed: { walk: 40 },
+    abilityScores: scores(20, 12, 17, 3, 12, 7),
+    skills: { perception: 3 },
+    senses: ['darkvision 60 ft.', 'passive Perception 13'],
+    challengeRating: 3, xp: 700,
+    traits: [{ name: 'Keen Sight and Smell', desc: 'The owlbear has advantage on Wisdom (Perception) checks that rely on sight or smell.' }],
+    actions: [
+      { name: 'Multiattack', desc: 'The owlbear makes two attacks: one with its beak and one with its claws.' },
+      melee('Beak', 7, '1d10+5', 'piercing'),
+      melee('Claws', 7, '2d8+5', 'slashing'),
+    ],
+  },
+  {
+    name: 'Gelatinous Cube',
+    size: 'Large', type: 'ooze', alignment: 'unaligned',
+    armorClass: 6, hitPoints: 84, hitDice: '8d10+40', speed: { walk: 15 },
+    abilityScores: scores(14, 3, 20, 1, 6, 1),
+    conditionImmunities: ['blinded', 'charmed', 'deafened', 'exhaustion', 'frightened', 'prone'],
+    senses: ['blindsight 60 ft. (blind beyond this radius)', 'passive Perception 8'],
+    challengeRating: 2, xp: 450,
+    traits: [
+      { name: 'Ooze Cube', desc: 'The cube takes up its entire space. Other creatures can enter the space, but a creature that does so is subjected to the cube\'s Engulf and has disadvantage on the saving throw.' },
+      { name: 'Transparent', desc: 'Even when the cube is in plain sight, it takes a successful DC 15 Wisdom (Perception) check to spot a cube that has neither moved nor attacked.' },
+    ],
+    actions: [
+      { name: 'Pseudopod', desc: 'Melee Weapon Attack: +4 to hit, reach 5 ft., one creature. Hit: 10 (3d6) acid damage.', attackBonus: 4, damage: [{ dice: '3d6', type: 'acid' }] },
+      { name: 'Engulf', desc: 'The cube moves up to its speed. Each Large or smaller creature whose space it enters must make a DC 12 Dexterity saving throw. On a failed save, the creature takes 10 (3d6) acid damage and is engulfed.' },
+    ],
+  },
+];
+
+// ==========================================
+// UNDEAD
+// ==========================================
+
+const UNDEAD: MonsterStatBlock[] = [
+  {
+    name: 'Skeleton',
+    size: 'Medium', type: 'undead', alignment: 'lawful evil',
+    armorClass: 13, hitPoints: 13, hitDice: '2d8+4', speed: { walk: 30 },
+    abilityScores: scores(10, 14, 15, 6, 8, 5),
+    damageVulnerabilities: ['bludgeoning'],
+    damageImmunities: ['poison'],
+    conditionImmunities: ['exhaustion', 'poisoned'],
+    senses: ['darkvision 60 ft.', 'passive Perception 9'],
+    challengeRating: 0.25, xp: 50,
+    actions: [
+      melee('Shortsword', 4, '1d6+2', 'piercing'),
+      ranged('Shortbow', 4, '1d6+2', 'piercing', '80/320'),
+    ],
+  },
+  {
+    name: 'Zombie',
+    size: 'Medium', type: 'undead', alignment: 'neutral evil',
+    armorClass: 8, hitPoints: 22, hitDice: '3d8+9', speed: { walk: 20 },
+    abilityScores: scores(13, 6, 16, 3, 6, 5),
+    savingThrows: { wisdom: 0 },
+    damageImmunities: ['poison'],
+    conditionImmunities: ['poisoned'],
+    senses: ['darkvision 60 ft.', 'passive Perception 8'],
+    challengeRating: 0.25, xp: 50,
+    traits: [{ name: 'Undead Fortitude', desc: 'If damage reduces the zombie to 0 hit points, it must make a Constitution saving throw with a DC of 5 + the damage taken, unless the damage is radiant or from a critical hit. On a success, the zombie drops to 1 hit point instead.' }],
+    actions: [melee('Slam', 3, '1d6+1', 'bludgeoning')],
+  },
+  {
+    name: 'Ghoul',
+    size: 'Medium', type: 'undead', alignment: 'chaotic evil',
+    armorClass: 12, hitPoints: 22, hitDice: '5d8', speed: { walk: 30 },
+    abilityScores: scores(13, 15, 10, 7, 10, 6),
+    damageImmunities: ['poison'],
+    conditionImmunities: ['charmed', 'exhaustion', 'poisoned'],
+    senses: ['darkvision 60 ft.', 'passive Perception 10'], languages: ['Common'],
+    challengeRating: 1, xp: 200,
+    actions: [
+      melee('Bite', 2, '2d6+2', 'piercing'),
+      melee('Claws', 4, '2d4+2', 'slashing', '. If the target is a creature other than an elf or undead, it must succeed on a DC 10 Constitution saving throw or be paralyzed for 1 minute.'),
+    ],
+  },
+  {
+    name: 'Mummy',
+    size: 'Medium', type: 'undead', alignment: 'lawful evil',
+    armorClass: 11, hitPoints: 58, hitDice: '9d8+18', speed: { walk: 20 },
+    abilityScores: scores(16, 8, 15, 6, 10, 12),
+    savingThrows: { wisdom: 2 },
+    damageVulnerabilities: ['fire'],
+    damageResistances: ['bludgeoning', 'piercing', 'slashing'],
+    damageImmunities: ['necrotic', 'poison'],
+    conditionImmunities: ['charmed', 'exhaustion', 'frightened', 'paralyzed', 'poisoned'],
+    senses: ['darkvision 60 ft.', 'passive Perception 10'],
+    challengeRating: 3, xp: 700,
+    actions: [
+      { name: 'Multiattack', desc: 'The mummy can use its Dreadful Glare and makes one attack with its rotting fist.' },
+      {
+        name: 'Rotting Fist',
+        desc: 'Melee Weapon Attack: +5 to hit, reach 5 ft., one target. Hit: 10 (2d6 + 3) bludgeoning damage plus 10 (3d6) necrotic damage. If the target is a creature, it must succeed on a DC 12 Constitution saving throw or be cursed with mummy rot.',
+        attackBonus: 5,
+        damage: [{ dice: '2d6+3', type: 'bludgeoning' }, { dice: '3d6', type: 'necrotic' }],
+      },
+      { name: 'Dreadful Glare', desc: 'The mummy targets one creature it can see within 60 feet of it. If the target can see the mummy, it must succeed on a DC 11 Wisdom saving throw against this magic or become frightened until the end of the mummy\'s next turn.' },
+    ],
+  },
+  {
+    name: 'Wight',
+    size: 'Medium', type: 'undead', alignment: 'neutral evil',
+    armorClass: 14, hitPoints: 45, hitDice: '6d8+18', speed: { walk: 30 },
+    abilityScores: scores(15, 14, 16, 10, 13, 15),
+    skills: { perception: 3, stealth: 4 },
+    damageResistances: ['necrotic', 'bludgeoning', 'piercing', 'slashing'],
+    damageImmunities: ['poison'],
+    conditionImmunities: ['exhaustion', 'poisoned'],
+    senses: ['darkvision 60 ft.', 'passive Perception 13'], languages: ['Common'],
+    challengeRating: 3, xp: 700,
+    traits: [{ name: 'Sunlight Sensitivity', desc: 'While in sunlight, the wight has disadvantage on attack rolls, as well as on Wisdom (Perception) checks that rely on sight.' }],
+    actions: [
+      { name: 'Multiattack', desc: 'The wight makes two longsword attacks or two longbow attacks. It can use its Life Drain in place of one longsword attack.' },
+      melee('Life Drain', 4, '1d6+2', 'necrotic', '. The target must succeed on a DC 13 Constitution saving throw or its hit point maximum is reduced by an amount equal to the damage taken.'),
+      melee('Longsword', 4, '1d8+2', 'slashing', ', or 7 (1d10 + 2) slashing damage if used with two hands.'),
+      ranged('Longbow', 4, '1d8+2', 'piercing', '150/600'),
+    ],
+  },
+];
+
+// ==========================================
+// GIANTS & DRAGONS
+// ==========================================
+
+const GIANTS_AND_DRAGONS: MonsterStatBlock[] = [
+  {
+    name: 'Ogre',
+    size: 'Large', type: 'giant', alignment: 'chaotic evil',
+    armorClass: 11, hitPoints: 59, hitDice: '7d10+21', speed: { walk: 40 },
+    abilityScores: scores(19, 8, 16, 5, 7, 7),
+    senses: ['darkvision 60 ft.', 'passive Perception 8'], languages: ['Common', 'Giant'],
+    challengeRating: 2, xp: 450,
+    actions: [
+      melee('Greatclub', 6, '2d8+4', 'bludgeoning'),
+      ranged('Javelin', 6, '2d6+4', 'piercing', '30/120'),
+    ],
+  },
+  {
+    name: 'Troll',
+    size: 'Large', type: 'giant', alignment: 'chaotic evil',
+    armorClass: 15, hitPoints: 84, hitDice: '8d10+40', speed: { walk: 30 },
+    abilityScores: scores(18, 13, 20, 7, 9, 7),
+    skills: { perception: 2 },
+    senses: ['darkvision 60 ft.', 'passive Perception 12'], languages: ['Giant'],
+    challengeRating: 5, xp: 1800,
+    traits: [
+      { name: 'Keen Smell', desc: 'The troll has advantage on Wisdom (Perception) checks that rely on smell.' },
+      { name: 'Regeneration', desc: 'The troll regains 10 hit points at the start of its turn. If the troll takes acid or fire damage, this trait doesn\'t function at the start of the troll\'s next turn. The troll dies only if it starts its turn with 0 hit points and doesn\'t regenerate.' },
+    ],
+    actions: [
+      { name: 'Multiattack', desc: 'The troll makes three attacks: one with its bite and two with its claws.' },
+      melee('Bite', 7, '1d6+4', 'piercing'),
+      melee('Claw', 7, '2d6+4', 'slashing'),
+    ],
+  },
+  {
+    name: 'Young Red Dragon',
+    size: 'Large', type: 'dragon', alignment: 'chaotic evil',
+    armorClass: 18, hitPoints: 178, hitDice: '17d10+85', speed: { walk: 40, climb: 40, fly: 80 },
+    abilityScores: scores(23, 10, 21, 14, 11, 19),
+    savingThrows: { dexterity: 4, constitution: 9, wisdom: 4, charisma: 8 },
+    skills: { perception: 8, stealth: 4 },
+    damageImmunities: ['fire'],
+    senses: ['blindsight 30 ft.', 'darkvision 120 ft.', 'passive Perception 18'], languages: ['Common', 'Draconic'],
+    challengeRating: 10, xp: 5900,
+    actions: [
+      { name: 'Multiattack', desc: 'The dragon makes three attacks: one with its bite and two with its claws.' },
+      {
+        name: 'Bite',
+        desc: 'Melee Weapon Attack: +10 to hit, reach 10 ft., one target. Hit: 17 (2d10 + 6) piercing damage plus 3 (1d6) fire damage.',
+        attackBonus: 10,
+        damage: [{ dice: '2d10+6', type: 'piercing' }, { dice: '1d6', type: 'fire' }],
+      },
+      melee('Claw', 10, '2d6+6', 'slashing'),
+      { name: 'Fire Breath (Recharge 5-6)', desc: 'The dragon exhales fire in a 30-foot cone. Each creature in that area must make a DC 17 Dexterity saving throw, taking 56 (16d6) fire damage on a failed save, or half as much damage on a successful one.', damage: [{ dice: '16d6', type: 'fire' }] },
+    ],
+  },
+  {
+    name: 'Adult Red Dragon',
+    size: 'Huge', type: 'dragon', alignment: 'chaotic evil',
+    armorClass: 19, hitPoints: 256, hitDice: '19d12+133', speed: { walk: 40, climb: 40, fly: 80 },
+    abilityScores: scores(27, 10, 25, 16, 13, 21),
+    savingThrows: { dexterity: 6, constitution: 13, wisdom: 7, charisma: 11 },
+    skills: { perception: 13, stealth: 6 },
+    damageImmunities: ['fire'],
+    senses: ['blindsight 60 ft.', 'darkvision 120 ft.', 'passive Perception 23'], languages: ['Common', 'Draconic'],
+    challengeRating: 17, xp: 18000,
+    traits: [{ name: 'Legendary Resistance (3/Day)', desc: 'If the dragon fails a saving throw, it can choose to succeed instead.' }],
+    actions: [
+      { name: 'Multiattack', desc: 'The dragon can use its Frightful Presence. It then makes three attacks: one with its bite and two with its claws.' },
+      {
+        name: 'Bite',
+        desc: 'Melee Weapon Attack: +14 to hit, reach 10 ft., one target. Hit: 19 (2d10 + 8) piercing damage plus 7 (2d6) fire damage.',
+        attackBonus: 14,
+        damage: [{ dice: '2d10+8', type: 'piercing' }, { dice: '2d6', type: 'fire' }],
+      },
+      melee('Claw', 14, '2d6+8', 'slashing'),
+      melee('Tail', 14, '2d8+8', 'bludgeoning', '', 15),
+      { name: 'Frightful Presence', desc: 'Each creature of the dragon\'s choice that is within 120 feet of the dragon and aware of it must succeed on a DC 19 Wisdom saving throw or become frightened for 1 minute.' },
+      { name: 'Fire Breath (Recharge 5-6)', desc: 'The dragon exhales fire in a 60-foot cone. Each creature in that area must make a DC 21 Dexterity saving throw, taking 63 (18d6) fire damage on a failed save, or half as much damage on a successful one.', damage: [{ dice: '18d6', type: 'fire' }] },
+    ],
+    legendaryActions: [
+      { name: 'Detect', desc: 'The dragon makes a Wisdom (Perception) check.' },
+      { name: 'Tail Attack', desc: 'The dragon makes a tail attack.' },
+      { name: 'Wing Attack (Costs 2 Actions)', desc: 'The dragon beats its wings. Each creature within 10 feet of the dragon must succeed on a DC 22 Dexterity saving throw or take 15 (2d6 + 8) bludgeoning damage and be knocked prone. The dragon can then fly up to half its flying speed.', damage: [{ dice: '2d6+8', type: 'bludgeoning' }] },
+    ],
+    lairActions: [
+      { name: 'Magma Eruption', desc: 'Magma bursts from a point the dragon can see within 120 feet, a 5-foot-radius geyser 20 feet high. Each creature in it makes a DC 15 Dexterity saving throw, taking 21 (6d6) fire damage on a failure or half as much on a success.', damage: [{ dice: '6d6', type: 'fire' }] },
+      { name: 'Tremor', desc: 'The lair shakes within 60 feet of the dragon. Each other creature on the ground there must succeed on a DC 15 Dexterity saving throw or be knocked prone.' },
+      { name: 'Volcanic Gases', desc: 'A 20-foot-radius cloud of gas fills a point the dragon can see within 120 feet until initiative count 20 next round. A creature that starts its turn in it must succeed on a DC 13 Constitution saving throw or be poisoned until the end of its turn.' },
+    ],
+  },
+];
+
+export const SRD_MONSTERS: MonsterStatBlock[] = [
+  ...HUMANOIDS,
+  ...BEASTS,
+  ...UNDEAD,
+  ...GIANTS_AND_DRAGONS,
+];
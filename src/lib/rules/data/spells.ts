@@ -0,0 +1,492 @@
+/**
+ * SRD Spells
+ *
+ * Hand-tuned 5e SRD spells (cantrips through 5th level) with the mechanical
+ * fields the engines need: damage by slot, save DC ability, area. These replace
+ * the generated entries in srd/spells.json of the same name.
+ */
+
+import type { SpellDefinition } from '../types';
+
+// ==========================================
+// CANTRIPS
+// ==========================================
+
+const CANTRIPS: SpellDefinition[] = [
+  {
+    name: 'Fire Bolt', level: 0, school: 'evocation',
+    castingTime: '1 action', range: '120 feet', components: ['V', 'S'], duration: 'Instantaneous',
+    concentration: false, ritual: false,
+    description: 'You hurl a mote of fire at a creature or object within range. Make a ranged spell attack against the target. On a hit, the target takes 1d10 fire damage. A flammable object hit by this spell ignites if it isn\'t being worn or carried.',
+    higherLevel: 'This spell\'s damage increases by 1d10 when you reach 5th level (2d10), 11th level (3d10), and 17th level (4d10).',
+    classes: ['Sorcerer', 'Wizard'],
+    attackType: 'ranged',
+    damage: { type: 'fire', atCharacterLevel: { '1': '1d10', '5': '2d10', '11': '3d10', '17': '4d10' } },
+  },
+  {
+    name: 'Ray of Frost', level: 0, school: 'evocation',
+    castingTime: '1 action', range: '60 feet', components: ['V', 'S'], duration: 'Instantaneous',
+    concentration: false, ritual: false,
+    description: 'A frigid beam of blue-white light streaks toward a creature within range. Make a ranged spell attack against the target. On a hit, it takes 1d8 cold damage, and its speed is reduced by 10 feet until the start of your next turn.',
+    higherLevel: 'The spell\'s damage increases by 1d8 when you reach 5th level (2d8), 11th level (3d8), and 17th level (4d8).',
+    classes: ['Sorcerer', 'Wizard'],
+    attackType: 'ranged',
+    damage: { type: 'cold', atCharacterLevel: { '1': '1d8', '5': '2d8', '11': '3d8', '17': '4d8' } },
+  },
+  {
+    name: 'Shocking Grasp', level: 0, school: 'evocation',
+    castingTime: '1 action', range: 'Touch', components: ['V', 'S'], duration: 'Instantaneous',
+    concentration: false, ritual: false,
+    description: 'Lightning springs from your hand to deliver a shock to a creature you try to touch. Make a melee spell attack against the target. You have advantage on the attack roll if the target is wearing armor made of metal. On a hit, the target takes 1d8 lightning damage, and it can\'t take reactions until the start of its next turn.',
+    higherLevel: 'The spell\'s damage increases by 1d8 when you reach 5th level (2d8), 11th level (3d8), and 17th level (4d8).',
+    classes: ['Sorcerer', 'Wizard'],
+    attackType: 'melee',
+    damage: { type: 'lightning', atCharacterLevel: { '1': '1d8', '5': '2d8', '11': '3d8', '17': '4d8' } },
+  },
+  {
+    name: 'Sacred Flame', level: 0, school: 'evocation',
+    castingTime: '1 action', range: '60 feet', components: ['V', 'S'], duration: 'Instantaneous',
+    concentration: false, ritual: false,
+    description: 'Flame-like radiance descends on a creature that you can see within range. The target must succeed on a Dexterity saving throw or take 1d8 radiant damage. The target gains no benefit from cover for this saving throw.',
+    higherLevel: 'The spell\'s damage increases by 1d8 when you reach 5th level (2d8), 11th level (3d8), and 17th level (4d8).',
+    classes: ['Cleric'],
+    damage: { type: 'radiant', atCharacterLevel: { '1': '1d8', '5': '2d8', '11': '3d8', '17': '4d8' } },
+    dc: { type: 'dexterity', success: 'none' },
+  },
+  {
+    name: 'Eldritch Blast', level: 0, school: 'evocation',
+    castingTime: '1 action', range: '120 feet', components: ['V', 'S'], duration: 'Instantaneous',
+    concentration: false, ritual: false,
+    description: 'A beam of crackling energy streaks toward a creature within range. Make a ranged spell attack against the target. On a hit, the target takes 1d10 force damage.',
+    higherLevel: 'The spell creates more than one beam when you reach higher levels: two beams at 5th level, three beams at 11th level, and four beams at 17th level.',
+    classes: ['Warlock'],
+    attackType: 'ranged',
+    damage: { type: 'force', atCharacterLevel: { '1': '1d10' } },
+  },
+  {
+    name: 'Vicious Mockery', level: 0, school: 'enchantment',
+    castingTime: '1 action', range: '60 feet', components: ['V'], duration: 'Instantaneous',
+    concentration: false, ritual: false,
+    description: 'You unleash a string of insults laced with subtle enchantments at a creature you can see within range. If the target can hear you, it must succeed on a Wisdom saving throw or take 1d4 psychic damage and have disadvantage on the next attack roll it makes before the end of its next turn.',
+    higherLevel: 'This spell\'s damage increases by 1d4 when you reach 5th level (2d4), 11th level (3d4), and 17th level (4d4).',
+    classes: ['Bard'],
+    damage: { type: 'psychic', atCharacterLevel: { '1': '1d4', '5': '2d4', '11': '3d4', '17': '4d4' } },
+    dc: { type: 'wisdom', success: 'none' },
+  },
+  {
+    name: 'Poison Spray', level: 0, school: 'conjuration',
+    castingTime: '1 action', range: '10 feet', components: ['V', 'S'], duration: 'Instantaneous',
+    concentration: false, ritual: false,
+    description: 'You extend your hand toward a creature you can see within range and project a puff of noxious gas from your palm. The creature must succeed on a Constitution saving throw or take 1d12 poison damage.',
+    higherLevel: 'This spell\'s damage increases by 1d12 when you reach 5th level (2d12), 11th level (3d12), and 17th level (4d12).',
+    classes: ['Druid', 'Sorcerer', 'Warlock', 'Wizard'],
+    damage: { type: 'poison', atCharacterLevel: { '1': '1d12', '5': '2d12', '11': '3d12', '17': '4d12' } },
+    dc: { type: 'constitution', success: 'none' },
+  },
+  {
+    name: 'Guidance', level: 0, school: 'divination',
+    castingTime: '1 action', range: 'Touch', components: ['V', 'S'], duration: 'Up to 1 minute',
+    concentration: true, ritual: false,
+    description: 'You touch one willing creature. Once before the spell ends, the target can roll a d4 and add the number rolled to one ability check of its choice.',
+    classes: ['Cleric', 'Druid'],
+  },
+  {
+    name: 'Light', level: 0, school: 'evocation',
+    castingTime: '1 action', range: 'Touch', components: ['V', 'M'], material: 'A firefly or phosphorescent moss', duration: '1 hour',
+    concentration: false, ritual: false,
+    description: 'You touch one object that is no larger than 10 feet in any dimension. Until the spell ends, the object sheds bright light in a 20-foot radius and dim light for an additional 20 feet.',
+    classes: ['Bard', 'Cleric', 'Sorcerer', 'Wizard'],
+  },
+  {
+    name: 'Mage Hand', level: 0, school: 'conjuration',
+    castingTime: '1 action', range: '30 feet', components: ['V', 'S'], duration: '1 minute',
+    concentration: false, ritual: false,
+    description: 'A spectral, floating hand appears at a point you choose within range. You can use the hand to manipulate an object, open an unlocked door or container, stow or retrieve an item from an open container, or pour the contents out of a vial. The hand can\'t attack, activate magic items, or carry more than 10 pounds.',
+    classes: ['Bard', 'Sorcerer', 'Warlock', 'Wizard'],
+  },
+  {
+    name: 'Prestidigitation', level: 0, school: 'transmutation',
+    castingTime: '1 action', range: '10 feet', components: ['V', 'S'], duration: 'Up to 1 hour',
+    concentration: false, ritual: false,
+    description: 'This spell is a minor magical trick that novice spellcasters use for practice. You create an instantaneous, harmless sensory effect, light or snuff a small flame, clean or soil an object, chill, warm or flavor material, or make a small mark or trinket appear.',
+    classes: ['Bard', 'Sorcerer', 'Warlock', 'Wizard'],
+  },
+];
+
+// ==========================================
+// 1ST LEVEL
+// ==========================================
+
+const FIRST_LEVEL: SpellDefinition[] = [
+  {
+    name: 'Magic Missile', level: 1, school: 'evocation',
+    castingTime: '1 action', range: '120 feet', components: ['V', 'S'], duration: 'Instantaneous',
+    concentration: false, ritual: false,
+    description: 'You create three glowing darts of magical force. Each dart hits a creature of your choice that you can see within range. A dart deals 1d4 + 1 force damage to its target. The darts all strike simultaneously.',
+    higherLevel: 'When you cast this spell using a spell slot of 2nd level or higher, the spell creates one more dart for each slot level above 1st.',
+    classes: ['Sorcerer', 'Wizard'],
+    damage: { type: 'force', atSlotLevel: { '1': '3d4+3', '2': '4d4+4', '3': '5d4+5', '4': '6d4+6', '5': '7d4+7' } },
+  },
+  {
+    name: 'Burning Hands', level: 1, school: 'evocation',
+    castingTime: '1 action', range: 'Self (15-foot cone)', components: ['V', 'S'], duration: 'Instantaneous',
+    concentration: false, ritual: false,
+    description: 'As you hold your hands with thumbs touching and fingers spread, a thin sheet of flames shoots forth. Each creature in a 15-foot cone must make a Dexterity saving throw. A creature takes 3d6 fire damage on a failed save, or half as much damage on a successful one.',
+    higherLevel: 'When you cast this spell using a spell slot of 2nd level or higher, the damage increases by 1d6 for each slot level above 1st.',
+    classes: ['Sorcerer', 'Wizard'],
+    damage: { type: 'fire', atSlotLevel: { '1': '3d6', '2': '4d6', '3': '5d6', '4': '6d6', '5': '7d6' } },
+    dc: { type: 'dexterity', success: 'half' },
+    areaOfEffect: { type: 'cone', size: 15 },
+  },
+  {
+    name: 'Thunderwave', level: 1, school: 'evocation',
+    castingTime: '1 action', range: 'Self (15-foot cube)', components: ['V', 'S'], duration: 'Instantaneous',
+    concentration: false, ritual: false,
+    description: 'A wave of thunderous force sweeps out from you. Each creature in a 15-foot cube originating from you must make a Constitution saving throw. On a failed save, a creature takes 2d8 thunder damage and is pushed 10 feet away from you. On a successful save, the creature takes half as much damage and isn\'t pushed.',
+    higherLevel: 'When you cast this spell using a spell slot of 2nd level or higher, the damage increases by 1d8 for each slot level above 1st.',
+    classes: ['Bard', 'Druid', 'Sorcerer', 'Wizard'],
+    damage: { type: 'thunder', atSlotLevel: { '1': '2d8', '2': '3d8', '3': '4d8', '4': '5d8', '5': '6d8' } },
+    dc: { type: 'constitution', success: 'half' },
+    areaOfEffect: { type: 'cube', size: 15 },
+  },
+  {
+    name: 'Guiding Bolt', level: 1, school: 'evocation',
+    castingTime: '1 action', range: '120 feet', components: ['V', 'S'], duration: '1 round',
+    concentration: false, ritual: false,
+    description: 'A flash of light streaks toward a creature of your choice within range. Make a ranged spell attack against the target. On a hit, the target takes 4d6 radiant damage, and the next attack roll made against this target before the end of your next turn has advantage.',
+    higherLevel: 'When you cast this spell using a spell slot of 2nd level or higher, the damage increases by 1d6 for each slot level above 1st.',
+    classes: ['Cleric'],
+    attackType: 'ranged',
+    damage: { type: 'radiant', atSlotLevel: { '1': '4d6', '2': '5d6', '3': '6d6', '4': '7d6', '5': '8d6' } },
+  },
+  {
+    name: 'Inflict Wounds', level: 1, school: 'necromancy',
+    castingTime: '1 action', range: 'Touch', components: ['V', 'S'], duration: 'Instantaneous',
+    concentration: false, ritual: false,
+    description: 'Make a melee spell attack against a creature you can reach. On a hit, the target takes 3d10 necrotic damage.',
+    higherLevel: 'When you cast this spell using a spell slot of 2nd level or higher, the damage increases by 1d10 for each slot level above 1st.',
+    classes: ['Cleric'],
+    attackType: 'melee',
+    damage: { type: 'necrotic', atSlotLevel: { '1': '3d10', '2': '4d10', '3': '5d10', '4': '6d10', '5': '7d10' } },
+  },
+  {
+    name: 'Cure Wounds', level: 1, school: 'evocation',
+    castingTime: '1 action', range: 'Touch', components: ['V', 'S'], duration: 'Instantaneous',
+    concentration: false, ritual: false,
+    description: 'A creature you touch regains a number of hit points equal to 1d8 + your spellcasting ability modifier. This spell has no effect on undead or constructs.',
+    higherLevel: 'When you cast this spell using a spell slot of 2nd level or higher, the healing increases by 1d8 for each slot level above 1st.',
+    classes: ['Bard', 'Cleric', 'Druid', 'Paladin', 'Ranger'],
+    heal: { atSlotLevel: { '1': '1d8', '2': '2d8', '3': '3d8', '4': '4d8', '5': '5d8' } },
+  },
+  {
+    name: 'Healing Word', level: 1, school: 'evocation',
+    castingTime: '1 bonus action', range: '60 feet', components: ['V'], duration: 'Instantaneous',
+    concentration: false, ritual: false,
+    description: 'A creature of your choice that you can see within range regains hit points equal to 1d4 + your spellcasting ability modifier. This spell has no effect on undead or constructs.',
+    higherLevel: 'When you cast this spell using a spell slot of 2nd level or higher, the healing increases by 1d4 for each slot level above 1st.',
+    classes: ['Bard', 'Cleric', 'Druid'],
+    heal: { atSlotLevel: { '1': '1d4', '2': '2d4', '3': '3d4', '4': '4d4', '5': '5d4' } },
+  },
+  {
+    name: 'Bless', level: 1, school: 'enchantment',
+    castingTime: '1 action', range: '30 feet', components: ['V', 'S', 'M'], material: 'A sprinkling of holy water', duration: 'Up to 1 minute',
+    concentration: true, ritual: false,
+    description: 'You bless up to three creatures of your choice within range. Whenever a target makes an attack roll or a saving throw before the spell ends, the target can roll a d4 and add the number rolled to the attack roll or saving throw.',
+    higherLevel: 'When you cast this spell using a spell slot of 2nd level or higher, you can target one additional creature for each slot level above 1st.',
+    classes: ['Cleric', 'Paladin'],
+  },
+  {
+    name: 'Shield', level: 1, school: 'abjuration',
+    castingTime: '1 reaction', range: 'Self', components: ['V', 'S'], duration: '1 round',
+    concentration: false, ritual: false,
+    description: 'An invisible barrier of magical force appears and protects you. Until the start of your next turn, you have a +5 bonus to AC, including against the triggering attack, and you take no damage from magic missile.',
+    classes: ['Sorcerer', 'Wizard'],
+  },
+  {
+    name: 'Mage Armor', level: 1, school: 'abjuration',
+    castingTime: '1 action', range: 'Touch', components: ['V', 'S', 'M'], material: 'A piece of cured leather', duration: '8 hours',
+    concentration: false, ritual: false,
+    description: 'You touch a willing creature who isn\'t wearing armor, and a protective magical force surrounds it until the spell ends. The target\'s base AC becomes 13 + its Dexterity modifier.',
+    classes: ['Sorcerer', 'Wizard'],
+  },
+  {
+    name: 'Sleep', level: 1, school: 'enchantment',
+    castingTime: '1 action', range: '90 feet', components: ['V', 'S', 'M'], material: 'A pinch of fine sand, rose petals, or a cricket', duration: '1 minute',
+    concentration: false, ritual: false,
+    description: 'This spell sends creatures into a magical slumber. Roll 5d8; the total is how many hit points of creatures this spell can affect. Creatures within 20 feet of a point you choose are affected in ascending order of their current hit points, falling unconscious until the spell ends, the sleeper takes damage, or someone uses an action to wake it.',
+    higherLevel: 'When you cast this spell using a spell slot of 2nd level or higher, roll an additional 2d8 for each slot level above 1st.',
+    classes: ['Bard', 'Sorcerer', 'Wizard'],
+    areaOfEffect: { type: 'sphere', size: 20 },
+  },
+  {
+    name: 'Charm Person', level: 1, school: 'enchantment',
+    castingTime: '1 action', range: '30 feet', components: ['V', 'S'], duration: '1 hour',
+    concentration: false, ritual: false,
+    description: 'You attempt to charm a humanoid you can see within range. It must make a Wisdom saving throw, and does so with advantage if you or your companions are fighting it. If it fails the saving throw, it is charmed by you until the spell ends or until you or your companions do anything harmful to it.',
+    higherLevel: 'When you cast this spell using a spell slot of 2nd level or higher, you can target one additional creature for each slot level above 1st.',
+    classes: ['Bard', 'Druid', 'Sorcerer', 'Warlock', 'Wizard'],
+    dc: { type: 'wisdom', success: 'none' },
+  },
+  {
+    name: 'Command', level: 1, school: 'enchantment',
+    castingTime: '1 action', range: '60 feet', components: ['V'], duration: '1 round',
+    concentration: false, ritual: false,
+    description: 'You speak a one-word command to a creature you can see within range. The target must succeed on a Wisdom saving throw or follow the command (approach, drop, flee, grovel, halt) on its next turn.',
+    higherLevel: 'When you cast this spell using a spell slot of 2nd level or higher, you can affect one additional creature for each slot level above 1st.',
+    classes: ['Cleric', 'Paladin'],
+    dc: { type: 'wisdom', success: 'none' },
+  },
+  {
+    name: 'Detect Magic', level: 1, school: 'divination',
+    castingTime: '1 action', range: 'Self', components: ['V', 'S'], duration: 'Up to 10 minutes',
+    concentration: true, ritual: true,
+    description: 'For the duration, you sense the presence of magic within 30 feet of you. If you sense magic in this way, you can use your action to see a faint aura around any visible creature or object in the area that bears magic, and you learn its school of magic, if any.',
+    classes: ['Bard', 'Cleric', 'Druid', 'Paladin', 'Ranger', 'Sorcerer', 'Wizard'],
+  },
+  {
+    name: 'Faerie Fire', level: 1, school: 'evocation',
+    castingTime: '1 action', range: '60 feet', components: ['V'], duration: 'Up to 1 minute',
+    concentration: true, ritual: false,
+    description: 'Each object in a 20-foot cube within range is outlined in blue, green, or violet light. Any creature in the area when the spell is cast is also outlined if it fails a Dexterity saving throw. Attack rolls against an affected creature or object have advantage if the attacker can see it, and it can\'t benefit from being invisible.',
+    classes: ['Bard', 'Druid'],
+    dc: { type: 'dexterity', success: 'none' },
+    areaOfEffect: { type: 'cube', size: 20 },
+  },
+  {
+    name: 'Entangle', level: 1, school: 'conjuration',
+    castingTime: '1 action', range: '90 feet', components: ['V', 'S'], duration: 'Up to 1 minute',
+    concentration: true, ritual: false,
+    description: 'Grasping weeds and vines sprout from the ground in a 20-foot square starting from a point within range. The area becomes difficult terrain. A creature in the area when you cast the spell must succeed on a Strength saving throw or be restrained by the entangling plants until the spell ends.',
+    classes: ['Druid'],
+    dc: { type: 'strength', success: 'none' },
+    areaOfEffect: { type: 'cube', size: 20 },
+  },
+  {
+    name: 'Hunter\'s Mark', level: 1, school: 'divination',
+    castingTime: '1 bonus action', range: '90 feet', components: ['V'], duration: 'Up to 1 hour',
+    concentration: true, ritual: false,
+    description: 'You choose a creature you can see within range and mystically mark it as your quarry. Until the spell ends, you deal an extra 1d6 damage to the target whenever you hit it with a weapon attack, and you have advantage on any Wisdom (Perception) or Wisdom (Survival) check you make to find it.',
+    higherLevel: 'When you cast this spell using a spell slot of 3rd or 4th level, you can maintain your concentration on the spell for up to 8 hours. When you use a spell slot of 5th level or higher, you can maintain your concentration on the spell for up to 24 hours.',
+    classes: ['Ranger'],
+  },
+];
+
+// ==========================================
+// 2ND LEVEL
+// ==========================================
+
+const SECOND_LEVEL: SpellDefinition[] = [
+  {
+    name: 'Scorching Ray', level: 2, school: 'evocation',
+    castingTime: '1 action', range: '120 feet', components: ['V', 'S'], duration: 'Instantaneous',
+    concentration: false, ritual: false,
+    description: 'You create three rays of fire and hurl them at targets within range. You can hurl them at one target or several. Make a ranged spell attack for each ray. On a hit, the target takes 2d6 fire damage.',
+    higherLevel: 'When you cast this spell using a spell slot of 3rd level or higher, you create one additional ray for each slot level above 2nd.',
+    classes: ['Sorcerer', 'Wizard'],
+    attackType: 'ranged',
+    damage: { type: 'fire', atSlotLevel: { '2': '2d6', '3': '2d6', '4': '2d6', '5': '2d6' } },
+  },
+  {
+    name: 'Shatter', level: 2, school: 'evocation',
+    castingTime: '1 action', range: '60 feet', components: ['V', 'S', 'M'], material: 'A chip of mica', duration: 'Instantaneous',
+    concentration: false, ritual: false,
+    description: 'A sudden loud ringing noise, painfully intense, erupts from a point of your choice within range. Each creature in a 10-foot-radius sphere centered on that point must make a Constitution saving throw. A creature takes 3d8 thunder damage on a failed save, or half as much damage on a successful one.',
+    higherLevel: 'When you cast this spell using a spell slot of 3rd level or higher, the damage increases by 1d8 for each slot level above 2nd.',
+    classes: ['Bard', 'Sorcerer', 'Warlock', 'Wizard'],
+    damage: { type: 'thunder', atSlotLevel: { '2': '3d8', '3': '4d8', '4': '5d8', '5': '6d8' } },
+    dc: { type: 'constitution', success: 'half' },
+    areaOfEffect: { type: 'sphere', size: 10 },
+  },
+  {
+    name: 'Spiritual Weapon', level: 2, school: 'evocation',
+    castingTime: '1 bonus action', range: '60 feet', components: ['V', 'S'], duration: '1 minute',
+    concentration: false, ritual: false,
+    description: 'You create a floating, spectral weapon within range. When you cast the spell, you can make a melee spell attack against a creature within 5 feet of the weapon. On a hit, the target takes force damage equal to 1d8 + your spellcasting ability modifier. As a bonus action on your turn, you can move the weapon up to 20 feet and repeat the attack.',
+    higherLevel: 'When you cast this spell using a spell slot of 3rd level or higher, the damage increases by 1d8 for every two slot levels above 2nd.',
+    classes: ['Cleric'],
+    attackType: 'melee',
+    damage: { type: 'force', atSlotLevel: { '2': '1d8', '3': '1d8', '4': '2d8', '5': '2d8' } },
+  },
+  {
+    name: 'Hold Person', level: 2, school: 'enchantment',
+    castingTime: '1 action', range: '60 feet', components: ['V', 'S', 'M'], material: 'A small, straight piece of iron', duration: 'Up to 1 minute',
+    concentration: true, ritual: false,
+    description: 'Choose a humanoid that you can see within range. The target must succeed on a Wisdom saving throw or be paralyzed for the duration. At the end of each of its turns, the target can make another Wisdom saving throw. On a success, the spell ends on the target.',
+    higherLevel: 'When you cast this spell using a spell slot of 3rd level or higher, you can target one additional humanoid for each slot level above 2nd.',
+    classes: ['Bard', 'Cleric', 'Druid', 'Sorcerer', 'Warlock', 'Wizard'],
+    dc: { type: 'wisdom', success: 'none' },
+  },
+  {
+    name: 'Misty Step', level: 2, school: 'conjuration',
+    castingTime: '1 bonus action', range: 'Self', components: ['V'], duration: 'Instantaneous',
+    concentration: false, ritual: false,
+    description: 'Briefly surrounded by silvery mist, you teleport up to 30 feet to an unoccupied space that you can see.',
+    classes: ['Sorcerer', 'Warlock', 'Wizard'],
+  },
+  {
+    name: 'Invisibility', level: 2, school: 'illusion',
+    castingTime: '1 action', range: 'Touch', components: ['V', 'S', 'M'], material: 'An eyelash encased in gum arabic', duration: 'Up to 1 hour',
+    concentration: true, ritual: false,
+    description: 'A creature you touch becomes invisible until the spell ends. Anything the target is wearing or carrying is invisible as long as it is on the target\'s person. The spell ends for a target that attacks or casts a spell.',
+    higherLevel: 'When you cast this spell using a spell slot of 3rd level or higher, you can target one additional creature for each slot level above 2nd.',
+    classes: ['Bard', 'Sorcerer', 'Warlock', 'Wizard'],
+  },
+  {
+    name: 'Web', level: 2, school: 'conjuration',
+    castingTime: '1 action', range: '60 feet', components: ['V', 'S', 'M'], material: 'A bit of spiderweb', duration: 'Up to 1 hour',
+    concentration: true, ritual: false,
+    description: 'You conjure a mass of thick, sticky webbing at a point of your choice within range. The webs fill a 20-foot cube and are difficult terrain. Each creature that starts its turn in the webs or enters them must make a Dexterity saving throw. On a failed save, the creature is restrained as long as it remains in the webs or until it breaks free.',
+    classes: ['Sorcerer', 'Wizard'],
+    dc: { type: 'dexterity', success: 'none' },
+    areaOfEffect: { type: 'cube', size: 20 },
+  },
+  {
+    name: 'Lesser Restoration', level: 2, school: 'abjuration',
+    castingTime: '1 action', range: 'Touch', components: ['V', 'S'], duration: 'Instantaneous',
+    concentration: false, ritual: false,
+    description: 'You touch a creature and can end either one disease or one condition afflicting it. The condition can be blinded, deafened, paralyzed, or poisoned.',
+    classes: ['Bard', 'Cleric', 'Druid', 'Paladin', 'Ranger'],
+  },
+];
+
+// ==========================================
+// 3RD-5TH LEVEL
+// ==========================================
+
+const HIGHER_LEVEL: SpellDefinition[] = [
+  {
+    name: 'Fireball', level: 3, school: 'evocation',
+    castingTime: '1 action', range: '150 feet', components: ['V', 'S', 'M'], material: 'A tiny ball of bat guano and sulfur', duration: 'Instantaneous',
+    concentration: false, ritual: false,
+    description: 'A bright streak flashes from your pointing finger to a point you choose within range and then blossoms with a low roar into an explosion of flame. Each creature in a 20-foot-radius sphere centered on that point must make a Dexterity saving throw. A target takes 8d6 fire damage on a failed save, or half as much damage on a successful one.',
+    higherLevel: 'When you cast this spell using a spell slot of 4th level or higher, the damage increases by 1d6 for each slot level above 3rd.',
+    classes: ['Sorcerer', 'Wizard'],
+    damage: { type: 'fire', atSlotLevel: { '3': '8d6', '4': '9d6', '5': '10d6', '6': '11d6', '7': '12d6', '8': '13d6', '9': '14d6' } },
+    dc: { type: 'dexterity', success: 'half' },
+    areaOfEffect: { type: 'sphere', size: 20 },
+  },
+  {
+    name: 'Lightning Bolt', level: 3, school: 'evocation',
+    castingTime: '1 action', range: 'Self (100-foot line)', components: ['V', 'S', 'M'], material: 'A bit of fur and a rod of amber, crystal, or glass', duration: 'Instantaneous',
+    concentration: false, ritual: false,
+    description: 'A stroke of lightning forming a line 100 feet long and 5 feet wide blasts out from you in a direction you choose. Each creature in the line must make a Dexterity saving throw. A creature takes 8d6 lightning damage on a failed save, or half as much damage on a successful one.',
+    higherLevel: 'When you cast this spell using a spell slot of 4th level or higher, the damage increases by 1d6 for each slot level above 3rd.',
+    classes: ['Sorcerer', 'Wizard'],
+    damage: { type: 'lightning', atSlotLevel: { '3': '8d6', '4': '9d6', '5': '10d6', '6': '11d6', '7': '12d6', '8': '13d6', '9': '14d6' } },
+    dc: { type: 'dexterity', success: 'half' },
+    areaOfEffect: { type: 'line', size: 100 },
+  },
+  {
+    name: 'Spirit Guardians', level: 3, school: 'conjuration',
+    castingTime: '1 action', range: 'Self (15-foot radius)', components: ['V', 'S', 'M'], material: 'A holy symbol', duration: 'Up to 10 minutes',
+    concentration: true, ritual: false,
+    description: 'You call forth spirits to protect you. They flit around you to a distance of 15 feet for the duration. An affected creature\'s speed is halved in the area, and when the creature enters the area for the first time on a turn or starts its turn there, it must make a Wisdom saving throw. On a failed save, the creature takes 3d8 radiant damage (or necrotic if you are evil). On a successful save, the creature takes half as much damage.',
+    higherLevel: 'When you cast this spell using a spell slot of 4th level or higher, the damage increases by 1d8 for each slot level above 3rd.',
+    classes: ['Cleric'],
+    damage: { type: 'radiant', atSlotLevel: { '3': '3d8', '4': '4d8', '5': '5d8', '6': '6d8', '7': '7d8', '8': '8d8', '9': '9d8' } },
+    dc: { type: 'wisdom', success: 'half' },
+    areaOfEffect: { type: 'sphere', size: 15 },
+  },
+  {
+    name: 'Counterspell', level: 3, school: 'abjuration',
+    castingTime: '1 reaction', range: '60 feet', components: ['S'], duration: 'Instantaneous',
+    concentration: false, ritual: false,
+    description: 'You attempt to interrupt a creature in the process of casting a spell. If the creature is casting a spell of 3rd level or lower, its spell fails and has no effect. If it is casting a spell of 4th level or higher, make an ability check using your spellcasting ability. The DC equals 10 + the spell\'s level. On a success, the creature\'s spell fails and has no effect.',
+    higherLevel: 'When you cast this spell using a spell slot of 4th level or higher, the interrupted spell has no effect if its level is less than or equal to the level of the spell slot you used.',
+    classes: ['Sorcerer', 'Warlock', 'Wizard'],
+  },
+  {
+    name: 'Dispel Magic', level: 3, school: 'abjuration',
+    castingTime: '1 action', range: '120 feet', components: ['V', 'S'], duration: 'Instantaneous',
+    concentration: false, ritual: false,
+    description: 'Choose one creature, object, or magical effect within range. Any spell of 3rd level or lower on the target ends. For each spell of 4th level or higher on the target, make an ability check using your spellcasting ability. The DC equals 10 + the spell\'s level. On a successful check, the spell ends.',
+    higherLevel: 'When you cast this spell using a spell slot of 4th level or higher, you automatically end the effects of a spell on the target if the spell\'s level is equal to or less than the level of the spell slot you used.',
+    classes: ['Bard', 'Cleric', 'Druid', 'Paladin', 'Sorcerer', 'Warlock', 'Wizard'],
+  },
+  {
+    name: 'Revivify', level: 3, school: 'necromancy',
+    castingTime: '1 action', range: 'Touch', components: ['V', 'S', 'M'], material: 'Diamonds worth 300 gp, which the spell consumes', duration: 'Instantaneous',
+    concentration: false, ritual: false,
+    description: 'You touch a creature that has died within the last minute. That creature returns to life with 1 hit point. This spell can\'t return to life a creature that has died of old age, nor can it restore any missing body parts.',
+    classes: ['Cleric', 'Paladin'],
+  },
+  {
+    name: 'Haste', level: 3, school: 'transmutation',
+    castingTime: '1 action', range: '30 feet', components: ['V', 'S', 'M'], material: 'A shaving of licorice root', duration: 'Up to 1 minute',
+    concentration: true, ritual: false,
+    description: 'Choose a willing creature that you can see within range. Until the spell ends, the target\'s speed is doubled, it gains a +2 bonus to AC, it has advantage on Dexterity saving throws, and it gains an additional action on each of its turns. When the spell ends, the target can\'t move or take actions until after its next turn.',
+    classes: ['Sorcerer', 'Wizard'],
+  },
+  {
+    name: 'Fly', level: 3, school: 'transmutation',
+    castingTime: '1 action', range: 'Touch', components: ['V', 'S', 'M'], material: 'A wing feather from any bird', duration: 'Up to 10 minutes',
+    concentration: true, ritual: false,
+    description: 'You touch a willing creature. The target gains a flying speed of 60 feet for the duration. When the spell ends, the target falls if it is still aloft, unless it can stop the fall.',
+    higherLevel: 'When you cast this spell using a spell slot of 4th level or higher, you can target one additional creature for each slot level above 3rd.',
+    classes: ['Sorcerer', 'Warlock', 'Wizard'],
+  },
+  {
+    name: 'Banishment', level: 4, school: 'abjuration',
+    castingTime: '1 action', range: '60 feet', components: ['V', 'S', 'M'], material: 'An item distasteful to the target', duration: 'Up to 1 minute',
+    concentration: true, ritual: false,
+    description: 'You attempt to send one creature that you can see within range to another plane of existence. The target must succeed on a Charisma saving throw or be banished. If the target is native to a different plane and the spell lasts its full duration, it does not return.',
+    higherLevel: 'When you cast this spell using a spell slot of 5th level or higher, you can target one additional creature for each slot level above 4th.',
+    classes: ['Cleric', 'Paladin', 'Sorcerer', 'Warlock', 'Wizard'],
+    dc: { type: 'charisma', success: 'none' },
+  },
+  {
+    name: 'Greater Invisibility', level: 4, school: 'illusion',
+    castingTime: '1 action', range: 'Touch', components: ['V', 'S'], duration: 'Up to 1 minute',
+    concentration: true, ritual: false,
+    description: 'You or a creature you touch becomes invisible until the spell ends. Anything the target is wearing or carrying is invisible as long as it is on the target\'s person.',
+    classes: ['Bard', 'Sorcerer', 'Wizard'],
+  },
+  {
+    name: 'Ice Storm', level: 4, school: 'evocation',
+    castingTime: '1 action', range: '300 feet', components: ['V', 'S', 'M'], material: 'A pinch of dust and a few drops of water', duration: 'Instantaneous',
+    concentration: false, ritual: false,
+    description: 'A hail of rock-hard ice pounds to the ground in a 20-foot-radius, 40-foot-high cylinder centered on a point within range. Each creature in the cylinder must make a Dexterity saving throw. A creature takes 2d8 bludgeoning damage and 4d6 cold damage on a failed save, or half as much damage on a successful one. The area becomes difficult terrain until the end of your next turn.',
+    higherLevel: 'When you cast this spell using a spell slot of 5th level or higher, the bludgeoning damage increases by 1d8 for each slot level above 4th.',
+    classes: ['Druid', 'Sorcerer', 'Wizard'],
+    damage: { type: 'cold', atSlotLevel: { '4': '4d6', '5': '4d6', '6': '4d6', '7': '4d6', '8': '4d6', '9': '4d6' } },
+    dc: { type: 'dexterity', success: 'half' },
+    areaOfEffect: { type: 'cylinder', size: 20 },
+  },
+  {
+    name: 'Cone of Cold', level: 5, school: 'evocation',
+    castingTime: '1 action', range: 'Self (60-foot cone)', components: ['V', 'S', 'M'], material: 'A small crystal or glass cone', duration: 'Instantaneous',
+    concentration: false, ritual: false,
+    description: 'A blast of cold air erupts from your hands. Each creature in a 60-foot cone must make a Constitution saving throw. A creature takes 8d8 cold damage on a failed save, or half as much damage on a successful one.',
+    higherLevel: 'When you cast this spell using a spell slot of 6th level or higher, the damage increases by 1d8 for each slot level above 5th.',
+    classes: ['Sorcerer', 'Wizard'],
+    damage: { type: 'cold', atSlotLevel: { '5': '8d8', '6': '9d8', '7': '10d8', '8': '11d8', '9': '12d8' } },
+    dc: { type: 'constitution', success: 'half' },
+    areaOfEffect: { type: 'cone', size: 60 },
+  },
+  {
+    name: 'Hold Monster', level: 5, school: 'enchantment',
+    castingTime: '1 action', range: '90 feet', components: ['V', 'S', 'M'], material: 'A small, straight piece of iron', duration: 'Up to 1 minute',
+    concentration: true, ritual: false,
+    description: 'Choose a creature that you can see within range. The target must succeed on a Wisdom saving throw or be paralyzed for the duration. This spell has no effect on undead. At the end of each of its turns, the target can make another Wisdom saving throw. On a success, the spell ends on the target.',
+    higherLevel: 'When you cast this spell using a spell slot of 6th level or higher, you can target one additional creature for each slot level above 5th.',
+    classes: ['Bard', 'Sorcerer', 'Warlock', 'Wizard'],
+    dc: { type: 'wisdom', success: 'none' },
+  },
+  {
+    name: 'Mass Cure Wounds', level: 5, school: 'evocation',
+    castingTime: '1 action', range: '60 feet', components: ['V', 'S'], duration: 'Instantaneous',
+    concentration: false, ritual: false,
+    description: 'A wave of healing energy washes out from a point of your choice within range. Choose up to six creatures in a 30-foot-radius sphere centered on that point. Each target regains hit points equal to 3d8 + your spellcasting ability modifier.',
+    higherLevel: 'When you cast this spell using a spell slot of 6th level or higher, the healing increases by 1d8 for each slot level above 5th.',
+    classes: ['Bard', 'Cleric', 'Druid'],
+    heal: { atSlotLevel: { '5': '3d8', '6': '4d8', '7': '5d8', '8': '6d8', '9': '7d8' } },
+    areaOfEffect: { type: 'sphere', size: 30 },
+  },
+];
+
+export const SRD_SPELLS: SpellDefinition[] = [
+  ...CANTRIPS,
+  ...FIRST_LEVEL,
+  ...SECOND_LEVEL,
+  ...HIGHER_LEVEL,
+];
@@ -0,0 +1,26 @@
+export {
+  compendium,
+  RulesCompendium,
+  toRulesKey,
+  parseChallengeRating,
+  formatChallengeRating,
+} from './compendium';
+export { loadSrdData, SPELL_SLOTS_BY_CASTER_LEVEL, getPactMagicSlots, getCasterLevelContribution } from './data';
+export { summarizeMonster, summarizeSpell, summarizeCondition, DEFAULT_SUMMARY_TOKEN_BUDGET } from './summaries';
+export { fetchRemoteMonster, fetchRemoteSpell, isRemoteFallbackEnabled } from './srd-api';
+export type {
+  CompendiumKind,
+  CompendiumData,
+  CompendiumSearchQuery,
+  CompendiumSearchResult,
+  SpellSchool,
+  SpellDefinition,
+  ConditionDefinition,
+  EquipmentCategory,
+  WeaponProperty,
+  EquipmentDefinition,
+  MagicItemRarity,
+  MagicItemDefinition,
+  SpellcastingProgression,
+  ClassDefinition,
+} from './types';
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { toMonsterStatBlock, toSpellDefinition } from './srd-api';
+import type { ApiMonster, ApiSpell } from './srd-api';
+
+const ghoul: ApiMonster = {
+  index: 'ghoul',
+  name: 'Ghoul',
+  size: 'Medium',
+  type: 'undead',
+  alignment: 'chaotic evil',
+  armor_class: [{ type: 'natural', value: 12 }],
+  hit_points: 22,
+  hit_dice: '5d8',
+  speed: { walk: '30 ft.' },
+  strength: 13,
+  dexterity: 15,
+  constitution: 10,
+  intelligence: 7,
+  wisdom: 10,
+  charisma: 6,
+  damage_resistances: ['bludgeoning, piercing, and slashing from nonmagical attacks'],
+  damage_immunities: ['poison'],
+  condition_immunities: [{ index: 'charmed', name: 'Charmed' }, { index: 'exhaustion', name: 'Exhaustion' }],
+  senses: { darkvision: '60 ft.', passive_perception: 10 },
+  languages: 'Common',
+  challenge_rating: 1,
+  xp: 200,
+  actions: [
+    {
+      name: 'Claws',
+      desc: 'Melee Weapon Attack: +4 to hit...',
+      attack_bonus: 4,
+      damage: [{ damage_dice: '2d4+2', damage_type: { index: 'slashing', name: 'Slashing' } }],
+    },
+    { name: 'Stench', desc: 'Each creature within 5 feet...', usage: { type: 'recharge on roll', min_value: 5 } },
+  ],
+};
+
+const fireBolt: ApiSpell = {
+  index: 'fire-bolt',
+  name: 'Fire Bolt',
+  level: 0,
+  school: { index: 'evocation', name: 'Evocation' },
+  casting_time: '1 action',
+  range: '120 feet',
+  components: ['V', 'S'],
+  duration: 'Instantaneous',
+  concentration: false,
+  ritual: false,
+  desc: ['You hurl a mote of fire.', 'It ignites flammable objects.'],
+  classes: [{ index: 'wizard', name: 'Wizard' }],
+  attack_type: 'ranged',
+  damage: { damage_type: { index: 'fire', name: 'Fire' }, damage_at_character_level: { 1: '1d10', 5: '2d10' } },
+};
+
+describe('SRD API transforms', () => {
+  it('should turn an API monster into a stat block', () => {
+    const block = toMonsterStatBlock(ghoul);
+
+    expect(block).toMatchObject({ armorClass: 12, hitPoints: 22, speed: { walk: 30 }, challengeRating: 1 });
+    expect(block.actions).toEqual([
+      { name: 'Claws', desc: 'Melee Weapon Attack: +4 to hit...', attackBonus: 4, damage: [{ dice: '2d4+2', type: 'slashing' }] },
+      { name: 'Stench (Recharge 5-6)', desc: 'Each creature within 5 feet...', attackBonus: undefined, damage: undefined },
+    ]);
+    // Only plain damage types and known conditions carry over
+    expect(block.damageResistances).toEqual([]);
+    expect(block.damageImmunities).toEqual(['poison']);
+    expect(block.conditionImmunities).toEqual(['charmed', 'exhaustion']);
+    expect(block.senses).toEqual(['darkvision: 60 ft.', 'passive_perception: 10']);
+  });
+
+  it('should turn an API spell into a spell definition', () => {
+    expect(toSpellDefinition(fireBolt)).toMatchObject({
+      name: 'Fire Bolt',
+      school: 'evocation',
+      components: ['V', 'S'],
+      description: 'You hurl a mote of fire.\n\nIt ignites flammable objects.',
+      classes: ['Wizard'],
+      attackType: 'ranged',
+      damage: { type: 'fire', atCharacterLevel: { 1: '1d10', 5: '2d10' } },
+      dc: undefined,
+      areaOfEffect: undefined,
+    });
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * Remote SRD fallback (dnd5eapi.co)
+ *
+ * Only consulted when an entry isn't in the bundled compendium. Disable it
+ * entirely with DND_API_FALLBACK=false. Network failures resolve to null so
+ * offline play degrades to a "not found" instead of an error.
+ */
+
+import type { Ability, Condition, DamageType, MonsterAction, MonsterStatBlock } from '@/lib/engine/types';
+import type { SpellDefinition, SpellSchool } from './types';
+
+const DND_API_BASE = 'https://www.dnd5eapi.co/api';
+
+// The parts of dnd5eapi's (and the SRD JSON's) responses we read
+interface ApiReference {
+  index: string;
+  name: string;
+}
+
+interface ApiMonsterAction {
+  name: string;
+  desc: string;
+  attack_bonus?: number;
+  damage?: Array<{ damage_dice?: string; damage_type?: ApiReference }>;   // Choices have neither
+  usage?: { type: string; min_value?: number };
+}
+
+export interface ApiMonster {
+  index: string;
+  name: string;
+  size: string;
+  type: string;
+  alignment: string;
+  armor_class?: Array<{ type: string; value: number }>;
+  hit_points: number;
+  hit_dice: string;
+  speed?: Partial<Record<'walk' | 'fly' | 'swim' | 'burrow' | 'climb', string>>;
+  strength: number;
+  dexterity: number;
+  constitution: number;
+  intelligence: number;
+  wisdom: number;
+  charisma: number;
+  damage_vulnerabilities?: string[];
+  damage_resistances?: string[];
+  damage_immunities?: string[];
+  condition_immunities?: ApiReference[];
+  senses?: Record<string, string | number>;
+  languages?: string;
+  challenge_rating: number;
+  xp: number;
+  special_abilities?: ApiMonsterAction[];
+  actions?: ApiMonsterAction[];
+  legendary_actions?: ApiMonsterAction[];
+  reactions?: ApiMonsterAction[];
+}
+
+export interface ApiSpell {
+  index: string;
+  name: string;
+  level: number;
+  school?: ApiReference;
+  casting_time: string;
+  range: string;
+  components?: string[];
+  material?: string;
+  duration: string;
+  concentration: boolean;
+  ritual: boolean;
+  desc?: string[];
+  higher_level?: string[];
+  classes?: ApiReference[];
+  attack_type?: string;
+  damage?: {
+    damage_type?: ApiReference;
+    damage_at_slot_level?: Record<string, string>;
+    damage_at_character_level?: Record<string, string>;
+  };
+  heal_at_slot_level?: Record<string, string>;
+  dc?: { dc_type?: ApiReference; dc_success?: string };
+  area_of_effect?: { type: string; size: number };
+}
+
+const DC_ABILITIES: Record<string, Ability> = {
+  str: 'strength',
+  dex: 'dexterity',
+  con: 'constitution',
+  int: 'intelligence',
+  wis: 'wisdom',
+  cha: 'charisma',
+};
+
+const DAMAGE_TYPES: DamageType[] = [
+  'slashing', 'piercing', 'bludgeoning', 'fire', 'cold', 'lightning', 'thunder',
+  'acid', 'poison', 'necrotic', 'radiant', 'force', 'psychic',
+];
+
+const CONDITIONS: Condition[] = [
+  'blinded', 'charmed', 'deafened', 'frightened', 'grappled', 'incapacitated', 'invisible', 'paralyzed',
+  'petrified', 'poisoned', 'prone', 'restrained', 'stunned', 'unconscious', 'exhaustion',
+];
+
+const SPELL_SCHOOLS: SpellSchool[] = [
+  'abjuration', 'conjuration', 'divination', 'enchantment', 'evocation', 'illusion', 'necromancy', 'transmutation',
+];
+
+const AREA_TYPES = ['sphere', 'cone', 'cube', 'line', 'cylinder'] as const;
+
+// The value if it is one of `allowed` (compared in lower case), else undefined
+function oneOf<T extends string>(allowed: readonly T[], value: string | undefined): T | undefined {
+  const lower = value?.toLowerCase();
+  return allowed.find((option) => option === lower);
+}
+
+function isDefined<T>(value: T | undefined): value is T {
+  return value !== undefined;
+}
+
+export function isRemoteFallbackEnabled(): boolean {
+  return process.env.DND_API_FALLBACK !== 'false';
+}
+
+async function fetchFromApi<T>(path: string): Promise<T | null> {
+  if (!isRemoteFallbackEnabled()) return null;
+
+  try {
+    const response = await fetch(`${DND_API_BASE}/${path}`);
+    if (!response.ok) {
+      if (response.status !== 404) {
+        console.warn(`[SRD API] ${path} returned ${response.status}`);
+      }
+      return null;
+    }
+    return await response.json() as T;
+  } catch (error) {
+    console.warn(`[SRD API] ${path} unreachable:`, error);
+    return null;
+  }
+}
+
+function toMonsterAction(action: ApiMonsterAction): MonsterAction {
+  const damage = action.damage
+    ?.map((d) => {
+      const type = oneOf(DAMAGE_TYPES, d.damage_type?.index);
+      return d.damage_dice && type ? { dice: d.damage_dice, type } : undefined;
+    })
+    .filter(isDefined);
+
+  return {
+    // Recharge abilities are marked in the name, as in the bundled stat blocks
+    name: action.usage?.type === 'recharge on roll' && action.usage.min_value && !/recharge/i.test(action.name)
+      ? `${action.name} (Recharge ${action.usage.min_value === 6 ? '6' : `${action.usage.min_value}-6`})`
+      : action.name,
+    desc: action.desc,
+    attackBonus: action.attack_bonus,
+    damage: damage?.length ? damage : undefined,
+  };
+}
+
+function toDamageTypes(values: string[] | undefined): DamageType[] {
+  return (values ?? []).map((value) => oneOf(DAMAGE_TYPES, value)).filter(isDefined);
+}
+
+function toSpeed(value: string | undefined): number | undefined {
+  return value ? parseInt(value) : undefined;
+}
+
+/**
+ * Transform a dnd5eapi / SRD JSON monster to our stat block format
+ */
+export function toMonsterStatBlock(monster: ApiMonster): MonsterStatBlock {
+  return {
+    name: monster.name,
+    size: monster.size,
+    type: monster.type,
+    alignment: monster.alignment,
+    armorClass: monster.armor_class?.[0]?.value || 10,
+    hitPoints: monster.hit_points,
+    hitDice: monster.hit_dice,
+    speed: {
+      walk: toSpeed(monster.speed?.walk) ?? 30,
+      fly: toSpeed(monster.speed?.fly),
+      swim: toSpeed(monster.speed?.swim),
+      burrow: toSpeed(monster.speed?.burrow),
+      climb: toSpeed(monster.speed?.climb),
+    },
+    abilityScores: {
+      strength: monster.strength,
+      dexterity: monster.dexterity,
+      constitution: monster.constitution,
+      intelligence: monster.intelligence,
+      wisdom: monster.wisdom,
+      charisma: monster.charisma,
+    },
+    challengeRating: monster.challenge_rating,
+    xp: monster.xp,
+    actions: monster.actions?.map(toMonsterAction) ?? [],
+    legendaryActions: monster.legendary_actions?.map(toMonsterAction),
+    reactions: monster.reactions?.map(toMonsterAction),
+    traits: monster.special_abilities?.map((t) => ({ name: t.name, desc: t.desc })) ?? [],
+    // Qualified ones ("...from nonmagical attacks") aren't a plain damage type and are left out
+    damageResistances: toDamageTypes(monster.damage_resistances),
+    damageImmunities: toDamageTypes(monster.damage_immunities),
+    damageVulnerabilities: toDamageTypes(monster.damage_vulnerabilities),
+    conditionImmunities: (monster.condition_immunities ?? []).map((c) => oneOf(CONDITIONS, c.index)).filter(isDefined),
+    senses: monster.senses ? Object.entries(monster.senses).map(([k, v]) => `${k}: ${v}`) : [],
+    languages: monster.languages ? monster.languages.split(/,\s*/) : [],
+  };
+}
+
+/**
+ * Transform a dnd5eapi / SRD JSON spell to our spell format
+ */
+export function toSpellDefinition(spell: ApiSpell): SpellDefinition {
+  const damageType = oneOf(DAMAGE_TYPES, spell.damage?.damage_type?.index);
+  const areaType = oneOf(AREA_TYPES, spell.area_of_effect?.type);
+
+  return {
+    name: spell.name,
+    level: spell.level,
+    school: oneOf(SPELL_SCHOOLS, spell.school?.index) ?? 'evocation',
+    castingTime: spell.casting_time,
+    range: spell.range,
+    components: (spell.components ?? []).filter((c): c is 'V' | 'S' | 'M' => c === 'V' || c === 'S' || c === 'M'),
+    material: spell.material,
+    duration: spell.duration,
+    concentration: spell.concentration,
+    ritual: spell.ritual,
+    description: spell.desc?.join('\n\n') ?? '',
+    higherLevel: spell.higher_level?.length ? spell.higher_level.join('\n\n') : undefined,
+    classes: spell.classes?.map((c) => c.name) ?? [],
+    attackType: oneOf(['melee', 'ranged'] as const, spell.attack_type),
+    damage: spell.damage && damageType ? {
+      type: damageType,
+      atSlotLevel: spell.damage.damage_at_slot_level,
+      atCharacterLevel: spell.damage.damage_at_character_level,
+    } : undefined,
+    heal: spell.heal_at_slot_level ? {
+      atSlotLevel: spell.heal_at_slot_level,
+    } : undefined,
+    dc: spell.dc ? {
+      type: DC_ABILITIES[spell.dc.dc_type?.index ?? ''] ?? 'dexterity',
+      success: spell.dc.dc_success === 'half' ? 'half' : 'none',
+    } : undefined,
+    areaOfEffect: spell.area_of_effect && areaType ? {
+      type: areaType,
+      size: spell.area_of_effect.size,
+    } : undefined,
+  };
+}
+
+/**
+ * Fetch a monster from dnd5eapi and transform it to our stat block format
+ */
+export async function fetchRemoteMonster(key: string): Promise<MonsterStatBlock | null> {
+  const monster = await fetchFromApi<ApiMonster>(`monsters/${key}`);
+  return monster ? toMonsterStatBlock(monster) : null;
+}
+
+/**
+ * Fetch a spell from dnd5eapi and transform it to our spell format
+ */
+export async function fetchRemoteSpell(key: string): Promise<SpellDefinition | null> {
+  const spell = await fetchFromApi<ApiSpell>(`spells/${key}`);
+  return spell ? toSpellDefinition(spell) : null;
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { compendium } from './compendium';
+import { summarizeMonster, summarizeSpell, summarizeCondition } from './summaries';
+
+describe('rules summaries', () => {
+  describe('summarizeMonster', () => {
+    it('should lead with the combat numbers', () => {
+      const summary = summarizeMonster(compendium.getMonster('goblin')!);
+      const lines = summary.split('\n');
+
+      expect(lines[0]).toBe('Goblin (Small humanoid, CR 1/4, 50 XP)');
+      expect(lines[1]).toBe('AC 15 | HP 7 (2d6) | Speed 30 ft.');
+      expect(lines[2]).toBe('Attacks: Scimitar +4, 1d6+2 slashing; Shortbow +4, 1d6+2 piercing');
+    });
+
+    it('should include saves and defenses', () => {
+      const summary = summarizeMonster(compendium.getMonster('mummy')!);
+
+      expect(summary).toContain('Saves: WIS +2');
+      expect(summary).toContain('Vulnerable: fire');
+      expect(summary).toContain('Immune: necrotic, poison');
+    });
+
+    it('should stay within the token budget', () => {
+      const dragon = compendium.getMonster('adult red dragon')!;
+      const summary = summarizeMonster(dragon, 60);
+
+      expect(summary.length).toBeLessThanOrEqual(60 * 4);
+      expect(summary).toContain('AC 19');
+      expect(summary).toContain('Bite +14');
+    });
+  });
+
+  describe('summarizeSpell', () => {
+    it('should describe the mechanical effect', () => {
+      const summary = summarizeSpell(compendium.getSpell('fireball')!);
+
+      expect(summary).toContain('Fireball (level 3 evocation)');
+      expect(summary).toContain('Range: 150 feet');
+      expect(summary).toContain('Components: V, S, M');
+      expect(summary).toContain('dexterity save (half on success); 8d6 fire; 20-ft sphere');
+    });
+
+    it('should flag concentration and truncate long descriptions', () => {
+      const summary = summarizeSpell(compendium.getSpell('spirit guardians')!, 80);
+
+      expect(summary).toContain('concentration');
+      expect(summary).toContain('3d8 radiant');
+      expect(summary.length).toBeLessThanOrEqual(80 * 4);
+      expect(summary.endsWith('…')).toBe(true);
+    });
+  });
+
+  describe('summarizeCondition', () => {
+    it('should list condition effects', () => {
+      const summary = summarizeCondition(compendium.getCondition('prone')!);
+
+      expect(summary.split('\n')[0]).toBe('Prone');
+      expect(summary).toContain('- ');
+    });
+  });
+});
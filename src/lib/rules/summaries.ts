@@ -0,0 +1,160 @@
+/**
+ * Compact rules summaries for the DM model
+ *
+ * Stat blocks and spell text are long; the model only needs the numbers it
+ * rolls with. Each summary is built from sections in priority order and
+ * stops adding sections once the token budget (~4 characters per token) is
+ * spent, so the essentials always survive.
+ */
+
+import type { Ability, CharacterAbilityScores, MonsterAction, MonsterStatBlock } from '@/lib/engine/types';
+import { formatChallengeRating } from './compendium';
+import type { ConditionDefinition, SpellDefinition } from './types';
+
+export const DEFAULT_SUMMARY_TOKEN_BUDGET = 200;
+const CHARS_PER_TOKEN = 4;
+
+const ABILITY_ABBREVIATIONS: Record<Ability, string> = {
+  strength: 'STR',
+  dexterity: 'DEX',
+  constitution: 'CON',
+  intelligence: 'INT',
+  wisdom: 'WIS',
+  charisma: 'CHA',
+};
+
+function signed(value: number): string {
+  return value >= 0 ? `+${value}` : `${value}`;
+}
+
+function modifier(score: number): number {
+  return Math.floor((score - 10) / 2);
+}
+
+// First sentence of a description, for traits and effects
+function firstSentence(text: string): string {
+  const match = text.match(/^.*?[.!?](\s|$)/);
+  return (match ? match[0] : text).trim();
+}
+
+/**
+ * Join sections in priority order until the budget is exhausted.
+ * The first section is always kept; the one that overflows is truncated.
+ */
+function fitToBudget(sections: string[], tokenBudget: number): string {
+  const maxChars = tokenBudget * CHARS_PER_TOKEN;
+  const kept: string[] = [];
+  let length = 0;
+
+  for (const section of sections) {
+    if (!section) continue;
+    const added = section.length + (kept.length > 0 ? 1 : 0);
+    if (kept.length > 0 && length + added > maxChars) {
+      // Trim the first section that doesn't fit rather than dropping it outright
+      const remaining = maxChars - length - 1;
+      if (remaining >= 40) kept.push(`${section.slice(0, remaining - 1).trimEnd()}…`);
+      break;
+    }
+    kept.push(section);
+    length += added;
+  }
+
+  return kept.join('\n');
+}
+
+function formatAbilityScores(scores: CharacterAbilityScores): string {
+  return (Object.keys(ABILITY_ABBREVIATIONS) as Ability[])
+    .map((ability) => `${ABILITY_ABBREVIATIONS[ability]} ${scores[ability]} (${signed(modifier(scores[ability]))})`)
+    .join(' ');
+}
+
+function formatAttack(action: MonsterAction): string | null {
+  if (action.attackBonus === undefined) return null;
+  const damage = action.damage?.map((d) => `${d.dice} ${d.type}`).join(' + ');
+  return `${action.name} ${signed(action.attackBonus)}${damage ? `, ${damage}` : ''}`;
+}
+
+/**
+ * Summarize a monster: AC, HP, attacks, saves and defenses first, flavor last
+ */
+export function summarizeMonster(monster: MonsterStatBlock, tokenBudget = DEFAULT_SUMMARY_TOKEN_BUDGET): string {
+  const speed = Object.entries(monster.speed)
+    .filter(([, value]) => value)
+    .map(([mode, value]) => (mode === 'walk' ? `${value} ft.` : `${mode} ${value} ft.`))
+    .join(', ');
+
+  const attacks = monster.actions.map(formatAttack).filter((a): a is string => a !== null);
+  const otherActions = monster.actions.filter((a) => a.attackBonus === undefined);
+
+  const saves = monster.savingThrows
+    ? Object.entries(monster.savingThrows)
+      .map(([ability, bonus]) => `${ABILITY_ABBREVIATIONS[ability as Ability]} ${signed(bonus ?? 0)}`)
+      .join(', ')
+    : '';
+
+  const defenses = [
+    monster.damageResistances?.length ? `Resist: ${monster.damageResistances.join(', ')}` : '',
+    monster.damageImmunities?.length ? `Immune: ${monster.damageImmunities.join(', ')}` : '',
+    monster.damageVulnerabilities?.length ? `Vulnerable: ${monster.damageVulnerabilities.join(', ')}` : '',
+    monster.conditionImmunities?.length ? `Condition immune: ${monster.conditionImmunities.join(', ')}` : '',
+  ].filter(Boolean).join(' | ');
+
+  const skills = monster.skills
+    ? Object.entries(monster.skills).map(([skill, bonus]) => `${skill} ${signed(bonus)}`).join(', ')
+    : '';
+
+  return fitToBudget([
+    `${monster.name} (${monster.size} ${monster.type}, CR ${formatChallengeRating(monster.challengeRating)}, ${monster.xp} XP)`,
+    `AC ${monster.armorClass} | HP ${monster.hitPoints} (${monster.hitDice}) | Speed ${speed || '0 ft.'}`,
+    attacks.length ? `Attacks: ${attacks.join('; ')}` : '',
+    saves ? `Saves: ${saves}` : '',
+    defenses,
+    formatAbilityScores(monster.abilityScores),
+    otherActions.length ? `Actions: ${otherActions.map((a) => `${a.name}: ${firstSentence(a.desc)}`).join(' ')}` : '',
+    monster.legendaryActions?.length ? `Legendary: ${monster.legendaryActions.map((a) => a.name).join(', ')}` : '',
+    monster.lairActions?.length ? `Lair: ${monster.lairActions.map((a) => a.name).join(', ')}` : '',
+    monster.traits?.length ? `Traits: ${monster.traits.map((t) => `${t.name}: ${firstSentence(t.desc)}`).join(' ')}` : '',
+    skills ? `Skills: ${skills}` : '',
+    monster.senses?.length ? `Senses: ${monster.senses.join(', ')}` : '',
+  ], tokenBudget);
+}
+
+/**
+ * Summarize a spell: level, range, components and mechanical effect first
+ */
+export function summarizeSpell(spell: SpellDefinition, tokenBudget = DEFAULT_SUMMARY_TOKEN_BUDGET): string {
+  const level = spell.level === 0 ? `${spell.school} cantrip` : `level ${spell.level} ${spell.school}`;
+  const tags = [spell.concentration ? 'concentration' : '', spell.ritual ? 'ritual' : ''].filter(Boolean);
+
+  const effect: string[] = [];
+  if (spell.attackType) effect.push(`${spell.attackType} spell attack`);
+  if (spell.dc) effect.push(`${spell.dc.type} save${spell.dc.success === 'half' ? ' (half on success)' : ''}`);
+  if (spell.damage) {
+    const scaling = spell.damage.atSlotLevel ?? spell.damage.atCharacterLevel ?? {};
+    const base = Object.values(scaling)[0];
+    if (base) effect.push(`${base} ${spell.damage.type}`);
+  }
+  if (spell.heal) {
+    const base = Object.values(spell.heal.atSlotLevel)[0];
+    if (base) effect.push(`heals ${base} + spellcasting mod`);
+  }
+  if (spell.areaOfEffect) effect.push(`${spell.areaOfEffect.size}-ft ${spell.areaOfEffect.type}`);
+
+  return fitToBudget([
+    `${spell.name} (${level}${tags.length ? `, ${tags.join(', ')}` : ''})`,
+    `Cast: ${spell.castingTime} | Range: ${spell.range} | Components: ${spell.components.join(', ')} | Duration: ${spell.duration}`,
+    effect.length ? `Effect: ${effect.join('; ')}` : '',
+    spell.description,
+    spell.higherLevel ? `Higher levels: ${spell.higherLevel}` : '',
+  ], tokenBudget);
+}
+
+/**
+ * Summarize a condition as its list of mechanical effects
+ */
+export function summarizeCondition(condition: ConditionDefinition, tokenBudget = DEFAULT_SUMMARY_TOKEN_BUDGET): string {
+  return fitToBudget([
+    condition.name,
+    ...condition.effects.map((effect) => `- ${effect}`),
+  ], tokenBudget);
+}
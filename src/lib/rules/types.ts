@@ -0,0 +1,148 @@
+/**
+ * Rules Compendium Types
+ *
+ * Shapes for the bundled SRD reference data. Monsters reuse the engine's
+ * MonsterStatBlock so compendium entries can be dropped straight into combat.
+ */
+
+import type { Ability, DamageType, MonsterStatBlock } from '@/lib/engine/types';
+
+export type CompendiumKind = 'monster' | 'spell' | 'condition' | 'equipment' | 'magic_item';
+
+export type SpellSchool =
+  | 'abjuration' | 'conjuration' | 'divination' | 'enchantment'
+  | 'evocation' | 'illusion' | 'necromancy' | 'transmutation';
+
+export interface SpellDefinition {
+  name: string;
+  level: number;                 // 0 = cantrip
+  school: SpellSchool;
+  castingTime: string;
+  range: string;
+  components: ('V' | 'S' | 'M')[];
+  material?: string;
+  duration: string;
+  concentration: boolean;
+  ritual: boolean;
+  description: string;
+  higherLevel?: string;
+  classes: string[];
+  attackType?: 'melee' | 'ranged';
+  damage?: {
+    type: DamageType;
+    atSlotLevel?: Record<string, string>;
+    atCharacterLevel?: Record<string, string>;
+  };
+  heal?: {
+    atSlotLevel: Record<string, string>;
+  };
+  dc?: {
+    type: Ability;
+    success: 'half' | 'none';
+  };
+  areaOfEffect?: {
+    type: 'sphere' | 'cone' | 'cube' | 'line' | 'cylinder';
+    size: number;
+  };
+}
+
+export interface ConditionDefinition {
+  name: string;
+  description: string;
+  effects: string[];
+}
+
+export type EquipmentCategory = 'weapon' | 'armor' | 'gear' | 'tool';
+
+export type WeaponProperty =
+  | 'ammunition' | 'finesse' | 'heavy' | 'light' | 'loading'
+  | 'reach' | 'special' | 'thrown' | 'two-handed' | 'versatile';
+
+export interface EquipmentDefinition {
+  name: string;
+  category: EquipmentCategory;
+  cost: { quantity: number; unit: 'cp' | 'sp' | 'gp' };
+  weight: number;
+  description?: string;
+  weapon?: {
+    category: 'simple' | 'martial';
+    range: 'melee' | 'ranged';
+    damage: { dice: string; type: DamageType };
+    versatileDamage?: string;
+    properties: WeaponProperty[];
+    normalRange?: number;
+    longRange?: number;
+  };
+  armor?: {
+    category: 'light' | 'medium' | 'heavy' | 'shield';
+    baseAc: number;
+    dexBonus: boolean;
+    maxDexBonus?: number;
+    strengthMinimum?: number;
+    stealthDisadvantage: boolean;
+  };
+}
+
+export type MagicItemRarity = 'common' | 'uncommon' | 'rare' | 'very rare' | 'legendary' | 'artifact';
+
+export interface MagicItemDefinition {
+  name: string;
+  type: 'armor' | 'potion' | 'ring' | 'rod' | 'scroll' | 'staff' | 'wand' | 'weapon' | 'wondrous item';
+  rarity: MagicItemRarity;
+  requiresAttunement: boolean;
+  description: string;
+  baseItem?: string;             // Weapon or armor it is made from when the name doesn't say ("Longsword")
+  bonuses?: {
+    attack?: number;             // To attack rolls with the weapon
+    damage?: number;             // To damage rolls with the weapon
+    armorClass?: number;         // Worn armor or shield, or while attuned to a ring, cloak...
+    savingThrows?: number;
+    extraDamage?: { dice: string; type: DamageType };
+  };
+}
+
+export type SpellcastingProgression = 'full' | 'half' | 'pact' | 'none';
+
+export interface ClassDefinition {
+  name: string;
+  hitDie: 6 | 8 | 10 | 12;
+  savingThrows: Ability[];
+  spellcasting: SpellcastingProgression;
+  spellcastingAbility?: Ability;
+  preparesSpells?: boolean;      // Casts from a daily prepared list rather than every known spell
+  subclassLevel: number;         // Level the subclass is chosen
+  multiclassPrerequisites: {
+    abilities: Ability[];
+    any?: boolean;               // true = any one of the abilities, otherwise all
+  };
+  features: Record<number, string[]>;  // Class level -> features gained
+}
+
+export interface CompendiumData {
+  monsters: MonsterStatBlock[];
+  spells: SpellDefinition[];
+  conditions: ConditionDefinition[];
+  equipment: EquipmentDefinition[];
+  magicItems: MagicItemDefinition[];
+  classes: ClassDefinition[];
+}
+
+export interface CompendiumSearchQuery {
+  query?: string;                // Fuzzy name match
+  kinds?: CompendiumKind[];
+  challengeRating?: number;      // Exact CR (monsters)
+  minChallengeRating?: number;
+  maxChallengeRating?: number;
+  school?: SpellSchool;          // Spells only
+  level?: number;                // Spell level
+  className?: string;            // Spells available to a class
+  limit?: number;
+}
+
+export interface CompendiumSearchResult {
+  kind: CompendiumKind;
+  key: string;
+  name: string;
+  score: number;                 // 0-1, 1 = exact name match
+  summary: string;
+}
@@ -0,0 +1,17 @@
+// src/lib/session/index.ts
+export {
+  sessionService,
+  SessionService,
+  type StartSessionResult,
+  type TranscriptQuery,
+  type TranscriptPage,
+} from './session-service';
+export {
+  toTranscriptEntry,
+  buildActionEntries,
+  formatTranscriptForRecap,
+  buildRecapPrompt,
+  formatPreviouslyOn,
+  type TranscriptEntry,
+  type TranscriptRole,
+} from './transcript';
@@ -0,0 +1,219 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SessionService } from './session-service';
+import { buildActionEntries } from './transcript';
+
+// In-memory stand-in for the session tables. Every query yields first, so overlapping
+// calls interleave the way they would against the database.
+const db = vi.hoisted(() => {
+  interface SessionRow {
+    id: string;
+    campaignId: string;
+    sessionNumber: number;
+    startedAt: Date;
+    endedAt: Date | null;
+    summary: string | null;
+    stateSnapshot: string | null;
+  }
+  interface EntryRow {
+    id: number;
+    sessionId: string;
+    role: string;
+    name: string | null;
+    content: string;
+    createdAt: Date;
+  }
+  interface SessionWhere {
+    campaignId: string;
+    endedAt?: null | { not: null };
+    summary?: { not: null };
+  }
+
+  const sessions: SessionRow[] = [];
+  const entries: EntryRow[] = [];
+  const campaign = {
+    id: 'campaign-1',
+    name: 'The Sunken Crown',
+    gameState: { id: 'state-1', currentLocation: 'Brinemouth' },
+    characters: [{ id: 'char-1', name: 'Marta' }],
+  };
+  const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  const matches = (row: SessionRow, where: SessionWhere) =>
+    row.campaignId === where.campaignId &&
+    (where.endedAt === undefined || (where.endedAt === null ? row.endedAt === null : row.endedAt !== null)) &&
+    (where.summary === undefined || row.summary !== null);
+
+  const prisma = {
+    session: {
+      async findFirst({ where }: { where: SessionWhere }) {
+        await tick();
+        return sessions.filter((row) => matches(row, where)).sort((a, b) => b.sessionNumber - a.sessionNumber)[0] ?? null;
+      },
+      async create({ data }: { data: { campaignId: string; sessionNumber: number } }) {
+        await tick();
+        const row = { id: `session-${sessions.length + 1}`, startedAt: new Date(), endedAt: null, summary: null, stateSnapshot: null, ...data };
+        sessions.push(row);
+        return row;
+      },
+      async update({ where, data }: { where: { id: string }; data: Partial<SessionRow> }) {
+        await tick();
+        const row = sessions.find((s) => s.id === where.id)!;
+        return Object.assign(row, data);
+      },
+    },
+    sessionEntry: {
+      async createMany({ data }: { data: Omit<EntryRow, 'id'>[] }) {
+        await tick();
+        data.forEach((row) => entries.push({ id: entries.length + 1, ...row }));
+        return { count: data.length };
+      },
+      async findMany({ where, orderBy, take }: { where: { sessionId: string; id?: { gt: number } }; orderBy: { id: 'asc' | 'desc' }; take: number }) {
+        await tick();
+        const rows = entries.filter((row) => row.sessionId === where.sessionId && row.id > (where.id?.gt ?? 0));
+        return (orderBy.id === 'desc' ? rows.reverse() : rows).slice(0, take);
+      },
+    },
+    campaign: {
+      async findUnique({ where }: { where: { id: string } }) {
+        await tick();
+        return where.id === campaign.id ? campaign : null;
+      },
+    },
+  };
+
+  return { prisma, sessions, entries, generateContent: vi.fn() };
+});
+
+vi.mock('@/lib/db', () => ({ prisma: db.prisma }));
+vi.mock('@/lib/ai/client', () => ({ generateContent: db.generateContent }));
+
+const CAMPAIGN = 'campaign-1';
+const NOW = new Date('2026-03-01T19:30:00.000Z');
+
+describe('SessionService', () => {
+  let service: SessionService;
+
+  beforeEach(() => {
+    db.sessions.length = 0;
+    db.entries.length = 0;
+    db.generateContent.mockReset();
+    service = new SessionService();
+  });
+
+  describe('startSession', () => {
+    it('should open the first session, then resume it', async () => {
+      const first = await service.startSession(CAMPAIGN);
+      const again = await service.startSession(CAMPAIGN);
+
+      expect(first).toMatchObject({ resumed: false, previouslyOn: null, session: { sessionNumber: 1 } });
+      expect(again).toMatchObject({ resumed: true, session: { id: first.session.id } });
+    });
+
+    it('should open one session when starts overlap', async () => {
+      const [a, b] = await Promise.all([service.startSession(CAMPAIGN), service.startSession(CAMPAIGN)]);
+
+      expect(db.sessions).toHaveLength(1);
+      expect(b.session.id).toBe(a.session.id);
+    });
+  });
+
+  describe('record', () => {
+    it('should keep every entry of overlapping actions, in order', async () => {
+      await Promise.all([
+        service.recordAction(CAMPAIGN, 'I open the door', 'It creaks open.', []),
+        service.recordAction(CAMPAIGN, 'I attack', 'You hit.', [{ name: 'roll_attack', displayText: 'Attack: 17 - HIT' }]),
+        service.recordAction(CAMPAIGN, 'I loot the body', 'You find 3 gold.', []),
+      ]);
+
+      const { entries } = await service.getTranscript(db.sessions[0].id);
+
+      expect(db.sessions).toHaveLength(1);
+      expect(entries.map((e) => e.content)).toEqual([
+        'I open the door', 'It creaks open.',
+        'I attack', 'Attack: 17 - HIT', 'You hit.',
+        'I loot the body', 'You find 3 gold.',
+      ]);
+      expect(entries[3]).toMatchObject({ role: 'function', name: 'roll_attack' });
+    });
+
+    it('should not throw when the write fails', async () => {
+      const spy = vi.spyOn(db.prisma.sessionEntry, 'createMany').mockRejectedValueOnce(new Error('disk full'));
+      const log = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(service.record(CAMPAIGN, buildActionEntries('Hi', 'Welcome.', [], NOW))).resolves.toBeUndefined();
+      await service.record(CAMPAIGN, buildActionEntries('Hello again', 'Welcome back.', [], NOW));
+
+      expect(db.entries.map((e) => e.content)).toEqual(['Hello again', 'Welcome back.']);
+      spy.mockRestore();
+      log.mockRestore();
+    });
+  });
+
+  describe('getTranscript', () => {
+    it('should page through the transcript oldest first', async () => {
+      await service.record(CAMPAIGN, buildActionEntries('One', 'Two', [{ name: 'roll_dice', displayText: 'Three' }], NOW));
+      const sessionId = db.sessions[0].id;
+
+      const first = await service.getTranscript(sessionId, { limit: 2 });
+      const second = await service.getTranscript(sessionId, { after: first.nextCursor!, limit: 2 });
+
+      expect(first.entries.map((e) => e.content)).toEqual(['One', 'Three']);
+      expect(second).toEqual({ entries: [expect.objectContaining({ content: 'Two', timestamp: NOW.toISOString() })], nextCursor: null });
+    });
+  });
+
+  describe('endSession', () => {
+    it('should write a recap of the transcript and snapshot the game state', async () => {
+      db.generateContent.mockResolvedValue('  The party braved the crypt.\n');
+      await service.recordAction(CAMPAIGN, 'I open the crypt', 'Cold air rushes out.', []);
+
+      const ended = await service.endSession(CAMPAIGN);
+
+      const [prompt, , options] = db.generateContent.mock.calls[0];
+      expect(prompt).toContain('Session 1 of the campaign "The Sunken Crown"');
+      expect(prompt).toContain('PLAYER: I open the crypt\nDM: Cold air rushes out.');
+      expect(options).toEqual({ campaignId: CAMPAIGN });
+      expect(ended).toMatchObject({ summary: 'The party braved the crypt.', endedAt: expect.any(Date) });
+      expect(JSON.parse(ended!.stateSnapshot!)).toMatchObject({
+        gameState: { currentLocation: 'Brinemouth' },
+        characters: [{ name: 'Marta' }],
+      });
+    });
+
+    it('should open the next session with the recap', async () => {
+      db.generateContent.mockResolvedValue('The party braved the crypt.');
+      await service.recordAction(CAMPAIGN, 'I open the crypt', 'Cold air rushes out.', []);
+      await service.endSession(CAMPAIGN);
+
+      const next = await service.startSession(CAMPAIGN);
+
+      expect(next).toMatchObject({ resumed: false, session: { sessionNumber: 2 } });
+      expect(next.previouslyOn).toBe('**Previously on The Sunken Crown...**\n\nThe party braved the crypt.');
+    });
+
+    it('should still close the session when the recap fails', async () => {
+      db.generateContent.mockRejectedValue(new Error('provider down'));
+      const log = vi.spyOn(console, 'error').mockImplementation(() => {});
+      await service.recordAction(CAMPAIGN, 'I rest', 'You sleep soundly.', []);
+
+      const ended = await service.endSession(CAMPAIGN);
+
+      expect(ended).toMatchObject({ summary: null, endedAt: expect.any(Date) });
+      expect(await service.getPreviouslyOn(CAMPAIGN)).toBeNull();
+      log.mockRestore();
+    });
+
+    it('should skip the recap for an empty session', async () => {
+      await service.startSession(CAMPAIGN);
+
+      const ended = await service.endSession(CAMPAIGN);
+
+      expect(db.generateContent).not.toHaveBeenCalled();
+      expect(ended).toMatchObject({ summary: null, endedAt: expect.any(Date) });
+    });
+
+    it('should return null when no session is open', async () => {
+      expect(await service.endSession(CAMPAIGN)).toBeNull();
+    });
+  });
+});
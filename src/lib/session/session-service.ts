@@ -0,0 +1,224 @@
+// src/lib/session/session-service.ts
+import { prisma } from '@/lib/db';
+import { generateContent } from '@/lib/ai/client';
+import {
+  buildActionEntries,
+  buildRecapPrompt,
+  formatPreviouslyOn,
+  toTranscriptEntry,
+} from './transcript';
+import type { TranscriptEntry } from './transcript';
+
+type SessionRow = NonNullable<Awaited<ReturnType<typeof prisma.session.findFirst>>>;
+
+// Recaps only see the end of a long session anyway - see formatTranscriptForRecap
+const RECAP_ENTRY_LIMIT = 400;
+const TRANSCRIPT_PAGE_SIZE = 100;
+
+export interface StartSessionResult {
+  session: SessionRow;
+  resumed: boolean;              // An open session already existed
+  previouslyOn: string | null;   // Recap of the last finished session
+}
+
+export interface TranscriptQuery {
+  after?: number;   // Entry cursor from the previous page
+  limit?: number;
+}
+
+export interface TranscriptPage {
+  entries: TranscriptEntry[];
+  nextCursor: number | null;   // Pass as `after` for the next page; null on the last one
+}
+
+/**
+ * SessionService tracks the open play session of each campaign: every action is
+ * appended to its transcript, and ending it writes a recap and a state snapshot.
+ */
+export class SessionService {
+  // The last session change queued for each campaign; the next one waits for it to finish
+  private queues = new Map<string, Promise<unknown>>();
+
+  /**
+   * The campaign's open session, if any
+   */
+  async getActiveSession(campaignId: string): Promise<SessionRow | null> {
+    return prisma.session.findFirst({
+      where: { campaignId, endedAt: null },
+      orderBy: { sessionNumber: 'desc' },
+    });
+  }
+
+  /**
+   * Open a new session, or return the one already open
+   */
+  async startSession(campaignId: string): Promise<StartSessionResult> {
+    return this.serialize(campaignId, () => this.openSession(campaignId));
+  }
+
+  /**
+   * Append entries to the open session's transcript, opening a session if needed.
+   * Failures are logged rather than thrown - a lost transcript line must not fail the action.
+   */
+  async record(campaignId: string, entries: TranscriptEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    try {
+      await this.serialize(campaignId, async () => {
+        const session = (await this.getActiveSession(campaignId)) ?? (await this.openSession(campaignId)).session;
+
+        await prisma.sessionEntry.createMany({
+          data: entries.map((entry) => ({
+            sessionId: session.id,
+            role: entry.role,
+            name: entry.name ?? null,
+            content: entry.content,
+            createdAt: new Date(entry.timestamp),
+          })),
+        });
+      });
+    } catch (error) {
+      console.error('Failed to record session transcript:', error);
+    }
+  }
+
+  /**
+   * Record a player action with its function results and narration
+   */
+  async recordAction(
+    campaignId: string,
+    playerInput: string,
+    narrative: string,
+    functionResults: Array<{ name: string; displayText: string }>
+  ): Promise<void> {
+    await this.record(campaignId, buildActionEntries(playerInput, narrative, functionResults));
+  }
+
+  /**
+   * Close the open session: write an AI recap and snapshot the game state and characters.
+   * Returns null if no session is open.
+   */
+  async endSession(campaignId: string): Promise<SessionRow | null> {
+    return this.serialize(campaignId, async () => {
+      const session = await this.getActiveSession(campaignId);
+      if (!session) return null;
+
+      const campaign = await prisma.campaign.findUnique({
+        where: { id: campaignId },
+        include: { characters: true, gameState: true },
+      });
+      if (!campaign) return null;
+
+      const { entries, earlierOmitted } = await this.getRecentTranscript(session.id);
+      let summary: string | null = null;
+      if (entries.length > 0) {
+        try {
+          summary = (await generateContent(
+            buildRecapPrompt(campaign.name, session.sessionNumber, entries, earlierOmitted),
+            undefined,
+            { campaignId }
+          )).trim() || null;
+        } catch (error) {
+          console.error('Failed to generate session recap:', error);
+        }
+      }
+
+      const stateSnapshot = JSON.stringify({
+        takenAt: new Date().toISOString(),
+        gameState: campaign.gameState,
+        characters: campaign.characters,
+      });
+
+      return prisma.session.update({
+        where: { id: session.id },
+        data: { endedAt: new Date(), summary, stateSnapshot },
+      });
+    });
+  }
+
+  /**
+   * A page of a session's transcript, oldest first
+   */
+  async getTranscript(sessionId: string, query: TranscriptQuery = {}): Promise<TranscriptPage> {
+    const limit = query.limit ?? TRANSCRIPT_PAGE_SIZE;
+    const rows = await prisma.sessionEntry.findMany({
+      where: { sessionId, ...(query.after !== undefined && { id: { gt: query.after } }) },
+      orderBy: { id: 'asc' },
+      take: limit + 1,
+    });
+
+    const page = rows.slice(0, limit);
+    return {
+      entries: page.map(toTranscriptEntry),
+      nextCursor: rows.length > limit ? page[page.length - 1].id : null,
+    };
+  }
+
+  /**
+   * "Previously on" recap from the most recent finished session with a summary
+   */
+  async getPreviouslyOn(campaignId: string): Promise<string | null> {
+    const [campaign, lastEnded] = await Promise.all([
+      prisma.campaign.findUnique({ where: { id: campaignId }, select: { name: true } }),
+      prisma.session.findFirst({
+        where: { campaignId, endedAt: { not: null }, summary: { not: null } },
+        orderBy: { sessionNumber: 'desc' },
+      }),
+    ]);
+
+    if (!campaign || !lastEnded?.summary) return null;
+    return formatPreviouslyOn(campaign.name, lastEnded.summary);
+  }
+
+  /**
+   * startSession without the queue, for callers already holding it
+   */
+  private async openSession(campaignId: string): Promise<StartSessionResult> {
+    const active = await this.getActiveSession(campaignId);
+    if (active) {
+      return { session: active, resumed: true, previouslyOn: await this.getPreviouslyOn(campaignId) };
+    }
+
+    const lastSession = await prisma.session.findFirst({
+      where: { campaignId },
+      orderBy: { sessionNumber: 'desc' },
+    });
+
+    const session = await prisma.session.create({
+      data: {
+        campaignId,
+        sessionNumber: (lastSession?.sessionNumber || 0) + 1,
+      },
+    });
+
+    return { session, resumed: false, previouslyOn: await this.getPreviouslyOn(campaignId) };
+  }
+
+  /**
+   * The last entries of a session, for its recap
+   */
+  private async getRecentTranscript(sessionId: string): Promise<{ entries: TranscriptEntry[]; earlierOmitted: boolean }> {
+    const rows = await prisma.sessionEntry.findMany({
+      where: { sessionId },
+      orderBy: { id: 'desc' },
+      take: RECAP_ENTRY_LIMIT + 1,
+    });
+
+    return {
+      entries: rows.slice(0, RECAP_ENTRY_LIMIT).reverse().map(toTranscriptEntry),
+      earlierOmitted: rows.length > RECAP_ENTRY_LIMIT,
+    };
+  }
+
+  private serialize<T>(campaignId: string, task: () => Promise<T>): Promise<T> {
+    const run = (this.queues.get(campaignId) ?? Promise.resolve()).then(task);
+    const settled = run.catch(() => undefined);
+    this.queues.set(campaignId, settled);
+    void settled.then(() => {
+      if (this.queues.get(campaignId) === settled) this.queues.delete(campaignId);
+    });
+    return run;
+  }
+}
+
+export const sessionService = new SessionService();
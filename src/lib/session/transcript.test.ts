@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  toTranscriptEntry,
+  buildActionEntries,
+  formatTranscriptForRecap,
+  buildRecapPrompt,
+  formatPreviouslyOn,
+} from './transcript';
+import type { TranscriptEntry } from './transcript';
+
+const NOW = new Date('2026-03-01T19:30:00.000Z');
+
+describe('session transcript', () => {
+  describe('buildActionEntries', () => {
+    it('should record the input, each function result, then the narration', () => {
+      const entries = buildActionEntries(
+        'I attack the goblin',
+        'Your blade bites deep.',
+        [{ name: 'roll_attack', displayText: 'Attack: 17 vs AC 15 - HIT' }],
+        NOW
+      );
+
+      expect(entries.map((e) => e.role)).toEqual(['user', 'function', 'assistant']);
+      expect(entries[1]).toEqual({
+        role: 'function',
+        name: 'roll_attack',
+        content: 'Attack: 17 vs AC 15 - HIT',
+        timestamp: '2026-03-01T19:30:00.000Z',
+      });
+      expect(entries[2].content).toBe('Your blade bites deep.');
+    });
+  });
+
+  describe('toTranscriptEntry', () => {
+    it('should read a stored line back as an entry', () => {
+      expect(toTranscriptEntry({ role: 'function', name: 'roll_dice', content: '1d20: 12', createdAt: NOW })).toEqual({
+        role: 'function',
+        name: 'roll_dice',
+        content: '1d20: 12',
+        timestamp: '2026-03-01T19:30:00.000Z',
+      });
+    });
+
+    it('should read unknown roles as narration', () => {
+      const entry = toTranscriptEntry({ role: 'system', name: null, content: 'Hello', createdAt: NOW });
+
+      expect(entry).toEqual({ role: 'assistant', content: 'Hello', timestamp: NOW.toISOString() });
+    });
+  });
+
+  describe('formatTranscriptForRecap', () => {
+    it('should label each speaker', () => {
+      const text = formatTranscriptForRecap(buildActionEntries('Hi', 'Welcome.', [{ name: 'roll_dice', displayText: '1d20: 12' }], NOW));
+
+      expect(text).toBe('PLAYER: Hi\n[1d20: 12]\nDM: Welcome.');
+    });
+
+    it('should keep the most recent events when too long', () => {
+      const entries: TranscriptEntry[] = Array.from({ length: 10 }, (_, i) => ({
+        role: 'assistant',
+        content: `Event ${i}`,
+        timestamp: NOW.toISOString(),
+      }));
+
+      const text = formatTranscriptForRecap(entries, 30);
+
+      expect(text.startsWith('(earlier events omitted)')).toBe(true);
+      expect(text).toContain('DM: Event 9');
+      expect(text).not.toContain('DM: Event 0');
+    });
+
+    it('should mark a transcript that was already cut to its tail', () => {
+      const text = formatTranscriptForRecap(buildActionEntries('Hi', 'Welcome.', [], NOW), undefined, true);
+
+      expect(text).toBe('(earlier events omitted)\nPLAYER: Hi\nDM: Welcome.');
+    });
+  });
+
+  describe('buildRecapPrompt', () => {
+    it('should include the campaign, session number and transcript', () => {
+      const prompt = buildRecapPrompt('The Sunken Crown', 3, buildActionEntries('Open the door', 'It creaks open.', [], NOW));
+
+      expect(prompt).toContain('Session 3 of the campaign "The Sunken Crown"');
+      expect(prompt).toContain('PLAYER: Open the door');
+      expect(prompt).toContain('DM: It creaks open.');
+    });
+  });
+
+  describe('formatPreviouslyOn', () => {
+    it('should head the summary with the campaign name', () => {
+      expect(formatPreviouslyOn('The Sunken Crown', '  The party fled the crypt.\n')).toBe(
+        '**Previously on The Sunken Crown...**\n\nThe party fled the crypt.'
+      );
+    });
+  });
+});
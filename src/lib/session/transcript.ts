@@ -0,0 +1,100 @@
+// src/lib/session/transcript.ts
+// Session transcript entries and recap prompts - no database access, so it can be unit tested
+
+export type TranscriptRole = 'user' | 'assistant' | 'function';
+
+export interface TranscriptEntry {
+  role: TranscriptRole;
+  content: string;
+  name?: string;        // Function name, for function results
+  timestamp: string;    // ISO 8601
+}
+
+// Keep recap prompts well inside the model's context window
+const MAX_RECAP_TRANSCRIPT_CHARS = 16000;
+
+/**
+ * A stored transcript line as an entry. Unknown roles read as narration.
+ */
+export function toTranscriptEntry(row: { role: string; name: string | null; content: string; createdAt: Date }): TranscriptEntry {
+  const role: TranscriptRole = row.role === 'user' || row.role === 'function' ? row.role : 'assistant';
+  return {
+    role,
+    content: row.content,
+    ...(row.name ? { name: row.name } : {}),
+    timestamp: row.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Transcript entries for one player action: the input, each function result, then the narration
+ */
+export function buildActionEntries(
+  playerInput: string,
+  narrative: string,
+  functionResults: Array<{ name: string; displayText: string }>,
+  now: Date = new Date()
+): TranscriptEntry[] {
+  const timestamp = now.toISOString();
+  return [
+    { role: 'user', content: playerInput, timestamp },
+    ...functionResults.map((r): TranscriptEntry => ({ role: 'function', name: r.name, content: r.displayText, timestamp })),
+    { role: 'assistant', content: narrative, timestamp },
+  ];
+}
+
+/**
+ * Render a transcript as plain text for the recap prompt. Long sessions keep
+ * their most recent events; `earlierOmitted` says the entries are already only the tail.
+ */
+export function formatTranscriptForRecap(
+  entries: TranscriptEntry[],
+  maxChars = MAX_RECAP_TRANSCRIPT_CHARS,
+  earlierOmitted = false
+): string {
+  const lines = entries.map((entry) => {
+    switch (entry.role) {
+      case 'user': return `PLAYER: ${entry.content}`;
+      case 'function': return `[${entry.content}]`;
+      default: return `DM: ${entry.content}`;
+    }
+  });
+
+  let length = 0;
+  let start = lines.length;
+  while (start > 0 && length + lines[start - 1].length + 1 <= maxChars) {
+    start--;
+    length += lines[start].length + 1;
+  }
+
+  const kept = lines.slice(start).join('\n');
+  return start > 0 || earlierOmitted ? `(earlier events omitted)\n${kept}` : kept;
+}
+
+/**
+ * Prompt asking the DM to recap a finished session
+ */
+export function buildRecapPrompt(
+  campaignName: string,
+  sessionNumber: number,
+  entries: TranscriptEntry[],
+  earlierOmitted = false
+): string {
+  return `Session ${sessionNumber} of the campaign "${campaignName}" has just ended. Here is what happened:
+
+${formatTranscriptForRecap(entries, MAX_RECAP_TRANSCRIPT_CHARS, earlierOmitted)}
+
+Write a recap of this session for the players to read before the next one, in 2-3 short paragraphs:
+- Where the party went, who they met and what they did
+- Fights, discoveries and anything they gained or lost
+- Unresolved threads and where the party stands now
+Write in past tense, third person, as a storyteller. Do not mention dice, rolls, numbers or game mechanics.
+Do not call any functions.`;
+}
+
+/**
+ * The "previously on" message that opens the next session
+ */
+export function formatPreviouslyOn(campaignName: string, summary: string): string {
+  return `**Previously on ${campaignName}...**\n\n${summary.trim()}`;
+}
@@ -14,3 +14,49 @@ export type {
   GraphEdge,
   GraphData 
 } from './relationship-service';
+
+export { worldSimulationService, WorldSimulationService } from './world-simulation-service';
+export type { WorldTickSummary, AdvanceWorldOptions } from './world-simulation-service';
+export { simulateWorld, formatWorldChanges, MAX_SIMULATED_DAYS } from './world-simulation';
+export type { WorldChange, WorldChangeType, WorldSnapshot, WorldTickResult, PlayerInfluence } from './world-simulation';
+
+export { partyKnowledgeService, PartyKnowledgeService } from './party-knowledge-service';
+export type { RecordKnowledgeParams, KnowledgeQuery } from './party-knowledge-service';
+export {
+  redactEntity,
+  redactEntities,
+  redactWorldLore,
+  isDiscovered,
+  CATEGORY_ENTITY_TYPES,
+  KNOWLEDGE_ENTITY_TYPES,
+  KNOWLEDGE_KINDS,
+  UNREVEALED_SECRET_NAME,
+} from './party-knowledge';
+export type { KnowledgeEntityType, KnowledgeKind, KnowledgeEntry, PlayerKnowledge, WorldLoreKind } from './party-knowledge';
+
+export { loreRepository, LoreRepository } from './lore-repository';
+export type {
+  LoreEntityType,
+  LoreEntityMap,
+  LoreEntity,
+  NpcRecord,
+  FactionRecord,
+  LocationRecord,
+  ConflictRecord,
+  SecretRecord,
+  HistoryRecord,
+  CosmologyRecord,
+  WorldSeedRow,
+} from './lore-repository';
+
+export { secretRevealService, SecretRevealService } from './secret-reveal-service';
+export type { SecretRevealReport, RevealOutcome } from './secret-reveal-service';
+export { collectRevealEvents, parseRevealConditions, parseOnReveal, REVEAL_CONDITION_TYPES } from './secret-reveal';
+export type {
+  RevealCondition,
+  RevealConditionType,
+  RevealConsequences,
+  RevealProgress,
+  SecretHint,
+  ActionFunctionResult,
+} from './secret-reveal';
@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest';
+import { checkLegacyLoreFold, planLegacyLoreFold } from './legacy-lore';
+import type { ExistingWorld, LegacyLoreGraph } from './legacy-lore';
+
+function legacyGraph(overrides: Partial<LegacyLoreGraph> = {}): LegacyLoreGraph {
+  return {
+    lore: { id: 'lore-1', campaignId: 'c-1', generationStatus: 'completed', worldName: 'Saltreach', tone: 'gritty', themes: '["greed"]',
+      cosmology: '{"gods":[{"name":"Thalassa","domain":"the sea"}],"magicSystem":{"source":"Brine"}}',
+      worldHistory: '[{"name":"The Flood","description":"The sea took the old city"}]' },
+    factions: [{
+      id: 'f-1', name: 'Salt Guild', type: 'guild', tier: 'major', isDiscovered: 0, discoveredAt: null,
+      publicImage: 'Honest traders', philosophy: null, symbol: null, motto: null,
+      tensionStances: null, resources: null, territory: null, influence: 7,
+    }],
+    locations: [
+      {
+        id: 'l-2', name: 'The Old Pier', locationType: 'district', tier: 'minor', parentId: 'l-1', isDiscovered: 0, discoveredAt: null,
+        mapCoordinates: null, description: null, atmosphere: null, sensoryDetails: null, terrain: null, climate: null,
+        currentEvents: null, explorationLevel: null,
+      },
+      {
+        id: 'l-1', name: 'Brinemouth', locationType: 'city', tier: 'major', parentId: null, isDiscovered: 1, discoveredAt: '2026-01-02T00:00:00.000Z',
+        mapCoordinates: null, description: 'A harbor town', atmosphere: null, sensoryDetails: null, terrain: null, climate: null,
+        currentEvents: null, explorationLevel: 'explored',
+      },
+    ],
+    npcs: [{
+      id: 'n-1', name: 'Marta Vell', role: 'Harbormaster', tier: 'major', isDiscovered: 0, discoveredAt: null, isRevealed: 1,
+      personality: '{"traits":["stern"]}', speakingStyle: null, publicGoal: 'Keep the docks running', secretGoal: 'Sell the harbor',
+      fears: null, tensionRole: null, factionId: 'f-1', primaryLocation: 'brinemouth', race: 'human', appearance: null,
+    }],
+    conflicts: [{
+      id: 'c-1', name: 'The Salt War', type: 'economic', tier: 'major', isDiscovered: 0, discoveredAt: null, isRevealed: 0,
+      scope: null, rootTension: null, participants: '[]', stakes: 'The salt pans', publicKnowledge: 'A tax dispute',
+      trueNature: 'A coup', currentState: 'active', possibleOutcomes: null,
+    }],
+    secrets: [{
+      id: 's-1', name: 'The Drowned Ledger', type: 'conspiracy', tier: 'major', isDiscovered: 1, discoveredAt: null, isRevealed: 0,
+      content: 'The Crown forged the charters', implications: null, hints: null, tensionImpact: null,
+      discoveryConditions: null, revealImpact: null, partiallyKnown: '["forged"]',
+    }],
+    ...overrides,
+  };
+}
+
+function emptyWorld(): ExistingWorld {
+  return { id: 'w-1', entities: { npc: [], faction: [], location: [], conflict: [], secret: [] }, hasCosmology: false, hasHistory: false };
+}
+
+describe('legacy lore fold', () => {
+  it('should create a world from legacy lore when the campaign has none', () => {
+    const plan = planLegacyLoreFold(legacyGraph(), null);
+
+    expect(plan.createWorld).toEqual({ name: 'Saltreach', tone: 'gritty', themes: '["greed"]', generationStatus: 'completed' });
+    expect(plan.creates.factions).toHaveLength(1);
+    expect(plan.creates.locations.map((l) => l.id)).toEqual(['l-2', 'l-1']);
+    expect(plan.discoveries).toEqual([]);
+  });
+
+  it('should map legacy fields and discovery onto world entities', () => {
+    const { creates } = planLegacyLoreFold(legacyGraph(), null);
+
+    expect(creates.npcs[0]).toMatchObject({
+      occupation: 'Harbormaster',
+      privateGoal: 'Sell the harbor',
+      factionId: 'f-1',
+      primaryLocationId: 'l-1',
+      isDiscovered: true,      // introduce_npc set isRevealed on the legacy row
+    });
+    expect(creates.locations.find((l) => l.id === 'l-1')).toMatchObject({
+      type: 'city',
+      isDiscovered: true,
+      discoveredAt: new Date('2026-01-02T00:00:00.000Z'),
+    });
+    expect(creates.conflicts[0]).toMatchObject({ status: 'active', publicNarrative: 'A tax dispute', isDiscovered: false });
+    // A secret only counts once revealed
+    expect(creates.secrets[0]).toMatchObject({ isRevealed: false, revealedAt: null, partialReveals: '["forged"]' });
+  });
+
+  it('should only merge discovery into entities the world already has', () => {
+    const world = emptyWorld();
+    world.entities.npc = [{ id: 'n-1', name: 'Marta Vell', discovered: false }];
+    world.entities.location = [{ id: 'world-brinemouth', name: 'BRINEMOUTH', discovered: false }];
+    world.entities.faction = [{ id: 'f-1', name: 'Salt Guild', discovered: false }];
+
+    const plan = planLegacyLoreFold(legacyGraph(), world);
+
+    expect(plan.createWorld).toBeNull();
+    expect(plan.creates.npcs).toEqual([]);
+    expect(plan.creates.factions).toEqual([]);
+    expect(plan.discoveries).toEqual([
+      { type: 'location', id: 'world-brinemouth', discoveredAt: new Date('2026-01-02T00:00:00.000Z') },
+      { type: 'npc', id: 'n-1', discoveredAt: expect.any(Date) },
+    ]);
+    // The pier is new; its parent is the world's Brinemouth
+    expect(plan.creates.locations).toEqual([expect.objectContaining({ id: 'l-2', parentId: 'world-brinemouth' })]);
+  });
+
+  it('should plan nothing once folded', () => {
+    const legacy = legacyGraph();
+    const first = planLegacyLoreFold(legacy, null);
+
+    const world = emptyWorld();
+    world.entities.faction = first.creates.factions.map((f) => ({ id: f.id as string, name: f.name as string, discovered: f.isDiscovered as boolean }));
+    world.entities.location = first.creates.locations.map((l) => ({ id: l.id as string, name: l.name as string, discovered: l.isDiscovered as boolean }));
+    world.entities.npc = first.creates.npcs.map((n) => ({ id: n.id as string, name: n.name as string, discovered: n.isDiscovered as boolean }));
+    world.entities.conflict = first.creates.conflicts.map((c) => ({ id: c.id as string, name: c.name as string, discovered: c.isDiscovered as boolean }));
+    world.entities.secret = first.creates.secrets.map((s) => ({ id: s.id as string, name: s.name as string, discovered: s.isRevealed as boolean }));
+
+    world.hasCosmology = first.createCosmology !== null;
+    world.hasHistory = first.createHistory !== null;
+
+    const again = planLegacyLoreFold(legacy, world);
+    expect(again.creates).toEqual({ factions: [], npcs: [], locations: [], conflicts: [], secrets: [] });
+    expect(again.createCosmology).toBeNull();
+    expect(again.createHistory).toBeNull();
+    expect(again.discoveries).toEqual([]);
+  });
+
+  it('should carry the legacy cosmology and history over into world records', () => {
+    const plan = planLegacyLoreFold(legacyGraph(), null);
+
+    expect(plan.createCosmology).toEqual({
+      pantheon: '[{"name":"Thalassa","domain":"the sea"}]',
+      magicSystem: '{"source":"Brine"}',
+      planarStructure: '{}',
+      creationStory: null,
+      prophecies: '[]',
+      afterlife: '{}',
+    });
+    expect(plan.createHistory).toEqual({ majorEvents: '[{"name":"The Flood","description":"The sea took the old city"}]' });
+
+    // Nothing to carry over when the legacy columns are empty, or the world has its own
+    const lore = { ...legacyGraph().lore, cosmology: '{}', worldHistory: '[]' };
+    expect(planLegacyLoreFold(legacyGraph({ lore }), null)).toMatchObject({ createCosmology: null, createHistory: null });
+    const world = { ...emptyWorld(), hasCosmology: true, hasHistory: true };
+    expect(planLegacyLoreFold(legacyGraph(), world)).toMatchObject({ createCosmology: null, createHistory: null });
+  });
+
+  it('should drop references to entities that were never there', () => {
+    const legacy = legacyGraph();
+    legacy.npcs[0] = { ...legacy.npcs[0], factionId: 'gone', primaryLocation: 'Atlantis' };
+
+    const { creates } = planLegacyLoreFold(legacy, null);
+    expect(creates.npcs[0]).toMatchObject({ factionId: null, primaryLocationId: null });
+  });
+
+  it('should count what a fold carried over and name what it missed', () => {
+    const world = emptyWorld();
+    world.entities.faction = [{ id: 'f-1', name: 'Salt Guild', discovered: false }];
+    world.entities.location = [
+      { id: 'other', name: 'brinemouth', discovered: true },
+      { id: 'l-2', name: 'The Old Pier', discovered: false },
+    ];
+    // Marta Vell was introduced in the legacy graph but not in the world
+    world.entities.npc = [{ id: 'n-1', name: 'Marta Vell', discovered: false }];
+    world.entities.secret = [{ id: 's-1', name: 'The Drowned Ledger', discovered: false }];
+
+    expect(checkLegacyLoreFold(legacyGraph(), world)).toEqual([
+      { type: 'faction', legacy: 1, folded: 1, missing: [] },
+      { type: 'location', legacy: 2, folded: 2, missing: [] },
+      { type: 'npc', legacy: 1, folded: 0, missing: ['Marta Vell'] },
+      { type: 'conflict', legacy: 1, folded: 0, missing: ['The Salt War'] },
+      { type: 'secret', legacy: 1, folded: 1, missing: [] },
+      { type: 'cosmology', legacy: 1, folded: 0, missing: ['cosmology'] },
+      { type: 'history', legacy: 1, folded: 0, missing: ['history'] },
+    ]);
+  });
+});
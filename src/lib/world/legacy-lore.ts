@@ -0,0 +1,412 @@
+// Legacy Lore - folds the old CampaignLore graph (its cosmology and history columns, LoreNpc,
+// LoreFaction, LoreLocation, LoreConflict, LoreSecret) into the campaign's WorldSeed graph,
+// the only lore there is now.
+// Pure planning only; scripts/migrate-legacy-lore.ts reads the old tables and applies the plan.
+
+import type { Prisma } from '@prisma/client';
+import type { KnowledgeEntityType } from './party-knowledge';
+
+// Raw SQL hands back SQLite booleans as 0/1 and dates as strings or epoch numbers
+type SqlBoolean = boolean | number | null;
+type SqlDate = Date | string | number | null;
+
+export interface LegacyLoreRow {
+  id: string;
+  campaignId: string;
+  generationStatus: string;
+  worldName: string | null;
+  tone: string | null;
+  themes: string | null;
+  cosmology: string | null;       // JSON - { gods, magicSystem, ... }
+  worldHistory: string | null;    // JSON - a list of events, or { eras, majorEvents }
+}
+
+interface LegacyEntityRow {
+  id: string;
+  name: string;
+  tier: string | null;
+  isDiscovered: SqlBoolean;
+  discoveredAt: SqlDate;
+}
+
+export interface LegacyNpcRow extends LegacyEntityRow {
+  role: string;
+  personality: string | null;
+  speakingStyle: string | null;
+  publicGoal: string | null;
+  secretGoal: string | null;
+  fears: string | null;
+  tensionRole: string | null;
+  factionId: string | null;
+  primaryLocation: string | null; // A location name, not an id
+  race: string | null;
+  appearance: string | null;
+  isRevealed: SqlBoolean;         // Set by introduce_npc
+}
+
+export interface LegacyFactionRow extends LegacyEntityRow {
+  type: string;
+  publicImage: string | null;
+  philosophy: string | null;
+  symbol: string | null;
+  motto: string | null;
+  tensionStances: string | null;
+  resources: string | null;
+  territory: string | null;
+  influence: number | null;
+}
+
+export interface LegacyLocationRow extends LegacyEntityRow {
+  locationType: string;
+  parentId: string | null;
+  mapCoordinates: string | null;
+  description: string | null;
+  atmosphere: string | null;
+  sensoryDetails: string | null;
+  terrain: string | null;
+  climate: string | null;
+  currentEvents: string | null;
+  explorationLevel: string | null;
+}
+
+export interface LegacyConflictRow extends LegacyEntityRow {
+  type: string;
+  scope: string | null;
+  rootTension: string | null;
+  participants: string | null;
+  stakes: string | null;
+  publicKnowledge: string | null;
+  trueNature: string | null;
+  currentState: string | null;
+  possibleOutcomes: string | null;
+  isRevealed: SqlBoolean;
+}
+
+export interface LegacySecretRow extends LegacyEntityRow {
+  type: string;
+  content: string;
+  implications: string | null;
+  hints: string | null;
+  tensionImpact: string | null;
+  discoveryConditions: string | null;
+  revealImpact: string | null;
+  isRevealed: SqlBoolean;
+  partiallyKnown: string | null;
+}
+
+export interface LegacyLoreGraph {
+  lore: LegacyLoreRow;
+  npcs: LegacyNpcRow[];
+  factions: LegacyFactionRow[];
+  locations: LegacyLocationRow[];
+  conflicts: LegacyConflictRow[];
+  secrets: LegacySecretRow[];
+}
+
+// What the campaign's world already has, for matching
+export interface ExistingWorldEntity {
+  id: string;
+  name: string;
+  discovered: boolean;   // isDiscovered, or isRevealed for a secret
+}
+
+export interface ExistingWorld {
+  id: string;
+  entities: Record<KnowledgeEntityType, ExistingWorldEntity[]>;
+  hasCosmology: boolean;
+  hasHistory: boolean;
+}
+
+// The world's one-per-world lore records, besides its entities
+export type WorldLoreRecord = 'cosmology' | 'history';
+
+// A world row to create, before it is given its worldSeedId
+type WorldRowInput<T> = Omit<T, 'worldSeedId'>;
+
+export interface LegacyLoreFoldPlan {
+  // Set when the campaign has no world yet
+  createWorld: Omit<Prisma.WorldSeedUncheckedCreateInput, 'campaignId'> | null;
+  // World rows to create, keyed by type
+  creates: {
+    factions: WorldRowInput<Prisma.WorldFactionUncheckedCreateInput>[];
+    npcs: WorldRowInput<Prisma.WorldNpcUncheckedCreateInput>[];
+    locations: WorldRowInput<Prisma.WorldLocationUncheckedCreateInput>[];
+    conflicts: WorldRowInput<Prisma.WorldConflictUncheckedCreateInput>[];
+    secrets: WorldRowInput<Prisma.WorldSecretUncheckedCreateInput>[];
+  };
+  // Set when the legacy lore had one and the world doesn't yet
+  createCosmology: WorldRowInput<Prisma.WorldCosmologyUncheckedCreateInput> | null;
+  createHistory: WorldRowInput<Prisma.WorldHistoryUncheckedCreateInput> | null;
+  // Existing world entities the legacy graph had discovered
+  discoveries: Array<{ type: KnowledgeEntityType; id: string; discoveredAt: Date }>;
+}
+
+// How much of one legacy table (or CampaignLore column) made it into the world
+export interface LegacyLoreFoldCheck {
+  type: KnowledgeEntityType | WorldLoreRecord;
+  legacy: number;       // Rows in the legacy table
+  folded: number;       // Of those, how many the world has, discovered if they were
+  missing: string[];    // Names of the rest
+}
+
+function toBoolean(value: SqlBoolean): boolean {
+  return value === true || value === 1;
+}
+
+function toDate(value: SqlDate): Date | null {
+  if (value === null || value === undefined || value === '') return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// A JSON column's value, or null when it is empty. Text that isn't JSON comes back as is.
+function parseLegacyJson(raw: string | null): unknown {
+  if (!raw || !raw.trim()) return null;
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+  if (Array.isArray(value)) return value.length > 0 ? value : null;
+  if (value && typeof value === 'object') return Object.keys(value).length > 0 ? value : null;
+  return value ?? null;
+}
+
+function json(value: unknown, fallback: string): string {
+  return value === undefined || value === null ? fallback : JSON.stringify(value);
+}
+
+function toCosmology(raw: string | null): LegacyLoreFoldPlan['createCosmology'] {
+  const value = parseLegacyJson(raw);
+  if (value === null) return null;
+  if (typeof value !== 'object' || Array.isArray(value)) return { creationStory: String(value) };
+
+  const c = value as Record<string, unknown>;
+  const story = c.creationStory ?? c.creationMyth;
+  return {
+    pantheon: json(c.gods ?? c.pantheon, '[]'),
+    magicSystem: json(c.magicSystem, '{}'),
+    planarStructure: json(c.planarStructure ?? c.planes, '{}'),
+    creationStory: typeof story === 'string' ? story : null,
+    prophecies: json(c.prophecies, '[]'),
+    afterlife: json(c.afterlife, '{}'),
+  };
+}
+
+function toHistory(raw: string | null): LegacyLoreFoldPlan['createHistory'] {
+  const value = parseLegacyJson(raw);
+  if (value === null) return null;
+  if (Array.isArray(value)) return { majorEvents: JSON.stringify(value) };
+  if (typeof value !== 'object') return { majorEvents: JSON.stringify([{ description: String(value) }]) };
+
+  const h = value as Record<string, unknown>;
+  return {
+    eras: json(h.eras, '[]'),
+    majorEvents: json(h.majorEvents ?? h.events, '[]'),
+    writtenBy: json(h.writtenBy, '[]'),
+    lostKnowledge: json(h.lostKnowledge, '[]'),
+  };
+}
+
+function legacyDiscovered(type: KnowledgeEntityType, row: LegacyEntityRow & { isRevealed?: SqlBoolean }): boolean {
+  if (type === 'secret') return toBoolean(row.isRevealed ?? null);
+  return toBoolean(row.isDiscovered) || toBoolean(row.isRevealed ?? null);
+}
+
+// The world entity a legacy row became: same id (the old sync copied ids), or else same name
+function findFolded(existing: ExistingWorldEntity[], row: LegacyEntityRow): ExistingWorldEntity | undefined {
+  return existing.find((e) => e.id === row.id)
+    ?? existing.find((e) => e.name.toLowerCase() === row.name.toLowerCase());
+}
+
+/**
+ * Plan how to fold one campaign's legacy lore into its world. Legacy entities match world
+ * entities by id (the old sync copied ids) or else by name; matched ones only carry over
+ * discovery, unmatched ones are created. Running it again on the result plans nothing.
+ */
+export function planLegacyLoreFold(legacy: LegacyLoreGraph, world: ExistingWorld | null): LegacyLoreFoldPlan {
+  const plan: LegacyLoreFoldPlan = {
+    createWorld: world ? null : {
+      name: legacy.lore.worldName,
+      tone: legacy.lore.tone || 'heroic',
+      themes: legacy.lore.themes || '[]',
+      generationStatus: legacy.lore.generationStatus,
+    },
+    creates: { factions: [], npcs: [], locations: [], conflicts: [], secrets: [] },
+    createCosmology: world?.hasCosmology ? null : toCosmology(legacy.lore.cosmology),
+    createHistory: world?.hasHistory ? null : toHistory(legacy.lore.worldHistory),
+    discoveries: [],
+  };
+
+  // Legacy id -> id in the world, for the references between entities
+  const worldIds = new Map<string, string>();
+
+  // Returns the legacy row's discovery, or null when it matched an existing entity
+  const fold = (type: KnowledgeEntityType, row: LegacyEntityRow & { isRevealed?: SqlBoolean }) => {
+    const discovered = legacyDiscovered(type, row);
+    const discoveredAt = toDate(row.discoveredAt);
+    const match = findFolded(world?.entities[type] ?? [], row);
+
+    worldIds.set(row.id, match ? match.id : row.id);
+    if (!match) return { discovered, discoveredAt };
+    if (discovered && !match.discovered) {
+      plan.discoveries.push({ type, id: match.id, discoveredAt: discoveredAt ?? new Date() });
+    }
+    return null;
+  };
+  const worldId = (legacyId: string | null) => (legacyId ? worldIds.get(legacyId) ?? null : null);
+
+  legacy.factions.forEach((f) => {
+    const created = fold('faction', f);
+    if (!created) return;
+    plan.creates.factions.push({
+      id: f.id,
+      name: f.name,
+      type: f.type,
+      tier: f.tier || 'supporting',
+      publicImage: f.publicImage,
+      philosophy: f.philosophy,
+      symbol: f.symbol,
+      motto: f.motto,
+      tensionStances: f.tensionStances || '[]',
+      resources: f.resources || '[]',
+      territory: f.territory || '[]',
+      influence: f.influence ?? 5,
+      isDiscovered: created.discovered,
+      discoveredAt: created.discoveredAt,
+    });
+  });
+
+  legacy.locations.forEach((l) => {
+    const created = fold('location', l);
+    if (!created) return;
+    plan.creates.locations.push({
+      id: l.id,
+      name: l.name,
+      type: l.locationType,
+      tier: l.tier || 'minor',
+      parentId: l.parentId, // Resolved once every location is folded
+      mapCoordinates: l.mapCoordinates || '{}',
+      description: l.description,
+      atmosphere: l.atmosphere,
+      sensoryDetails: l.sensoryDetails || '{}',
+      terrain: l.terrain,
+      climate: l.climate,
+      currentEvents: l.currentEvents || '[]',
+      explorationLevel: l.explorationLevel || 'unknown',
+      isDiscovered: created.discovered,
+      discoveredAt: created.discoveredAt,
+    });
+  });
+
+  plan.creates.locations.forEach((l) => {
+    l.parentId = worldId(l.parentId ?? null);
+  });
+
+  // Legacy NPCs name their location
+  const locationIds = new Map<string, string>();
+  world?.entities.location.forEach((l) => locationIds.set(l.name.toLowerCase(), l.id));
+  legacy.locations.forEach((l) => locationIds.set(l.name.toLowerCase(), worldId(l.id)!));
+
+  legacy.npcs.forEach((n) => {
+    const created = fold('npc', n);
+    if (!created) return;
+    plan.creates.npcs.push({
+      id: n.id,
+      name: n.name,
+      tier: n.tier || 'minor',
+      occupation: n.role,
+      race: n.race,
+      appearance: n.appearance,
+      personality: n.personality || '{}',
+      speakingStyle: n.speakingStyle,
+      publicGoal: n.publicGoal,
+      privateGoal: n.secretGoal,
+      fears: n.fears || '[]',
+      tensionRole: n.tensionRole || '[]',
+      factionId: worldId(n.factionId),
+      primaryLocationId: n.primaryLocation ? locationIds.get(n.primaryLocation.toLowerCase()) ?? null : null,
+      isDiscovered: created.discovered,
+      discoveredAt: created.discoveredAt,
+    });
+  });
+
+  legacy.conflicts.forEach((c) => {
+    const created = fold('conflict', c);
+    if (!created) return;
+    plan.creates.conflicts.push({
+      id: c.id,
+      name: c.name,
+      type: c.type,
+      tier: c.tier || 'supporting',
+      scope: c.scope || 'regional',
+      status: c.currentState || 'brewing',
+      rootTension: c.rootTension,
+      sides: c.participants || '[]',
+      stakes: c.stakes,
+      publicNarrative: c.publicKnowledge,
+      trueNature: c.trueNature,
+      possibleOutcomes: c.possibleOutcomes || '[]',
+      isDiscovered: created.discovered,
+      discoveredAt: created.discoveredAt,
+    });
+  });
+
+  legacy.secrets.forEach((s) => {
+    const created = fold('secret', s);
+    if (!created) return;
+    plan.creates.secrets.push({
+      id: s.id,
+      name: s.name,
+      type: s.type,
+      tier: s.tier || 'supporting',
+      content: s.content,
+      implications: s.implications,
+      hints: s.hints || '[]',
+      tensionImpact: s.tensionImpact || '[]',
+      discoveryConditions: s.discoveryConditions || '[]',
+      onReveal: s.revealImpact || '{}',
+      isRevealed: created.discovered,
+      revealedAt: created.discovered ? created.discoveredAt : null,
+      partialReveals: s.partiallyKnown || '[]',
+    });
+  });
+
+  return plan;
+}
+
+/**
+ * Compare a folded world against the legacy graph it came from, table by table. Every
+ * legacy row should have a world entity, discovered if the row was, and legacy cosmology
+ * and history a world record; only then is it safe to drop the legacy tables.
+ */
+export function checkLegacyLoreFold(legacy: LegacyLoreGraph, world: ExistingWorld): LegacyLoreFoldCheck[] {
+  const tables: Array<[KnowledgeEntityType, Array<LegacyEntityRow & { isRevealed?: SqlBoolean }>]> = [
+    ['faction', legacy.factions],
+    ['location', legacy.locations],
+    ['npc', legacy.npcs],
+    ['conflict', legacy.conflicts],
+    ['secret', legacy.secrets],
+  ];
+
+  const checks: LegacyLoreFoldCheck[] = tables.map(([type, rows]) => {
+    const missing = rows
+      .filter((row) => {
+        const match = findFolded(world.entities[type], row);
+        return !match || (legacyDiscovered(type, row) && !match.discovered);
+      })
+      .map((row) => row.name);
+    return { type, legacy: rows.length, folded: rows.length - missing.length, missing };
+  });
+
+  const records: Array<[WorldLoreRecord, string | null, boolean]> = [
+    ['cosmology', legacy.lore.cosmology, world.hasCosmology],
+    ['history', legacy.lore.worldHistory, world.hasHistory],
+  ];
+  records.forEach(([type, raw, folded]) => {
+    if (parseLegacyJson(raw) === null) return;
+    checks.push({ type, legacy: 1, folded: folded ? 1 : 0, missing: folded ? [] : [type] });
+  });
+  return checks;
+}
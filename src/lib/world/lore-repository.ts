@@ -0,0 +1,134 @@
+// src/lib/world/lore-repository.ts
+import { prisma } from '@/lib/db';
+import { isDiscovered } from './party-knowledge';
+import type { KnowledgeEntityType } from './party-knowledge';
+
+export type LoreEntityType = KnowledgeEntityType;
+
+export type WorldSeedRow = NonNullable<Awaited<ReturnType<typeof prisma.worldSeed.findFirst>>>;
+export type NpcRecord = NonNullable<Awaited<ReturnType<typeof prisma.worldNpc.findFirst>>>;
+export type FactionRecord = NonNullable<Awaited<ReturnType<typeof prisma.worldFaction.findFirst>>>;
+export type LocationRecord = NonNullable<Awaited<ReturnType<typeof prisma.worldLocation.findFirst>>>;
+export type ConflictRecord = NonNullable<Awaited<ReturnType<typeof prisma.worldConflict.findFirst>>>;
+export type SecretRecord = NonNullable<Awaited<ReturnType<typeof prisma.worldSecret.findFirst>>>;
+export type HistoryRecord = NonNullable<Awaited<ReturnType<typeof prisma.worldHistory.findFirst>>>;
+export type CosmologyRecord = NonNullable<Awaited<ReturnType<typeof prisma.worldCosmology.findFirst>>>;
+
+export interface LoreEntityMap {
+  npc: NpcRecord;
+  faction: FactionRecord;
+  location: LocationRecord;
+  conflict: ConflictRecord;
+  secret: SecretRecord;
+}
+
+export type LoreEntity = LoreEntityMap[LoreEntityType];
+
+const ORDER_BY = [{ tier: 'asc' as const }, { name: 'asc' as const }];
+
+// Per-entity queries, typed so each entity type gets its own record back
+type ListQueries = { [T in LoreEntityType]: (worldSeedId: string) => Promise<LoreEntityMap[T][]> };
+type GetQueries = { [T in LoreEntityType]: (worldSeedId: string, id: string) => Promise<LoreEntityMap[T] | null> };
+type DiscoverQueries = { [T in LoreEntityType]: (id: string, at: Date) => Promise<LoreEntityMap[T]> };
+
+const LIST: ListQueries = {
+  npc: (worldSeedId) => prisma.worldNpc.findMany({ where: { worldSeedId }, orderBy: ORDER_BY }),
+  faction: (worldSeedId) => prisma.worldFaction.findMany({ where: { worldSeedId }, orderBy: ORDER_BY }),
+  location: (worldSeedId) => prisma.worldLocation.findMany({ where: { worldSeedId }, orderBy: ORDER_BY }),
+  conflict: (worldSeedId) => prisma.worldConflict.findMany({ where: { worldSeedId }, orderBy: ORDER_BY }),
+  secret: (worldSeedId) => prisma.worldSecret.findMany({ where: { worldSeedId }, orderBy: ORDER_BY }),
+};
+
+const GET: GetQueries = {
+  npc: (worldSeedId, id) => prisma.worldNpc.findFirst({ where: { id, worldSeedId } }),
+  faction: (worldSeedId, id) => prisma.worldFaction.findFirst({ where: { id, worldSeedId } }),
+  location: (worldSeedId, id) => prisma.worldLocation.findFirst({ where: { id, worldSeedId } }),
+  conflict: (worldSeedId, id) => prisma.worldConflict.findFirst({ where: { id, worldSeedId } }),
+  secret: (worldSeedId, id) => prisma.worldSecret.findFirst({ where: { id, worldSeedId } }),
+};
+
+// A secret is revealed rather than discovered
+const MARK_DISCOVERED: DiscoverQueries = {
+  npc: (id, at) => prisma.worldNpc.update({ where: { id }, data: { isDiscovered: true, discoveredAt: at } }),
+  faction: (id, at) => prisma.worldFaction.update({ where: { id }, data: { isDiscovered: true, discoveredAt: at } }),
+  location: (id, at) => prisma.worldLocation.update({ where: { id }, data: { isDiscovered: true, discoveredAt: at } }),
+  conflict: (id, at) => prisma.worldConflict.update({ where: { id }, data: { isDiscovered: true, discoveredAt: at } }),
+  secret: (id, at) => prisma.worldSecret.update({ where: { id }, data: { isRevealed: true, revealedAt: at } }),
+};
+
+/**
+ * LoreRepository is the one way into a campaign's lore: the WorldSeed graph
+ * (NPCs, factions, locations, conflicts, secrets, history, cosmology).
+ * Discovery state is only ever written through markDiscovered().
+ */
+export class LoreRepository {
+  /**
+   * The campaign's world, or null if lore was never generated
+   */
+  async getWorld(campaignId: string): Promise<WorldSeedRow | null> {
+    return prisma.worldSeed.findUnique({ where: { campaignId } });
+  }
+
+  /**
+   * All entities of one type, by tier then name
+   */
+  async list<T extends LoreEntityType>(worldSeedId: string, type: T): Promise<LoreEntityMap[T][]> {
+    // Routes pass the type straight through, so it may not be an entity type at all
+    const list: ListQueries[T] | undefined = LIST[type];
+    return list ? list(worldSeedId) : [];
+  }
+
+  async get<T extends LoreEntityType>(worldSeedId: string, type: T, id: string): Promise<LoreEntityMap[T] | null> {
+    const get: GetQueries[T] | undefined = GET[type];
+    return get ? get(worldSeedId, id) : null;
+  }
+
+  /**
+   * Find an entity by name, case-insensitively: an exact match, else the first name containing it
+   */
+  async findByName<T extends LoreEntityType>(worldSeedId: string, type: T, name: string): Promise<LoreEntityMap[T] | null> {
+    const wanted = name.trim().toLowerCase();
+    if (!wanted) return null;
+
+    const entities = await this.list(worldSeedId, type);
+    return entities.find((e) => e.name.toLowerCase() === wanted)
+      ?? entities.find((e) => e.name.toLowerCase().includes(wanted))
+      ?? null;
+  }
+
+  async count(worldSeedId: string, type: LoreEntityType): Promise<number> {
+    const args = { where: { worldSeedId } };
+    switch (type) {
+      case 'npc': return prisma.worldNpc.count(args);
+      case 'faction': return prisma.worldFaction.count(args);
+      case 'location': return prisma.worldLocation.count(args);
+      case 'conflict': return prisma.worldConflict.count(args);
+      case 'secret': return prisma.worldSecret.count(args);
+      default: return 0;
+    }
+  }
+
+  async getHistory(worldSeedId: string): Promise<HistoryRecord | null> {
+    return prisma.worldHistory.findUnique({ where: { worldSeedId } });
+  }
+
+  async getCosmology(worldSeedId: string): Promise<CosmologyRecord | null> {
+    return prisma.worldCosmology.findUnique({ where: { worldSeedId } });
+  }
+
+  /**
+   * Mark an entity discovered by the party (a secret: revealed). Already discovered
+   * entities keep their original discovery time. Returns null if it isn't in the world.
+   */
+  async markDiscovered<T extends LoreEntityType>(worldSeedId: string, type: T, id: string): Promise<LoreEntityMap[T] | null> {
+    const entity = await this.get(worldSeedId, type, id);
+    if (!entity) return null;
+    if (isDiscovered(type, entity)) return entity;
+
+    const markDiscovered: DiscoverQueries[T] = MARK_DISCOVERED[type];
+    return markDiscovered(id, new Date());
+  }
+}
+
+// Default singleton instance
+export const loreRepository = new LoreRepository();
@@ -0,0 +1,113 @@
+// src/lib/world/party-knowledge-service.ts
+import { prisma } from '@/lib/db';
+import { loreRepository } from './lore-repository';
+import type { KnowledgeEntityType, KnowledgeEntry, KnowledgeKind } from './party-knowledge';
+
+type KnowledgeRow = NonNullable<Awaited<ReturnType<typeof prisma.partyKnowledge.findFirst>>>;
+
+export interface RecordKnowledgeParams {
+  entityType: KnowledgeEntityType;
+  entityId: string;
+  content: string;
+  kind?: KnowledgeKind;       // fact when not given
+  field?: string | null;
+  isTrue?: boolean;           // true when not given
+  source?: string | null;
+  learnedDay?: number | null; // The campaign's current game day when not given
+}
+
+export interface KnowledgeQuery {
+  entityType?: KnowledgeEntityType;
+  entityId?: string;
+}
+
+function toEntry(row: KnowledgeRow): KnowledgeEntry {
+  return {
+    id: row.id,
+    entityType: row.entityType as KnowledgeEntityType,
+    entityId: row.entityId,
+    field: row.field,
+    kind: row.kind as KnowledgeKind,
+    content: row.content,
+    isTrue: row.isTrue,
+    source: row.source,
+    learnedDay: row.learnedDay,
+    learnedAt: row.learnedAt.toISOString(),
+  };
+}
+
+/**
+ * PartyKnowledgeService records what the players have learned about the world -
+ * facts, rumors (true or false) and partial reveals - and when they learned it.
+ */
+export class PartyKnowledgeService {
+  /**
+   * Record something the party learned about an entity of the campaign's world.
+   * Returns null if the entity isn't part of it.
+   */
+  async record(campaignId: string, params: RecordKnowledgeParams): Promise<KnowledgeEntry | null> {
+    const world = await loreRepository.getWorld(campaignId);
+    if (!world || !(await loreRepository.get(world.id, params.entityType, params.entityId))) return null;
+
+    const learnedDay = params.learnedDay !== undefined
+      ? params.learnedDay
+      : (await prisma.gameState.findUnique({ where: { campaignId }, select: { gameDay: true } }))?.gameDay ?? null;
+
+    const row = await prisma.partyKnowledge.create({
+      data: {
+        campaignId,
+        entityType: params.entityType,
+        entityId: params.entityId,
+        field: params.field ?? null,
+        kind: params.kind ?? 'fact',
+        content: params.content,
+        isTrue: params.isTrue ?? true,
+        source: params.source ?? null,
+        learnedDay,
+      },
+    });
+    return toEntry(row);
+  }
+
+  /**
+   * Record knowledge about an entity found by name, for the DM's function calls
+   */
+  async recordByName(
+    campaignId: string,
+    entityName: string,
+    params: Omit<RecordKnowledgeParams, 'entityId'>
+  ): Promise<{ entry: KnowledgeEntry; entityName: string } | null> {
+    const world = await loreRepository.getWorld(campaignId);
+    const entity = world ? await loreRepository.findByName(world.id, params.entityType, entityName) : null;
+    if (!entity) return null;
+
+    const entry = await this.record(campaignId, { ...params, entityId: entity.id });
+    return entry ? { entry, entityName: entity.name } : null;
+  }
+
+  /**
+   * Everything the party has learned, oldest first
+   */
+  async list(campaignId: string, query: KnowledgeQuery = {}): Promise<KnowledgeEntry[]> {
+    const rows = await prisma.partyKnowledge.findMany({
+      where: {
+        campaignId,
+        ...(query.entityType ? { entityType: query.entityType } : {}),
+        ...(query.entityId ? { entityId: query.entityId } : {}),
+      },
+      orderBy: { learnedAt: 'asc' },
+    });
+    return rows.map(toEntry);
+  }
+
+  /**
+   * Forget an entry (the DM recorded it by mistake). Returns false if it wasn't found.
+   */
+  async remove(campaignId: string, id: string): Promise<boolean> {
+    const { count } = await prisma.partyKnowledge.deleteMany({ where: { id, campaignId } });
+    return count > 0;
+  }
+}
+
+// Default singleton instance
+export const partyKnowledgeService = new PartyKnowledgeService();
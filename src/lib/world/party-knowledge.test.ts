@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import { isDiscovered, redactEntities, redactEntity, redactWorldLore, UNREVEALED_SECRET_NAME } from './party-knowledge';
+import type { KnowledgeEntry } from './party-knowledge';
+
+const marta = {
+  id: 'npc-1',
+  name: 'Marta Vell',
+  tier: 'major',
+  type: 'Harbormaster',
+  occupation: 'Harbormaster',
+  publicGoal: 'Keep the docks running',
+  privateGoal: 'Sell the harbor to the Salt Guild',
+  hiddenIdentity: 'Guild informant',
+  isDiscovered: true,
+};
+
+const secret = {
+  id: 'secret-1',
+  name: 'The Drowned Ledger',
+  tier: 'major',
+  type: 'conspiracy',
+  content: 'The Crown forged the salt charters',
+  implications: 'The guilds have a lawful claim',
+  partialReveals: '["forged charters"]',
+  isRevealed: false,
+};
+
+let sequence = 0;
+function entry(overrides: Partial<KnowledgeEntry>): KnowledgeEntry {
+  sequence++;
+  return {
+    id: `k-${sequence}`,
+    entityType: 'npc',
+    entityId: 'npc-1',
+    field: null,
+    kind: 'fact',
+    content: 'Something',
+    isTrue: true,
+    source: null,
+    learnedDay: 1,
+    learnedAt: `2026-01-01T00:00:${String(sequence).padStart(2, '0')}.000Z`,
+    ...overrides,
+  };
+}
+
+describe('party knowledge', () => {
+  it('should count a secret as discovered once revealed', () => {
+    expect(isDiscovered('npc', marta)).toBe(true);
+    expect(isDiscovered('secret', secret)).toBe(false);
+    expect(isDiscovered('secret', { ...secret, isRevealed: true })).toBe(true);
+  });
+
+  it('should hide entities the party knows nothing of', () => {
+    expect(redactEntity('npc', { ...marta, isDiscovered: false }, [])).toBeNull();
+    expect(redactEntity('secret', secret, [])).toBeNull();
+  });
+
+  it('should show public fields of a discovered entity and keep the truth hidden', () => {
+    const view = redactEntity('npc', marta, [])!;
+
+    expect(view).toMatchObject({ name: 'Marta Vell', occupation: 'Harbormaster', publicGoal: 'Keep the docks running' });
+    expect(view).not.toHaveProperty('privateGoal');
+    expect(view).not.toHaveProperty('hiddenIdentity');
+    expect(view.knowledge).toEqual([]);
+  });
+
+  it('should show a hidden field once the party learns the truth of it', () => {
+    const view = redactEntity('npc', marta, [
+      entry({ field: 'hiddenIdentity', content: 'She reports to the guild' }),
+    ])!;
+
+    expect(view.hiddenIdentity).toBe('Guild informant');
+    expect(view).not.toHaveProperty('privateGoal');
+  });
+
+  it('should list false rumors without showing they are false', () => {
+    const view = redactEntity('npc', marta, [
+      entry({ field: 'privateGoal', kind: 'rumor', content: 'She is a Crown spy', isTrue: false, source: 'Tavern gossip' }),
+      entry({ field: 'hiddenIdentity', kind: 'fact', content: 'Spy', isTrue: false }),
+    ])!;
+
+    expect(view).not.toHaveProperty('privateGoal');
+    expect(view).not.toHaveProperty('hiddenIdentity');
+    expect(view.knowledge).toEqual([
+      expect.objectContaining({ kind: 'rumor', content: 'She is a Crown spy', source: 'Tavern gossip' }),
+      expect.objectContaining({ kind: 'fact', content: 'Spy' }),
+    ]);
+    (view.knowledge as object[]).forEach((k) => expect(k).not.toHaveProperty('isTrue'));
+  });
+
+  it('should ignore knowledge about other entities and order the rest by when it was learned', () => {
+    const view = redactEntity('npc', marta, [
+      entry({ content: 'Later', learnedDay: 4 }),
+      entry({ entityId: 'npc-2', content: 'Someone else' }),
+      entry({ entityType: 'faction', content: 'Same id, other type' }),
+      entry({ content: 'Earlier', learnedDay: 2 }),
+    ])!;
+
+    expect((view.knowledge as { content: string }[]).map((k) => k.content)).toEqual(['Earlier', 'Later']);
+  });
+
+  it('should name an unrevealed secret only by placeholder and show its partial reveals', () => {
+    const view = redactEntity('secret', secret, [
+      entry({ entityType: 'secret', entityId: 'secret-1', kind: 'partial_reveal', field: 'content', content: 'Someone forged the charters' }),
+    ])!;
+
+    expect(view.name).toBe(UNREVEALED_SECRET_NAME);
+    expect(view.content).toBe('Someone forged the charters');
+    expect(view).not.toHaveProperty('implications');
+    expect(view).not.toHaveProperty('partialReveals');
+  });
+
+  it('should show a revealed secret in full', () => {
+    const view = redactEntity('secret', { ...secret, isRevealed: true }, [])!;
+
+    expect(view).toMatchObject({
+      name: 'The Drowned Ledger',
+      content: 'The Crown forged the salt charters',
+      implications: 'The guilds have a lawful claim',
+    });
+  });
+
+  it('should redact a list down to what the party knows of', () => {
+    const views = redactEntities('npc', [marta, { ...marta, id: 'npc-2', name: 'Unmet', isDiscovered: false }], []);
+    expect(views.map((v) => v.name)).toEqual(['Marta Vell']);
+  });
+
+  it('should show history and cosmology as common lore without the DM\'s side', () => {
+    expect(redactWorldLore('era', { name: 'The Salt Age' })).toEqual({ name: 'The Salt Age' });
+    expect(redactWorldLore('event', { name: 'The Charter Fire', isPublic: false })).toBeNull();
+    expect(redactWorldLore('event', { title: 'The Drowning' }, ['the drowning'])).toBeNull();
+
+    const deity = { name: 'Thalassa', domain: 'the sea', tensionStance: { side: 'Guild' } };
+    expect(redactWorldLore('deity', deity)).toEqual({ name: 'Thalassa', domain: 'the sea' });
+
+    const system = redactWorldLore('system', {
+      pantheon: [deity],
+      magicSystem: { source: 'Brine', tensionRelevance: 'Only the Crown can tithe it' },
+      prophecies: [{ content: 'The tide returns', fulfilled: true }, { content: 'The crown drowns', fulfilled: false }],
+    });
+    expect(system).toEqual({
+      pantheon: [{ name: 'Thalassa', domain: 'the sea' }],
+      magicSystem: { source: 'Brine' },
+      prophecies: [{ content: 'The tide returns', fulfilled: true }],
+    });
+  });
+});
@@ -0,0 +1,193 @@
+// Party Knowledge - what the players have learned about the world, as opposed to what is true.
+// Redacts world entities down to a player view that is safe to show at the table.
+
+export const KNOWLEDGE_ENTITY_TYPES = ['npc', 'faction', 'location', 'conflict', 'secret'] as const;
+export type KnowledgeEntityType = (typeof KNOWLEDGE_ENTITY_TYPES)[number];
+
+// fact: true information about a field; rumor: hearsay, true or not; partial_reveal: part of a secret
+export const KNOWLEDGE_KINDS = ['fact', 'rumor', 'partial_reveal'] as const;
+export type KnowledgeKind = (typeof KNOWLEDGE_KINDS)[number];
+
+// Lore explorer categories backed by a world entity table
+export const CATEGORY_ENTITY_TYPES: Record<string, KnowledgeEntityType> = {
+  people: 'npc',
+  factions: 'faction',
+  geography: 'location',
+  conflicts: 'conflict',
+  secrets: 'secret',
+};
+
+export interface KnowledgeEntry {
+  id: string;
+  entityType: KnowledgeEntityType;
+  entityId: string;
+  field: string | null;     // Entity field the entry is about, e.g. "hiddenIdentity"
+  kind: KnowledgeKind;
+  content: string;          // What the party was told
+  isTrue: boolean;          // False rumors are recorded too; players never see this flag
+  source: string | null;    // How they learned it: "Overheard at the Gilded Eel"
+  learnedDay: number | null; // Game day
+  learnedAt: string;        // ISO timestamp
+}
+
+// A knowledge entry as the players see it
+export type PlayerKnowledge = Omit<KnowledgeEntry, 'id' | 'entityType' | 'entityId' | 'isTrue'>;
+
+// Shown for anything the party knows exists
+const IDENTITY_FIELDS = ['id', 'name', 'tier', 'type'];
+
+// Shown once the party has discovered the entity
+const PUBLIC_FIELDS: Record<KnowledgeEntityType, string[]> = {
+  npc: ['race', 'occupation', 'age', 'appearance', 'personality', 'speakingStyle', 'mannerisms', 'publicGoal',
+    'factionRank', 'primaryLocationId', 'defaultAttitude', 'relationshipLevel', 'isDiscovered', 'discoveredAt'],
+  faction: ['philosophy', 'publicImage', 'symbol', 'motto', 'territory', 'isDiscovered', 'discoveredAt'],
+  location: ['parentId', 'mapCoordinates', 'terrain', 'climate', 'size', 'description', 'atmosphere', 'sensoryDetails',
+    'controllingFactionId', 'contestedBy', 'population', 'economy', 'landmarks', 'currentEvents', 'rumors',
+    'isDiscovered', 'discoveredAt', 'explorationLevel'],
+  conflict: ['scope', 'status', 'sides', 'stakes', 'publicNarrative', 'currentState', 'timeline', 'affectedLocationIds',
+    'isDiscovered', 'discoveredAt', 'knowledgeLevel'],
+  secret: ['isRevealed', 'revealedAt'],
+};
+
+// Only shown field by field, as the party learns them (all at once for a revealed secret)
+export const SECRET_FIELDS: Record<KnowledgeEntityType, string[]> = {
+  npc: ['privateGoal', 'fears', 'tensionRole', 'factionId', 'knowledgeScope', 'npcSecrets', 'hiddenIdentity'],
+  faction: ['leadership', 'ranks', 'membership', 'resources', 'tensionStances', 'factionSecrets', 'influence'],
+  location: ['locationSecrets'],
+  conflict: ['rootTension', 'triggerEvent', 'neutrals', 'trueNature', 'possibleOutcomes', 'playerInfluence'],
+  secret: ['name', 'content', 'implications'],
+};
+
+// History and cosmology entries in the lore explorer, which have no table or discovery of their own
+export type WorldLoreKind = 'era' | 'event' | 'deity' | 'system';
+
+// The DM-only parts of history and cosmology entries
+const HIDDEN_WORLD_LORE_FIELDS: Record<WorldLoreKind, string[]> = {
+  era: ['isPublic'],
+  event: ['isPublic'],
+  deity: ['tensionStance'],
+  system: [],
+};
+
+// Name shown for a secret the party has only glimpsed
+export const UNREVEALED_SECRET_NAME = 'Unrevealed secret';
+
+/**
+ * Whether the party has discovered the entity itself (a secret counts once revealed)
+ */
+export function isDiscovered(type: KnowledgeEntityType, entity: Record<string, unknown>): boolean {
+  return type === 'secret' ? entity.isRevealed === true : entity.isDiscovered === true;
+}
+
+function pick(entity: Record<string, unknown>, fields: string[]): Record<string, unknown> {
+  const picked: Record<string, unknown> = {};
+  fields.forEach((field) => {
+    if (field in entity) picked[field] = entity[field];
+  });
+  return picked;
+}
+
+export function toPlayerKnowledge(entry: KnowledgeEntry): PlayerKnowledge {
+  return {
+    field: entry.field,
+    kind: entry.kind,
+    content: entry.content,
+    source: entry.source,
+    learnedDay: entry.learnedDay,
+    learnedAt: entry.learnedAt,
+  };
+}
+
+/**
+ * An entity as the party knows it, or null when they don't know it exists.
+ * Discovered entities show their public fields; other fields appear only through
+ * true facts about them (the real value) or partial reveals (the partial text).
+ * Everything learned - rumors included, true or false - is listed under `knowledge`.
+ */
+export function redactEntity(
+  type: KnowledgeEntityType,
+  entity: Record<string, unknown>,
+  entries: KnowledgeEntry[]
+): Record<string, unknown> | null {
+  const about = entries
+    .filter((e) => e.entityType === type && e.entityId === entity.id)
+    .sort((a, b) => (a.learnedDay ?? 0) - (b.learnedDay ?? 0) || a.learnedAt.localeCompare(b.learnedAt));
+  const discovered = isDiscovered(type, entity);
+  if (!discovered && about.length === 0) return null;
+
+  const view = pick(entity, discovered ? [...IDENTITY_FIELDS, ...PUBLIC_FIELDS[type]] : IDENTITY_FIELDS);
+
+  if (type === 'secret' && discovered) {
+    Object.assign(view, pick(entity, SECRET_FIELDS.secret));
+  } else {
+    if (type === 'secret') view.name = UNREVEALED_SECRET_NAME;
+    const learnable = [...PUBLIC_FIELDS[type], ...SECRET_FIELDS[type]];
+    about.forEach((entry) => {
+      if (!entry.field || !learnable.includes(entry.field)) return;
+      if (entry.kind === 'fact' && entry.isTrue) view[entry.field] = entity[entry.field];
+      if (entry.kind === 'partial_reveal') view[entry.field] = entry.content;
+    });
+  }
+
+  return { ...view, knowledge: about.map(toPlayerKnowledge) };
+}
+
+/**
+ * The entities the party knows of, redacted
+ */
+export function redactEntities<T extends Record<string, unknown>>(
+  type: KnowledgeEntityType,
+  entities: T[],
+  entries: KnowledgeEntry[]
+): Record<string, unknown>[] {
+  return entities
+    .map((entity) => redactEntity(type, entity, entries))
+    .filter((view): view is Record<string, unknown> => view !== null);
+}
+
+function loreName(entry: unknown): string | null {
+  if (typeof entry === 'string') return entry;
+  if (entry && typeof entry === 'object' && typeof (entry as { name?: unknown }).name === 'string') {
+    return (entry as { name: string }).name;
+  }
+  return null;
+}
+
+/**
+ * A history or cosmology entry as the party knows it, or null when it is hidden. These are
+ * the world's common lore - what any sage or priest could tell - so the party knows them
+ * without discovering them, but the DM's side stays out: a deity's stance on the core
+ * tensions, how magic ties into them, unfulfilled prophecies, and history marked
+ * `isPublic: false` or named in the world's `lostKnowledge`.
+ */
+export function redactWorldLore(
+  kind: WorldLoreKind,
+  entry: Record<string, unknown>,
+  lostKnowledge: unknown[] = []
+): Record<string, unknown> | null {
+  if (kind === 'era' || kind === 'event') {
+    const lost = lostKnowledge.map(loreName).filter((name): name is string => name !== null)
+      .map((name) => name.toLowerCase());
+    const name = loreName(entry) ?? (typeof entry.title === 'string' ? entry.title : null);
+    if (entry.isPublic === false || (name && lost.includes(name.toLowerCase()))) return null;
+  }
+
+  const view = { ...entry };
+  HIDDEN_WORLD_LORE_FIELDS[kind].forEach((field) => delete view[field]);
+
+  if (kind === 'system') {
+    if (view.magicSystem && typeof view.magicSystem === 'object') {
+      const { tensionRelevance: _hidden, ...magicSystem } = view.magicSystem as Record<string, unknown>;
+      view.magicSystem = magicSystem;
+    }
+    if (Array.isArray(view.prophecies)) {
+      view.prophecies = view.prophecies.filter((p) => p && typeof p === 'object' && (p as { fulfilled?: unknown }).fulfilled === true);
+    }
+    if (Array.isArray(view.pantheon)) {
+      view.pantheon = view.pantheon.map((deity) =>
+        deity && typeof deity === 'object' ? redactWorldLore('deity', deity as Record<string, unknown>) : deity);
+    }
+  }
+
+  return view;
+}
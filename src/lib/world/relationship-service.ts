@@ -1,4 +1,5 @@
 import { prisma } from '@/lib/db';
+import { loreRepository } from './lore-repository';
 
 export type EntityType = 'npc' | 'faction' | 'location' | 'deity';
 export type RelationshipType = 'ally' | 'enemy' | 'rival' | 'servant' | 'patron' | 'family' | 'trade_partner' | 'neutral';
@@ -17,6 +18,17 @@ export interface CreateRelationshipParams {
   instability?: string;
 }
 
+export interface ShiftRelationshipParams {
+  worldSeedId: string;
+  sourceType: EntityType;
+  sourceId: string;
+  targetType: EntityType;
+  targetId: string;
+  type?: RelationshipType;  // Kept as it is when not given
+  strengthDelta?: number;
+  description?: string;
+}
+
 export interface GeneratedRelationship {
   sourceType: EntityType;
   sourceName: string;
@@ -208,49 +220,17 @@ export class RelationshipService {
     type: EntityType,
     id: string
   ): Promise<GraphNode | null> {
-    switch (type) {
-      case 'npc': {
-        const npc = await prisma.worldNpc.findFirst({
-          where: { id, worldSeedId },
-        });
-        if (!npc) return null;
-        return {
-          id: `npc:${npc.id}`,
-          type: 'npc',
-          name: npc.name,
-          tier: npc.tier,
-          isDiscovered: npc.isDiscovered,
-        };
-      }
-      case 'faction': {
-        const faction = await prisma.worldFaction.findFirst({
-          where: { id, worldSeedId },
-        });
-        if (!faction) return null;
-        return {
-          id: `faction:${faction.id}`,
-          type: 'faction',
-          name: faction.name,
-          tier: faction.tier,
-          isDiscovered: faction.isDiscovered,
-        };
-      }
-      case 'location': {
-        const location = await prisma.worldLocation.findFirst({
-          where: { id, worldSeedId },
-        });
-        if (!location) return null;
-        return {
-          id: `location:${location.id}`,
-          type: 'location',
-          name: location.name,
-          tier: location.tier,
-          isDiscovered: location.isDiscovered,
-        };
-      }
-      default:
-        return null;
-    }
+    if (type === 'deity') return null;
+
+    const entity = await loreRepository.get(worldSeedId, type, id);
+    if (!entity) return null;
+    return {
+      id: `${type}:${entity.id}`,
+      type,
+      name: entity.name,
+      tier: entity.tier,
+      isDiscovered: entity.isDiscovered,
+    };
   }
 
   async bulkCreateFromGeneration(
@@ -265,30 +245,8 @@ export class RelationshipService {
         return entityCache.get(cacheKey) || null;
       }
 
-      let id: string | null = null;
-      switch (type) {
-        case 'npc': {
-          const npc = await prisma.worldNpc.findFirst({
-            where: { worldSeedId, name: { contains: name } },
-          });
-          id = npc?.id || null;
-          break;
-        }
-        case 'faction': {
-          const faction = await prisma.worldFaction.findFirst({
-            where: { worldSeedId, name: { contains: name } },
-          });
-          id = faction?.id || null;
-          break;
-        }
-        case 'location': {
-          const location = await prisma.worldLocation.findFirst({
-            where: { worldSeedId, name: { contains: name } },
-          });
-          id = location?.id || null;
-          break;
-        }
-      }
+      const entity = type === 'deity' ? null : await loreRepository.findByName(worldSeedId, type, name);
+      const id = entity?.id || null;
 
       entityCache.set(cacheKey, id);
       return id;
@@ -326,6 +284,47 @@ export class RelationshipService {
     }
   }
 
+  /**
+   * Move the relationship from source to target by `strengthDelta` (and to `type`, if given),
+   * creating it when there is none. Either way the party now knows about it.
+   */
+  async shiftRelationship(params: ShiftRelationshipParams) {
+    const { worldSeedId, sourceType, sourceId, targetType, targetId } = params;
+    const existing = await prisma.worldRelationship.findFirst({
+      where: { worldSeedId, sourceType, sourceId, targetType, targetId },
+    });
+
+    if (!existing) {
+      return prisma.worldRelationship.create({
+        data: {
+          worldSeedId,
+          sourceType,
+          sourceId,
+          targetType,
+          targetId,
+          type: params.type ?? 'neutral',
+          strength: Math.max(1, Math.min(10, 5 + (params.strengthDelta ?? 0))),
+          isPublic: true,
+          description: params.description,
+          isDiscovered: true,
+          discoveredAt: new Date(),
+        },
+      });
+    }
+
+    return prisma.worldRelationship.update({
+      where: { id: existing.id },
+      data: {
+        type: params.type ?? existing.type,
+        strength: Math.max(1, Math.min(10, existing.strength + (params.strengthDelta ?? 0))),
+        description: params.description ?? existing.description,
+        isPublic: true,
+        isDiscovered: true,
+        discoveredAt: existing.discoveredAt ?? new Date(),
+      },
+    });
+  }
+
   async discoverRelationship(relationshipId: string): Promise<void> {
     await prisma.worldRelationship.update({
       where: { id: relationshipId },
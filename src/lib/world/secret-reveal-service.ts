@@ -0,0 +1,276 @@
+// src/lib/world/secret-reveal-service.ts
+import { prisma } from '@/lib/db';
+import { loreRepository } from './lore-repository';
+import type { LocationRecord, NpcRecord, SecretRecord, WorldSeedRow } from './lore-repository';
+import { partyKnowledgeService } from './party-knowledge-service';
+import { relationshipService } from './relationship-service';
+import {
+  collectRevealEvents,
+  describeConsequences,
+  describeProgress,
+  escalateConflictStatus,
+  evaluateSecret,
+  orderHints,
+  parseHints,
+  parseOnReveal,
+  parseRevealConditions,
+  parseRevealProgress,
+  resolveName,
+} from './secret-reveal';
+import type {
+  ActionFunctionResult,
+  RelationshipShift,
+  RevealObservations,
+  RevealProgress,
+  RevealableSecret,
+  SecretHint,
+  ShiftEntityType,
+} from './secret-reveal';
+import type { ConflictTimelineEntry } from './world-simulation';
+
+// Secrets revealed this many days ago or less are still news to the DM
+const RECENT_REVEAL_DAYS = 1;
+
+export interface SecretRevealReport {
+  hints: Array<{ secretName: string; hint: SecretHint }>;
+  ripe: string[];                 // Secrets every checkable condition is now met for
+  revealed: RevealOutcome[];      // Secrets a reveal trigger exposed
+}
+
+export interface RevealOutcome {
+  secret: SecretRecord;
+  trigger: string | null;         // The trigger that exposed it; null for reveal_secret
+  consequences: string[];         // What onReveal changed and what the DM should play out
+}
+
+function parseJson<T>(raw: string | null, fallback: T): T {
+  if (!raw) return fallback;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * SecretRevealService moves a campaign's secrets on as play happens: after each action it
+ * checks their discovery conditions and reveal triggers against what the party has done,
+ * hands out hints, and applies a secret's onReveal consequences when it comes out.
+ */
+export class SecretRevealService {
+  /**
+   * Check every unrevealed secret against the game state and this action's function results.
+   * Returns null when the campaign has no finished world or nothing is left to reveal.
+   */
+  async evaluate(campaignId: string, results: ActionFunctionResult[]): Promise<SecretRevealReport | null> {
+    const world = await loreRepository.getWorld(campaignId);
+    if (!world || world.generationStatus !== 'completed') return null;
+
+    const secrets = (await loreRepository.list(world.id, 'secret')).filter((s: SecretRecord) => !s.isRevealed);
+    if (secrets.length === 0) return null;
+
+    const [locations, npcs, gameState] = await Promise.all([
+      loreRepository.list(world.id, 'location'),
+      loreRepository.list(world.id, 'npc'),
+      prisma.gameState.findUnique({ where: { campaignId } }),
+    ]);
+
+    const known = { locations: locations.map((l: LocationRecord) => l.name), npcs: npcs.map((n: NpcRecord) => n.name) };
+    const asLocation = (name: string) => resolveName(name, known.locations) ?? name;
+    const asNpc = (name: string) => resolveName(name, known.npcs) ?? name;
+
+    const events = collectRevealEvents(results);
+    const currentLocation = events.lastLocation ?? gameState?.currentLocationId ?? null;
+    const observed: RevealObservations = {
+      day: gameState?.gameDay ?? 1,
+      visitedLocations: [
+        ...locations.filter((l: LocationRecord) => l.isDiscovered).map((l: LocationRecord) => l.name),
+        ...parseJson<string[]>(gameState?.exploredLocations ?? null, []),
+        ...(currentLocation ? [currentLocation] : []),
+        ...events.locations,
+      ].map(asLocation),
+      metNpcs: [
+        ...npcs.filter((n: NpcRecord) => n.isDiscovered).map((n: NpcRecord) => n.name),
+        ...parseJson<string[]>(gameState?.knownNpcs ?? null, []),
+        ...events.npcs,
+      ].map(asNpc),
+      flags: { ...parseJson<Record<string, unknown>>(gameState?.flags ?? null, {}), ...events.flags },
+      checks: events.checks.map((check) => ({ ...check, location: currentLocation && asLocation(currentLocation) })),
+    };
+
+    const report: SecretRevealReport = { hints: [], ripe: [], revealed: [] };
+    for (const secret of secrets) {
+      const evaluation = evaluateSecret(this.toRevealable(secret, known), observed);
+      if (evaluation.newlyMet.length === 0 && !evaluation.becameRipe && !evaluation.trigger) continue;
+
+      const partialReveals = parseJson<string[]>(secret.partialReveals, []);
+      await prisma.worldSecret.update({
+        where: { id: secret.id },
+        data: {
+          revealProgress: JSON.stringify(evaluation.progress),
+          partialReveals: JSON.stringify([...partialReveals, ...evaluation.newHints.map((h) => h.hint)]),
+        },
+      });
+
+      for (const hint of evaluation.newHints) {
+        await partyKnowledgeService.record(campaignId, {
+          entityType: 'secret',
+          entityId: secret.id,
+          kind: 'partial_reveal',
+          content: hint.hint,
+          source: hint.whereFound ?? null,
+          learnedDay: observed.day,
+        });
+        report.hints.push({ secretName: secret.name, hint });
+      }
+      if (evaluation.becameRipe) report.ripe.push(secret.name);
+
+      if (evaluation.trigger) {
+        report.revealed.push(await this.applyReveal(world, secret, evaluation.progress, evaluation.trigger.description));
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * Reveal a secret by name (for the reveal_secret AI function). Its onReveal consequences
+   * only apply the first time. Returns null if the world has no such secret.
+   */
+  async revealByName(campaignId: string, secretName: string): Promise<RevealOutcome | null> {
+    const world = await loreRepository.getWorld(campaignId);
+    if (!world) return null;
+
+    const secret = await loreRepository.findByName(world.id, 'secret', secretName);
+    if (!secret) return null;
+    if (secret.isRevealed) return { secret, trigger: null, consequences: [] };
+
+    const gameState = await prisma.gameState.findUnique({ where: { campaignId }, select: { gameDay: true } });
+    const progress = { ...parseRevealProgress(parseJson(secret.revealProgress, {})), revealedDay: gameState?.gameDay ?? 1 };
+    return this.applyReveal(world, secret, progress, null);
+  }
+
+  /**
+   * What the DM should know about the campaign's secrets: those ready to surface, those the
+   * party is closing in on, and those that just came out. Null when there is nothing to say.
+   */
+  async getSecretsContext(campaignId: string): Promise<string | null> {
+    const world = await loreRepository.getWorld(campaignId);
+    if (!world || world.generationStatus !== 'completed') return null;
+
+    const [secrets, locations, npcs, gameState] = await Promise.all([
+      loreRepository.list(world.id, 'secret'),
+      loreRepository.list(world.id, 'location'),
+      loreRepository.list(world.id, 'npc'),
+      prisma.gameState.findUnique({ where: { campaignId }, select: { gameDay: true } }),
+    ]);
+    const day = gameState?.gameDay ?? 1;
+    const known = { locations: locations.map((l: LocationRecord) => l.name), npcs: npcs.map((n: NpcRecord) => n.name) };
+
+    const ripe: string[] = [];
+    const closing: string[] = [];
+    const revealed: string[] = [];
+    secrets.forEach((secret: SecretRecord) => {
+      const revealable = this.toRevealable(secret, known);
+      const { progress } = revealable;
+
+      if (secret.isRevealed) {
+        if (progress.revealedDay === null || progress.revealedDay < day - RECENT_REVEAL_DAYS) return;
+        const lines = describeConsequences(parseOnReveal(parseJson(secret.onReveal, {})));
+        revealed.push(`- ${secret.name}: ${secret.content}${lines.map((line) => `\n  ${line}`).join('')}`);
+      } else if (progress.ripeDay !== null) {
+        ripe.push(`- ${secret.name}: ${secret.content}`);
+      } else if (progress.hintsGiven > 0) {
+        const latest = orderHints(revealable.hints)[progress.hintsGiven - 1];
+        closing.push(`- ${secret.name} (${describeProgress(revealable)} leads found) - last hint: "${latest.hint}"`);
+      }
+    });
+
+    const sections = [
+      ripe.length > 0 ? `Ready to surface - the party has found every lead, let it come out when the scene allows:\n${ripe.join('\n')}` : '',
+      closing.length > 0 ? `Closing in - keep these hints in play:\n${closing.join('\n')}` : '',
+      revealed.length > 0 ? `Just revealed - play out the consequences:\n${revealed.join('\n')}` : '',
+    ].filter(Boolean);
+    return sections.length > 0 ? sections.join('\n\n') : null;
+  }
+
+  private toRevealable(secret: SecretRecord, known: { locations: string[]; npcs: string[] }): RevealableSecret {
+    return {
+      isRevealed: secret.isRevealed,
+      discoveryConditions: parseRevealConditions(parseJson(secret.discoveryConditions, []), known),
+      revealTriggers: parseRevealConditions(parseJson(secret.revealTriggers, []), known),
+      hints: parseHints(parseJson(secret.hints, [])),
+      progress: parseRevealProgress(parseJson(secret.revealProgress, {})),
+    };
+  }
+
+  // Reveal the secret and apply its onReveal relationship shifts and conflict escalations
+  private async applyReveal(
+    world: WorldSeedRow,
+    secret: SecretRecord,
+    progress: RevealProgress,
+    trigger: string | null
+  ): Promise<RevealOutcome> {
+    const revealed = (await loreRepository.markDiscovered(world.id, 'secret', secret.id)) ?? secret;
+    await prisma.worldSecret.update({ where: { id: secret.id }, data: { revealProgress: JSON.stringify(progress) } });
+
+    const consequences = parseOnReveal(parseJson(secret.onReveal, {}));
+    const applied: string[] = [];
+
+    for (const shift of consequences.relationshipShifts) {
+      const line = await this.shiftRelationship(world.id, shift);
+      if (line) applied.push(line);
+    }
+
+    for (const name of consequences.escalateConflicts) {
+      const conflict = await loreRepository.findByName(world.id, 'conflict', name);
+      if (!conflict) continue;
+      const status = escalateConflictStatus(conflict.status);
+      if (status === conflict.status) continue;
+
+      const timeline = parseJson<ConflictTimelineEntry[]>(conflict.timeline, []);
+      timeline.push({ day: progress.revealedDay ?? 1, event: `${secret.name} came to light` });
+      await prisma.worldConflict.update({
+        where: { id: conflict.id },
+        data: { status, timeline: JSON.stringify(timeline) },
+      });
+      applied.push(`${conflict.name} escalates: ${conflict.status} -> ${status}`);
+    }
+
+    return { secret: revealed, trigger, consequences: [...describeConsequences(consequences), ...applied] };
+  }
+
+  private async shiftRelationship(worldSeedId: string, shift: RelationshipShift): Promise<string | null> {
+    const source = await this.findShiftEntity(worldSeedId, shift.source, shift.sourceType);
+    const target = await this.findShiftEntity(worldSeedId, shift.target, shift.targetType);
+    if (!source || !target) return null;
+
+    const relationship = await relationshipService.shiftRelationship({
+      worldSeedId,
+      sourceType: source.type,
+      sourceId: source.id,
+      targetType: target.type,
+      targetId: target.id,
+      type: shift.type,
+      strengthDelta: shift.strengthDelta,
+      description: shift.description,
+    });
+    return `${source.name} -> ${target.name}: now ${relationship.type} (${relationship.strength}/10)`;
+  }
+
+  private async findShiftEntity(
+    worldSeedId: string,
+    name: string,
+    type?: ShiftEntityType
+  ): Promise<{ type: ShiftEntityType; id: string; name: string } | null> {
+    const types: ShiftEntityType[] = type ? [type] : ['npc', 'faction', 'location'];
+    for (const candidate of types) {
+      const entity = await loreRepository.findByName(worldSeedId, candidate, name);
+      if (entity) return { type: candidate, id: entity.id, name: entity.name };
+    }
+    return null;
+  }
+}
+
+// Default singleton instance
+export const secretRevealService = new SecretRevealService();
@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import {
+  collectRevealEvents,
+  describeConsequences,
+  escalateConflictStatus,
+  evaluateSecret,
+  isConditionMet,
+  parseOnReveal,
+  parseRevealConditions,
+  resolveName,
+  EMPTY_REVEAL_PROGRESS,
+} from './secret-reveal';
+import type { RevealCondition, RevealObservations, RevealableSecret } from './secret-reveal';
+
+const known = { locations: ['Brinemouth', 'The Old Pier'], npcs: ['Marta Vell'] };
+
+function observed(overrides: Partial<RevealObservations> = {}): RevealObservations {
+  return { day: 3, visitedLocations: [], metNpcs: [], flags: {}, checks: [], ...overrides };
+}
+
+function ledgerSecret(overrides: Partial<RevealableSecret> = {}): RevealableSecret {
+  return {
+    isRevealed: false,
+    discoveryConditions: [
+      { type: 'location_visited', target: 'The Old Pier', description: 'Search the pier' },
+      { type: 'npc_met', target: 'Marta Vell', description: 'Meet the harbormaster' },
+      { type: 'narrative', description: 'Earn the smugglers\' trust' },
+    ],
+    revealTriggers: [{ type: 'flag_set', target: 'ledger_found', description: 'The ledger is recovered' }],
+    hints: [
+      { hint: 'The harbor tax rolls were rewritten', obviousness: 'obvious' },
+      { hint: 'Wet ink on an old charter', obviousness: 'subtle' },
+    ],
+    progress: { ...EMPTY_REVEAL_PROGRESS, met: [] },
+    ...overrides,
+  };
+}
+
+describe('secret reveal', () => {
+  it('should read free-text conditions against the world\'s names', () => {
+    const conditions = parseRevealConditions(
+      ['Visiting the old pier at night', 'Winning Marta Vell over', 'A storm floods the archive', { type: 'npc_met' }],
+      known
+    );
+
+    expect(conditions).toEqual([
+      { type: 'location_visited', target: 'The Old Pier', description: 'Visiting the old pier at night' },
+      { type: 'npc_met', target: 'Marta Vell', description: 'Winning Marta Vell over' },
+      { type: 'narrative', description: 'A storm floods the archive' },
+    ]);
+  });
+
+  it('should match names on whole words, exact names first', () => {
+    const names = ['Ashford', 'The Salt Inn', 'Brinemouth', 'Brinemouth Harbor', 'Marta Vell'];
+
+    expect(resolveName('the brinemouth', names)).toBe('Brinemouth');
+    expect(resolveName('Marta', names)).toBe('Marta Vell');
+    expect(resolveName('Salt Inn cellar', names)).toBe('The Salt Inn');
+    expect(resolveName('Ash', names)).toBeNull();
+    expect(resolveName('Inn', names)).toBeNull();
+    // "Brinemouth Docks" could be either Brinemouth
+    expect(resolveName('Brinemouth Docks', ['Brinemouth Harbor', 'Brinemouth Keep'])).toBeNull();
+
+    const conditions = parseRevealConditions(
+      ['Drinking at the Salt Inn', 'Searching Brinemouth Harbor', 'Ashes on the road', 'Any inn will do',
+        { type: 'location_visited', target: 'salt inn' }],
+      { locations: ['Ash', 'Salt', 'The Salt Inn', 'Brinemouth', 'Brinemouth Harbor'], npcs: [] }
+    );
+    expect(conditions.map((c) => c.target)).toEqual(['The Salt Inn', 'Brinemouth Harbor', undefined, undefined, 'The Salt Inn']);
+  });
+
+  it('should match checks by skill, DC and location', () => {
+    const condition: RevealCondition = { type: 'check_succeeded', target: 'sleight of hand', dc: 15, location: 'Old Pier', description: 'Lift the key' };
+    const check = { ability: 'dexterity', skill: 'sleight_of_hand', dc: 15, success: true, location: 'The Old Pier' };
+
+    expect(isConditionMet(condition, observed({ checks: [check] }))).toBe(true);
+    expect(isConditionMet(condition, observed({ checks: [{ ...check, dc: 12 }] }))).toBe(false);
+    expect(isConditionMet(condition, observed({ checks: [{ ...check, location: 'Brinemouth' }] }))).toBe(false);
+    expect(isConditionMet(condition, observed({ checks: [{ ...check, success: false }] }))).toBe(false);
+  });
+
+  it('should hand out one hint per newly met condition, subtle first', () => {
+    const first = evaluateSecret(ledgerSecret(), observed({ visitedLocations: ['Old Pier'] }));
+
+    expect(first.newlyMet.map((c) => c.description)).toEqual(['Search the pier']);
+    expect(first.newHints.map((h) => h.hint)).toEqual(['Wet ink on an old charter']);
+    expect(first.becameRipe).toBe(false);
+
+    const again = evaluateSecret(ledgerSecret({ progress: first.progress }), observed({ visitedLocations: ['Old Pier'] }));
+    expect(again.newlyMet).toEqual([]);
+    expect(again.newHints).toEqual([]);
+  });
+
+  it('should ripen once every checkable condition is met', () => {
+    const evaluation = evaluateSecret(ledgerSecret(), observed({ visitedLocations: ['The Old Pier'], metNpcs: ['Marta Vell'] }));
+
+    expect(evaluation.newHints).toHaveLength(2);
+    expect(evaluation.becameRipe).toBe(true);
+    expect(evaluation.progress).toMatchObject({ met: [0, 1], hintsGiven: 2, ripeDay: 3, revealedDay: null });
+  });
+
+  it('should reveal on a trigger and leave revealed secrets alone', () => {
+    const evaluation = evaluateSecret(ledgerSecret(), observed({ flags: { LEDGER_FOUND: true } }));
+    expect(evaluation.trigger?.description).toBe('The ledger is recovered');
+    expect(evaluation.progress.revealedDay).toBe(3);
+
+    const revealed = evaluateSecret(ledgerSecret({ isRevealed: true }), observed({ flags: { ledger_found: true } }));
+    expect(revealed.trigger).toBeNull();
+  });
+
+  it('should split onReveal into changes to apply and notes for the DM', () => {
+    const consequences = parseOnReveal({
+      narrative: 'The guild turns on the crown',
+      effects: ['Guild prices double'],
+      relationshipChanges: [
+        { source: 'Salt Guild', target: 'Marta Vell', type: 'enemy', strengthDelta: -3, sourceType: 'faction' },
+        { source: 'Salt Guild', target: 'Crown', type: 'sworn foe' },
+        'The dockhands stop trusting the watch',
+      ],
+      escalateConflicts: ['The Salt War'],
+    });
+
+    expect(consequences.relationshipShifts).toEqual([
+      { source: 'Salt Guild', target: 'Marta Vell', sourceType: 'faction', targetType: undefined, type: 'enemy', strengthDelta: -3, description: undefined },
+      { source: 'Salt Guild', target: 'Crown', sourceType: undefined, targetType: undefined, type: undefined, strengthDelta: undefined, description: undefined },
+    ]);
+    expect(consequences.escalateConflicts).toEqual(['The Salt War']);
+    expect(describeConsequences(consequences)).toEqual([
+      'The guild turns on the crown',
+      'Effect: Guild prices double',
+      'Relationship: The dockhands stop trusting the watch',
+    ]);
+  });
+
+  it('should escalate conflicts one step, never past a climax', () => {
+    expect(escalateConflictStatus('brewing')).toBe('active');
+    expect(escalateConflictStatus('active')).toBe('climax');
+    expect(escalateConflictStatus('climax')).toBe('climax');
+    expect(escalateConflictStatus('resolved')).toBe('resolved');
+  });
+
+  it('should collect what an action did from its function results', () => {
+    const events = collectRevealEvents([
+      { name: 'set_location', result: { locationName: 'Brinemouth' } },
+      { name: 'introduce_npc', result: { npcName: 'Marta Vell', async: true } },
+      { name: 'set_flag', result: { flag: 'ledger_found', value: true } },
+      { name: 'roll_ability_check', result: { ability: 'intelligence', skill: 'investigation', dc: 14, total: 17, success: true } },
+      { name: 'roll_dice', result: { total: 4 } },
+    ]);
+
+    expect(events).toEqual({
+      locations: ['Brinemouth'],
+      npcs: ['Marta Vell'],
+      flags: { ledger_found: true },
+      checks: [{ ability: 'intelligence', skill: 'investigation', dc: 14, success: true }],
+      lastLocation: 'Brinemouth',
+    });
+  });
+});
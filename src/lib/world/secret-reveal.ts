@@ -0,0 +1,439 @@
+// Secret Reveal - evaluates a secret's discoveryConditions and revealTriggers against what
+// has happened in play, hands out its hints as the party closes in, and reads its onReveal
+// consequences. Pure functions; SecretRevealService loads and saves the state.
+
+import { normalizeConflictStatus } from './world-simulation';
+import type { ConflictStatus } from './world-simulation';
+import type { RelationshipType } from './relationship-service';
+
+export type RevealConditionType = 'location_visited' | 'npc_met' | 'flag_set' | 'check_succeeded' | 'narrative';
+
+export const REVEAL_CONDITION_TYPES: RevealConditionType[] = ['location_visited', 'npc_met', 'flag_set', 'check_succeeded', 'narrative'];
+
+export interface RevealCondition {
+  type: RevealConditionType;
+  target?: string;      // Location or NPC name, flag name, or the skill/ability of a check
+  value?: unknown;      // flag_set: the value needed (any truthy value when not given)
+  dc?: number;          // check_succeeded: lowest DC that counts
+  location?: string;    // check_succeeded: only counts when made here
+  description: string;  // Narrative conditions can only be judged by the DM
+}
+
+export type HintObviousness = 'subtle' | 'moderate' | 'obvious';
+
+export interface SecretHint {
+  hint: string;
+  whereFound?: string;
+  obviousness?: HintObviousness;
+}
+
+// Stored in WorldSecret.revealProgress
+export interface RevealProgress {
+  met: number[];              // Indices of the discoveryConditions met so far
+  hintsGiven: number;         // Hints handed out, in order of obviousness
+  ripeDay: number | null;     // Day every checkable condition was met
+  revealedDay: number | null; // Day it came out, by trigger or reveal_secret
+}
+
+// What has happened in play, as of this action
+export interface RevealObservations {
+  day: number;
+  visitedLocations: string[];
+  metNpcs: string[];
+  flags: Record<string, unknown>;
+  checks: ObservedCheck[];    // This action's ability checks
+}
+
+export interface ObservedCheck {
+  ability: string;
+  skill?: string;
+  dc: number;
+  success: boolean;
+  location: string | null;
+}
+
+export interface RevealableSecret {
+  isRevealed: boolean;
+  discoveryConditions: RevealCondition[];
+  revealTriggers: RevealCondition[];
+  hints: SecretHint[];
+  progress: RevealProgress;
+}
+
+export interface SecretEvaluation {
+  newlyMet: RevealCondition[];
+  newHints: SecretHint[];
+  becameRipe: boolean;
+  trigger: RevealCondition | null;  // The trigger that exposes it now
+  progress: RevealProgress;
+}
+
+export type ShiftEntityType = 'npc' | 'faction' | 'location';
+
+export interface RelationshipShift {
+  source: string;           // Entity names
+  target: string;
+  sourceType?: ShiftEntityType; // Looked up as NPC, then faction, then location when not given
+  targetType?: ShiftEntityType;
+  type?: RelationshipType;  // New relationship type, e.g. enemy
+  strengthDelta?: number;
+  description?: string;
+}
+
+export interface RevealConsequences {
+  narrative: string | null;
+  effects: string[];
+  relationshipShifts: RelationshipShift[];
+  escalateConflicts: string[];  // Conflict names
+  notes: string[];              // Free-text changes for the DM to play out
+}
+
+const RELATIONSHIP_TYPES: RelationshipType[] = ['ally', 'enemy', 'rival', 'servant', 'patron', 'family', 'trade_partner', 'neutral'];
+const SHIFT_ENTITY_TYPES: ShiftEntityType[] = ['npc', 'faction', 'location'];
+
+const OBVIOUSNESS_ORDER: Record<HintObviousness, number> = { subtle: 0, moderate: 1, obvious: 2 };
+
+export const EMPTY_REVEAL_PROGRESS: RevealProgress = { met: [], hintsGiven: 0, ripeDay: null, revealedDay: null };
+
+// Lowercased whole words of a name or sentence
+function words(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+function nameWords(name: string): string[] {
+  const tokens = words(name);
+  return tokens[0] === 'the' ? tokens.slice(1) : tokens;
+}
+
+function sameWords(a: string[], b: string[]): boolean {
+  return a.length > 0 && a.length === b.length && a.every((word, i) => word === b[i]);
+}
+
+// Whether one name is the other's leading words: "Brinemouth" and "Brinemouth Harbor"
+function leadingWords(a: string[], b: string[]): boolean {
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  return shorter.length > 0 && shorter.every((word, i) => word === longer[i]);
+}
+
+/**
+ * Whether two names are the same once case, punctuation and a leading "the" are
+ * dropped: "the Old Pier" matches "Old Pier"
+ */
+export function namesMatch(a: string | null | undefined, b: string | null | undefined): boolean {
+  if (!a || !b) return false;
+  return sameWords(nameWords(a), nameWords(b));
+}
+
+/**
+ * The world name a loosely written name refers to. An exact match wins; otherwise the one
+ * name it shares its leading words with ("Marta" is "Marta Vell"). Whole words only, so
+ * "Ash" never resolves to "Ashford" nor "Inn" to "The Salt Inn". Null if none or several fit.
+ */
+export function resolveName(name: string, names: string[]): string | null {
+  const wanted = nameWords(name);
+  const exact = names.find((candidate) => sameWords(wanted, nameWords(candidate)));
+  if (exact) return exact;
+  const partial = names.filter((candidate) => leadingWords(wanted, nameWords(candidate)));
+  return partial.length === 1 ? partial[0] : null;
+}
+
+// Whether `name` appears in `text` as a run of whole words
+function mentions(text: string[], name: string[]): boolean {
+  if (name.length === 0) return false;
+  for (let start = 0; start + name.length <= text.length; start++) {
+    if (name.every((word, i) => text[start + i] === word)) return true;
+  }
+  return false;
+}
+
+function isConditionType(value: unknown): value is RevealConditionType {
+  return typeof value === 'string' && (REVEAL_CONDITION_TYPES as string[]).includes(value);
+}
+
+/**
+ * Read stored conditions. Structured ones are kept, their names resolved to the world's;
+ * free text is matched against the world's location and NPC names as whole words, and
+ * anything else is left to the DM as narrative.
+ */
+export function parseRevealConditions(
+  raw: unknown,
+  known: { locations: string[]; npcs: string[] }
+): RevealCondition[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw.flatMap((entry): RevealCondition[] => {
+    if (typeof entry === 'string') {
+      if (!entry.trim()) return [];
+      // The longest name the sentence mentions, so "the Salt Inn" wins over "Salt"
+      const text = words(entry);
+      const mentioned = [
+        ...known.locations.map((target) => ({ type: 'location_visited' as const, target })),
+        ...known.npcs.map((target) => ({ type: 'npc_met' as const, target })),
+      ]
+        .filter((c) => mentions(text, nameWords(c.target)))
+        .sort((a, b) => nameWords(b.target).length - nameWords(a.target).length);
+      if (mentioned.length > 0) return [{ ...mentioned[0], description: entry }];
+      return [{ type: 'narrative', description: entry }];
+    }
+
+    if (!entry || typeof entry !== 'object') return [];
+    const e = entry as Record<string, unknown>;
+    const description = typeof e.description === 'string' ? e.description : '';
+    const type = isConditionType(e.type) ? e.type : 'narrative';
+    const target = typeof e.target === 'string' && e.target.trim() ? e.target : undefined;
+    if (type !== 'narrative' && type !== 'check_succeeded' && !target) {
+      return description ? [{ type: 'narrative', description }] : [];
+    }
+    const location = typeof e.location === 'string' && e.location.trim() ? e.location : undefined;
+    const names = type === 'location_visited' ? known.locations : type === 'npc_met' ? known.npcs : [];
+
+    return [{
+      type,
+      target: target && (resolveName(target, names) ?? target),
+      value: e.value,
+      dc: typeof e.dc === 'number' ? e.dc : undefined,
+      location: location && (resolveName(location, known.locations) ?? location),
+      description: description || [type.replace('_', ' '), target].filter(Boolean).join(': '),
+    }];
+  });
+}
+
+export function parseHints(raw: unknown): SecretHint[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((entry): SecretHint[] => {
+    if (typeof entry === 'string') return entry.trim() ? [{ hint: entry }] : [];
+    if (!entry || typeof entry !== 'object') return [];
+    const e = entry as Record<string, unknown>;
+    if (typeof e.hint !== 'string' || !e.hint.trim()) return [];
+    return [{
+      hint: e.hint,
+      whereFound: typeof e.whereFound === 'string' ? e.whereFound : undefined,
+      obviousness: e.obviousness === 'subtle' || e.obviousness === 'moderate' || e.obviousness === 'obvious'
+        ? e.obviousness
+        : undefined,
+    }];
+  });
+}
+
+/**
+ * Hints in the order they are handed out: subtle first (unrated ones count as moderate)
+ */
+export function orderHints(hints: SecretHint[]): SecretHint[] {
+  return hints
+    .map((hint, index) => ({ hint, index }))
+    .sort((a, b) =>
+      OBVIOUSNESS_ORDER[a.hint.obviousness ?? 'moderate'] - OBVIOUSNESS_ORDER[b.hint.obviousness ?? 'moderate'] ||
+      a.index - b.index
+    )
+    .map(({ hint }) => hint);
+}
+
+export function parseRevealProgress(raw: unknown): RevealProgress {
+  if (!raw || typeof raw !== 'object') return { ...EMPTY_REVEAL_PROGRESS, met: [] };
+  const p = raw as Partial<RevealProgress>;
+  return {
+    met: Array.isArray(p.met) ? p.met.filter((i) => typeof i === 'number') : [],
+    hintsGiven: typeof p.hintsGiven === 'number' ? p.hintsGiven : 0,
+    ripeDay: typeof p.ripeDay === 'number' ? p.ripeDay : null,
+    revealedDay: typeof p.revealedDay === 'number' ? p.revealedDay : null,
+  };
+}
+
+function flagValue(flags: Record<string, unknown>, name: string): { found: boolean; value: unknown } {
+  const key = Object.keys(flags).find((k) => k.toLowerCase() === name.toLowerCase());
+  return key === undefined ? { found: false, value: undefined } : { found: true, value: flags[key] };
+}
+
+export function isConditionMet(condition: RevealCondition, observed: RevealObservations): boolean {
+  switch (condition.type) {
+    case 'location_visited':
+      return observed.visitedLocations.some((name) => namesMatch(name, condition.target));
+    case 'npc_met':
+      return observed.metNpcs.some((name) => namesMatch(name, condition.target));
+    case 'flag_set': {
+      const flag = flagValue(observed.flags, condition.target ?? '');
+      if (!flag.found) return false;
+      return condition.value === undefined
+        ? Boolean(flag.value)
+        : JSON.stringify(flag.value) === JSON.stringify(condition.value);
+    }
+    case 'check_succeeded':
+      return observed.checks.some((check) => {
+        if (!check.success) return false;
+        if (condition.dc !== undefined && check.dc < condition.dc) return false;
+        if (condition.location && !namesMatch(check.location, condition.location)) return false;
+        if (!condition.target) return true;
+        const wanted = condition.target.toLowerCase().replace(/\s+/g, '_');
+        return check.skill?.toLowerCase() === wanted || check.ability.toLowerCase() === wanted;
+      });
+    case 'narrative':
+    default:
+      return false;
+  }
+}
+
+/**
+ * Move a secret on from what has been observed. Each newly met discovery condition
+ * hands out the next hint; once every checkable condition is met the secret is ripe
+ * for the DM to surface. Any met reveal trigger exposes it outright.
+ */
+export function evaluateSecret(secret: RevealableSecret, observed: RevealObservations): SecretEvaluation {
+  const progress: RevealProgress = { ...secret.progress, met: [...secret.progress.met] };
+  const unchanged: SecretEvaluation = { newlyMet: [], newHints: [], becameRipe: false, trigger: null, progress };
+  if (secret.isRevealed) return unchanged;
+
+  const newlyMet: RevealCondition[] = [];
+  secret.discoveryConditions.forEach((condition, index) => {
+    if (!progress.met.includes(index) && isConditionMet(condition, observed)) {
+      progress.met.push(index);
+      newlyMet.push(condition);
+    }
+  });
+
+  const hints = orderHints(secret.hints);
+  const hintsGiven = Math.min(hints.length, progress.hintsGiven + newlyMet.length);
+  const newHints = hints.slice(progress.hintsGiven, hintsGiven);
+  progress.hintsGiven = hintsGiven;
+
+  const checkable = secret.discoveryConditions
+    .map((condition, index) => ({ condition, index }))
+    .filter(({ condition }) => condition.type !== 'narrative');
+  const ripe = checkable.length > 0 && checkable.every(({ index }) => progress.met.includes(index));
+  const becameRipe = ripe && progress.ripeDay === null;
+  if (becameRipe) progress.ripeDay = observed.day;
+
+  const trigger = secret.revealTriggers.find((condition) => isConditionMet(condition, observed)) ?? null;
+  if (trigger) progress.revealedDay = observed.day;
+
+  return { newlyMet, newHints, becameRipe, trigger, progress };
+}
+
+/**
+ * How far along the party is: met checkable conditions out of all checkable ones
+ */
+export function describeProgress(secret: Pick<RevealableSecret, 'discoveryConditions' | 'progress'>): string {
+  const checkable = secret.discoveryConditions
+    .map((condition, index) => ({ condition, index }))
+    .filter(({ condition }) => condition.type !== 'narrative');
+  const met = checkable.filter(({ index }) => secret.progress.met.includes(index)).length;
+  return `${met}/${checkable.length}`;
+}
+
+/**
+ * Read onReveal. Structured relationship shifts and conflict escalations are applied by
+ * the engine; free-text ones go to the DM.
+ */
+export function parseOnReveal(raw: unknown): RevealConsequences {
+  const consequences: RevealConsequences = { narrative: null, effects: [], relationshipShifts: [], escalateConflicts: [], notes: [] };
+  if (!raw || typeof raw !== 'object') return consequences;
+  const r = raw as Record<string, unknown>;
+  const strings = (value: unknown) => (Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && v.trim() !== '') : []);
+
+  consequences.narrative = typeof r.narrative === 'string' && r.narrative.trim() ? r.narrative : null;
+  consequences.effects = strings(r.effects);
+  consequences.escalateConflicts = strings(r.escalateConflicts);
+
+  if (Array.isArray(r.relationshipChanges)) {
+    r.relationshipChanges.forEach((change) => {
+      if (typeof change === 'string') {
+        if (change.trim()) consequences.notes.push(change);
+        return;
+      }
+      if (!change || typeof change !== 'object') return;
+      const c = change as Record<string, unknown>;
+      if (typeof c.source !== 'string' || typeof c.target !== 'string') {
+        if (typeof c.description === 'string') consequences.notes.push(c.description);
+        return;
+      }
+      const entityType = (value: unknown) => SHIFT_ENTITY_TYPES.find((t) => t === value);
+      consequences.relationshipShifts.push({
+        source: c.source,
+        target: c.target,
+        sourceType: entityType(c.sourceType),
+        targetType: entityType(c.targetType),
+        type: RELATIONSHIP_TYPES.find((t) => t === c.type),
+        strengthDelta: typeof c.strengthDelta === 'number' ? c.strengthDelta : undefined,
+        description: typeof c.description === 'string' ? c.description : undefined,
+      });
+    });
+  }
+
+  return consequences;
+}
+
+/**
+ * The parts of onReveal the DM has to play out
+ */
+export function describeConsequences(consequences: RevealConsequences): string[] {
+  return [
+    ...(consequences.narrative ? [consequences.narrative] : []),
+    ...consequences.effects.map((effect) => `Effect: ${effect}`),
+    ...consequences.notes.map((note) => `Relationship: ${note}`),
+  ];
+}
+
+/**
+ * One step up the ladder for a conflict a secret inflames. Climaxes and resolved
+ * conflicts stay where they are - only the living world settles them.
+ */
+export function escalateConflictStatus(status: string): ConflictStatus {
+  const current = normalizeConflictStatus(status);
+  if (current === 'brewing') return 'active';
+  if (current === 'active') return 'climax';
+  return current;
+}
+
+// Function results of an action, as the orchestrator collects them
+export interface ActionFunctionResult {
+  name: string;
+  result?: unknown;
+}
+
+export interface ActionRevealEvents {
+  locations: string[];
+  npcs: string[];
+  flags: Record<string, unknown>;
+  checks: Array<Omit<ObservedCheck, 'location'>>;
+  lastLocation: string | null;  // Where the party ended up, if they moved
+}
+
+/**
+ * What an action's function calls did that can count toward a secret
+ */
+export function collectRevealEvents(results: ActionFunctionResult[]): ActionRevealEvents {
+  const events: ActionRevealEvents = { locations: [], npcs: [], flags: {}, checks: [], lastLocation: null };
+
+  results.forEach(({ name, result }) => {
+    if (!result || typeof result !== 'object') return;
+    const r = result as Record<string, unknown>;
+    switch (name) {
+      case 'set_location':
+        if (typeof r.locationName === 'string') {
+          events.locations.push(r.locationName);
+          events.lastLocation = r.locationName;
+        }
+        break;
+      case 'discover_location':
+        if (typeof r.locationName === 'string') events.locations.push(r.locationName);
+        break;
+      case 'introduce_npc':
+        if (typeof r.npcName === 'string') events.npcs.push(r.npcName);
+        break;
+      case 'set_flag':
+        if (typeof r.flag === 'string') events.flags[r.flag] = r.value;
+        break;
+      case 'roll_ability_check':
+        if (typeof r.ability === 'string' && typeof r.dc === 'number') {
+          events.checks.push({
+            ability: r.ability,
+            skill: typeof r.skill === 'string' ? r.skill : undefined,
+            dc: r.dc,
+            success: r.success === true,
+          });
+        }
+        break;
+    }
+  });
+
+  return events;
+}
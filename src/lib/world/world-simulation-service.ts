@@ -0,0 +1,173 @@
+// src/lib/world/world-simulation-service.ts
+import { prisma } from '@/lib/db';
+import { generateContent } from '@/lib/ai/client';
+import {
+  applyEventText,
+  buildEventTextPrompt,
+  formatWorldChanges,
+  hashSeed,
+  normalizeConflictStatus,
+  parseEventText,
+  simulateWorld,
+} from './world-simulation';
+import type { WorldChange, WorldSnapshot } from './world-simulation';
+
+type FactionRow = NonNullable<Awaited<ReturnType<typeof prisma.worldFaction.findFirst>>>;
+type ConflictRow = NonNullable<Awaited<ReturnType<typeof prisma.worldConflict.findFirst>>>;
+type LocationRow = NonNullable<Awaited<ReturnType<typeof prisma.worldLocation.findFirst>>>;
+type TickRow = NonNullable<Awaited<ReturnType<typeof prisma.worldTick.findFirst>>>;
+
+// Ticks shown to the DM as recent world events
+const RECENT_TICK_LIMIT = 3;
+
+export interface WorldTickSummary {
+  fromDay: number;
+  toDay: number;
+  changes: WorldChange[];
+  changeLog: string;        // Lines for the DM
+  narrated: boolean;        // The AI wrote the event text
+}
+
+export interface AdvanceWorldOptions {
+  narrate?: boolean;        // Ask the AI to write event text for the changes
+}
+
+function parseJson<T>(raw: string | null, fallback: T): T {
+  if (!raw) return fallback;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * WorldSimulationService runs the living world: each time in-game days pass,
+ * the campaign's WorldSeed factions, conflicts and locations move on and the
+ * tick's change log is saved for the DM.
+ */
+export class WorldSimulationService {
+  /**
+   * Simulate the world through `toDay`, picking up from the last simulated day.
+   * Returns null when there is no finished world to simulate or no day to catch up on.
+   */
+  async advance(campaignId: string, toDay: number, options: AdvanceWorldOptions = {}): Promise<WorldTickSummary | null> {
+    const worldSeed = await prisma.worldSeed.findUnique({
+      where: { campaignId },
+      include: { factions: true, conflicts: true, locations: true },
+    });
+    if (!worldSeed || worldSeed.generationStatus !== 'completed' || toDay <= worldSeed.simulatedDay) return null;
+
+    const before: WorldSnapshot = {
+      factions: worldSeed.factions.map((f: FactionRow) => ({
+        id: f.id,
+        name: f.name,
+        influence: f.influence,
+        territory: parseJson<string[]>(f.territory, []),
+      })),
+      conflicts: worldSeed.conflicts.map((c: ConflictRow) => ({
+        id: c.id,
+        name: c.name,
+        status: normalizeConflictStatus(c.status),
+        sides: parseJson(c.sides, []),
+        possibleOutcomes: parseJson<string[]>(c.possibleOutcomes, []),
+        timeline: parseJson(c.timeline, []),
+        currentState: c.currentState,
+        playerInfluence: parseJson(c.playerInfluence, []),
+        affectedLocationIds: parseJson<string[]>(c.affectedLocationIds, []),
+      })),
+      locations: worldSeed.locations.map((l: LocationRow) => ({
+        id: l.id,
+        name: l.name,
+        controllingFactionId: l.controllingFactionId,
+        contestedBy: parseJson<string[]>(l.contestedBy, []),
+        currentEvents: parseJson<string[]>(l.currentEvents, []),
+        rumors: parseJson<string[]>(l.rumors, []),
+      })),
+    };
+
+    const tick = simulateWorld(before, worldSeed.simulatedDay, toDay, hashSeed(worldSeed.id));
+    let world = tick.world;
+    let narrative: string | null = null;
+
+    if (options.narrate && tick.changes.length > 0) {
+      try {
+        const response = await generateContent(
+          buildEventTextPrompt(worldSeed.name, worldSeed.tone, tick.changes),
+          undefined,
+          { campaignId }
+        );
+        const texts = parseEventText(response, tick.changes.length);
+        if (texts) {
+          world = applyEventText(world, tick.changes, texts);
+          narrative = texts.join('\n');
+        }
+      } catch (error) {
+        console.error('Failed to write world event text:', error);
+      }
+    }
+
+    // Only rows the tick touched are written back
+    const changed = <T>(rows: T[], previous: T[]) => rows.filter((row, i) => JSON.stringify(row) !== JSON.stringify(previous[i]));
+
+    await prisma.$transaction([
+      ...changed(world.factions, before.factions).map((f) => prisma.worldFaction.update({
+        where: { id: f.id },
+        data: { influence: f.influence, territory: JSON.stringify(f.territory) },
+      })),
+      ...changed(world.conflicts, before.conflicts).map((c) => prisma.worldConflict.update({
+        where: { id: c.id },
+        data: { status: c.status, currentState: c.currentState, timeline: JSON.stringify(c.timeline) },
+      })),
+      ...changed(world.locations, before.locations).map((l) => prisma.worldLocation.update({
+        where: { id: l.id },
+        data: {
+          controllingFactionId: l.controllingFactionId,
+          contestedBy: JSON.stringify(l.contestedBy),
+          currentEvents: JSON.stringify(l.currentEvents),
+          rumors: JSON.stringify(l.rumors),
+        },
+      })),
+      ...(tick.changes.length > 0 ? [prisma.worldTick.create({
+        data: {
+          worldSeedId: worldSeed.id,
+          fromDay: tick.fromDay,
+          toDay: tick.toDay,
+          changes: JSON.stringify(tick.changes),
+          narrative,
+        },
+      })] : []),
+      prisma.worldSeed.update({
+        where: { id: worldSeed.id },
+        data: { simulatedDay: toDay },
+      }),
+    ]);
+
+    return {
+      fromDay: tick.fromDay,
+      toDay: tick.toDay,
+      changes: tick.changes,
+      changeLog: formatWorldChanges(tick.changes),
+      narrated: narrative !== null,
+    };
+  }
+
+  /**
+   * Change log of the latest ticks, oldest first, for the DM's context. Null when nothing has changed.
+   */
+  async getRecentChangeLog(campaignId: string): Promise<string | null> {
+    const ticks = await prisma.worldTick.findMany({
+      where: { worldSeed: { campaignId } },
+      orderBy: { toDay: 'desc' },
+      take: RECENT_TICK_LIMIT,
+    });
+
+    const changes = ticks
+      .reverse()
+      .flatMap((t: TickRow) => parseJson<WorldChange[]>(t.changes, []));
+    return changes.length > 0 ? formatWorldChanges(changes) : null;
+  }
+}
+
+// Default singleton instance
+export const worldSimulationService = new WorldSimulationService();
@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyEventText,
+  formatWorldChanges,
+  getSideStrengths,
+  hashSeed,
+  MAX_LOCATION_EVENTS,
+  MAX_SIMULATED_DAYS,
+  normalizeConflictStatus,
+  parseEventText,
+  simulateWorld,
+} from './world-simulation';
+import type { ConflictStatus, SimConflict, WorldSnapshot } from './world-simulation';
+
+const SEED = hashSeed('world-1');
+
+function conflict(status: ConflictStatus, overrides: Partial<SimConflict> = {}): SimConflict {
+  return {
+    id: 'salt-war',
+    name: 'The Salt War',
+    status,
+    sides: [
+      { name: 'The Crown', factions: ['Iron Court'] },
+      { name: 'The Guilds', factions: ['Salt Guild'] },
+    ],
+    possibleOutcomes: ['The Crown seizes the salt pans', 'The guilds win their charter'],
+    timeline: [],
+    currentState: null,
+    playerInfluence: [],
+    affectedLocationIds: [],
+    ...overrides,
+  };
+}
+
+function world(...conflicts: SimConflict[]): WorldSnapshot {
+  return {
+    factions: [
+      { id: 'crown', name: 'Iron Court', influence: 6, territory: ['Highkeep'] },
+      { id: 'guild', name: 'Salt Guild', influence: 5, territory: ['Brinemouth'] },
+    ],
+    conflicts,
+    locations: [
+      { id: 'highkeep', name: 'Highkeep', controllingFactionId: 'crown', contestedBy: [], currentEvents: [], rumors: [] },
+      { id: 'brinemouth', name: 'Brinemouth', controllingFactionId: 'guild', contestedBy: ['Iron Court'], currentEvents: [], rumors: [] },
+      { id: 'fenwick', name: 'Fenwick', controllingFactionId: null, contestedBy: [], currentEvents: [], rumors: [] },
+    ],
+  };
+}
+
+describe('world simulation', () => {
+  it('should give the same world for the same days and seed', () => {
+    const start = world(conflict('brewing'), conflict('active', { id: 'feud', name: 'The Feud' }));
+
+    const whole = simulateWorld(start, 1, 21, SEED);
+    const firstHalf = simulateWorld(start, 1, 11, SEED);
+    const split = simulateWorld(firstHalf.world, 11, 21, SEED);
+
+    expect(simulateWorld(start, 1, 21, SEED)).toEqual(whole);
+    expect(split.world).toEqual(whole.world);
+    expect([...firstHalf.changes, ...split.changes]).toEqual(whole.changes);
+  });
+
+  it('should not change the world it was given', () => {
+    const start = world(conflict('climax'));
+    const before = JSON.parse(JSON.stringify(start));
+
+    simulateWorld(start, 1, 30, SEED);
+    expect(start).toEqual(before);
+  });
+
+  it('should do nothing when no day passes', () => {
+    expect(simulateWorld(world(conflict('climax')), 5, 5, SEED)).toMatchObject({ fromDay: 5, toDay: 5, changes: [] });
+  });
+
+  it('should cap long stretches', () => {
+    expect(simulateWorld(world(conflict('brewing')), 1, 400, SEED).toDay).toBe(1 + MAX_SIMULATED_DAYS);
+  });
+
+  it('should resolve a conflict at its climax with one of its outcomes', () => {
+    const result = simulateWorld(world(conflict('climax')), 1, 31, SEED);
+    const resolved = result.world.conflicts[0];
+
+    expect(resolved.status).toBe('resolved');
+    expect(resolved.possibleOutcomes).toContain(resolved.currentState);
+    expect(result.changes.filter((c) => c.type === 'conflict_resolved')).toHaveLength(1);
+    expect(resolved.timeline.map((t) => t.event)).toEqual(result.changes.map((c) => c.summary));
+
+    // Nothing more happens to it
+    expect(simulateWorld(result.world, 31, 61, SEED).changes).toEqual([]);
+  });
+
+  it('should hand over territory consistently', () => {
+    const result = simulateWorld(world(conflict('climax'), conflict('climax', { id: 'feud', name: 'The Feud' })), 1, 31, SEED);
+    const handovers = result.changes.filter((c) => c.type === 'territory_changed');
+    expect(handovers.length).toBeGreaterThan(0);
+
+    result.world.locations.forEach((location) => {
+      const holders = result.world.factions.filter((f) => f.territory.includes(location.name));
+      expect(holders.map((f) => f.id)).toEqual(location.controllingFactionId ? [location.controllingFactionId] : []);
+    });
+  });
+
+  it('should keep influence in range and events capped', () => {
+    const result = simulateWorld(world(conflict('active'), conflict('active', { id: 'feud', name: 'The Feud' })), 1, 31, SEED);
+
+    expect(result.changes.some((c) => c.type === 'influence_shifted')).toBe(true);
+    result.world.factions.forEach((f) => {
+      expect(f.influence).toBeGreaterThanOrEqual(1);
+      expect(f.influence).toBeLessThanOrEqual(10);
+    });
+    result.world.locations.forEach((l) => {
+      expect(l.currentEvents.length).toBeLessThanOrEqual(MAX_LOCATION_EVENTS);
+      expect(l.rumors.length).toBeLessThanOrEqual(MAX_LOCATION_EVENTS);
+    });
+  });
+
+  it('should post news where the conflict is felt', () => {
+    const start = world(conflict('brewing', { affectedLocationIds: ['fenwick'] }));
+    const escalation = simulateWorld(start, 1, 31, SEED).changes.find((c) => c.type === 'conflict_escalated')!;
+    const result = simulateWorld(start, 1, escalation.day, SEED);
+
+    expect(escalation.summary).toBe('The Salt War breaks out into the open (active)');
+    expect(result.world.locations.find((l) => l.id === 'fenwick')!.currentEvents).toContain(`Day ${escalation.day}: ${escalation.summary}`);
+    expect(result.world.locations.filter((l) => l.rumors.includes('Trouble is brewing: The Salt War'))).toHaveLength(2);
+  });
+
+  it('should weigh sides by influence and the party\'s help', () => {
+    const factions = world().factions;
+    expect(getSideStrengths(conflict('active'), factions)).toEqual([6, 5]);
+
+    const helped = conflict('active', { playerInfluence: [{ side: 'the guilds', description: 'Broke the blockade' }] });
+    expect(getSideStrengths(helped, factions)).toEqual([6, 8]);
+  });
+
+  it('should read unknown statuses as brewing', () => {
+    expect(normalizeConflictStatus('climax')).toBe('climax');
+    expect(normalizeConflictStatus('simmering')).toBe('brewing');
+  });
+
+  describe('event text', () => {
+    it('should only accept one line per change', () => {
+      expect(parseEventText('Here you go: {"events": ["Crown troops march on Brinemouth."]}', 1)).toEqual(['Crown troops march on Brinemouth.']);
+      expect(parseEventText('{"events": ["One", "Two"]}', 1)).toBeNull();
+      expect(parseEventText('{"events": [""]}', 1)).toBeNull();
+      expect(parseEventText('no json', 1)).toBeNull();
+    });
+
+    it('should replace the posted summaries', () => {
+      const start = world(conflict('brewing', { affectedLocationIds: ['fenwick'] }));
+      const escalation = simulateWorld(start, 1, 31, SEED).changes.find((c) => c.type === 'conflict_escalated')!;
+      const tick = simulateWorld(start, 1, escalation.day, SEED);
+
+      const written = applyEventText(tick.world, tick.changes, tick.changes.map((c) => `News of ${c.type}`));
+      expect(written.locations.find((l) => l.id === 'fenwick')!.currentEvents).toContain(`Day ${escalation.day}: News of conflict_escalated`);
+      expect(written.conflicts).toEqual(tick.world.conflicts);
+    });
+  });
+
+  it('should format changes for the DM', () => {
+    expect(formatWorldChanges([
+      { day: 3, type: 'conflict_escalated', summary: 'The Salt War comes to a head (climax)', factionIds: [], locationIds: [] },
+    ])).toBe('- Day 3: The Salt War comes to a head (climax)');
+  });
+});
@@ -0,0 +1,393 @@
+// World Simulation - factions and conflicts move on as in-game days pass.
+// Pure and deterministic: the same world, days and seed give the same tick.
+
+import { SeededRandom } from '@/lib/engine/seeded-random';
+
+// Longest stretch simulated in one tick; longer gaps are cut short
+export const MAX_SIMULATED_DAYS = 30;
+
+// Most recent entries kept in a location's currentEvents and rumors
+export const MAX_LOCATION_EVENTS = 5;
+
+export const MIN_INFLUENCE = 1;
+export const MAX_INFLUENCE = 10;
+
+export type ConflictStatus = 'brewing' | 'active' | 'climax' | 'resolved';
+
+// Daily chance a conflict moves to the next status
+const ESCALATION_CHANCE: Record<Exclude<ConflictStatus, 'resolved'>, number> = {
+  brewing: 0.08,
+  active: 0.06,
+  climax: 0.2,
+};
+
+// Daily chance a side of an active conflict gains ground, and of a location changing hands at its climax
+const INFLUENCE_SHIFT_CHANCE = 0.25;
+const TERRITORY_CHANGE_CHANCE = 0.3;
+
+// Each recorded party intervention counts as this much influence for the side it helped
+const PLAYER_INFLUENCE_WEIGHT = 3;
+
+// Other locations a rumor of an escalation or resolution spreads to
+const RUMOR_SPREAD = 2;
+
+export interface ConflictSide {
+  name: string;
+  factions?: string[];   // Faction names
+  npcs?: string[];
+  goals?: string;
+}
+
+export interface ConflictTimelineEntry {
+  day: number;
+  event: string;
+}
+
+// Something the party did that helped one side of a conflict
+export interface PlayerInfluence {
+  day?: number;
+  side?: string;
+  description: string;
+}
+
+export interface SimFaction {
+  id: string;
+  name: string;
+  influence: number;
+  territory: string[];   // Names of the locations it controls
+}
+
+export interface SimConflict {
+  id: string;
+  name: string;
+  status: ConflictStatus;
+  sides: ConflictSide[];
+  possibleOutcomes: string[];
+  timeline: ConflictTimelineEntry[];
+  currentState: string | null;
+  playerInfluence: PlayerInfluence[];
+  affectedLocationIds: string[];
+}
+
+export interface SimLocation {
+  id: string;
+  name: string;
+  controllingFactionId: string | null;
+  contestedBy: string[];  // Faction names
+  currentEvents: string[];
+  rumors: string[];
+}
+
+export interface WorldSnapshot {
+  factions: SimFaction[];
+  conflicts: SimConflict[];
+  locations: SimLocation[];
+}
+
+export type WorldChangeType = 'conflict_escalated' | 'conflict_resolved' | 'influence_shifted' | 'territory_changed';
+
+export interface WorldChange {
+  day: number;
+  type: WorldChangeType;
+  summary: string;          // One line for the DM: "The Salt War breaks out into the open (active)"
+  conflictId?: string;
+  factionIds: string[];
+  locationIds: string[];
+}
+
+export interface WorldTickResult {
+  fromDay: number;
+  toDay: number;            // Last day simulated (capped at MAX_SIMULATED_DAYS after fromDay)
+  changes: WorldChange[];
+  world: WorldSnapshot;     // The world after the tick
+}
+
+// 32-bit FNV-1a hash, for seeding a world's ticks from its ID
+export function hashSeed(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash | 0;
+}
+
+/**
+ * A stored status on the ladder brewing → active → climax → resolved.
+ * Unknown statuses from generation are treated as brewing.
+ */
+export function normalizeConflictStatus(status: string): ConflictStatus {
+  return (['brewing', 'active', 'climax', 'resolved'] as const).find((s) => s === status) ?? 'brewing';
+}
+
+function clampInfluence(value: number): number {
+  return Math.min(MAX_INFLUENCE, Math.max(MIN_INFLUENCE, value));
+}
+
+function pushCapped(list: string[], entry: string): string[] {
+  return [...list, entry].slice(-MAX_LOCATION_EVENTS);
+}
+
+function cloneWorld(world: WorldSnapshot): WorldSnapshot {
+  return {
+    factions: world.factions.map((f) => ({ ...f, territory: [...f.territory] })),
+    conflicts: world.conflicts.map((c) => ({ ...c, timeline: [...c.timeline] })),
+    locations: world.locations.map((l) => ({ ...l, contestedBy: [...l.contestedBy], currentEvents: [...l.currentEvents], rumors: [...l.rumors] })),
+  };
+}
+
+/**
+ * Strength of each side: its factions' influence plus the party's help
+ */
+export function getSideStrengths(conflict: SimConflict, factions: SimFaction[]): number[] {
+  return conflict.sides.map((side) => {
+    const influence = (side.factions ?? [])
+      .map((name) => factions.find((f) => f.name.toLowerCase() === name.toLowerCase())?.influence ?? 0)
+      .reduce((sum, value) => sum + value, 0);
+    const help = conflict.playerInfluence.filter((p) => p.side?.toLowerCase() === side.name.toLowerCase()).length;
+    return Math.max(1, influence + help * PLAYER_INFLUENCE_WEIGHT);
+  });
+}
+
+class WorldSimulator {
+  readonly changes: WorldChange[] = [];
+  private random: () => number = Math.random;
+
+  constructor(readonly world: WorldSnapshot) {}
+
+  private pick<T>(items: T[]): T {
+    return items[Math.floor(this.random() * items.length)];
+  }
+
+  // Index of a side, weighted by strength
+  private pickSide(conflict: SimConflict): number {
+    const strengths = getSideStrengths(conflict, this.world.factions);
+    let roll = this.random() * strengths.reduce((sum, s) => sum + s, 0);
+    for (let i = 0; i < strengths.length; i++) {
+      roll -= strengths[i];
+      if (roll < 0) return i;
+    }
+    return strengths.length - 1;
+  }
+
+  private sideFactions(side: ConflictSide): SimFaction[] {
+    const names = (side.factions ?? []).map((n) => n.toLowerCase());
+    return this.world.factions.filter((f) => names.includes(f.name.toLowerCase()));
+  }
+
+  // Locations a conflict touches: the ones it names, else those its factions hold or contest
+  private affectedLocations(conflict: SimConflict): SimLocation[] {
+    if (conflict.affectedLocationIds.length > 0) {
+      return this.world.locations.filter((l) => conflict.affectedLocationIds.includes(l.id));
+    }
+    const involved = conflict.sides.flatMap((s) => this.sideFactions(s));
+    const ids = involved.map((f) => f.id);
+    const names = involved.map((f) => f.name.toLowerCase());
+    return this.world.locations.filter((l) =>
+      (l.controllingFactionId && ids.includes(l.controllingFactionId))
+      || l.contestedBy.some((n) => names.includes(n.toLowerCase()))
+    );
+  }
+
+  private record(change: WorldChange, conflict?: SimConflict, rumor?: string) {
+    this.changes.push(change);
+    const event = `Day ${change.day}: ${change.summary}`;
+    if (conflict) conflict.timeline.push({ day: change.day, event: change.summary });
+
+    const local = conflict ? this.affectedLocations(conflict).map((l) => l.id) : [];
+    const here = Array.from(new Set([...change.locationIds, ...local]));
+    here.forEach((id) => {
+      const location = this.world.locations.find((l) => l.id === id)!;
+      location.currentEvents = pushCapped(location.currentEvents, event);
+    });
+
+    // Word travels to places the news doesn't touch directly
+    if (rumor) {
+      const elsewhere = this.world.locations.filter((l) => !here.includes(l.id));
+      for (let i = 0; i < RUMOR_SPREAD && elsewhere.length > 0; i++) {
+        const location = elsewhere.splice(Math.floor(this.random() * elsewhere.length), 1)[0];
+        location.rumors = pushCapped(location.rumors, rumor);
+      }
+    }
+  }
+
+  private shiftInfluence(day: number, conflict: SimConflict, winner: number, amount: number) {
+    const gainers = this.sideFactions(conflict.sides[winner]);
+    const losers = conflict.sides.filter((_, i) => i !== winner).flatMap((s) => this.sideFactions(s));
+    const gainer = gainers.length > 0 ? this.pick(gainers) : undefined;
+    const loser = losers.length > 0 ? this.pick(losers) : undefined;
+
+    const moved = [gainer, loser].filter((f): f is SimFaction => {
+      if (!f) return false;
+      const next = clampInfluence(f.influence + (f === gainer ? amount : -amount));
+      const changed = next !== f.influence;
+      f.influence = next;
+      return changed;
+    });
+    if (moved.length === 0) return;
+
+    const parts = moved.map((f) => `${f.name} ${f === gainer ? 'gains' : 'loses'} influence (${f.influence})`);
+    this.record({
+      day,
+      type: 'influence_shifted',
+      summary: `${conflict.sides[winner].name} gains ground in ${conflict.name}: ${parts.join(', ')}`,
+      conflictId: conflict.id,
+      factionIds: moved.map((f) => f.id),
+      locationIds: [],
+    }, conflict);
+  }
+
+  private takeTerritory(day: number, conflict: SimConflict, winner: number) {
+    const victors = this.sideFactions(conflict.sides[winner]);
+    if (victors.length === 0) return;
+    const taker = victors.reduce((best, f) => (f.influence > best.influence ? f : best));
+    const victorIds = victors.map((f) => f.id);
+
+    const candidates = this.affectedLocations(conflict).filter((l) => !l.controllingFactionId || !victorIds.includes(l.controllingFactionId));
+    if (candidates.length === 0) return;
+    const location = this.pick(candidates);
+    const previous = this.world.factions.find((f) => f.id === location.controllingFactionId);
+
+    location.controllingFactionId = taker.id;
+    location.contestedBy = location.contestedBy.filter((n) => n.toLowerCase() !== taker.name.toLowerCase());
+    if (previous && !location.contestedBy.some((n) => n.toLowerCase() === previous.name.toLowerCase())) {
+      location.contestedBy.push(previous.name);
+    }
+    if (previous) previous.territory = previous.territory.filter((n) => n !== location.name);
+    if (!taker.territory.includes(location.name)) taker.territory.push(location.name);
+
+    this.record({
+      day,
+      type: 'territory_changed',
+      summary: `${taker.name} takes control of ${location.name}${previous ? ` from ${previous.name}` : ''} (${conflict.name})`,
+      conflictId: conflict.id,
+      factionIds: [taker.id, ...(previous ? [previous.id] : [])],
+      locationIds: [location.id],
+    }, conflict, `They say ${taker.name} now holds ${location.name}`);
+  }
+
+  private escalate(day: number, conflict: SimConflict, to: 'active' | 'climax') {
+    conflict.status = to;
+    const summary = to === 'active'
+      ? `${conflict.name} breaks out into the open`
+      : `${conflict.name} comes to a head`;
+    conflict.currentState = summary;
+    this.record({ day, type: 'conflict_escalated', summary: `${summary} (${to})`, conflictId: conflict.id, factionIds: [], locationIds: [] },
+      conflict, to === 'active' ? `Trouble is brewing: ${conflict.name}` : `Everyone is talking about ${conflict.name}`);
+  }
+
+  private resolve(day: number, conflict: SimConflict) {
+    const winner = this.pickSide(conflict);
+    const side = conflict.sides[winner];
+    const outcome = conflict.possibleOutcomes[winner] ?? conflict.possibleOutcomes[0] ?? `${side?.name ?? 'One side'} prevails`;
+
+    conflict.status = 'resolved';
+    conflict.currentState = outcome;
+    this.record({
+      day,
+      type: 'conflict_resolved',
+      summary: `${conflict.name} ends${side ? ` - ${side.name} prevails` : ''}: ${outcome}`,
+      conflictId: conflict.id,
+      factionIds: side ? this.sideFactions(side).map((f) => f.id) : [],
+      locationIds: [],
+    }, conflict, `${conflict.name} is over, they say: ${outcome}`);
+
+    if (side) this.shiftInfluence(day, conflict, winner, 2);
+  }
+
+  simulateDay(day: number, random: () => number) {
+    this.random = random;
+    this.world.conflicts.forEach((conflict) => {
+      switch (conflict.status) {
+        case 'brewing':
+          if (this.random() < ESCALATION_CHANCE.brewing) this.escalate(day, conflict, 'active');
+          break;
+        case 'active':
+          if (conflict.sides.length > 1 && this.random() < INFLUENCE_SHIFT_CHANCE) {
+            this.shiftInfluence(day, conflict, this.pickSide(conflict), 1);
+          }
+          if (this.random() < ESCALATION_CHANCE.active) this.escalate(day, conflict, 'climax');
+          break;
+        case 'climax':
+          if (conflict.sides.length > 0 && this.random() < TERRITORY_CHANGE_CHANCE) {
+            this.takeTerritory(day, conflict, this.pickSide(conflict));
+          }
+          if (this.random() < ESCALATION_CHANCE.climax) this.resolve(day, conflict);
+          break;
+      }
+    });
+  }
+}
+
+/**
+ * Simulate the world from the end of `fromDay` through `toDay`: conflicts escalate
+ * and resolve, factions gain and lose influence and territory, and locations hear
+ * about it. The world moves on whether or not the party got involved; recorded
+ * player influence only tips the odds.
+ */
+export function simulateWorld(world: WorldSnapshot, fromDay: number, toDay: number, seed: number): WorldTickResult {
+  const lastDay = Math.min(toDay, fromDay + MAX_SIMULATED_DAYS);
+  const simulator = new WorldSimulator(cloneWorld(world));
+
+  for (let day = fromDay + 1; day <= lastDay; day++) {
+    // Each day has its own stream, so a tick split in two gives the same world
+    simulator.simulateDay(day, new SeededRandom((seed ^ Math.imul(day, 0x9e3779b1)) >>> 0).next);
+  }
+
+  return { fromDay, toDay: Math.max(fromDay, lastDay), changes: simulator.changes, world: simulator.world };
+}
+
+/**
+ * A tick's changes as lines for the DM
+ */
+export function formatWorldChanges(changes: WorldChange[]): string {
+  return changes.map((c) => `- Day ${c.day}: ${c.summary}`).join('\n');
+}
+
+/**
+ * Prompt asking the AI to write in-world event text for a tick's changes, one line each
+ */
+export function buildEventTextPrompt(worldName: string | null, tone: string, changes: WorldChange[]): string {
+  return `Rewrite these changes in the world${worldName ? ` of ${worldName}` : ''} as short in-world news (${tone} tone), the way townsfolk would report them.
+
+CHANGES:
+${changes.map((c, i) => `${i + 1}. ${c.summary}`).join('\n')}
+
+Reply in JSON format:
+{"events": ["one sentence per change, in the same order"]}
+
+RULES:
+- Exactly ${changes.length} event${changes.length === 1 ? '' : 's'}, one per change
+- Keep every name as given
+- No game mechanics or numbers`;
+}
+
+/**
+ * Event text from the AI's reply; null unless there is one line per change
+ */
+export function parseEventText(response: string, count: number): string[] | null {
+  const json = response.match(/\{[\s\S]*\}/);
+  if (!json) return null;
+  try {
+    const events = (JSON.parse(json[0]) as { events?: unknown }).events;
+    if (!Array.isArray(events) || events.length !== count) return null;
+    if (!events.every((e) => typeof e === 'string' && e.trim().length > 0)) return null;
+    return events.map((e: string) => e.trim());
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Swap the plain summaries a tick posted to locations' currentEvents for written event text
+ */
+export function applyEventText(world: WorldSnapshot, changes: WorldChange[], texts: string[]): WorldSnapshot {
+  const replacements = new Map(changes.map((c, i) => [`Day ${c.day}: ${c.summary}`, `Day ${c.day}: ${texts[i] ?? c.summary}`]));
+  return {
+    ...world,
+    locations: world.locations.map((l) => ({
+      ...l,
+      currentEvents: l.currentEvents.map((event) => replacements.get(event) ?? event),
+    })),
+  };
+}
@@ -6,6 +6,8 @@ export default defineConfig({
     environment: 'node',
     globals: true,
     include: ['src/**/*.{test,spec}.{js,mjs,cjs,ts,mts,cts,jsx,tsx}'],
+    // Use the scripted mock AI provider - no network access during tests
+    env: { AI_OFFLINE: '1' },
     // Run test files sequentially to avoid database conflicts
     fileParallelism: false,
     // Run tests within a file sequentially